@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Copy, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { API_SCOPES } from "@/lib/public-api/scopes";
+import type { ApiKeySummary, ApiScope } from "@/lib/public-api/types";
+
+interface ApiKeysSettingsProps {
+  user: User;
+}
+
+interface ApiKeysResponse {
+  keys: ApiKeySummary[];
+  access: boolean;
+  grantable_scopes: ApiScope[];
+  limits: { max_keys: number; requests_per_minute: number; requests_per_day: number };
+  usage: { day: string; requests: number }[];
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never", days: null },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+];
+
+const inputClassName =
+  "w-full rounded-lg border border-neutral-300 bg-white px-4 py-2 text-sm text-neutral-900 placeholder-neutral-400 transition-colors focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20 dark:border-neutral-700 dark:bg-neutral-800 dark:text-white dark:placeholder-neutral-500";
+
+export default function ApiKeysSettings({ user }: ApiKeysSettingsProps) {
+  const [data, setData] = useState<ApiKeysResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/api-keys", { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load API keys");
+      const json = (await res.json()) as ApiKeysResponse;
+      setData(json);
+      setScopes((current) => (current.length > 0 ? current : json.grantable_scopes.filter((s) => s !== "arbs:live")));
+    } catch (error: any) {
+      toast.error(error.message || "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) load();
+  }, [user, load]);
+
+  const createKey = async () => {
+    if (!name.trim() || scopes.length === 0) return;
+    setCreating(true);
+    try {
+      const res = await fetch("/api/user/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes, expires_in_days: expiresInDays }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to create API key");
+      setRevealed({ name: json.key.name, secret: json.secret });
+      setCopied(false);
+      setName("");
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const rotateKey = async (key: ApiKeySummary) => {
+    if (!confirm(`Rotate "${key.name}"? The current secret stops working immediately.`)) return;
+    setBusyKeyId(key.id);
+    try {
+      const res = await fetch(`/api/user/api-keys/${key.id}/rotate`, { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to rotate API key");
+      setRevealed({ name: key.name, secret: json.secret });
+      setCopied(false);
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to rotate API key");
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const revokeKey = async (key: ApiKeySummary) => {
+    if (!confirm(`Revoke "${key.name}"? Apps using it will stop working.`)) return;
+    setBusyKeyId(key.id);
+    try {
+      const res = await fetch(`/api/user/api-keys/${key.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to revoke API key");
+      toast.success("API key revoked");
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to revoke API key");
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealed) return;
+    await navigator.clipboard.writeText(revealed.secret);
+    setCopied(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  if (!data?.access) {
+    return (
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <h2 className="text-lg font-semibold text-neutral-900 dark:text-white">API Keys</h2>
+        <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+          Pull edge finder, +EV and arbitrage data into your own models with a personal API key.
+        </p>
+        <div className="mt-4 rounded-lg border border-neutral-200 bg-neutral-50 p-4 dark:border-neutral-700 dark:bg-neutral-800/50">
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            API access is available on the Sharp and Elite plans.{" "}
+            <a href="/plans" className="text-brand hover:underline">
+              View plans
+            </a>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const activeKeys = data.keys.filter((k) => !k.revoked_at);
+  const today = new Date().toISOString().slice(0, 10);
+  const usedToday = data.usage.find((u) => u.day === today)?.requests ?? 0;
+  const atKeyLimit = activeKeys.length >= data.limits.max_keys;
+
+  return (
+    <div className="space-y-6">
+      {/* Newly created / rotated secret */}
+      {revealed && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-6 dark:border-emerald-800 dark:bg-emerald-950/40">
+          <h2 className="text-sm font-semibold text-emerald-900 dark:text-emerald-200">
+            Copy your key for "{revealed.name}" now
+          </h2>
+          <p className="mt-1 text-sm text-emerald-800 dark:text-emerald-300">
+            It won&apos;t be shown again. Store it somewhere safe.
+          </p>
+          <div className="mt-3 flex items-center gap-2">
+            <code className="flex-1 truncate rounded-md bg-white px-3 py-2 font-mono text-xs text-neutral-900 dark:bg-neutral-900 dark:text-white">
+              {revealed.secret}
+            </code>
+            <button
+              onClick={copySecret}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button
+              onClick={() => setRevealed(null)}
+              className="rounded-lg px-3 py-2 text-sm text-emerald-800 hover:bg-emerald-100 dark:text-emerald-300 dark:hover:bg-emerald-900/40"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create */}
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900 dark:text-white">API Keys</h2>
+          <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+            Read-only access to the public API. Send the key as{" "}
+            <code className="rounded bg-neutral-100 px-1 text-xs dark:bg-neutral-800">Authorization: Bearer uj_…</code>.{" "}
+            <a href="/api/public/v1/openapi.json" target="_blank" rel="noreferrer" className="text-brand hover:underline">
+              OpenAPI spec
+            </a>
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="sm:col-span-2">
+              <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={64}
+                placeholder="e.g. Model server"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Expires</label>
+              <select
+                value={expiresInDays ?? ""}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                className={inputClassName}
+              >
+                {EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.label} value={o.days ?? ""}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Scopes</label>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {data.grantable_scopes.map((scope) => (
+                <label
+                  key={scope}
+                  className="flex cursor-pointer items-start gap-3 rounded-lg border border-neutral-200 p-3 dark:border-neutral-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={(e) =>
+                      setScopes((current) =>
+                        e.target.checked ? [...current, scope] : current.filter((s) => s !== scope)
+                      )
+                    }
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-neutral-900 dark:text-white">{API_SCOPES[scope].label}</div>
+                    <div className="text-xs text-neutral-500 dark:text-neutral-400">{API_SCOPES[scope].description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              {activeKeys.length}/{data.limits.max_keys} keys · {data.limits.requests_per_minute} req/min per key ·{" "}
+              {usedToday.toLocaleString()}/{data.limits.requests_per_day.toLocaleString()} requests today
+            </p>
+            <button
+              onClick={createKey}
+              disabled={creating || atKeyLimit || !name.trim() || scopes.length === 0}
+              className="inline-flex items-center gap-2 rounded-lg bg-brand px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {creating && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create Key
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Existing keys */}
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <h2 className="mb-4 text-lg font-semibold text-neutral-900 dark:text-white">Your Keys</h2>
+        {data.keys.length === 0 ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">No API keys yet.</p>
+        ) : (
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {data.keys.map((key) => {
+              const revoked = !!key.revoked_at;
+              const expired = !!key.expires_at && Date.parse(key.expires_at) <= Date.now();
+              const disabledScopes = key.scopes.filter((s) => !key.active_scopes.includes(s));
+              return (
+                <div key={key.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-neutral-900 dark:text-white">{key.name}</span>
+                      <code className="text-xs text-neutral-500">{key.prefix}…</code>
+                      {(revoked || expired) && (
+                        <span className="rounded-full bg-neutral-200 px-2 py-0.5 text-[10px] font-semibold uppercase text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400">
+                          {revoked ? "Revoked" : "Expired"}
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-0.5 text-xs text-neutral-500 dark:text-neutral-400">
+                      {key.scopes.join(", ")}
+                      {disabledScopes.length > 0 && !revoked && (
+                        <span className="text-amber-600 dark:text-amber-400"> · {disabledScopes.join(", ")} not on current plan</span>
+                      )}
+                    </div>
+                    <div className="mt-0.5 text-xs text-neutral-400 dark:text-neutral-500">
+                      {key.last_used_at
+                        ? `Last used ${formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true })}`
+                        : "Never used"}
+                      {" · "}
+                      {key.requests_today.toLocaleString()} requests today
+                      {key.expires_at && !revoked && ` · Expires ${formatDistanceToNow(new Date(key.expires_at), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  {!revoked && (
+                    <div className="flex shrink-0 items-center gap-1">
+                      <button
+                        onClick={() => rotateKey(key)}
+                        disabled={busyKeyId === key.id}
+                        title="Rotate secret"
+                        className="rounded-lg p-2 text-neutral-500 hover:bg-neutral-100 hover:text-neutral-900 disabled:opacity-50 dark:hover:bg-neutral-800 dark:hover:text-white"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => revokeKey(key)}
+                        disabled={busyKeyId === key.id}
+                        title="Revoke"
+                        className="rounded-lg p-2 text-neutral-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-50 dark:hover:bg-red-950/40"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,533 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { formatDistanceToNow } from "date-fns";
+import { Check, ChevronDown, ChevronRight, Copy, Loader2, RefreshCw, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { UserWebhook, WebhookDelivery } from "@/lib/webhooks/types";
+
+interface WebhooksSettingsProps {
+  user: User;
+}
+
+interface NamedSource {
+  id: string;
+  name: string;
+}
+
+interface WebhooksResponse {
+  webhooks: UserWebhook[];
+  access: boolean;
+  sources: { filter_presets: NamedSource[]; ev_models: NamedSource[] };
+  limits: { max_webhooks: number; max_attempts: number; auto_disable_after_failures: number };
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  succeeded: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-300",
+  retrying: "bg-amber-100 text-amber-700 dark:bg-amber-950/60 dark:text-amber-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-950/60 dark:text-red-300",
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-neutral-300 bg-white px-4 py-2 text-sm text-neutral-900 placeholder-neutral-400 transition-colors focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20 dark:border-neutral-700 dark:bg-neutral-800 dark:text-white dark:placeholder-neutral-500";
+
+export default function WebhooksSettings({ user }: WebhooksSettingsProps) {
+  const [data, setData] = useState<WebhooksResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [presetIds, setPresetIds] = useState<string[]>([]);
+  const [modelIds, setModelIds] = useState<string[]>([]);
+  const [minEV, setMinEV] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [busyWebhookId, setBusyWebhookId] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/webhooks", { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load webhooks");
+      setData((await res.json()) as WebhooksResponse);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) load();
+  }, [user, load]);
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    setDeliveries(null);
+    try {
+      const res = await fetch(`/api/user/webhooks/${webhookId}/deliveries?limit=25`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to load deliveries");
+      setDeliveries(json.deliveries);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to load deliveries");
+      setDeliveries([]);
+    }
+  }, []);
+
+  const toggleExpanded = (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    loadDeliveries(webhookId);
+  };
+
+  const createWebhook = async () => {
+    if (!name.trim() || !url.trim() || presetIds.length + modelIds.length === 0) return;
+    setCreating(true);
+    try {
+      const res = await fetch("/api/user/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          url: url.trim(),
+          filter_preset_ids: presetIds,
+          ev_model_ids: modelIds,
+          min_ev: minEV ? Number(minEV) : 0,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        const fieldError = json.details && Object.values(json.details.fieldErrors ?? {}).flat()[0];
+        throw new Error((fieldError as string) || json.error || "Failed to create webhook");
+      }
+      setRevealed({ name: json.webhook.name, secret: json.secret });
+      setCopied(false);
+      setName("");
+      setUrl("");
+      setPresetIds([]);
+      setModelIds([]);
+      setMinEV("");
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to create webhook");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const setEnabled = async (webhook: UserWebhook, enabled: boolean) => {
+    setBusyWebhookId(webhook.id);
+    try {
+      const res = await fetch(`/api/user/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to update webhook");
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update webhook");
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const sendTest = async (webhook: UserWebhook) => {
+    setBusyWebhookId(webhook.id);
+    try {
+      const res = await fetch(`/api/user/webhooks/${webhook.id}/test`, { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to send test event");
+      if (json.success) {
+        toast.success(`Test delivered (HTTP ${json.response_code}, ${json.response_ms}ms)`);
+      } else {
+        toast.error(`Test failed: ${json.error}`);
+      }
+      if (expandedId === webhook.id) loadDeliveries(webhook.id);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to send test event");
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const rotateSecret = async (webhook: UserWebhook) => {
+    if (!confirm(`Rotate the signing secret for "${webhook.name}"? Your receiver must be updated to verify new payloads.`)) return;
+    setBusyWebhookId(webhook.id);
+    try {
+      const res = await fetch(`/api/user/webhooks/${webhook.id}/rotate`, { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to rotate signing secret");
+      setRevealed({ name: webhook.name, secret: json.secret });
+      setCopied(false);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to rotate signing secret");
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const deleteWebhook = async (webhook: UserWebhook) => {
+    if (!confirm(`Delete "${webhook.name}" and its delivery log?`)) return;
+    setBusyWebhookId(webhook.id);
+    try {
+      const res = await fetch(`/api/user/webhooks/${webhook.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to delete webhook");
+      toast.success("Webhook deleted");
+      if (expandedId === webhook.id) setExpandedId(null);
+      await load();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete webhook");
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealed) return;
+    await navigator.clipboard.writeText(revealed.secret);
+    setCopied(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  if (!data?.access) {
+    return (
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <h2 className="text-lg font-semibold text-neutral-900 dark:text-white">Webhooks</h2>
+        <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+          Push new matches from your filter presets and EV models to Discord bots, spreadsheets or your own services.
+        </p>
+        <div className="mt-4 rounded-lg border border-neutral-200 bg-neutral-50 p-4 dark:border-neutral-700 dark:bg-neutral-800/50">
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Webhooks are available on the Sharp and Elite plans.{" "}
+            <a href="/plans" className="text-brand hover:underline">
+              View plans
+            </a>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const sourceNames = new Map(
+    [...data.sources.filter_presets, ...data.sources.ev_models].map((source) => [source.id, source.name])
+  );
+  const atLimit = data.webhooks.length >= data.limits.max_webhooks;
+  const hasSources = data.sources.filter_presets.length + data.sources.ev_models.length > 0;
+
+  const renderSourcePicker = (
+    label: string,
+    sources: NamedSource[],
+    selected: string[],
+    setSelected: (updater: (current: string[]) => string[]) => void
+  ) =>
+    sources.length > 0 && (
+      <div>
+        <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">{label}</label>
+        <div className="flex flex-wrap gap-2">
+          {sources.map((source) => {
+            const checked = selected.includes(source.id);
+            return (
+              <button
+                key={source.id}
+                type="button"
+                onClick={() =>
+                  setSelected((current) =>
+                    checked ? current.filter((id) => id !== source.id) : [...current, source.id]
+                  )
+                }
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                  checked
+                    ? "border-brand bg-brand/10 text-brand"
+                    : "border-neutral-300 text-neutral-600 hover:border-neutral-400 dark:border-neutral-700 dark:text-neutral-400"
+                }`}
+              >
+                {source.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="space-y-6">
+      {/* Newly created / rotated secret */}
+      {revealed && (
+        <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-6 dark:border-emerald-800 dark:bg-emerald-950/40">
+          <h2 className="text-sm font-semibold text-emerald-900 dark:text-emerald-200">
+            Copy the signing secret for "{revealed.name}" now
+          </h2>
+          <p className="mt-1 text-sm text-emerald-800 dark:text-emerald-300">
+            It won&apos;t be shown again. Use it to verify the X-Unjuiced-Signature header.
+          </p>
+          <div className="mt-3 flex items-center gap-2">
+            <code className="flex-1 truncate rounded-md bg-white px-3 py-2 font-mono text-xs text-neutral-900 dark:bg-neutral-900 dark:text-white">
+              {revealed.secret}
+            </code>
+            <button
+              onClick={copySecret}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button
+              onClick={() => setRevealed(null)}
+              className="rounded-lg px-3 py-2 text-sm text-emerald-800 hover:bg-emerald-100 dark:text-emerald-300 dark:hover:bg-emerald-900/40"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create */}
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900 dark:text-white">Webhooks</h2>
+          <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+            We POST signed JSON to your endpoint when a selected filter preset or EV model matches a new opportunity.
+            Failed deliveries are retried up to {data.limits.max_attempts} times; endpoints are disabled after{" "}
+            {data.limits.auto_disable_after_failures} consecutive failures.
+          </p>
+        </div>
+
+        {!hasSources ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Save a filter preset in the{" "}
+            <a href="/edge-finder" className="text-brand hover:underline">
+              Edge Finder
+            </a>{" "}
+            or a model in{" "}
+            <a href="/positive-ev" className="text-brand hover:underline">
+              Positive EV
+            </a>{" "}
+            to attach it to a webhook.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={80}
+                  placeholder="e.g. Discord bot"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Endpoint URL</label>
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/hooks/unjuiced"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {renderSourcePicker("Filter presets", data.sources.filter_presets, presetIds, setPresetIds)}
+            {renderSourcePicker("EV models", data.sources.ev_models, modelIds, setModelIds)}
+
+            <div className="flex items-end justify-between gap-4">
+              <div className="w-40">
+                <label className="mb-2 block text-sm font-medium text-neutral-700 dark:text-neutral-300">Min EV %</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  step={0.5}
+                  value={minEV}
+                  onChange={(e) => setMinEV(e.target.value)}
+                  placeholder="Any"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {data.webhooks.length}/{data.limits.max_webhooks} webhooks
+                </p>
+                <button
+                  onClick={createWebhook}
+                  disabled={creating || atLimit || !name.trim() || !url.trim() || presetIds.length + modelIds.length === 0}
+                  className="inline-flex items-center gap-2 rounded-lg bg-brand px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {creating && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Add Webhook
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Existing webhooks */}
+      <div className="rounded-lg border border-neutral-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-900">
+        <h2 className="mb-4 text-lg font-semibold text-neutral-900 dark:text-white">Your Webhooks</h2>
+        {data.webhooks.length === 0 ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">No webhooks yet.</p>
+        ) : (
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {data.webhooks.map((webhook) => {
+              const autoDisabled = !webhook.enabled && !!webhook.disabled_at;
+              const attached = [...webhook.filter_preset_ids, ...webhook.ev_model_ids]
+                .map((id) => sourceNames.get(id))
+                .filter(Boolean);
+              const busy = busyWebhookId === webhook.id;
+              const expanded = expandedId === webhook.id;
+              return (
+                <div key={webhook.id} className="py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <button onClick={() => toggleExpanded(webhook.id)} className="flex min-w-0 items-start gap-2 text-left">
+                      {expanded ? (
+                        <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-neutral-400" />
+                      ) : (
+                        <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-neutral-400" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-neutral-900 dark:text-white">{webhook.name}</span>
+                          {!webhook.enabled && (
+                            <span
+                              className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${
+                                autoDisabled
+                                  ? "bg-red-100 text-red-700 dark:bg-red-950/60 dark:text-red-300"
+                                  : "bg-neutral-200 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400"
+                              }`}
+                            >
+                              {autoDisabled ? "Disabled" : "Paused"}
+                            </span>
+                          )}
+                        </div>
+                        <div className="mt-0.5 truncate text-xs text-neutral-500 dark:text-neutral-400">{webhook.url}</div>
+                        <div className="mt-0.5 text-xs text-neutral-400 dark:text-neutral-500">
+                          {attached.length > 0 ? attached.join(", ") : "No presets or models"}
+                          {Number(webhook.min_ev) > 0 && ` · EV ≥ ${webhook.min_ev}%`}
+                          {" · "}
+                          {webhook.last_success_at
+                            ? `Last delivered ${formatDistanceToNow(new Date(webhook.last_success_at), { addSuffix: true })}`
+                            : "Never delivered"}
+                          {webhook.consecutive_failures > 0 && webhook.enabled && (
+                            <span className="text-amber-600 dark:text-amber-400">
+                              {" "}· {webhook.consecutive_failures} consecutive failures
+                            </span>
+                          )}
+                        </div>
+                        {autoDisabled && webhook.disabled_reason && (
+                          <div className="mt-0.5 text-xs text-red-600 dark:text-red-400">{webhook.disabled_reason}</div>
+                        )}
+                      </div>
+                    </button>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <button
+                        onClick={() => setEnabled(webhook, !webhook.enabled)}
+                        disabled={busy}
+                        className="rounded-lg px-3 py-1.5 text-xs font-medium text-neutral-600 hover:bg-neutral-100 disabled:opacity-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
+                      >
+                        {webhook.enabled ? "Pause" : "Enable"}
+                      </button>
+                      <button
+                        onClick={() => sendTest(webhook)}
+                        disabled={busy}
+                        title="Send test event"
+                        className="rounded-lg p-2 text-neutral-500 hover:bg-neutral-100 hover:text-neutral-900 disabled:opacity-50 dark:hover:bg-neutral-800 dark:hover:text-white"
+                      >
+                        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => rotateSecret(webhook)}
+                        disabled={busy}
+                        title="Rotate signing secret"
+                        className="rounded-lg p-2 text-neutral-500 hover:bg-neutral-100 hover:text-neutral-900 disabled:opacity-50 dark:hover:bg-neutral-800 dark:hover:text-white"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteWebhook(webhook)}
+                        disabled={busy}
+                        title="Delete"
+                        className="rounded-lg p-2 text-neutral-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-50 dark:hover:bg-red-950/40"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Delivery log */}
+                  {expanded && (
+                    <div className="ml-6 mt-3 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                      {deliveries === null ? (
+                        <div className="flex justify-center py-4">
+                          <Loader2 className="h-4 w-4 animate-spin text-neutral-400" />
+                        </div>
+                      ) : deliveries.length === 0 ? (
+                        <p className="p-3 text-xs text-neutral-500 dark:text-neutral-400">No deliveries yet.</p>
+                      ) : (
+                        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                          {deliveries.map((delivery) => (
+                            <div key={delivery.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+                              <span
+                                className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${DELIVERY_STATUS_STYLES[delivery.status]}`}
+                              >
+                                {delivery.status}
+                              </span>
+                              <span className="w-12 font-mono text-neutral-700 dark:text-neutral-300">
+                                {delivery.response_code ?? "—"}
+                              </span>
+                              <span className="w-36 truncate text-neutral-600 dark:text-neutral-400">
+                                {delivery.event_type}
+                                {delivery.event_type === "opportunity.matched" &&
+                                  ` (${(delivery.payload.data as { opportunities?: unknown[] }).opportunities?.length ?? 0})`}
+                              </span>
+                              <span
+                                className="text-neutral-500 dark:text-neutral-400"
+                                title={(delivery.attempts ?? [])
+                                  .map(
+                                    (entry) =>
+                                      `#${entry.attempt} ${new Date(entry.attempted_at).toLocaleString()}: ${entry.response_code ?? "no response"}${entry.error ? ` (${entry.error})` : ""}`
+                                  )
+                                  .join("\n")}
+                              >
+                                {delivery.attempt > 0 ? `Attempt ${delivery.attempt}` : "Sending"}
+                                {delivery.response_ms !== null && ` · ${delivery.response_ms}ms`}
+                              </span>
+                              <span className="min-w-0 flex-1 truncate text-red-600 dark:text-red-400" title={delivery.error ?? ""}>
+                                {delivery.error}
+                              </span>
+                              <span className="shrink-0 text-neutral-400 dark:text-neutral-500">
+                                {delivery.status === "retrying" && delivery.next_retry_at
+                                  ? `Retry ${formatDistanceToNow(new Date(delivery.next_retry_at), { addSuffix: true })}`
+                                  : formatDistanceToNow(new Date(delivery.updated_at), { addSuffix: true })}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
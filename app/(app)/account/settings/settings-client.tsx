@@ -5,7 +5,7 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/components/auth/auth-provider";
 import { usePreferences } from "@/context/preferences-context";
 import { createClient } from "@/libs/supabase/client";
-import { Settings, User } from "lucide-react";
+import { KeyRound, Settings, User, Webhook } from "lucide-react";
 import { CreditCard } from "@/components/icons/credit-card";
 import { ShieldUser } from "@/components/icons/shield-user";
 import { Bell } from "@/components/icons/bell";
@@ -15,9 +15,11 @@ import SecuritySettings from "./sections/security";
 import NotificationsSettings from "./sections/notifications";
 import GeneralSettings from "./sections/general";
 import BillingSettings from "./sections/billing";
+import ApiKeysSettings from "./sections/api-keys";
+import WebhooksSettings from "./sections/webhooks";
 
 
-type SettingsSection = "general" | "security" | "notifications" | "billing";
+type SettingsSection = "general" | "security" | "notifications" | "billing" | "api-keys" | "webhooks";
 
 export default function SettingsClient() {
   const { user } = useAuth();
@@ -50,7 +52,7 @@ export default function SettingsClient() {
   }, [user]);
 
   useEffect(() => {
-    const validSections: SettingsSection[] = ["general", "security", "notifications", "billing"];
+    const validSections: SettingsSection[] = ["general", "security", "notifications", "billing", "api-keys", "webhooks"];
     const sectionFromParams = Array.isArray(params?.section) ? params?.section[0] : params?.section;
     const sectionFromQuery = searchParams?.get("section");
     const nextSection = (sectionFromParams || sectionFromQuery) as SettingsSection | null;
@@ -92,6 +94,18 @@ export default function SettingsClient() {
       icon: Bell,
       description: "Email and push notifications",
     },
+    {
+      id: "api-keys" as SettingsSection,
+      label: "API Keys",
+      icon: KeyRound,
+      description: "Personal keys for the public API",
+    },
+    {
+      id: "webhooks" as SettingsSection,
+      label: "Webhooks",
+      icon: Webhook,
+      description: "Push preset and model matches to your apps",
+    },
   ];
 
   return (
@@ -170,6 +184,8 @@ export default function SettingsClient() {
             {activeSection === "notifications" && (
               <NotificationsSettings user={user} preferences={preferences} />
             )}
+            {activeSection === "api-keys" && <ApiKeysSettings user={user} />}
+            {activeSection === "webhooks" && <WebhooksSettings user={user} />}
           </div>
         </div>
       </div>
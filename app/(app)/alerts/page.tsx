@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { AlertsPage } from "@/components/alerts/alerts-page";
+
+export const metadata: Metadata = {
+  title: "Alerts | Unjuiced.bet",
+  description: "Custom alerts for +EV plays, arbitrage and line moves delivered by email, push, Discord or Slack.",
+};
+
+export default function AlertsRoute() {
+  return <AlertsPage />;
+}
@@ -19,6 +19,9 @@ import { getAllLeagues } from "@/lib/data/sports";
 import type { MarketType, ArbMarketOption } from "@/lib/arb-filters";
 import { useAvailableMarkets, FALLBACK_MARKETS, FALLBACK_MARKET_SPORTS } from "@/hooks/use-available-markets";
 import { formatMarketLabel } from "@/lib/data/markets";
+import { MiddlesTable, type MiddleThresholds } from "@/components/arbs/middles-table";
+import { useMiddles } from "@/hooks/use-middles";
+import { DEFAULT_MIDDLE_PREFS } from "@/lib/middles/filters";
 
 // Available leagues for arbitrage
 const AVAILABLE_LEAGUES = [
@@ -55,6 +58,8 @@ export default function ArbsPage() {
   const [eventId, setEventId] = useState<string | undefined>(undefined);
   const [mode, setMode] = useState<"prematch" | "live">("prematch");
   const [previewCounts, setPreviewCounts] = useState<{ pregame: number; live: number } | null>(null);
+  const [view, setView] = useState<"arbs" | "middles">("arbs");
+  const [middleThresholds, setMiddleThresholds] = useState<MiddleThresholds>(DEFAULT_MIDDLE_PREFS);
 
   // Derive logged in status from auth
   const loggedIn = !!user;
@@ -199,6 +204,13 @@ export default function ArbsPage() {
 
   // roundTo from the same prefs object (via useArbsView → useArbitragePreferences)
   const roundTo = prefs?.roundTo ?? 0;
+
+  // Middles / low-hold view shares the arbitrage filters
+  const middles = useMiddles({
+    arbPrefs: prefs,
+    middlePrefs: middleThresholds,
+    enabled: pro && view === "middles",
+  });
   
   // Debug: Log prefs on each render
   console.log('[ArbitrageContent] Current prefs:', {
@@ -255,9 +267,35 @@ export default function ArbsPage() {
     );
   }
 
+  const isMiddlesView = view === "middles" && pro;
+  const bestMiddleEv = middles.rows.length
+    ? (Math.max(...middles.rows.map((r) => r.ev_bps)) / 100).toFixed(2)
+    : "0.00";
+
   // Stats Bar Component
   const statsBar = mounted ? (
     <div className="flex items-center gap-6">
+      {pro && (
+        <>
+          <div className="flex rounded-lg bg-neutral-100 p-1 dark:bg-neutral-800">
+            {(["arbs", "middles"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={cn(
+                  "rounded-md px-3 py-1.5 text-xs font-semibold transition-colors",
+                  view === v
+                    ? "bg-white text-neutral-900 shadow-sm dark:bg-neutral-900 dark:text-white"
+                    : "text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+                )}
+              >
+                {v === "arbs" ? "Arbs" : "Middles"}
+              </button>
+            ))}
+          </div>
+          <div className="h-12 w-px bg-neutral-200 dark:bg-neutral-800" />
+        </>
+      )}
       <div className="text-center">
         <div className="flex items-center justify-center gap-1.5 text-sm font-medium text-neutral-600 dark:text-neutral-400">
           Opportunities
@@ -269,19 +307,19 @@ export default function ArbsPage() {
           "mt-1 text-2xl font-bold text-neutral-900 transition-all duration-300 dark:text-white",
           freshFound && "scale-110"
         )}>
-          {currentCount}
+          {isMiddlesView ? middles.rows.length : currentCount}
         </div>
       </div>
       <div className="h-12 w-px bg-neutral-200 dark:bg-neutral-800" />
       <div className="text-center">
         <div className="text-sm font-medium text-neutral-600 dark:text-neutral-400">
-          Best ROI
+          {isMiddlesView ? "Best EV" : "Best ROI"}
         </div>
         <div className={cn(
           "mt-1 text-2xl font-bold text-emerald-600 transition-all duration-300 dark:text-emerald-400",
           freshBest && "scale-110"
         )}>
-          +{pro ? bestRoi : previewBestRoi}%
+          +{isMiddlesView ? bestMiddleEv : pro ? bestRoi : previewBestRoi}%
         </div>
       </div>
     </div>
@@ -391,7 +429,17 @@ export default function ArbsPage() {
       )}
 
       {/* Content */}
-      {loading || prefsLoading ? (
+      {isMiddlesView ? (
+        <MiddlesTable
+          rows={middles.rows}
+          thresholds={middleThresholds}
+          onThresholdsChange={setMiddleThresholds}
+          totalBetAmount={prefs.totalBetAmount}
+          roundTo={roundTo}
+          loading={prefsLoading || middles.isLoading}
+          error={middles.error}
+        />
+      ) : loading || prefsLoading ? (
         <LoadingState />
       ) : (
         <GatedArbTable
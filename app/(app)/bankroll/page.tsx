@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { BankrollPage } from "@/components/bankroll/bankroll-page";
+
+export const metadata: Metadata = {
+  title: "Bankroll | Unjuiced.bet",
+  description: "Track sportsbook balances, deposits, withdrawals and P&L across every bet you place.",
+};
+
+export default function BankrollRoute() {
+  return <BankrollPage />;
+}
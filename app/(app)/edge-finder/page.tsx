@@ -37,7 +37,7 @@ import type { BestOddsPrefs } from "@/lib/best-odds-schema";
 import { formatMarketLabel } from "@/lib/data/markets";
 
 import { useAuth } from "@/components/auth/auth-provider";
-import { useIsPro, useHasEliteAccess } from "@/hooks/use-entitlements";
+import { useIsPro, useHasEliteAccess, useHasSharpAccess } from "@/hooks/use-entitlements";
 import { useHiddenEdges } from "@/hooks/use-hidden-edges";
 import { useIsMobileOrTablet } from "@/hooks/use-media-query";
 import { useSSE } from "@/hooks/use-sse";
@@ -47,6 +47,8 @@ import { PlayerQuickViewModal, type LiveBookOfferInput } from "@/components/play
 import type { BestOddsData } from "@/components/odds-screen/types/odds-screen-types";
 import { useAvailableMarkets, FALLBACK_MARKETS, FALLBACK_MARKET_SPORTS } from "@/hooks/use-available-markets";
 import { LineHistoryDialog } from "@/components/opportunities/line-history-dialog";
+import { StaleLinesTable } from "@/components/stale-lines/stale-lines-table";
+import { useStaleLines } from "@/hooks/use-stale-lines";
 import type { LineHistoryContext } from "@/lib/odds/line-history";
 import {
   getQuickViewSport,
@@ -256,6 +258,16 @@ export default function EdgeFinderPage() {
   // Streaming state for row highlights
   const [streamAdded, setStreamAdded] = useState<Set<string>>(new Set());
   const [streamChanges, setStreamChanges] = useState<Map<string, { edge?: "up" | "down"; price?: "up" | "down" }>>(new Map());
+
+  // Stale lines mode: soft-book prices that haven't caught up to a sharp move
+  const { hasAccess: hasSharp } = useHasSharpAccess();
+  const [view, setView] = useState<"edges" | "stale">("edges");
+  const staleLines = useStaleLines({
+    sports: prefs.selectedLeagues,
+    excludedBooks: prefs.selectedBooks,
+    enabled: hasSharp && view === "stale",
+  });
+  const isStaleView = view === "stale" && hasSharp;
   const prevOppsRef = useRef<Map<string, { edgePct: number; bestPrice: string }>>(new Map());
 
   // ===== DATA SOURCE =====
@@ -885,8 +897,39 @@ export default function EdgeFinderPage() {
       subtitle={subtitle}
       contextBar={contextBar}
       stickyContextBar={true}
-      headerActions={<EdgeFinderTourTrigger />}
+      headerActions={
+        <div className="flex items-center gap-3">
+          {hasSharp && (
+            <div className="flex rounded-lg bg-neutral-100 p-1 dark:bg-neutral-800">
+              {(["edges", "stale"] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={cn(
+                    "rounded-md px-3 py-1.5 text-xs font-semibold transition-colors",
+                    view === v
+                      ? "bg-white text-neutral-900 shadow-sm dark:bg-neutral-900 dark:text-white"
+                      : "text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+                  )}
+                >
+                  {v === "edges" ? "Edges" : "Stale Lines"}
+                </button>
+              ))}
+            </div>
+          )}
+          <EdgeFinderTourTrigger />
+        </div>
+      }
     >
+      {isStaleView ? (
+        <StaleLinesTable
+          lines={staleLines.lines}
+          lags={staleLines.lags}
+          loading={staleLines.isLoading}
+          error={staleLines.error instanceof Error ? staleLines.error : null}
+        />
+      ) : (
+      <>
 
       {/* Error */}
       {error && (
@@ -1034,6 +1077,9 @@ export default function EdgeFinderPage() {
         </div>
       )}
 
+      </>
+      )}
+
       {/* Player Quick View Modal */}
       {selectedPlayer && (
         <PlayerQuickViewModal
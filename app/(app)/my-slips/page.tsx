@@ -258,6 +258,7 @@ function FavoriteRow({
   
   const playerOrTeam = favorite.player_name || favorite.home_team || "Unknown";
   const marketDisplay = formatMarketLabelShort(favorite.market) || favorite.market;
+  const clvChip = getCLVChip(favorite.clv_percent);
   const lineDisplay = favorite.line !== null ? favorite.line : "";
   const sideDisplay = formatSide(favorite.side);
   const timeLabel = formatFavoriteTime(favorite.start_time || favorite.game_date);
@@ -346,6 +347,14 @@ function FavoriteRow({
           <div className="text-sm md:text-xs text-neutral-500 dark:text-neutral-400 mt-0.5">
             {sideDisplay} {lineDisplay} {marketDisplay}
             {timeLabel && ` · ${timeLabel}`}
+            {clvChip && (
+              <span
+                className={cn("ml-1.5 px-1.5 py-0.5 text-[10px] font-semibold rounded tabular-nums", clvChip.className)}
+                title={favorite.closing_fair_odds != null ? `Fair close ${formatOdds(favorite.closing_fair_odds)}` : undefined}
+              >
+                {clvChip.label}
+              </span>
+            )}
           </div>
         </div>
         
@@ -705,6 +714,53 @@ const getBetTypeLabel = (betType: string | null, legCount: number): { label: str
   return null;
 };
 
+// Settled slip badge (status is flipped by the settle-betslips cron)
+const getSettlementBadge = (betslip: Betslip): { label: string; className: string } | null => {
+  const profit = betslip.settled_payout !== null && betslip.stake_amount !== null
+    ? betslip.settled_payout - betslip.stake_amount
+    : null;
+  switch (betslip.status) {
+    case "won":
+      return {
+        label: profit !== null ? `Won +$${profit.toFixed(2)}` : "Won",
+        className: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+      };
+    case "lost":
+      return {
+        label: betslip.stake_amount !== null ? `Lost -$${betslip.stake_amount.toFixed(2)}` : "Lost",
+        className: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+      };
+    case "void":
+      return {
+        label: "Void",
+        className: "bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400",
+      };
+    default:
+      return null;
+  }
+};
+
+const LEG_RESULT_STYLES: Record<string, { label: string; className: string }> = {
+  won: { label: "W", className: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300" },
+  lost: { label: "L", className: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300" },
+  push: { label: "P", className: "bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400" },
+  void: { label: "V", className: "bg-neutral-100 dark:bg-neutral-800 text-neutral-500 dark:text-neutral-500" },
+};
+
+// CLV vs the fair close (captured by the capture-closing-lines cron at event start)
+const getCLVChip = (clv: number | null | undefined): { label: string; className: string } | null => {
+  if (clv === null || clv === undefined) return null;
+  const value = Number(clv);
+  return {
+    label: `CLV ${value > 0 ? "+" : ""}${value.toFixed(1)}%`,
+    className: value > 0
+      ? "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300"
+      : value < 0
+        ? "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300"
+        : "bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400",
+  };
+};
+
 // Calculate edge percentage (best odds vs average)
 const calculateEdge = (bestOdds: number, allOdds: number[]): number | null => {
   if (allOdds.length < 2) return null;
@@ -827,6 +883,8 @@ function BetslipCard({
   const parlayOdds = useMemo(() => calculateAllParlayOdds(favorites, refreshedOddsMap), [favorites, refreshedOddsMap]);
   const unavailableBooks = useMemo(() => getUnavailableBooks(betslip.sgp_odds_cache), [betslip.sgp_odds_cache]);
   const betTypeInfo = getBetTypeLabel(betslip.bet_type, legCount);
+  const settlementBadge = getSettlementBadge(betslip);
+  const slipClvChip = getCLVChip(betslip.clv_percent);
   
   // Determine which odds to use
   const hasMultipleLegs = legCount >= 2;
@@ -1053,6 +1111,32 @@ function BetslipCard({
                 {betTypeInfo.label}
               </span>
             )}
+            
+            {/* Settled result badge */}
+            {settlementBadge && !isEditing && (
+              <span
+                className={cn(
+                  "shrink-0 px-2 py-1 md:px-1.5 md:py-0.5 text-xs md:text-[10px] font-semibold rounded-lg md:rounded tabular-nums",
+                  settlementBadge.className
+                )}
+                title={betslip.auto_settled ? "Settled automatically from final results" : undefined}
+              >
+                {settlementBadge.label}
+              </span>
+            )}
+
+            {/* CLV vs combined fair close */}
+            {slipClvChip && !isEditing && (
+              <span
+                className={cn(
+                  "shrink-0 px-2 py-1 md:px-1.5 md:py-0.5 text-xs md:text-[10px] font-semibold rounded-lg md:rounded tabular-nums",
+                  slipClvChip.className
+                )}
+                title={betslip.closing_odds != null ? `Fair close ${formatOdds(betslip.closing_odds)}` : undefined}
+              >
+                {slipClvChip.label}
+              </span>
+            )}
           </div>
           
           {/* Right actions - larger touch targets */}
@@ -1409,6 +1493,8 @@ function BetslipCard({
                     {items.map((item) => {
                       const fav = item.favorite;
                       if (!fav) return null;
+                      const legResult = item.result ? LEG_RESULT_STYLES[item.result] : null;
+                      const legClv = getCLVChip(fav.clv_percent);
                       return (
                         <div 
                           key={item.id} 
@@ -1423,6 +1509,21 @@ function BetslipCard({
                             <span className="text-sm font-medium text-neutral-900 dark:text-white ml-2">
                               {formatSide(fav.side)}{fav.line} {formatMarketLabelShort(fav.market) || fav.market}
                             </span>
+                            {/* Graded result + actual stat */}
+                            {legResult && (
+                              <span
+                                className={cn("ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded tabular-nums", legResult.className)}
+                                title={item.void_reason ? `Voided: ${item.void_reason}` : undefined}
+                              >
+                                {legResult.label}
+                                {item.actual_value !== null && item.result !== "void" && ` · ${item.actual_value}`}
+                              </span>
+                            )}
+                            {legClv && (
+                              <span className={cn("ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded tabular-nums", legClv.className)}>
+                                {legClv.label}
+                              </span>
+                            )}
                           </div>
                           <button
                             onClick={(e) => {
@@ -46,6 +46,7 @@ import { ShareOddsCard } from "@/components/opportunities/share-odds-card";
 import { usePositiveEV } from "@/hooks/use-positive-ev";
 import { useMultiEvModelOpportunities } from "@/hooks/use-multi-ev-model-opportunities";
 import { useMultiEvModelStream } from "@/hooks/use-multi-ev-model-stream";
+import { useMultiWayEV } from "@/hooks/use-multi-way-ev";
 import type { PositiveEVOpportunity, SharpPreset, DevigMethod, EVMode } from "@/lib/ev/types";
 import { DEFAULT_DEVIG_METHODS } from "@/lib/ev/constants";
 import { SHARP_PRESETS, DEVIG_METHODS } from "@/lib/ev/constants";
@@ -75,7 +76,10 @@ import { useHiddenEdges } from "@/hooks/use-hidden-edges";
 
 // EV Models
 import { useEvModels } from "@/hooks/use-ev-models";
+import { useProjectionEV } from "@/hooks/use-projection-ev";
 import { DEFAULT_MODEL_COLOR } from "@/lib/types/ev-models";
+import { projectionSourceEV } from "@/lib/ev/projection";
+import { ProjectionEvCell } from "@/components/positive-ev/projection-ev-cell";
 
 // Player profile modal
 import { PlayerQuickViewModal } from "@/components/player-quick-view-modal";
@@ -130,6 +134,8 @@ const AVAILABLE_SPORTS = [
   "ufc",
 ];
 const FREE_USER_EV_MAX_ROWS = 7;
+/** Reference outcomes listed in a multi-way row's tooltip */
+const MULTI_WAY_TOOLTIP_OUTCOMES = 8;
 const MIN_EV_OPTIONS = [0, 0.5, 1, 2, 3, 5, 10];
 
 // Loading messages for +EV finder
@@ -242,6 +248,7 @@ function formatMatchupLabel(sport: string, awayTeam?: string | null, homeTeam?:
 }
 
 function formatShareSelectionDisplay(opp: PositiveEVOpportunity): string {
+  if (opp.multiWay) return opp.multiWay.outcome.label;
   const matchup = formatMatchupLabel(opp.sport, opp.awayTeam, opp.homeTeam);
   if (opp.sport.toLowerCase() === "ufc" && matchup) return matchup;
   if (!isRawSelectionValue(opp.playerName)) return opp.playerName!;
@@ -476,9 +483,6 @@ export default function PositiveEVPage() {
   const kellyPercent = evPrefs.kellyPercent || 25;
   const showStakeColumn = bankroll > 0;
   
-  // Total column count (base 10 + stake column if shown)
-  const totalColumns = showStakeColumn ? 11 : 10;
-  
   // EV Custom Models
   const { 
     models: evModels, 
@@ -525,11 +529,11 @@ export default function PositiveEVPage() {
   const [lastKnownDataUpdatedAt, setLastKnownDataUpdatedAt] = useState<number | null>(null);
   
   // Sorting state for table columns - default to sorting by EV % descending
-  const [sortColumn, setSortColumn] = useState<"ev" | "time" | "stake" | null>("ev");
+  const [sortColumn, setSortColumn] = useState<"ev" | "time" | "stake" | "projection" | null>("ev");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   
   // Toggle sort column
-  const handleSort = useCallback((column: "ev" | "time" | "stake") => {
+  const handleSort = useCallback((column: "ev" | "time" | "stake" | "projection") => {
     if (sortColumn === column) {
       // Toggle direction or clear if already desc
       if (sortDirection === "asc") {
@@ -718,6 +722,15 @@ export default function PositiveEVPage() {
     enabled: !planLoading && !prefsLoading && autoRefresh,
   });
 
+  // 3+ way markets (1X2, first scorer, futures) come from the multi-way scanner
+  const { opportunities: multiWayData } = useMultiWayEV({
+    prefs: multiModelPrefs,
+    activeModels: activeEvModels,
+    isPro: effectiveIsPro,
+    limit: requestLimit,
+    enabled: !planLoading && !prefsLoading,
+  });
+
   // Debug logging for custom mode
   useEffect(() => {
     const configs = autoRefresh ? streamActiveConfigs : activeConfigs;
@@ -733,14 +746,13 @@ export default function PositiveEVPage() {
   // Unified data access - use stream when auto-refresh is on, otherwise use standard
   // SMART FALLBACK: Keep showing previous data during mode transitions to avoid jarring skeleton
   const data = useMemo(() => {
-    if (autoRefresh) {
+    const twoWay = autoRefresh
       // Prefer stream data, but fallback to standard during initial stream load
-      return streamRows.length > 0 ? streamRows : (standardData || []);
-    } else {
+      ? (streamRows.length > 0 ? streamRows : (standardData || []))
       // Prefer standard data, but fallback to stream during initial standard load
-      return (standardData && standardData.length > 0) ? standardData : streamRows;
-    }
-  }, [autoRefresh, streamRows, standardData]);
+      : ((standardData && standardData.length > 0) ? standardData : streamRows);
+    return multiWayData.length > 0 ? [...twoWay, ...multiWayData] : twoWay;
+  }, [autoRefresh, streamRows, standardData, multiWayData]);
   
   const totalFound = autoRefresh ? streamMeta.totalFound : standardTotalFound;
   const totalReturned = autoRefresh ? streamMeta.returned : standardTotalReturned;
@@ -903,14 +915,29 @@ export default function PositiveEVPage() {
     
     return result;
   }, [data, searchQuery, expandedRows, pinnedPositions, showHidden, isHidden, savedFilters.minLiquidity, savedFilters.selectedBooks]);
+
+  // Hit-rate projection EV (active models with a model/blend fair source)
+  const {
+    opportunities: projectedOpportunities,
+    isActive: showProjectionColumn,
+    fairSource: projectionFairSource,
+    isLoading: projectionLoading,
+  } = useProjectionEV({
+    opportunities: filteredOpportunities,
+    activeModels: activeEvModels,
+    enabled: effectiveIsPro,
+  });
+
+  // Total column count (base 10 + stake and projection columns if shown)
+  const totalColumns = 10 + (showStakeColumn ? 1 : 0) + (showProjectionColumn ? 1 : 0);
   
   // Apply sorting to filtered opportunities
   const sortedOpportunities = useMemo(() => {
-    if (!sortColumn || filteredOpportunities.length === 0) {
-      return filteredOpportunities;
+    if (!sortColumn || projectedOpportunities.length === 0) {
+      return projectedOpportunities;
     }
     
-    const sorted = [...filteredOpportunities].sort((a, b) => {
+    const sorted = [...projectedOpportunities].sort((a, b) => {
       let comparison = 0;
       const evCaseLocal = savedFilters.evCase as "worst" | "best";
       
@@ -941,13 +968,16 @@ export default function PositiveEVPage() {
           return Math.round(bankroll * kellyFraction * (kellyPercent / 100));
         };
         comparison = getStake(a) - getStake(b);
+      } else if (sortColumn === "projection") {
+        // Sort by the model's fair source EV (market EV when there's no projection)
+        comparison = projectionSourceEV(a, projectionFairSource) - projectionSourceEV(b, projectionFairSource);
       }
       
       return sortDirection === "asc" ? comparison : -comparison;
     });
     
     return sorted;
-  }, [filteredOpportunities, sortColumn, sortDirection, savedFilters.evCase, bankroll, kellyPercent]);
+  }, [projectedOpportunities, sortColumn, sortDirection, savedFilters.evCase, bankroll, kellyPercent, projectionFairSource]);
 
   // Gate: limit visible rows for free users
   const displayOpportunities = useMemo(() => {
@@ -1692,6 +1722,29 @@ export default function PositiveEVPage() {
                   </Tooltip>
                 </div>
               </th>
+              {showProjectionColumn && (
+                <th 
+                  className="font-semibold text-[10px] lg:text-[11px] text-neutral-600 dark:text-neutral-300 uppercase tracking-widest h-10 lg:h-12 px-2 lg:px-3 py-2 text-center border-b-2 border-neutral-200 dark:border-neutral-700 cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors select-none whitespace-nowrap"
+                  onClick={() => handleSort("projection")}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    <span>Projection EV</span>
+                    {sortColumn === "projection" ? (
+                      sortDirection === "asc" ? (
+                        <ChevronUp className="w-3 h-3 lg:w-3.5 lg:h-3.5 text-emerald-500" />
+                      ) : (
+                        <ChevronDown className="w-3 h-3 lg:w-3.5 lg:h-3.5 text-emerald-500" />
+                      )
+                    ) : (
+                      <Tooltip content="EV vs the hit-rate projection (weighted averages, DvP, pace, injuries), vs the de-vigged market, and a blend of the two. Weights come from your active EV model.">
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-3 w-3 lg:h-3.5 lg:w-3.5 text-neutral-400 dark:text-neutral-500 hover:text-emerald-500 transition-colors cursor-help hidden lg:block" aria-hidden>
+                          <path fill="currentColor" d="M12 2a10 10 0 1 0 10 10A10.011 10.011 0 0 0 12 2Zm0 18a8 8 0 1 1 8-8 8.009 8.009 0 0 1-8 8Zm0-11a1.25 1.25 0 1 0-1.25-1.25A1.25 1.25 0 0 0 12 9Zm1 2h-2a1 1 0 0 0-1 1v5h2v-4h1a1 1 0 0 0 0-2Z" />
+                        </svg>
+                      </Tooltip>
+                    )}
+                  </div>
+                </th>
+              )}
               {showStakeColumn && (
                 <th 
                   className="font-semibold text-[10px] lg:text-[11px] text-neutral-600 dark:text-neutral-300 uppercase tracking-widest h-10 lg:h-12 px-2 lg:px-3 py-2 text-center border-b-2 border-neutral-200 dark:border-neutral-700 cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors select-none"
@@ -2241,11 +2294,11 @@ export default function PositiveEVPage() {
                               }}
                               className="text-[13px] lg:text-[15px] font-semibold text-neutral-900 dark:text-white tracking-tight hover:text-brand dark:hover:text-brand transition-colors text-left truncate"
                             >
-                              {formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
+                              {opp.multiWay ? opp.multiWay.outcome.label : formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
                             </button>
                           ) : (
                             <span className="text-[13px] lg:text-[15px] font-semibold text-neutral-900 dark:text-white tracking-tight truncate">
-                              {formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
+                              {opp.multiWay ? opp.multiWay.outcome.label : formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
                             </span>
                           )}
                           {opp.playerPosition && (
@@ -2321,6 +2374,35 @@ export default function PositiveEVPage() {
                           opp.market.includes("player_goals")
                         ));
                         
+                        // Exclusive multi-way boards show the field size; the tooltip lists
+                        // the reference board's favorites
+                        if (opp.multiWay?.kind === "exclusive") {
+                          const { outcome: selected, outcomeCount, referenceOutcomes } = opp.multiWay;
+                          return (
+                            <Tooltip
+                              content={
+                                <div className="space-y-0.5 text-xs">
+                                  {referenceOutcomes.slice(0, MULTI_WAY_TOOLTIP_OUTCOMES).map((outcome) => (
+                                    <div key={outcome.key} className="flex justify-between gap-3">
+                                      <span className={cn(outcome.key === selected.key && "font-semibold")}>{outcome.label}</span>
+                                      <span className="tabular-nums">{(outcome.fairProb * 100).toFixed(1)}%</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              }
+                            >
+                              <span className={cn(
+                                "inline-flex items-center px-1.5 lg:px-2.5 py-0.5 lg:py-1 rounded-md lg:rounded-lg text-[10px] lg:text-xs font-bold tracking-wide cursor-help",
+                                "bg-gradient-to-br from-neutral-100 to-neutral-50 dark:from-neutral-800 dark:to-neutral-800/50",
+                                "border border-neutral-200/50 dark:border-neutral-700/50",
+                                "text-neutral-700 dark:text-neutral-300 shadow-sm"
+                              )}>
+                                {outcomeCount}-Way
+                              </span>
+                            </Tooltip>
+                          );
+                        }
+
                         const moneylineMarket = isMoneylineMarket(opp.market, opp.marketDisplay);
                         const lineDisplay = moneylineMarket ? "ML" :
                           opp.side === "yes" ? "Yes" : 
@@ -2588,6 +2670,17 @@ export default function PositiveEVPage() {
                       </div>
                     </td>
 
+                    {/* Projection EV */}
+                    {showProjectionColumn && (
+                      <td className="px-2 lg:px-3 py-2 lg:py-3 text-center border-b border-neutral-100 dark:border-neutral-800/50">
+                        <ProjectionEvCell
+                          projection={opp.projection}
+                          fairSource={projectionFairSource}
+                          loading={projectionLoading}
+                        />
+                      </td>
+                    )}
+
                     {/* Stake */}
                     {showStakeColumn && (
                       <td className="px-2 lg:px-3 py-2 lg:py-3 text-center border-b border-neutral-100 dark:border-neutral-800/50">
@@ -2931,7 +3024,7 @@ export default function PositiveEVPage() {
                                       isOddsChanged ? "bg-amber-500" : "bg-emerald-500 animate-pulse"
                                     )} />
                                     <span className="text-sm font-bold text-neutral-900 dark:text-white truncate">
-                                      {formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
+                                      {opp.multiWay ? opp.multiWay.outcome.label : formatSelectionDisplay(opp.playerName, opp.marketDisplay)}
                                     </span>
                                     {!moneylineMarket && (
                                       <span className="text-xs text-neutral-600 dark:text-neutral-400 shrink-0">
@@ -13,7 +13,10 @@ import { PickCard } from "@/components/sharp-intel/pick-card";
 import { PickDetailPanel } from "@/components/sharp-intel/pick-detail-panel";
 import { MarketCard } from "@/components/sharp-intel/market-card";
 import { MarketDetailPanel } from "@/components/sharp-intel/market-detail-panel";
+import type { MarketConsensus } from "@/lib/polymarket/types";
 import { Leaderboard } from "@/components/sharp-intel/leaderboard";
+import { CrossVenueList } from "@/components/sharp-intel/cross-venue-list";
+import { FollowPortfolio } from "@/components/sharp-intel/follow-portfolio";
 import { WalletDetailPanel } from "@/components/sharp-intel/wallet-detail-panel";
 import { SettingsSheet } from "@/components/sharp-intel/settings-sheet";
 import { DetailSheet } from "@/components/sharp-intel/detail-sheet";
@@ -40,7 +43,7 @@ import Link from "next/link";
 import useSWR from "swr";
 import { toast } from "sonner";
 
-type Tab = "picks" | "markets" | "leaderboard";
+type Tab = "picks" | "markets" | "leaderboard" | "portfolio" | "venues";
 
 type SortOption = { label: string; icon: string }
 
@@ -59,6 +62,7 @@ const MARKETS_SORTS: Record<string, SortOption> = {
   bettors: { label: "Bettors", icon: "M15 19.128a9.38 9.38 0 0 0 2.625.372 9.337 9.337 0 0 0 4.121-.952 4.125 4.125 0 0 0-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 0 1 8.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0 1 11.964-3.07M12 6.375a3.375 3.375 0 1 1-6.75 0 3.375 3.375 0 0 1 6.75 0Zm8.25 2.25a2.625 2.625 0 1 1-5.25 0 2.625 2.625 0 0 1 5.25 0Z" },
   conviction: { label: "Conviction", icon: "M15.362 5.214A8.252 8.252 0 0 1 12 21 8.25 8.25 0 0 1 6.038 7.048 8.287 8.287 0 0 0 9 9.6a8.983 8.983 0 0 1 3.361-6.867 8.21 8.21 0 0 0 3 2.48Z" },
   recent: { label: "Recent", icon: "M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" },
+  consensus: { label: "Consensus", icon: "M9 12.75 11.25 15 15 9.75M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" },
 }
 
 function SortDropdown({ value, onChange, options }: { value: string; onChange: (v: string) => void; options: Record<string, SortOption> }) {
@@ -142,6 +146,7 @@ interface GameData {
   }>
   first_signal_at: string
   last_signal_at: string
+  consensus?: MarketConsensus | null
 }
 
 const fetcher = (url: string) => fetch(url).then(r => r.json())
@@ -556,6 +561,8 @@ export default function SharpSignalsPage() {
     { key: "picks", label: "Picks" },
     { key: "markets", label: "Markets" },
     { key: "leaderboard", label: "Leaderboard" },
+    { key: "portfolio", label: "Follow Portfolio" },
+    { key: "venues", label: "Cross-Venue" },
   ];
 
   const excludedSports = prefs.signal_excluded_sports || [];
@@ -681,6 +688,15 @@ export default function SharpSignalsPage() {
       totalVolume: game.total_dollars,
       wagerCount: game.total_bets,
       lastSignalAt: game.last_signal_at,
+      consensus: game.consensus
+        ? {
+            outcome: game.consensus.outcome,
+            strength: game.consensus.strength,
+            label: game.consensus.label,
+            pileOnWallets: game.consensus.pile_on?.wallets ?? 0,
+            pileOnMinutes: game.consensus.pile_on?.window_minutes ?? 0,
+          }
+        : undefined,
     }
   }
 
@@ -716,6 +732,9 @@ export default function SharpSignalsPage() {
       const bTime = b.lastSignalAt ? new Date(b.lastSignalAt).getTime() : 0
       return bTime - aTime
     }
+    if (marketSort === "consensus") {
+      return (b.consensus?.strength ?? -1) - (a.consensus?.strength ?? -1)
+    }
     // Default (liquidity): sort by total volume
     return b.totalVolume - a.totalVolume
   })
@@ -1025,6 +1044,20 @@ export default function SharpSignalsPage() {
               />
             </div>
           )}
+
+          {/* Follow Portfolio Tab */}
+          {tab === "portfolio" && (
+            <FollowPortfolio
+              followedWallets={followedWallets}
+              savedSettings={prefs.signal_copy_settings}
+              onSaveSettings={(settings) => updatePrefs({ signal_copy_settings: settings })}
+            />
+          )}
+
+          {/* Cross-Venue Tab */}
+          {tab === "venues" && (
+            <CrossVenueList sport={selectedSport || undefined} oddsFormat={oddsFormat} />
+          )}
         </div>
 
         {/* Right Panel — independent scroll */}
@@ -1066,6 +1099,15 @@ export default function SharpSignalsPage() {
               </p>
             </div>
           )}
+
+          {tab === "venues" && (
+            <div className="flex h-full flex-col items-center justify-center px-6 text-center">
+              <p className="text-sm text-neutral-600">
+                Polymarket prices are filled against live order-book depth at your size, net of the taker fee.
+                Arbs pair that fill with the best sportsbook on the other side; EV is measured against the de-vigged sharp line.
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
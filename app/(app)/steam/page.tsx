@@ -0,0 +1,10 @@
+import SteamPage from "./steam-content";
+
+export const metadata = {
+  title: "Steam Moves",
+  description: "Live steam, stale lines and reverse line movement across sportsbooks.",
+};
+
+export default function SteamMovesPage() {
+  return <SteamPage />;
+}
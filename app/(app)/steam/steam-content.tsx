@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AppPageLayout } from "@/components/layout/app-page-layout";
+import { SportIcon } from "@/components/icons/sport-icons";
+import { SteamTable } from "@/components/steam/steam-table";
+import { useHasSharpAccess } from "@/hooks/use-entitlements";
+import { useSteamFeed } from "@/hooks/use-steam-feed";
+import { STEAM_SPORTS } from "@/lib/steam/detector";
+import type { SteamSignalKind } from "@/lib/steam/types";
+
+const ALL_KINDS: SteamSignalKind[] = ["steam", "stale", "rlm"];
+
+export default function SteamPage() {
+  const { hasAccess, isLoading: accessLoading } = useHasSharpAccess();
+  const [sports, setSports] = useState<string[]>([]);
+  const [kinds, setKinds] = useState<SteamSignalKind[]>(ALL_KINDS);
+
+  const { signals, totalCount, now, connected, isReconnecting, hasFailed, reconnect, isLoading, error } = useSteamFeed({
+    sports,
+    kinds,
+    enabled: hasAccess,
+  });
+
+  const toggleSport = (sport: string) => {
+    setSports((prev) => (prev.includes(sport) ? prev.filter((s) => s !== sport) : [...prev, sport]));
+  };
+
+  return (
+    <AppPageLayout
+      title="Steam Moves"
+      subtitle="Synchronized book moves, stale soft lines and reverse line movement as they happen"
+      headerActions={
+        hasAccess && (
+          <div className="flex items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400">
+            <span
+              className={cn(
+                "h-2 w-2 rounded-full",
+                connected ? "bg-emerald-500" : isReconnecting ? "animate-pulse bg-amber-500" : "bg-neutral-400"
+              )}
+            />
+            {connected ? "Live" : isReconnecting ? "Reconnecting…" : "Offline"}
+            {hasFailed && (
+              <button onClick={reconnect} className="font-semibold text-emerald-600 hover:underline dark:text-emerald-400">
+                Retry
+              </button>
+            )}
+            <span className="tabular-nums">· {totalCount} signals</span>
+          </div>
+        )
+      }
+      contextBar={
+        <div className="flex flex-wrap items-center gap-1.5">
+          <button
+            onClick={() => setSports([])}
+            className={cn(
+              "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors",
+              sports.length === 0
+                ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                : "bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:hover:bg-neutral-700"
+            )}
+          >
+            All sports
+          </button>
+          {STEAM_SPORTS.map((sport) => (
+            <button
+              key={sport}
+              onClick={() => toggleSport(sport)}
+              className={cn(
+                "flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-semibold uppercase transition-colors",
+                sports.includes(sport)
+                  ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:hover:bg-neutral-700"
+              )}
+            >
+              <SportIcon sport={sport} className="h-3 w-3" />
+              {sport}
+            </button>
+          ))}
+        </div>
+      }
+    >
+      {!accessLoading && !hasAccess ? (
+        <div className="flex items-center justify-center gap-2 rounded-xl border border-neutral-200 bg-white px-4 py-12 text-sm text-neutral-600 dark:border-neutral-800 dark:bg-neutral-900 dark:text-neutral-400">
+          <Lock className="h-4 w-4" />
+          Steam moves are available on Sharp and Elite plans.
+          <Link href="/pricing" className="font-semibold text-emerald-600 hover:underline dark:text-emerald-400">
+            Upgrade
+          </Link>
+        </div>
+      ) : (
+        <SteamTable
+          signals={signals}
+          kinds={kinds}
+          onKindsChange={setKinds}
+          now={now}
+          loading={accessLoading || isLoading}
+          error={error instanceof Error ? error : null}
+        />
+      )}
+    </AppPageLayout>
+  );
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { getMiddles } from "@/lib/middles";
+
+/**
+ * GET /api/arbs/middles?sports=nba,nfl
+ *
+ * Middles and low-hold pairs across books for upcoming events, ranked by EV.
+ * Filtering (books, markets, EV/hold thresholds) happens client-side with
+ * the arbitrage prefs, same as the arb feed.
+ */
+
+const SUPPORTED_SPORTS = new Set([
+  "nba",
+  "nfl",
+  "ncaaf",
+  "ncaab",
+  "nhl",
+  "mlb",
+  "ncaabaseball",
+  "wnba",
+  "soccer_epl",
+  "soccer_laliga",
+  "soccer_mls",
+  "soccer_ucl",
+  "soccer_uel",
+]);
+
+const DEFAULT_SPORTS = ["nba", "nfl", "nhl", "mlb", "ncaab", "ncaaf"];
+const MAX_ROWS = 1000;
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Middles require a Sharp or Elite plan", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const requested = (req.nextUrl.searchParams.get("sports") || "")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter((s) => SUPPORTED_SPORTS.has(s));
+    const sports = requested.length > 0 ? requested : DEFAULT_SPORTS;
+
+    const { rows, summary } = await getMiddles(sports);
+
+    return NextResponse.json(
+      { rows: rows.slice(0, MAX_ROWS), summary, plan: userPlan },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error: any) {
+    console.error("[Middles API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
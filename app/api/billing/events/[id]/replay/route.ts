@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import {
+  getStripeEvent,
+  isBillingAdmin,
+  processStripeEvent,
+  ReplayStripeEventSchema,
+  stripe,
+  StripeEventInProgressError,
+} from "@/lib/billing";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/billing/events/[id]/replay
+ * Re-run a Stripe event through the webhook handlers (admin only). Uses the
+ * stored payload unless it's missing or `refetch` is set, in which case the
+ * event is fetched from Stripe (events are kept there for 30 days).
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isBillingAdmin(user))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = ReplayStripeEventSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const serviceClient = createServerSupabaseClient();
+    const stored = await getStripeEvent(serviceClient, id);
+
+    let event: Stripe.Event;
+    if (stored && !parsed.data.refetch) {
+      event = stored.payload as unknown as Stripe.Event;
+    } else {
+      try {
+        event = await stripe.events.retrieve(id);
+      } catch (err) {
+        console.error("[Billing Events API] Failed to fetch event from Stripe:", (err as Error)?.message);
+        return NextResponse.json({ error: "Event not found" }, { status: 404 });
+      }
+    }
+
+    try {
+      const result = await processStripeEvent(serviceClient, event, { force: true });
+      console.log(`[Billing Events API] Event ${id} replayed by ${user.id}: ${result.status}`);
+      return NextResponse.json({ result });
+    } catch (err) {
+      if (err instanceof StripeEventInProgressError) {
+        return NextResponse.json({ error: "Event is already being processed" }, { status: 409 });
+      }
+      console.error("[Billing Events API] Replay failed:", (err as Error)?.message);
+      return NextResponse.json({ error: "Replay failed", message: (err as Error)?.message }, { status: 500 });
+    }
+  } catch (error) {
+    console.error("[Billing Events API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { isBillingAdmin, listStripeEvents, StripeEventsQuerySchema } from "@/lib/billing";
+
+/**
+ * GET /api/billing/events
+ * Stored Stripe webhook events, newest first (admin only). With
+ * subscription_id, that subscription's events in creation order.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isBillingAdmin(user))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = StripeEventsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const events = await listStripeEvents(createServerSupabaseClient(), parsed.data);
+    return NextResponse.json({ events, count: events.length });
+  } catch (error) {
+    console.error("[Billing Events API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Cron Job: Archive Odds
+ *
+ * Runs every minute via Vercel Cron. Each run listens to the odds pub/sub
+ * channels for ~75 seconds and writes every price change it sees to the
+ * partitioned odds_archive_chunks table. Windows overlap the next run so
+ * no update falls between them.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/archive-odds",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { runOddsArchiveWindow } from "@/lib/odds-archive";
+
+export const maxDuration = 90;
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const summary = await runOddsArchiveWindow(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/archive-odds] Completed in ${duration}ms - ${summary.messages} updates, ${summary.keysRead} keys read, ${summary.changes} price changes, ${summary.chunksWritten} chunks written (${summary.errors} errors)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/archive-odds] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to archive odds", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Cron Job: Capture Backtest Snapshots
+ *
+ * Runs every 15 minutes via Vercel Cron to sample every book's two-way
+ * prices for upcoming NBA/WNBA/MLB events into ev_backtest_snapshots, and
+ * grade captured markets whose games have finished.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/capture-backtest-snapshots",
+ *   "schedule": "*\/15 * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { captureBacktestSnapshots, gradeBacktestMarkets } from "@/lib/backtest";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const capture = await captureBacktestSnapshots(supabase);
+    const grading = await gradeBacktestMarkets(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/capture-backtest-snapshots] Completed in ${duration}ms - ${capture.markets} markets across ${capture.events} events, wrote ${capture.snapshots} snapshots (${capture.unchanged} unchanged), graded ${grading.graded}/${grading.checked} (${grading.ungradeable} void, ${grading.errors} errors)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      capture,
+      grading,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/capture-backtest-snapshots] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to capture backtest snapshots", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Cron Job: Capture Closing Lines
+ *
+ * Runs every minute via Vercel Cron to snapshot the fair closing price
+ * (user's sharp preset, de-vigged) for favorites starting in the next
+ * 15 minutes, and roll leg closes up into placed betslips for CLV.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/capture-closing-lines",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { captureClosingLines } from "@/lib/clv";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const summary = await captureClosingLines(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/capture-closing-lines] Completed in ${duration}ms - checked ${summary.checked} favorites, captured ${summary.captured}, unpriced ${summary.unpriced}, updated ${summary.betslips_updated} betslips`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/capture-closing-lines] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to capture closing lines", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
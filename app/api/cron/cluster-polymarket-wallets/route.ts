@@ -0,0 +1,58 @@
+/**
+ * Cron Job: Cluster Polymarket Wallets
+ *
+ * Runs hourly via Vercel Cron. Groups scored whale wallets that look like
+ * one bettor (co-timed entries, matching market sequences, a shared funding
+ * wallet, similar stakes) and stores the clusters for the leaderboard and
+ * signal scoring.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/cluster-polymarket-wallets",
+ *   "schedule": "15 * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth. POLYGONSCAN_API_KEY enables
+ * funding-source lookups; without it clusters use behaviour only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { runWalletClustering } from "@/lib/polymarket/cluster-scan";
+
+export const maxDuration = 60;
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const summary = await runWalletClustering(createServerSupabaseClient());
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/cluster-polymarket-wallets] Completed in ${duration}ms - ${summary.wallets} wallets, ${summary.signals} signals, ${summary.funding_checked} funders checked, ${summary.clusters} clusters (${summary.clustered_wallets} wallets)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/cluster-polymarket-wallets] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to cluster wallets", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
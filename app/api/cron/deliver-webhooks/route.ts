@@ -0,0 +1,57 @@
+/**
+ * Cron Job: Deliver Webhooks
+ *
+ * Runs every minute via Vercel Cron. Retries webhook deliveries whose
+ * backoff has elapsed, then sends new filter preset / EV model matches to
+ * every enabled user webhook.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/deliver-webhooks",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { runWebhooks } from "@/lib/webhooks";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const summary = await runWebhooks(supabase, req.nextUrl.origin);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/deliver-webhooks] Completed in ${duration}ms - evaluated ${summary.webhooks_evaluated} webhooks, sent ${summary.events_sent} events (${summary.opportunities_sent} opportunities), ${summary.retries_attempted} retries, ${summary.failed} failed, ${summary.disabled} disabled`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/deliver-webhooks] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to deliver webhooks", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
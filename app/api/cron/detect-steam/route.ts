@@ -0,0 +1,56 @@
+/**
+ * Cron Job: Detect Steam
+ *
+ * Runs every minute via Vercel Cron. Each run follows the odds pub/sub
+ * channels for ~75 seconds (overlapping the next run), detects steam, stale
+ * lines and reverse line movement across books, and publishes signals on
+ * pub:steam.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/detect-steam",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runSteamDetectorWindow } from "@/lib/steam";
+
+export const maxDuration = 90;
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const summary = await runSteamDetectorWindow();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/detect-steam] Completed in ${duration}ms - ${summary.messages} updates, ${summary.keysRead} keys read, ${summary.moves} moves, ${summary.signals} signals (${summary.errors} errors)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/detect-steam] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to detect steam", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Cron Job: Evaluate Alerts
+ *
+ * Runs every minute via Vercel Cron to evaluate user alert rules against
+ * the +EV, arbitrage and best-odds Redis feeds and deliver new matches over
+ * email, web push, Discord and Slack.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/evaluate-alerts",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { evaluateAlertRules } from "@/lib/alerts";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const summary = await evaluateAlertRules(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/evaluate-alerts] Completed in ${duration}ms - evaluated ${summary.rules_evaluated} rules, ${summary.matches} matches, delivered ${summary.delivered} (deduped ${summary.deduped}, rate limited ${summary.rate_limited}, ${summary.errors} errors)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/evaluate-alerts] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate alerts", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
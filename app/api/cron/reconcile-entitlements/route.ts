@@ -0,0 +1,59 @@
+/**
+ * Cron Job: Reconcile Entitlements
+ *
+ * Runs nightly via Vercel Cron. Compares Stripe subscriptions with
+ * billing.subscriptions, repairs drifted rows from Stripe's current state
+ * and reports users whose current_entitlements disagree with what they pay
+ * for. Pass ?dryRun=true to report without writing.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/reconcile-entitlements",
+ *   "schedule": "30 7 * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { reconcileSubscriptions } from "@/lib/billing";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+    const summary = await reconcileSubscriptions(supabase, { dryRun });
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/reconcile-entitlements] Completed in ${duration}ms${dryRun ? " (dry run)" : ""} - checked ${summary.checked} subscriptions, ${summary.drifted} drifted, ${summary.repaired} repaired, ${summary.skipped_stale} stale, ${summary.entitlement_mismatches} entitlement mismatches, ${summary.errors} errors`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/reconcile-entitlements] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to reconcile entitlements", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
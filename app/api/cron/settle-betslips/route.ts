@@ -0,0 +1,57 @@
+/**
+ * Cron Job: Settle Betslips
+ *
+ * Runs every 10 minutes via Vercel Cron to grade legs on placed betslips
+ * against final box scores / game scores and flip the slip status to
+ * won, lost or void once every leg is decided.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/settle-betslips",
+ *   "schedule": "*\/10 * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { settlePlacedBetslips } from "@/lib/settlement";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const summary = await settlePlacedBetslips(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/settle-betslips] Completed in ${duration}ms - checked ${summary.slips_checked} slips, graded ${summary.legs_graded} legs, settled ${summary.slips_settled} slips`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/settle-betslips] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to settle betslips", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Cron Job: Snipe Stale Lines
+ *
+ * Runs every minute via Vercel Cron. Each run follows the odds pub/sub
+ * channels for ~75 seconds (overlapping the next run), tracks when each
+ * book last changed every price, and publishes soft-book prices that
+ * predate the latest sharp move on pub:stale_lines.
+ *
+ * Add to vercel.json:
+ * {
+ *   "path": "/api/cron/snipe-stale-lines",
+ *   "schedule": "* * * * *"
+ * }
+ *
+ * Requires CRON_SECRET env var for auth.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runStaleLineWindow } from "@/lib/stale-lines";
+
+export const maxDuration = 90;
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  if (CRON_SECRET) {
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const summary = await runStaleLineWindow();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[cron/snipe-stale-lines] Completed in ${duration}ms - ${summary.messages} updates, ${summary.keysRead} keys read, ${summary.sharpMoves} sharp moves, ${summary.lagSamples} lag samples, ${summary.lines} lines (${summary.errors} errors)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[cron/snipe-stale-lines] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to snipe stale lines", duration: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { fetchMarketBookSelections } from "@/lib/clv";
+import { getMarketStatKeys } from "@/lib/settlement/grading";
+import { normalizePlayerName, type SSEBookSelections } from "@/lib/odds/types";
+import {
+  loadMlbGame,
+  marketDistribution,
+  projectLine,
+  simulateMlbPlayer,
+  summarizeSimulation,
+} from "@/lib/projections";
+import type { MarketProjection } from "@/lib/projections";
+
+/**
+ * GET /api/mlb/projections
+ *
+ * Monte Carlo projection for one MLB player prop: simulates the player's
+ * game plate appearance by plate appearance (pitcher matchup, hot zones,
+ * weather) and prices every requested or quoted line against the books.
+ *
+ * Query params:
+ * - playerId: MLB player id (required)
+ * - market: player prop market, e.g. player_hits, pitcher_strikeouts (required)
+ * - gameId: MLB game id, or eventId: odds event id (one required)
+ * - lines: extra comma-separated lines to price (book lines are always included)
+ * - simulations: 1000-20000 (default 5000)
+ */
+
+export const runtime = "nodejs";
+
+const QuerySchema = z
+  .object({
+    playerId: z.coerce.number().int().positive(),
+    market: z.string().min(1),
+    gameId: z.coerce.number().int().positive().optional(),
+    eventId: z.string().min(1).optional(),
+    lines: z.string().optional(),
+    simulations: z.coerce.number().int().min(1000).max(20000).optional().default(5000),
+  })
+  .refine((query) => query.gameId || query.eventId, { message: "gameId or eventId is required" });
+
+type BestPrice = { price: number; book: string };
+
+/**
+ * Best over/under price per line for the player across books.
+ */
+function bestPricesByLine(
+  books: Record<string, SSEBookSelections>,
+  player: { odds_player_id: string | null; name: string | null }
+): Map<number, { best_over: BestPrice | null; best_under: BestPrice | null }> {
+  const normalizedName = player.name ? normalizePlayerName(player.name) : "";
+  const result = new Map<number, { best_over: BestPrice | null; best_under: BestPrice | null }>();
+
+  for (const [book, selections] of Object.entries(books)) {
+    for (const selection of Object.values(selections || {})) {
+      if (!selection || (selection.side !== "over" && selection.side !== "under")) continue;
+      const matches = player.odds_player_id
+        ? selection.player_id === player.odds_player_id
+        : !!normalizedName && normalizePlayerName(selection.player || "") === normalizedName;
+      if (!matches) continue;
+
+      const price = parseInt(String(selection.price).replace("+", ""), 10);
+      const line = Number(selection.line);
+      if (!Number.isFinite(price) || !Number.isFinite(line)) continue;
+
+      const entry = result.get(line) ?? { best_over: null, best_under: null };
+      const key = selection.side === "over" ? "best_over" : "best_under";
+      const current = entry[key];
+      // Higher American price always pays more
+      if (!current || price > current.price) entry[key] = { price, book };
+      result.set(line, entry);
+    }
+  }
+
+  return result;
+}
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+  const { searchParams } = new URL(req.url);
+
+  const parsed = QuerySchema.safeParse({
+    playerId: searchParams.get("playerId") ?? undefined,
+    market: searchParams.get("market") ?? undefined,
+    gameId: searchParams.get("gameId") ?? undefined,
+    eventId: searchParams.get("eventId") ?? undefined,
+    lines: searchParams.get("lines") ?? undefined,
+    simulations: searchParams.get("simulations") ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  const { playerId, market, gameId, eventId, lines, simulations } = parsed.data;
+  const statKeys = getMarketStatKeys("mlb", market);
+  if (!statKeys) {
+    return NextResponse.json(
+      { error: `Unsupported market: ${market}` },
+      { status: 400, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const [game, playerResult] = await Promise.all([
+      loadMlbGame(supabase, { gameId, oddsGameId: eventId }),
+      supabase
+        .from("mlb_players_hr")
+        .select("mlb_player_id, name, odds_player_id")
+        .eq("mlb_player_id", playerId)
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (!game) {
+      return NextResponse.json({ error: "Game not found" }, { status: 404, headers: { "Cache-Control": "no-store" } });
+    }
+
+    const simulation = await simulateMlbPlayer(supabase, game, playerId, market, { simulations });
+    if (!simulation) {
+      return NextResponse.json(
+        { error: "Player is not a probable starter in this game" },
+        { status: 404, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const distribution = marketDistribution(simulation.samples, statKeys);
+    if (!distribution) {
+      return NextResponse.json(
+        { error: `Market ${market} isn't simulated for a ${simulation.role}` },
+        { status: 400, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const playerName = playerResult.data?.name ? String(playerResult.data.name) : null;
+    const oddsGameId = eventId ?? game.odds_game_id;
+    const books = oddsGameId ? await fetchMarketBookSelections(`odds:mlb:${oddsGameId}:${market}`) : {};
+    const prices = bestPricesByLine(books, {
+      odds_player_id: playerResult.data?.odds_player_id ? String(playerResult.data.odds_player_id) : null,
+      name: playerName,
+    });
+
+    const requestedLines = (lines ?? "")
+      .split(",")
+      .map((value) => parseFloat(value))
+      .filter((value) => Number.isFinite(value));
+    const allLines = [...new Set([...requestedLines, ...prices.keys()])].sort((a, b) => a - b);
+
+    const projection: MarketProjection = {
+      market,
+      mean: distribution.mean,
+      median: distribution.median,
+      std_dev: distribution.std_dev,
+      lines: allLines.map((line) => projectLine(distribution, line, prices.get(line))),
+    };
+
+    return NextResponse.json(
+      {
+        player: summarizeSimulation("mlb", { player_id: playerId, player_name: playerName }, simulation.samples),
+        role: simulation.role,
+        projection,
+        context: {
+          game_id: game.game_id,
+          event_id: oddsGameId,
+          opponent_pitcher_id: simulation.opponent_pitcher_id,
+          environment: simulation.environment,
+        },
+      },
+      {
+        headers: {
+          "X-Timing-Ms": String(Date.now() - startTime),
+          "Cache-Control": "private, max-age=60",
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error("[mlb/projections] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase-server";
 import { redis } from "@/lib/redis";
 import { z } from "zod";
+import { collectCurveQuotes, loadMatrixDistributions, matrixCellFair, matrixCellModel } from "@/lib/projections";
+import type { StatDistribution } from "@/lib/projections";
+import { SHARP_BOOKS } from "@/lib/ev/constants";
+import { fitFairCurveFromQuotes, type FairCurve } from "@/lib/ev/fair-curve";
 
 /**
  * Hit Rate Matrix API
@@ -46,6 +50,15 @@ interface ThresholdData {
   edgePct: number | null;        // ((best/avg) - 1) * 100
   bookCount: number;             // Number of books with odds
   isBestCell: boolean;           // True if this is the best edge cell in the row
+  // Monte Carlo model (only when includeModel is set)
+  modelOverProb?: number | null;  // Model P(over) at actualLine ?? threshold (0-100)
+  modelFairOdds?: number | null;  // Fair American odds for the over
+  modelEdgePct?: number | null;   // EV % of bestOdds vs the model
+  // Sharp fair curve (players with at least one sharp two-way line)
+  fairOverProb?: number | null;   // De-vigged P(over), interpolated between sharp lines (0-100)
+  fairOdds?: number | null;       // Fair American odds for the over
+  fairEdgePct?: number | null;    // EV % of bestOdds vs the sharp curve
+  fairSharp?: boolean;            // A sharp book quotes both sides at this line
 }
 
 interface HitRateMatrixRow {
@@ -62,6 +75,7 @@ interface HitRateMatrixRow {
   dvpRank: number | null;
   dvpQuality: "favorable" | "neutral" | "unfavorable" | null;
   primaryLine: number | null;
+  modelMean?: number | null;     // Simulated mean for the market (includeModel)
   thresholds: ThresholdData[];
   primaryColor: string | null;
   secondaryColor: string | null;
@@ -151,6 +165,7 @@ const RequestSchema = z.object({
   timeWindow: z.enum(["last_5", "last_10", "last_20", "season"]).optional().default("last_10"),
   positions: z.array(z.string()).optional(),
   minGames: z.number().optional().default(5),
+  includeModel: z.boolean().optional().default(false),
 });
 
 // =============================================================================
@@ -268,7 +283,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { market, gameDate, timeWindow, positions, minGames } = parsed.data;
+    const { market, gameDate, timeWindow, positions, minGames, includeModel } = parsed.data;
     const targetDate = gameDate || getETDate();
 
     const supabase = await createServerSupabaseClient();
@@ -494,6 +509,10 @@ export async function POST(req: NextRequest) {
       uniqueEventMarkets.add(`${result.eventId}:${result.market}`);
     }
 
+    // Sharp books' full ladders feed the fair curve even where they don't
+    // hang a threshold line
+    for (const book of Object.keys(SHARP_BOOKS)) allBooks.add(book);
+
     const oddsMap = new Map<string, RedisOddsBlob>();
     
     const oddsPromises = Array.from(uniqueEventMarkets).flatMap(em => {
@@ -515,10 +534,33 @@ export async function POST(req: NextRequest) {
     
     console.log(`[hit-rate-matrix] Found ${allBooks.size} unique books, ${oddsMap.size} odds blobs, ${thresholdToLineMap.size} line mappings`);
 
+    // Monte Carlo model: one simulated game per player, priced at every cell
+    const modelDistributions: Map<number, StatDistribution> = includeModel
+      ? await loadMatrixDistributions(
+          supabase,
+          "nba",
+          market,
+          targetDate,
+          linesResults.map((result) => ({ ...result.profile, dvp_rank: result.profile.dvp_rank ?? null })),
+          30
+        )
+      : new Map();
+
+    // Sharp fair curve per player, fitted across every line the books hang
+    const curveQuotes = collectCurveQuotes(
+      [...oddsMap].map(([key, blob]) => {
+        const [eventId, , book] = key.split(":");
+        return { eventId, book, blob };
+      })
+    );
+
     // Now build the matrix rows with calculated hit rates and odds
     for (const result of linesResults) {
       const profile = result.profile;
       const gameLogs = result.gameLogs || [];
+      const modelDistribution = modelDistributions.get(Number(profile.player_id)) ?? null;
+      const quotes = curveQuotes.get(`${result.eventId}:${result.playerUuid}`);
+      const fairCurve: FairCurve | null = quotes ? fitFairCurveFromQuotes(quotes, market) : null;
       
       // Get stats for the time window
       const stats: number[] = [];
@@ -611,6 +653,11 @@ export async function POST(req: NextRequest) {
           }
         }
 
+        const model = modelDistribution
+          ? matrixCellModel(modelDistribution, actualLine ?? threshold, bestOdds, bestBook)
+          : null;
+        const fair = fairCurve ? matrixCellFair(fairCurve, actualLine ?? threshold, bestOdds) : null;
+
         thresholds.push({
           line: threshold,
           actualLine: actualLine ?? null,
@@ -625,6 +672,8 @@ export async function POST(req: NextRequest) {
           edgePct,
           bookCount,
           isBestCell: false, // Will be set below
+          ...(model ?? {}),
+          ...(fair ?? {}),
         });
       }
 
@@ -661,6 +710,7 @@ export async function POST(req: NextRequest) {
         dvpRank,
         dvpQuality,
         primaryLine: profile.line,
+        modelMean: includeModel ? modelDistribution?.mean ?? null : undefined,
         thresholds,
         primaryColor: profile.primary_color || null,
         secondaryColor: profile.secondary_color || null,
@@ -704,7 +754,9 @@ export async function GET(req: NextRequest) {
   const positionsRaw = searchParams.get("positions");
   const positions = positionsRaw ? positionsRaw.split(",") : undefined;
   
-  const body = { market, gameDate, timeWindow, positions };
+  const includeModel = searchParams.get("includeModel") === "true";
+  
+  const body = { market, gameDate, timeWindow, positions, includeModel };
   const newReq = new NextRequest(req.url, {
     method: "POST",
     body: JSON.stringify(body),
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { redis } from "@/lib/redis";
 import { z } from "zod";
+import { fairLinePrice, fitFairCurveFromQuotes, type FairCurveModel, type FairCurveQuote } from "@/lib/ev/fair-curve";
 
 // =============================================================================
 // TYPES
@@ -27,6 +28,11 @@ interface LineData {
   } | null;
   top_books: BookOdds[];
   book_count: number;
+  fair: {
+    over: number | null;
+    under: number | null;
+    sharp: boolean; // A sharp book quotes both sides at this line
+  } | null;
 }
 
 interface OddsLadderResponse {
@@ -35,6 +41,11 @@ interface OddsLadderResponse {
   player_id: string;
   primary_line: number | null;
   lines: LineData[];
+  fair_curve: {
+    model: FairCurveModel;
+    mean: number;
+    sharp_lines: number[];
+  } | null;
   updated_at: number;
 }
 
@@ -128,6 +139,7 @@ export async function GET(request: NextRequest) {
         player_id,
         primary_line: null,
         lines: [],
+        fair_curve: null,
         updated_at: Date.now(),
       } as OddsLadderResponse);
     }
@@ -181,6 +193,9 @@ export async function GET(request: NextRequest) {
     
     console.log(`[odds-ladder] Fetched ${oddsMap.size} odds blobs out of ${allBooks.size} books`);
     
+    // Every two-way quote, for fitting the sharp fair curve
+    const curveQuotes: FairCurveQuote[] = [];
+
     // Build line data
     for (const { line, books } of linesBooksResults) {
       const bookOddsList: BookOdds[] = [];
@@ -233,6 +248,10 @@ export async function GET(request: NextRequest) {
         }
       }
       
+      for (const b of bookOddsList) {
+        curveQuotes.push({ line, book: b.book, over: b.over, under: b.under });
+      }
+
       // Sort by best over odds
       bookOddsList.sort((a, b) => {
         const aPrice = a.over ?? a.under ?? -Infinity;
@@ -255,6 +274,7 @@ export async function GET(request: NextRequest) {
         } : null,
         top_books: bookOddsList.slice(0, limit_books_per_line),
         book_count: bookOddsList.length,
+        fair: null,
       });
     }
     
@@ -262,6 +282,23 @@ export async function GET(request: NextRequest) {
     const primaryLine = lineNumbers.length > 0 
       ? lineNumbers[Math.floor(lineNumbers.length / 2)] 
       : null;
+
+    // Fair odds at every rung from the sharp books' de-vigged lines
+    const curve = fitFairCurveFromQuotes(
+      curveQuotes.map((q) => ({ ...q, main: q.line === primaryLine })),
+      market
+    );
+    if (curve) {
+      const sharpLines = new Set(curve.points.map((p) => p.line));
+      for (const lineData of linesData) {
+        const price = fairLinePrice(curve, lineData.line);
+        lineData.fair = {
+          over: price.fair_over_odds,
+          under: price.fair_under_odds,
+          sharp: sharpLines.has(lineData.line),
+        };
+      }
+    }
     
     const responseTime = Date.now() - startTime;
     console.log(`[odds-ladder] ${event_id}/${market}/${player_id}: ${lineNumbers.length} lines, ${allBooks.size} books in ${responseTime}ms`);
@@ -272,6 +309,9 @@ export async function GET(request: NextRequest) {
       player_id,
       primary_line: primaryLine,
       lines: linesData,
+      fair_curve: curve
+        ? { model: curve.model, mean: curve.mean, sharp_lines: curve.points.map((p) => p.line) }
+        : null,
       updated_at: latestTimestamp || Date.now(),
     } as OddsLadderResponse, {
       headers: {
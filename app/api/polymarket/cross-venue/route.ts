@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { hasEliteAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { getCrossVenue } from "@/lib/polymarket/cross-venue-scan";
+
+/**
+ * GET /api/polymarket/cross-venue?sports=nba,nhl&size=250&fee_bps=0&type=arb
+ *
+ * Polymarket game markets priced at an executable size (order-book depth,
+ * taker fee included) against every sportsbook: two-way arbs vs the best
+ * opposite book, edge vs the best same-side book, and EV vs the de-vigged
+ * sharp line.
+ *
+ * Query params:
+ *   sports   - comma-separated (default nba,nfl,nhl,mlb,ncaab,ncaaf)
+ *   size     - stake in USD to fill on Polymarket (default 100, max 10000)
+ *   fee_bps  - Polymarket taker fee rate in bps (default 0)
+ *   type     - "arb" | "ev" | "all" (default "all")
+ *   min      - minimum arb ROI / EV % for the chosen type (default 0)
+ */
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const SUPPORTED_SPORTS = new Set(["nba", "nfl", "ncaaf", "ncaab", "nhl", "mlb", "wnba"]);
+const DEFAULT_SPORTS = ["nba", "nfl", "nhl", "mlb", "ncaab", "ncaaf"];
+const DEFAULT_SIZE = 100;
+const MAX_SIZE = 10_000;
+const MAX_FEE_BPS = 1000;
+const MAX_ROWS = 500;
+
+function clampNumber(raw: string | null, fallback: number, min: number, max: number): number {
+  const value = raw == null || raw === "" ? NaN : Number(raw);
+  return Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const authClient = await createClient();
+    const { data: { user } } = await authClient.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasEliteAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Elite tier required for Sharp Intel", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const sp = req.nextUrl.searchParams;
+    const requested = (sp.get("sports") || "")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter((s) => SUPPORTED_SPORTS.has(s));
+    const sports = requested.length > 0 ? requested : DEFAULT_SPORTS;
+    const sizeUsd = Math.round(clampNumber(sp.get("size"), DEFAULT_SIZE, 1, MAX_SIZE));
+    const feeBps = Math.round(clampNumber(sp.get("fee_bps"), 0, 0, MAX_FEE_BPS));
+    const type = sp.get("type") === "arb" || sp.get("type") === "ev" ? sp.get("type") : "all";
+    const min = clampNumber(sp.get("min"), 0, -100, 100);
+
+    const { rows, summary } = await getCrossVenue(createServerSupabaseClient(), sports, { sizeUsd, feeBps });
+
+    const filtered = rows.filter((row) => {
+      if (type === "arb") return row.arb_roi != null && row.arb_roi > min;
+      if (type === "ev") return row.sharp != null && row.sharp.ev > min;
+      return true;
+    });
+
+    return NextResponse.json(
+      { rows: filtered.slice(0, MAX_ROWS), summary },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error: any) {
+    console.error("[Cross-Venue API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -5,6 +5,9 @@ import { createClient } from "@/libs/supabase/server";
 import { hasEliteAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
 import type { FeedResponse, WalletTier, WhaleSignal } from "@/lib/polymarket/types";
 import { computeSignalScore } from "@/lib/polymarket/score";
+import { toOddsMarketKey } from "@/lib/polymarket/cross-venue";
+import { clusterPositionKey } from "@/lib/polymarket/clusters";
+import { loadClusterPositions } from "@/lib/polymarket/cluster-scan";
 
 /**
  * Normalize market_type from Polymarket title patterns.
@@ -279,13 +282,26 @@ export async function GET(req: NextRequest) {
     const walletAddresses = [...new Set(signals.map((s) => s.wallet_address))];
     const { data: walletScores } = await supabase
       .from("polymarket_wallet_scores")
-      .select("wallet_address, rank, tier, roi, wins, losses, avg_stake, total_profit, is_new_account, poly_pnl, poly_rank, poly_volume, poly_month_pnl, poly_week_pnl, hot_cold, poly_total_trades, poly_sport_breakdown, poly_avg_stake")
+      .select("wallet_address, rank, tier, roi, wins, losses, avg_stake, total_profit, is_new_account, poly_pnl, poly_rank, poly_volume, poly_month_pnl, poly_week_pnl, hot_cold, poly_total_trades, poly_sport_breakdown, poly_avg_stake, cluster_id")
       .in("wallet_address", walletAddresses);
 
     const scoreMap = new Map(
       (walletScores ?? []).map((w) => [w.wallet_address, w])
     );
 
+    // Cluster-level conviction: every member's stake on the same token/side
+    const clusterByWallet = new Map<string, string>(
+      (walletScores ?? [])
+        .filter((w) => !!w.cluster_id)
+        .map((w) => [w.wallet_address, w.cluster_id as string])
+    );
+    const clusterPositions = await loadClusterPositions(supabase, clusterByWallet, signals);
+    const clusterPosition = (s: { wallet_address: string; token_id: string | null; side: string | null }) => {
+      const clusterId = clusterByWallet.get(s.wallet_address);
+      if (!clusterId || !s.token_id) return null;
+      return clusterPositions.get(clusterPositionKey(clusterId, s.token_id, s.side)) ?? null;
+    };
+
     // Fetch lifetime stats from Polymarket leaderboard (cached)
     const leaderboardMap = await getLeaderboardMap();
 
@@ -300,6 +316,7 @@ export async function GET(req: NextRequest) {
             : null;
         const bookDecimal = s.best_book_decimal;
         const bookImplied = bookDecimal ? 1 / bookDecimal : null;
+        const cluster = clusterPosition(s);
 
         // Compute composite signal score
         const scoreResult = computeSignalScore({
@@ -316,6 +333,9 @@ export async function GET(req: NextRequest) {
           entry_price: s.entry_price,
           book_implied: bookImplied,
           quality_score: s.quality_score,
+          cluster_size: cluster?.wallets.size ?? null,
+          cluster_stake: cluster?.stake ?? null,
+          cluster_avg_stake: cluster?.avgStake ?? null,
           created_at: s.created_at,
         });
 
@@ -368,6 +388,9 @@ export async function GET(req: NextRequest) {
           wallet_total_trades: ws?.poly_total_trades ?? null,
           wallet_sport_breakdown: ws?.poly_sport_breakdown ?? null,
           stake_vs_avg: stakeVsAvg,
+          cluster_id: clusterByWallet.get(s.wallet_address) ?? null,
+          cluster_size: cluster?.wallets.size ?? null,
+          cluster_stake: cluster?.stake ?? null,
           is_new_account: ws?.is_new_account ?? false,
           signal_score: scoreResult.total,
           signal_label: scoreResult.label,
@@ -434,6 +457,7 @@ export async function GET(req: NextRequest) {
         const ws = scoreMap.get(base.wallet_address);
         const bookDecimal = base.best_book_decimal;
         const bookImplied = bookDecimal ? 1 / bookDecimal : null;
+        const cluster = clusterPosition(base);
         const scoreResult = computeSignalScore({
           tier: base.tier,
           bet_size: totalSize,
@@ -448,6 +472,9 @@ export async function GET(req: NextRequest) {
           entry_price: weightedPrice,
           book_implied: bookImplied,
           quality_score: base.quality_score,
+          cluster_size: cluster?.wallets.size ?? null,
+          cluster_stake: cluster?.stake ?? null,
+          cluster_avg_stake: cluster?.avgStake ?? null,
           created_at: base.created_at,
         });
         base.signal_score = scoreResult.total;
@@ -631,19 +658,10 @@ export async function GET(req: NextRequest) {
 
     // Build odds_key for frontend to fetch odds separately (no Redis calls here)
     // Remap generic market keys to sport-specific Redis key names
-    const SPORT_MARKET_REMAP: Record<string, Record<string, string>> = {
-      nba: { game_total: "total_points" },
-      nhl: { game_total: "game_total_goals", game_spread: "game_puck_line" },
-      ncaab: { game_total: "total_points" },
-      mlb: { game_spread: "game_run_line" },
-    };
-
     for (const s of aggregated) {
       if (!s.odds_event_id || !s.odds_sport || !s.odds_market_key) continue;
 
-      let market = s.odds_market_key;
-      const remap = SPORT_MARKET_REMAP[s.odds_sport];
-      if (remap && remap[market]) market = remap[market];
+      const market = toOddsMarketKey(s.odds_sport, s.odds_market_key);
 
       // Extract line from title for totals and spreads
       let line: string | null = null;
@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { hasEliteAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { normalizeCopySettings, simulateCopyPortfolio } from "@/lib/polymarket/copy-trading";
+import type { CopySignalInput, CopyWalletStats, TokenFill } from "@/lib/polymarket/copy-trading";
+import type { CopyPortfolioResponse } from "@/lib/polymarket/types";
+import { withRateLimit, apiRateLimit } from "@/lib/rate-limit";
+
+/**
+ * POST /api/polymarket/follow-portfolio
+ *
+ * Simulates copying followed wallets' Polymarket bets: virtual bankroll,
+ * drawdown curve and per-wallet contribution.
+ *
+ * Body: { wallets?: string[], settings?: Partial<CopyTradingSettings> }
+ *   wallets  - defaults to the user's followed wallets
+ *   settings - defaults to the saved signal_copy_settings
+ */
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const MAX_WALLETS = 50;
+const MAX_SIGNALS = 5000;
+const MAX_FILLS = 50_000;
+const MAX_TRADES = 500;
+const TOKEN_CHUNK = 200;
+/** PostgREST caps each response, so reads are paged */
+const PAGE_SIZE = 1000;
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+const SIGNAL_COLUMNS =
+  "id, wallet_address, wallet_username, market_title, outcome, sport, token_id, side, entry_price, bet_size, created_at, game_start_time, resolved, result";
+
+/**
+ * Followed wallets' signals since `since`, newest first up to MAX_SIGNALS,
+ * returned oldest first. `truncated` when older signals were left out.
+ */
+async function loadSignals(
+  supabase: SupabaseClient,
+  wallets: string[],
+  since: string
+): Promise<{ signals: CopySignalInput[]; truncated: boolean }> {
+  const rows: CopySignalInput[] = [];
+  while (rows.length <= MAX_SIGNALS) {
+    const { data, error } = await supabase
+      .from("polymarket_signals")
+      .select(SIGNAL_COLUMNS)
+      .in("wallet_address", wallets)
+      .gte("created_at", since)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as CopySignalInput[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return { signals: rows.slice(0, MAX_SIGNALS).reverse(), truncated: rows.length > MAX_SIGNALS };
+}
+
+/**
+ * Every tracked buy on the copied tokens since `since`, which prices
+ * delayed entries. Paged oldest first up to MAX_FILLS.
+ */
+async function loadTokenFills(
+  supabase: SupabaseClient,
+  tokens: string[],
+  since: string
+): Promise<{ fillsByToken: Map<string, TokenFill[]>; truncated: boolean }> {
+  const fillsByToken = new Map<string, TokenFill[]>();
+  let loaded = 0;
+  for (let i = 0; i < tokens.length; i += TOKEN_CHUNK) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      if (loaded >= MAX_FILLS) return { fillsByToken, truncated: true };
+      const { data, error } = await supabase
+        .from("polymarket_signals")
+        .select("id, token_id, entry_price, side, created_at")
+        .in("token_id", tokens.slice(i, i + TOKEN_CHUNK))
+        .gte("created_at", since)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      loaded += data?.length ?? 0;
+      for (const fill of data ?? []) {
+        if (!fill.token_id || (fill.side || "").toUpperCase() === "SELL" || !(fill.entry_price > 0)) continue;
+        const list = fillsByToken.get(fill.token_id) ?? [];
+        list.push({ price: fill.entry_price, at: Date.parse(fill.created_at) });
+        fillsByToken.set(fill.token_id, list);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+  return { fillsByToken, truncated: false };
+}
+
+const RequestSchema = z.object({
+  wallets: z.array(z.string().min(1)).max(MAX_WALLETS).optional(),
+  settings: z
+    .object({
+      bankroll: z.number().optional(),
+      sizing: z.enum(["flat", "proportional", "kelly"]).optional(),
+      unit: z.number().optional(),
+      kelly_fraction: z.number().optional(),
+      max_stake_pct: z.number().optional(),
+      entry_delay_minutes: z.number().optional(),
+      slippage_cents: z.number().optional(),
+      days: z.number().optional(),
+    })
+    .optional(),
+});
+
+async function handlePost(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!user || !hasEliteAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Elite tier required for Sharp Intel", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    let wallets = parsed.data.wallets;
+    let saved: Record<string, unknown> | null = null;
+    if (!wallets || !parsed.data.settings) {
+      const { data: prefs } = await supabase
+        .from("user_preferences")
+        .select("signal_followed_wallets, signal_copy_settings")
+        .eq("id", user.id)
+        .maybeSingle();
+      wallets ??= ((prefs?.signal_followed_wallets as string[] | null) ?? []).slice(0, MAX_WALLETS);
+      saved = (prefs?.signal_copy_settings as Record<string, unknown> | null) ?? null;
+    }
+    const settings = normalizeCopySettings(parsed.data.settings ?? saved);
+
+    const empty: CopyPortfolioResponse = {
+      settings,
+      wallets,
+      summary: {
+        start_bankroll: settings.bankroll,
+        end_bankroll: settings.bankroll,
+        pnl: 0,
+        roi: 0,
+        growth_pct: 0,
+        max_drawdown: 0,
+        max_drawdown_pct: 0,
+        bets: 0,
+        wins: 0,
+        losses: 0,
+        pending: 0,
+        open_stake: 0,
+        skipped: 0,
+      },
+      curve: [],
+      contributions: [],
+      trades: [],
+      truncated: false,
+    };
+    if (wallets.length === 0) {
+      return NextResponse.json(empty, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    const since = new Date(Date.now() - settings.days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [{ signals, truncated: signalsTruncated }, scoresRes] = await Promise.all([
+      loadSignals(supabase, wallets, since),
+      supabase
+        .from("polymarket_wallet_scores")
+        .select("wallet_address, avg_stake, roi")
+        .in("wallet_address", wallets),
+    ]);
+
+    const walletStats = new Map<string, CopyWalletStats>(
+      (scoresRes.data ?? []).map((w: { wallet_address: string; avg_stake: number | null; roi: number | null }) => [
+        w.wallet_address,
+        { avg_stake: w.avg_stake, roi: w.roi },
+      ])
+    );
+
+    let fillsByToken = new Map<string, TokenFill[]>();
+    let fillsTruncated = false;
+    if (settings.entry_delay_minutes > 0) {
+      const tokens = [...new Set(signals.map((s) => s.token_id).filter((t): t is string => !!t))];
+      ({ fillsByToken, truncated: fillsTruncated } = await loadTokenFills(supabase, tokens, since));
+    }
+
+    const result = simulateCopyPortfolio({ signals, wallets: walletStats, fillsByToken, settings });
+    const response: CopyPortfolioResponse = {
+      settings,
+      wallets,
+      ...result,
+      trades: result.trades.slice(0, MAX_TRADES),
+      truncated: signalsTruncated || fillsTruncated,
+    };
+
+    return NextResponse.json(response, { headers: { "Cache-Control": "no-store" } });
+  } catch (error: any) {
+    console.error("[Follow Portfolio API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
+
+export const POST = withRateLimit(handlePost, apiRateLimit);
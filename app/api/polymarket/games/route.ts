@@ -3,6 +3,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
 import { hasEliteAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
+import { buildMarketConsensus } from "@/lib/polymarket/consensus";
+import { loadConsensusWallets } from "@/lib/polymarket/consensus-scan";
 
 /** Normalize market_type from title — whale tracker sometimes misclassifies */
 function normalizeMarketType(currentType: string | null, title: string | null): string {
@@ -28,6 +30,8 @@ function normalizeMarketType(currentType: string | null, title: string | null):
  *   resolved  - "true" | "false" | "all" (default "all")
  *   today     - "true" to only show today's games (default "false")
  *   limit     - max markets to return (default 50, max 100)
+ *   sort      - "confidence" | "consensus" (default "confidence"); consensus
+ *               sorts by the tier-weighted, time-decayed consensus strength
  */
 export async function GET(req: NextRequest) {
   try {
@@ -74,6 +78,7 @@ export async function GET(req: NextRequest) {
     const resolvedFilter = sp.get("resolved") || "all";
     const todayOnly = sp.get("today") === "true";
     const limit = Math.min(Math.max(parseInt(sp.get("limit") || "50", 10), 1), 100);
+    const sortBy = sp.get("sort") === "consensus" ? "consensus" : "confidence";
 
     // Fetch raw signals (we aggregate in JS since Supabase REST can't do this grouping)
     let query = supabase
@@ -111,6 +116,15 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // Tier-weighted consensus per market (clusters count as one wallet)
+    const consensusWallets = await loadConsensusWallets(
+      supabase,
+      [...new Set((signals ?? []).map((sig) => sig.wallet_address).filter(Boolean))]
+    );
+    const consensusByMarket = new Map(
+      buildMarketConsensus(signals ?? [], consensusWallets).map((c) => [c.condition_id, c])
+    );
+
     // Group by condition_id
     const marketMap = new Map<string, {
       condition_id: string;
@@ -339,6 +353,7 @@ export async function GET(req: NextRequest) {
         total_sharps: outcomesArr.reduce((s, o) => s + o.sharp_count, 0),
         total_whales: outcomesArr.reduce((s, o) => s + o.whale_count, 0),
         outcomes: outcomesArr,
+        consensus: consensusByMarket.get(cid) ?? null,
         first_signal_at: market.first_signal_at,
         last_signal_at: market.last_signal_at,
       });
@@ -347,6 +362,10 @@ export async function GET(req: NextRequest) {
     // Sort by: confidence desc, then flow amount desc
     const confidenceOrder = { strong: 3, lean: 2, split: 1 };
     games.sort((a, b) => {
+      if (sortBy === "consensus") {
+        const sDiff = (b.consensus?.strength ?? 0) - (a.consensus?.strength ?? 0);
+        if (sDiff !== 0) return sDiff;
+      }
       const cDiff = confidenceOrder[b.confidence] - confidenceOrder[a.confidence];
       if (cDiff !== 0) return cDiff;
       return b.total_dollars - a.total_dollars;
@@ -3,7 +3,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
 import { hasEliteAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
-import type { LeaderboardResponse, WalletTier } from "@/lib/polymarket/types";
+import { attachClusters } from "@/lib/polymarket/cluster-scan";
+import type { LeaderboardResponse, WalletScore, WalletTier } from "@/lib/polymarket/types";
 
 /**
  * GET /api/polymarket/leaderboard
@@ -19,6 +20,8 @@ import type { LeaderboardResponse, WalletTier } from "@/lib/polymarket/types";
  *   minBets    - minimum total_bets threshold (default 0)
  *   sortBy     - "rank" | "roi" | "profit" | "win_rate" | "total_wagered" (default "rank")
  *   showNew    - include NEW (burner) accounts (default "true")
+ *   groupClusters - show each wallet cluster once, on its primary wallet,
+ *                   with the cluster's combined stats attached (default "true")
  */
 export async function GET(req: NextRequest) {
   try {
@@ -66,6 +69,7 @@ export async function GET(req: NextRequest) {
     const showNew = sp.get("showNew") !== "false";
     const sortBy = sp.get("sortBy") || "rank";
     const walletFilter = sp.get("wallet") || undefined;
+    const groupClusters = sp.get("groupClusters") !== "false";
 
     // Build query
     let query = supabase
@@ -79,7 +83,8 @@ export async function GET(req: NextRequest) {
       if (error) {
         return NextResponse.json({ error: "Failed to fetch wallet" }, { status: 500 });
       }
-      return NextResponse.json({ wallets: data ?? [], total: count ?? 0, updated_at: data?.[0]?.updated_at || null });
+      const wallets = await attachClusters(supabase, (data ?? []) as WalletScore[]);
+      return NextResponse.json({ wallets, total: count ?? 0, updated_at: data?.[0]?.updated_at || null });
     }
 
     // Filters
@@ -97,6 +102,11 @@ export async function GET(req: NextRequest) {
       query = query.gte("total_bets", minBets);
     }
 
+    // Clustered wallets collapse onto their primary member
+    if (groupClusters) {
+      query = query.or("cluster_id.is.null,is_cluster_primary.eq.true");
+    }
+
     // Sort
     const sortMap: Record<string, string> = {
       rank: "rank",
@@ -124,7 +134,7 @@ export async function GET(req: NextRequest) {
     const updatedAt = data?.[0]?.updated_at || null;
 
     const response: LeaderboardResponse = {
-      wallets: data ?? [],
+      wallets: await attachClusters(supabase, (data ?? []) as WalletScore[]),
       total: count ?? 0,
       updated_at: updatedAt,
     };
@@ -25,6 +25,7 @@ const SIGNAL_FIELDS = [
   "signal_market_types",
   "signal_hide_delay",
   "signal_show_hidden",
+  "signal_copy_settings",
 ] as const;
 
 export async function GET() {
@@ -69,6 +70,7 @@ export async function GET() {
       signal_market_types: row?.signal_market_types ?? undefined,
       signal_hide_delay: row?.signal_hide_delay ?? 0,
       signal_show_hidden: row?.signal_show_hidden ?? true,
+      signal_copy_settings: row?.signal_copy_settings ?? null,
     };
 
     return NextResponse.json(prefs);
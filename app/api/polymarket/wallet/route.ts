@@ -3,12 +3,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
 import { hasEliteAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
-import type { WalletDetailResponse, WhaleSignal } from "@/lib/polymarket/types";
+import { attachClusters } from "@/lib/polymarket/cluster-scan";
+import type { WalletDetailResponse, WalletScore, WhaleSignal } from "@/lib/polymarket/types";
 
 /**
  * GET /api/polymarket/wallet?address=0x...
  *
- * Returns detailed wallet profile + recent bets.
+ * Returns detailed wallet profile + recent bets, with the wallet's cluster
+ * (other wallets that look like the same bettor) when it has one.
  * Elite-tier only.
  *
  * Query params:
@@ -110,8 +112,10 @@ export async function GET(req: NextRequest) {
           : null,
     }));
 
+    const [withCluster] = await attachClusters(supabase, [wallet as WalletScore]);
+
     const response: WalletDetailResponse = {
-      wallet,
+      wallet: withCluster,
       recent_bets: enrichedBets as unknown as WhaleSignal[],
       sport_stats: wallet.sport_breakdown ?? {},
     };
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ROWS_FORMAT } from "@/lib/arb-schema";
+import { readTopArbs } from "@/lib/public-api/arbs";
+import { publicApiError, withPublicApi } from "@/lib/public-api/auth";
+import { ArbsQuerySchema } from "@/lib/public-api/schema";
+
+/**
+ * GET /api/public/v1/arbs
+ *
+ * Arbitrage rows by ROI (scope arbs:read). Live arbs need arbs:live; without
+ * it "all" returns pregame rows only.
+ */
+
+export const runtime = "nodejs";
+
+export const GET = withPublicApi("arbs:read", async (req: NextRequest, principal) => {
+  const parsed = ArbsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const canReadLive = principal.scopes.includes("arbs:live");
+  if (parsed.data.mode === "live" && !canReadLive) {
+    return publicApiError(403, "insufficient_scope", "Live arbs require the 'arbs:live' scope");
+  }
+
+  const mode = parsed.data.mode === "all" && !canReadLive ? "pregame" : parsed.data.mode;
+  const pairs = await readTopArbs(mode, parsed.data.cursor, parsed.data.limit, parsed.data.event_id);
+
+  return NextResponse.json({
+    format: ROWS_FORMAT,
+    mode,
+    ids: pairs.map((p) => p.id),
+    rows: pairs.map((p) => p.row),
+  });
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ROWS_FORMAT } from "@/lib/arb-schema";
+import { readArbRows } from "@/lib/public-api/arbs";
+import { withPublicApi } from "@/lib/public-api/auth";
+import { ArbRowsBodySchema } from "@/lib/public-api/schema";
+
+/**
+ * POST /api/public/v1/arbs/rows
+ *
+ * Hydrate arb rows by id (scope arbs:read). Live rows come back as missing
+ * unless the key has arbs:live.
+ */
+
+export const runtime = "nodejs";
+
+export const POST = withPublicApi("arbs:read", async (req: NextRequest, principal) => {
+  const parsed = ArbRowsBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const canReadLive = principal.scopes.includes("arbs:live");
+  const rows = (await readArbRows([...new Set(parsed.data.ids)])).map(({ id, row }) => ({
+    id,
+    row: row && (canReadLive || row.ev?.live !== true) ? row : null,
+  }));
+
+  return NextResponse.json({
+    format: ROWS_FORMAT,
+    rows,
+    missing: rows.filter((r) => r.row === null).map((r) => r.id),
+  });
+});
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/public-api/openapi";
+
+/**
+ * GET /api/public/v1/openapi.json
+ *
+ * OpenAPI 3.1 document for the public API, generated from the zod schemas
+ * the routes validate with. No key required.
+ */
+
+export async function GET(req: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(req.nextUrl.origin), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GET as getOpportunities } from "@/app/api/v2/opportunities/route";
+import { toInternalRequest, withPublicApi } from "@/lib/public-api/auth";
+import { OpportunitiesQuerySchema } from "@/lib/public-api/schema";
+
+/**
+ * GET /api/public/v1/opportunities
+ *
+ * Edge finder opportunities for API key holders (scope opportunities:read).
+ * Parameters are validated here and served by /api/v2/opportunities; see
+ * /api/public/v1/openapi.json for the full list.
+ */
+
+export const runtime = "nodejs";
+export const preferredRegion = "iad1";
+export const maxDuration = 60;
+
+export const GET = withPublicApi("opportunities:read", async (req: NextRequest) => {
+  const parsed = OpportunitiesQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+  return getOpportunities(toInternalRequest(req, "/api/v2/opportunities", parsed.data));
+});
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GET as getPositiveEV } from "@/app/api/v2/positive-ev/route";
+import { toInternalRequest, withPublicApi } from "@/lib/public-api/auth";
+import { PositiveEVQuerySchema } from "@/lib/public-api/schema";
+
+/**
+ * GET /api/public/v1/positive-ev
+ *
+ * +EV opportunities for API key holders (scope positive_ev:read), served by
+ * /api/v2/positive-ev. Custom sharp models are session-only and not
+ * accepted here.
+ */
+
+export const runtime = "nodejs";
+export const preferredRegion = "iad1";
+export const maxDuration = 60;
+
+export const GET = withPublicApi("positive_ev:read", async (req: NextRequest) => {
+  const parsed = PositiveEVQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+  return getPositiveEV(toInternalRequest(req, "/api/v2/positive-ev", parsed.data));
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { dailyQuotaLimit, getApiKeyUsage, nextUtcMidnight, withPublicApi } from "@/lib/public-api/auth";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+
+/**
+ * GET /api/public/v1/usage
+ *
+ * The calling key's active scopes and the account's daily quota usage over
+ * the last 30 days. Any valid key may call it (and it counts as a request).
+ */
+
+export const runtime = "nodejs";
+
+const USAGE_DAYS = 30;
+
+export const GET = withPublicApi(null, async (_req: NextRequest, principal) => {
+  const now = Date.now();
+  const [{ data: key }, usage] = await Promise.all([
+    createServerSupabaseClient().from("api_keys").select("id, name, prefix").eq("id", principal.keyId).single(),
+    getApiKeyUsage(principal.userId, USAGE_DAYS, now),
+  ]);
+
+  const byDay = new Map<string, number>();
+  for (const u of usage) byDay.set(u.day, (byDay.get(u.day) ?? 0) + u.requests);
+
+  const today = new Date(now).toISOString().slice(0, 10);
+  const limit = dailyQuotaLimit(principal.plan);
+  const used = byDay.get(today) ?? 0;
+
+  return NextResponse.json({
+    key: { ...(key ?? { id: principal.keyId, name: "", prefix: "" }), scopes: principal.scopes },
+    plan: principal.plan,
+    quota: {
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resets_at: nextUtcMidnight(now),
+    },
+    history: [...byDay.entries()].map(([day, requests]) => ({ day, requests })),
+  });
+});
@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
 import { Redis } from "@upstash/redis";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL!,
@@ -30,7 +31,7 @@ const SUPPORTED_SPORTS = new Set([
   "ufc",
 ]);
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const url = new URL(req.url);
   const sport = (url.searchParams.get("sport") || "").trim().toLowerCase();
   const sidsParam = (url.searchParams.get("sids") || "").trim();
@@ -121,3 +122,4 @@ export async function GET(req: NextRequest) {
   });
 }
 
+export const GET = withRateLimit(handleGet, sseRateLimit);
@@ -5,6 +5,7 @@ import { createClient } from "@/libs/supabase/server";
 import { PLAN_LIMITS, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
 import { getRedisPubSubEndpoint } from "@/lib/redis-endpoints";
 import { pumpPubSub } from "@/lib/sse-pubsub";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 async function assertPro(req: NextRequest) {
   const supabase = await createClient();
@@ -24,7 +25,7 @@ async function assertPro(req: NextRequest) {
   return null;
 }
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const denied = await assertPro(req);
   if (denied) return denied;
 
@@ -68,3 +69,5 @@ export async function GET(req: NextRequest) {
     },
   });
 }
+
+export const GET = withRateLimit(handleGet, sseRateLimit);
@@ -5,6 +5,7 @@ import { createClient } from "@/libs/supabase/server";
 import { PLAN_LIMITS, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
 import { getRedisPubSubEndpoint } from "@/lib/redis-endpoints";
 import { pumpPubSub } from "@/lib/sse-pubsub";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 /**
  * GET /api/sse/best-odds
@@ -45,7 +46,7 @@ async function checkAuth(req: NextRequest) {
   return { user, isPro };
 }
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     // Check auth
     const { user, isPro } = await checkAuth(req);
@@ -150,3 +151,5 @@ export async function GET(req: NextRequest) {
     return new Response("Internal error", { status: 500 });
   }
 }
+
+export const GET = withRateLimit(handleGet, sseRateLimit);
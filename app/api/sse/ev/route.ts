@@ -5,6 +5,7 @@ import { createClient } from "@/libs/supabase/server";
 import { PLAN_LIMITS, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
 import { getRedisPubSubEndpoint } from "@/lib/redis-endpoints";
 import { pumpPubSub } from "@/lib/sse-pubsub";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 /**
  * Assert user is Pro (required for SSE live updates)
@@ -44,7 +45,7 @@ async function assertPro(req: NextRequest) {
  * 
  * Access: Sharp users only
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const denied = await assertPro(req);
   if (denied) return denied;
 
@@ -97,3 +98,5 @@ export async function GET(req: NextRequest) {
     },
   });
 }
+
+export const GET = withRateLimit(handleGet, sseRateLimit);
@@ -3,8 +3,9 @@ export const runtime = "edge";
 import { NextRequest } from "next/server";
 import { getRedisPubSubEndpoint } from "@/lib/redis-endpoints";
 import { pumpPubSub } from "@/lib/sse-pubsub";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   // Open access: allow free and unsigned users to subscribe to props SSE
 
   const sp = new URL(req.url).searchParams;
@@ -54,3 +55,5 @@ export async function GET(req: NextRequest) {
     },
   });
 }
+
+export const GET = withRateLimit(handleGet, sseRateLimit);
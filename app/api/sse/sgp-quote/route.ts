@@ -11,6 +11,7 @@ import {
 } from "@/lib/sgp/cache";
 import { fetchSgpQuote } from "@/lib/sgp/quote-service";
 import { sportsbooksNew as SPORTSBOOKS_META } from "@/lib/data/sportsbooks";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 // =============================================================================
 // TYPES
@@ -123,7 +124,7 @@ function sortByPriority(books: string[]): string[] {
  * - quote: { book_id, price?, links?, limits?, error? }
  * - done: { completed, failed, from_cache }
  */
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
     // Parse request
     const body: SgpQuoteRequest = await req.json();
@@ -352,3 +353,5 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit(handlePost, sseRateLimit);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { AlertDestinationsSchema } from "@/lib/alerts/schema";
+
+/**
+ * GET /api/user/alert-destinations
+ * Where alerts are delivered, plus registered push devices
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [{ data: destinations, error }, { count: pushDevices }] = await Promise.all([
+      supabase.from("user_alert_destinations").select("*").eq("user_id", user.id).maybeSingle(),
+      supabase.from("user_push_subscriptions").select("id", { count: "exact", head: true }).eq("user_id", user.id),
+    ]);
+
+    if (error) {
+      console.error("[Alert Destinations API] Error fetching destinations:", error);
+      return NextResponse.json({ error: "Failed to fetch destinations" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      destinations: destinations ?? {
+        user_id: user.id,
+        discord_webhook_url: null,
+        slack_webhook_url: null,
+        updated_at: null,
+      },
+      account_email: user.email ?? null,
+      push_devices: pushDevices ?? 0,
+    });
+  } catch (error) {
+    console.error("[Alert Destinations API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/user/alert-destinations
+ * Upsert Discord / Slack destinations (email goes to the account email)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = AlertDestinationsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: destinations, error } = await supabase
+      .from("user_alert_destinations")
+      .upsert(
+        { ...parsed.data, user_id: user.id, updated_at: new Date().toISOString() },
+        { onConflict: "user_id" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Alert Destinations API] Error saving destinations:", error);
+      return NextResponse.json({ error: "Failed to save destinations" }, { status: 500 });
+    }
+
+    return NextResponse.json({ destinations });
+  } catch (error) {
+    console.error("[Alert Destinations API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
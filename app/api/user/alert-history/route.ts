@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+
+const QuerySchema = z.object({
+  rule_id: z.string().uuid().nullish(),
+  limit: z.coerce.number().int().min(1).max(200).nullish().transform((v) => v ?? 50),
+});
+
+/**
+ * GET /api/user/alert-history
+ * Alerts sent to the user, newest first
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = QuerySchema.safeParse({
+      rule_id: req.nextUrl.searchParams.get("rule_id"),
+      limit: req.nextUrl.searchParams.get("limit"),
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from("user_alert_history")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(parsed.data.limit);
+
+    if (parsed.data.rule_id) {
+      query = query.eq("rule_id", parsed.data.rule_id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[Alert History API] Error fetching history:", error);
+      return NextResponse.json({ error: "Failed to fetch alert history" }, { status: 500 });
+    }
+
+    return NextResponse.json({ entries: data || [], count: data?.length || 0 });
+  } catch (error) {
+    console.error("[Alert History API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
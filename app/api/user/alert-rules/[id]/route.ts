@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { UpdateAlertRuleSchema, getConditionsSchema } from "@/lib/alerts/schema";
+import type { AlertRuleType } from "@/lib/alerts/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/user/alert-rules/[id]
+ * Update a rule (name, channels, enabled, cooldown, conditions)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = UpdateAlertRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("user_alert_rules")
+      .select("id, type")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+    }
+
+    const { conditions, ...rest } = parsed.data;
+    const updates: Record<string, unknown> = { ...rest, updated_at: new Date().toISOString() };
+
+    if (conditions) {
+      const conditionsResult = getConditionsSchema(existing.type as AlertRuleType).safeParse(conditions);
+      if (!conditionsResult.success) {
+        return NextResponse.json(
+          { error: "Invalid request", details: conditionsResult.error.flatten() },
+          { status: 400 }
+        );
+      }
+      updates.conditions = conditionsResult.data;
+    }
+
+    const { data: rule, error } = await supabase
+      .from("user_alert_rules")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Alert Rules API] Error updating rule:", error);
+      return NextResponse.json({ error: "Failed to update alert rule" }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("[Alert Rules API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/alert-rules/[id]
+ * Delete a rule (its history is kept)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from("user_alert_rules")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("[Alert Rules API] Error deleting rule:", error);
+      return NextResponse.json({ error: "Failed to delete alert rule" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Alert Rules API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { hasSharpAccess } from "@/lib/plans";
+import { CreateAlertRuleSchema, MAX_ALERT_RULES_PER_USER } from "@/lib/alerts/schema";
+
+/**
+ * GET /api/user/alert-rules
+ * All alert rules for the authenticated user
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: rules, error } = await supabase
+      .from("user_alert_rules")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[Alert Rules API] Error fetching rules:", error);
+      return NextResponse.json({ error: "Failed to fetch alert rules" }, { status: 500 });
+    }
+
+    return NextResponse.json({ rules: rules || [], count: rules?.length || 0 });
+  } catch (error) {
+    console.error("[Alert Rules API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/alert-rules
+ * Create an alert rule (Sharp and above)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const plan = await getUserPlan(user);
+    if (!hasSharpAccess(plan)) {
+      return NextResponse.json({ error: "Alerts require a Sharp or Elite plan" }, { status: 403 });
+    }
+
+    const parsed = CreateAlertRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("user_alert_rules")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if ((count ?? 0) >= MAX_ALERT_RULES_PER_USER) {
+      return NextResponse.json(
+        { error: `Maximum of ${MAX_ALERT_RULES_PER_USER} alert rules allowed` },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabase
+      .from("user_alert_rules")
+      .insert({ ...parsed.data, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Alert Rules API] Error creating rule:", error);
+      return NextResponse.json({ error: "Failed to create alert rule" }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("[Alert Rules API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { generateApiKey } from "@/lib/public-api/keys";
+import { hasApiAccess } from "@/lib/public-api/scopes";
+
+const API_KEY_COLUMNS = "id, name, prefix, scopes, last_used_at, expires_at, revoked_at, created_at";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/user/api-keys/[id]/rotate
+ * Replace a key's secret. The old secret stops working immediately; name,
+ * scopes and usage history carry over. The new secret is returned once.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!hasApiAccess(await getUserPlan(user))) {
+      return NextResponse.json({ error: "API keys require a Sharp or Elite plan" }, { status: 403 });
+    }
+
+    const { secret, prefix, hash } = generateApiKey();
+    const { data: key, error } = await createServerSupabaseClient()
+      .from("api_keys")
+      .update({ prefix, key_hash: hash, last_used_at: null })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("revoked_at", null)
+      .select(API_KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[API Keys] Error rotating key:", error);
+      return NextResponse.json({ error: "Failed to rotate API key" }, { status: 500 });
+    }
+    if (!key) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ key, secret }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[API Keys] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { UpdateApiKeySchema } from "@/lib/public-api/schema";
+import { grantableScopes } from "@/lib/public-api/scopes";
+
+const API_KEY_COLUMNS = "id, name, prefix, scopes, last_used_at, expires_at, revoked_at, created_at";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/user/api-keys/[id]
+ * Rename a key or change its scopes
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = UpdateApiKeySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.scopes) {
+      const grantable = grantableScopes(await getUserPlan(user));
+      const denied = parsed.data.scopes.filter((scope) => !grantable.includes(scope));
+      if (denied.length > 0) {
+        return NextResponse.json(
+          { error: `Your plan doesn't include: ${denied.join(", ")}` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { data: key, error } = await createServerSupabaseClient()
+      .from("api_keys")
+      .update(parsed.data)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("revoked_at", null)
+      .select(API_KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[API Keys] Error updating key:", error);
+      return NextResponse.json({ error: "Failed to update API key" }, { status: 500 });
+    }
+    if (!key) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ key });
+  } catch (error) {
+    console.error("[API Keys] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/api-keys/[id]
+ * Revoke a key. The row is kept so its usage history stays attributable.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await createServerSupabaseClient()
+      .from("api_keys")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .is("revoked_at", null);
+
+    if (error) {
+      console.error("[API Keys] Error revoking key:", error);
+      return NextResponse.json({ error: "Failed to revoke API key" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API Keys] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
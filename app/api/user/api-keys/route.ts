@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { PLAN_LIMITS } from "@/lib/plans";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { dailyQuotaLimit, getApiKeyUsage } from "@/lib/public-api/auth";
+import { generateApiKey } from "@/lib/public-api/keys";
+import { CreateApiKeySchema } from "@/lib/public-api/schema";
+import { effectiveScopes, grantableScopes, hasApiAccess } from "@/lib/public-api/scopes";
+import type { ApiKeyRecord, ApiKeySummary } from "@/lib/public-api/types";
+
+const API_KEY_COLUMNS = "id, user_id, name, prefix, scopes, last_used_at, expires_at, revoked_at, created_at";
+const USAGE_DAYS = 30;
+
+/**
+ * GET /api/user/api-keys
+ * The user's API keys (never the secrets), usage and plan quota
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const plan = await getUserPlan(user);
+    const { data, error } = await supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[API Keys] Error fetching keys:", error);
+      return NextResponse.json({ error: "Failed to fetch API keys" }, { status: 500 });
+    }
+
+    const usage = await getApiKeyUsage(user.id, USAGE_DAYS);
+    const today = new Date().toISOString().slice(0, 10);
+    const keys: ApiKeySummary[] = ((data ?? []) as ApiKeyRecord[]).map(({ user_id: _userId, ...key }) => ({
+      ...key,
+      active_scopes: effectiveScopes(key.scopes, plan),
+      requests_today: usage.find((u) => u.key_id === key.id && u.day === today)?.requests ?? 0,
+    }));
+
+    // Daily totals across keys for the usage chart
+    const byDay = new Map<string, number>();
+    for (const u of usage) byDay.set(u.day, (byDay.get(u.day) ?? 0) + u.requests);
+
+    return NextResponse.json({
+      keys,
+      plan,
+      access: hasApiAccess(plan),
+      grantable_scopes: grantableScopes(plan),
+      limits: {
+        max_keys: PLAN_LIMITS[plan].api.apiKeys,
+        requests_per_minute: PLAN_LIMITS[plan].api.requestsPerMinute,
+        requests_per_day: dailyQuotaLimit(plan),
+      },
+      usage: [...byDay.entries()].map(([day, requests]) => ({ day, requests })),
+    });
+  } catch (error) {
+    console.error("[API Keys] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/api-keys
+ * Create a key. The secret is returned once and only its hash is stored.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const plan = await getUserPlan(user);
+    if (!hasApiAccess(plan)) {
+      return NextResponse.json({ error: "API keys require a Sharp or Elite plan" }, { status: 403 });
+    }
+
+    const parsed = CreateApiKeySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const grantable = grantableScopes(plan);
+    const denied = parsed.data.scopes.filter((scope) => !grantable.includes(scope));
+    if (denied.length > 0) {
+      return NextResponse.json(
+        { error: `Your plan doesn't include: ${denied.join(", ")}` },
+        { status: 403 }
+      );
+    }
+
+    const admin = createServerSupabaseClient();
+    const { count } = await admin
+      .from("api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("revoked_at", null);
+
+    const maxKeys = PLAN_LIMITS[plan].api.apiKeys;
+    if ((count ?? 0) >= maxKeys) {
+      return NextResponse.json(
+        { error: `Maximum of ${maxKeys} active API keys allowed` },
+        { status: 400 }
+      );
+    }
+
+    const { secret, prefix, hash } = generateApiKey();
+    const { expires_in_days } = parsed.data;
+    const { data: key, error } = await admin
+      .from("api_keys")
+      .insert({
+        user_id: user.id,
+        name: parsed.data.name,
+        scopes: parsed.data.scopes,
+        prefix,
+        key_hash: hash,
+        expires_at: expires_in_days ? new Date(Date.now() + expires_in_days * 86_400_000).toISOString() : null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("[API Keys] Error creating key:", error);
+      return NextResponse.json({ error: "Failed to create API key" }, { status: 500 });
+    }
+
+    return NextResponse.json({ key, secret }, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[API Keys] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
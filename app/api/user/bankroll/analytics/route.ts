@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import {
+  DEFAULT_UNIT_SIZE,
+  buildBankrollAnalytics,
+  toSettledBetRecords,
+} from "@/lib/bankroll";
+import type { SettledSlipRow } from "@/lib/bankroll";
+
+const QuerySchema = z.object({
+  from: z.string().date().nullish(),
+  to: z.string().date().nullish(),
+  sport: z.string().min(1).nullish(),
+  book: z.string().min(1).nullish(),
+});
+
+/** PostgREST caps each response, so betslips are read a page at a time */
+const PAGE_SIZE = 1000;
+
+/**
+ * GET /api/user/bankroll/analytics
+ * ROI, units, win rate and CLV over settled betslips, broken down by
+ * sport, market, sportsbook and tool of origin.
+ *
+ * Query: from / to (YYYY-MM-DD, settlement date), sport, book
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = req.nextUrl;
+    const parsed = QuerySchema.safeParse({
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+      sport: searchParams.get("sport"),
+      book: searchParams.get("book"),
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, sport, book } = parsed.data;
+
+    const settingsPromise = supabase
+      .from("user_bankroll_settings")
+      .select("unit_size")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const slips: SettledSlipRow[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase
+        .from("user_betslips")
+        .select(`
+          id, status, settled_at, updated_at, placed_book, placed_odds, closing_odds,
+          stake_amount, settled_payout, potential_payout,
+          items:user_betslip_items(favorite:user_favorites(sport, market, source))
+        `)
+        .eq("user_id", user.id)
+        .in("status", ["won", "lost", "void"]);
+
+      if (from) query = query.gte("settled_at", `${from}T00:00:00Z`);
+      if (to) query = query.lte("settled_at", `${to}T23:59:59Z`);
+      if (book) query = query.eq("placed_book", book);
+
+      const { data, error } = await query
+        .order("settled_at", { ascending: true, nullsFirst: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("[Bankroll Analytics API] Error fetching betslips:", error);
+        return NextResponse.json({ error: "Failed to fetch analytics" }, { status: 500 });
+      }
+      slips.push(...((data || []) as unknown as SettledSlipRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const settingsResult = await settingsPromise;
+    let records = toSettledBetRecords(slips);
+    if (sport) records = records.filter((record) => record.sport === sport);
+
+    const unitSize = Number(settingsResult.data?.unit_size ?? DEFAULT_UNIT_SIZE);
+
+    return NextResponse.json(buildBankrollAnalytics(records, unitSize), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[Bankroll Analytics API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { summarizeLedger } from "@/lib/bankroll";
+import type { BankrollLedgerEntry, BankrollSettings } from "@/lib/bankroll";
+
+const SettingsSchema = z.object({
+  unit_size: z.coerce.number().positive().max(1_000_000),
+});
+
+/** PostgREST caps each response, so the ledger is read a page at a time */
+const PAGE_SIZE = 1000;
+
+/**
+ * GET /api/user/bankroll
+ * Per-sportsbook balances derived from the ledger, plus bankroll settings
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const settingsPromise = supabase
+      .from("user_bankroll_settings")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const entries: BankrollLedgerEntry[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("user_bankroll_ledger")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("[Bankroll API] Error fetching ledger:", error);
+        return NextResponse.json({ error: "Failed to fetch bankroll" }, { status: 500 });
+      }
+      entries.push(...((data || []) as BankrollLedgerEntry[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const settingsResult = await settingsPromise;
+    const summary = summarizeLedger(entries, (settingsResult.data as BankrollSettings | null) ?? null);
+
+    return NextResponse.json(summary, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[Bankroll API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/user/bankroll
+ * Update bankroll settings (unit size)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = SettingsSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: settings, error } = await supabase
+      .from("user_bankroll_settings")
+      .upsert({
+        user_id: user.id,
+        unit_size: parsed.data.unit_size,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Bankroll API] Error saving settings:", error);
+      return NextResponse.json({ error: "Failed to save settings" }, { status: 500 });
+    }
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("[Bankroll API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
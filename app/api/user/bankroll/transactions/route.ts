@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { MANUAL_LEDGER_ENTRY_TYPES, signLedgerAmount } from "@/lib/bankroll";
+
+const QuerySchema = z.object({
+  sportsbook: z.string().min(1).nullish(),
+  limit: z.coerce.number().int().min(1).max(500).nullish().transform((v) => v ?? 100),
+});
+
+const CreateSchema = z
+  .object({
+    entry_type: z.enum(MANUAL_LEDGER_ENTRY_TYPES),
+    sportsbook: z.string().min(1).max(64).nullish().transform((v) => v ?? null),
+    amount: z.coerce.number().finite(),
+    note: z.string().max(280).nullish().transform((v) => v ?? null),
+  })
+  .refine((body) => body.amount !== 0, { message: "amount must be non-zero", path: ["amount"] })
+  .refine((body) => body.entry_type === "adjustment" || body.amount > 0, {
+    message: "amount must be positive",
+    path: ["amount"],
+  });
+
+/**
+ * GET /api/user/bankroll/transactions
+ * Ledger history, newest first
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = QuerySchema.safeParse({
+      sportsbook: req.nextUrl.searchParams.get("sportsbook"),
+      limit: req.nextUrl.searchParams.get("limit"),
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from("user_bankroll_ledger")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(parsed.data.limit);
+
+    if (parsed.data.sportsbook) {
+      query = query.eq("sportsbook", parsed.data.sportsbook);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[Bankroll Transactions API] Error fetching ledger:", error);
+      return NextResponse.json({ error: "Failed to fetch transactions" }, { status: 500 });
+    }
+
+    return NextResponse.json({ entries: data || [], count: data?.length || 0 });
+  } catch (error) {
+    console.error("[Bankroll Transactions API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/bankroll/transactions
+ * Append a cash movement (opening balance, deposit, withdrawal, adjustment).
+ * Bet placement/settlement rows are written by the database, not this route.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = CreateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { entry_type, sportsbook, amount, note } = parsed.data;
+
+    const { data: entry, error } = await supabase
+      .from("user_bankroll_ledger")
+      .insert({
+        user_id: user.id,
+        entry_type,
+        sportsbook,
+        amount: signLedgerAmount(entry_type, amount),
+        note,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Bankroll Transactions API] Error creating entry:", error);
+      return NextResponse.json({ error: "Failed to record transaction" }, { status: 500 });
+    }
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error("[Bankroll Transactions API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { buildCLVReport, toCLVEntryRecords } from "@/lib/clv";
+import type { CLVFavoriteRow } from "@/lib/clv";
+
+const QuerySchema = z.object({
+  from: z.string().date().nullish(),
+  to: z.string().date().nullish(),
+  sport: z.string().min(1).nullish(),
+});
+
+/**
+ * GET /api/user/clv-report
+ * "How good are my entries": CLV vs the fair close across every favorite
+ * whose closing line was captured, plus placed betslips, broken down by
+ * sport, market, sportsbook and tool of origin.
+ *
+ * Query: from / to (YYYY-MM-DD, capture date), sport
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = req.nextUrl;
+    const parsed = QuerySchema.safeParse({
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+      sport: searchParams.get("sport"),
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, sport } = parsed.data;
+    const fromTs = from ? `${from}T00:00:00Z` : null;
+    const toTs = to ? `${to}T23:59:59Z` : null;
+
+    const now = new Date().toISOString();
+
+    // Snapshots are only the close once the event has started
+    let favoritesQuery = supabase
+      .from("user_favorites")
+      .select("id, sport, market, source, best_book_at_save, closing_captured_at, clv_percent")
+      .eq("user_id", user.id)
+      .not("closing_captured_at", "is", null)
+      .lte("start_time", now);
+    if (fromTs) favoritesQuery = favoritesQuery.gte("closing_captured_at", fromTs);
+    if (toTs) favoritesQuery = favoritesQuery.lte("closing_captured_at", toTs);
+    if (sport) favoritesQuery = favoritesQuery.eq("sport", sport);
+
+    // Started events we couldn't price a close for
+    let unpricedQuery = supabase
+      .from("user_favorites")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("closing_captured_at", null)
+      .lt("start_time", now);
+    if (fromTs) unpricedQuery = unpricedQuery.gte("start_time", fromTs);
+    if (toTs) unpricedQuery = unpricedQuery.lte("start_time", toTs);
+    if (sport) unpricedQuery = unpricedQuery.eq("sport", sport);
+
+    let slipsQuery = supabase
+      .from("user_betslips")
+      .select("clv_percent")
+      .eq("user_id", user.id)
+      .in("status", ["placed", "won", "lost", "void"])
+      .not("clv_percent", "is", null);
+    if (fromTs) slipsQuery = slipsQuery.gte("placed_at", fromTs);
+    if (toTs) slipsQuery = slipsQuery.lte("placed_at", toTs);
+
+    const [favoritesResult, unpricedResult, slipsResult] = await Promise.all([
+      favoritesQuery,
+      unpricedQuery,
+      // Slips span sports, so a sport filter only applies to entries
+      sport ? Promise.resolve({ data: [], error: null }) : slipsQuery,
+    ]);
+
+    if (favoritesResult.error || slipsResult.error) {
+      console.error("[CLV Report API] Error fetching entries:", favoritesResult.error || slipsResult.error);
+      return NextResponse.json({ error: "Failed to fetch CLV report" }, { status: 500 });
+    }
+
+    const records = toCLVEntryRecords((favoritesResult.data || []) as CLVFavoriteRow[]);
+    const betslipClv = ((slipsResult.data || []) as { clv_percent: number | null }[])
+      .map((row) => Number(row.clv_percent))
+      .filter((value) => Number.isFinite(value));
+
+    return NextResponse.json(
+      buildCLVReport(records, { betslipClv, unpriced: unpricedResult.count ?? 0 }),
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[CLV Report API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
 import type { EvModelUpdate, EvModel } from "@/lib/types/ev-models";
+import { normalizeProjectionWeights } from "@/lib/projections/hit-rate-model";
 import {
   DEFAULT_EV_MODEL_MAX_ODDS,
   DEFAULT_EV_MODEL_MIN_ODDS,
@@ -179,6 +180,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Validate fair_source if provided
+    if (body.fair_source && !["market", "model", "blend"].includes(body.fair_source)) {
+      return NextResponse.json(
+        { error: "fair_source must be 'market', 'model', or 'blend'" },
+        { status: 400 }
+      );
+    }
+
     const normalizedColor = normalizeColor(body.color);
     if (body.color !== undefined && normalizedColor === undefined) {
       return NextResponse.json(
@@ -205,6 +214,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     if (body.min_books_reference !== undefined) updateData.min_books_reference = body.min_books_reference;
     if (body.min_odds !== undefined) updateData.min_odds = body.min_odds;
     if (body.max_odds !== undefined) updateData.max_odds = body.max_odds;
+    if (body.fair_source !== undefined) updateData.fair_source = body.fair_source;
+    if (body.projection_weights !== undefined) {
+      updateData.projection_weights = body.projection_weights ? normalizeProjectionWeights(body.projection_weights) : null;
+    }
     if (body.is_active !== undefined) updateData.is_active = body.is_active;
     if (body.is_favorite !== undefined) updateData.is_favorite = body.is_favorite;
     if (body.sort_order !== undefined) updateData.sort_order = body.sort_order;
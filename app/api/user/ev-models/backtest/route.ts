@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { ALL_DEVIG_METHODS, POSITIVE_EV_DEFAULTS, SHARP_PRESETS } from "@/lib/ev/constants";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import { SETTLEMENT_SUPPORTED_SPORTS } from "@/lib/settlement";
+import {
+  DEFAULT_BACKTEST_PRESETS,
+  buildModelConfig,
+  buildPresetConfig,
+  loadBacktestMarkets,
+  runBacktest,
+  type BacktestConfig,
+  type BacktestReport,
+} from "@/lib/backtest";
+import { withRateLimit, apiRateLimit } from "@/lib/rate-limit";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_WINDOW_DAYS = 90;
+const MAX_CONFIGS = 24;
+
+const BacktestSchema = z.object({
+  sports: z
+    .array(z.string().refine((sport) => SETTLEMENT_SUPPORTED_SPORTS.has(sport), "Sport is not backtestable"))
+    .min(1)
+    .default(["nba"]),
+  presets: z.array(z.string()).optional(),
+  methods: z.array(z.enum(ALL_DEVIG_METHODS as [DevigMethod, ...DevigMethod[]])).min(1).optional(),
+  modelId: z.string().uuid().optional(),
+  minEV: z.number().min(0).max(50).default(2),
+  maxEV: z.number().min(0).max(100).default(POSITIVE_EV_DEFAULTS.maxEV),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+/**
+ * POST /api/user/ev-models/backtest
+ * Replay captured markets through sharp presets (and optionally a saved
+ * model) for each de-vig method, and score the bets each would have flagged.
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userPlan = await getUserPlan(user);
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Backtesting requires a Sharp or Elite plan", plan: userPlan },
+        { status: 403 }
+      );
+    }
+
+    const parsed = BacktestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const body = parsed.data;
+    const to = body.to ? new Date(body.to) : new Date();
+    const from = body.from ? new Date(body.from) : new Date(to.getTime() - 30 * DAY_MS);
+    if (from >= to || to.getTime() - from.getTime() > MAX_WINDOW_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `Window must be between 1 day and ${MAX_WINDOW_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const thresholds = { minEV: body.minEV, maxEV: Math.max(body.maxEV, body.minEV) };
+    const methods = body.methods ?? ALL_DEVIG_METHODS;
+    const presets = (body.presets ?? (body.modelId ? [] : DEFAULT_BACKTEST_PRESETS)).filter(
+      (preset): preset is SharpPreset => preset in SHARP_PRESETS && preset !== "custom"
+    );
+
+    const configs: BacktestConfig[] = presets.flatMap((preset) =>
+      methods.map((method) => buildPresetConfig(preset, method, thresholds))
+    );
+
+    if (body.modelId) {
+      const { data: model, error } = await supabase
+        .from("user_ev_models")
+        .select("id, name, sharp_books, book_weights, min_books_reference, min_odds, max_odds, markets, market_type")
+        .eq("id", body.modelId)
+        .eq("user_id", user.id)
+        .single();
+
+      if (error || !model) {
+        return NextResponse.json({ error: "Model not found" }, { status: 404 });
+      }
+      configs.push(...methods.map((method) => buildModelConfig(model, method, thresholds)));
+    }
+
+    if (configs.length === 0) {
+      return NextResponse.json({ error: "Select at least one preset or model" }, { status: 400 });
+    }
+    if (configs.length > MAX_CONFIGS) {
+      return NextResponse.json({ error: `Too many combinations (max ${MAX_CONFIGS})` }, { status: 400 });
+    }
+
+    const { markets, snapshots } = await loadBacktestMarkets(createServerSupabaseClient(), {
+      sports: body.sports,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+
+    const report: BacktestReport = {
+      runs: runBacktest(markets, configs),
+      meta: {
+        sports: body.sports,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        markets: markets.length,
+        snapshots,
+        min_ev: thresholds.minEV,
+        generated_at: new Date().toISOString(),
+      },
+    };
+
+    return NextResponse.json(report, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[EV Backtest API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export const POST = withRateLimit(handlePost, apiRateLimit);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
 import type { EvModelCreate, EvModel } from "@/lib/types/ev-models";
+import { normalizeProjectionWeights } from "@/lib/projections/hit-rate-model";
 import {
   DEFAULT_EV_MODEL_MAX_ODDS,
   DEFAULT_EV_MODEL_MIN_ODDS,
@@ -187,6 +188,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate fair_source if provided
+    if (body.fair_source && !["market", "model", "blend"].includes(body.fair_source)) {
+      return NextResponse.json(
+        { error: "fair_source must be 'market', 'model', or 'blend'" },
+        { status: 400 }
+      );
+    }
+
     const normalizedColor = normalizeColor(body.color);
     if (body.color !== undefined && normalizedColor === undefined) {
       return NextResponse.json(
@@ -225,6 +234,8 @@ export async function POST(request: NextRequest) {
         min_books_reference: body.min_books_reference ?? 2,
         min_odds: body.min_odds ?? DEFAULT_EV_MODEL_MIN_ODDS,
         max_odds: body.max_odds ?? DEFAULT_EV_MODEL_MAX_ODDS,
+        fair_source: body.fair_source || "market",
+        projection_weights: body.projection_weights ? normalizeProjectionWeights(body.projection_weights) : null,
         is_active: true, // New models are active by default
         is_favorite: body.is_favorite ?? false,
         sort_order: nextSortOrder,
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { PushSubscriptionSchema } from "@/lib/alerts/schema";
+
+const DeleteSchema = z.object({ endpoint: z.string().url() });
+
+/**
+ * POST /api/user/push-subscriptions
+ * Register this browser for web push alerts
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = PushSubscriptionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase.from("user_push_subscriptions").upsert(
+      {
+        user_id: user.id,
+        endpoint: parsed.data.endpoint,
+        p256dh: parsed.data.keys.p256dh,
+        auth: parsed.data.keys.auth,
+        user_agent: request.headers.get("user-agent"),
+      },
+      { onConflict: "endpoint" }
+    );
+
+    if (error) {
+      console.error("[Push Subscriptions API] Error saving subscription:", error);
+      return NextResponse.json({ error: "Failed to save subscription" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("[Push Subscriptions API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/push-subscriptions
+ * Unregister a browser
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = DeleteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("user_push_subscriptions")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("endpoint", parsed.data.endpoint);
+
+    if (error) {
+      console.error("[Push Subscriptions API] Error deleting subscription:", error);
+      return NextResponse.json({ error: "Failed to delete subscription" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Push Subscriptions API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { WebhookDeliveriesQuerySchema } from "@/lib/webhooks/schema";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/webhooks/[id]/deliveries
+ * Most recent delivery attempts for a webhook, newest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = WebhookDeliveriesQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from("user_webhook_deliveries")
+      .select("*")
+      .eq("webhook_id", id)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(parsed.data.limit);
+    if (parsed.data.status) query = query.eq("status", parsed.data.status);
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      console.error("[Webhooks API] Error fetching deliveries:", error);
+      return NextResponse.json({ error: "Failed to fetch deliveries" }, { status: 500 });
+    }
+
+    return NextResponse.json({ deliveries: deliveries || [], count: deliveries?.length || 0 });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { generateWebhookSecret } from "@/lib/webhooks/sign";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/user/webhooks/[id]/rotate
+ * Replace a webhook's signing secret. Payloads (including pending retries)
+ * are signed with the new secret from the next attempt. Returned once.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const secret = generateWebhookSecret();
+    const { data: webhook, error } = await supabase
+      .from("user_webhooks")
+      .update({ secret, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("[Webhooks API] Error rotating secret:", error);
+      return NextResponse.json({ error: "Failed to rotate signing secret" }, { status: 500 });
+    }
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ secret }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { UpdateWebhookSchema } from "@/lib/webhooks/schema";
+import { findUnownedWebhookSources } from "@/lib/webhooks/sources";
+
+const WEBHOOK_COLUMNS =
+  "id, user_id, name, url, filter_preset_ids, ev_model_ids, min_ev, enabled, consecutive_failures, disabled_at, disabled_reason, last_delivery_at, last_success_at, created_at, updated_at";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/user/webhooks/[id]
+ * Update a webhook. Enabling it (or changing its URL) clears the failure
+ * counter so an auto-disabled endpoint gets a fresh start.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = UpdateWebhookSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const unowned = await findUnownedWebhookSources(supabase, user.id, parsed.data);
+    if (unowned) {
+      return NextResponse.json({ error: unowned }, { status: 400 });
+    }
+
+    const update: Record<string, unknown> = { ...parsed.data, updated_at: new Date().toISOString() };
+    if (parsed.data.enabled === true || parsed.data.url !== undefined) {
+      update.consecutive_failures = 0;
+      update.disabled_at = null;
+      update.disabled_reason = null;
+    }
+
+    const { data: webhook, error } = await supabase
+      .from("user_webhooks")
+      .update(update)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select(WEBHOOK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[Webhooks API] Error updating webhook:", error);
+      return NextResponse.json({ error: "Failed to update webhook" }, { status: 500 });
+    }
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/webhooks/[id]
+ * Delete a webhook and its delivery log
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from("user_webhooks")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("[Webhooks API] Error deleting webhook:", error);
+      return NextResponse.json({ error: "Failed to delete webhook" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
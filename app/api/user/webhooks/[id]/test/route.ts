@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { hasSharpAccess } from "@/lib/plans";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { deliverWebhookEvent } from "@/lib/webhooks/deliver";
+import type { WebhookPayload, WebhookRecord } from "@/lib/webhooks/types";
+import { withRateLimit, apiRateLimit } from "@/lib/rate-limit";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/user/webhooks/[id]/test
+ * Send a signed webhook.test event right away. Works on disabled webhooks
+ * so an endpoint can be checked before re-enabling; test sends are logged
+ * but never retried and don't count towards auto-disable.
+ */
+async function handlePost(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!hasSharpAccess(await getUserPlan(user))) {
+      return NextResponse.json({ error: "Webhooks require a Sharp or Elite plan" }, { status: 403 });
+    }
+
+    const serviceClient = createServerSupabaseClient();
+    const { data: webhook, error } = await serviceClient
+      .from("user_webhooks")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[Webhooks API] Error loading webhook:", error);
+      return NextResponse.json({ error: "Failed to load webhook" }, { status: 500 });
+    }
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const payload: WebhookPayload<"webhook.test"> = {
+      id: `evt_${randomUUID()}`,
+      type: "webhook.test",
+      created_at: new Date().toISOString(),
+      data: {
+        webhook_id: webhook.id,
+        message: `Test event for "${webhook.name}". Verify the X-Unjuiced-Signature header with your signing secret.`,
+      },
+    };
+
+    const { delivery, result } = await deliverWebhookEvent(serviceClient, webhook as WebhookRecord, payload, {
+      retry: false,
+    });
+
+    return NextResponse.json({
+      success: result.ok,
+      response_code: result.response_code,
+      response_ms: result.response_ms,
+      error: result.error,
+      delivery,
+    });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export const POST = withRateLimit(handlePost, apiRateLimit);
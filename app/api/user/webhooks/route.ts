@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { hasSharpAccess } from "@/lib/plans";
+import { CreateWebhookSchema, MAX_WEBHOOKS_PER_USER } from "@/lib/webhooks/schema";
+import { generateWebhookSecret } from "@/lib/webhooks/sign";
+import { AUTO_DISABLE_AFTER_FAILURES, MAX_WEBHOOK_ATTEMPTS } from "@/lib/webhooks/deliver";
+import { findUnownedWebhookSources } from "@/lib/webhooks/sources";
+
+const WEBHOOK_COLUMNS =
+  "id, user_id, name, url, filter_preset_ids, ev_model_ids, min_ev, enabled, consecutive_failures, disabled_at, disabled_reason, last_delivery_at, last_success_at, created_at, updated_at";
+
+/**
+ * GET /api/user/webhooks
+ * The user's webhooks plus the presets and models they can attach
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [webhooks, presets, models, plan] = await Promise.all([
+      supabase
+        .from("user_webhooks")
+        .select(WEBHOOK_COLUMNS)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("user_filter_presets")
+        .select("id, name")
+        .eq("user_id", user.id)
+        .order("sort_order", { ascending: true }),
+      supabase
+        .from("user_ev_models")
+        .select("id, name")
+        .eq("user_id", user.id)
+        .order("sort_order", { ascending: true }),
+      getUserPlan(user),
+    ]);
+
+    if (webhooks.error) {
+      console.error("[Webhooks API] Error fetching webhooks:", webhooks.error);
+      return NextResponse.json({ error: "Failed to fetch webhooks" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      webhooks: webhooks.data || [],
+      count: webhooks.data?.length || 0,
+      access: hasSharpAccess(plan),
+      sources: {
+        filter_presets: presets.data || [],
+        ev_models: models.data || [],
+      },
+      limits: {
+        max_webhooks: MAX_WEBHOOKS_PER_USER,
+        max_attempts: MAX_WEBHOOK_ATTEMPTS,
+        auto_disable_after_failures: AUTO_DISABLE_AFTER_FAILURES,
+      },
+    });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/webhooks
+ * Create a webhook (Sharp and above). The signing secret is returned once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const plan = await getUserPlan(user);
+    if (!hasSharpAccess(plan)) {
+      return NextResponse.json({ error: "Webhooks require a Sharp or Elite plan" }, { status: 403 });
+    }
+
+    const parsed = CreateWebhookSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("user_webhooks")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if ((count ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+      return NextResponse.json(
+        { error: `Maximum of ${MAX_WEBHOOKS_PER_USER} webhooks allowed` },
+        { status: 400 }
+      );
+    }
+
+    const unowned = await findUnownedWebhookSources(supabase, user.id, parsed.data);
+    if (unowned) {
+      return NextResponse.json({ error: unowned }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+    const { data: webhook, error } = await supabase
+      .from("user_webhooks")
+      .insert({ ...parsed.data, secret, user_id: user.id })
+      .select(WEBHOOK_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("[Webhooks API] Error creating webhook:", error);
+      return NextResponse.json({ error: "Failed to create webhook" }, { status: 500 });
+    }
+
+    return NextResponse.json({ webhook, secret }, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[Webhooks API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
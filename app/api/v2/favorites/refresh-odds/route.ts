@@ -14,19 +14,21 @@
  *   }>
  * }
  * 
- * Returns live odds for each favorite with all book prices
+ * Returns live odds for each favorite with all book prices, plus CLV:
+ * the stored closing-line CLV once the event has started, otherwise a
+ * provisional CLV against the current fair price (user's sharp preset).
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { redis } from "@/lib/redis";
 import { createClient } from "@/libs/supabase/server";
 import {
   SSEBookSelections,
   SSESelection,
-  getMarketOddsPattern,
   normalizeFavoriteOddsKey,
   normalizePlayerName,
 } from "@/lib/odds/types";
+import { computeClosingLine, fetchMarketBookSelections, resolveClosingLinePreferences } from "@/lib/clv";
+import { computeCLVPercent } from "@/lib/line-history/utils";
 
 interface FavoriteInput {
   id: string;
@@ -58,6 +60,28 @@ interface RefreshedOdds {
   all_books: BookOdds[];
   is_available: boolean;
   line: number | null;
+  /** Fair odds the CLV is measured against (closing once final, else current) */
+  fair_odds: number | null;
+  clv_percent: number | null;
+  /** True once the event has started and its closing line was captured */
+  clv_is_final: boolean;
+}
+
+interface StoredClosingLine {
+  id: string;
+  best_price_at_save: number | null;
+  closing_fair_odds: number | null;
+  clv_percent: number | null;
+  start_time: string | null;
+}
+
+/**
+ * The capture cron keeps overwriting the snapshot until the event starts,
+ * so it is only the close once start_time has passed
+ */
+function isClosingFinal(stored: StoredClosingLine | undefined, now: number): boolean {
+  if (stored?.closing_fair_odds == null || !stored.start_time) return false;
+  return Date.parse(stored.start_time) <= now;
 }
 
 export async function POST(request: NextRequest) {
@@ -77,6 +101,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ refreshed: [] });
     }
 
+    // Stored closes and the user's sharp preset for CLV
+    const [{ data: storedRows }, { data: prefsRow }] = await Promise.all([
+      supabase
+        .from("user_favorites")
+        .select("id, best_price_at_save, closing_fair_odds, clv_percent, start_time")
+        .eq("user_id", user.id)
+        .in("id", favorites.map((f) => f.id)),
+      supabase
+        .from("user_preferences")
+        .select("positive_ev_sharp_preset, positive_ev_devig_methods")
+        .eq("id", user.id)
+        .maybeSingle(),
+    ]);
+    const now = Date.now();
+    const storedById = new Map(((storedRows || []) as StoredClosingLine[]).map((row) => [row.id, row]));
+    const closingPrefs = resolveClosingLinePreferences(prefsRow);
+
     // Group favorites by odds_key (market) to batch Redis calls
     const byOddsKey = new Map<string, FavoriteInput[]>();
     for (const fav of favorites) {
@@ -96,18 +137,12 @@ export async function POST(request: NextRequest) {
 
     // Process each unique odds_key
     for (const [oddsKey, favs] of byOddsKey) {
-      // Get all book keys for this market
-      const oddsKeyParts = oddsKey.split(":");
-      const bookPattern = getMarketOddsPattern(
-        oddsKeyParts[1],
-        oddsKeyParts[2],
-        oddsKeyParts[3]
-      );
-      const bookKeys = await scanKeys(bookPattern);
-
-      if (bookKeys.length === 0) {
+      const bookSelections = await fetchMarketBookSelections(oddsKey);
+
+      if (Object.keys(bookSelections).length === 0) {
         // No odds available - mark all as unavailable
         for (const fav of favs) {
+          const stored = storedById.get(fav.id);
           results.push({
             favorite_id: fav.id,
             odds_key: oddsKey,
@@ -118,24 +153,14 @@ export async function POST(request: NextRequest) {
             all_books: [],
             is_available: false,
             line: fav.line,
+            fair_odds: stored?.closing_fair_odds ?? null,
+            clv_percent: stored?.clv_percent ?? null,
+            clv_is_final: isClosingFinal(stored, now),
           });
         }
         continue;
       }
 
-      // Fetch all book data
-      const bookDataRaw = await redis.mget<(string | SSEBookSelections | null)[]>(...bookKeys);
-      
-      // Build book → selections map
-      const bookSelections: Record<string, SSEBookSelections> = {};
-      bookKeys.forEach((key, i) => {
-        const book = key.split(":").pop()!;
-        const data = bookDataRaw[i];
-        if (data) {
-          bookSelections[book] = typeof data === "string" ? JSON.parse(data) : data;
-        }
-      });
-
       // For each favorite, find matching selections
       for (const fav of favs) {
         const normalizedPlayer = normalizePlayerName(fav.player_name || "");
@@ -185,6 +210,15 @@ export async function POST(request: NextRequest) {
 
         const best = matchingBooks[0];
 
+        const stored = storedById.get(fav.id);
+        const isFinal = isClosingFinal(stored, now);
+        const fairOdds = isFinal
+          ? stored!.closing_fair_odds
+          : computeClosingLine(bookSelections, fav, closingPrefs)?.fair_odds ?? stored?.closing_fair_odds ?? null;
+        const clv = isFinal
+          ? stored!.clv_percent
+          : computeCLVPercent(stored?.best_price_at_save, fairOdds);
+
         results.push({
           favorite_id: fav.id,
           odds_key: oddsKey,
@@ -195,6 +229,9 @@ export async function POST(request: NextRequest) {
           all_books: matchingBooks,
           is_available: matchingBooks.length > 0,
           line: fav.line,
+          fair_odds: fairOdds,
+          clv_percent: clv !== null ? Math.round(clv * 100) / 100 : null,
+          clv_is_final: isFinal,
         });
       }
     }
@@ -212,22 +249,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Scan Redis keys with pattern
- */
-async function scanKeys(pattern: string): Promise<string[]> {
-  const keys: string[] = [];
-  let cursor = "0";
-
-  do {
-    const result: [string, string[]] = await redis.scan(cursor, {
-      match: pattern,
-      count: 100,
-    });
-    cursor = result[0];
-    keys.push(...result[1]);
-  } while (cursor !== "0");
-
-  return keys;
-}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { PLAN_LIMITS, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
+import { queryOddsArchive, seriesToCsv, seriesToParquet } from "@/lib/odds-archive";
+import { withRateLimit, apiRateLimit } from "@/lib/rate-limit";
+
+/**
+ * GET /api/v2/odds/archive
+ *
+ * Archived price history from odds_archive_chunks, one series per
+ * selection and book. Sharp and Elite plans only.
+ *
+ * Query params:
+ * - sport (required), eventId, market, player (name or odds player id)
+ * - books: comma-separated book ids
+ * - side, line
+ * - from / to: ISO date or epoch ms (default: last 7 days, max 31 days)
+ * - format: json (default) | csv | parquet
+ *
+ * Reads at most 20k chunks, newest first. When more matched, `truncated`
+ * (X-Archive-Truncated on csv/parquet) is true and the oldest are missing.
+ */
+
+export const runtime = "nodejs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 31;
+
+const timeParam = z
+  .string()
+  .transform((value) => (/^\d+$/.test(value) ? Number(value) : Date.parse(value)))
+  .refine((value) => Number.isFinite(value), { message: "Invalid date" });
+
+const QuerySchema = z
+  .object({
+    sport: z.string().min(1),
+    eventId: z.string().min(1).optional(),
+    market: z.string().min(1).optional(),
+    player: z.string().min(1).optional(),
+    books: z.string().optional(),
+    side: z.string().min(1).optional(),
+    line: z.coerce.number().optional(),
+    from: timeParam.optional(),
+    to: timeParam.optional(),
+    format: z.enum(["json", "csv", "parquet"]).optional().default("json"),
+  })
+  .transform((query) => {
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - DEFAULT_RANGE_DAYS * DAY_MS;
+    return { ...query, from, to };
+  })
+  .refine((query) => query.from <= query.to, { message: "from must be before to" })
+  .refine((query) => query.to - query.from <= MAX_RANGE_DAYS * DAY_MS, {
+    message: `Range can't exceed ${MAX_RANGE_DAYS} days`,
+  });
+
+async function assertArchiveAccess(): Promise<NextResponse | null> {
+  const supabase = await createClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const { data: entitlement } = await supabase
+    .from("current_entitlements")
+    .select("current_plan")
+    .eq("user_id", user.id)
+    .single();
+
+  const normalized = normalizePlanName(String(entitlement?.current_plan || "free"));
+  const plan: UserPlan = normalized in PLAN_LIMITS ? (normalized as UserPlan) : "free";
+
+  if (!hasSharpAccess(plan)) {
+    return NextResponse.json({ error: "sharp_required" }, { status: 403 });
+  }
+
+  return null;
+}
+
+async function handleGet(req: NextRequest) {
+  const startTime = Date.now();
+  const { searchParams } = new URL(req.url);
+
+  const parsed = QuerySchema.safeParse({
+    sport: searchParams.get("sport") ?? undefined,
+    eventId: searchParams.get("eventId") ?? undefined,
+    market: searchParams.get("market") ?? undefined,
+    player: searchParams.get("player") ?? undefined,
+    books: searchParams.get("books") ?? undefined,
+    side: searchParams.get("side") ?? undefined,
+    line: searchParams.get("line") ?? undefined,
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined,
+    format: searchParams.get("format") ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.flatten() },
+      { status: 400, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  try {
+    const denied = await assertArchiveAccess();
+    if (denied) return denied;
+
+    const { format, books, ...query } = parsed.data;
+    const { series, truncated } = await queryOddsArchive(createServerSupabaseClient(), {
+      ...query,
+      books: books ? books.split(",").map((book) => book.trim()).filter(Boolean) : undefined,
+    });
+
+    const filename = `odds-archive-${query.sport}-${query.eventId ?? "all"}-${new Date(query.from).toISOString().slice(0, 10)}`;
+    if (format === "csv") {
+      return new NextResponse(seriesToCsv(series), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+          "Cache-Control": "private, max-age=60",
+          "X-Archive-Truncated": String(truncated),
+        },
+      });
+    }
+    if (format === "parquet") {
+      return new NextResponse(Buffer.from(seriesToParquet(series)), {
+        headers: {
+          "Content-Type": "application/vnd.apache.parquet",
+          "Content-Disposition": `attachment; filename="${filename}.parquet"`,
+          "Cache-Control": "private, max-age=60",
+          "X-Archive-Truncated": String(truncated),
+        },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        series,
+        from: query.from,
+        to: query.to,
+        count: series.length,
+        truncated,
+      },
+      {
+        headers: {
+          "X-Timing-Ms": String(Date.now() - startTime),
+          "Cache-Control": "private, max-age=60",
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error("[v2/odds/archive] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
+
+export const GET = withRateLimit(handleGet, apiRateLimit);
@@ -5,6 +5,8 @@ import { getSportsbookById } from "@/lib/data/sportsbooks";
 import { createClient } from "@/libs/supabase/server";
 import { PLAN_LIMITS, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
 import { getCachedData, redis, setCachedData } from "@/lib/redis";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { queryOddsArchive } from "@/lib/odds-archive";
 import { normalizePlayerName, type SSEBookSelections, type SSESelection } from "@/lib/odds/types";
 import type {
   LineHistoryApiRequest,
@@ -20,6 +22,7 @@ const HISTORY_CACHE_TTL_SECONDS = 180;
 const HISTORY_NEGATIVE_CACHE_TTL_SECONDS = 90;
 const REQUEST_TIMEOUT_MS = 6000;
 const MAX_ID_ATTEMPTS = 24;
+const ARCHIVE_LOOKBACK_MS = 14 * 24 * 60 * 60 * 1000;
 
 async function assertLineHistoryAccess(): Promise<NextResponse | null> {
   const supabase = await createClient();
@@ -411,6 +414,61 @@ function buildBookHistoryFromVendor(
   };
 }
 
+/**
+ * Build history from our own odds archive. Used when the vendor has no
+ * match; only returns a result when exactly one archived selection fits.
+ */
+async function fetchArchiveHistory(
+  context: LineHistoryContext,
+  bookId: string,
+  bookName: string,
+  directOddId: string
+): Promise<LineHistoryBookData | null> {
+  try {
+    const now = Date.now();
+    const { series, truncated } = await queryOddsArchive(createServerSupabaseClient(), {
+      sport: context.sport,
+      eventId: context.eventId,
+      market: context.market,
+      books: [bookId],
+      side: context.side,
+      line: context.line ?? undefined,
+      player: context.playerName || undefined,
+      from: now - ARCHIVE_LOOKBACK_MS,
+      to: now,
+    });
+    if (truncated) console.warn(`[line-history] Archive history for ${bookId} was truncated to the newest chunks`);
+
+    const byOddId = directOddId ? series.filter((item) => item.selection_key === directOddId) : [];
+    const target = normalizePlayerName(context.selectionName || context.team || "");
+    const byName = target
+      ? series.filter((item) => normalizePlayerName(item.player_name || "") === target)
+      : [];
+    const match = byOddId[0] ?? (byName.length === 1 ? byName[0] : series.length === 1 ? series[0] : null);
+    if (!match || match.points.length === 0) return null;
+
+    const first = match.points[0];
+    const last = match.points[match.points.length - 1];
+    return {
+      bookId,
+      bookName,
+      status: "ok",
+      oddsId: match.selection_key,
+      market: context.marketDisplay || context.market,
+      selection: match.player_name || context.selectionName || null,
+      updated: new Date(last.timestamp).toISOString(),
+      olv: { price: first.price, timestamp: first.timestamp },
+      clv: { price: last.price, timestamp: last.timestamp },
+      currentPrice: context.currentPricesByBook?.[bookId] ?? last.price,
+      entries: match.points,
+      source: "archive",
+    };
+  } catch (error) {
+    console.warn(`[line-history] Archive lookup failed for ${bookId}`, error);
+    return null;
+  }
+}
+
 function buildCacheKey(context: LineHistoryContext, bookId: string, directOddId = ""): string {
   const raw = [
     context.source,
@@ -444,6 +502,8 @@ async function fetchBookHistory(context: LineHistoryContext, bookId: string): Pr
 
   const bookName = getSportsbookById(bookId)?.name || bookId;
   if (!ODDSBLAZE_API_KEY) {
+    const archived = await fetchArchiveHistory(context, bookId, bookName, directOddId);
+    if (archived) return archived;
     return {
       bookId,
       bookName,
@@ -490,6 +550,12 @@ async function fetchBookHistory(context: LineHistoryContext, bookId: string): Pr
     lastEmptyResult = result;
   }
 
+  const archived = await fetchArchiveHistory(context, bookId, bookName, directOddId);
+  if (archived) {
+    await setCachedData(cacheKey, archived, HISTORY_CACHE_TTL_SECONDS);
+    return archived;
+  }
+
   const notFound: LineHistoryBookData = lastEmptyResult || {
     bookId,
     bookName,
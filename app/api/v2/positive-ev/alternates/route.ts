@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { getUserPlan } from "@/lib/plans-server";
+import { hasEliteAccess } from "@/lib/plans";
+import { EV_THRESHOLDS, SHARP_PRESETS } from "@/lib/ev/constants";
+import { findAlternateLineOpportunities } from "@/lib/ev/alternates";
+import type { CustomSharpConfig, PositiveEVOpportunity, SharpPreset } from "@/lib/ev/types";
+
+/**
+ * GET /api/v2/positive-ev/alternates
+ *
+ * +EV alternate player-prop lines the sharps don't quote two-way, priced
+ * off a fair curve fitted through every sharp main/alternate line.
+ *
+ * Query params:
+ * - sports: comma-separated (default nba)
+ * - sharpPreset: books the curve is fitted from (default pinnacle)
+ * - customSharpBooks: custom curve books (Elite)
+ * - minEV / maxEV: EV % window
+ * - books: only surface prices at these books
+ * - markets: only these stat markets (alternates fold into their base market)
+ * - limit: max results (default 100)
+ */
+
+export const runtime = "nodejs";
+
+const VALID_SPORTS = new Set([
+  "nba", "nfl", "nhl", "ncaab", "ncaaf", "mlb", "ncaabaseball",
+  "wnba", "soccer_epl", "soccer_laliga", "soccer_mls", "soccer_ucl",
+  "soccer_uel", "ufc",
+]);
+const MAX_LIMIT = 500;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+  const params = req.nextUrl.searchParams;
+
+  try {
+    const sports = (params.get("sports") || "nba")
+      .toLowerCase()
+      .split(",")
+      .filter((s) => VALID_SPORTS.has(s));
+    if (sports.length === 0) {
+      return NextResponse.json({ error: "No valid sports provided" }, { status: 400 });
+    }
+
+    const sharpPreset = (params.get("sharpPreset") || "pinnacle") as SharpPreset;
+    if (!(sharpPreset in SHARP_PRESETS)) {
+      return NextResponse.json({ error: `Invalid sharpPreset: ${sharpPreset}` }, { status: 400 });
+    }
+
+    const minEV = parseFloat(params.get("minEV") || "0");
+    const maxEV = parseFloat(params.get("maxEV") || String(EV_THRESHOLDS.maximum));
+    const books = params.get("books")?.toLowerCase().split(",").filter(Boolean) || null;
+    const markets = params.get("markets")?.toLowerCase().split(",").filter(Boolean) || null;
+    const requestedLimit = parseInt(params.get("limit") || "100");
+    const limit = Math.max(1, Math.min(Number.isFinite(requestedLimit) ? requestedLimit : 100, MAX_LIMIT));
+
+    // Custom sharp config — Elite plan gating (same as /api/v2/positive-ev)
+    let customSharpConfig: CustomSharpConfig | null = null;
+    const customSharpBooks = params.get("customSharpBooks")?.toLowerCase().split(",").filter(Boolean) || null;
+    if (customSharpBooks && customSharpBooks.length > 0) {
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      const userPlan = await getUserPlan(user);
+      if (!hasEliteAccess(userPlan)) {
+        return NextResponse.json(
+          { error: "Custom models require Elite plan", code: "elite_required" },
+          { status: 403 }
+        );
+      }
+      customSharpConfig = { books: customSharpBooks, weights: null };
+    }
+
+    const opportunities: PositiveEVOpportunity[] = [];
+    for (const sport of sports) {
+      try {
+        opportunities.push(
+          ...(await findAlternateLineOpportunities(sport, {
+            sharpPreset,
+            customSharpConfig,
+            minEV,
+            maxEV,
+            books,
+            markets,
+          }))
+        );
+      } catch (err) {
+        console.warn(`[positive-ev/alternates] Scan failed for ${sport}:`, err);
+      }
+    }
+
+    opportunities.sort((a, b) => b.evCalculations.evDisplay - a.evCalculations.evDisplay);
+
+    return NextResponse.json(
+      {
+        opportunities: opportunities.slice(0, limit),
+        meta: {
+          totalFound: opportunities.length,
+          returned: Math.min(opportunities.length, limit),
+          sharpPreset: customSharpConfig ? "custom" : sharpPreset,
+          customSharpConfig: customSharpConfig ?? undefined,
+          minEV,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      {
+        headers: {
+          "X-Timing-Ms": String(Date.now() - startTime),
+          "Cache-Control": "private, max-age=15",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("[positive-ev/alternates] Error:", error);
+    return NextResponse.json({ error: "Failed to scan alternate lines" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { loadHitRateModelInputs } from "@/lib/projections";
+import type { HitRateModelInputs } from "@/lib/projections";
+
+/**
+ * POST /api/v2/positive-ev/projections
+ *
+ * Hit-rate model inputs (weighted-average windows, DvP rank, pace ratio,
+ * injury boost, recent-game variance) for +EV player prop selections.
+ * The +EV page fits the distribution client-side so weight changes in the
+ * EV model re-price without another request.
+ *
+ * Body: { sport: "nba" | "wnba", selections: [{ event_id, market, player_name, start_time?, game_date? }] }
+ * Response: { inputs: { [hitRateSelectionKey]: HitRateModelInputs }, timestamp }
+ */
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const MAX_SELECTIONS = 500;
+
+const RequestSchema = z.object({
+  sport: z.enum(["nba", "wnba"]),
+  selections: z
+    .array(
+      z.object({
+        event_id: z.string().min(1),
+        market: z.string().min(1),
+        player_name: z.string().min(1),
+        start_time: z.string().nullish(),
+        game_date: z.string().nullish(),
+      })
+    )
+    .max(MAX_SELECTIONS),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const authClient = await createClient();
+    const { data: { user } } = await authClient.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Projection EV requires a Sharp or Elite plan", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const { sport, selections } = parsed.data;
+    const supabase = createServerSupabaseClient();
+    const inputs = await loadHitRateModelInputs(supabase, sport, selections);
+
+    return NextResponse.json(
+      { inputs: Object.fromEntries(inputs) as Record<string, HitRateModelInputs>, timestamp: Date.now() },
+      { headers: { "Cache-Control": "private, max-age=60" } }
+    );
+  } catch (error: any) {
+    console.error("[Projection EV API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -65,6 +65,7 @@ type WorkerEVRow = any;
 // Constants
 // ---------------------------------------------------------------------------
 
+const CRON_SECRET = process.env.CRON_SECRET;
 const RESPONSE_CACHE_PREFIX = "ev:response:";
 const RESPONSE_CACHE_VERSION = "v2";
 const RESPONSE_CACHE_TTL = 45; // seconds — increased from 15 to reduce miss storms
@@ -288,14 +289,18 @@ export async function GET(req: NextRequest) {
     let customSharpConfig: CustomSharpConfig | null = null;
 
     if (customSharpBooksParam && customSharpBooksParam.length > 0) {
-      const supabase = await createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-      const userPlan = await getUserPlan(user);
-      if (!hasEliteAccess(userPlan)) {
-        return NextResponse.json(
-          { error: "Custom models require Elite plan", code: "elite_required" },
-          { status: 403 }
-        );
+      // The webhook cron runs models on behalf of owners it has already plan-checked
+      const isCron = !!CRON_SECRET && req.headers.get("authorization") === `Bearer ${CRON_SECRET}`;
+      if (!isCron) {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+        const userPlan = await getUserPlan(user);
+        if (!hasEliteAccess(userPlan)) {
+          return NextResponse.json(
+            { error: "Custom models require Elite plan", code: "elite_required" },
+            { status: 403 }
+          );
+        }
       }
       let weights: Record<string, number> | null = null;
       const customBookWeightsParam = params.get("customBookWeights");
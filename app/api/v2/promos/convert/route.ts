@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { SHARP_PRESETS } from "@/lib/ev/constants";
+import type { SharpPreset } from "@/lib/ev/types";
+import { findPromoConversions, type PromoConversionType } from "@/lib/promo-converter";
+
+/**
+ * GET /api/v2/promos/convert
+ *
+ * Best hedges for converting a bonus bet or profit boost at one book.
+ *
+ * Query params:
+ * - type: "bonus_bet" | "profit_boost"
+ * - book: odds book id the promo is at (e.g. "draftkings")
+ * - amount: bonus bet amount, or max wager for the boost
+ * - boost: profit boost % (profit_boost only)
+ * - sports: comma-separated (default nba,nfl,nhl,mlb,ncaab,ncaaf)
+ * - min_odds / max_odds: promo-side American odds range
+ * - round_to: hedge stake increment (0 = cents)
+ * - preset: sharp preset for the fair price (default pinnacle, falls back to market average)
+ * - sort: "guaranteed" | "ev"
+ * - limit: max results (default 50)
+ */
+
+export const runtime = "nodejs";
+
+const SUPPORTED_SPORTS = new Set([
+  "nba",
+  "nfl",
+  "ncaaf",
+  "ncaab",
+  "nhl",
+  "mlb",
+  "ncaabaseball",
+  "wnba",
+  "soccer_epl",
+  "soccer_laliga",
+  "soccer_mls",
+  "soccer_ucl",
+  "soccer_uel",
+  "ufc",
+]);
+
+const DEFAULT_SPORTS = ["nba", "nfl", "nhl", "mlb", "ncaab", "ncaaf"];
+const CONVERSION_TYPES: PromoConversionType[] = ["bonus_bet", "profit_boost"];
+
+function parseOptionalNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "The promo converter requires a Sharp or Elite plan", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const params = req.nextUrl.searchParams;
+    const type = params.get("type") as PromoConversionType | null;
+    const book = (params.get("book") || "").trim().toLowerCase();
+    const amount = parseOptionalNumber(params.get("amount"));
+    const boostPercent = parseOptionalNumber(params.get("boost"));
+
+    if (!type || !CONVERSION_TYPES.includes(type)) {
+      return NextResponse.json({ error: "type must be bonus_bet or profit_boost" }, { status: 400 });
+    }
+    if (!book) {
+      return NextResponse.json({ error: "book is required" }, { status: 400 });
+    }
+    if (amount === undefined || amount <= 0) {
+      return NextResponse.json({ error: "amount must be a positive number" }, { status: 400 });
+    }
+    if (type === "profit_boost" && (boostPercent === undefined || boostPercent <= 0)) {
+      return NextResponse.json({ error: "boost must be a positive percentage" }, { status: 400 });
+    }
+
+    const requested = (params.get("sports") || "")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter((s) => SUPPORTED_SPORTS.has(s));
+    const preset = params.get("preset");
+    const sort = params.get("sort");
+
+    const result = await findPromoConversions({
+      type,
+      book,
+      amount,
+      boostPercent,
+      sports: requested.length > 0 ? requested : DEFAULT_SPORTS,
+      minOdds: parseOptionalNumber(params.get("min_odds")),
+      maxOdds: parseOptionalNumber(params.get("max_odds")),
+      roundTo: parseOptionalNumber(params.get("round_to")),
+      sharpPreset: preset && preset in SHARP_PRESETS ? (preset as SharpPreset) : undefined,
+      sort: sort === "ev" ? "ev" : "guaranteed",
+      limit: parseOptionalNumber(params.get("limit")),
+    });
+
+    return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+  } catch (error: any) {
+    console.error("[Promo Converter API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { Redis } from "@upstash/redis";
 import { SSESelection, SSEBookSelections } from "@/lib/odds/types";
 import { resolveRedisCommandEndpoint } from "@/lib/redis-endpoints";
+import { fairLinePrice, fitFairCurveFromQuotes, type FairCurve, type FairCurveQuote } from "@/lib/ev/fair-curve";
 
 const commandEndpoint = resolveRedisCommandEndpoint();
 if (!commandEndpoint.url || !commandEndpoint.token) {
@@ -370,6 +371,13 @@ interface AlternateLine {
     over?: { bk: string; price: number };
     under?: { bk: string; price: number };
   };
+  // Fair odds off the sharp curve (player props with at least one sharp quote)
+  fair?: {
+    over: number | null;
+    under: number | null;
+    over_prob: number;
+    sharp: boolean;        // A sharp book quotes both sides at this line
+  };
 }
 
 /**
@@ -737,6 +745,41 @@ async function buildGameAlternates(
   };
 }
 
+/**
+ * Fit the player's stat distribution through every sharp two-way quote
+ * across the main and alternate lines.
+ */
+function buildFairCurve(lines: AlternateLine[], market: string, primaryLine: number | null): FairCurve | null {
+  const quotes: FairCurveQuote[] = [];
+  for (const l of lines) {
+    for (const [book, odds] of Object.entries(l.books)) {
+      quotes.push({
+        line: l.ln,
+        book,
+        over: odds.over?.price ?? null,
+        under: odds.under?.price ?? null,
+        main: l.ln === primaryLine,
+      });
+    }
+  }
+  return fitFairCurveFromQuotes(quotes, market);
+}
+
+/** Attach curve-derived fair odds to every line */
+function attachFairOdds(lines: AlternateLine[], curve: FairCurve): void {
+  const sharpLines = new Set(curve.points.map((p) => p.line));
+  for (const l of lines) {
+    const price = fairLinePrice(curve, l.ln);
+    const decided = 1 - price.push_prob;
+    l.fair = {
+      over: price.fair_over_odds,
+      under: price.fair_under_odds,
+      over_prob: decided > 0 ? Math.round((price.over_prob / decided) * 10000) / 10000 : 0,
+      sharp: sharpLines.has(l.ln),
+    };
+  }
+}
+
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
@@ -746,6 +789,7 @@ export async function GET(req: NextRequest) {
     const playerKey = searchParams.get("player")?.trim() || "";
     const primaryLineStr = searchParams.get("primaryLine");
     const type = searchParams.get("type")?.trim().toLowerCase() || "player";
+    const includeFair = searchParams.get("includeFair") === "true";
     const homeTeam = searchParams.get("homeTeam")?.trim().toLowerCase().replace(/ /g, "_") || "";
     const awayTeam = searchParams.get("awayTeam")?.trim().toLowerCase().replace(/ /g, "_") || "";
 
@@ -830,6 +874,12 @@ export async function GET(req: NextRequest) {
     // Filter out primary line from alternates
     const alternates = lines.filter((l) => l.ln !== primary_ln);
 
+    // Sharp fair curve for player props: per-line fair odds on every row, and
+    // the full distribution on request (ladder builder)
+    const fairCurve = type !== "game" ? buildFairCurve(lines, normalizedMarket, primary_ln) : null;
+    if (fairCurve) attachFairOdds(lines, fairCurve);
+    const fair_curve = type !== "game" ? fairCurve : undefined;
+
     return NextResponse.json(
       {
         eventId,
@@ -841,6 +891,7 @@ export async function GET(req: NextRequest) {
         primary_ln,
         alternates,
         all_lines: lines,
+        ...(includeFair ? { fair_curve } : {}),
         timestamp: Date.now(),
         meta: {
           duration_ms: Math.round(duration),
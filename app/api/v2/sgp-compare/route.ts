@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { resolveClosingLinePreferences } from "@/lib/clv";
 import { fetchSgpQuote } from "@/lib/sgp/quote-service";
+import { evaluateSgpPrice, priceSgpFairValue, type SgpFairValueResult } from "@/lib/sgp/fair-value";
 import {
   buildBookTokenMap,
   formatCoverageForLog,
@@ -44,12 +47,53 @@ interface SgpBookOdds {
   legs_supported?: number;
   total_legs?: number;
   has_all_legs?: boolean;
+  /** EV vs the correlated fair odds (full-coverage books only) */
+  ev_percent?: number | null;
+  is_plus_ev?: boolean;
 }
 
 interface SgpOddsCache {
   [bookId: string]: SgpBookOdds;
 }
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Correlated fair value for the legs, priced against the user's +EV sharp
+ * preset. Never fails the compare request.
+ */
+async function loadFairValue(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string | null,
+  legs: SgpLeg[]
+): Promise<SgpFairValueResult | null> {
+  try {
+    const { data: prefsRow } = userId
+      ? await supabase
+          .from("user_preferences")
+          .select("positive_ev_sharp_preset, positive_ev_devig_methods")
+          .eq("id", userId)
+          .maybeSingle()
+      : { data: null };
+
+    return await priceSgpFairValue(
+      createServerSupabaseClient(),
+      legs.map((leg) => ({
+        ...leg,
+        sport: leg.sport ?? null,
+        player_id: leg.player_id ?? null,
+        player_name: leg.player_name ?? null,
+      })),
+      resolveClosingLinePreferences(prefsRow)
+    );
+  } catch (error) {
+    console.warn("[SGP Compare] Fair value failed:", error);
+    return null;
+  }
+}
+
 // =============================================================================
 // API HANDLER
 // =============================================================================
@@ -58,7 +102,7 @@ export async function POST(request: NextRequest) {
   try {
     // Auth check (optional - allow unauthenticated for now)
     const supabase = await createClient();
-    await supabase.auth.getUser();
+    const { data: { user } } = await supabase.auth.getUser();
 
     // Parse request
     const body = await request.json() as SgpCompareRequest;
@@ -80,6 +124,9 @@ export async function POST(request: NextRequest) {
       ? sportsbooks.filter(b => sgpSupportingBooks.includes(b))
       : sgpSupportingBooks;
 
+    // Priced alongside the book quotes
+    const fairValuePromise = loadFairValue(supabase, user?.id ?? null, legs);
+
     const resolvedTokens = await resolveSgpTokensForLegs(legs, {
       books: booksToFetch,
       loggerPrefix: "[SGP Compare]",
@@ -95,10 +142,13 @@ export async function POST(request: NextRequest) {
     );
 
     if (bookTokensMap.size === 0) {
+      const fairValue = await fairValuePromise;
       return NextResponse.json({
         odds: {},
         total_legs: totalLegs,
         books_fetched: [],
+        fair: fairValue?.fair ?? null,
+        fair_missing_legs: fairValue?.missing_legs ?? [],
         error: "No sportsbooks have SGP tokens for these legs",
         diagnostics: {
           token_coverage: resolvedTokens.coverage.by_book,
@@ -131,7 +181,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const oddsResults = await Promise.all(fetchPromises);
+    const [oddsResults, fairValue] = await Promise.all([Promise.all(fetchPromises), fairValuePromise]);
+    const fair = fairValue?.fair ?? null;
     const resultByBook = new Map(oddsResults.map((result) => [result.bookId, result]));
 
     // Build the final odds cache
@@ -144,11 +195,15 @@ export async function POST(request: NextRequest) {
       const hasAllLegs = legsSupported === totalLegs;
 
       if (odds) {
+        // Partial-coverage prices are for a different parlay than the one priced
+        const edge = fair && hasAllLegs ? evaluateSgpPrice(fair, odds.price) : null;
         oddsCache[bookId] = {
           ...odds,
           legs_supported: legsSupported,
           total_legs: totalLegs,
           has_all_legs: hasAllLegs,
+          ev_percent: edge?.ev_percent ?? null,
+          is_plus_ev: edge?.is_plus_ev ?? false,
         };
       }
     }
@@ -169,14 +224,22 @@ export async function POST(request: NextRequest) {
     const vendorCalls = oddsResults.filter((result) => result.source === "vendor").length;
     const cacheHits = oddsResults.filter((result) => result.fromCache).length;
 
+    const plusEvBooks = Object.entries(oddsCache)
+      .filter(([, odds]) => odds.is_plus_ev)
+      .map(([bookId]) => bookId);
+
     console.log(
-      `[SGP Compare] Completed: ${vendorCalls} vendor calls, ${cacheHits} cache hits, ${bookTokensMap.size} books requested`
+      `[SGP Compare] Completed: ${vendorCalls} vendor calls, ${cacheHits} cache hits, ${bookTokensMap.size} books requested` +
+        (fair ? `, fair ${fair.fair_odds} (${plusEvBooks.length} +EV)` : "")
     );
 
     return NextResponse.json({
       odds: oddsCache,
       total_legs: totalLegs,
       books_fetched: Array.from(bookTokensMap.keys()),
+      fair,
+      fair_missing_legs: fairValue?.missing_legs ?? [],
+      plus_ev_books: plusEvBooks,
       diagnostics: {
         token_coverage: resolvedTokens.coverage.by_book,
         full_support_books: resolvedTokens.coverage.full_support_books,
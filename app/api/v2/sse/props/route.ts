@@ -3,6 +3,7 @@ export const runtime = "edge";
 import { NextRequest } from "next/server";
 import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
 import { pumpPubSub, pumpMultiPubSub } from "@/lib/sse-pubsub";
+import { withRateLimit, sseRateLimit } from "@/lib/rate-limit";
 
 // Channel mapping for each sport.
 const SPORT_CHANNELS: Record<string, string> = {
@@ -42,7 +43,7 @@ async function subscribeToChannel(url: string, token: string, channel: string):
   });
 }
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const sp = new URL(req.url).searchParams;
 
   // Support both single sport (legacy) and multiple sports.
@@ -162,3 +163,5 @@ export async function GET(req: NextRequest) {
     },
   });
 }
+
+export const GET = withRateLimit(handleGet, sseRateLimit);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { listStaleLines, loadBookLags, summarizeLags } from "@/lib/stale-lines";
+
+/**
+ * GET /api/v2/stale-lines?sports=nba,mlb&books=draftkings,fanduel&minEv=1&limit=200
+ *
+ * Open stale soft-book lines (prices last changed before the latest sharp
+ * move), best EV first, plus each book's measured lag behind sharp moves.
+ * The edge finder's stale lines mode loads this once and then follows
+ * /api/sse/stale-lines.
+ */
+
+const MAX_LIMIT = 500;
+
+function parseList(value: string | null): string[] {
+  return (value || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Stale line alerts require a Sharp or Elite plan", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const params = req.nextUrl.searchParams;
+    const minEvParam = params.get("minEv");
+    const minEV = minEvParam != null && Number.isFinite(Number(minEvParam)) ? Number(minEvParam) : undefined;
+    const limit = Math.min(Math.max(parseInt(params.get("limit") || "200", 10) || 200, 1), MAX_LIMIT);
+
+    const [lines, lags] = await Promise.all([
+      listStaleLines({ sports: parseList(params.get("sports")), books: parseList(params.get("books")), minEV, limit }),
+      loadBookLags(),
+    ]);
+
+    return NextResponse.json(
+      { lines, lags: summarizeLags(lags), plan: userPlan, timestamp: Date.now() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error: any) {
+    console.error("[Stale Lines API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
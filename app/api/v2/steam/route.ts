@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/libs/supabase/server";
+import { hasSharpAccess } from "@/lib/plans";
+import { getUserPlan } from "@/lib/plans-server";
+import { listSteamSignals, type SteamSignalKind } from "@/lib/steam";
+
+/**
+ * GET /api/v2/steam?sports=nba,mlb&kinds=steam,stale&limit=200
+ *
+ * Recent steam, stale-line and reverse line movement signals (last two
+ * hours), newest first. The Steam tab loads this once and then follows
+ * /api/sse/steam for live updates.
+ */
+
+const KINDS = new Set<SteamSignalKind>(["steam", "stale", "rlm"]);
+const MAX_LIMIT = 500;
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userPlan = await getUserPlan(user);
+
+    if (!hasSharpAccess(userPlan)) {
+      return NextResponse.json(
+        { error: "Steam alerts require a Sharp or Elite plan", plan: userPlan },
+        { status: 403, headers: { "Cache-Control": "no-store" } }
+      );
+    }
+
+    const params = req.nextUrl.searchParams;
+    const sports = (params.get("sports") || "")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean);
+    const kinds = (params.get("kinds") || "")
+      .split(",")
+      .map((k) => k.trim().toLowerCase())
+      .filter((k): k is SteamSignalKind => KINDS.has(k as SteamSignalKind));
+    const limit = Math.min(Math.max(parseInt(params.get("limit") || "200", 10) || 200, 1), MAX_LIMIT);
+
+    const signals = await listSteamSignals({ sports, kinds, limit });
+
+    return NextResponse.json(
+      { signals, plan: userPlan, timestamp: Date.now() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error: any) {
+    console.error("[Steam API] Error:", error);
+    return NextResponse.json(
+      { error: "internal_error", message: error?.message || "" },
+      { status: 500, headers: { "Cache-Control": "no-store" } }
+    );
+  }
+}
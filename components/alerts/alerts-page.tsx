@@ -0,0 +1,573 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { BellRing, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppPageLayout } from "@/components/layout/app-page-layout";
+import { Switch } from "@/components/ui/switch";
+import { isWebPushSupported, useAlertRules } from "@/hooks/use-alert-rules";
+import { getAllActiveSportsbooks, getSportsbookById } from "@/lib/data/sportsbooks";
+import { SHARP_PRESETS } from "@/lib/ev/constants";
+import { DEFAULT_ALERT_COOLDOWN_MINUTES, type CreateAlertRuleInput } from "@/lib/alerts/schema";
+import type { AlertChannel, AlertRule, AlertRuleType, DeliveryStatus } from "@/lib/alerts/types";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  ev: "+EV",
+  arb: "Arbitrage",
+  line_move: "Line move",
+  sharp_consensus: "Sharp consensus",
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  email: "Email",
+  web_push: "Browser push",
+  discord: "Discord",
+  slack: "Slack",
+};
+
+const SPORT_OPTIONS = ["nba", "nfl", "nhl", "mlb", "ncaab", "ncaaf", "wnba"];
+
+const DELIVERY_STYLES: Record<DeliveryStatus, string> = {
+  sent: "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+  failed: "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  skipped: "bg-neutral-100 text-neutral-500 dark:bg-neutral-800 dark:text-neutral-400",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm text-neutral-900 dark:text-white outline-none focus:ring-2 focus:ring-emerald-500/20";
+
+const toList = (value: string): string[] | null => {
+  const items = value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+const formatScope = (rule: AlertRule): string => {
+  const { sports, markets, books } = rule.conditions;
+  return [
+    sports?.length ? sports.map((s) => s.toUpperCase()).join(", ") : "All sports",
+    markets?.length ? markets.join(", ") : null,
+    books?.length ? books.map((b) => getSportsbookById(b)?.name || b).join(", ") : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+const describeRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case "ev": {
+      const c = (rule as AlertRule<"ev">).conditions;
+      return `EV ≥ ${c.min_ev}% vs ${SHARP_PRESETS[c.sharp_preset]?.label ?? c.sharp_preset}${c.mode !== "pregame" ? ` (${c.mode})` : ""}`;
+    }
+    case "arb": {
+      const c = (rule as AlertRule<"arb">).conditions;
+      return `ROI ≥ ${c.min_roi}%${c.min_max_bet ? ` with max bet ≥ $${c.min_max_bet}` : ""}${c.include_live ? " incl. live" : ""}`;
+    }
+    case "line_move": {
+      const c = (rule as AlertRule<"line_move">).conditions;
+      return `Moves ≥ ${c.min_cents}¢ ${c.direction === "any" ? "" : `${c.direction} `}in ${c.window_minutes}m`;
+    }
+    case "sharp_consensus": {
+      const c = (rule as AlertRule<"sharp_consensus">).conditions;
+      return `${c.min_top_wallets}+ sharp wallets on one side in ${c.window_minutes}m${c.min_strength ? `, consensus ≥ ${c.min_strength}` : ""}${c.min_dollars ? `, ≥ $${c.min_dollars}` : ""}`;
+    }
+  }
+};
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function CreateRuleForm({ onDone }: { onDone: () => void }) {
+  const { createRule, isCreating } = useAlertRules();
+  const books = useMemo(() => getAllActiveSportsbooks(), []);
+  const presets = useMemo(
+    () => Object.values(SHARP_PRESETS).filter((preset) => preset.id !== "custom"),
+    []
+  );
+
+  const [type, setType] = useState<AlertRuleType>("ev");
+  const [name, setName] = useState("");
+  const [sport, setSport] = useState("");
+  const [book, setBook] = useState("");
+  const [markets, setMarkets] = useState("");
+  const [channels, setChannels] = useState<AlertChannel[]>(["email"]);
+  const [cooldown, setCooldown] = useState(String(DEFAULT_ALERT_COOLDOWN_MINUTES));
+
+  // +EV
+  const [preset, setPreset] = useState("pinnacle");
+  const [minEV, setMinEV] = useState("4");
+  const [evMode, setEVMode] = useState<"pregame" | "live" | "all">("pregame");
+  // Arbs
+  const [minROI, setMinROI] = useState("2");
+  const [minMaxBet, setMinMaxBet] = useState("");
+  const [includeLive, setIncludeLive] = useState(false);
+  // Line moves
+  const [minCents, setMinCents] = useState("20");
+  const [windowMinutes, setWindowMinutes] = useState("5");
+  const [direction, setDirection] = useState<"any" | "up" | "down">("any");
+  // Sharp consensus
+  const [minTopWallets, setMinTopWallets] = useState("3");
+  const [pileOnWindow, setPileOnWindow] = useState("30");
+  const [minStrength, setMinStrength] = useState("60");
+  const [minDollars, setMinDollars] = useState("");
+
+  const toggleChannel = (channel: AlertChannel) =>
+    setChannels((prev) => (prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const scope = {
+      sports: sport ? [sport] : null,
+      markets: toList(markets),
+      books: book && type !== "sharp_consensus" ? [book] : null,
+    };
+    const base = {
+      name: name.trim() || `${RULE_TYPE_LABELS[type]} alert`,
+      channels,
+      enabled: true,
+      cooldown_minutes: Number(cooldown) || DEFAULT_ALERT_COOLDOWN_MINUTES,
+    };
+
+    let rule: CreateAlertRuleInput;
+    if (type === "ev") {
+      rule = {
+        ...base,
+        type,
+        conditions: {
+          ...scope,
+          sharp_preset: preset,
+          devig_methods: ["power", "multiplicative"],
+          min_ev: Number(minEV),
+          min_odds: null,
+          max_odds: null,
+          mode: evMode,
+        },
+      };
+    } else if (type === "arb") {
+      rule = {
+        ...base,
+        type,
+        conditions: { ...scope, min_roi: Number(minROI), min_max_bet: minMaxBet ? Number(minMaxBet) : null, include_live: includeLive },
+      };
+    } else if (type === "line_move") {
+      rule = {
+        ...base,
+        type,
+        conditions: { ...scope, min_cents: Number(minCents), window_minutes: Number(windowMinutes), direction },
+      };
+    } else {
+      rule = {
+        ...base,
+        type,
+        conditions: {
+          ...scope,
+          min_top_wallets: Number(minTopWallets),
+          window_minutes: Number(pileOnWindow),
+          min_strength: Number(minStrength) || 0,
+          min_dollars: Number(minDollars) || 0,
+        },
+      };
+    }
+
+    try {
+      await createRule(rule);
+      toast.success("Alert rule created");
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create alert rule");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-neutral-200 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-900/50 p-4">
+      <div className="flex items-center gap-1 rounded-lg bg-neutral-100 dark:bg-neutral-800 p-0.5 w-fit">
+        {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setType(value)}
+            className={cn(
+              "px-3 py-1 rounded-md text-xs font-medium transition-colors",
+              type === value
+                ? "bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white shadow-sm"
+                : "text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+            )}
+          >
+            {RULE_TYPE_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-4">
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Name</span>
+          <input type="text" value={name} maxLength={80} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder={`${RULE_TYPE_LABELS[type]} alert`} />
+        </label>
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Sport</span>
+          <select value={sport} onChange={(e) => setSport(e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {SPORT_OPTIONS.map((s) => (
+              <option key={s} value={s}>{s.toUpperCase()}</option>
+            ))}
+          </select>
+        </label>
+        {type !== "sharp_consensus" && (
+          <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+            <span>Sportsbook</span>
+            <select value={book} onChange={(e) => setBook(e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {books.map((b) => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Markets</span>
+          <input
+            type="text"
+            value={markets}
+            onChange={(e) => setMarkets(e.target.value)}
+            className={inputClass}
+            placeholder={type === "sharp_consensus" ? "moneyline, spread, total" : "player_points, player_assists"}
+          />
+        </label>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-4">
+        {type === "ev" && (
+          <>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Sharp preset</span>
+              <select value={preset} onChange={(e) => setPreset(e.target.value)} className={inputClass}>
+                {presets.map((p) => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min EV (%)</span>
+              <input type="number" step="0.1" min="0" value={minEV} onChange={(e) => setMinEV(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Mode</span>
+              <select value={evMode} onChange={(e) => setEVMode(e.target.value as typeof evMode)} className={inputClass}>
+                <option value="pregame">Pregame</option>
+                <option value="live">Live</option>
+                <option value="all">All</option>
+              </select>
+            </label>
+          </>
+        )}
+        {type === "arb" && (
+          <>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min ROI (%)</span>
+              <input type="number" step="0.1" min="0" value={minROI} onChange={(e) => setMinROI(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min max bet ($)</span>
+              <input type="number" min="0" value={minMaxBet} onChange={(e) => setMinMaxBet(e.target.value)} className={inputClass} placeholder="Any" />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400 pb-2">
+              <Switch checked={includeLive} fn={setIncludeLive} />
+              <span>Include live (Elite)</span>
+            </label>
+          </>
+        )}
+        {type === "line_move" && (
+          <>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min move (cents)</span>
+              <input type="number" min="5" max="500" value={minCents} onChange={(e) => setMinCents(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Within (minutes)</span>
+              <input type="number" min="1" max="30" value={windowMinutes} onChange={(e) => setWindowMinutes(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Direction</span>
+              <select value={direction} onChange={(e) => setDirection(e.target.value as typeof direction)} className={inputClass}>
+                <option value="any">Either way</option>
+                <option value="up">Price up</option>
+                <option value="down">Price down</option>
+              </select>
+            </label>
+          </>
+        )}
+        {type === "sharp_consensus" && (
+          <>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min S/A-tier wallets</span>
+              <input type="number" min="2" max="10" value={minTopWallets} onChange={(e) => setMinTopWallets(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Within (minutes)</span>
+              <input type="number" min="5" max="240" value={pileOnWindow} onChange={(e) => setPileOnWindow(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min consensus (0-100)</span>
+              <input type="number" min="0" max="100" value={minStrength} onChange={(e) => setMinStrength(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+              <span>Min dollars ($)</span>
+              <input type="number" min="0" value={minDollars} onChange={(e) => setMinDollars(e.target.value)} className={inputClass} placeholder="Any" />
+            </label>
+          </>
+        )}
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Cooldown (minutes)</span>
+          <input type="number" min="5" max="1440" value={cooldown} onChange={(e) => setCooldown(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map((channel) => (
+            <button
+              key={channel}
+              type="button"
+              onClick={() => toggleChannel(channel)}
+              className={cn(
+                "px-2.5 py-1 rounded-full text-xs font-medium border transition-colors",
+                channels.includes(channel)
+                  ? "border-emerald-500 bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400"
+                  : "border-neutral-200 dark:border-neutral-700 text-neutral-500"
+              )}
+            >
+              {CHANNEL_LABELS[channel]}
+            </button>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={isCreating || channels.length === 0}
+          className="flex items-center justify-center gap-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition-colors disabled:opacity-60"
+        >
+          {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Create rule
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function DestinationsSection() {
+  const { destinations, saveDestinations, isSavingDestinations, enablePush, isEnablingPush } = useAlertRules();
+  const [discord, setDiscord] = useState("");
+  const [slack, setSlack] = useState("");
+
+  useEffect(() => {
+    if (!destinations) return;
+    setDiscord(destinations.destinations.discord_webhook_url ?? "");
+    setSlack(destinations.destinations.slack_webhook_url ?? "");
+  }, [destinations]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveDestinations({
+        discord_webhook_url: discord.trim() || null,
+        slack_webhook_url: slack.trim() || null,
+      });
+      toast.success("Destinations saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save destinations");
+    }
+  };
+
+  const handleEnablePush = async () => {
+    try {
+      await enablePush();
+      toast.success("Browser push enabled");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to enable push notifications");
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-white">Delivery</h2>
+        {isWebPushSupported() && (
+          <button
+            onClick={handleEnablePush}
+            disabled={isEnablingPush}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-neutral-100 dark:bg-neutral-800/60 text-neutral-600 dark:text-neutral-300 text-xs font-medium hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors disabled:opacity-60"
+          >
+            {isEnablingPush ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <BellRing className="h-3.5 w-3.5" />}
+            {destinations?.push_devices ? `Push on ${destinations.push_devices} device${destinations.push_devices === 1 ? "" : "s"} · add this one` : "Enable browser push"}
+          </button>
+        )}
+      </div>
+      <form onSubmit={handleSave} className="grid gap-3 md:grid-cols-4 items-end">
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Email</span>
+          <input type="email" value={destinations?.account_email ?? ""} readOnly disabled className={inputClass} title="Email alerts go to your account email" />
+        </label>
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Discord webhook</span>
+          <input type="url" value={discord} onChange={(e) => setDiscord(e.target.value)} className={inputClass} placeholder="https://discord.com/api/webhooks/…" />
+        </label>
+        <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+          <span>Slack webhook</span>
+          <input type="url" value={slack} onChange={(e) => setSlack(e.target.value)} className={inputClass} placeholder="https://hooks.slack.com/…" />
+        </label>
+        <button
+          type="submit"
+          disabled={isSavingDestinations}
+          className="flex items-center justify-center gap-2 rounded-lg bg-neutral-900 dark:bg-white px-4 py-2 text-sm font-semibold text-white dark:text-neutral-900 transition-colors disabled:opacity-60"
+        >
+          {isSavingDestinations && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function RuleRow({ rule }: { rule: AlertRule }) {
+  const { updateRule, deleteRule } = useAlertRules();
+
+  const handleToggle = async (enabled: boolean) => {
+    try {
+      await updateRule({ id: rule.id, enabled });
+    } catch {
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${rule.name}"?`)) return;
+    try {
+      await deleteRule(rule.id);
+      toast.success("Rule deleted");
+    } catch {
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 py-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="rounded bg-neutral-100 dark:bg-neutral-800 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-neutral-500 dark:text-neutral-400">
+            {RULE_TYPE_LABELS[rule.type]}
+          </span>
+          <span className="truncate text-sm font-medium text-neutral-900 dark:text-white">{rule.name}</span>
+        </div>
+        <div className="mt-0.5 text-xs text-neutral-500 dark:text-neutral-400">
+          {describeRule(rule)} · {formatScope(rule)}
+        </div>
+        <div className="mt-0.5 text-[11px] text-neutral-400 dark:text-neutral-500">
+          {rule.channels.map((c) => CHANNEL_LABELS[c]).join(", ")} · every {rule.cooldown_minutes}m max
+          {rule.last_triggered_at && ` · last fired ${formatTime(rule.last_triggered_at)}`}
+        </div>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <Switch checked={rule.enabled} fn={handleToggle} />
+        <button onClick={handleDelete} className="text-neutral-400 hover:text-red-500 transition-colors" aria-label="Delete rule">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export function AlertsPage() {
+  const { rules, history, isLoading, isHistoryLoading } = useAlertRules();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+
+  return (
+    <AppPageLayout
+      title="Alerts"
+      subtitle="Get notified when +EV plays, arbs or line moves match your rules."
+      headerActions={
+        <button
+          onClick={() => setShowCreateForm((v) => !v)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-semibold transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Rule
+        </button>
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {showCreateForm && <CreateRuleForm onDone={() => setShowCreateForm(false)} />}
+
+          <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4">
+            <h2 className="text-sm font-semibold text-neutral-900 dark:text-white">Rules</h2>
+            {rules.length > 0 ? (
+              <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {rules.map((rule) => (
+                  <RuleRow key={rule.id} rule={rule} />
+                ))}
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-neutral-400 dark:text-neutral-500">
+                No alert rules yet. Create one to get notified about new opportunities.
+              </p>
+            )}
+          </section>
+
+          <DestinationsSection />
+
+          <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4">
+            <h2 className="mb-2 text-sm font-semibold text-neutral-900 dark:text-white">History</h2>
+            {isHistoryLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />
+              </div>
+            ) : history.length > 0 ? (
+              <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {history.map((entry) => (
+                  <a key={entry.id} href={entry.url} className="flex items-start justify-between gap-3 py-2.5 hover:bg-neutral-50 dark:hover:bg-neutral-800/40 -mx-2 px-2 rounded-lg">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-medium text-neutral-900 dark:text-white">{entry.title}</div>
+                      <div className="truncate text-xs text-neutral-500 dark:text-neutral-400">{entry.body}</div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {(Object.entries(entry.deliveries) as [AlertChannel, DeliveryStatus][]).map(([channel, status]) => (
+                          <span key={channel} className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium", DELIVERY_STYLES[status])}>
+                            {CHANNEL_LABELS[channel]} · {status}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="shrink-0 text-right text-[11px] text-neutral-400 dark:text-neutral-500">
+                      <div>{formatTime(entry.created_at)}</div>
+                      <div>{entry.rule_name}</div>
+                    </div>
+                  </a>
+                ))}
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-neutral-400 dark:text-neutral-500">No alerts sent yet.</p>
+            )}
+          </section>
+        </div>
+      )}
+    </AppPageLayout>
+  );
+}
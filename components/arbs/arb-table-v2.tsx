@@ -12,6 +12,13 @@ import { SportIcon } from "@/components/icons/sport-icons";
 import { Tooltip } from "@/components/tooltip";
 import { motion, AnimatePresence } from "motion/react";
 import { useStateLink } from "@/hooks/use-state-link";
+import {
+  allocateArbStakes,
+  evaluateArbStakes,
+  getArbStakeLegs,
+  getHedgeStake,
+  type StakeLeg,
+} from "@/lib/arb-stakes";
 
 const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
 const norm = (s?: string) => (s || "").toLowerCase();
@@ -327,34 +334,37 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
   };
 
   const getBetPlan = (r: ArbRow, rowId: string) => {
-    const overOdds = Number(r.o?.od || 0);
-    const underOdds = Number(r.u?.od || 0);
+    const legs = getArbStakeLegs(r);
     const custom = customWagers[rowId];
-    let overStake: number, underStake: number;
-
-    if (custom && (custom.over || custom.under)) {
-      overStake = Math.max(0, parseFloat(custom.over || '0'));
-      underStake = Math.max(0, parseFloat(custom.under || '0'));
-    } else {
-      const total = totalBetAmount;
-      const overDec = toDecimal(overOdds);
-      const underDec = toDecimal(underOdds);
-      overStake = roundStake((total * underDec) / (overDec + underDec), roundTo);
-      underStake = roundStake(total - overStake, roundTo);
-    }
 
-    const total = overStake + underStake;
-    const overPayout = calculatePayout(overOdds, overStake);
-    const underPayout = calculatePayout(underOdds, underStake);
-    const profitIfOver = overPayout - total;
-    const profitIfUnder = underPayout - total;
-    const profitMin = Math.min(profitIfOver, profitIfUnder);
-    const profitMax = Math.max(profitIfOver, profitIfUnder);
+    // Custom stakes are evaluated as typed; otherwise split the bankroll
+    // across legs within each book's max and round to the table increment
+    const stakePlan = custom && (custom.over || custom.under)
+      ? evaluateArbStakes(legs, [
+          Math.max(0, parseFloat(custom.over || '0')),
+          Math.max(0, parseFloat(custom.under || '0')),
+        ])
+      : allocateArbStakes(legs, { type: "total", amount: totalBetAmount }, roundTo);
+
+    const [overStake, underStake] = stakePlan.stakes;
+    const profitMin = stakePlan.worstCaseProfit;
+    const profitMax = stakePlan.bestCaseProfit;
     // When not rounded, both sides are equal — show single value
     const profit = profitMin;
     const hasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
 
-    return { overStake, underStake, total, profit, profitMin, profitMax, hasRange };
+    return {
+      overStake,
+      underStake,
+      total: stakePlan.totalStake,
+      profit,
+      profitMin,
+      profitMax,
+      hasRange,
+      cappedByLimit: stakePlan.cappedByLimit,
+      limitingLeg: stakePlan.limitingLeg,
+      legsOverLimit: stakePlan.legsOverLimit,
+    };
   };
 
   // Arb Calculator Modal - allows editing odds and amounts
@@ -384,6 +394,10 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
     const [underStake, setUnderStake] = React.useState(formatStake(defaultUnderStake, roundTo));
     const [loadingOver, setLoadingOver] = React.useState(false);
     const [loadingUnder, setLoadingUnder] = React.useState(false);
+    const [overBoost, setOverBoost] = React.useState("");
+    const [underBoost, setUnderBoost] = React.useState("");
+    const [overBonus, setOverBonus] = React.useState(false);
+    const [underBonus, setUnderBonus] = React.useState(false);
     
     // Reset state when modal opens
     React.useEffect(() => {
@@ -394,6 +408,10 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
         setUnderStake(defaultUnderStake.toFixed(2));
         setLoadingOver(false);
         setLoadingUnder(false);
+        setOverBoost("");
+        setUnderBoost("");
+        setOverBonus(false);
+        setUnderBonus(false);
       }
     }, [isOpen, defaultOverOdds, defaultUnderOdds, defaultOverStake, defaultUnderStake]);
     
@@ -421,29 +439,35 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
     const underOddsNum = parseOdds(underOdds);
     const overStakeNum = parseFloat(overStake) || 0;
     const underStakeNum = parseFloat(underStake) || 0;
-    const totalStake = overStakeNum + underStakeNum;
-    
-    const overPayout = overOddsNum !== 0 ? calculatePayout(overOddsNum, overStakeNum) : 0;
-    const underPayout = underOddsNum !== 0 ? calculatePayout(underOddsNum, underStakeNum) : 0;
-    const profitIfOver = overPayout - totalStake;
-    const profitIfUnder = underPayout - totalStake;
-    const profitMin = Math.min(profitIfOver, profitIfUnder);
-    const profitMax = Math.max(profitIfOver, profitIfUnder);
+
+    const buildLegs = (oOdds: number, uOdds: number): StakeLeg[] => [
+      { odds: oOdds, max: row.o?.max ?? null, boostPercent: parseFloat(overBoost) || 0, bonusBet: overBonus },
+      { odds: uOdds, max: row.u?.max ?? null, boostPercent: parseFloat(underBoost) || 0, bonusBet: underBonus },
+    ];
+    const legs = buildLegs(overOddsNum, underOddsNum);
+    const stakePlan = evaluateArbStakes(legs, [overStakeNum, underStakeNum]);
+
+    // Bonus-bet stakes aren't cash at risk, so totals and ROI use cashStake
+    const totalStake = stakePlan.cashStake;
+    const profitMin = stakePlan.worstCaseProfit;
+    const profitMax = stakePlan.bestCaseProfit;
     const profit = profitMin;
     const modalHasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
-    const guaranteedPayout = Math.min(overPayout, underPayout);
-    const roiPercent = totalStake > 0 ? (profit / totalStake) * 100 : 0;
-    
+    const guaranteedPayout = Math.min(...stakePlan.payouts);
+    const roiPercent = stakePlan.roi;
+
     // Recalculate opposite stake when one side changes
     const recalcFromOver = (newOverStake: number, oOdds: number, uOdds: number) => {
       if (oOdds === 0 || uOdds === 0) return;
-      const opposite = roundStake(calculateOptimalWager(newOverStake, oOdds, uOdds), roundTo);
+      const [overLeg, underLeg] = buildLegs(oOdds, uOdds);
+      const opposite = roundStake(getHedgeStake(overLeg, newOverStake, underLeg), roundTo);
       setUnderStake(formatStake(opposite, roundTo));
     };
 
     const recalcFromUnder = (newUnderStake: number, oOdds: number, uOdds: number) => {
       if (oOdds === 0 || uOdds === 0) return;
-      const opposite = roundStake(calculateOptimalWager(newUnderStake, uOdds, oOdds), roundTo);
+      const [overLeg, underLeg] = buildLegs(oOdds, uOdds);
+      const opposite = roundStake(getHedgeStake(underLeg, newUnderStake, overLeg), roundTo);
       setOverStake(formatStake(opposite, roundTo));
     };
 
@@ -452,8 +476,7 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
       setOverOdds(val);
       const newOverOdds = parseOdds(val);
       if (newOverOdds !== 0 && underOddsNum !== 0 && overStakeNum > 0) {
-        const opposite = roundStake(calculateOptimalWager(overStakeNum, newOverOdds, underOddsNum), roundTo);
-        setUnderStake(formatStake(opposite, roundTo));
+        recalcFromOver(overStakeNum, newOverOdds, underOddsNum);
       }
     };
 
@@ -461,11 +484,32 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
       setUnderOdds(val);
       const newUnderOdds = parseOdds(val);
       if (overOddsNum !== 0 && newUnderOdds !== 0 && overStakeNum > 0) {
-        const opposite = roundStake(calculateOptimalWager(overStakeNum, overOddsNum, newUnderOdds), roundTo);
-        setUnderStake(formatStake(opposite, roundTo));
+        recalcFromOver(overStakeNum, overOddsNum, newUnderOdds);
       }
     };
-    
+
+    // Boost / bonus changes only affect the hedge, so keep the over stake fixed
+    const updateLegOption = (
+      side: 'over' | 'under',
+      changes: { boost?: string; bonus?: boolean }
+    ) => {
+      const next = {
+        overBoost: side === 'over' && changes.boost !== undefined ? changes.boost : overBoost,
+        underBoost: side === 'under' && changes.boost !== undefined ? changes.boost : underBoost,
+        overBonus: side === 'over' && changes.bonus !== undefined ? changes.bonus : overBonus,
+        underBonus: side === 'under' && changes.bonus !== undefined ? changes.bonus : underBonus,
+      };
+      setOverBoost(next.overBoost);
+      setUnderBoost(next.underBoost);
+      setOverBonus(next.overBonus);
+      setUnderBonus(next.underBonus);
+      if (overOddsNum === 0 || underOddsNum === 0 || overStakeNum <= 0) return;
+      const overLeg: StakeLeg = { odds: overOddsNum, boostPercent: parseFloat(next.overBoost) || 0, bonusBet: next.overBonus };
+      const underLeg: StakeLeg = { odds: underOddsNum, boostPercent: parseFloat(next.underBoost) || 0, bonusBet: next.underBonus };
+      const opposite = roundStake(getHedgeStake(overLeg, overStakeNum, underLeg), roundTo);
+      setUnderStake(formatStake(opposite, roundTo));
+    };
+
     const handleApply = () => {
       onApply(overStakeNum, underStakeNum);
       onClose();
@@ -489,13 +533,9 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
     const presets = [100, 200, 300, 500];
     const applyPreset = (total: number) => {
       if (overOddsNum === 0 || underOddsNum === 0) return;
-      const overDec = toDecimal(overOddsNum);
-      const underDec = toDecimal(underOddsNum);
-      const rawOver = (total * underDec) / (overDec + underDec);
-      const newOverStake = roundStake(rawOver, roundTo);
-      const newUnderStake = roundStake(total - newOverStake, roundTo);
-      setOverStake(formatStake(newOverStake, roundTo));
-      setUnderStake(formatStake(newUnderStake, roundTo));
+      const plan = allocateArbStakes(legs, { type: "total", amount: total }, roundTo);
+      setOverStake(formatStake(plan.stakes[0], roundTo));
+      setUnderStake(formatStake(plan.stakes[1], roundTo));
     };
     
     // Don't render if not open or if we're on the server
@@ -642,6 +682,45 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
                         </div>
                       </div>
 
+                      {/* Boost / Bonus Bet */}
+                      <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="Boost"
+                            value={overBoost}
+                            onChange={(e) => updateLegOption('over', { boost: e.target.value })}
+                            onClick={(e) => e.stopPropagation()}
+                            className="w-full bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg pl-2.5 pr-6 py-1.5 text-xs font-medium tabular-nums text-neutral-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-500"
+                          />
+                          <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-neutral-400 dark:text-neutral-500 text-xs">%</span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateLegOption('over', { bonus: !overBonus });
+                          }}
+                          className={cn(
+                            "px-2.5 py-1.5 rounded-lg text-xs font-semibold border transition-colors",
+                            overBonus
+                              ? "bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300"
+                              : "bg-white dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700 text-neutral-500 dark:text-neutral-400"
+                          )}
+                        >
+                          Bonus
+                        </button>
+                      </div>
+                      {row.o?.max != null && (
+                        <div className={cn(
+                          "text-[10px] font-medium",
+                          stakePlan.legsOverLimit.includes(0) ? "text-amber-600 dark:text-amber-400" : "text-neutral-400 dark:text-neutral-500"
+                        )}>
+                          Max {currency(row.o.max)}
+                        </div>
+                      )}
+
                       {/* Bet Button — draggable link */}
                       <a
                         href={getBookUrl(row.o?.bk, row.o?.u, row.o?.m) || '#'}
@@ -721,6 +800,45 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
                         </div>
                       </div>
 
+                      {/* Boost / Bonus Bet */}
+                      <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="Boost"
+                            value={underBoost}
+                            onChange={(e) => updateLegOption('under', { boost: e.target.value })}
+                            onClick={(e) => e.stopPropagation()}
+                            className="w-full bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg pl-2.5 pr-6 py-1.5 text-xs font-medium tabular-nums text-neutral-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-rose-500/30 focus:border-rose-500"
+                          />
+                          <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-neutral-400 dark:text-neutral-500 text-xs">%</span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateLegOption('under', { bonus: !underBonus });
+                          }}
+                          className={cn(
+                            "px-2.5 py-1.5 rounded-lg text-xs font-semibold border transition-colors",
+                            underBonus
+                              ? "bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300"
+                              : "bg-white dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700 text-neutral-500 dark:text-neutral-400"
+                          )}
+                        >
+                          Bonus
+                        </button>
+                      </div>
+                      {row.u?.max != null && (
+                        <div className={cn(
+                          "text-[10px] font-medium",
+                          stakePlan.legsOverLimit.includes(1) ? "text-amber-600 dark:text-amber-400" : "text-neutral-400 dark:text-neutral-500"
+                        )}>
+                          Max {currency(row.u.max)}
+                        </div>
+                      )}
+
                       {/* Bet Button — draggable link */}
                       <a
                         href={getBookUrl(row.u?.bk, row.u?.u, row.u?.m) || '#'}
@@ -973,6 +1091,16 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
             <span className="text-xs font-medium text-neutral-600 dark:text-neutral-400">Total</span>
             <span className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">{currency((parseFloat(overLocal || '0') || 0) + (parseFloat(underLocal || '0') || 0))}</span>
           </div>
+          {plan.legsOverLimit.length > 0 ? (
+            <div className="mt-1.5 flex items-center gap-1 text-[10px] font-medium text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              <span>Over {bookName(plan.legsOverLimit[0] === 0 ? r.o?.bk : r.u?.bk)} max</span>
+            </div>
+          ) : plan.cappedByLimit && plan.limitingLeg != null ? (
+            <div className="mt-1.5 text-[10px] font-medium text-neutral-500 dark:text-neutral-400">
+              Capped at {bookName(plan.limitingLeg === 0 ? r.o?.bk : r.u?.bk)} max
+            </div>
+          ) : null}
         </div>
         
         {/* Calculator Button */}
@@ -1323,17 +1451,9 @@ export function ArbTableV2({ rows, ids, changes, added, totalBetAmount = 200, ro
         const under = custom?.under != null && custom.under !== '' ? Math.max(0, parseFloat(custom.under)) : undefined;
         let profitMin: number, profitMax: number, hasRange = false;
         if (over !== undefined || under !== undefined) {
-          const overOdds = Number(r.o?.od || 0);
-          const underOdds = Number(r.u?.od || 0);
-          const overStake = over ?? 0;
-          const underStake = under ?? 0;
-          const overPayout = calculatePayout(overOdds, overStake);
-          const underPayout = calculatePayout(underOdds, underStake);
-          const total = overStake + underStake;
-          const pOver = overPayout - total;
-          const pUnder = underPayout - total;
-          profitMin = Math.min(pOver, pUnder);
-          profitMax = Math.max(pOver, pUnder);
+          const stakePlan = evaluateArbStakes(getArbStakeLegs(r), [over ?? 0, under ?? 0]);
+          profitMin = stakePlan.worstCaseProfit;
+          profitMax = stakePlan.bestCaseProfit;
           hasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
         } else {
           const plan = getBetPlan(r, id);
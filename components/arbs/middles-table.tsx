@@ -0,0 +1,276 @@
+"use client";
+
+import React from "react";
+import { ExternalLink, Loader2, Target } from "lucide-react";
+import { sportsbooks } from "@/lib/data/sportsbooks";
+import { cn } from "@/lib/utils";
+import { SportIcon } from "@/components/icons/sport-icons";
+import { Tooltip } from "@/components/tooltip";
+import { useStateLink } from "@/hooks/use-state-link";
+import { getArbMarketLabel } from "@/lib/arb-filters";
+import { allocateArbStakes } from "@/lib/arb-stakes";
+import { MIDDLE_KIND_LABELS } from "@/lib/middles/filters";
+import type { MiddleKind, MiddleLeg, MiddlePrefs, MiddleRow } from "@/lib/middles/types";
+
+const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
+const norm = (s?: string) => (s || "").toLowerCase();
+
+export type MiddleThresholds = Pick<MiddlePrefs, "kinds" | "minEv" | "maxHold" | "minGap">;
+
+interface MiddlesTableProps {
+  rows: MiddleRow[];
+  thresholds: MiddleThresholds;
+  onThresholdsChange: (next: MiddleThresholds) => void;
+  totalBetAmount?: number;
+  roundTo?: number;
+  loading?: boolean;
+  error?: Error | null;
+}
+
+const currency = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(n);
+const formatOdds = (od: number) => (od > 0 ? `+${od}` : String(od));
+const pct = (n: number, digits = 1) => `${(n * 100).toFixed(digits)}%`;
+
+const formatTime = (dt?: string) => {
+  const d = dt ? new Date(dt) : null;
+  if (!d || Number.isNaN(d.getTime())) return "TBD";
+  return d.toLocaleString("en-US", { weekday: "short", hour: "numeric", minute: "2-digit" });
+};
+
+function NumberField({
+  label,
+  value,
+  step,
+  suffix,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step: number;
+  suffix?: string;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs font-medium text-neutral-600 dark:text-neutral-400">
+      {label}
+      <div className="relative">
+        <input
+          type="number"
+          step={step}
+          value={value}
+          onChange={(e) => {
+            const n = parseFloat(e.target.value);
+            if (Number.isFinite(n)) onChange(n);
+          }}
+          className="h-8 w-20 rounded-lg border border-neutral-200 bg-white px-2 pr-6 text-right text-xs tabular-nums text-neutral-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/30 dark:border-neutral-700 dark:bg-neutral-900 dark:text-white"
+        />
+        {suffix && (
+          <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-neutral-400">{suffix}</span>
+        )}
+      </div>
+    </label>
+  );
+}
+
+export function MiddlesTable({
+  rows,
+  thresholds,
+  onThresholdsChange,
+  totalBetAmount = 200,
+  roundTo = 0,
+  loading,
+  error,
+}: MiddlesTableProps) {
+  const applyState = useStateLink();
+
+  const openLeg = (leg: MiddleLeg) => {
+    const link = leg.u ? applyState(leg.u) || leg.u : leg.m || undefined;
+    if (link) window.open(link, "_blank", "noopener,noreferrer");
+  };
+
+  const toggleKind = (kind: MiddleKind) => {
+    const kinds = thresholds.kinds.includes(kind)
+      ? thresholds.kinds.filter((k) => k !== kind)
+      : [...thresholds.kinds, kind];
+    onThresholdsChange({ ...thresholds, kinds });
+  };
+
+  const renderLeg = (leg: MiddleLeg, tone: "over" | "under") => {
+    const sb = SB_MAP.get(norm(leg.bk));
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          openLeg(leg);
+        }}
+        className="group flex w-full items-center gap-2 rounded-lg border border-neutral-200/60 bg-neutral-50/50 px-2.5 py-2 text-left transition-colors hover:bg-neutral-100 dark:border-neutral-700/60 dark:bg-neutral-800/50 dark:hover:bg-neutral-700/50"
+      >
+        {sb?.logo ? (
+          <img src={sb.logo} alt={leg.bk} className="h-5 w-5 shrink-0 rounded object-contain" />
+        ) : (
+          <div className="h-5 w-5 shrink-0 rounded bg-neutral-200 dark:bg-neutral-700" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-xs text-neutral-600 dark:text-neutral-400">{leg.name || `${tone === "over" ? "Over" : "Under"} ${leg.ln}`}</div>
+          <div className="flex items-baseline gap-1">
+            <span className={cn(
+              "text-sm font-bold tabular-nums",
+              tone === "over" ? "text-emerald-600 dark:text-emerald-400" : "text-rose-600 dark:text-rose-400"
+            )}>
+              {formatOdds(leg.od)}
+            </span>
+            {leg.max != null && (
+              <span className="text-[10px] text-neutral-400 dark:text-neutral-500">(${Math.round(leg.max)})</span>
+            )}
+          </div>
+        </div>
+        <ExternalLink className="h-3 w-3 shrink-0 text-neutral-400 opacity-0 transition-opacity group-hover:opacity-100" />
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Middle thresholds */}
+      <div className="flex flex-wrap items-center gap-4 rounded-xl border border-neutral-200 bg-white px-4 py-3 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="flex items-center gap-1.5">
+          {(Object.keys(MIDDLE_KIND_LABELS) as MiddleKind[]).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => toggleKind(kind)}
+              className={cn(
+                "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors",
+                thresholds.kinds.includes(kind)
+                  ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:hover:bg-neutral-700"
+              )}
+            >
+              {MIDDLE_KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <NumberField label="Min EV" value={thresholds.minEv} step={0.5} suffix="%" onChange={(minEv) => onThresholdsChange({ ...thresholds, minEv })} />
+        <NumberField label="Max hold" value={thresholds.maxHold} step={0.5} suffix="%" onChange={(maxHold) => onThresholdsChange({ ...thresholds, maxHold })} />
+        <NumberField label="Min gap" value={thresholds.minGap} step={0.5} onChange={(minGap) => onThresholdsChange({ ...thresholds, minGap })} />
+        <span className="ml-auto text-xs text-neutral-500 dark:text-neutral-400">
+          Stakes split for equal payout on {currency(totalBetAmount)}
+        </span>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16 text-neutral-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-center text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/20 dark:text-rose-300">
+          {error.message}
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="rounded-xl border border-neutral-200 bg-white p-12 text-center dark:border-neutral-800 dark:bg-neutral-900">
+          <Target className="mx-auto mb-3 h-8 w-8 text-neutral-300 dark:text-neutral-600" />
+          <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">No middles or low-hold pairs match your filters</p>
+          <p className="mt-1 text-xs text-neutral-500">Try widening the EV or hold thresholds, or adding books.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-neutral-900">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-[11px] font-semibold uppercase tracking-wide text-neutral-500 dark:border-neutral-800 dark:text-neutral-400">
+                <th className="px-4 py-3">EV</th>
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">Market</th>
+                <th className="px-4 py-3">Over / Home</th>
+                <th className="px-4 py-3">Under / Away</th>
+                <th className="px-4 py-3 text-center">Gap · Hold</th>
+                <th className="px-4 py-3 text-center">Hit %</th>
+                <th className="px-4 py-3 text-right">Stakes</th>
+                <th className="px-4 py-3 text-right">Miss / Hit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const plan = allocateArbStakes(
+                  [{ odds: row.o.od, max: row.o.max }, { odds: row.u.od, max: row.u.max }],
+                  { type: "total", amount: totalBetAmount },
+                  roundTo
+                );
+                const hitProfit = plan.payouts[0] + plan.payouts[1] - plan.totalStake;
+                const evPct = row.ev_bps / 100;
+
+                return (
+                  <tr key={row.id} className="border-b border-neutral-100 last:border-0 dark:border-neutral-800/60">
+                    <td className="px-4 py-3 align-middle">
+                      <div className={cn(
+                        "text-base font-bold tabular-nums",
+                        evPct > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-neutral-500 dark:text-neutral-400"
+                      )}>
+                        {evPct > 0 ? "+" : ""}{evPct.toFixed(2)}%
+                      </div>
+                      <span className={cn(
+                        "mt-1 inline-flex rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase",
+                        row.kind === "middle"
+                          ? "bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300"
+                          : "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+                      )}>
+                        {MIDDLE_KIND_LABELS[row.kind]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      <div className="flex items-center gap-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+                        <SportIcon sport={row.lg.sport.toLowerCase()} className="h-3 w-3" />
+                        <span>{row.lg.name}</span>
+                        <span>·</span>
+                        <span>{formatTime(row.ev.dt)}</span>
+                      </div>
+                      <div className="mt-0.5 font-medium text-neutral-900 dark:text-white">
+                        {row.ev.away.abbr || row.ev.away.name} @ {row.ev.home.abbr || row.ev.home.name}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      <div className="font-medium text-neutral-900 dark:text-white">{row.player || getArbMarketLabel(row.mkt)}</div>
+                      {row.player && <div className="text-xs text-neutral-500 dark:text-neutral-400">{getArbMarketLabel(row.mkt)}</div>}
+                    </td>
+                    <td className="min-w-[180px] px-4 py-3 align-middle">{renderLeg(row.o, "over")}</td>
+                    <td className="min-w-[180px] px-4 py-3 align-middle">{renderLeg(row.u, "under")}</td>
+                    <td className="px-4 py-3 text-center align-middle tabular-nums">
+                      <div className="font-semibold text-neutral-900 dark:text-white">{row.gap > 0 ? row.gap : "—"}</div>
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400">{(row.hold_bps / 100).toFixed(2)}% hold</div>
+                    </td>
+                    <td className="px-4 py-3 text-center align-middle tabular-nums">
+                      <Tooltip
+                        content={`Fair ${row.fair.mean.toFixed(1)} ± ${row.fair.sd.toFixed(1)} (${row.fair.basis === "fit" ? `fit from ${row.fair.lines_used} lines` : "default spread"})${row.push_prob > 0 ? ` · ${pct(row.push_prob)} push` : ""}`}
+                      >
+                        <span className="cursor-help font-semibold text-neutral-900 underline decoration-dotted underline-offset-2 dark:text-white">
+                          {row.kind === "middle" ? pct(row.middle_prob) : "—"}
+                        </span>
+                      </Tooltip>
+                    </td>
+                    <td className="px-4 py-3 text-right align-middle tabular-nums text-xs text-neutral-700 dark:text-neutral-300">
+                      <div>{currency(plan.stakes[0])}</div>
+                      <div>{currency(plan.stakes[1])}</div>
+                      {plan.cappedByLimit && (
+                        <div className="text-[10px] font-medium text-amber-600 dark:text-amber-400">Capped at max</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right align-middle tabular-nums">
+                      <div className={cn(
+                        "text-xs font-medium",
+                        plan.worstCaseProfit >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-rose-600 dark:text-rose-400"
+                      )}>
+                        {currency(plan.worstCaseProfit)}
+                      </div>
+                      {row.kind === "middle" && (
+                        <div className="text-sm font-bold text-emerald-600 dark:text-emerald-400">+{currency(hitProfit)}</div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
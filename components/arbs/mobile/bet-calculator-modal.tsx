@@ -7,6 +7,7 @@ import { sportsbooks, getSportsbookById } from "@/lib/data/sportsbooks";
 import type { ArbRow } from "@/lib/arb-schema";
 import { SportIcon } from "@/components/icons/sport-icons";
 import { useStateLink } from "@/hooks/use-state-link";
+import { allocateArbStakes, evaluateArbStakes, getArbStakeLegs, getHedgeStake } from "@/lib/arb-stakes";
 
 // Build sportsbook map for quick lookup
 const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
@@ -55,29 +56,6 @@ const getBookUrl = (
 
 const formatOdds = (od: number) => (od > 0 ? `+${od}` : String(od));
 
-// Calculate payout from American odds
-const calculatePayout = (odds: number, stake: number): number => {
-  if (!stake || !odds) return 0;
-  if (odds > 0) return stake * (1 + odds / 100);
-  return stake * (1 + 100 / Math.abs(odds));
-};
-
-// Calculate equal-profit bet sizes
-const calculateBetSizes = (overOdds: number, underOdds: number, total: number) => {
-  const overDec = overOdds > 0 ? 1 + overOdds / 100 : 1 + 100 / Math.abs(overOdds);
-  const underDec = underOdds > 0 ? 1 + underOdds / 100 : 1 + 100 / Math.abs(underOdds);
-  const overStake = (total * underDec) / (overDec + underDec);
-  const underStake = total - overStake;
-  return { over: overStake, under: underStake };
-};
-
-// Calculate opposite stake given one stake
-const calculateOppositeStake = (knownStake: number, knownOdds: number, oppositeOdds: number): number => {
-  const knownDec = knownOdds > 0 ? 1 + knownOdds / 100 : 1 + 100 / Math.abs(knownOdds);
-  const oppDec = oppositeOdds > 0 ? 1 + oppositeOdds / 100 : 1 + 100 / Math.abs(oppositeOdds);
-  return (knownStake * knownDec) / oppDec;
-};
-
 const isSpread = (mkt?: string) => /spread|handicap|run[_ ]?line|puck[_ ]?line|goal[_ ]?line/i.test(String(mkt || ''));
 const isMoneyline = (mkt?: string) => /moneyline|\bml\b/i.test(String(mkt || ''));
 
@@ -144,10 +122,14 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
   const underOdds = Number(row.u?.od || 0);
   const roiPct = ((row.roi_bps ?? 0) / 100);
   
-  const defaultSizes = useMemo(() => calculateBetSizes(overOdds, underOdds, defaultTotal), [overOdds, underOdds, defaultTotal]);
+  const legs = useMemo(() => getArbStakeLegs(row), [row]);
+  const defaultPlan = useMemo(
+    () => allocateArbStakes(legs, { type: "total", amount: defaultTotal }, roundTo),
+    [legs, defaultTotal, roundTo]
+  );
   
-  const [overAmount, setOverAmount] = useState(formatStake(roundStake(defaultSizes.over, roundTo), roundTo));
-  const [underAmount, setUnderAmount] = useState(formatStake(roundStake(defaultSizes.under, roundTo), roundTo));
+  const [overAmount, setOverAmount] = useState(formatStake(defaultPlan.stakes[0], roundTo));
+  const [underAmount, setUnderAmount] = useState(formatStake(defaultPlan.stakes[1], roundTo));
   
   // Loading states for bet buttons
   const [loadingOver, setLoadingOver] = useState(false);
@@ -156,31 +138,23 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
   // Reset amounts when modal opens or row changes
   useEffect(() => {
     if (isOpen && row) {
-      const sizes = calculateBetSizes(
-        Number(row.o?.od || 0),
-        Number(row.u?.od || 0),
-        defaultTotal
-      );
-      setOverAmount(formatStake(roundStake(sizes.over, roundTo), roundTo));
-      setUnderAmount(formatStake(roundStake(sizes.under, roundTo), roundTo));
+      setOverAmount(formatStake(defaultPlan.stakes[0], roundTo));
+      setUnderAmount(formatStake(defaultPlan.stakes[1], roundTo));
       // Reset loading states
       setLoadingOver(false);
       setLoadingUnder(false);
     }
-  }, [isOpen, row, defaultTotal, roundTo]);
+  }, [isOpen, row, defaultPlan, roundTo]);
 
   // Calculate values
   const overStake = parseFloat(overAmount) || 0;
   const underStake = parseFloat(underAmount) || 0;
-  const totalStake = overStake + underStake;
-  const overPayout = calculatePayout(overOdds, overStake);
-  const underPayout = calculatePayout(underOdds, underStake);
-  const profitIfOver = overPayout - totalStake;
-  const profitIfUnder = underPayout - totalStake;
-  const profitMin = Math.min(profitIfOver, profitIfUnder);
-  const profitMax = Math.max(profitIfOver, profitIfUnder);
+  const stakePlan = evaluateArbStakes(legs, [overStake, underStake]);
+  const totalStake = stakePlan.totalStake;
+  const profitMin = stakePlan.worstCaseProfit;
+  const profitMax = stakePlan.bestCaseProfit;
   const profit = profitMin;
-  const guaranteedPayout = Math.min(overPayout, underPayout);
+  const guaranteedPayout = Math.min(...stakePlan.payouts);
   const calcHasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
 
   // Handle over amount change
@@ -201,7 +175,7 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
   const handleOverBlur = () => {
     const stake = parseFloat(overAmount);
     if (stake > 0) {
-      const opposite = roundStake(calculateOppositeStake(stake, overOdds, underOdds), roundTo);
+      const opposite = roundStake(getHedgeStake(legs[0], stake, legs[1]), roundTo);
       setUnderAmount(formatStake(opposite, roundTo));
     }
   };
@@ -209,7 +183,7 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
   const handleUnderBlur = () => {
     const stake = parseFloat(underAmount);
     if (stake > 0) {
-      const opposite = roundStake(calculateOppositeStake(stake, underOdds, overOdds), roundTo);
+      const opposite = roundStake(getHedgeStake(legs[1], stake, legs[0]), roundTo);
       setOverAmount(formatStake(opposite, roundTo));
     }
   };
@@ -217,11 +191,9 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
   // Quick presets
   const presets = [50, 100, 200, 500];
   const applyPreset = (total: number) => {
-    const sizes = calculateBetSizes(overOdds, underOdds, total);
-    const o = roundStake(sizes.over, roundTo);
-    const u = roundStake(sizes.under, roundTo);
-    setOverAmount(formatStake(o, roundTo));
-    setUnderAmount(formatStake(u, roundTo));
+    const plan = allocateArbStakes(legs, { type: "total", amount: total }, roundTo);
+    setOverAmount(formatStake(plan.stakes[0], roundTo));
+    setUnderAmount(formatStake(plan.stakes[1], roundTo));
   };
 
   // Open bet with loading state
@@ -562,6 +534,15 @@ export function BetCalculatorModal({ row, currentRow, isOpen, onClose, defaultTo
               </div>
             </div>
           </div>
+          {stakePlan.legsOverLimit.length > 0 && (
+            <div className="mt-2 flex items-center justify-center gap-1 text-[10px] font-medium text-amber-600 dark:text-amber-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>
+                Over {getSportsbookById((stakePlan.legsOverLimit[0] === 0 ? row.o?.bk : row.u?.bk) || '')?.name || 'book'} max
+                ({`$${Math.round((stakePlan.legsOverLimit[0] === 0 ? row.o?.max : row.u?.max) ?? 0)}`})
+              </span>
+            </div>
+          )}
         </div>
 
       </div>
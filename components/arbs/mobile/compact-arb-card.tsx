@@ -7,6 +7,7 @@ import { sportsbooks, getSportsbookById } from "@/lib/data/sportsbooks";
 import type { ArbRow } from "@/lib/arb-schema";
 import { SportIcon } from "@/components/icons/sport-icons";
 import { useStateLink } from "@/hooks/use-state-link";
+import { allocateArbStakes, getArbStakeLegs } from "@/lib/arb-stakes";
 
 // Build sportsbook map for quick lookup (using legacy `logo` field)
 const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
@@ -46,28 +47,6 @@ const humanizeMarket = (mkt?: string) => {
   return titleCase(s);
 };
 
-// Calculate equal-profit bet sizes
-const calculateBetSizes = (overOdds: number, underOdds: number, total: number) => {
-  const overDec = overOdds > 0 ? 1 + overOdds / 100 : 1 + 100 / Math.abs(overOdds);
-  const underDec = underOdds > 0 ? 1 + underOdds / 100 : 1 + 100 / Math.abs(underOdds);
-  const overStake = (total * underDec) / (overDec + underDec);
-  const underStake = total - overStake;
-  return { over: overStake, under: underStake };
-};
-
-// Calculate payout from American odds
-const calculatePayout = (odds: number, stake: number): number => {
-  if (!stake || !odds) return 0;
-  if (odds > 0) return stake * (1 + odds / 100);
-  return stake * (1 + 100 / Math.abs(odds));
-};
-
-/** Round a number to the nearest multiple of `step`. 0 = no rounding. */
-function roundStake(n: number, step: number): number {
-  if (step <= 0) return Math.round(n * 100) / 100;
-  return Math.round(n / step) * step;
-}
-
 interface CompactArbCardProps {
   row: ArbRow;
   totalBetAmount: number;
@@ -85,20 +64,15 @@ export function CompactArbCard({ row, totalBetAmount, roundTo = 0, isNew, hasCha
   const overOdds = Number(row.o?.od || 0);
   const underOdds = Number(row.u?.od || 0);
 
-  const stakes = useMemo(() => {
-    const raw = calculateBetSizes(overOdds, underOdds, totalBetAmount);
-    return { over: roundStake(raw.over, roundTo), under: roundStake(raw.under, roundTo) };
-  }, [overOdds, underOdds, totalBetAmount, roundTo]);
-  const { profitMin, profitMax, hasRange } = useMemo(() => {
-    const overPayout = calculatePayout(overOdds, stakes.over);
-    const underPayout = calculatePayout(underOdds, stakes.under);
-    const total = stakes.over + stakes.under;
-    const pO = overPayout - total;
-    const pU = underPayout - total;
-    const min = Math.min(pO, pU);
-    const max = Math.max(pO, pU);
-    return { profitMin: min, profitMax: max, hasRange: roundTo > 0 && Math.abs(max - min) >= 0.01 };
-  }, [overOdds, underOdds, stakes, roundTo]);
+  // Equal-payout split within each book's max, rounded to the bet increment
+  const plan = useMemo(
+    () => allocateArbStakes(getArbStakeLegs(row), { type: "total", amount: totalBetAmount }, roundTo),
+    [row, totalBetAmount, roundTo]
+  );
+  const stakes = { over: plan.stakes[0], under: plan.stakes[1] };
+  const profitMin = plan.worstCaseProfit;
+  const profitMax = plan.bestCaseProfit;
+  const hasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
   const profit = profitMin;
 
   const overLogo = logo(row.o?.bk);
@@ -289,6 +263,9 @@ export function CompactArbCard({ row, totalBetAmount, roundTo = 0, isNew, hasCha
           <div className="text-left">
             <div className="text-[9px] text-neutral-400 dark:text-neutral-500 uppercase tracking-wide font-medium">Stake</div>
             <div className="text-sm font-semibold tabular-nums text-neutral-700 dark:text-neutral-200">${Math.round(stakes.over + stakes.under)}</div>
+            {plan.cappedByLimit && (
+              <div className="text-[9px] font-medium text-amber-600 dark:text-amber-400">Capped at max</div>
+            )}
           </div>
           
           {/* Center: Profit */}
@@ -7,6 +7,7 @@ import { sportsbooks } from "@/lib/data/sportsbooks";
 import type { ArbRow } from "@/lib/arb-schema";
 import { SportIcon } from "@/components/icons/sport-icons";
 import { useStateLink } from "@/hooks/use-state-link";
+import { allocateArbStakes, evaluateArbStakes, getArbStakeLegs } from "@/lib/arb-stakes";
 
 // Build sportsbook map for quick lookup (using legacy `logo` field)
 const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
@@ -72,22 +73,6 @@ const formatPlayerShort = (full?: string) => {
   return `${first} ${last}`;
 };
 
-// Calculate payout from American odds
-const calculatePayout = (odds: number, stake: number): number => {
-  if (!stake || !odds) return 0;
-  if (odds > 0) return stake * (1 + odds / 100);
-  return stake * (1 + 100 / Math.abs(odds));
-};
-
-// Calculate equal-profit bet sizes
-const calculateBetSizes = (overOdds: number, underOdds: number, total: number) => {
-  const overDec = overOdds > 0 ? 1 + overOdds / 100 : 1 + 100 / Math.abs(overOdds);
-  const underDec = underOdds > 0 ? 1 + underOdds / 100 : 1 + 100 / Math.abs(underOdds);
-  const overStake = (total * underDec) / (overDec + underDec);
-  const underStake = total - overStake;
-  return { over: overStake, under: underStake };
-};
-
 export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, hasChange }: MobileArbCardProps) {
   const applyState = useStateLink();
   const [expanded, setExpanded] = useState(false);
@@ -98,8 +83,10 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
   const overOdds = Number(row.o?.od || 0);
   const underOdds = Number(row.u?.od || 0);
   
-  // Calculate bet sizes
-  const defaultSizes = calculateBetSizes(overOdds, underOdds, totalBetAmount);
+  // Calculate bet sizes (equal payout, within each book's max)
+  const legs = getArbStakeLegs(row);
+  const defaultPlan = allocateArbStakes(legs, { type: "total", amount: totalBetAmount }, roundTo);
+  const defaultSizes = { over: defaultPlan.stakes[0], under: defaultPlan.stakes[1] };
   
   // Initialize with default values
   const [customOver, setCustomOver] = useState<string>(Math.round(defaultSizes.over).toString());
@@ -113,13 +100,9 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
   };
 
   // Calculate profit (range when rounding active)
-  const totalStake = overStake + underStake;
-  const overPayout = calculatePayout(overOdds, overStake);
-  const underPayout = calculatePayout(underOdds, underStake);
-  const profitIfOver = overPayout - totalStake;
-  const profitIfUnder = underPayout - totalStake;
-  const profitMin = Math.min(profitIfOver, profitIfUnder);
-  const profitMax = Math.max(profitIfOver, profitIfUnder);
+  const stakePlan = evaluateArbStakes(legs, [overStake, underStake]);
+  const profitMin = stakePlan.worstCaseProfit;
+  const profitMax = stakePlan.bestCaseProfit;
   const profit = profitMin;
   const hasRange = roundTo > 0 && Math.abs(profitMax - profitMin) >= 0.01;
   
@@ -190,6 +173,11 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
             <span className="text-sm text-neutral-500 dark:text-neutral-400">
               {hasRange ? `${formatAmount(profitMin)} – ${formatAmount(profitMax)}` : `~${formatAmount(profit)}`}
             </span>
+            {defaultPlan.cappedByLimit && (
+              <span className="text-[10px] font-medium text-amber-600 dark:text-amber-400">
+                Capped at max
+              </span>
+            )}
           </div>
           
           {/* Right: Time */}
@@ -238,7 +226,10 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
                 {formatOdds(overOdds)}
               </span>
               {row.o?.max != null && (
-                <span className="text-[10px] text-neutral-400 dark:text-neutral-500">
+                <span className={cn(
+                  "text-[10px]",
+                  stakePlan.legsOverLimit.includes(0) ? "text-amber-600 dark:text-amber-400" : "text-neutral-400 dark:text-neutral-500"
+                )}>
                   (${Math.round(row.o.max)})
                 </span>
               )}
@@ -299,7 +290,10 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
                 {formatOdds(underOdds)}
               </span>
               {row.u?.max != null && (
-                <span className="text-[10px] text-neutral-400 dark:text-neutral-500">
+                <span className={cn(
+                  "text-[10px]",
+                  stakePlan.legsOverLimit.includes(1) ? "text-amber-600 dark:text-amber-400" : "text-neutral-400 dark:text-neutral-500"
+                )}>
                   (${Math.round(row.u.max)})
                 </span>
               )}
@@ -359,7 +353,7 @@ export function MobileArbCard({ row, id, totalBetAmount, roundTo = 0, isNew, has
           <div className="text-sm">
             <span className="text-neutral-500 dark:text-neutral-400">Payout </span>
             <span className="text-emerald-600 dark:text-emerald-400 font-semibold">
-              ~{formatAmount(Math.min(overPayout, underPayout))}
+              ~{formatAmount(Math.min(...stakePlan.payouts))}
             </span>
           </div>
         </div>
@@ -0,0 +1,419 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, ReferenceLine } from "recharts";
+import { Loader2, Plus, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { AppPageLayout } from "@/components/layout/app-page-layout";
+import { CLVReportSection } from "@/components/bankroll/clv-report-section";
+import { useBankroll, useBankrollAnalytics } from "@/hooks/use-bankroll";
+import { getAllActiveSportsbooks, getSportsbookById } from "@/lib/data/sportsbooks";
+import { getMarketDisplay } from "@/lib/odds/types";
+import { cn } from "@/lib/utils";
+import type { AnalyticsBucket, AnalyticsDimension, ManualLedgerEntryType } from "@/lib/bankroll";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const formatMoney = (value: number): string => {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatSigned = (value: number, suffix = ""): string => `${value > 0 ? "+" : ""}${value.toFixed(2)}${suffix}`;
+
+const getBookName = (bookId: string): string => getSportsbookById(bookId)?.name || bookId;
+
+const SOURCE_LABELS: Record<string, string> = {
+  edge: "Edge Finder",
+  positive_ev: "Positive EV",
+  betslip: "Betslip",
+  prop_center: "Prop Center",
+  mixed: "Mixed",
+};
+
+const DIMENSION_TABS: { id: AnalyticsDimension; label: string }[] = [
+  { id: "sport", label: "Sport" },
+  { id: "market", label: "Market" },
+  { id: "book", label: "Book" },
+  { id: "source", label: "Tool" },
+];
+
+const formatBucketKey = (dimension: AnalyticsDimension, key: string): string => {
+  if (dimension === "book") return getBookName(key);
+  if (dimension === "source") return SOURCE_LABELS[key] || key;
+  if (dimension === "market") return key === "parlay" ? "Parlay" : getMarketDisplay(key);
+  return key.toUpperCase();
+};
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  opening_balance: "Opening balance",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  adjustment: "Adjustment",
+  bet_placed: "Bet placed",
+  bet_settled: "Bet settled",
+};
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function StatCard({ label, value, tone }: { label: string; value: string; tone?: "positive" | "negative" }) {
+  return (
+    <div className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 px-4 py-3">
+      <div className="text-[11px] font-semibold uppercase tracking-wider text-neutral-500 dark:text-neutral-400">{label}</div>
+      <div
+        className={cn(
+          "mt-1 text-xl font-bold tabular-nums text-neutral-900 dark:text-white",
+          tone === "positive" && "text-emerald-600 dark:text-emerald-400",
+          tone === "negative" && "text-red-600 dark:text-red-400"
+        )}
+      >
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function AddTransactionForm({ onDone }: { onDone: () => void }) {
+  const { addTransaction, isAddingTransaction } = useBankroll();
+  const books = useMemo(() => getAllActiveSportsbooks(), []);
+  const [entryType, setEntryType] = useState<ManualLedgerEntryType>("deposit");
+  const [sportsbook, setSportsbook] = useState<string>(books[0]?.id ?? "");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value === 0) {
+      toast.error("Enter a valid amount");
+      return;
+    }
+    try {
+      await addTransaction({ entry_type: entryType, sportsbook: sportsbook || null, amount: value, note: note || null });
+      toast.success(`${ENTRY_TYPE_LABELS[entryType]} recorded`);
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to record transaction");
+    }
+  };
+
+  const inputClass =
+    "w-full rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm text-neutral-900 dark:text-white outline-none focus:ring-2 focus:ring-emerald-500/20";
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-5 items-end rounded-xl border border-neutral-200 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-900/50 p-4">
+      <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+        <span>Type</span>
+        <select value={entryType} onChange={(e) => setEntryType(e.target.value as ManualLedgerEntryType)} className={inputClass}>
+          <option value="opening_balance">Opening balance</option>
+          <option value="deposit">Deposit</option>
+          <option value="withdrawal">Withdrawal</option>
+          <option value="adjustment">Adjustment (+/-)</option>
+        </select>
+      </label>
+      <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+        <span>Sportsbook</span>
+        <select value={sportsbook} onChange={(e) => setSportsbook(e.target.value)} className={inputClass}>
+          {books.map((book) => (
+            <option key={book.id} value={book.id}>{book.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+        <span>Amount ($)</span>
+        <input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} placeholder="100.00" />
+      </label>
+      <label className="text-xs text-neutral-500 dark:text-neutral-400 space-y-1">
+        <span>Note</span>
+        <input type="text" value={note} maxLength={280} onChange={(e) => setNote(e.target.value)} className={inputClass} placeholder="Optional" />
+      </label>
+      <button
+        type="submit"
+        disabled={isAddingTransaction}
+        className="flex items-center justify-center gap-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition-colors disabled:opacity-60"
+      >
+        {isAddingTransaction ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        Record
+      </button>
+    </form>
+  );
+}
+
+function BreakdownTable({ dimension, buckets }: { dimension: AnalyticsDimension; buckets: AnalyticsBucket[] }) {
+  if (buckets.length === 0) {
+    return <p className="py-8 text-center text-sm text-neutral-400 dark:text-neutral-500">No settled bets yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[11px] uppercase tracking-wider text-neutral-500 dark:text-neutral-400">
+            <th className="py-2 pr-4 font-semibold">{DIMENSION_TABS.find((t) => t.id === dimension)?.label}</th>
+            <th className="py-2 pr-4 font-semibold text-right">Bets</th>
+            <th className="py-2 pr-4 font-semibold text-right">W-L-V</th>
+            <th className="py-2 pr-4 font-semibold text-right">Win %</th>
+            <th className="py-2 pr-4 font-semibold text-right">Staked</th>
+            <th className="py-2 pr-4 font-semibold text-right">Profit</th>
+            <th className="py-2 pr-4 font-semibold text-right">Units</th>
+            <th className="py-2 pr-4 font-semibold text-right">ROI</th>
+            <th className="py-2 font-semibold text-right">Avg CLV</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          {buckets.map((bucket) => (
+            <tr key={bucket.key} className="tabular-nums text-neutral-700 dark:text-neutral-300">
+              <td className="py-2 pr-4 font-medium text-neutral-900 dark:text-white">{formatBucketKey(dimension, bucket.key)}</td>
+              <td className="py-2 pr-4 text-right">{bucket.bets}</td>
+              <td className="py-2 pr-4 text-right">{bucket.wins}-{bucket.losses}-{bucket.voids}</td>
+              <td className="py-2 pr-4 text-right">{bucket.win_rate.toFixed(1)}%</td>
+              <td className="py-2 pr-4 text-right">{formatMoney(bucket.staked)}</td>
+              <td className={cn("py-2 pr-4 text-right font-medium", bucket.profit >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400")}>
+                {formatMoney(bucket.profit)}
+              </td>
+              <td className="py-2 pr-4 text-right">{formatSigned(bucket.units, "u")}</td>
+              <td className="py-2 pr-4 text-right">{formatSigned(bucket.roi, "%")}</td>
+              <td className="py-2 text-right" title={bucket.clv_samples > 0 ? `${bucket.clv_samples} bets with a captured close` : undefined}>
+                {bucket.avg_clv !== null ? formatSigned(bucket.avg_clv, "%") : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export function BankrollPage() {
+  const { summary, transactions, isLoading, updateSettings } = useBankroll();
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [dimension, setDimension] = useState<AnalyticsDimension>("sport");
+  const [range, setRange] = useState<"30" | "90" | "all">("all");
+
+  const analyticsFilters = useMemo(() => {
+    if (range === "all") return {};
+    const from = new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return { from };
+  }, [range]);
+  const { data: analytics, isLoading: analyticsLoading } = useBankrollAnalytics(analyticsFilters);
+
+  const buckets = useMemo(() => {
+    if (!analytics) return [];
+    switch (dimension) {
+      case "sport": return analytics.by_sport;
+      case "market": return analytics.by_market;
+      case "book": return analytics.by_book;
+      case "source": return analytics.by_source;
+    }
+  }, [analytics, dimension]);
+
+  const overall = analytics?.overall;
+  const unitSize = summary?.settings?.unit_size ?? analytics?.unit_size ?? 100;
+
+  const handleUnitSizeChange = async () => {
+    const next = window.prompt("Unit size ($)", String(unitSize));
+    if (!next) return;
+    const value = Number(next);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error("Unit size must be a positive number");
+      return;
+    }
+    try {
+      await updateSettings({ unit_size: value });
+      toast.success("Unit size updated");
+    } catch {
+      toast.error("Failed to update unit size");
+    }
+  };
+
+  return (
+    <AppPageLayout
+      title="Bankroll"
+      subtitle="Balances by sportsbook and P&L across every placed slip."
+      headerActions={
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleUnitSizeChange}
+            className="px-3 py-1.5 rounded-lg bg-neutral-100 dark:bg-neutral-800/60 text-neutral-600 dark:text-neutral-300 text-sm font-medium hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors"
+          >
+            1u = {formatMoney(unitSize)}
+          </button>
+          <button
+            onClick={() => setShowAddForm((v) => !v)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-semibold transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Transaction
+          </button>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {showAddForm && <AddTransactionForm onDone={() => setShowAddForm(false)} />}
+
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatCard label="Balance" value={formatMoney(summary?.total_balance ?? 0)} />
+            <StatCard label="At risk" value={formatMoney(summary?.total_pending ?? 0)} />
+            <StatCard
+              label="Betting P&L"
+              value={formatMoney(summary?.total_profit ?? 0)}
+              tone={(summary?.total_profit ?? 0) >= 0 ? "positive" : "negative"}
+            />
+            <StatCard label="Net deposits" value={formatMoney((summary?.total_deposited ?? 0) - (summary?.total_withdrawn ?? 0))} />
+          </div>
+
+          {/* Per-book balances */}
+          <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4">
+            <h2 className="mb-3 text-sm font-semibold text-neutral-900 dark:text-white">Sportsbooks</h2>
+            {summary && summary.books.length > 0 ? (
+              <div className="grid gap-2 md:grid-cols-3">
+                {summary.books.map((book) => {
+                  const logo = getSportsbookById(book.sportsbook)?.image;
+                  const logoSrc = logo?.square || logo?.light;
+                  return (
+                    <div key={book.sportsbook} className="flex items-center justify-between rounded-lg bg-neutral-50 dark:bg-neutral-800/50 px-3 py-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        {logoSrc ? <img src={logoSrc} alt="" className="h-5 w-5 object-contain" /> : <Wallet className="h-4 w-4 text-neutral-400" />}
+                        <span className="truncate text-sm text-neutral-700 dark:text-neutral-300">{getBookName(book.sportsbook)}</span>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm font-semibold tabular-nums text-neutral-900 dark:text-white">{formatMoney(book.balance)}</div>
+                        {book.pending > 0 && (
+                          <div className="text-[10px] tabular-nums text-neutral-500">{formatMoney(book.pending)} at risk</div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="py-4 text-sm text-neutral-400 dark:text-neutral-500">
+                Record an opening balance for each sportsbook to start tracking.
+              </p>
+            )}
+          </section>
+
+          {/* Analytics */}
+          <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-sm font-semibold text-neutral-900 dark:text-white">Performance</h2>
+              <div className="flex items-center gap-1 rounded-lg bg-neutral-100 dark:bg-neutral-800 p-0.5">
+                {(["30", "90", "all"] as const).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setRange(value)}
+                    className={cn(
+                      "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+                      range === value
+                        ? "bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white shadow-sm"
+                        : "text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+                    )}
+                  >
+                    {value === "all" ? "All time" : `${value}d`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {analyticsLoading || !overall ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  <StatCard label="ROI" value={formatSigned(overall.roi, "%")} tone={overall.roi >= 0 ? "positive" : "negative"} />
+                  <StatCard label="Units" value={formatSigned(overall.units, "u")} tone={overall.units >= 0 ? "positive" : "negative"} />
+                  <StatCard label="Win rate" value={`${overall.win_rate.toFixed(1)}%`} />
+                  <StatCard label="Avg CLV" value={overall.avg_clv !== null ? formatSigned(overall.avg_clv, "%") : "—"} />
+                  <StatCard label="Bets" value={String(overall.bets)} />
+                </div>
+
+                {analytics && analytics.series.length > 1 && (
+                  <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={analytics.series} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                        <XAxis dataKey="date" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} minTickGap={24} />
+                        <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={48} tickFormatter={(v: number) => `$${v}`} />
+                        <Tooltip formatter={(v) => formatMoney(Number(v))} labelClassName="text-xs" />
+                        <ReferenceLine y={0} stroke="#a3a3a3" strokeDasharray="3 3" />
+                        <Area type="monotone" dataKey="cumulative" name="Cumulative P&L" stroke="#10b981" fill="#10b981" fillOpacity={0.12} strokeWidth={2} />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-1 border-b border-neutral-100 dark:border-neutral-800">
+                  {DIMENSION_TABS.map((tab) => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setDimension(tab.id)}
+                      className={cn(
+                        "px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors",
+                        dimension === tab.id
+                          ? "border-emerald-500 text-neutral-900 dark:text-white"
+                          : "border-transparent text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+                      )}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+                <BreakdownTable dimension={dimension} buckets={buckets ?? []} />
+              </>
+            )}
+          </section>
+
+          <CLVReportSection filters={analyticsFilters} />
+
+          {/* Ledger */}
+          <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4">
+            <h2 className="mb-3 text-sm font-semibold text-neutral-900 dark:text-white">Ledger</h2>
+            {transactions.length > 0 ? (
+              <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {transactions.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="text-neutral-900 dark:text-white">
+                        {ENTRY_TYPE_LABELS[entry.entry_type] || entry.entry_type}
+                        {entry.result && <span className="ml-1.5 text-xs text-neutral-500 capitalize">({entry.result})</span>}
+                      </div>
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                        {entry.sportsbook ? getBookName(entry.sportsbook) : "—"} · {new Date(entry.created_at).toLocaleString()}
+                        {entry.note && <span> · {entry.note}</span>}
+                      </div>
+                    </div>
+                    <span
+                      className={cn(
+                        "tabular-nums font-medium",
+                        Number(entry.amount) >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
+                      )}
+                    >
+                      {Number(entry.amount) >= 0 ? "+" : ""}{formatMoney(Number(entry.amount))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="py-4 text-sm text-neutral-400 dark:text-neutral-500">No ledger entries yet</p>
+            )}
+          </section>
+        </div>
+      )}
+    </AppPageLayout>
+  );
+}
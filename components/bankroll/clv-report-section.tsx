@@ -0,0 +1,185 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { useCLVReport, type CLVReportFilters } from "@/hooks/use-clv-report";
+import { getSportsbookById } from "@/lib/data/sportsbooks";
+import { getMarketDisplay } from "@/lib/odds/types";
+import { cn } from "@/lib/utils";
+import type { CLVBucket, CLVHistogramBin, CLVReportDimension } from "@/lib/clv/types";
+
+const SOURCE_LABELS: Record<string, string> = {
+  edge: "Edge Finder",
+  positive_ev: "Positive EV",
+  betslip: "Betslip",
+  prop_center: "Prop Center",
+};
+
+const DIMENSION_TABS: { id: CLVReportDimension; label: string }[] = [
+  { id: "source", label: "Tool" },
+  { id: "sport", label: "Sport" },
+  { id: "market", label: "Market" },
+  { id: "book", label: "Book" },
+];
+
+const formatKey = (dimension: CLVReportDimension, key: string): string => {
+  if (dimension === "book") return getSportsbookById(key)?.name || key;
+  if (dimension === "source") return SOURCE_LABELS[key] || key;
+  if (dimension === "market") return getMarketDisplay(key);
+  return key.toUpperCase();
+};
+
+const formatCLV = (value: number): string => `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const formatBin = (bin: CLVHistogramBin): string => {
+  if (!Number.isFinite(bin.from)) return `< ${bin.to}%`;
+  if (!Number.isFinite(bin.to)) return `≥ ${bin.from}%`;
+  return `${bin.from} to ${bin.to}%`;
+};
+
+function SummaryStat({ label, value, tone }: { label: string; value: string; tone?: "positive" | "negative" }) {
+  return (
+    <div className="rounded-lg bg-neutral-50 dark:bg-neutral-800/50 px-3 py-2">
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-neutral-500 dark:text-neutral-400">{label}</div>
+      <div
+        className={cn(
+          "text-base font-bold tabular-nums text-neutral-900 dark:text-white",
+          tone === "positive" && "text-emerald-600 dark:text-emerald-400",
+          tone === "negative" && "text-red-600 dark:text-red-400"
+        )}
+      >
+        {value}
+      </div>
+    </div>
+  );
+}
+
+const toneFor = (value: number) => (value > 0 ? "positive" : value < 0 ? "negative" : undefined);
+
+/**
+ * "How good are my entries": CLV vs the fair close for every captured favorite.
+ */
+export function CLVReportSection({ filters }: { filters: CLVReportFilters }) {
+  const { data: report, isLoading } = useCLVReport(filters);
+  const [dimension, setDimension] = useState<CLVReportDimension>("source");
+
+  const buckets: CLVBucket[] = useMemo(() => {
+    if (!report) return [];
+    switch (dimension) {
+      case "sport": return report.by_sport;
+      case "market": return report.by_market;
+      case "book": return report.by_book;
+      case "source": return report.by_source;
+    }
+  }, [report, dimension]);
+
+  const histogram = useMemo(
+    () => (report?.histogram ?? []).map((bin) => ({ ...bin, label: formatBin(bin), positive: bin.from >= 0 })),
+    [report]
+  );
+
+  return (
+    <section className="rounded-xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4 space-y-4">
+      <div>
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-white">Entry quality (CLV)</h2>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Your saved price vs the de-vigged fair close from your sharp preset, captured at event start.
+        </p>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-neutral-400" />
+        </div>
+      ) : report.overall.entries === 0 ? (
+        <p className="py-6 text-center text-sm text-neutral-400 dark:text-neutral-500">
+          No closing lines captured yet. CLV appears once your saved plays start.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <SummaryStat label="Avg CLV" value={formatCLV(report.overall.avg_clv)} tone={toneFor(report.overall.avg_clv)} />
+            <SummaryStat label="Median CLV" value={formatCLV(report.overall.median_clv)} tone={toneFor(report.overall.median_clv)} />
+            <SummaryStat label="Beat close" value={`${report.overall.beat_close_rate.toFixed(1)}%`} />
+            <SummaryStat label="Entries" value={String(report.overall.entries)} />
+            <SummaryStat
+              label="Slips avg CLV"
+              value={report.betslips ? formatCLV(report.betslips.avg_clv) : "—"}
+              tone={report.betslips ? toneFor(report.betslips.avg_clv) : undefined}
+            />
+          </div>
+
+          <div className="h-36">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram} margin={{ top: 4, right: 4, left: 4, bottom: 0 }}>
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} interval={0} />
+                <Tooltip formatter={(v) => [`${v} entries`, "Count"]} labelClassName="text-xs" />
+                <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                  {histogram.map((bin) => (
+                    <Cell key={bin.label} fill={bin.positive ? "#10b981" : "#f87171"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex items-center gap-1 border-b border-neutral-100 dark:border-neutral-800">
+            {DIMENSION_TABS.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setDimension(tab.id)}
+                className={cn(
+                  "px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors",
+                  dimension === tab.id
+                    ? "border-emerald-500 text-neutral-900 dark:text-white"
+                    : "border-transparent text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+                )}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-wider text-neutral-500 dark:text-neutral-400">
+                  <th className="py-2 pr-4 font-semibold">{DIMENSION_TABS.find((t) => t.id === dimension)?.label}</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Entries</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Avg CLV</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Median</th>
+                  <th className="py-2 font-semibold text-right">Beat close</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {buckets.map((bucket) => (
+                  <tr key={bucket.key} className="tabular-nums text-neutral-700 dark:text-neutral-300">
+                    <td className="py-2 pr-4 font-medium text-neutral-900 dark:text-white">{formatKey(dimension, bucket.key)}</td>
+                    <td className="py-2 pr-4 text-right">{bucket.entries}</td>
+                    <td
+                      className={cn(
+                        "py-2 pr-4 text-right font-medium",
+                        bucket.avg_clv >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
+                      )}
+                    >
+                      {formatCLV(bucket.avg_clv)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatCLV(bucket.median_clv)}</td>
+                    <td className="py-2 text-right">{bucket.beat_close_rate.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.unpriced > 0 && (
+            <p className="text-[11px] text-neutral-400 dark:text-neutral-500">
+              {report.unpriced} started {report.unpriced === 1 ? "entry" : "entries"} had no two-way close to price against.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
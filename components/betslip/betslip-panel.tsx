@@ -14,6 +14,7 @@ import { useMediaQuery } from "@/hooks/use-media-query";
 import { getMlbHeadshotUrl } from "@/lib/utils/player-headshot";
 import { LineHistoryDialog } from "@/components/opportunities/line-history-dialog";
 import type { LineHistoryContext } from "@/lib/odds/line-history";
+import type { SgpFairValue } from "@/lib/sgp/fair-value";
 import { toast } from "sonner";
 import {
   Sheet,
@@ -39,6 +40,21 @@ import Link from "next/link";
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Book row from /api/v2/sgp-compare */
+type CompareBookOdds = SgpBookOdds & {
+  legs_supported?: number;
+  total_legs?: number;
+  has_all_legs?: boolean;
+  /** EV vs the correlated fair odds */
+  ev_percent?: number | null;
+  is_plus_ev?: boolean;
+};
+
+interface CompareResult {
+  odds: Record<string, CompareBookOdds>;
+  fair: SgpFairValue | null;
+}
+
 const formatOdds = (price: number | string | null | undefined): string => {
   if (price === null || price === undefined) return "—";
   const num = typeof price === "string" ? parseInt(price, 10) : price;
@@ -245,12 +261,13 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showCompare, setShowCompare] = useState(false);
   const [showBreakdown, setShowBreakdown] = useState(false);
-  const [compareOdds, setCompareOdds] = useState<Record<string, SgpBookOdds>>({});
+  const [compareOdds, setCompareOdds] = useState<Record<string, CompareBookOdds>>({});
+  const [compareFair, setCompareFair] = useState<SgpFairValue | null>(null);
   const [isLoadingCompare, setIsLoadingCompare] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [expandedLegId, setExpandedLegId] = useState<string | null>(null);
   const [lineHistoryContext, setLineHistoryContext] = useState<LineHistoryContext | null>(null);
-  const compareCache = useRef<Map<string, Record<string, SgpBookOdds>>>(new Map());
+  const compareCache = useRef<Map<string, CompareResult>>(new Map());
   const prevFavIdsRef = useRef<string>("");
 
   // Live odds via SSE
@@ -293,6 +310,7 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
       });
       // Invalidate compare cache since legs changed
       setCompareOdds({});
+      setCompareFair(null);
     }
   }, [currentFavIds, favorites]);
 
@@ -380,7 +398,9 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
 
     // Check cache first
     if (!force && compareCache.current.has(compareCacheKey)) {
-      setCompareOdds(compareCache.current.get(compareCacheKey)!);
+      const cached = compareCache.current.get(compareCacheKey)!;
+      setCompareOdds(cached.odds);
+      setCompareFair(cached.fair);
       return;
     }
 
@@ -394,9 +414,10 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
       });
       if (!res.ok) throw new Error(`API ${res.status}`);
       const data = await res.json();
-      const odds = data.odds || {};
-      setCompareOdds(odds);
-      compareCache.current.set(compareCacheKey, odds);
+      const result: CompareResult = { odds: data.odds || {}, fair: data.fair ?? null };
+      setCompareOdds(result.odds);
+      setCompareFair(result.fair);
+      compareCache.current.set(compareCacheKey, result);
     } catch {
       toast.error("Failed to fetch parlay odds");
     } finally {
@@ -418,10 +439,9 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
 
   // Split into full-support (all legs) and partial-support books
   const { fullBooks, partialBooks } = useMemo(() => {
-    const full: [string, SgpBookOdds & { legs_supported?: number; total_legs?: number; has_all_legs?: boolean }][] = [];
-    const partial: [string, SgpBookOdds & { legs_supported?: number; total_legs?: number; has_all_legs?: boolean }][] = [];
-    for (const [bookId, rawOdds] of Object.entries(compareOdds)) {
-      const odds = rawOdds as SgpBookOdds & { legs_supported?: number; total_legs?: number; has_all_legs?: boolean };
+    const full: [string, CompareBookOdds][] = [];
+    const partial: [string, CompareBookOdds][] = [];
+    for (const [bookId, odds] of Object.entries(compareOdds)) {
       if (!odds.price || odds.error) continue;
       if (odds.has_all_legs === false) {
         partial.push([bookId, odds]);
@@ -436,7 +456,6 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
 
   const compareErrorSummary = useMemo(() => {
     const entries = Object.entries(compareOdds)
-      .map(([bookId, rawOdds]) => [bookId, rawOdds as SgpBookOdds & { legs_supported?: number; total_legs?: number }] as const)
       .filter(([, odds]) => odds.error || !odds.price);
 
     if (entries.length === 0) return null;
@@ -841,6 +860,19 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
                                 </button>
                               </div>
                             </div>
+                            {compareFair && (
+                              <div
+                                className="flex items-center justify-between px-3 pb-1.5 text-[10px] text-neutral-500"
+                                title={`Correlated fair value (${compareFair.sharp_preset}). Independent legs: ${formatOdds(compareFair.independent_fair_odds)}`}
+                              >
+                                <span>
+                                  Fair <span className="font-bold tabular-nums text-neutral-700 dark:text-neutral-300">{formatOdds(compareFair.fair_odds)}</span>
+                                </span>
+                                <span className="tabular-nums">
+                                  Correlation {compareFair.correlation_lift.toFixed(2)}x
+                                </span>
+                              </div>
+                            )}
                             {fullBooks.map(([bookId, odds], idx) => {
                               const isBest = idx === 0;
                               const logo = getBookLogo(bookId);
@@ -861,6 +893,16 @@ export function BetslipPanel({ open, onOpenChange }: BetslipPanelProps) {
                                     {isBest && <span className="text-[8px] font-black uppercase px-1.5 py-0.5 rounded-full bg-emerald-500/15 text-emerald-500">Best</span>}
                                   </div>
                                   <div className="flex items-center gap-2">
+                                    {odds.ev_percent != null && (
+                                      <span
+                                        className={cn(
+                                          "text-[9px] font-bold tabular-nums px-1.5 py-0.5 rounded-full",
+                                          odds.is_plus_ev ? "bg-emerald-500/15 text-emerald-500" : "bg-neutral-500/10 text-neutral-400"
+                                        )}
+                                      >
+                                        {odds.ev_percent > 0 ? "+" : ""}{odds.ev_percent.toFixed(1)}% EV
+                                      </span>
+                                    )}
                                     <span className={cn("text-sm font-bold tabular-nums", isBest ? "text-emerald-500" : "text-neutral-800 dark:text-neutral-200")}>
                                       {formatOdds(odds.price)}
                                     </span>
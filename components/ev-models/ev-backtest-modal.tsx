@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { FlaskConical, Loader2, Play, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useEvBacktest } from "@/hooks/use-ev-backtest";
+import { ALL_DEVIG_METHODS, DEVIG_METHODS, SHARP_PRESETS } from "@/lib/ev/constants";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import type { BacktestRun, CalibrationBin } from "@/lib/backtest/types";
+import type { EvModel } from "@/lib/types/ev-models";
+import { cn } from "@/lib/utils";
+
+const BACKTEST_SPORTS = [
+  { value: "nba", label: "NBA" },
+  { value: "wnba", label: "WNBA" },
+  { value: "mlb", label: "MLB" },
+];
+
+const BACKTEST_PRESETS: SharpPreset[] = ["pinnacle", "circa", "pinnacle_circa", "novig", "market_average"];
+
+const WINDOWS = [
+  { days: 7, label: "7D" },
+  { days: 30, label: "30D" },
+  { days: 90, label: "90D" },
+];
+
+const formatPct = (value: number | null, digits = 1) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`;
+
+function chipClass(active: boolean) {
+  return cn(
+    "h-8 px-3 rounded-lg text-xs font-medium border transition-colors",
+    active
+      ? "bg-neutral-900 text-white border-neutral-900 dark:bg-white dark:text-neutral-900 dark:border-white"
+      : "bg-white dark:bg-neutral-900 text-neutral-600 dark:text-neutral-300 border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+  );
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function CalibrationChart({ bins }: { bins: CalibrationBin[] }) {
+  if (bins.length === 0) {
+    return <p className="text-xs text-neutral-500">No decided bets to calibrate.</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {bins.map((bin) => (
+        <div key={bin.lower} className="flex items-center gap-3 text-[11px]">
+          <span className="w-16 shrink-0 tabular-nums text-neutral-500">
+            {Math.round(bin.lower * 100)}–{Math.round(bin.upper * 100)}%
+          </span>
+          <div className="relative flex-1 h-4 rounded bg-neutral-100 dark:bg-neutral-800 overflow-hidden">
+            <div
+              className="absolute inset-y-0 left-0 bg-emerald-500/70"
+              style={{ width: `${bin.actual * 100}%` }}
+            />
+            <div
+              className="absolute inset-y-0 w-0.5 bg-neutral-900 dark:bg-white"
+              style={{ left: `${bin.predicted * 100}%` }}
+            />
+          </div>
+          <span className="w-28 shrink-0 text-right tabular-nums text-neutral-600 dark:text-neutral-300">
+            {(bin.actual * 100).toFixed(1)}% vs {(bin.predicted * 100).toFixed(1)}%
+          </span>
+          <span className="w-12 shrink-0 text-right tabular-nums text-neutral-400">{bin.bets}</span>
+        </div>
+      ))}
+      <p className="pt-1 text-[10px] text-neutral-400">
+        Bar = observed win rate, marker = predicted fair probability, right = bets
+      </p>
+    </div>
+  );
+}
+
+interface EvBacktestModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Backtest this saved model alongside the selected presets */
+  model?: EvModel | null;
+}
+
+export function EvBacktestModal({ open, onOpenChange, model }: EvBacktestModalProps) {
+  const backtest = useEvBacktest();
+  const [sports, setSports] = useState<string[]>(["nba"]);
+  const [presets, setPresets] = useState<SharpPreset[]>(["pinnacle", "market_average"]);
+  const [methods, setMethods] = useState<DevigMethod[]>(ALL_DEVIG_METHODS);
+  const [windowDays, setWindowDays] = useState(30);
+  const [minEV, setMinEV] = useState(2);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  // Start fresh for each model
+  useEffect(() => {
+    if (!open) return;
+    backtest.reset();
+    setSelectedRunId(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, model?.id]);
+
+  const runs = useMemo(
+    () => [...(backtest.data?.runs ?? [])].sort((a, b) => b.metrics.roi - a.metrics.roi),
+    [backtest.data]
+  );
+  const selectedRun: BacktestRun | undefined = runs.find((r) => r.config.id === selectedRunId) ?? runs[0];
+
+  const handleRun = () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - windowDays * 24 * 60 * 60 * 1000);
+    backtest.mutate({
+      sports,
+      presets,
+      methods,
+      modelId: model?.id,
+      minEV,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  };
+
+  const canRun = sports.length > 0 && methods.length > 0 && (presets.length > 0 || !!model) && !backtest.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        showCloseButton={false}
+        className="w-full sm:max-w-5xl h-[100dvh] sm:h-auto max-h-[100dvh] sm:max-h-[85vh] overflow-hidden flex flex-col border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-0 shadow-2xl rounded-none sm:rounded-2xl"
+      >
+        <DialogHeader className="border-b border-neutral-200/80 dark:border-neutral-800/80 px-6 py-5 shrink-0">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl border border-neutral-200 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-800">
+                <FlaskConical className="h-5 w-5 text-neutral-700 dark:text-neutral-200" />
+              </div>
+              <div>
+                <DialogTitle className="text-xl font-bold text-neutral-900 dark:text-white tracking-tight">
+                  Backtest{model ? `: ${model.name}` : " Sharp Presets"}
+                </DialogTitle>
+                <DialogDescription className="text-sm text-neutral-500 dark:text-neutral-400 mt-0.5">
+                  Replay captured lines and score every bet each reference would have flagged
+                </DialogDescription>
+              </div>
+            </div>
+            <button
+              onClick={() => onOpenChange(false)}
+              className="flex items-center justify-center h-10 w-10 rounded-xl text-neutral-400 hover:text-neutral-700 dark:text-neutral-500 dark:hover:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800 border border-neutral-200 dark:border-neutral-800 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto min-h-0 p-4 sm:p-6 space-y-6">
+          {/* Controls */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-2">Sports</p>
+              <div className="flex flex-wrap gap-2">
+                {BACKTEST_SPORTS.map((sport) => (
+                  <button
+                    key={sport.value}
+                    onClick={() => setSports((prev) => toggle(prev, sport.value))}
+                    className={chipClass(sports.includes(sport.value))}
+                  >
+                    {sport.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-6">
+              <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-2">Window</p>
+                <div className="flex gap-2">
+                  {WINDOWS.map((w) => (
+                    <button key={w.days} onClick={() => setWindowDays(w.days)} className={chipClass(windowDays === w.days)}>
+                      {w.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-2">Min EV %</p>
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  step={0.5}
+                  value={minEV}
+                  onChange={(e) => setMinEV(Math.max(0, Number(e.target.value) || 0))}
+                  className="h-8 w-20 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-2 text-sm tabular-nums"
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-2">Sharp presets</p>
+              <div className="flex flex-wrap gap-2">
+                {BACKTEST_PRESETS.map((preset) => (
+                  <button
+                    key={preset}
+                    onClick={() => setPresets((prev) => toggle(prev, preset))}
+                    className={chipClass(presets.includes(preset))}
+                  >
+                    {SHARP_PRESETS[preset].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-2">De-vig methods</p>
+              <div className="flex flex-wrap gap-2">
+                {ALL_DEVIG_METHODS.map((method) => (
+                  <button
+                    key={method}
+                    onClick={() => setMethods((prev) => toggle(prev, method))}
+                    className={chipClass(methods.includes(method))}
+                  >
+                    {DEVIG_METHODS[method].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-neutral-500">
+              {backtest.data
+                ? `${backtest.data.meta.markets.toLocaleString()} graded markets · ${backtest.data.meta.snapshots.toLocaleString()} snapshots`
+                : "Flat 1u bets, first flag per side of each market"}
+            </p>
+            <button
+              onClick={handleRun}
+              disabled={!canRun}
+              className="flex items-center gap-2 h-10 px-5 rounded-xl text-sm font-semibold text-white bg-neutral-900 dark:bg-white dark:text-neutral-900 hover:bg-neutral-800 dark:hover:bg-neutral-100 transition-colors disabled:opacity-50"
+            >
+              {backtest.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              Run Backtest
+            </button>
+          </div>
+
+          {backtest.error && (
+            <div className="rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm text-red-600 dark:text-red-400">
+              {backtest.error.message}
+            </div>
+          )}
+
+          {/* Results */}
+          {runs.length > 0 && (
+            <div className="rounded-xl border border-neutral-200 dark:border-neutral-800 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-neutral-50 dark:bg-neutral-800/50 text-[11px] uppercase tracking-wide text-neutral-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Reference</th>
+                    <th className="px-3 py-2 text-left font-semibold">Method</th>
+                    <th className="px-3 py-2 text-right font-semibold">Bets</th>
+                    <th className="px-3 py-2 text-right font-semibold">Hit / Fair</th>
+                    <th className="px-3 py-2 text-right font-semibold">ROI</th>
+                    <th className="px-3 py-2 text-right font-semibold">Units</th>
+                    <th className="px-3 py-2 text-right font-semibold">CLV</th>
+                    <th className="px-3 py-2 text-right font-semibold">Max DD</th>
+                    <th className="px-3 py-2 text-right font-semibold">Brier</th>
+                    <th className="px-3 py-2 text-right font-semibold">Log Loss</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                  {runs.map((run) => {
+                    const m = run.metrics;
+                    const selected = run.config.id === selectedRun?.config.id;
+                    return (
+                      <tr
+                        key={run.config.id}
+                        onClick={() => setSelectedRunId(run.config.id)}
+                        className={cn(
+                          "cursor-pointer tabular-nums transition-colors",
+                          selected ? "bg-neutral-100 dark:bg-neutral-800" : "hover:bg-neutral-50 dark:hover:bg-neutral-800/50"
+                        )}
+                      >
+                        <td className="px-3 py-2 font-medium text-neutral-900 dark:text-white">{run.config.label}</td>
+                        <td className="px-3 py-2 capitalize text-neutral-600 dark:text-neutral-300">{run.config.method}</td>
+                        <td className="px-3 py-2 text-right">{m.bets}</td>
+                        <td className="px-3 py-2 text-right">
+                          {(m.hit_rate * 100).toFixed(1)}%
+                          <span className="text-neutral-400"> / {(m.avg_fair_prob * 100).toFixed(1)}%</span>
+                        </td>
+                        <td className={cn("px-3 py-2 text-right font-semibold", m.roi >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400")}>
+                          {formatPct(m.roi)}
+                        </td>
+                        <td className="px-3 py-2 text-right">{m.profit > 0 ? "+" : ""}{m.profit.toFixed(2)}u</td>
+                        <td className="px-3 py-2 text-right">{formatPct(m.avg_clv, 2)}</td>
+                        <td className="px-3 py-2 text-right">{m.max_drawdown.toFixed(2)}u</td>
+                        <td className="px-3 py-2 text-right">{m.brier?.toFixed(4) ?? "—"}</td>
+                        <td className="px-3 py-2 text-right">{m.log_loss?.toFixed(4) ?? "—"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {selectedRun && (
+            <div>
+              <p className="text-sm font-semibold text-neutral-900 dark:text-white mb-3">
+                Calibration · {selectedRun.config.label} ({selectedRun.config.method})
+              </p>
+              <CalibrationChart bins={selectedRun.metrics.calibration} />
+            </div>
+          )}
+
+          {backtest.data && runs.every((r) => r.metrics.bets === 0) && (
+            <p className="text-sm text-neutral-500 text-center py-6">
+              No bets cleared {backtest.data.meta.min_ev}% EV in this window.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
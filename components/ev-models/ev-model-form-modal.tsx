@@ -46,6 +46,10 @@ import { SPORT_MARKETS, type SportMarket } from "@/lib/data/markets";
 import { useAvailableMarkets } from "@/hooks/use-available-markets";
 import { getMarketDisplay } from "@/lib/odds/types";
 import { Tooltip } from "@/components/tooltip";
+import { DEFAULT_PROJECTION_WEIGHTS } from "@/lib/projections/hit-rate-model";
+import type { EVFairSource } from "@/lib/ev/types";
+import type { ProjectionWeights } from "@/lib/projections/types";
+import { ProjectionWeightsSection } from "./projection-weights-section";
 
 interface EvModelFormModalProps {
   open: boolean;
@@ -348,6 +352,8 @@ export function EvModelFormModal({
   const [maxOdds, setMaxOdds] = useState(DEFAULT_EV_MODEL_MAX_ODDS);
   const [minOddsStr, setMinOddsStr] = useState(String(DEFAULT_EV_MODEL_MIN_ODDS));
   const [maxOddsStr, setMaxOddsStr] = useState(String(DEFAULT_EV_MODEL_MAX_ODDS));
+  const [fairSource, setFairSource] = useState<EVFairSource>("market");
+  const [projectionWeights, setProjectionWeights] = useState<ProjectionWeights>(DEFAULT_PROJECTION_WEIGHTS);
   const [error, setError] = useState<string | null>(null);
 
   // Fetch dynamic markets
@@ -517,6 +523,8 @@ export function EvModelFormModal({
       setMaxOdds(model.max_odds ?? DEFAULT_EV_MODEL_MAX_ODDS);
       setMinOddsStr(String(model.min_odds ?? DEFAULT_EV_MODEL_MIN_ODDS));
       setMaxOddsStr(String(model.max_odds ?? DEFAULT_EV_MODEL_MAX_ODDS));
+      setFairSource(model.fair_source || "market");
+      setProjectionWeights(model.projection_weights || DEFAULT_PROJECTION_WEIGHTS);
       setExpandedSports(new Set());
       setExpandedCategories(new Set());
       
@@ -595,6 +603,8 @@ export function EvModelFormModal({
       setMaxOdds(DEFAULT_EV_MODEL_MAX_ODDS);
       setMinOddsStr(String(DEFAULT_EV_MODEL_MIN_ODDS));
       setMaxOddsStr(String(DEFAULT_EV_MODEL_MAX_ODDS));
+      setFairSource("market");
+      setProjectionWeights(DEFAULT_PROJECTION_WEIGHTS);
     }
     setError(null);
   }, [open, model?.id]);
@@ -866,6 +876,8 @@ export function EvModelFormModal({
         min_books_reference: minBooksReference,
         min_odds: minOdds,
         max_odds: maxOdds,
+        fair_source: fairSource,
+        projection_weights: fairSource === "market" ? null : projectionWeights,
       };
 
       if (isEditing && model) {
@@ -1248,6 +1260,14 @@ export function EvModelFormModal({
                     <p className="text-[10px] text-neutral-400 mt-2">American odds range for opportunities</p>
                   </div>
 
+                  <ProjectionWeightsSection
+                    fairSource={fairSource}
+                    weights={projectionWeights}
+                    onFairSourceChange={setFairSource}
+                    onWeightsChange={setProjectionWeights}
+                    disabled={isLoading}
+                  />
+
                   {/* Sports & Markets */}
                   <div className="rounded-2xl border border-neutral-200/80 dark:border-neutral-800/80 bg-white dark:bg-neutral-900 p-5 lg:flex-1 lg:min-h-0 overflow-y-auto shadow-sm">
                     <div className="flex items-center gap-3 mb-4">
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Plus, Pencil, Trash2, Loader2, Check, X, Zap, Layers } from "lucide-react";
+import { Plus, Pencil, Trash2, Loader2, Check, X, Zap, Layers, FlaskConical } from "lucide-react";
 import { Star } from "@/components/star";
 import {
   Dialog,
@@ -22,6 +22,7 @@ import {
   type EvModelCreate,
 } from "@/lib/types/ev-models";
 import { EvModelFormModal } from "./ev-model-form-modal";
+import { EvBacktestModal } from "./ev-backtest-modal";
 import { SportIcon } from "@/components/icons/sport-icons";
 import { cn } from "@/lib/utils";
 import { Tooltip } from "@/components/tooltip";
@@ -138,6 +139,8 @@ export function EvModelsManagerModal({
   const [editingModel, setEditingModel] = useState<EvModel | null>(null);
   const [formOpen, setFormOpen] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [backtestOpen, setBacktestOpen] = useState(false);
+  const [backtestModel, setBacktestModel] = useState<EvModel | null>(null);
 
   // Sort models: favorites first, then by created date
   const sortedModels = useMemo(() => {
@@ -242,6 +245,18 @@ export function EvModelsManagerModal({
                   </button>
                 )}
                 
+                {/* Backtest presets */}
+                <button
+                  onClick={() => {
+                    setBacktestModel(null);
+                    setBacktestOpen(true);
+                  }}
+                  className="flex items-center justify-center gap-2 h-10 px-4 rounded-xl text-sm font-medium text-neutral-700 dark:text-neutral-200 bg-white dark:bg-neutral-900 hover:bg-neutral-50 dark:hover:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 transition-colors w-full sm:w-auto"
+                >
+                  <FlaskConical className="w-4 h-4 text-neutral-500 dark:text-neutral-400" />
+                  Backtest
+                </button>
+
                 {/* New Model button */}
                 <button
                   onClick={() => {
@@ -514,6 +529,19 @@ export function EvModelsManagerModal({
                               </button>
                             </Tooltip>
 
+                            <Tooltip content="Backtest">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setBacktestModel(model);
+                                  setBacktestOpen(true);
+                                }}
+                                className="h-7 w-7 flex items-center justify-center rounded-lg bg-neutral-100 dark:bg-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors text-neutral-600 dark:text-neutral-300"
+                              >
+                                <FlaskConical className="w-3.5 h-3.5" />
+                              </button>
+                            </Tooltip>
+
                             <Tooltip content="Edit">
                               <button
                                 onClick={(e) => {
@@ -606,6 +634,16 @@ export function EvModelsManagerModal({
           onModelsChanged?.();
         }}
       />
+
+      {/* Backtest Modal */}
+      <EvBacktestModal
+        open={backtestOpen}
+        onOpenChange={(open) => {
+          setBacktestOpen(open);
+          if (!open) setBacktestModel(null);
+        }}
+        model={backtestModel}
+      />
     </>
   );
 }
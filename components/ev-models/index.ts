@@ -1,3 +1,4 @@
 export { EvModelFormModal } from "./ev-model-form-modal";
 export { EvModelsManagerModal } from "./ev-models-manager-modal";
 export { EvModelsBar } from "./ev-models-bar";
+export { EvBacktestModal } from "./ev-backtest-modal";
@@ -0,0 +1,169 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Tooltip } from "@/components/tooltip";
+import { cn } from "@/lib/utils";
+import { EV_FAIR_SOURCES } from "@/lib/types/ev-models";
+import { DEFAULT_PROJECTION_WEIGHTS } from "@/lib/projections/hit-rate-model";
+import type { EVFairSource } from "@/lib/ev/types";
+import type { ProjectionWeights } from "@/lib/projections/types";
+
+interface ProjectionWeightsSectionProps {
+  fairSource: EVFairSource;
+  weights: ProjectionWeights;
+  onFairSourceChange: (source: EVFairSource) => void;
+  onWeightsChange: (weights: ProjectionWeights) => void;
+  disabled?: boolean;
+}
+
+const WINDOW_SLIDERS: { key: keyof ProjectionWeights; label: string }[] = [
+  { key: "l5", label: "L5" },
+  { key: "l10", label: "L10" },
+  { key: "l20", label: "L20" },
+  { key: "season", label: "Season" },
+  { key: "h2h", label: "H2H" },
+];
+
+const ADJUSTMENT_SLIDERS: { key: keyof ProjectionWeights; label: string; hint: string }[] = [
+  { key: "dvp", label: "DvP", hint: "How much of the opponent's defense-vs-position rank to apply" },
+  { key: "pace", label: "Pace", hint: "How much of the projected pace vs the team's recent pace to apply" },
+  { key: "injury", label: "Injury", hint: "How much of the stat boost with a teammate ruled out to apply" },
+];
+
+function WeightSlider({
+  label,
+  value,
+  suffix,
+  hint,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  suffix: string;
+  hint?: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}) {
+  const labelEl = (
+    <span className={cn("w-14 shrink-0 text-[11px] font-medium text-neutral-600 dark:text-neutral-400", hint && "cursor-help")}>
+      {label}
+    </span>
+  );
+  return (
+    <div className="flex items-center gap-2">
+      {hint ? <Tooltip content={hint}>{labelEl}</Tooltip> : labelEl}
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={5}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-neutral-900 dark:accent-white"
+      />
+      <span className="w-10 shrink-0 text-right text-[11px] font-semibold tabular-nums text-neutral-700 dark:text-neutral-300">
+        {value}{suffix}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Fair source picker and hit-rate projection weights for an EV model
+ */
+export function ProjectionWeightsSection({
+  fairSource,
+  weights,
+  onFairSourceChange,
+  onWeightsChange,
+  disabled,
+}: ProjectionWeightsSectionProps) {
+  const setWeight = (key: keyof ProjectionWeights, value: number) => onWeightsChange({ ...weights, [key]: value });
+
+  return (
+    <div className="rounded-2xl border border-neutral-200/80 dark:border-neutral-800/80 bg-white dark:bg-neutral-900 p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-semibold text-neutral-700 dark:text-neutral-300">
+          Fair Probability
+        </Label>
+        <button
+          type="button"
+          onClick={() => onWeightsChange(DEFAULT_PROJECTION_WEIGHTS)}
+          disabled={disabled}
+          className="text-[10px] font-medium text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+        >
+          Reset weights
+        </button>
+      </div>
+      <div className="flex gap-1.5 mt-3">
+        {EV_FAIR_SOURCES.map((source) => (
+          <Tooltip key={source.value} content={source.description}>
+            <button
+              type="button"
+              onClick={() => onFairSourceChange(source.value)}
+              disabled={disabled}
+              className={cn(
+                "flex-1 h-8 rounded-lg text-xs font-semibold transition-all border",
+                fairSource === source.value
+                  ? "bg-neutral-900 dark:bg-white border-neutral-900 dark:border-white text-white dark:text-neutral-900 shadow-sm"
+                  : "bg-white dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:border-neutral-300 dark:hover:border-neutral-600"
+              )}
+            >
+              {source.label}
+            </button>
+          </Tooltip>
+        ))}
+      </div>
+
+      {fairSource !== "market" && (
+        <div className="mt-4 space-y-3">
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-wide text-neutral-400">Averages</p>
+            {WINDOW_SLIDERS.map(({ key, label }) => (
+              <WeightSlider
+                key={key}
+                label={label}
+                value={weights[key]}
+                suffix=""
+                disabled={disabled}
+                onChange={(value) => setWeight(key, value)}
+              />
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-wide text-neutral-400">Adjustments</p>
+            {ADJUSTMENT_SLIDERS.map(({ key, label, hint }) => (
+              <WeightSlider
+                key={key}
+                label={label}
+                value={weights[key]}
+                suffix="%"
+                hint={hint}
+                disabled={disabled}
+                onChange={(value) => setWeight(key, value)}
+              />
+            ))}
+          </div>
+          {fairSource === "blend" && (
+            <div className="space-y-1.5">
+              <p className="text-[10px] font-semibold uppercase tracking-wide text-neutral-400">Blend</p>
+              <WeightSlider
+                label="Market"
+                value={weights.market}
+                suffix="%"
+                hint="Share of the de-vigged market in the blended probability; the rest is the projection"
+                disabled={disabled}
+                onChange={(value) => setWeight("market", value)}
+              />
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-400">
+            Averages are relative weights; windows without data are skipped. Projections cover NBA and WNBA player props.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
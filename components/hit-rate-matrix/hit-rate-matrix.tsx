@@ -162,6 +162,7 @@ export function HitRateMatrix({ sport = "nba", className }: HitRateMatrixProps)
     gameDate: matrixDate,
     timeWindow,
     positions: selectedPositions.length > 0 ? selectedPositions : undefined,
+    includeModel: true,
   });
 
   // Extract unique gameIds from matrix data (numeric IDs that match useNbaGames)
@@ -1195,6 +1196,46 @@ function ThresholdCell({
               </div>
             )}
             
+            {/* Model - Monte Carlo game simulation at this line */}
+            {threshold.modelOverProb != null && (
+              <div className="text-neutral-500 dark:text-neutral-400 text-[10px]">
+                Model: {threshold.modelOverProb}% over
+                {threshold.modelFairOdds != null && <> · fair {formatOdds(threshold.modelFairOdds)}</>}
+                {threshold.modelEdgePct != null && (
+                  <span
+                    className={cn(
+                      "ml-1 font-medium",
+                      threshold.modelEdgePct > 0
+                        ? "text-emerald-600 dark:text-emerald-400"
+                        : "text-neutral-400 dark:text-neutral-500"
+                    )}
+                  >
+                    {formatEdge(threshold.modelEdgePct)} EV
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Sharp fair curve - de-vigged sharp lines, interpolated to this line */}
+            {threshold.fairOverProb != null && (
+              <div className="text-neutral-500 dark:text-neutral-400 text-[10px]">
+                Sharp{threshold.fairSharp ? "" : " (interp.)"}: {threshold.fairOverProb}% over
+                {threshold.fairOdds != null && <> · fair {formatOdds(threshold.fairOdds)}</>}
+                {threshold.fairEdgePct != null && (
+                  <span
+                    className={cn(
+                      "ml-1 font-medium",
+                      threshold.fairEdgePct > 0
+                        ? "text-emerald-600 dark:text-emerald-400"
+                        : "text-neutral-400 dark:text-neutral-500"
+                    )}
+                  >
+                    {formatEdge(threshold.fairEdgePct)} EV
+                  </span>
+                )}
+              </div>
+            )}
+            
             {hasOdds && (
               <div className="text-neutral-400 dark:text-neutral-500 text-[9px] pt-0.5">
                 Click to compare books
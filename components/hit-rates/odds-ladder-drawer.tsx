@@ -343,6 +343,11 @@ export function OddsLadderDrawer({ open, onOpenChange, row }: OddsLadderDrawerPr
     };
   }, [selectedLine, ladderData, lineData, showAllBooks]);
 
+  const selectedFair = useMemo(
+    () => ladderData?.lines.find(l => l.line === selectedLine)?.fair ?? null,
+    [ladderData, selectedLine]
+  );
+
   // Handle add to favorites
   const handleAddToFavorites = useCallback(async () => {
     if (!row || selectedLine === null) return;
@@ -509,6 +514,20 @@ export function OddsLadderDrawer({ open, onOpenChange, row }: OddsLadderDrawerPr
                       {currentLineData.book_count} books
                     </span>
                   </div>
+
+                  {selectedFair && (selectedFair.over != null || selectedFair.under != null) && (
+                    <div className="mb-3 flex items-center justify-between rounded-lg border border-dashed border-neutral-200 dark:border-neutral-700 px-3 py-2 text-xs">
+                      <span className="font-medium text-neutral-600 dark:text-neutral-300">
+                        Fair{" "}
+                        <span className="text-neutral-400 dark:text-neutral-500 font-normal">
+                          {selectedFair.sharp ? "(sharp de-vig)" : "(interpolated)"}
+                        </span>
+                      </span>
+                      <span className="font-mono tabular-nums text-neutral-700 dark:text-neutral-200">
+                        O {formatOdds(selectedFair.over)} / U {formatOdds(selectedFair.under)}
+                      </span>
+                    </div>
+                  )}
                   
                   <div className="space-y-2">
                     {currentLineData.books.map((book, idx) => (
@@ -5,6 +5,17 @@ import { X, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { getSportsbookById } from '@/lib/data/sportsbooks'
 import { useStateLink } from "@/hooks/use-state-link"
+import { useFairCurve } from "@/hooks/use-fair-curve"
+import { fairLinePrice } from '@/lib/ev/fair-curve'
+import {
+  growthLadderFractions,
+  kellyLadderFractions,
+  ladderPayoutSegments,
+  rungValues,
+  type LadderRung,
+  type RungValue,
+} from '@/lib/ev/ladder-staking'
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis } from 'recharts'
 
 export interface LadderSelection {
   line: number
@@ -21,15 +32,49 @@ interface LadderBuilderPanelProps {
   onClear: () => void
   playerName?: string
   market?: string
+  // Needed to fetch the fair curve; without them only equal/equal-win sizing is offered
+  sport?: string
+  eventId?: string
+  playerKey?: string
 }
 
-export function LadderBuilderPanel({ selections, onRemove, onClear, playerName, market }: LadderBuilderPanelProps) {
+type BetSizingStrategy = 'equal' | 'value' | 'kelly' | 'growth'
+
+const KELLY_FRACTIONS = [
+  { value: 0.25, label: '¼' },
+  { value: 0.5, label: '½' },
+  { value: 1, label: 'Full' },
+]
+
+export function LadderBuilderPanel({ selections, onRemove, onClear, playerName, market, sport, eventId, playerKey }: LadderBuilderPanelProps) {
   const applyState = useStateLink()
   const [isCollapsed, setIsCollapsed] = React.useState(false)
   const [totalBankroll, setTotalBankroll] = React.useState<string>('100')
-  const [betSizingStrategy, setBetSizingStrategy] = React.useState<'equal' | 'value'>('equal')
+  const [kellyBankroll, setKellyBankroll] = React.useState<string>('1000')
+  const [kellyFraction, setKellyFraction] = React.useState(0.25)
+  const [betSizingStrategy, setBetSizingStrategy] = React.useState<BetSizingStrategy>('equal')
+
+  const { data: fairCurve, isLoading: fairLoading } = useFairCurve({ sport, eventId, market, playerKey })
+  const pmf = fairCurve?.distribution.pmf ?? null
+
+  const rungs: LadderRung[] = React.useMemo(
+    () => selections.map(sel => ({ id: sel.id, line: sel.line, side: sel.side, price: sel.price })),
+    [selections]
+  )
+
+  const valuesById = React.useMemo(() => {
+    const map = new Map<string, RungValue>()
+    if (pmf) rungValues(rungs, pmf).forEach(v => map.set(v.id, v))
+    return map
+  }, [rungs, pmf])
+
+  // Fall back to an even split if the fair curve disappears under a model strategy
+  const strategy: BetSizingStrategy = !pmf && (betSizingStrategy === 'kelly' || betSizingStrategy === 'growth')
+    ? 'equal'
+    : betSizingStrategy
   
   const formatPrice = (n: number) => (n > 0 ? `+${n}` : `${n}`)
+  const formatEV = (ev: number) => `${ev >= 0 ? '+' : ''}${(ev * 100).toFixed(1)}%`
   
   // Format line number: for "over", round up and add "+" (e.g., 1.5 → 2+, 2.5 → 3+)
   const formatLine = (lineNum: number, side: 'over' | 'under'): string => {
@@ -64,13 +109,13 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
     
     const betSizes: { [key: string]: number } = {}
     
-    if (betSizingStrategy === 'equal') {
+    if (strategy === 'equal') {
       // Equal distribution
       const equalAmount = bankroll / selections.length
       selections.forEach(sel => {
         betSizes[sel.id] = equalAmount
       })
-    } else if (betSizingStrategy === 'value') {
+    } else if (strategy === 'value') {
       // Equal payout: Calculate bet sizes so each leg returns the same amount
       // For each selection, calculate the payout multiplier (total return / stake)
       const payoutMultipliers = selections.map(sel => {
@@ -87,6 +132,16 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
       selections.forEach((sel, idx) => {
         betSizes[sel.id] = (inverseMultipliers[idx] / totalInverse) * bankroll
       })
+    } else if (pmf) {
+      // Model strategies are bankroll fractions; growth spends exactly the budget
+      const fullBankroll = parseFloat(kellyBankroll) || 0
+      if (fullBankroll <= 0) return {}
+      const fractions = strategy === 'kelly'
+        ? kellyLadderFractions(rungs, pmf).map(f => f * kellyFraction)
+        : growthLadderFractions(rungs, pmf, bankroll / fullBankroll)
+      selections.forEach((sel, idx) => {
+        betSizes[sel.id] = (fractions[idx] ?? 0) * fullBankroll
+      })
     }
     
     return betSizes
@@ -94,6 +149,12 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
   
   const betSizes = calculateBetSizes()
   const totalAllocated = Object.values(betSizes).reduce((sum, amount) => sum + amount, 0)
+
+  const payoutSegments = pmf && totalAllocated > 0
+    ? ladderPayoutSegments(rungs, selections.map(sel => betSizes[sel.id] || 0), pmf)
+    : []
+  const expectedProfit = payoutSegments.reduce((sum, seg) => sum + seg.prob * seg.profit, 0)
+  const winProb = payoutSegments.reduce((sum, seg) => sum + (seg.profit > 0 ? seg.prob : 0), 0)
   
   const getSportsbookName = (bookId: string) => {
     const book = getSportsbookById(bookId)
@@ -175,7 +236,7 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
           {/* Bankroll Input */}
           <div>
             <label className="block text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1.5">
-              Total Bankroll ($)
+              Ladder Budget ($)
             </label>
             <input
               type="number"
@@ -188,6 +249,24 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
             />
           </div>
 
+          {/* Full bankroll for the model strategies */}
+          {(strategy === 'kelly' || strategy === 'growth') && (
+            <div>
+              <label className="block text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1.5">
+                Bankroll ($)
+              </label>
+              <input
+                type="number"
+                value={kellyBankroll}
+                onChange={(e) => setKellyBankroll(e.target.value)}
+                className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 placeholder-neutral-400 focus:border-brand focus:outline-none focus:ring-1 focus:ring-brand dark:border-neutral-700 dark:bg-neutral-800 dark:text-white dark:placeholder-neutral-500"
+                placeholder="1000"
+                min="0"
+                step="100"
+              />
+            </div>
+          )}
+
           {/* Bet Sizing Strategy */}
           <div>
             <label className="block text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1.5">
@@ -198,7 +277,7 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
                 onClick={() => setBetSizingStrategy('equal')}
                 className={cn(
                   "rounded-lg border px-2 py-1.5 text-xs font-medium transition-all",
-                  betSizingStrategy === 'equal'
+                  strategy === 'equal'
                     ? "border-brand bg-brand/10 text-brand"
                     : "border-neutral-300 text-neutral-600 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-400 dark:hover:bg-neutral-800"
                 )}
@@ -209,17 +288,70 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
                 onClick={() => setBetSizingStrategy('value')}
                 className={cn(
                   "rounded-lg border px-2 py-1.5 text-xs font-medium transition-all",
-                  betSizingStrategy === 'value'
+                  strategy === 'value'
                     ? "border-brand bg-brand/10 text-brand"
                     : "border-neutral-300 text-neutral-600 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-400 dark:hover:bg-neutral-800"
                 )}
               >
                 Equal Win
               </button>
+              <button
+                onClick={() => setBetSizingStrategy('kelly')}
+                disabled={!pmf}
+                className={cn(
+                  "rounded-lg border px-2 py-1.5 text-xs font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed",
+                  strategy === 'kelly'
+                    ? "border-brand bg-brand/10 text-brand"
+                    : "border-neutral-300 text-neutral-600 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-400 dark:hover:bg-neutral-800"
+                )}
+              >
+                Kelly
+              </button>
+              <button
+                onClick={() => setBetSizingStrategy('growth')}
+                disabled={!pmf}
+                className={cn(
+                  "rounded-lg border px-2 py-1.5 text-xs font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed",
+                  strategy === 'growth'
+                    ? "border-brand bg-brand/10 text-brand"
+                    : "border-neutral-300 text-neutral-600 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-400 dark:hover:bg-neutral-800"
+                )}
+              >
+                Max Growth
+              </button>
             </div>
+            {strategy === 'kelly' && (
+              <div className="mt-2 flex items-center gap-1.5">
+                {KELLY_FRACTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setKellyFraction(value)}
+                    className={cn(
+                      "flex-1 rounded-md border px-2 py-1 text-[10px] font-medium transition-all",
+                      kellyFraction === value
+                        ? "border-brand bg-brand/10 text-brand"
+                        : "border-neutral-300 text-neutral-600 hover:bg-neutral-50 dark:border-neutral-700 dark:text-neutral-400 dark:hover:bg-neutral-800"
+                    )}
+                  >
+                    {label} Kelly
+                  </button>
+                ))}
+              </div>
+            )}
             <p className="mt-1.5 text-[10px] text-neutral-500 dark:text-neutral-400">
-              {betSizingStrategy === 'equal' && 'Split bankroll equally across all legs'}
-              {betSizingStrategy === 'value' && 'Each leg returns the same payout'}
+              {strategy === 'equal' && 'Split budget equally across all legs'}
+              {strategy === 'value' && 'Each leg returns the same payout'}
+              {strategy === 'kelly' && 'Joint Kelly stakes across the correlated rungs; may bet less than the budget'}
+              {strategy === 'growth' && 'Spends the full budget, split to maximize expected log growth of the bankroll'}
+            </p>
+            <p className="mt-1 text-[10px] text-neutral-400 dark:text-neutral-500">
+              {fairLoading && 'Fitting fair curve…'}
+              {!fairLoading && fairCurve && (
+                <>
+                  Fair curve: {fairCurve.model === 'poisson' ? 'Poisson' : 'Neg. binomial'} · mean {fairCurve.mean.toFixed(1)} · {fairCurve.points.length} sharp line{fairCurve.points.length !== 1 ? 's' : ''}
+                </>
+              )}
+              {!fairLoading && !fairCurve && 'No sharp lines to fit a fair curve'}
             </p>
           </div>
         </div>
@@ -233,6 +365,9 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
               const betAmount = betSizes[selection.id] || 0
               const potentialProfit = calculateProfit(betAmount, selection.price)
               const potentialReturn = betAmount + potentialProfit
+              const value = valuesById.get(selection.id)
+              const fair = fairCurve ? fairLinePrice(fairCurve, selection.line) : null
+              const fairOdds = fair ? (selection.side === 'over' ? fair.fair_over_odds : fair.fair_under_odds) : null
               
               return (
                 <div
@@ -271,6 +406,23 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
                         {getSportsbookName(selection.book)}
                       </span>
                     </div>
+                    {/* Fair price & EV from the fitted curve */}
+                    {value && (
+                      <div className="mt-1 flex items-center gap-2 text-[10px]">
+                        {fairOdds != null && (
+                          <span className="text-neutral-500 dark:text-neutral-400">
+                            Fair {formatPrice(fairOdds)}
+                          </span>
+                        )}
+                        <span className={cn(
+                          "font-semibold",
+                          value.ev > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-500 dark:text-red-400"
+                        )}>
+                          EV {formatEV(value.ev)}
+                        </span>
+                        <span className="text-neutral-400">{(value.win_prob * 100).toFixed(0)}% hit</span>
+                      </div>
+                    )}
                     {/* Bet Amount & Potential Return */}
                     {betAmount > 0 && (
                       <div className="mt-1.5 flex items-center gap-2 text-[10px]">
@@ -302,6 +454,42 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
       {/* Footer */}
       {!isCollapsed && (
         <div className="border-t border-neutral-200 px-4 py-3 dark:border-neutral-800 space-y-3 shrink-0">
+          {/* Combined payout across the stat's outcomes */}
+          {payoutSegments.length > 0 && (
+            <div>
+              <div className="mb-1 flex items-center justify-between text-[10px] text-neutral-500 dark:text-neutral-400">
+                <span>Ladder payout by {market || 'stat'}</span>
+                <span>Bar height = probability</span>
+              </div>
+              <div className="h-24">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={payoutSegments.map(seg => ({
+                      ...seg,
+                      label: seg.max == null ? `${seg.min}+` : seg.min === seg.max ? `${seg.min}` : `${seg.min}-${seg.max}`,
+                      pct: Math.round(seg.prob * 1000) / 10,
+                    }))}
+                    margin={{ top: 4, right: 4, left: 4, bottom: 0 }}
+                  >
+                    <XAxis dataKey="label" tick={{ fontSize: 9 }} tickLine={false} axisLine={false} interval={0} />
+                    <Tooltip
+                      formatter={(v, _name, item) => [
+                        `${v}% · ${(item.payload.profit >= 0 ? '+$' : '-$') + Math.abs(item.payload.profit).toFixed(2)}`,
+                        'Chance · Profit',
+                      ]}
+                      labelClassName="text-xs"
+                    />
+                    <Bar dataKey="pct" radius={[3, 3, 0, 0]}>
+                      {payoutSegments.map(seg => (
+                        <Cell key={seg.min} fill={seg.profit > 0 ? "#10b981" : seg.profit < 0 ? "#f87171" : "#a3a3a3"} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* Summary Stats */}
           <div className="space-y-2 text-xs">
             <div className="flex items-center justify-between text-neutral-600 dark:text-neutral-400">
@@ -312,6 +500,23 @@ export function LadderBuilderPanel({ selections, onRemove, onClear, playerName,
               <span>Total Wagered</span>
               <span className="font-semibold text-neutral-900 dark:text-white">${totalAllocated.toFixed(2)}</span>
             </div>
+            {payoutSegments.length > 0 && (
+              <>
+                <div className="flex items-center justify-between text-neutral-600 dark:text-neutral-400">
+                  <span>Expected Profit</span>
+                  <span className={cn(
+                    "font-semibold",
+                    expectedProfit >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-500 dark:text-red-400"
+                  )}>
+                    {expectedProfit >= 0 ? '+' : '-'}${Math.abs(expectedProfit).toFixed(2)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-neutral-600 dark:text-neutral-400">
+                  <span>Chance of Profit</span>
+                  <span className="font-semibold text-neutral-900 dark:text-white">{(winProb * 100).toFixed(0)}%</span>
+                </div>
+              </>
+            )}
             {selections.length > 0 && totalAllocated > 0 && (
               <div className="flex items-center justify-between pt-2 border-t border-neutral-200 dark:border-neutral-800">
                 <span className="font-medium text-neutral-700 dark:text-neutral-300">Potential Returns</span>
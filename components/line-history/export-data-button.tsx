@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import { FileSpreadsheet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Tooltip } from "@/components/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { LineHistoryContext } from "@/lib/odds/line-history";
+import type { OddsArchiveExportFormat } from "@/lib/odds-archive/types";
+
+interface ExportDataButtonProps {
+  context: LineHistoryContext;
+  bookIds: string[];
+  className?: string;
+}
+
+function buildArchiveUrl(context: LineHistoryContext, bookIds: string[], format: OddsArchiveExportFormat): string {
+  const params = new URLSearchParams({ sport: context.sport, eventId: context.eventId, market: context.market, format });
+  if (context.playerName) params.set("player", context.playerName);
+  if (context.side) params.set("side", context.side);
+  if (context.line != null) params.set("line", String(context.line));
+  if (bookIds.length > 0) params.set("books", bookIds.join(","));
+  return `/api/v2/odds/archive?${params.toString()}`;
+}
+
+export function ExportDataButton({ context, bookIds, className }: ExportDataButtonProps) {
+  const download = (format: OddsArchiveExportFormat) => {
+    const a = document.createElement("a");
+    a.href = buildArchiveUrl(context, bookIds, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <DropdownMenu>
+      <Tooltip content="Download archived prices">
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              "p-2 rounded-xl border transition-all shadow-sm bg-white/80 dark:bg-white/[0.05]",
+              "border-neutral-200 dark:border-neutral-800 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200",
+              className
+            )}
+          >
+            <FileSpreadsheet className="h-3.5 w-3.5" />
+          </button>
+        </DropdownMenuTrigger>
+      </Tooltip>
+      <DropdownMenuContent align="end" className="w-40">
+        <DropdownMenuItem onSelect={() => download("csv")}>Download CSV</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => download("parquet")}>Download Parquet</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
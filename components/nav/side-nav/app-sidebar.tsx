@@ -19,6 +19,7 @@ import {
   IconBulb,
   IconCreditCard,
   IconBell,
+  IconBellRinging,
   IconUser,
   IconSelector,
   IconChevronDown,
@@ -27,6 +28,8 @@ import {
   IconBuildingBank,
   IconTags,
   IconBrandDiscord,
+  IconWallet,
+  IconFlame,
 } from "@tabler/icons-react"
 import { SportIcon } from "@/components/icons/sport-icons"
 
@@ -115,6 +118,7 @@ const edgeToolsLinks: NavItem[] = [
   { label: "Arbitrage", href: "/arbitrage", icon: IconScale },
   { label: "Positive EV", href: "/positive-ev", icon: IconPlus },
   { label: "Edge Finder", href: "/edge-finder", icon: IconRocket },
+  { label: "Steam Moves", href: "/steam", icon: IconFlame },
   { label: "Sharp Intel", href: "/sharp-intel", icon: IconBulb, badge: "NEW" },
 ]
 
@@ -178,6 +182,8 @@ const resourcesLinks: NavItem[] = [
   { label: "Markets", href: "/markets", icon: IconTags },
   { label: "Changelog", href: "/changelog", icon: IconHistory },
   { label: "My Slips", href: "/my-slips", icon: IconHeart },
+  { label: "Bankroll", href: "/bankroll", icon: IconWallet },
+  { label: "Alerts", href: "/alerts", icon: IconBellRinging },
   { label: "Discord", href: "/discord", icon: IconBrandDiscord },
 ]
 
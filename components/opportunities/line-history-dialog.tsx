@@ -24,6 +24,7 @@ import { StatsTable } from "@/components/line-history/stats-table";
 import { SummaryStats } from "@/components/line-history/summary-stats";
 import { CLVTracker } from "@/components/line-history/clv-tracker";
 import { ExportChartButton } from "@/components/line-history/export-chart-button";
+import { ExportDataButton } from "@/components/line-history/export-data-button";
 import { ChartHelpButton } from "@/components/line-history/chart-help-button";
 import { useEVTimeline } from "@/components/line-history/ev-overlay";
 
@@ -446,6 +447,7 @@ export function LineHistoryDialog({ open, onOpenChange, context, sideContexts }:
                   <>
                     <ChartHelpButton canShowEV={canShowEV} />
                     <ExportChartButton chartRef={chartRef} selectionTitle={selectionTitle || "line-history"} />
+                    {activeContext && <ExportDataButton context={activeContext} bookIds={visibleBookIds} />}
                     <TimeRangeSelector value={timeRange} onChange={setTimeRange} className={isMobile ? "" : "ml-1"} />
                   </>
                 )}
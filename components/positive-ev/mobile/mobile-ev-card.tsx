@@ -258,7 +258,9 @@ export function MobileEVCard({
   const isPlayerProp = !!opp.playerName && !isRawSelectionValue(opp.playerName);
   
   // Format the selection display
-  const selectionDisplay = isPlayerProp 
+  const selectionDisplay = opp.multiWay
+    ? opp.multiWay.outcome.label
+    : isPlayerProp 
     ? opp.playerName 
     : formatMatchupLabel(opp.sport, opp.awayTeam, opp.homeTeam);
   
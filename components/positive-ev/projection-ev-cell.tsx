@@ -0,0 +1,75 @@
+"use client";
+
+import { Tooltip } from "@/components/tooltip";
+import { cn } from "@/lib/utils";
+import { formatOdds } from "@/lib/line-history/utils";
+import type { EVFairSource, ProjectionEV } from "@/lib/ev/types";
+
+interface ProjectionEvCellProps {
+  projection?: ProjectionEV;
+  fairSource: EVFairSource;
+  loading?: boolean;
+}
+
+function evClass(ev: number): string {
+  if (ev >= 3) return "text-emerald-600 dark:text-emerald-400";
+  if (ev > 0) return "text-emerald-500/80 dark:text-emerald-400/80";
+  return "text-neutral-400 dark:text-neutral-500";
+}
+
+function formatEv(ev: number): string {
+  return `${ev > 0 ? "+" : ""}${ev.toFixed(1)}%`;
+}
+
+/**
+ * Projection, market and blended EV side by side for one +EV row
+ */
+export function ProjectionEvCell({ projection, fairSource, loading }: ProjectionEvCellProps) {
+  if (!projection) {
+    return (
+      <span className="text-[11px] text-neutral-300 dark:text-neutral-600">
+        {loading ? "…" : "—"}
+      </span>
+    );
+  }
+
+  const values: { source: EVFairSource; label: string; ev: number }[] = [
+    { source: "model", label: "Proj", ev: projection.modelEV },
+    { source: "market", label: "Mkt", ev: projection.marketEV },
+    { source: "blend", label: "Blend", ev: projection.blendedEV },
+  ];
+
+  return (
+    <Tooltip
+      content={
+        <div className="space-y-1 text-xs">
+          <div>
+            Projection: {projection.mean} mean ({projection.family === "poisson" ? "Poisson" : "negative binomial"}),{" "}
+            {(projection.modelProb * 100).toFixed(1)}% → fair {projection.modelFairOdds != null ? formatOdds(projection.modelFairOdds) : "—"}
+          </div>
+          <div>Market: {(projection.marketProb * 100).toFixed(1)}% de-vigged</div>
+          <div>
+            Blend: {(projection.blendedProb * 100).toFixed(1)}% ({projection.marketWeight}% market)
+          </div>
+        </div>
+      }
+    >
+      <div className="inline-flex cursor-help items-center gap-2">
+        {values.map(({ source, label, ev }) => (
+          <div
+            key={source}
+            className={cn(
+              "flex flex-col items-center rounded-md px-1.5 py-0.5",
+              source === fairSource && "bg-neutral-100 dark:bg-neutral-800"
+            )}
+          >
+            <span className="text-[9px] font-medium uppercase tracking-wider text-neutral-400 dark:text-neutral-500">
+              {label}
+            </span>
+            <span className={cn("text-[12px] font-bold tabular-nums", evClass(ev))}>{formatEv(ev)}</span>
+          </div>
+        ))}
+      </div>
+    </Tooltip>
+  );
+}
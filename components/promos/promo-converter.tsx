@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, ArrowRightLeft, ExternalLink, Gift, Loader2, Lock, Zap } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getAllActiveSportsbooks, sportsbooks } from "@/lib/data/sportsbooks";
+import { getArbMarketLabel } from "@/lib/arb-filters";
+import type { ConversionLeg, PromoConversion, PromoConversionType } from "@/lib/promo-converter/types";
+import { usePromoConverter, type PromoConverterInputs } from "@/hooks/use-promo-converter";
+import { useHasSharpAccess } from "@/hooks/use-entitlements";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Prefill from a promo card; `key` changes on every click so re-seeding works */
+export interface PromoConverterSeed {
+  key: number;
+  type: PromoConversionType;
+  book: string | null;
+  amount: number | null;
+  boostPercent: number | null;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
+
+const BOOK_OPTIONS = getAllActiveSportsbooks()
+  .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+  .map((sb) => ({ id: sb.id, name: sb.name }));
+
+const DEFAULT_MIN_ODDS: Record<PromoConversionType, number | undefined> = {
+  // Bonus bets convert best on long odds
+  bonus_bet: 200,
+  profit_boost: undefined,
+};
+
+const currency = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(n);
+const formatOdds = (od: number) => (od > 0 ? `+${od}` : String(od));
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+function formatStart(dt: string): string {
+  const d = new Date(dt);
+  if (Number.isNaN(d.getTime())) return "TBD";
+  return d.toLocaleString("en-US", { weekday: "short", hour: "numeric", minute: "2-digit" });
+}
+
+// ─── Leg cell ─────────────────────────────────────────────────────────────────
+
+function LegCell({ leg, stake, boostedOdds }: { leg: ConversionLeg; stake: number; boostedOdds?: number }) {
+  const sb = SB_MAP.get(leg.bk.toLowerCase());
+  const href = leg.u || leg.m || undefined;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="group flex items-center gap-2 rounded-lg border border-neutral-200/60 bg-neutral-50/50 px-2.5 py-2 transition-colors hover:bg-neutral-100 dark:border-neutral-700/60 dark:bg-neutral-800/50 dark:hover:bg-neutral-700/50"
+    >
+      {sb?.logo ? (
+        <img src={sb.logo} alt={leg.bk} className="h-5 w-5 shrink-0 rounded object-contain" />
+      ) : (
+        <div className="h-5 w-5 shrink-0 rounded bg-neutral-200 dark:bg-neutral-700" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-xs text-neutral-600 dark:text-neutral-400">{leg.name}</div>
+        <div className="flex items-baseline gap-1.5">
+          {boostedOdds !== undefined && boostedOdds !== leg.od ? (
+            <>
+              <span className="text-xs tabular-nums text-neutral-400 line-through">{formatOdds(leg.od)}</span>
+              <span className="text-sm font-bold tabular-nums text-emerald-600 dark:text-emerald-400">{formatOdds(boostedOdds)}</span>
+            </>
+          ) : (
+            <span className="text-sm font-bold tabular-nums text-neutral-900 dark:text-white">{formatOdds(leg.od)}</span>
+          )}
+          <span className="text-[11px] tabular-nums text-neutral-500">· {currency(stake)}</span>
+        </div>
+      </div>
+      {href && <ExternalLink className="h-3 w-3 shrink-0 text-neutral-400 opacity-0 transition-opacity group-hover:opacity-100" />}
+    </a>
+  );
+}
+
+// ─── Result row ───────────────────────────────────────────────────────────────
+
+function ConversionRow({ conversion }: { conversion: PromoConversion }) {
+  const { event, promo, hedge } = conversion;
+  const matchup = `${event.away.abbr || event.away.name} @ ${event.home.abbr || event.home.name}`;
+
+  return (
+    <div className="grid grid-cols-1 items-center gap-3 border-b border-neutral-100 px-4 py-3 last:border-0 dark:border-neutral-800/60 lg:grid-cols-[1.2fr_1.4fr_1.4fr_0.8fr_0.8fr]">
+      <div className="min-w-0">
+        <div className="text-xs text-neutral-500 dark:text-neutral-400">
+          {conversion.lg.name} · {formatStart(event.dt)}
+        </div>
+        <div className="truncate text-sm font-medium text-neutral-900 dark:text-white">{matchup}</div>
+        <div className="truncate text-xs text-neutral-500 dark:text-neutral-400">
+          {conversion.player ? `${conversion.player} · ` : ""}
+          {getArbMarketLabel(conversion.mkt)}
+        </div>
+      </div>
+      <LegCell
+        leg={promo}
+        stake={conversion.promo_stake}
+        boostedOdds={conversion.type === "profit_boost" ? conversion.effective_odds : undefined}
+      />
+      <div>
+        <LegCell leg={hedge} stake={conversion.hedge_stake} />
+        {conversion.hedge_over_limit && (
+          <div className="mt-1 flex items-center gap-1 text-[10px] font-medium text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3 w-3" />
+            Hedge over {hedge.bk} max (${Math.round(hedge.max ?? 0)})
+          </div>
+        )}
+      </div>
+      <div className="text-right">
+        <div
+          className={cn(
+            "text-base font-bold tabular-nums",
+            conversion.guaranteed_profit >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-rose-600 dark:text-rose-400"
+          )}
+        >
+          {currency(conversion.guaranteed_profit)}
+        </div>
+        <div className="text-xs tabular-nums text-neutral-500 dark:text-neutral-400">{pct(conversion.retention)} locked</div>
+      </div>
+      <div className="text-right">
+        {conversion.expected_retention !== null ? (
+          <>
+            <div className="text-sm font-semibold tabular-nums text-neutral-900 dark:text-white">
+              {conversion.type === "profit_boost" && conversion.expected_retention > 0 ? "+" : ""}
+              {pct(conversion.expected_retention)}
+            </div>
+            <div className="text-[11px] text-neutral-500 dark:text-neutral-400">
+              {conversion.type === "bonus_bet" ? "exp. retention" : "boosted EV"}
+              {conversion.fair_basis === "market_average" ? " (mkt avg)" : ""}
+            </div>
+          </>
+        ) : (
+          <span className="text-xs text-neutral-400">No fair price</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Main Component ───────────────────────────────────────────────────────────
+
+export function PromoConverter({ seed }: { seed?: PromoConverterSeed | null }) {
+  const { hasAccess, isLoading: accessLoading } = useHasSharpAccess();
+
+  const [type, setType] = useState<PromoConversionType>("bonus_bet");
+  const [book, setBook] = useState<string>(BOOK_OPTIONS[0]?.id ?? "draftkings");
+  const [amount, setAmount] = useState<number>(25);
+  const [boostPercent, setBoostPercent] = useState<number>(50);
+  const [minOdds, setMinOdds] = useState<number | undefined>(DEFAULT_MIN_ODDS.bonus_bet);
+  const [sort, setSort] = useState<PromoConverterInputs["sort"]>("guaranteed");
+  const [submitted, setSubmitted] = useState<PromoConverterInputs | null>(null);
+
+  // Prefill from a promo card's "Convert" button
+  useEffect(() => {
+    if (!seed) return;
+    setType(seed.type);
+    if (seed.book) setBook(seed.book);
+    if (seed.amount) setAmount(seed.amount);
+    if (seed.boostPercent) setBoostPercent(seed.boostPercent);
+    setMinOdds(DEFAULT_MIN_ODDS[seed.type]);
+    setSubmitted(null);
+  }, [seed]);
+
+  const { data, isFetching, error } = usePromoConverter(hasAccess ? submitted : null);
+  const conversions = data?.conversions ?? [];
+
+  const best = conversions[0] ?? null;
+
+  const handleTypeChange = (next: PromoConversionType) => {
+    setType(next);
+    setMinOdds(DEFAULT_MIN_ODDS[next]);
+  };
+
+  const handleSubmit = () => {
+    setSubmitted({ type, book, amount, boostPercent, sports: [], minOdds, sort });
+  };
+
+  const inputClass =
+    "h-9 rounded-lg border border-neutral-200 bg-white px-2.5 text-sm tabular-nums text-neutral-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/30 dark:border-neutral-700 dark:bg-neutral-900 dark:text-white";
+
+  return (
+    <section className="mb-6 overflow-hidden rounded-xl border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-neutral-900">
+      {/* Header */}
+      <div className="flex items-center gap-2 border-b border-neutral-100 px-4 py-3 dark:border-neutral-800">
+        <ArrowRightLeft className="h-4 w-4 text-emerald-500" />
+        <h2 className="text-sm font-bold text-neutral-900 dark:text-white">Promo Converter</h2>
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+          Hedge a bonus bet or boost at another book to lock in cash
+        </span>
+      </div>
+
+      {/* Form */}
+      <div className="flex flex-wrap items-end gap-3 px-4 py-3">
+        <div className="flex rounded-lg bg-neutral-100 p-1 dark:bg-neutral-800">
+          {([
+            { value: "bonus_bet", label: "Bonus Bet", icon: Gift },
+            { value: "profit_boost", label: "Profit Boost", icon: Zap },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleTypeChange(value)}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-semibold transition-colors",
+                type === value
+                  ? "bg-white text-neutral-900 shadow-sm dark:bg-neutral-900 dark:text-white"
+                  : "text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex flex-col gap-1 text-[11px] font-medium text-neutral-500">
+          Book
+          <select value={book} onChange={(e) => setBook(e.target.value)} className={cn(inputClass, "w-40")}>
+            {BOOK_OPTIONS.map((sb) => (
+              <option key={sb.id} value={sb.id}>
+                {sb.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-[11px] font-medium text-neutral-500">
+          {type === "bonus_bet" ? "Bonus amount ($)" : "Max wager ($)"}
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={cn(inputClass, "w-28")}
+          />
+        </label>
+
+        {type === "profit_boost" && (
+          <label className="flex flex-col gap-1 text-[11px] font-medium text-neutral-500">
+            Boost (%)
+            <input
+              type="number"
+              min={1}
+              value={boostPercent}
+              onChange={(e) => setBoostPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+              className={cn(inputClass, "w-24")}
+            />
+          </label>
+        )}
+
+        <label className="flex flex-col gap-1 text-[11px] font-medium text-neutral-500">
+          Min odds
+          <input
+            type="number"
+            step={10}
+            value={minOdds ?? ""}
+            placeholder="Any"
+            onChange={(e) => {
+              const n = parseInt(e.target.value, 10);
+              setMinOdds(Number.isFinite(n) ? n : undefined);
+            }}
+            className={cn(inputClass, "w-24")}
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-[11px] font-medium text-neutral-500">
+          Rank by
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as PromoConverterInputs["sort"])}
+            className={cn(inputClass, "w-36")}
+          >
+            <option value="guaranteed">Guaranteed</option>
+            <option value="ev">{type === "bonus_bet" ? "Exp. retention" : "Boosted EV"}</option>
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!hasAccess || amount <= 0 || (type === "profit_boost" && boostPercent <= 0)}
+          className="flex h-9 items-center gap-1.5 rounded-lg bg-emerald-600 px-4 text-xs font-semibold text-white transition-colors hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isFetching ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ArrowRightLeft className="h-3.5 w-3.5" />}
+          Find hedges
+        </button>
+
+        {best && (
+          <div className="ml-auto text-right">
+            <div className="text-[11px] font-medium text-neutral-500">Best conversion</div>
+            <div className="text-lg font-bold tabular-nums text-emerald-600 dark:text-emerald-400">
+              {pct(best.retention)} · {currency(best.guaranteed_profit)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      {!accessLoading && !hasAccess ? (
+        <div className="flex items-center gap-2 border-t border-neutral-100 px-4 py-4 text-sm text-neutral-600 dark:border-neutral-800 dark:text-neutral-400">
+          <Lock className="h-4 w-4" />
+          The promo converter is available on Sharp and Elite plans.
+          <Link href="/pricing" className="font-semibold text-emerald-600 hover:underline dark:text-emerald-400">
+            Upgrade
+          </Link>
+        </div>
+      ) : error ? (
+        <div className="border-t border-neutral-100 px-4 py-4 text-sm text-rose-600 dark:border-neutral-800 dark:text-rose-400">
+          {error instanceof Error ? error.message : String(error)}
+        </div>
+      ) : submitted && !isFetching && conversions.length === 0 ? (
+        <div className="border-t border-neutral-100 px-4 py-4 text-sm text-neutral-500 dark:border-neutral-800">
+          No hedges found at {SB_MAP.get(book)?.name ?? book} for upcoming games. Try lowering the min odds.
+        </div>
+      ) : conversions.length > 0 ? (
+        <div className="max-h-[480px] overflow-y-auto border-t border-neutral-100 dark:border-neutral-800">
+          {conversions.map((conversion) => (
+            <ConversionRow key={conversion.id} conversion={conversion} />
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
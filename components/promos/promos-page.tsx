@@ -5,8 +5,10 @@ import { CalendarDays, Wrench } from "lucide-react";
 import { AppPageLayout } from "@/components/layout/app-page-layout";
 import { PromosFilterBar } from "./promos-filter-bar";
 import { PromosTable } from "./promos-table";
+import { PromoConverter, type PromoConverterSeed } from "./promo-converter";
 import { useSportsbookPromos } from "@/hooks/use-sportsbook-promos";
-import { DEFAULT_PROMO_FILTERS, type PromoFilters } from "@/lib/promos-schema";
+import { DEFAULT_PROMO_FILTERS, type PromoFilters, type SportsbookPromo } from "@/lib/promos-schema";
+import { parsePromoConversion } from "@/lib/promo-converter/convert";
 
 function formatDate(iso: string): string {
   const [year, month, day] = iso.split("-").map(Number);
@@ -20,11 +22,19 @@ function formatDate(iso: string): string {
 
 export function PromosPage() {
   const [filters, setFilters] = useState<PromoFilters>(DEFAULT_PROMO_FILTERS);
+  const [converterSeed, setConverterSeed] = useState<PromoConverterSeed | null>(null);
 
   const handleFiltersChange = useCallback((next: PromoFilters) => {
     setFilters(next);
   }, []);
 
+  const handleConvert = useCallback((promo: SportsbookPromo) => {
+    const parsed = parsePromoConversion(promo);
+    if (!parsed) return;
+    setConverterSeed({ key: Date.now(), ...parsed });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, []);
+
   const { data, isLoading, error } = useSportsbookPromos({ filters });
 
   const promos = data?.promos ?? [];
@@ -59,6 +69,7 @@ export function PromosPage() {
         <Wrench className="mt-0.5 h-4 w-4 shrink-0 text-amber-600 dark:text-amber-300" />
         <p>We&apos;re working on getting the promo feed updated.</p>
       </div>
+      <PromoConverter seed={converterSeed} />
       <PromosTable
         promos={promos}
         isLoading={isLoading}
@@ -69,6 +80,7 @@ export function PromosPage() {
               : String(error)
             : null
         }
+        onConvert={handleConvert}
       />
     </AppPageLayout>
   );
@@ -2,7 +2,7 @@
 
 import { useState, useMemo, useCallback, useSyncExternalStore } from "react";
 import Image from "next/image";
-import { ExternalLink, Clock, Star, RefreshCw, Zap, ChevronDown, CircleCheck } from "lucide-react";
+import { ExternalLink, Clock, Star, RefreshCw, Zap, ChevronDown, CircleCheck, ArrowRightLeft } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   type SportsbookPromo,
@@ -13,6 +13,7 @@ import {
 } from "@/lib/promos-schema";
 import { getAllActiveSportsbooks } from "@/lib/data/sportsbooks";
 import { SportIcon } from "@/components/icons/sport-icons";
+import { parsePromoConversion } from "@/lib/promo-converter/convert";
 
 // Build a name → priority lookup from sportsbooks meta (higher = more popular)
 const SPORTSBOOK_PRIORITY: Record<string, number> = {};
@@ -185,11 +186,14 @@ function PromoCard({
   promo,
   isClaimed,
   onToggleClaim,
+  onConvert,
 }: {
   promo: SportsbookPromo;
   isClaimed: boolean;
   onToggleClaim: () => void;
+  onConvert?: (promo: SportsbookPromo) => void;
 }) {
+  const canConvert = !!onConvert && parsePromoConversion(promo) !== null;
   const typeConfig = getPromoTypeConfig(promo.promo_type);
   const brandColor = getSportsbookBrandColor(promo.sportsbook);
   const logoSrc = getSportsbookLogo(promo.sportsbook);
@@ -325,6 +329,20 @@ function PromoCard({
               <ExternalLink className="w-3 h-3 flex-shrink-0" />
             </a>
           )}
+          {canConvert && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onConvert?.(promo);
+              }}
+              title="Find the best hedge for this promo"
+              className="flex items-center gap-1.5 rounded-lg px-3 py-2 text-xs font-semibold transition-all duration-150 border bg-neutral-50 dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700 text-neutral-500 dark:text-neutral-400 hover:border-emerald-300 dark:hover:border-emerald-700 hover:text-emerald-500 dark:hover:text-emerald-400"
+            >
+              <ArrowRightLeft className="w-3.5 h-3.5" />
+              Convert
+            </button>
+          )}
           <button
             type="button"
             onClick={(e) => {
@@ -356,12 +374,14 @@ function SportsbookGroup({
   defaultOpen,
   claimed,
   onToggleClaim,
+  onConvert,
 }: {
   sportsbook: string;
   promos: SportsbookPromo[];
   defaultOpen: boolean;
   claimed: Set<number>;
   onToggleClaim: (id: number) => void;
+  onConvert?: (promo: SportsbookPromo) => void;
 }) {
   const [isOpen, setIsOpen] = useState(defaultOpen);
   const brandColor = getSportsbookBrandColor(sportsbook);
@@ -437,6 +457,7 @@ function SportsbookGroup({
                 promo={promo}
                 isClaimed={claimed.has(promo.id)}
                 onToggleClaim={() => onToggleClaim(promo.id)}
+                onConvert={onConvert}
               />
             ))}
           </div>
@@ -452,9 +473,11 @@ interface PromosTableProps {
   promos: SportsbookPromo[];
   isLoading: boolean;
   error: string | null;
+  /** Open the promo converter prefilled from this promo */
+  onConvert?: (promo: SportsbookPromo) => void;
 }
 
-export function PromosTable({ promos, isLoading, error }: PromosTableProps) {
+export function PromosTable({ promos, isLoading, error, onConvert }: PromosTableProps) {
   const { claimed, toggle } = useClaimedPromos();
 
   // Group by sportsbook, sorted by priority (highest first), then count as tiebreaker
@@ -509,6 +532,7 @@ export function PromosTable({ promos, isLoading, error }: PromosTableProps) {
           defaultOpen={idx < 3}
           claimed={claimed}
           onToggleClaim={toggle}
+          onConvert={onConvert}
         />
       ))}
     </div>
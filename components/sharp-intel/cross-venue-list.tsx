@@ -0,0 +1,228 @@
+"use client"
+
+import { useState } from "react"
+import useSWR from "swr"
+import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import { OddsFormat } from "@/lib/odds"
+import { getSportsbookById, normalizeSportsbookId } from "@/lib/data/sportsbooks"
+import type { CrossVenueQuote, CrossVenueResponse, CrossVenueRow } from "@/lib/polymarket/types"
+
+type ViewType = "all" | "arb" | "ev"
+
+const VIEW_OPTIONS: { value: ViewType; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "arb", label: "Arbs" },
+  { value: "ev", label: "+EV" },
+]
+
+const SIZE_OPTIONS = [50, 100, 250, 500, 1000, 2500]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  return res.json()
+}
+
+function formatAmerican(n: number): string {
+  return n > 0 ? `+${n}` : `${n}`
+}
+
+function formatPrice(american: number, decimal: number, oddsFormat: OddsFormat): string {
+  return oddsFormat === "american" ? formatAmerican(american) : `${Math.round(100 / decimal)}¢`
+}
+
+function formatPct(n: number | null | undefined): string {
+  if (n == null) return "—"
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}%`
+}
+
+function sideLabel(row: CrossVenueRow): string {
+  const { mapping } = row
+  if (mapping.kind === "total") return `${mapping.side === "over" ? "Over" : "Under"} ${mapping.line}`
+  const team = mapping.side === "home" ? row.event.home : row.event.away
+  if (mapping.kind === "spread" && mapping.line != null) return `${team} ${formatAmerican(mapping.line)}`
+  return `${team} ML`
+}
+
+function BookQuote({ label, quote, oddsFormat }: { label: string; quote: CrossVenueQuote | null; oddsFormat: OddsFormat }) {
+  if (!quote) {
+    return (
+      <div className="flex flex-col">
+        <span className="text-[10px] text-neutral-400">{label}</span>
+        <span className="text-xs text-neutral-400">—</span>
+      </div>
+    )
+  }
+  const sb = getSportsbookById(normalizeSportsbookId(quote.book))
+  const logo = sb?.image?.light || sb?.image?.square || null
+  return (
+    <div className="flex flex-col">
+      <span className="text-[10px] text-neutral-400">{label}</span>
+      <a
+        href={quote.link || undefined}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1 text-xs font-semibold tabular-nums text-neutral-800 dark:text-neutral-200 hover:underline"
+      >
+        {logo && <img src={logo} alt={sb?.name ?? quote.book} className="h-3.5 w-3.5 rounded-sm object-contain" />}
+        {formatPrice(quote.american, quote.decimal, oddsFormat)}
+        {quote.line != null && <span className="text-[10px] font-normal text-neutral-400">({quote.line})</span>}
+      </a>
+    </div>
+  )
+}
+
+function CrossVenueCard({ row, oddsFormat }: { row: CrossVenueRow; oddsFormat: OddsFormat }) {
+  const isArb = (row.arb_roi ?? 0) > 0
+  const isEv = (row.sharp?.ev ?? 0) > 0
+  const fill = row.polymarket
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border p-3 space-y-2",
+        isArb
+          ? "border-emerald-300/70 dark:border-emerald-500/30 bg-emerald-50/40 dark:bg-emerald-500/[0.04]"
+          : "border-neutral-200/60 dark:border-neutral-700/30 bg-neutral-50/50 dark:bg-neutral-800/40"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-400">
+            {row.mapping.sport} · {row.event.away} @ {row.event.home} · {format(new Date(row.event.dt), "MMM d, h:mm a")}
+          </p>
+          <p className="truncate text-sm font-semibold text-neutral-900 dark:text-neutral-100">{sideLabel(row)}</p>
+        </div>
+        <div className="flex shrink-0 gap-1.5">
+          {isArb && (
+            <span className="rounded-md bg-emerald-500/15 px-1.5 py-0.5 text-[10px] font-bold text-emerald-600 dark:text-emerald-400">
+              ARB {formatPct(row.arb_roi)}
+            </span>
+          )}
+          {isEv && (
+            <span className="rounded-md bg-sky-500/15 px-1.5 py-0.5 text-[10px] font-bold text-sky-600 dark:text-sky-400">
+              EV {formatPct(row.sharp?.ev)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <div className="flex flex-col">
+          <span className="text-[10px] text-neutral-400">Polymarket</span>
+          <span className="text-xs font-semibold tabular-nums text-neutral-800 dark:text-neutral-200">
+            {formatPrice(fill.american, fill.decimal, oddsFormat)}
+          </span>
+          <span className={cn("text-[10px] tabular-nums", fill.partial ? "text-amber-500" : "text-neutral-400")}>
+            ${fill.filled_usd.toFixed(0)} @ {(fill.avg_price * 100).toFixed(1)}¢
+          </span>
+        </div>
+        <BookQuote label="Best same side" quote={row.best_same_side} oddsFormat={oddsFormat} />
+        <BookQuote label="Best other side" quote={row.best_opposite} oddsFormat={oddsFormat} />
+        <div className="flex flex-col">
+          <span className="text-[10px] text-neutral-400">{row.sharp ? `Fair (${row.sharp.book})` : "Fair"}</span>
+          <span className="text-xs font-semibold tabular-nums text-neutral-800 dark:text-neutral-200">
+            {row.sharp ? `${(row.sharp.fair_prob * 100).toFixed(1)}%` : "—"}
+          </span>
+          <span className="text-[10px] tabular-nums text-neutral-400">vs books {formatPct(row.edge_vs_books)}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Polymarket vs sportsbook scanner: executable Polymarket prices at a
+ * stake, arbs against the other side and EV against the sharp line
+ */
+export function CrossVenueList({ sport, oddsFormat }: { sport?: string; oddsFormat: OddsFormat }) {
+  const [view, setView] = useState<ViewType>("all")
+  const [size, setSize] = useState(100)
+  const [feeBps, setFeeBps] = useState(0)
+
+  const params = new URLSearchParams({ size: String(size), fee_bps: String(feeBps), type: view })
+  if (sport) params.set("sports", sport)
+
+  const { data, error, isLoading } = useSWR<CrossVenueResponse>(
+    `/api/polymarket/cross-venue?${params}`,
+    fetcher,
+    { refreshInterval: 30_000, keepPreviousData: true }
+  )
+  const rows = data?.rows ?? []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        <div className="flex gap-0.5 rounded-md border border-neutral-200 bg-neutral-100 p-0.5 dark:border-neutral-800/30 dark:bg-neutral-900/60">
+          {VIEW_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setView(opt.value)}
+              className={cn(
+                "rounded px-2 py-0.5 text-[11px] font-medium transition-all duration-150",
+                view === opt.value
+                  ? "bg-white text-neutral-900 shadow-sm dark:bg-neutral-800/80 dark:text-neutral-200"
+                  : "text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+              )}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-[11px] text-neutral-500">
+          Size
+          <select
+            value={size}
+            onChange={(e) => setSize(Number(e.target.value))}
+            className="rounded-md border border-neutral-200 bg-white px-1.5 py-0.5 text-[11px] dark:border-neutral-800 dark:bg-neutral-900"
+          >
+            {SIZE_OPTIONS.map((s) => (
+              <option key={s} value={s}>${s.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-[11px] text-neutral-500">
+          Fee
+          <input
+            type="number"
+            min={0}
+            max={1000}
+            step={5}
+            value={feeBps}
+            onChange={(e) => setFeeBps(Math.max(0, Number(e.target.value) || 0))}
+            className="w-14 rounded-md border border-neutral-200 bg-white px-1.5 py-0.5 text-[11px] tabular-nums dark:border-neutral-800 dark:bg-neutral-900"
+          />
+          bps
+        </label>
+        {data?.summary && (
+          <span className="ml-auto text-[10px] text-neutral-400">
+            {data.summary.arbs} arbs · {data.summary.positive_ev} +EV
+          </span>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 animate-pulse rounded-lg border border-neutral-200/60 bg-neutral-50/50 dark:border-neutral-700/30 dark:bg-neutral-800/40" />
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <p className="text-sm text-red-400">Failed to load cross-venue prices. Please try again.</p>
+        </div>
+      )}
+      {!isLoading && !error && rows.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <p className="text-sm text-neutral-400">No matched markets right now</p>
+          <p className="mt-1 text-xs text-neutral-600">Try a smaller size or another view</p>
+        </div>
+      )}
+      {rows.map((row) => (
+        <CrossVenueCard key={row.id} row={row} oddsFormat={oddsFormat} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import useSWR from "swr"
+import { format } from "date-fns"
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { cn } from "@/lib/utils"
+import { normalizeCopySettings } from "@/lib/polymarket/copy-trading"
+import type { CopyPortfolioResponse, CopySizingMode, CopyTradingSettings } from "@/lib/polymarket/types"
+
+const SIZING_OPTIONS: { value: CopySizingMode; label: string; hint: string }[] = [
+  { value: "flat", label: "Flat", hint: "Same stake on every copied bet" },
+  { value: "proportional", label: "Proportional", hint: "Unit × their stake vs their average stake (0.25×–5×)" },
+  { value: "kelly", label: "Kelly", hint: "Fractional Kelly using the wallet's lifetime ROI as the edge" },
+]
+
+const DAY_OPTIONS = [7, 14, 30, 90]
+
+const SKIP_LABELS: Record<string, string> = {
+  started: "Game started",
+  price: "Price gone",
+  bankroll: "No bankroll",
+  no_edge: "No edge",
+}
+
+function formatMoney(n: number): string {
+  const sign = n < 0 ? "-" : ""
+  const abs = Math.abs(n)
+  if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`
+  if (abs >= 10_000) return `${sign}$${(abs / 1000).toFixed(1)}k`
+  return `${sign}$${abs.toFixed(2)}`
+}
+
+function formatSigned(n: number, suffix = ""): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}${suffix}`
+}
+
+async function simulate([url, body]: [string, string]): Promise<CopyPortfolioResponse> {
+  const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body })
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  return res.json()
+}
+
+function NumberField({
+  label,
+  value,
+  step,
+  suffix,
+  onChange,
+}: {
+  label: string
+  value: number
+  step: number
+  suffix?: string
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex flex-col gap-0.5 text-[10px] text-neutral-400">
+      {label}
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value) || 0)}
+          className="w-full rounded-md border border-neutral-200 bg-white px-1.5 py-1 text-xs tabular-nums text-neutral-800 dark:border-neutral-800 dark:bg-neutral-900 dark:text-neutral-200"
+        />
+        {suffix && <span className="text-[10px] text-neutral-400">{suffix}</span>}
+      </div>
+    </label>
+  )
+}
+
+function Stat({ label, value, tone }: { label: string; value: string; tone?: "up" | "down" }) {
+  return (
+    <div className="rounded-lg border border-neutral-200/60 bg-neutral-50/50 px-3 py-2 dark:border-neutral-700/30 dark:bg-neutral-800/40">
+      <p className="text-[10px] uppercase tracking-wide text-neutral-400">{label}</p>
+      <p
+        className={cn(
+          "text-sm font-semibold tabular-nums text-neutral-900 dark:text-neutral-100",
+          tone === "up" && "text-emerald-600 dark:text-emerald-400",
+          tone === "down" && "text-red-500 dark:text-red-400"
+        )}
+      >
+        {value}
+      </p>
+    </div>
+  )
+}
+
+interface FollowPortfolioProps {
+  followedWallets: string[]
+  savedSettings?: Partial<CopyTradingSettings> | null
+  onSaveSettings: (settings: CopyTradingSettings) => void
+}
+
+/**
+ * Simulated portfolio from copying every followed wallet's bets
+ */
+export function FollowPortfolio({ followedWallets, savedSettings, onSaveSettings }: FollowPortfolioProps) {
+  const [settings, setSettings] = useState<CopyTradingSettings>(() => normalizeCopySettings(savedSettings))
+
+  // Preferences hydrate after mount
+  useEffect(() => {
+    if (savedSettings) setSettings(normalizeCopySettings(savedSettings))
+  }, [savedSettings])
+
+  const update = (patch: Partial<CopyTradingSettings>) => {
+    const next = normalizeCopySettings({ ...settings, ...patch })
+    setSettings(next)
+    onSaveSettings(next)
+  }
+
+  const body = JSON.stringify({ wallets: followedWallets, settings })
+  const { data, error, isLoading } = useSWR<CopyPortfolioResponse>(
+    followedWallets.length > 0 ? ["/api/polymarket/follow-portfolio", body] : null,
+    simulate,
+    { keepPreviousData: true, revalidateOnFocus: false }
+  )
+
+  if (followedWallets.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <p className="text-sm text-neutral-400">Follow wallets to build a portfolio</p>
+        <p className="mt-1 text-xs text-neutral-600">Use the Follow button on the leaderboard or any pick</p>
+      </div>
+    )
+  }
+
+  const summary = data?.summary
+  const curve = (data?.curve ?? []).map((p) => ({ ...p, label: format(new Date(p.t), "MMM d") }))
+
+  return (
+    <div className="space-y-3">
+      {/* Settings */}
+      <div className="space-y-2 rounded-lg border border-neutral-200/60 p-3 dark:border-neutral-700/30">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-0.5 rounded-md border border-neutral-200 bg-neutral-100 p-0.5 dark:border-neutral-800/30 dark:bg-neutral-900/60">
+            {SIZING_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                title={opt.hint}
+                onClick={() => update({ sizing: opt.value })}
+                className={cn(
+                  "rounded px-2 py-0.5 text-[11px] font-medium transition-all duration-150",
+                  settings.sizing === opt.value
+                    ? "bg-white text-neutral-900 shadow-sm dark:bg-neutral-800/80 dark:text-neutral-200"
+                    : "text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+                )}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-0.5">
+            {DAY_OPTIONS.map((d) => (
+              <button
+                key={d}
+                onClick={() => update({ days: d })}
+                className={cn(
+                  "rounded px-2 py-0.5 text-[11px] font-medium",
+                  settings.days === d ? "bg-sky-500/15 text-sky-600 dark:text-sky-400" : "text-neutral-500 hover:text-neutral-700"
+                )}
+              >
+                {d}d
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+          <NumberField label="Bankroll" value={settings.bankroll} step={100} onChange={(v) => update({ bankroll: v })} />
+          {settings.sizing === "kelly" ? (
+            <NumberField label="Kelly fraction" value={settings.kelly_fraction} step={0.05} onChange={(v) => update({ kelly_fraction: v })} />
+          ) : (
+            <NumberField label="Unit" value={settings.unit} step={5} onChange={(v) => update({ unit: v })} />
+          )}
+          <NumberField label="Max stake" value={settings.max_stake_pct} step={0.5} suffix="%" onChange={(v) => update({ max_stake_pct: v })} />
+          <NumberField label="Entry delay" value={settings.entry_delay_minutes} step={1} suffix="min" onChange={(v) => update({ entry_delay_minutes: v })} />
+          <NumberField label="Slippage" value={settings.slippage_cents} step={0.5} suffix="¢" onChange={(v) => update({ slippage_cents: v })} />
+        </div>
+      </div>
+
+      {error && <p className="py-6 text-center text-sm text-red-400">Failed to run the simulation. Please try again.</p>}
+      {isLoading && !data && <div className="h-48 animate-pulse rounded-lg bg-neutral-100 dark:bg-neutral-800/40" />}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            <Stat label="Bankroll" value={formatMoney(summary.end_bankroll)} tone={summary.growth_pct >= 0 ? "up" : "down"} />
+            <Stat label="P&L" value={formatMoney(summary.pnl)} tone={summary.pnl >= 0 ? "up" : "down"} />
+            <Stat label="ROI" value={formatSigned(summary.roi, "%")} tone={summary.roi >= 0 ? "up" : "down"} />
+            <Stat label="Max drawdown" value={`${formatMoney(summary.max_drawdown)} (${summary.max_drawdown_pct.toFixed(1)}%)`} tone="down" />
+          </div>
+          <p className="px-1 text-[11px] text-neutral-400">
+            {summary.bets} copied · {summary.wins}-{summary.losses} · {summary.pending} open ({formatMoney(summary.open_stake)}) · {summary.skipped} skipped
+          </p>
+          {data?.truncated && (
+            <p className="px-1 text-[11px] text-amber-500">
+              Too many signals in this window; only the most recent were simulated. Try a shorter range.
+            </p>
+          )}
+
+          {curve.length > 1 && (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={curve} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={56} tickFormatter={(v: number) => `$${v}`} domain={["auto", "auto"]} />
+                  <Tooltip formatter={(v) => formatMoney(Number(v))} labelClassName="text-xs" />
+                  <Area type="monotone" dataKey="bankroll" name="Bankroll" stroke="#0ea5e9" fill="#0ea5e9" fillOpacity={0.12} strokeWidth={2} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Per-wallet contribution */}
+          <div className="overflow-hidden rounded-lg border border-neutral-200/60 dark:border-neutral-700/30">
+            <table className="w-full text-xs">
+              <thead className="bg-neutral-50 text-[10px] uppercase tracking-wide text-neutral-400 dark:bg-neutral-800/40">
+                <tr>
+                  <th className="px-3 py-1.5 text-left font-medium">Wallet</th>
+                  <th className="px-3 py-1.5 text-right font-medium">Record</th>
+                  <th className="px-3 py-1.5 text-right font-medium">Staked</th>
+                  <th className="px-3 py-1.5 text-right font-medium">P&L</th>
+                  <th className="px-3 py-1.5 text-right font-medium">ROI</th>
+                  <th className="px-3 py-1.5 text-right font-medium">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200/60 dark:divide-neutral-800/40">
+                {(data?.contributions ?? []).map((c) => (
+                  <tr key={c.wallet_address}>
+                    <td className="px-3 py-1.5 font-medium text-neutral-800 dark:text-neutral-200">
+                      {c.wallet_username || `#${c.wallet_address.slice(0, 6).toUpperCase()}`}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-neutral-500">
+                      {c.wins}-{c.losses}{c.pending > 0 ? ` (${c.pending})` : ""}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-neutral-500">{formatMoney(c.staked)}</td>
+                    <td className={cn("px-3 py-1.5 text-right font-semibold tabular-nums", c.pnl >= 0 ? "text-emerald-500" : "text-red-400")}>
+                      {formatMoney(c.pnl)}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-neutral-500">{formatSigned(c.roi, "%")}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-neutral-500">{c.share_of_pnl.toFixed(0)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Recent copied bets */}
+          <div className="space-y-1">
+            {(data?.trades ?? []).slice(0, 50).map((trade) => (
+              <div
+                key={trade.id}
+                className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-xs hover:bg-neutral-50 dark:hover:bg-neutral-800/40"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-neutral-800 dark:text-neutral-200">
+                    {trade.outcome} · <span className="font-normal text-neutral-500">{trade.market_title}</span>
+                  </p>
+                  <p className="text-[10px] text-neutral-400">
+                    {trade.wallet_username || `#${trade.wallet_address.slice(0, 6).toUpperCase()}`} @ {(trade.their_entry * 100).toFixed(1)}¢
+                    {trade.copy_price != null && ` → us ${(trade.copy_price * 100).toFixed(1)}¢`} · {format(new Date(trade.placed_at), "MMM d, h:mm a")}
+                  </p>
+                </div>
+                <span
+                  className={cn(
+                    "shrink-0 tabular-nums font-semibold",
+                    trade.status === "won" && "text-emerald-500",
+                    trade.status === "lost" && "text-red-400",
+                    (trade.status === "pending" || trade.status === "skipped") && "text-neutral-400"
+                  )}
+                >
+                  {trade.status === "skipped"
+                    ? SKIP_LABELS[trade.skip_reason ?? ""] ?? "Skipped"
+                    : trade.status === "pending"
+                      ? `${formatMoney(trade.stake)} open`
+                      : formatMoney(trade.pnl)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -293,7 +293,9 @@ export function Leaderboard({ selectedWallet, onSelectWallet, followedWallets, o
             const isSelected = selectedWallet?.wallet_address === wallet.wallet_address
             const isFollowed = followedWallets.includes(wallet.wallet_address)
             const displayTier = walletTierToSignalTier(wallet.tier)
-            const roiPositive = (wallet.roi ?? 0) >= 0
+            // Clusters show the combined record of every wallet in them
+            const stats = wallet.cluster ?? wallet
+            const roiPositive = (stats.roi ?? 0) >= 0
 
             return (
               <div
@@ -316,6 +318,14 @@ export function Leaderboard({ selectedWallet, onSelectWallet, followedWallets, o
                   <span className="font-mono text-xs font-semibold text-neutral-900 dark:text-neutral-200 tabular-nums">
                     {anonId}
                   </span>
+                  {wallet.cluster && (
+                    <span
+                      title="Wallets that look like the same bettor, shown as one"
+                      className="text-[9px] font-semibold text-violet-600 dark:text-violet-400 bg-violet-500/10 rounded px-1 py-px"
+                    >
+                      {wallet.cluster.size} wallets
+                    </span>
+                  )}
                   {isFollowed && (
                     <span className="text-[9px] text-sky-600 dark:text-sky-400/80 font-medium">Following</span>
                   )}
@@ -331,14 +341,14 @@ export function Leaderboard({ selectedWallet, onSelectWallet, followedWallets, o
                 {/* Row 2: Stats */}
                 <div className="flex items-center gap-1.5 pl-[30px] text-[11px] text-neutral-500 tabular-nums">
                   <span>
-                    {wallet.wins}-{wallet.losses}
+                    {stats.wins}-{stats.losses}
                     <span className="text-neutral-400 dark:text-neutral-600 ml-1">
-                      ({wallet.win_rate != null ? wallet.win_rate.toFixed(0) : "—"}%)
+                      ({stats.win_rate != null ? stats.win_rate.toFixed(0) : "—"}%)
                     </span>
                   </span>
                   <span className="text-neutral-300 dark:text-neutral-700">&middot;</span>
                   <span className={cn("font-mono font-semibold", roiPositive ? "text-emerald-400" : "text-red-400")}>
-                    {roiPositive ? "+" : ""}{wallet.roi != null ? wallet.roi.toFixed(1) : "0"}%
+                    {roiPositive ? "+" : ""}{stats.roi != null ? stats.roi.toFixed(1) : "0"}%
                   </span>
                   {wallet.current_streak !== 0 && (
                     <>
@@ -355,7 +365,7 @@ export function Leaderboard({ selectedWallet, onSelectWallet, followedWallets, o
                   {wallet.primary_sport && (
                     <span className="uppercase">{wallet.primary_sport}</span>
                   )}
-                  <span className="text-neutral-400 dark:text-neutral-600">{formatMoney(wallet.avg_stake)} avg</span>
+                  <span className="text-neutral-400 dark:text-neutral-600">{formatMoney(stats.avg_stake)} avg</span>
                 </div>
               </div>
             )
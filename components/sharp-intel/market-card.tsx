@@ -19,6 +19,14 @@ export interface MarketSide {
   insiderPct?: number // % of this side's dollars from insiders
 }
 
+export interface MarketConsensusSummary {
+  outcome: string
+  strength: number // 0-100
+  label: "strong" | "lean" | "split"
+  pileOnWallets: number // top wallets in the latest pile-on, 0 if none
+  pileOnMinutes: number
+}
+
 export interface Market {
   id: string
   sport: string
@@ -32,6 +40,7 @@ export interface Market {
   wagerCount: number
   gameStartTime?: string
   lastSignalAt?: string
+  consensus?: MarketConsensusSummary
 }
 
 interface MarketCardProps {
@@ -121,7 +130,22 @@ export function MarketCard({ market, isSelected, onSelect, oddsFormat, flowMode
             </>
           )}
         </div>
-        <span className="text-[11px] text-neutral-400 dark:text-neutral-600">{timeDisplay}</span>
+        <div className="flex items-center gap-1.5">
+          {market.consensus && market.consensus.label !== "split" && (
+            <span
+              className={cn(
+                "rounded px-1.5 py-0.5 text-[10px] font-semibold tabular-nums",
+                market.consensus.label === "strong"
+                  ? "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400"
+                  : "bg-sky-500/10 text-sky-600 dark:text-sky-400"
+              )}
+              title={`Sharp consensus on ${market.consensus.outcome}`}
+            >
+              {market.consensus.strength}
+            </span>
+          )}
+          <span className="text-[11px] text-neutral-400 dark:text-neutral-600">{timeDisplay}</span>
+        </div>
       </div>
 
       {/* Row 2: Matchup */}
@@ -183,6 +207,12 @@ export function MarketCard({ market, isSelected, onSelect, oddsFormat, flowMode
         })}
       </div>
 
+      {market.consensus && market.consensus.pileOnWallets > 0 && (
+        <div className="mt-2 text-[10px] font-medium text-amber-600 dark:text-amber-400">
+          Pile-on: {market.consensus.pileOnWallets} top wallets on {market.consensus.outcome} within {market.consensus.pileOnMinutes}m
+        </div>
+      )}
+
       {/* Footer */}
       <div className="mt-2.5 pt-2 border-t border-neutral-200/60 dark:border-neutral-800/30 flex items-center justify-between text-[11px] text-neutral-400 dark:text-neutral-500 tabular-nums">
         <span>{formatMoney(market.totalVolume)} &middot; {market.wagerCount} positions</span>
@@ -11,7 +11,7 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
 } from "@/components/ui/dropdown-menu"
-import type { WalletScore, WhaleSignal } from "@/lib/polymarket/types"
+import type { WalletCluster, WalletScore, WhaleSignal } from "@/lib/polymarket/types"
 import { OddsFormat, formatOdds } from "@/lib/odds"
 import useSWR from "swr"
 
@@ -74,6 +74,87 @@ function FilterPill({ label, options, value, onChange }: {
   )
 }
 
+const EVIDENCE_LABELS: { key: keyof WalletCluster["evidence"]; label: string; tip: string }[] = [
+  { key: "co_timing", label: "Co-timing", tip: "Share of positions these wallets entered within minutes of each other." },
+  { key: "sequence", label: "Sequence", tip: "How much of their market history they took in the same order." },
+  { key: "funding", label: "Funding", tip: "Share of links where both wallets were first funded by the same address." },
+  { key: "stake", label: "Stake", tip: "How close their typical stake sizes are." },
+]
+
+function ClusterSection({ cluster, walletAddress }: { cluster: WalletCluster; walletAddress: string }) {
+  const roiPositive = (cluster.roi ?? 0) >= 0
+  return (
+    <div className="mb-5 rounded-lg bg-neutral-50 dark:bg-neutral-800/40 border border-neutral-200/50 dark:border-neutral-700/30 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <Tooltip content="Wallets that trade like one bettor: same markets, same order, minutes apart, or funded from the same address. Stats below are combined." side="left">
+          <p className="text-[11px] text-neutral-500 cursor-help">Wallet cluster &middot; {cluster.size} wallets</p>
+        </Tooltip>
+        <span className="text-[10px] text-neutral-400 tabular-nums">{Math.round(cluster.confidence * 100)}% match</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-x-4 mb-3 text-center">
+        <div>
+          <div className="font-mono text-sm font-bold tabular-nums text-neutral-900 dark:text-neutral-200">
+            {cluster.wins}-{cluster.losses}
+          </div>
+          <p className="text-[10px] text-neutral-400 dark:text-neutral-500 mt-0.5">Combined</p>
+        </div>
+        <div>
+          <div className={cn("font-mono text-sm font-bold tabular-nums", roiPositive ? "text-emerald-500 dark:text-emerald-400" : "text-red-500 dark:text-red-400")}>
+            {roiPositive ? "+" : ""}{cluster.roi != null ? cluster.roi.toFixed(1) : "0"}%
+          </div>
+          <p className="text-[10px] text-neutral-400 dark:text-neutral-500 mt-0.5">ROI</p>
+        </div>
+        <div>
+          <div className="font-mono text-sm font-bold tabular-nums text-neutral-900 dark:text-neutral-200">
+            {formatMoney(cluster.total_wagered)}
+          </div>
+          <p className="text-[10px] text-neutral-400 dark:text-neutral-500 mt-0.5">Volume</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {EVIDENCE_LABELS.map(({ key, label, tip }) => (
+          <Tooltip key={key} content={tip} side="bottom">
+            <div className="cursor-help">
+              <div className="h-1 rounded-full bg-neutral-200 dark:bg-neutral-700/50 overflow-hidden">
+                <div className="h-full bg-violet-500" style={{ width: `${Math.round(cluster.evidence[key] * 100)}%` }} />
+              </div>
+              <p className="text-[9px] text-neutral-400 mt-1">{label}</p>
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+
+      <div className="divide-y divide-neutral-200/60 dark:divide-neutral-700/30">
+        {cluster.members.map((m) => {
+          const mp = (m.roi ?? 0) >= 0
+          return (
+            <div key={m.wallet_address} className="flex items-center justify-between py-1.5 text-xs">
+              <div className="flex items-center gap-1.5">
+                <span className="font-mono font-semibold text-neutral-700 dark:text-neutral-300 tabular-nums">
+                  #{m.wallet_address.slice(0, 4).toUpperCase()}
+                </span>
+                {m.wallet_address === walletAddress && <span className="text-[9px] text-sky-600 dark:text-sky-400">This wallet</span>}
+                {m.wallet_address === cluster.primary_wallet && m.wallet_address !== walletAddress && (
+                  <span className="text-[9px] text-neutral-400">Primary</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 tabular-nums">
+                <span className="text-neutral-500">{m.rank ? `#${m.rank}` : "—"}</span>
+                <span className="text-neutral-500">{m.total_bets} bets</span>
+                <span className={cn("font-mono font-semibold", mp ? "text-emerald-400" : "text-red-400")}>
+                  {mp ? "+" : ""}{(m.roi ?? 0).toFixed(1)}%
+                </span>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
 export function WalletDetailPanel({ wallet, oddsFormat, isFollowing, onToggleFollow }: WalletDetailPanelProps) {
   const anonId = `#${wallet.wallet_address.slice(0, 4).toUpperCase()}`
   const displayTier = walletTierToSignalTier(wallet.tier)
@@ -197,6 +278,8 @@ export function WalletDetailPanel({ wallet, oddsFormat, isFollowing, onToggleFol
         ))}
       </div>
 
+      {wallet.cluster && <ClusterSection cluster={wallet.cluster} walletAddress={wallet.wallet_address} />}
+
       {/* Data transparency — Polymarket history vs our tracked */}
       <div className="rounded-lg bg-neutral-50 dark:bg-neutral-800/40 border border-neutral-200/50 dark:border-neutral-700/30 divide-y divide-neutral-200/60 dark:divide-neutral-700/30 mb-5">
         <Tooltip content="Total trades: historical from Polymarket + sports bets tracked by us in real-time. This number grows daily as we track new bets." side="left">
@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ArrowRight, Loader2, Timer } from "lucide-react";
+import { sportsbooks } from "@/lib/data/sportsbooks";
+import { formatMarketLabel } from "@/lib/data/markets";
+import { cn } from "@/lib/utils";
+import { SportIcon } from "@/components/icons/sport-icons";
+import { Tooltip } from "@/components/tooltip";
+import { formatOdds } from "@/lib/line-history/utils";
+import type { BookLag, StaleLine } from "@/lib/stale-lines/types";
+
+const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
+
+type SortKey = "ev" | "staleness";
+
+interface StaleLinesTableProps {
+  lines: StaleLine[];
+  lags: BookLag[];
+  loading?: boolean;
+  error?: Error | null;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+function formatSelection(line: StaleLine): string {
+  if (line.side === "over" || line.side === "under") {
+    return `${line.side === "over" ? "Over" : "Under"} ${line.line ?? ""}`.trim();
+  }
+  if (line.side === "spread" && line.line != null) return line.line > 0 ? `+${line.line}` : String(line.line);
+  return "ML";
+}
+
+function bookName(book: string): string {
+  return SB_MAP.get(book.toLowerCase())?.name ?? book;
+}
+
+function BookLogo({ book, className }: { book: string; className?: string }) {
+  const sb = SB_MAP.get(book.toLowerCase());
+  return sb?.logo ? (
+    <img src={sb.logo} alt={sb.name} className={cn("h-5 w-5 shrink-0 rounded object-contain", className)} />
+  ) : (
+    <span className={cn("inline-flex h-5 min-w-5 items-center justify-center rounded bg-neutral-200 px-1 text-[9px] font-semibold uppercase dark:bg-neutral-700", className)}>
+      {book.slice(0, 2)}
+    </span>
+  );
+}
+
+/** How much of the book's usual lag has already passed */
+function LagMeter({ line }: { line: StaleLine }) {
+  if (line.expected_lag_ms == null) {
+    return <span className="text-xs text-neutral-400">No lag data</span>;
+  }
+  const used = Math.min(1, line.staleness_ms / Math.max(line.expected_lag_ms, 1));
+  return (
+    <Tooltip content={`${bookName(line.book)} usually follows sharp moves in ${formatElapsed(line.expected_lag_ms)}`}>
+      <div className="w-24 cursor-help">
+        <div className="h-1.5 overflow-hidden rounded-full bg-neutral-200 dark:bg-neutral-700">
+          <div
+            className={cn("h-full rounded-full", used < 0.5 ? "bg-emerald-500" : used < 1 ? "bg-amber-500" : "bg-rose-500")}
+            style={{ width: `${used * 100}%` }}
+          />
+        </div>
+        <div className="mt-1 text-[11px] tabular-nums text-neutral-500 dark:text-neutral-400">
+          ~{formatElapsed(line.expected_lag_ms)} typical
+        </div>
+      </div>
+    </Tooltip>
+  );
+}
+
+export function StaleLinesTable({ lines, lags, loading, error }: StaleLinesTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("ev");
+
+  const sorted = useMemo(
+    () => (sortKey === "ev" ? lines : [...lines].sort((a, b) => a.staleness_ms - b.staleness_ms || b.ev - a.ev)),
+    [lines, sortKey]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-neutral-200 bg-white px-4 py-3 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="flex items-center gap-1.5">
+          <span className="mr-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">Sort</span>
+          {(["ev", "staleness"] as const).map((key) => (
+            <button
+              key={key}
+              onClick={() => setSortKey(key)}
+              className={cn(
+                "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors",
+                sortKey === key
+                  ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:hover:bg-neutral-700"
+              )}
+            >
+              {key === "ev" ? "EV" : "Freshest move"}
+            </button>
+          ))}
+        </div>
+        {lags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <Timer className="h-3.5 w-3.5 text-neutral-400" />
+            <span className="text-xs font-medium text-neutral-500 dark:text-neutral-400">Median lag</span>
+            {lags.slice(0, 8).map((lag) => (
+              <Tooltip key={lag.book} content={`${bookName(lag.book)}: median ${formatElapsed(lag.median_ms)}, p90 ${formatElapsed(lag.p90_ms)} over ${lag.samples} sharp moves`}>
+                <span className="flex cursor-help items-center gap-1 rounded-md bg-neutral-50 px-1.5 py-1 text-xs tabular-nums text-neutral-700 dark:bg-neutral-800/60 dark:text-neutral-300">
+                  <BookLogo book={lag.book} className="h-4 w-4" />
+                  {formatElapsed(lag.median_ms)}
+                </span>
+              </Tooltip>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16 text-neutral-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-center text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/20 dark:text-rose-300">
+          {error.message}
+        </div>
+      ) : sorted.length === 0 ? (
+        <div className="rounded-xl border border-neutral-200 bg-white p-12 text-center dark:border-neutral-800 dark:bg-neutral-900">
+          <Timer className="mx-auto mb-3 h-8 w-8 text-neutral-300 dark:text-neutral-600" />
+          <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">No stale lines right now</p>
+          <p className="mt-1 text-xs text-neutral-500">Lines appear here the moment a sharp book moves and a soft book hasn&apos;t.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-neutral-900">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-[11px] font-semibold uppercase tracking-wide text-neutral-500 dark:border-neutral-800 dark:text-neutral-400">
+                <th className="px-4 py-3">Selection</th>
+                <th className="px-4 py-3">Stale price</th>
+                <th className="px-4 py-3">Sharp move</th>
+                <th className="px-4 py-3 text-right">Fair</th>
+                <th className="px-4 py-3 text-right">EV</th>
+                <th className="px-4 py-3">Since move</th>
+                <th className="px-4 py-3">Book lag</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((line) => (
+                <tr key={line.id} className="border-b border-neutral-100 last:border-0 dark:border-neutral-800/60">
+                  <td className="px-4 py-3 align-middle">
+                    <div className="flex items-center gap-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+                      <SportIcon sport={line.sport} className="h-3 w-3" />
+                      <span className="uppercase">{line.sport}</span>
+                      <span>·</span>
+                      <span>{formatMarketLabel(line.market)}</span>
+                    </div>
+                    <div className="mt-0.5 font-medium text-neutral-900 dark:text-white">
+                      {line.player_name || "Game"} <span className="text-neutral-500 dark:text-neutral-400">{formatSelection(line)}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 align-middle">
+                    <Tooltip content={`${bookName(line.book)} last changed this price ${formatElapsed(line.sharp_moved_at - line.changed_at)} before the sharp move`}>
+                      <span className="inline-flex cursor-help items-center gap-2 rounded-md border border-emerald-200 bg-emerald-50 px-2 py-1 font-bold tabular-nums text-emerald-700 dark:border-emerald-900/50 dark:bg-emerald-950/30 dark:text-emerald-300">
+                        <BookLogo book={line.book} />
+                        {formatOdds(line.price)}
+                      </span>
+                    </Tooltip>
+                  </td>
+                  <td className="px-4 py-3 align-middle">
+                    <div className="flex items-center gap-2">
+                      <BookLogo book={line.sharp_book} />
+                      <span className="flex items-center gap-1 text-xs tabular-nums text-neutral-500 dark:text-neutral-400">
+                        {formatOdds(line.sharp_prev_price)}
+                        <ArrowRight className="h-3 w-3" />
+                      </span>
+                      <span className="font-semibold tabular-nums text-neutral-900 dark:text-white">{formatOdds(line.sharp_price)}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right align-middle">
+                    <Tooltip content={`De-vigged from ${bookName(line.sharp_book)} ${formatOdds(line.sharp_price)} / ${formatOdds(line.sharp_opposite_price)}`}>
+                      <span className="cursor-help tabular-nums text-neutral-700 dark:text-neutral-300">{formatOdds(line.fair_price)}</span>
+                    </Tooltip>
+                  </td>
+                  <td className="px-4 py-3 text-right align-middle">
+                    <span className="font-bold tabular-nums text-emerald-600 dark:text-emerald-400">+{line.ev.toFixed(2)}%</span>
+                  </td>
+                  <td className="px-4 py-3 align-middle">
+                    <span className="text-xs font-semibold tabular-nums text-neutral-700 dark:text-neutral-300">
+                      {formatElapsed(line.staleness_ms)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 align-middle">
+                    <LagMeter line={line} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
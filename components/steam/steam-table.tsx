@@ -0,0 +1,207 @@
+"use client";
+
+import React from "react";
+import { ArrowRight, Flame, Loader2 } from "lucide-react";
+import { sportsbooks } from "@/lib/data/sportsbooks";
+import { formatMarketLabel } from "@/lib/data/markets";
+import { cn } from "@/lib/utils";
+import { SportIcon } from "@/components/icons/sport-icons";
+import { Tooltip } from "@/components/tooltip";
+import { formatOdds } from "@/lib/line-history/utils";
+import type { SteamSignal, SteamSignalKind } from "@/lib/steam/types";
+
+const SB_MAP = new Map(sportsbooks.map((sb) => [sb.id.toLowerCase(), sb]));
+
+export const STEAM_KIND_LABELS: Record<SteamSignalKind, string> = {
+  steam: "Steam",
+  stale: "Stale line",
+  rlm: "Reverse move",
+};
+
+const KIND_DESCRIPTIONS: Record<SteamSignalKind, string> = {
+  steam: "Several books shortened this price together",
+  stale: "A sharp book moved first — these books haven't followed yet",
+  rlm: "The sharp book shortened while soft books drifted the other way",
+};
+
+interface SteamTableProps {
+  signals: SteamSignal[];
+  kinds: SteamSignalKind[];
+  onKindsChange: (kinds: SteamSignalKind[]) => void;
+  /** Current time, ticked by the feed so latency labels stay live */
+  now: number;
+  loading?: boolean;
+  error?: Error | null;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatSelection(signal: SteamSignal): string {
+  const side = signal.side === "over" ? "Over" : signal.side === "under" ? "Under" : "";
+  if (side) return `${side} ${signal.line ?? ""}`.trim();
+  if (signal.side === "spread" && signal.line != null) return signal.line > 0 ? `+${signal.line}` : String(signal.line);
+  return "ML";
+}
+
+function BookLogo({ book, className }: { book: string; className?: string }) {
+  const sb = SB_MAP.get(book.toLowerCase());
+  return sb?.logo ? (
+    <img src={sb.logo} alt={sb.name} className={cn("h-5 w-5 shrink-0 rounded object-contain", className)} />
+  ) : (
+    <span className={cn("inline-flex h-5 min-w-5 items-center justify-center rounded bg-neutral-200 px-1 text-[9px] font-semibold uppercase dark:bg-neutral-700", className)}>
+      {book.slice(0, 2)}
+    </span>
+  );
+}
+
+export function SteamTable({ signals, kinds, onKindsChange, now, loading, error }: SteamTableProps) {
+  const toggleKind = (kind: SteamSignalKind) => {
+    onKindsChange(kinds.includes(kind) ? kinds.filter((k) => k !== kind) : [...kinds, kind]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-1.5 rounded-xl border border-neutral-200 bg-white px-4 py-3 dark:border-neutral-800 dark:bg-neutral-900">
+        {(Object.keys(STEAM_KIND_LABELS) as SteamSignalKind[]).map((kind) => (
+          <Tooltip key={kind} content={KIND_DESCRIPTIONS[kind]}>
+            <button
+              onClick={() => toggleKind(kind)}
+              className={cn(
+                "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors",
+                kinds.includes(kind)
+                  ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "bg-neutral-100 text-neutral-600 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:hover:bg-neutral-700"
+              )}
+            >
+              {STEAM_KIND_LABELS[kind]}
+            </button>
+          </Tooltip>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16 text-neutral-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-center text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/20 dark:text-rose-300">
+          {error.message}
+        </div>
+      ) : signals.length === 0 ? (
+        <div className="rounded-xl border border-neutral-200 bg-white p-12 text-center dark:border-neutral-800 dark:bg-neutral-900">
+          <Flame className="mx-auto mb-3 h-8 w-8 text-neutral-300 dark:text-neutral-600" />
+          <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">No line moves detected yet</p>
+          <p className="mt-1 text-xs text-neutral-500">New signals appear here live as books move.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-neutral-900">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-[11px] font-semibold uppercase tracking-wide text-neutral-500 dark:border-neutral-800 dark:text-neutral-400">
+                <th className="px-4 py-3">Signal</th>
+                <th className="px-4 py-3">Selection</th>
+                <th className="px-4 py-3">Lead move</th>
+                <th className="px-4 py-3">Books moved</th>
+                <th className="px-4 py-3">Still stale</th>
+              </tr>
+            </thead>
+            <tbody>
+              {signals.map((signal) => {
+                const leadMove = signal.moves.find((move) => move.bookId === signal.lead_book);
+                const followers = signal.moves.filter((move) => move.bookId !== signal.lead_book);
+
+                return (
+                  <tr key={signal.id} className="border-b border-neutral-100 last:border-0 dark:border-neutral-800/60">
+                    <td className="px-4 py-3 align-middle">
+                      <span className={cn(
+                        "inline-flex rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase",
+                        signal.kind === "steam"
+                          ? "bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300"
+                          : signal.kind === "stale"
+                            ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300"
+                            : "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300"
+                      )}>
+                        {STEAM_KIND_LABELS[signal.kind]}
+                      </span>
+                      <Tooltip content={`Detected ${formatElapsed(signal.detection_latency_ms)} after the first move`}>
+                        <div className="mt-1 cursor-help text-xs tabular-nums text-neutral-500 dark:text-neutral-400">
+                          {formatElapsed(now - signal.first_move_at)} since move
+                        </div>
+                      </Tooltip>
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      <div className="flex items-center gap-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+                        <SportIcon sport={signal.sport} className="h-3 w-3" />
+                        <span className="uppercase">{signal.sport}</span>
+                        <span>·</span>
+                        <span>{formatMarketLabel(signal.market)}</span>
+                      </div>
+                      <div className="mt-0.5 font-medium text-neutral-900 dark:text-white">
+                        {signal.player_name || "Game"} <span className="text-neutral-500 dark:text-neutral-400">{formatSelection(signal)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      <div className="flex items-center gap-2">
+                        <BookLogo book={signal.lead_book} />
+                        {leadMove && (
+                          <span className="flex items-center gap-1 text-xs tabular-nums text-neutral-500 dark:text-neutral-400">
+                            {formatOdds(leadMove.prevPrice)}
+                            <ArrowRight className="h-3 w-3" />
+                          </span>
+                        )}
+                        <span className="font-bold tabular-nums text-neutral-900 dark:text-white">{formatOdds(signal.lead_price)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      {followers.length === 0 ? (
+                        <span className="text-xs text-neutral-400">—</span>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          {followers.map((move) => (
+                            <Tooltip
+                              key={move.bookId}
+                              content={`${formatOdds(move.prevPrice)} → ${formatOdds(move.price)} · ${formatElapsed(move.timestamp - signal.first_move_at)} after lead`}
+                            >
+                              <span className="flex cursor-help items-center gap-1 rounded-md bg-neutral-50 px-1.5 py-1 text-xs tabular-nums dark:bg-neutral-800/60">
+                                <BookLogo book={move.bookId} className="h-4 w-4" />
+                                <span className={move.direction === "down" ? "text-orange-600 dark:text-orange-400" : "text-sky-600 dark:text-sky-400"}>
+                                  {formatOdds(move.price)}
+                                </span>
+                              </span>
+                            </Tooltip>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-middle">
+                      {signal.stale_books.length === 0 ? (
+                        <span className="text-xs text-neutral-400">All books moved</span>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          {signal.stale_books.map((book) => (
+                            <Tooltip key={book.book} content={`${book.gap}¢ longer than ${formatOdds(signal.lead_price)} · unchanged for ${formatElapsed(now - book.updated_at)}`}>
+                              <span className="flex cursor-help items-center gap-1 rounded-md border border-emerald-200 bg-emerald-50 px-1.5 py-1 text-xs font-semibold tabular-nums text-emerald-700 dark:border-emerald-900/50 dark:bg-emerald-950/30 dark:text-emerald-300">
+                                <BookLogo book={book.book} className="h-4 w-4" />
+                                {formatOdds(book.price)}
+                              </span>
+                            </Tooltip>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
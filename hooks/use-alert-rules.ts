@@ -0,0 +1,150 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import type { AlertDestinations, AlertHistoryEntry, AlertRule } from "@/lib/alerts/types";
+import type { CreateAlertRuleInput, UpdateAlertRuleInput } from "@/lib/alerts/schema";
+
+const QUERY_KEY = ["alert-rules"];
+
+const PUSH_SW_PATH = "/alerts-sw.js";
+
+export interface AlertDestinationsResponse {
+  destinations: Omit<AlertDestinations, "updated_at"> & { updated_at: string | null };
+  account_email: string | null;
+  push_devices: number;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+const jsonInit = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const output = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) output[i] = raw.charCodeAt(i);
+  return output;
+}
+
+export function isWebPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+/**
+ * Ask for notification permission, subscribe this browser and register the
+ * subscription with the server.
+ */
+async function subscribeToPush(): Promise<void> {
+  const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  if (!vapidKey || !isWebPushSupported()) throw new Error("Push notifications aren't supported in this browser");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notification permission was denied");
+
+  const registration = await navigator.serviceWorker.register(PUSH_SW_PATH);
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidKey),
+    }));
+
+  await fetchJson("/api/user/push-subscriptions", jsonInit("POST", subscription.toJSON()));
+}
+
+/**
+ * Hook for alert rules, their delivery destinations and the alert history log.
+ */
+export function useAlertRules() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const rulesQuery = useQuery<{ rules: AlertRule[]; count: number }>({
+    queryKey: [...QUERY_KEY, "rules", user?.id],
+    queryFn: () => fetchJson("/api/user/alert-rules"),
+    enabled: !!user,
+    staleTime: 30_000,
+  });
+
+  const destinationsQuery = useQuery<AlertDestinationsResponse>({
+    queryKey: [...QUERY_KEY, "destinations", user?.id],
+    queryFn: () => fetchJson("/api/user/alert-destinations"),
+    enabled: !!user,
+    staleTime: 60_000,
+  });
+
+  const historyQuery = useQuery<{ entries: AlertHistoryEntry[]; count: number }>({
+    queryKey: [...QUERY_KEY, "history", user?.id],
+    queryFn: () => fetchJson("/api/user/alert-history?limit=100"),
+    enabled: !!user,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const createRuleMutation = useMutation({
+    mutationFn: (rule: CreateAlertRuleInput) =>
+      fetchJson<{ rule: AlertRule }>("/api/user/alert-rules", jsonInit("POST", rule)),
+    onSuccess: invalidate,
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: ({ id, ...updates }: UpdateAlertRuleInput & { id: string }) =>
+      fetchJson<{ rule: AlertRule }>(`/api/user/alert-rules/${id}`, jsonInit("PATCH", updates)),
+    onSuccess: invalidate,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) => fetchJson(`/api/user/alert-rules/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+  });
+
+  const saveDestinationsMutation = useMutation({
+    mutationFn: (destinations: Partial<Pick<AlertDestinations, "discord_webhook_url" | "slack_webhook_url">>) =>
+      fetchJson("/api/user/alert-destinations", jsonInit("PUT", destinations)),
+    onSuccess: invalidate,
+  });
+
+  const enablePushMutation = useMutation({
+    mutationFn: subscribeToPush,
+    onSuccess: invalidate,
+  });
+
+  return {
+    rules: rulesQuery.data?.rules ?? [],
+    destinations: destinationsQuery.data ?? null,
+    history: historyQuery.data?.entries ?? [],
+    isLoading: rulesQuery.isLoading || destinationsQuery.isLoading,
+    isHistoryLoading: historyQuery.isLoading,
+    error: rulesQuery.error || destinationsQuery.error,
+
+    createRule: createRuleMutation.mutateAsync,
+    isCreating: createRuleMutation.isPending,
+    updateRule: updateRuleMutation.mutateAsync,
+    deleteRule: deleteRuleMutation.mutateAsync,
+    saveDestinations: saveDestinationsMutation.mutateAsync,
+    isSavingDestinations: saveDestinationsMutation.isPending,
+    enablePush: enablePushMutation.mutateAsync,
+    isEnablingPush: enablePushMutation.isPending,
+  };
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import type {
+  BankrollAnalytics,
+  BankrollLedgerEntry,
+  BankrollSummary,
+  CreateLedgerEntryParams,
+} from "@/lib/bankroll";
+
+const QUERY_KEY = ["bankroll"];
+
+export interface BankrollAnalyticsFilters {
+  from?: string | null;
+  to?: string | null;
+  sport?: string | null;
+  book?: string | null;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+/**
+ * Hook for the bankroll ledger: per-book balances, history and cash movements.
+ */
+export function useBankroll() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const summaryQuery = useQuery<BankrollSummary>({
+    queryKey: [...QUERY_KEY, "summary", user?.id],
+    queryFn: () => fetchJson<BankrollSummary>("/api/user/bankroll"),
+    enabled: !!user,
+    staleTime: 30_000,
+  });
+
+  const transactionsQuery = useQuery<{ entries: BankrollLedgerEntry[]; count: number }>({
+    queryKey: [...QUERY_KEY, "transactions", user?.id],
+    queryFn: () => fetchJson("/api/user/bankroll/transactions?limit=200"),
+    enabled: !!user,
+    staleTime: 30_000,
+  });
+
+  const addTransactionMutation = useMutation({
+    mutationFn: (params: CreateLedgerEntryParams) =>
+      fetchJson<{ entry: BankrollLedgerEntry }>("/api/user/bankroll/transactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (settings: { unit_size: number }) =>
+      fetchJson("/api/user/bankroll", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+  });
+
+  return {
+    summary: summaryQuery.data ?? null,
+    transactions: transactionsQuery.data?.entries ?? [],
+    isLoading: summaryQuery.isLoading || transactionsQuery.isLoading,
+    error: summaryQuery.error || transactionsQuery.error,
+
+    addTransaction: addTransactionMutation.mutateAsync,
+    isAddingTransaction: addTransactionMutation.isPending,
+    updateSettings: updateSettingsMutation.mutateAsync,
+    isUpdatingSettings: updateSettingsMutation.isPending,
+  };
+}
+
+/**
+ * Hook for P&L analytics over settled betslips.
+ */
+export function useBankrollAnalytics(filters: BankrollAnalyticsFilters = {}) {
+  const { user } = useAuth();
+
+  const params = new URLSearchParams();
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.sport) params.set("sport", filters.sport);
+  if (filters.book) params.set("book", filters.book);
+  const qs = params.toString();
+
+  return useQuery<BankrollAnalytics>({
+    queryKey: [...QUERY_KEY, "analytics", user?.id, qs],
+    queryFn: () => fetchJson<BankrollAnalytics>(`/api/user/bankroll/analytics${qs ? `?${qs}` : ""}`),
+    enabled: !!user,
+    staleTime: 60_000,
+  });
+}
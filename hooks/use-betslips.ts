@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { createClient } from "@/libs/supabase/client";
 import { useAuth } from "@/components/auth/auth-provider";
 import { Favorite } from "./use-favorites";
+import type { LegResult, VoidReason } from "@/lib/settlement/types";
 
 // ============================================================================
 // TYPES
@@ -16,6 +17,11 @@ export interface BetslipItem {
   position: number;
   odds_snapshot: Record<string, { price: number }> | null;
   created_at: string;
+  // Settlement (set by settle-betslips cron)
+  result: LegResult | null;
+  actual_value: number | null;
+  void_reason: VoidReason | null;
+  graded_at: string | null;
   // Joined favorite data
   favorite?: Favorite;
 }
@@ -59,6 +65,14 @@ export interface Betslip {
   placed_odds: number | null;
   stake_amount: number | null;
   potential_payout: number | null;
+  // Settlement (set by settle-betslips cron)
+  settled_at: string | null;
+  settled_payout: number | null;
+  settled_odds: number | null;
+  auto_settled: boolean | null;
+  // Closing line (product of leg fair closes, set by capture-closing-lines cron)
+  closing_odds?: number | null;
+  clv_percent?: number | null;
   created_at: string;
   updated_at: string;
   // SGP odds cache
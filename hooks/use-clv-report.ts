@@ -0,0 +1,40 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import type { CLVReport } from "@/lib/clv/types";
+
+const QUERY_KEY = ["clv-report"];
+
+export interface CLVReportFilters {
+  from?: string | null;
+  to?: string | null;
+  sport?: string | null;
+}
+
+/**
+ * Hook for the "how good are my entries" CLV report.
+ */
+export function useCLVReport(filters: CLVReportFilters = {}) {
+  const { user } = useAuth();
+
+  const params = new URLSearchParams();
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.sport) params.set("sport", filters.sport);
+  const qs = params.toString();
+
+  return useQuery<CLVReport>({
+    queryKey: [...QUERY_KEY, user?.id, qs],
+    queryFn: async () => {
+      const res = await fetch(`/api/user/clv-report${qs ? `?${qs}` : ""}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+      }
+      return res.json();
+    },
+    enabled: !!user,
+    staleTime: 60_000,
+  });
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import type { BacktestReport } from "@/lib/backtest/types";
+
+export interface EvBacktestRequest {
+  sports: string[];
+  presets?: SharpPreset[];
+  methods?: DevigMethod[];
+  modelId?: string;
+  minEV: number;
+  maxEV?: number;
+  /** ISO datetime */
+  from?: string;
+  /** ISO datetime */
+  to?: string;
+}
+
+/**
+ * Run a backtest of sharp presets and/or a saved EV model against
+ * captured, graded markets
+ */
+export function useEvBacktest() {
+  return useMutation<BacktestReport, Error, EvBacktestRequest>({
+    mutationFn: async (request) => {
+      const res = await fetch("/api/user/ev-models/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to run backtest");
+      }
+      return res.json();
+    },
+  });
+}
@@ -84,6 +84,8 @@ export function useEvModels() {
           min_books_reference: newModel.min_books_reference ?? 2,
           min_odds: newModel.min_odds ?? -500,
           max_odds: newModel.max_odds ?? 500,
+          fair_source: newModel.fair_source || "market",
+          projection_weights: newModel.projection_weights || null,
           is_active: true,
           is_favorite: newModel.is_favorite || false,
           sort_order: previousData.models.length,
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { FairCurve } from "@/lib/ev/fair-curve";
+
+interface UseFairCurveParams {
+  sport?: string | null;
+  eventId?: string | null;
+  market?: string | null;
+  playerKey?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Fitted fair distribution for a player's stat, interpolated from the sharp
+ * books' de-vigged main and alternate lines.
+ */
+export function useFairCurve({ sport, eventId, market, playerKey, enabled = true }: UseFairCurveParams) {
+  return useQuery<FairCurve | null>({
+    queryKey: ["fair-curve", sport, eventId, market, playerKey],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        sport: sport!,
+        eventId: eventId!,
+        market: market!,
+        player: playerKey!,
+        includeFair: "true",
+      });
+      const res = await fetch(`/api/v2/props/alternates?${params.toString()}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`fair curve failed: ${res.status}`);
+      const json = await res.json();
+      return (json.fair_curve as FairCurve | null | undefined) ?? null;
+    },
+    enabled: enabled && !!sport && !!eventId && !!market && !!playerKey,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+  });
+}
@@ -54,6 +54,10 @@ export interface RefreshedOdds {
   }>;
   is_available: boolean;
   line: number | null;
+  // CLV vs the fair price (closing once the event has started, else current)
+  fair_odds: number | null;
+  clv_percent: number | null;
+  clv_is_final: boolean;
 }
 
 /**
@@ -119,6 +123,15 @@ export interface Favorite {
   status: "active" | "expired";
   expired_at: string | null;
   expire_reason: "live" | "start_time" | "manual" | null;
+
+  // Closing line (set by capture-closing-lines cron at event start)
+  closing_fair_odds?: number | null;
+  closing_fair_prob?: number | null;
+  closing_best_price?: number | null;
+  closing_best_book?: string | null;
+  closing_sharp_preset?: string | null;
+  closing_captured_at?: string | null;
+  clv_percent?: number | null;
 }
 
 /**
@@ -29,6 +29,15 @@ export interface ThresholdData {
   edgePct: number | null;        // ((best/avg) - 1) * 100
   bookCount: number;             // Number of books with odds
   isBestCell: boolean;           // True if this is the best edge cell in the row
+  // Monte Carlo model (only when includeModel is set)
+  modelOverProb?: number | null;  // Model P(over) at actualLine ?? threshold (0-100)
+  modelFairOdds?: number | null;  // Fair American odds for the over
+  modelEdgePct?: number | null;   // EV % of bestOdds vs the model
+  // Sharp fair curve (players with at least one sharp two-way line)
+  fairOverProb?: number | null;   // De-vigged P(over), interpolated between sharp lines (0-100)
+  fairOdds?: number | null;       // Fair American odds for the over
+  fairEdgePct?: number | null;    // EV % of bestOdds vs the sharp curve
+  fairSharp?: boolean;            // A sharp book quotes both sides at this line
 }
 
 export interface HitRateMatrixRow {
@@ -46,6 +55,7 @@ export interface HitRateMatrixRow {
   dvpRank: number | null;
   dvpQuality: "favorable" | "neutral" | "unfavorable" | null;
   primaryLine: number | null;
+  modelMean?: number | null;     // Simulated mean for the market (includeModel)
   thresholds: ThresholdData[];
   primaryColor: string | null;
   secondaryColor: string | null;
@@ -67,6 +77,8 @@ export interface UseHitRateMatrixOptions {
   gameDate?: string;
   timeWindow?: HitRateMatrixTimeWindow;
   positions?: string[];
+  /** Price every cell with the Monte Carlo game simulation */
+  includeModel?: boolean;
   enabled?: boolean;
 }
 
@@ -139,6 +151,7 @@ async function fetchHitRateMatrix(options: UseHitRateMatrixOptions): Promise<Hit
       gameDate: options.gameDate,
       timeWindow: options.timeWindow || "last_10",
       positions: options.positions,
+      includeModel: options.includeModel ?? false,
     }),
   });
 
@@ -155,11 +168,19 @@ async function fetchHitRateMatrix(options: UseHitRateMatrixOptions): Promise<Hit
 // =============================================================================
 
 export function useHitRateMatrix(options: UseHitRateMatrixOptions = {}) {
-  const { sport = "nba", market = "player_points", gameDate, timeWindow = "last_10", positions, enabled = true } = options;
+  const {
+    sport = "nba",
+    market = "player_points",
+    gameDate,
+    timeWindow = "last_10",
+    positions,
+    includeModel = false,
+    enabled = true,
+  } = options;
 
   const query = useQuery<HitRateMatrixResponse>({
-    queryKey: ["hit-rate-matrix", sport, market, gameDate, timeWindow, positions],
-    queryFn: () => fetchHitRateMatrix({ sport, market, gameDate, timeWindow, positions }),
+    queryKey: ["hit-rate-matrix", sport, market, gameDate, timeWindow, positions, includeModel],
+    queryFn: () => fetchHitRateMatrix({ sport, market, gameDate, timeWindow, positions, includeModel }),
     enabled,
     staleTime: 60_000, // 1 minute
     gcTime: 5 * 60_000, // 5 minutes
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import { buildArbMarketOptions, type ArbPrefs } from "@/lib/arb-filters";
+import { matchesMiddleRow, toArbFilterRow } from "@/lib/middles/filters";
+import type { MiddlePrefs, MiddleRow, MiddlesScanSummary } from "@/lib/middles/types";
+
+const QUERY_KEY = ["middles"];
+
+/** Leagues the middles scanner supports (game lines + props with alternates) */
+const MIDDLE_LEAGUES = new Set([
+  "nba",
+  "nfl",
+  "ncaaf",
+  "ncaab",
+  "nhl",
+  "mlb",
+  "ncaabaseball",
+  "wnba",
+  "soccer_epl",
+  "soccer_laliga",
+  "soccer_mls",
+  "soccer_ucl",
+  "soccer_uel",
+]);
+
+interface MiddlesResponse {
+  rows: MiddleRow[];
+  summary: MiddlesScanSummary;
+}
+
+/**
+ * Hook for the middles / low-hold view. Fetches scanned pairs for the
+ * selected leagues and applies the arbitrage prefs plus middle thresholds.
+ */
+export function useMiddles({
+  arbPrefs,
+  middlePrefs,
+  enabled = true,
+}: {
+  arbPrefs: ArbPrefs;
+  middlePrefs: Pick<MiddlePrefs, "kinds" | "minEv" | "maxHold" | "minGap">;
+  enabled?: boolean;
+}) {
+  const { user } = useAuth();
+
+  const sports = useMemo(
+    () => (arbPrefs.selectedLeagues || []).filter((l) => MIDDLE_LEAGUES.has(l)).sort(),
+    [arbPrefs.selectedLeagues]
+  );
+  const qs = sports.length > 0 ? `?sports=${sports.join(",")}` : "";
+
+  const query = useQuery<MiddlesResponse>({
+    queryKey: [...QUERY_KEY, user?.id, qs],
+    queryFn: async () => {
+      const res = await fetch(`/api/arbs/middles${qs}`, { cache: "no-store" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+      }
+      return res.json();
+    },
+    enabled: !!user && enabled,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+
+  const allRows = query.data?.rows;
+  const rows = useMemo(() => {
+    if (!allRows) return [];
+    const { minArb: _minArb, maxArb: _maxArb, ...shared } = arbPrefs;
+    const prefs: MiddlePrefs = { ...shared, ...middlePrefs };
+    return allRows.filter((row) => matchesMiddleRow(row, prefs));
+  }, [allRows, arbPrefs, middlePrefs]);
+
+  const availableMarketOptions = useMemo(
+    () => buildArbMarketOptions((allRows ?? []).map(toArbFilterRow)),
+    [allRows]
+  );
+
+  return {
+    rows,
+    totalCount: allRows?.length ?? 0,
+    summary: query.data?.summary ?? null,
+    availableMarketOptions,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
@@ -175,7 +175,7 @@ export interface UseMultiEvModelResult {
 /**
  * Build EVModelConfig array from active models or preset
  */
-function buildModelConfigs(
+export function buildModelConfigs(
   prefs: PositiveEVPrefs,
   activeModels: EvModel[],
   isPro: boolean,
@@ -0,0 +1,141 @@
+/**
+ * useMultiWayEV Hook
+ *
+ * +EV outcomes in 3+ way markets (1X2, first scorer boards, method of
+ * victory, futures) for the +EV feed. Runs the same preset / custom model
+ * configs as useMultiEvModelOpportunities against the multi-way scanner,
+ * which is pregame only.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { useQueries } from "@tanstack/react-query";
+import type { PositiveEVOpportunity } from "@/lib/ev/types";
+import { ALL_MULTI_WAY_DEVIG_METHODS, MULTI_WAY_MARKETS } from "@/lib/ev/constants";
+import type { EvModel } from "@/lib/types/ev-models";
+import { isMarketSelected } from "@/lib/utils";
+import {
+  buildModelConfigs,
+  type EVModelConfig,
+  type PositiveEVPrefs,
+} from "@/hooks/use-multi-ev-model-opportunities";
+
+const STALE_TIME_MS = 30_000;
+
+interface MultiWayEVResponse {
+  opportunities: PositiveEVOpportunity[];
+}
+
+/**
+ * Multi-way params for a config, or null when the config only asks for
+ * markets the scanner doesn't price
+ */
+function buildQueryParams(config: EVModelConfig): URLSearchParams | null {
+  const { filters } = config;
+  const markets = filters.markets?.filter((market) => market in MULTI_WAY_MARKETS) ?? [];
+  if (filters.markets && filters.markets.length > 0 && markets.length === 0) return null;
+
+  const params = new URLSearchParams();
+  params.set("sports", filters.sports.join(","));
+  if (markets.length > 0) params.set("markets", markets.join(","));
+
+  if (filters.customSharpBooks && filters.customSharpBooks.length > 0) {
+    params.set("customSharpBooks", filters.customSharpBooks.join(","));
+    if (filters.customBookWeights && Object.keys(filters.customBookWeights).length > 0) {
+      params.set("customBookWeights", JSON.stringify(filters.customBookWeights));
+    }
+  } else if (filters.sharpPreset) {
+    params.set("sharpPreset", filters.sharpPreset);
+  }
+
+  const methods = ALL_MULTI_WAY_DEVIG_METHODS.filter((method) => (filters.devigMethods as string[]).includes(method));
+  if (methods.length > 0) params.set("devigMethods", methods.join(","));
+
+  if (filters.minEV > 0) params.set("minEV", String(filters.minEV));
+  if (filters.maxEV) params.set("maxEV", String(filters.maxEV));
+  params.set("limit", String(filters.limit));
+  return params;
+}
+
+async function fetchMultiWayEV(params: URLSearchParams): Promise<MultiWayEVResponse> {
+  const response = await fetch(`/api/v2/positive-ev/multi-way?${params.toString()}`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch multi-way +EV: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Config filters the scanner doesn't take: odds range and player/game split
+ */
+function matchesConfig(opp: PositiveEVOpportunity, config: EVModelConfig): boolean {
+  const { filters } = config;
+  if (filters.minOdds != null && opp.book.price < filters.minOdds) return false;
+  if (filters.maxOdds != null && opp.book.price > filters.maxOdds) return false;
+  if (filters.marketType === "player" && !opp.playerName) return false;
+  if (filters.marketType === "game" && opp.playerName) return false;
+  return true;
+}
+
+export function useMultiWayEV({
+  prefs,
+  activeModels,
+  isPro,
+  limit = 100,
+  enabled = true,
+}: {
+  prefs: PositiveEVPrefs;
+  activeModels: EvModel[];
+  isPro: boolean;
+  limit?: number;
+  enabled?: boolean;
+}) {
+  const requests = useMemo(() => {
+    if (prefs.mode === "live") return [];
+    return buildModelConfigs(prefs, activeModels, isPro, limit)
+      .map((config) => ({ config, params: buildQueryParams(config) }))
+      .filter((request): request is { config: EVModelConfig; params: URLSearchParams } => request.params !== null);
+  }, [prefs, activeModels, isPro, limit]);
+
+  const queries = useQueries({
+    queries: requests.map(({ config, params }) => ({
+      queryKey: ["positive-ev-multi-way", config.metadata.modelId, params.toString()],
+      queryFn: () => fetchMultiWayEV(params),
+      enabled,
+      staleTime: STALE_TIME_MS,
+      gcTime: 5 * 60_000,
+      refetchOnWindowFocus: false,
+      placeholderData: (prev: MultiWayEVResponse | undefined) => prev,
+    })),
+  });
+
+  const dataKey = queries.map((query) => query.dataUpdatedAt).join(",");
+  const opportunities = useMemo(() => {
+    // Best EV wins when several models price the same outcome
+    const byId = new Map<string, PositiveEVOpportunity>();
+    requests.forEach(({ config }, i) => {
+      for (const opp of queries[i]?.data?.opportunities ?? []) {
+        if (!matchesConfig(opp, config) || !isMarketSelected(prefs.selectedMarkets, opp.sport, opp.market)) continue;
+        const tagged: PositiveEVOpportunity = config.metadata.isCustom
+          ? {
+              ...opp,
+              modelId: config.metadata.modelId,
+              modelName: config.metadata.modelName,
+              modelColor: config.metadata.modelColor,
+            }
+          : opp;
+        const existing = byId.get(opp.id);
+        if (!existing || tagged.evCalculations.evDisplay > existing.evCalculations.evDisplay) byId.set(opp.id, tagged);
+      }
+    });
+    return [...byId.values()];
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requests, dataKey, prefs.selectedMarkets]);
+
+  return {
+    opportunities,
+    isLoading: queries.some((query) => query.isLoading),
+    error: (queries.find((query) => query.error)?.error as Error | null) ?? null,
+  };
+}
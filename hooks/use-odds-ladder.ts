@@ -27,6 +27,12 @@ export interface LineData {
   } | null;
   top_books: BookOdds[];
   book_count: number;
+  // Fair odds off the sharp curve; `sharp` when a sharp book quotes both sides here
+  fair?: {
+    over: number | null;
+    under: number | null;
+    sharp: boolean;
+  } | null;
 }
 
 export interface OddsLadderResponse {
@@ -35,6 +41,11 @@ export interface OddsLadderResponse {
   player_id: string;
   primary_line: number | null;
   lines: LineData[];
+  fair_curve?: {
+    model: "poisson" | "negative_binomial" | "normal";
+    mean: number;
+    sharp_lines: number[];
+  } | null;
   updated_at: number;
 }
 
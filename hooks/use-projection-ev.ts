@@ -0,0 +1,141 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import { evaluateProjectionEV } from "@/lib/ev/projection";
+import type { EVFairSource, PositiveEVOpportunity } from "@/lib/ev/types";
+import { hitRateSelectionKey, normalizeProjectionWeights } from "@/lib/projections/hit-rate-model";
+import type { HitRateModelInputs, ProjectionWeights } from "@/lib/projections/types";
+import type { EvModel } from "@/lib/types/ev-models";
+
+const QUERY_KEY = ["projection-ev-inputs"];
+const PROJECTION_SPORTS = ["nba", "wnba"] as const;
+const MAX_SELECTIONS_PER_SPORT = 500;
+
+interface ProjectionInputsResponse {
+  inputs: Record<string, HitRateModelInputs>;
+  timestamp: number;
+}
+
+function isProjectable(opp: PositiveEVOpportunity): boolean {
+  return (
+    (PROJECTION_SPORTS as readonly string[]).includes(opp.sport) &&
+    !!opp.playerName &&
+    (opp.side === "over" || opp.side === "under")
+  );
+}
+
+function oppKey(opp: PositiveEVOpportunity): string {
+  return hitRateSelectionKey(opp.eventId, opp.market, opp.playerName ?? "");
+}
+
+/**
+ * Hit-rate projection EV for +EV player props. Active EV models with a
+ * model/blend fair source turn it on; the fit runs client-side so weight
+ * edits re-price instantly. Opportunities tagged with a model use that
+ * model's weights, others use the first projection model's.
+ */
+export function useProjectionEV({
+  opportunities,
+  activeModels,
+  enabled = true,
+}: {
+  opportunities: PositiveEVOpportunity[];
+  activeModels: EvModel[];
+  enabled?: boolean;
+}) {
+  const { user } = useAuth();
+
+  const projectionModels = useMemo(
+    () => activeModels.filter((model) => model.fair_source && model.fair_source !== "market"),
+    [activeModels]
+  );
+  const isActive = enabled && projectionModels.length > 0;
+
+  // Stable request set: one selection per event/market/player
+  const selections = useMemo(() => {
+    if (!isActive) return {} as Record<string, PositiveEVOpportunity[]>;
+    const bySport: Record<string, Map<string, PositiveEVOpportunity>> = {};
+    for (const opp of opportunities) {
+      if (!isProjectable(opp)) continue;
+      const sport = (bySport[opp.sport] ??= new Map());
+      if (sport.size < MAX_SELECTIONS_PER_SPORT && !sport.has(oppKey(opp))) sport.set(oppKey(opp), opp);
+    }
+    return Object.fromEntries(Object.entries(bySport).map(([sport, map]) => [sport, [...map.values()]]));
+  }, [opportunities, isActive]);
+
+  const requestKey = useMemo(
+    () =>
+      Object.entries(selections)
+        .map(([sport, opps]) => `${sport}:${opps.map(oppKey).sort().join(",")}`)
+        .sort()
+        .join("|"),
+    [selections]
+  );
+
+  const query = useQuery<ProjectionInputsResponse>({
+    queryKey: [...QUERY_KEY, user?.id, requestKey],
+    queryFn: async () => {
+      const responses = await Promise.all(
+        Object.entries(selections).map(async ([sport, opps]) => {
+          const res = await fetch("/api/v2/positive-ev/projections", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              sport,
+              selections: opps.map((opp) => ({
+                event_id: opp.eventId,
+                market: opp.market,
+                player_name: opp.playerName,
+                start_time: opp.startTime ?? null,
+                game_date: opp.gameDate ?? null,
+              })),
+            }),
+          });
+          if (!res.ok) {
+            const body = await res.json().catch(() => ({}));
+            throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+          }
+          return (await res.json()) as ProjectionInputsResponse;
+        })
+      );
+      return {
+        inputs: Object.assign({}, ...responses.map((response) => response.inputs)),
+        timestamp: Date.now(),
+      };
+    },
+    enabled: !!user && isActive && requestKey.length > 0,
+    staleTime: 5 * 60_000,
+    placeholderData: (prev) => prev,
+  });
+
+  const weightsByModel = useMemo(() => {
+    const map = new Map<string, ProjectionWeights>();
+    for (const model of projectionModels) map.set(model.id, normalizeProjectionWeights(model.projection_weights));
+    return map;
+  }, [projectionModels]);
+
+  const inputs = query.data?.inputs;
+  const withProjections = useMemo(() => {
+    if (!isActive || !inputs) return opportunities;
+    const fallback = projectionModels[0] ? weightsByModel.get(projectionModels[0].id) : undefined;
+    return opportunities.map((opp) => {
+      const weights = (opp.modelId && weightsByModel.get(opp.modelId)) || fallback;
+      const profile = isProjectable(opp) ? inputs[oppKey(opp)] : undefined;
+      const projection = weights && profile ? evaluateProjectionEV(opp, profile, weights) : null;
+      return projection ? { ...opp, projection } : opp;
+    });
+  }, [opportunities, inputs, isActive, projectionModels, weightsByModel]);
+
+  const fairSource: EVFairSource = projectionModels[0]?.fair_source ?? "market";
+
+  return {
+    opportunities: withProjections,
+    /** Whether any active model prices with the projection */
+    isActive,
+    fairSource,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,85 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PromoConversionResponse, PromoConversionSort, PromoConversionType } from "@/lib/promo-converter/types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PromoConverterInputs {
+  type: PromoConversionType;
+  /** Odds book id (e.g. "draftkings") */
+  book: string;
+  amount: number;
+  boostPercent: number;
+  sports: string[];
+  minOdds?: number;
+  roundTo?: number;
+  sort: PromoConversionSort;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function buildQueryString(inputs: PromoConverterInputs): string {
+  const params = new URLSearchParams();
+
+  params.set("type", inputs.type);
+  params.set("book", inputs.book);
+  params.set("amount", String(inputs.amount));
+  if (inputs.type === "profit_boost") {
+    params.set("boost", String(inputs.boostPercent));
+  }
+  if (inputs.sports.length > 0) {
+    params.set("sports", inputs.sports.join(","));
+  }
+  if (inputs.minOdds !== undefined) {
+    params.set("min_odds", String(inputs.minOdds));
+  }
+  if (inputs.roundTo) {
+    params.set("round_to", String(inputs.roundTo));
+  }
+  params.set("sort", inputs.sort);
+
+  return params.toString();
+}
+
+// ─── Query key factory ────────────────────────────────────────────────────────
+
+export const promoConverterQueryKeys = {
+  all: ["promo-converter"] as const,
+  search: (inputs: PromoConverterInputs) =>
+    ["promo-converter", "search", inputs] as const,
+};
+
+// ─── Fetch function ───────────────────────────────────────────────────────────
+
+async function fetchConversions(inputs: PromoConverterInputs): Promise<PromoConversionResponse> {
+  const res = await fetch(`/api/v2/promos/convert?${buildQueryString(inputs)}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(
+      (body as { error?: string }).error ?? `HTTP ${res.status}`
+    );
+  }
+
+  return res.json() as Promise<PromoConversionResponse>;
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Best hedges for a bonus bet / profit boost. Pass `null` to stay idle until
+ * the user submits the converter form.
+ */
+export function usePromoConverter(inputs: PromoConverterInputs | null) {
+  return useQuery({
+    queryKey: inputs ? promoConverterQueryKeys.search(inputs) : promoConverterQueryKeys.all,
+    queryFn: () => fetchConversions(inputs!),
+    enabled: !!inputs && !!inputs.book && inputs.amount > 0,
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
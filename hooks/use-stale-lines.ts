@@ -0,0 +1,111 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import { useSSE } from "@/hooks/use-sse";
+import { compareStaleLines } from "@/lib/stale-lines/sniper";
+import type { BookLag, StaleLine } from "@/lib/stale-lines/types";
+
+const QUERY_KEY = ["stale-lines"];
+
+interface StaleLinesResponse {
+  lines: StaleLine[];
+  lags: BookLag[];
+  timestamp: number;
+}
+
+/** Upsert changed lines and drop removed ones */
+function applyUpdate(current: StaleLine[], lines: StaleLine[], removed: string[]): StaleLine[] {
+  const byId = new Map(current.map((line) => [line.id, line]));
+  for (const id of removed) byId.delete(id);
+  for (const line of lines) byId.set(line.id, line);
+  return [...byId.values()];
+}
+
+/**
+ * Edge finder stale lines mode: loads open stale lines, then follows
+ * /api/sse/stale-lines. Staleness is recomputed against a ticking clock and
+ * lines past their window are dropped client-side.
+ */
+export function useStaleLines({
+  sports,
+  excludedBooks,
+  minEV = 0,
+  enabled = true,
+}: {
+  sports: string[];
+  excludedBooks: string[];
+  minEV?: number;
+  enabled?: boolean;
+}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  const query = useQuery<StaleLinesResponse>({
+    queryKey: [...QUERY_KEY, user?.id],
+    queryFn: async () => {
+      const res = await fetch("/api/v2/stale-lines?limit=500", { cache: "no-store" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+      }
+      return res.json();
+    },
+    enabled: !!user && enabled,
+    staleTime: 60_000,
+  });
+
+  const handleMessage = useCallback(
+    (data: { type?: string; lines?: StaleLine[]; removed?: string[] }) => {
+      if (data?.type !== "stale_lines") return;
+      queryClient.setQueryData<StaleLinesResponse>([...QUERY_KEY, user?.id], (prev) => ({
+        lines: applyUpdate(prev?.lines ?? [], data.lines ?? [], data.removed ?? []),
+        lags: prev?.lags ?? [],
+        timestamp: Date.now(),
+      }));
+    },
+    [queryClient, user?.id]
+  );
+
+  const { isConnected, isReconnecting, hasFailed, reconnect } = useSSE("/api/sse/stale-lines", {
+    enabled: !!user && enabled,
+    onMessage: handleMessage,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  const allLines = query.data?.lines;
+  const lines = useMemo(() => {
+    if (!allLines) return [];
+    const sportSet = new Set(sports);
+    const excluded = new Set(excludedBooks);
+    return allLines
+      .filter(
+        (line) =>
+          line.expires_at > now &&
+          line.ev >= minEV &&
+          (sportSet.size === 0 || sportSet.has(line.sport)) &&
+          !excluded.has(line.book)
+      )
+      .map((line) => ({ ...line, staleness_ms: now - line.sharp_moved_at }))
+      .sort(compareStaleLines);
+  }, [allLines, sports, excludedBooks, minEV, now]);
+
+  return {
+    lines,
+    lags: query.data?.lags ?? [],
+    now,
+    connected: isConnected,
+    isReconnecting,
+    hasFailed,
+    reconnect,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/auth-provider";
+import { useSSE } from "@/hooks/use-sse";
+import type { SteamSignal, SteamSignalKind } from "@/lib/steam/types";
+
+const QUERY_KEY = ["steam-signals"];
+const MAX_SIGNALS = 500;
+
+interface SteamResponse {
+  signals: SteamSignal[];
+  timestamp: number;
+}
+
+/** Upsert by id, newest detection first */
+function mergeSignals(current: SteamSignal[], incoming: SteamSignal[]): SteamSignal[] {
+  const byId = new Map(current.map((signal) => [signal.id, signal]));
+  for (const signal of incoming) byId.set(signal.id, signal);
+  return [...byId.values()].sort((a, b) => b.detected_at - a.detected_at).slice(0, MAX_SIGNALS);
+}
+
+/**
+ * Steam tab feed: loads recent signals, then follows /api/sse/steam and
+ * upserts live detections. `now` ticks every second for latency labels.
+ */
+export function useSteamFeed({
+  sports,
+  kinds,
+  enabled = true,
+}: {
+  sports: string[];
+  kinds: SteamSignalKind[];
+  enabled?: boolean;
+}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  const query = useQuery<SteamResponse>({
+    queryKey: [...QUERY_KEY, user?.id],
+    queryFn: async () => {
+      const res = await fetch("/api/v2/steam?limit=500", { cache: "no-store" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+      }
+      return res.json();
+    },
+    enabled: !!user && enabled,
+    staleTime: 60_000,
+  });
+
+  const handleMessage = useCallback(
+    (data: { type?: string; signals?: SteamSignal[] }) => {
+      if (data?.type !== "steam" || !Array.isArray(data.signals)) return;
+      queryClient.setQueryData<SteamResponse>([...QUERY_KEY, user?.id], (prev) => ({
+        signals: mergeSignals(prev?.signals ?? [], data.signals!),
+        timestamp: Date.now(),
+      }));
+    },
+    [queryClient, user?.id]
+  );
+
+  const { isConnected, isReconnecting, hasFailed, reconnect } = useSSE("/api/sse/steam", {
+    enabled: !!user && enabled,
+    onMessage: handleMessage,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  const allSignals = query.data?.signals;
+  const signals = useMemo(() => {
+    if (!allSignals) return [];
+    const sportSet = new Set(sports);
+    const kindSet = new Set(kinds);
+    return allSignals.filter(
+      (signal) => (sportSet.size === 0 || sportSet.has(signal.sport)) && (kindSet.size === 0 || kindSet.has(signal.kind))
+    );
+  }, [allSignals, sports, kinds]);
+
+  return {
+    signals,
+    totalCount: allSignals?.length ?? 0,
+    now,
+    connected: isConnected,
+    isReconnecting,
+    hasFailed,
+    reconnect,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for arb stake allocation
+ * Run with: npm test
+ */
+
+import {
+  allocateArbStakes,
+  evaluateArbStakes,
+  getArbMargin,
+  getEffectiveDecimal,
+  getHedgeStake,
+} from '../arb-stakes'
+
+describe('Arb stakes', () => {
+  describe('getEffectiveDecimal', () => {
+    it('should apply boosts to winnings only', () => {
+      expect(getEffectiveDecimal({ odds: 100 })).toBe(2)
+      expect(getEffectiveDecimal({ odds: 100, boostPercent: 25 })).toBeCloseTo(2.25)
+      expect(getEffectiveDecimal({ odds: -200, boostPercent: 50 })).toBeCloseTo(1.75)
+    })
+
+    it('should not return the stake on bonus bets', () => {
+      expect(getEffectiveDecimal({ odds: 150, bonusBet: true })).toBeCloseTo(1.5)
+    })
+  })
+
+  describe('getArbMargin', () => {
+    it('should be below 1 only for an arb', () => {
+      expect(getArbMargin([{ odds: 110 }, { odds: 105 }])).toBeLessThan(1)
+      expect(getArbMargin([{ odds: -110 }, { odds: -110 }])).toBeGreaterThan(1)
+    })
+  })
+
+  describe('allocateArbStakes', () => {
+    it('should split a bankroll so every outcome pays the same', () => {
+      const plan = allocateArbStakes([{ odds: 110 }, { odds: 105 }], { type: 'total', amount: 1000 })
+      expect(plan.totalStake).toBeCloseTo(1000, 1)
+      expect(plan.payouts[0]).toBeCloseTo(plan.payouts[1], 0)
+      expect(plan.worstCaseProfit).toBeGreaterThan(0)
+      expect(plan.roi).toBeCloseTo((plan.worstCaseProfit / plan.cashStake) * 100)
+      expect(plan.cappedByLimit).toBe(false)
+    })
+
+    it('should hedge a fixed stake on one leg', () => {
+      const legs = [{ odds: 150 }, { odds: -120 }]
+      const plan = allocateArbStakes(legs, { type: 'fixed', legIndex: 0, stake: 100 })
+      expect(plan.stakes[0]).toBe(100)
+      expect(plan.stakes[1]).toBeCloseTo(getHedgeStake(legs[0], 100, legs[1]), 2)
+      expect(plan.payouts[1]).toBeCloseTo(250, 1)
+    })
+
+    it('should handle three-way markets', () => {
+      const plan = allocateArbStakes([{ odds: 260 }, { odds: 290 }, { odds: 240 }], { type: 'total', amount: 300 })
+      expect(plan.stakes).toHaveLength(3)
+      expect(Math.max(...plan.payouts) - Math.min(...plan.payouts)).toBeLessThan(0.05)
+      expect(plan.worstCaseProfit).toBeGreaterThan(0)
+    })
+
+    it('should scale every leg down to the tightest book limit', () => {
+      const plan = allocateArbStakes(
+        [{ odds: 110, max: 200 }, { odds: 105, max: null }],
+        { type: 'total', amount: 1000 }
+      )
+      expect(plan.cappedByLimit).toBe(true)
+      expect(plan.limitingLeg).toBe(0)
+      expect(plan.stakes[0]).toBe(200)
+      expect(plan.payouts[0]).toBeCloseTo(plan.payouts[1], 0)
+      expect(plan.legsOverLimit).toEqual([])
+    })
+
+    it('should round stakes to the increment without overspending', () => {
+      const plan = allocateArbStakes([{ odds: 110 }, { odds: 105 }], { type: 'total', amount: 1000 }, 5)
+      for (const stake of plan.stakes) expect(stake % 5).toBe(0)
+      expect(plan.totalStake).toBeLessThanOrEqual(1002.5)
+      expect(plan.worstCaseProfit).toBeGreaterThan(0)
+    })
+
+    it('should return zero stakes when a leg has no price', () => {
+      const plan = allocateArbStakes([{ odds: 110 }, { odds: 0 }], { type: 'total', amount: 1000 })
+      expect(plan.stakes).toEqual([0, 0])
+      expect(plan.totalStake).toBe(0)
+    })
+
+    it('should exclude bonus-bet legs from cash at risk', () => {
+      const plan = allocateArbStakes([{ odds: 300, bonusBet: true }, { odds: -150 }], { type: 'fixed', legIndex: 0, stake: 100 })
+      expect(plan.cashStake).toBeCloseTo(plan.stakes[1])
+      expect(plan.worstCaseProfit).toBeGreaterThan(0)
+    })
+  })
+
+  describe('evaluateArbStakes', () => {
+    it('should flag legs staked over their book max', () => {
+      const plan = evaluateArbStakes([{ odds: 110, max: 100 }, { odds: 105 }], [150, 150])
+      expect(plan.legsOverLimit).toEqual([0])
+      expect(plan.profits).toEqual([15, 7.5])
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for bankroll ledger balances
+ * Run with: npm test
+ */
+
+import { signLedgerAmount, summarizeLedger } from '../bankroll/ledger'
+import type { BankrollLedgerEntry } from '../bankroll/types'
+
+let seq = 0
+
+function entry(overrides: Partial<BankrollLedgerEntry>): BankrollLedgerEntry {
+  seq++
+  return {
+    id: `row-${seq}`,
+    user_id: 'user-1',
+    entry_type: 'deposit',
+    sportsbook: 'draftkings',
+    amount: 0,
+    betslip_id: null,
+    stake: null,
+    payout: null,
+    odds: null,
+    closing_odds: null,
+    result: null,
+    note: null,
+    created_at: `2026-01-01T00:00:${String(seq).padStart(2, '0')}Z`,
+    ...overrides,
+  }
+}
+
+describe('Bankroll ledger', () => {
+  beforeEach(() => {
+    seq = 0
+  })
+
+  describe('signLedgerAmount', () => {
+    it('should negate withdrawals and keep adjustment signs', () => {
+      expect(signLedgerAmount('withdrawal', 50)).toBe(-50)
+      expect(signLedgerAmount('deposit', -50)).toBe(50)
+      expect(signLedgerAmount('adjustment', -25)).toBe(-25)
+    })
+  })
+
+  describe('summarizeLedger', () => {
+    it('should hold an open stake as pending and release it on settlement', () => {
+      const open = [
+        entry({ entry_type: 'deposit', amount: 500 }),
+        entry({ entry_type: 'bet_placed', amount: -100, betslip_id: 'slip-1', stake: 100 }),
+      ]
+      const openSummary = summarizeLedger(open, null)
+      expect(openSummary.total_balance).toBe(400)
+      expect(openSummary.total_pending).toBe(100)
+      expect(openSummary.total_profit).toBe(0)
+
+      const settled = summarizeLedger(
+        [...open, entry({ entry_type: 'bet_settled', amount: 250, betslip_id: 'slip-1', stake: 100, payout: 250, result: 'won' })],
+        null
+      )
+      expect(settled.total_balance).toBe(650)
+      expect(settled.total_pending).toBe(0)
+      expect(settled.total_profit).toBe(150)
+    })
+
+    it('should reopen the stake when a settlement is reversed and re-settled', () => {
+      const entries = [
+        entry({ entry_type: 'deposit', amount: 500 }),
+        entry({ entry_type: 'bet_placed', amount: -100, betslip_id: 'slip-1', stake: 100 }),
+        entry({ entry_type: 'bet_settled', amount: 250, betslip_id: 'slip-1', stake: 100, payout: 250, result: 'won' }),
+        entry({ entry_type: 'adjustment', amount: -250, betslip_id: 'slip-1', stake: 100, payout: 0, result: null }),
+      ]
+      const reversed = summarizeLedger(entries, null)
+      expect(reversed.total_balance).toBe(400)
+      expect(reversed.total_pending).toBe(100)
+      expect(reversed.total_profit).toBe(0)
+
+      const resettled = summarizeLedger(
+        [...entries, entry({ entry_type: 'adjustment', amount: 0, betslip_id: 'slip-1', stake: 100, payout: 0, result: 'lost' })],
+        null
+      )
+      expect(resettled.total_balance).toBe(400)
+      expect(resettled.total_pending).toBe(0)
+      expect(resettled.total_profit).toBe(-100)
+    })
+
+    it('should apply stake changes to pending and to settled profit', () => {
+      const entries = [
+        entry({ entry_type: 'bet_placed', amount: -100, betslip_id: 'slip-1', stake: 100 }),
+        entry({ entry_type: 'adjustment', amount: -50, betslip_id: 'slip-1', stake: 150 }),
+      ]
+      expect(summarizeLedger(entries, null).total_pending).toBe(150)
+
+      const settled = summarizeLedger(
+        [...entries, entry({ entry_type: 'bet_settled', amount: 300, betslip_id: 'slip-1', stake: 150, payout: 300, result: 'won' })],
+        null
+      )
+      expect(settled.total_balance).toBe(150)
+      expect(settled.total_profit).toBe(150)
+    })
+
+    it('should leave manual adjustments out of pending and profit', () => {
+      const summary = summarizeLedger([entry({ entry_type: 'adjustment', amount: -20, sportsbook: null })], null)
+      expect(summary.total_balance).toBe(-20)
+      expect(summary.total_pending).toBe(0)
+      expect(summary.total_profit).toBe(0)
+      expect(summary.books[0].sportsbook).toBe('unassigned')
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for N-outcome de-vig and multi-way EV
+ * Run with: npm test
+ */
+
+import {
+  americanToImpliedProb,
+  calculateMultiWayEV,
+  devigAdditiveN,
+  devigMultiWay,
+  devigMultiplicativeN,
+  devigPowerN,
+  devigShinN,
+} from '../ev/devig'
+import { getMultiWayMarketConfig } from '../ev/constants'
+
+// Soccer 1X2: home / draw / away
+const THREE_WAY = [150, 230, 190]
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+describe('N-outcome de-vig', () => {
+  it('should return fair boards that sum to 1 for every method', () => {
+    for (const result of [
+      devigMultiplicativeN(THREE_WAY),
+      devigAdditiveN(THREE_WAY),
+      devigPowerN(THREE_WAY),
+      devigShinN(THREE_WAY),
+    ]) {
+      expect(result.success).toBe(true)
+      expect(sum(result.fairProbs)).toBeCloseTo(1, 8)
+      expect(result.margin).toBeCloseTo(sum(THREE_WAY.map(americanToImpliedProb)) - 1, 8)
+    }
+  })
+
+  it('should split a symmetric board evenly', () => {
+    for (const result of [devigMultiplicativeN([200, 200, 200]), devigPowerN([200, 200, 200]), devigShinN([200, 200, 200])]) {
+      for (const p of result.fairProbs) expect(p).toBeCloseTo(1 / 3, 8)
+    }
+  })
+
+  it('should match the two-way multiplicative result on a two-way market', () => {
+    const result = devigMultiplicativeN([-110, -110])
+    expect(result.fairProbs[0]).toBeCloseTo(0.5, 10)
+    expect(result.fairProbs[1]).toBeCloseTo(0.5, 10)
+  })
+
+  it('should shade longshots more than favorites with power and Shin', () => {
+    const multiplicative = devigMultiplicativeN(THREE_WAY).fairProbs
+    for (const result of [devigPowerN(THREE_WAY), devigShinN(THREE_WAY)]) {
+      // Favorite (home) gains share, longest price (draw) loses it
+      expect(result.fairProbs[0]).toBeGreaterThan(multiplicative[0])
+      expect(result.fairProbs[1]).toBeLessThan(multiplicative[1])
+    }
+  })
+
+  it('should fall back to a proportional board when Shin has no overround', () => {
+    const result = devigShinN([300, 300, 300, 300])
+    expect(result.success).toBe(true)
+    expect(result.margin).toBeCloseTo(0, 10)
+    for (const p of result.fairProbs) expect(p).toBeCloseTo(0.25, 8)
+  })
+
+  it('should clamp negative additive longshots and warn', () => {
+    const result = devigAdditiveN([-1000, 400, 5000, 10000])
+    expect(result.success).toBe(true)
+    expect(result.error).toBeDefined()
+    expect(Math.min(...result.fairProbs)).toBeGreaterThan(0)
+    expect(sum(result.fairProbs)).toBeCloseTo(1, 8)
+  })
+
+  it('should reject unusable prices', () => {
+    expect(devigMultiplicativeN([150, 0, 190]).success).toBe(false)
+    expect(devigPowerN([150]).success).toBe(false)
+    expect(devigShinN([150, Number.NaN]).fairProbs).toEqual([0, 0])
+  })
+
+  describe('devigMultiWay', () => {
+    it('should scale to the expected number of winners and skip Shin', () => {
+      // Top-2 finish market over four runners
+      const results = devigMultiWay([-150, 110, 150, 250], ['power', 'multiplicative', 'shin'], 2)
+      expect(sum(results.power!.fairProbs)).toBeCloseTo(2, 8)
+      expect(sum(results.multiplicative!.fairProbs)).toBeCloseTo(2, 8)
+      expect(results.shin!.success).toBe(false)
+    })
+  })
+
+  describe('calculateMultiWayEV', () => {
+    it('should report the worst method as the displayed EV', () => {
+      const offer = { bookId: 'book', bookName: 'Book', price: 260, priceDecimal: 3.6 }
+      const result = calculateMultiWayEV({ power: 0.3, multiplicative: 0.29, shin: undefined }, offer)
+      expect(result.power!.evPercent).toBeCloseTo(8, 6)
+      expect(result.multiplicative!.evPercent).toBeCloseTo(4.4, 6)
+      expect(result.evWorst).toBeCloseTo(4.4, 6)
+      expect(result.evBest).toBeCloseTo(8, 6)
+      expect(result.evDisplay).toBe(result.evWorst)
+      expect(result.shin).toBeUndefined()
+    })
+  })
+
+  describe('getMultiWayMarketConfig', () => {
+    it('should price futures boards as exclusive', () => {
+      const config = getMultiWayMarketConfig('nba', 'championship_winner')
+      expect(config?.kind).toBe('exclusive')
+      expect(config?.futures).toBe(true)
+    })
+
+    it('should keep soccer-only futures out of other sports', () => {
+      expect(getMultiWayMarketConfig('soccer_epl', 'league_winner')).not.toBeNull()
+      expect(getMultiWayMarketConfig('nba', 'league_winner')).toBeNull()
+    })
+  })
+})
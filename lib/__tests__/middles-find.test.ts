@@ -0,0 +1,44 @@
+/**
+ * Unit tests for middle / low-hold pair selection
+ * Run with: npm test
+ */
+
+import { findMiddles, type LineOffer, type MarketGroup } from '../middles/find'
+
+function offer(bk: string, side: 'over' | 'under', od: number, threshold = 24.5): LineOffer {
+  return { bk, side, od, ln: threshold, threshold }
+}
+
+function group(offers: LineOffer[]): MarketGroup {
+  return {
+    sport: 'nba',
+    eid: 'evt-1',
+    mkt: 'player_points',
+    player: 'Player',
+    kind: 'prop',
+    offers,
+    lg: { id: 'nba', name: 'NBA', sport: 'Basketball' },
+    ev: { dt: '2026-01-01T00:00:00Z', live: false, home: { abbr: 'LAL' }, away: { abbr: 'BOS' } },
+  } as MarketGroup
+}
+
+describe('findMiddles', () => {
+  it('should pick the lowest-hold pairing, not the highest American odds sum', () => {
+    // Best over and best under share a book, so one side has to give.
+    // A +150 / C -300 has the larger odds sum (-150) but a 15% hold;
+    // B -105 / A -120 sums to -225 with a 5.8% hold.
+    const rows = findMiddles(
+      group([offer('A', 'over', 150), offer('A', 'under', -120), offer('B', 'over', -105), offer('C', 'under', -300)]),
+      { maxHold: 20, minEv: -100, maxGapSd: 2 }
+    )
+    expect(rows).toHaveLength(1)
+    expect(rows[0].o.bk).toBe('B')
+    expect(rows[0].u.bk).toBe('A')
+    expect(rows[0].hold_bps).toBe(576)
+  })
+
+  it('should skip same-line pairs that are arbs or over the hold cap', () => {
+    const arb = group([offer('A', 'over', 120), offer('A', 'under', -140), offer('B', 'under', 110)])
+    expect(findMiddles(arb, { maxHold: 3, minEv: -100, maxGapSd: 2 })).toEqual([])
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the odds archive series codec
+ * Run with: npm test
+ */
+
+import { compactPoints, decodeSeries, encodeSeries, mergeChunks } from '../odds-archive/codec'
+
+const SERIES = [
+  { price: -110, timestamp: 1_760_000_000_000 },
+  { price: -115, timestamp: 1_760_000_004_250 },
+  { price: -120, timestamp: 1_760_000_009_000 },
+  { price: -105, timestamp: 1_760_000_060_500 },
+]
+
+describe('Odds archive codec', () => {
+  describe('encodeSeries', () => {
+    it('should store the first point as the base and the rest as deltas', () => {
+      const encoded = encodeSeries(SERIES)
+      expect(encoded).toEqual({
+        base_ts: 1_760_000_000_000,
+        base_price: -110,
+        ts_deltas: [4250, 4750, 51500],
+        price_deltas: [-5, -5, 15],
+        points: 4,
+        start_ts: 1_760_000_000_000,
+        end_ts: 1_760_000_060_500,
+      })
+    })
+
+    it('should encode a single point with no deltas', () => {
+      const encoded = encodeSeries([SERIES[0]])
+      expect(encoded.ts_deltas).toEqual([])
+      expect(encoded.start_ts).toBe(encoded.end_ts)
+    })
+
+    it('should reject an empty series', () => {
+      expect(() => encodeSeries([])).toThrow('Cannot encode an empty series')
+    })
+  })
+
+  describe('decodeSeries', () => {
+    it('should round-trip an encoded series', () => {
+      expect(decodeSeries(encodeSeries(SERIES))).toEqual(SERIES)
+    })
+
+    it('should accept numeric strings from bigint columns', () => {
+      const points = decodeSeries({
+        base_ts: '1760000000000' as unknown as number,
+        base_price: '150' as unknown as number,
+        ts_deltas: ['1000'] as unknown as number[],
+        price_deltas: ['-10'] as unknown as number[],
+      })
+      expect(points).toEqual([
+        { price: 150, timestamp: 1_760_000_000_000 },
+        { price: 140, timestamp: 1_760_000_001_000 },
+      ])
+    })
+  })
+
+  describe('compactPoints', () => {
+    it('should drop consecutive repeats but keep returns to an earlier price', () => {
+      const points = [
+        { price: 100, timestamp: 1 },
+        { price: 100, timestamp: 2 },
+        { price: 105, timestamp: 3 },
+        { price: 100, timestamp: 4 },
+      ]
+      expect(compactPoints(points).map((point) => point.timestamp)).toEqual([1, 3, 4])
+    })
+  })
+
+  describe('mergeChunks', () => {
+    it('should collapse the repeats written by overlapping capture windows', () => {
+      const earlier = [
+        { price: -110, timestamp: 1_000 },
+        { price: -115, timestamp: 65_000 },
+      ]
+      // The next window opened at 60s, first saw -110, then the same move
+      const later = [
+        { price: -110, timestamp: 60_200 },
+        { price: -115, timestamp: 65_300 },
+        { price: -120, timestamp: 90_000 },
+      ]
+      expect(mergeChunks([later, earlier])).toEqual([
+        { price: -110, timestamp: 1_000 },
+        { price: -115, timestamp: 65_000 },
+        { price: -120, timestamp: 90_000 },
+      ])
+    })
+  })
+})
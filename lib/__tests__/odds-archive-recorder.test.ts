@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the odds archive recorder
+ * Run with: npm test
+ */
+
+import { OddsArchiveRecorder } from '../odds-archive/recorder'
+import type { SSEBookSelections } from '../odds/types'
+
+const KEY = 'odds:nba:evt-1:player_points:draftkings'
+
+function selections(overPrice: string, underPrice = '-110'): SSEBookSelections {
+  return {
+    'p1|over|24.5': { odd_id: 'o-1', player: 'Player', player_id: 'p1', side: 'over', line: 24.5, price: overPrice },
+    'p1|under|24.5': { odd_id: 'u-1', player: 'Player', player_id: 'p1', side: 'under', line: 24.5, price: underPrice },
+  } as unknown as SSEBookSelections
+}
+
+describe('OddsArchiveRecorder', () => {
+  it('should record first sightings and then only real changes', () => {
+    const recorder = new OddsArchiveRecorder()
+    expect(recorder.observe(KEY, selections('-110'), 1_000)).toBe(2)
+    expect(recorder.observe(KEY, selections('-110'), 2_000)).toBe(0)
+    expect(recorder.observe(KEY, selections('-120'), 3_000)).toBe(1)
+
+    const rows = recorder.drain()
+    const over = rows.find((row) => row.selection_key === 'o-1')!
+    expect(over.points).toBe(2)
+    expect(over.price_deltas).toEqual([-10])
+    expect(recorder.drain()).toEqual([])
+  })
+
+  it('should not re-record prices carried over from the previous window', () => {
+    const previous = new OddsArchiveRecorder()
+    previous.seed(KEY, null)
+    previous.observe(KEY, selections('-115'), 1_000)
+    const carried = new Map(previous.lastPrices())
+    expect(carried.get(KEY)).toEqual({ 'o-1': -115, 'u-1': -110 })
+
+    const next = new OddsArchiveRecorder()
+    expect(next.hasKey(KEY)).toBe(false)
+    next.seed(KEY, carried.get(KEY)!)
+    expect(next.hasKey(KEY)).toBe(true)
+    expect(next.observe(KEY, selections('-115'), 61_000)).toBe(0)
+    expect(next.observe(KEY, selections('-105'), 62_000)).toBe(1)
+    expect(next.drain().map((row) => row.selection_key)).toEqual(['o-1'])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for Polymarket wallet clustering
+ * Run with: npm test
+ */
+
+import { DEFAULT_CLUSTER_OPTIONS, scoreWalletPairs } from '../polymarket/clusters'
+import type { ClusterEntryInput, ClusterWalletInput } from '../polymarket/clusters'
+
+const wallet = (address: string, funder: string | null): ClusterWalletInput => ({
+  wallet_address: address,
+  wallet_username: null,
+  rank: null,
+  tier: 'B',
+  total_bets: 10,
+  wins: 5,
+  losses: 5,
+  roi: 0,
+  total_wagered: 1000,
+  total_profit: 0,
+  funder,
+})
+
+const entry = (address: string, token: string, minutes: number, size = 100): ClusterEntryInput => ({
+  wallet_address: address,
+  token_id: token,
+  condition_id: `c-${token}`,
+  side: 'BUY',
+  bet_size: size,
+  created_at: new Date(Date.UTC(2026, 0, 1) + minutes * 60_000).toISOString(),
+})
+
+describe('Polymarket wallet clusters', () => {
+  describe('scoreWalletPairs', () => {
+    it('should link wallets on a shared funder alone', () => {
+      const wallets = [wallet('0xa', '0xf'), wallet('0xb', '0xf')]
+      const entries = [entry('0xa', 't1', 0, 100), entry('0xb', 't9', 600, 5000)]
+
+      const links = scoreWalletPairs(wallets, entries, DEFAULT_CLUSTER_OPTIONS)
+      expect(links).toHaveLength(1)
+      expect(links[0].evidence.funding).toBe(1)
+      expect(links[0].evidence.co_timing).toBe(0)
+    })
+
+    it('should not link unfunded wallets that share markets hours apart', () => {
+      const wallets = [wallet('0xa', null), wallet('0xb', null)]
+      const entries = ['t1', 't2', 't3'].flatMap((token, i) => [
+        entry('0xa', token, i * 10),
+        entry('0xb', token, i * 10 + 180),
+      ])
+
+      expect(scoreWalletPairs(wallets, entries, DEFAULT_CLUSTER_OPTIONS)).toEqual([])
+    })
+
+    it('should link unfunded wallets that enter the same markets together', () => {
+      const wallets = [wallet('0xa', null), wallet('0xb', null)]
+      const entries = ['t1', 't2', 't3'].flatMap((token, i) => [
+        entry('0xa', token, i * 10),
+        entry('0xb', token, i * 10 + 1),
+      ])
+
+      const links = scoreWalletPairs(wallets, entries, DEFAULT_CLUSTER_OPTIONS)
+      expect(links).toHaveLength(1)
+      expect(links[0].co_timed).toBe(3)
+    })
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for the Sharp Intel signal score
+ * Run with: npm test
+ */
+
+import { computeSignalScore, type ScoreInput } from '../polymarket/score'
+
+function input(overrides: Partial<ScoreInput>): ScoreInput {
+  return {
+    tier: 'sharp',
+    bet_size: 1000,
+    wallet_avg_stake: 1000,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  }
+}
+
+describe('computeSignalScore', () => {
+  it('should rank a bigger-than-usual bet above a usual one', () => {
+    const usual = computeSignalScore(input({}))
+    const big = computeSignalScore(input({ bet_size: 5000 }))
+    expect(big.total).toBeGreaterThan(usual.total)
+  })
+
+  it('should not reward a cluster for betting its usual combined size', () => {
+    const single = computeSignalScore(input({}))
+    // Three linked wallets, each at its own average
+    const cluster = computeSignalScore(
+      input({ cluster_size: 3, cluster_stake: 3000, cluster_avg_stake: 3000 })
+    )
+    expect(cluster.total).toBe(single.total)
+  })
+
+  it('should score a cluster on its combined stake against its combined average', () => {
+    const cluster = computeSignalScore(
+      input({ cluster_size: 2, cluster_stake: 10_000, cluster_avg_stake: 2000 })
+    )
+    const single = computeSignalScore(input({ bet_size: 5000 }))
+    expect(cluster.total).toBe(single.total)
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for leg grading and slip settlement
+ * Run with: npm test
+ */
+
+import { gradeGameLeg, gradePlayerLeg, settleSlip, teamsMatch } from '../settlement/grading'
+import type { EventResult, GradableLeg } from '../settlement/types'
+
+const FINAL: EventResult = { final: true, home_score: 110, away_score: 104 }
+
+function leg(overrides: Partial<GradableLeg>): GradableLeg {
+  return {
+    favorite_id: 'fav-1',
+    type: 'player',
+    sport: 'nba',
+    event_id: 'evt-1',
+    game_date: '2026-01-01',
+    start_time: null,
+    home_team: 'Los Angeles Lakers',
+    away_team: 'Boston Celtics',
+    player_id: 'p-1',
+    player_name: 'Player',
+    market: 'player_points',
+    line: 24.5,
+    side: 'over',
+    ...overrides,
+  }
+}
+
+describe('Settlement grading', () => {
+  describe('gradePlayerLeg', () => {
+    it('should grade over/under against the line', () => {
+      const statLine = { played: true, stats: { pts: 27 } }
+      expect(gradePlayerLeg(leg({}), FINAL, statLine).result).toBe('won')
+      expect(gradePlayerLeg(leg({ side: 'under' }), FINAL, statLine).result).toBe('lost')
+      expect(gradePlayerLeg(leg({ line: 27 }), FINAL, statLine).result).toBe('push')
+    })
+
+    it('should sum combo market components', () => {
+      const statLine = { played: true, stats: { pts: 20, reb: 8, ast: 6 } }
+      const grade = gradePlayerLeg(leg({ market: 'player_pra', line: 33.5 }), FINAL, statLine)
+      expect(grade).toEqual({ result: 'won', actual_value: 34 })
+    })
+
+    it('should grade yes/no props on at least one', () => {
+      const mlbLeg = leg({ sport: 'mlb', market: 'player_home_runs', line: null, side: 'yes' })
+      expect(gradePlayerLeg(mlbLeg, FINAL, { played: true, stats: { home_runs: 1 } }).result).toBe('won')
+      expect(gradePlayerLeg(mlbLeg, FINAL, { played: true, stats: { home_runs: 0 } }).result).toBe('lost')
+    })
+
+    it('should stay pending until the event is final', () => {
+      const grade = gradePlayerLeg(leg({}), { ...FINAL, final: false }, null)
+      expect(grade).toEqual({ result: 'pending', actual_value: null })
+    })
+
+    it('should stay pending, not void, while a final game has no stats yet', () => {
+      const grade = gradePlayerLeg(leg({}), FINAL, 'pending')
+      expect(grade).toEqual({ result: 'pending', actual_value: null })
+      expect(grade.ungradeable).toBeUndefined()
+    })
+
+    it('should void DNPs, scratched pitchers and postponed games', () => {
+      const dnp = { played: false, stats: {} }
+      expect(gradePlayerLeg(leg({}), FINAL, dnp).void_reason).toBe('dnp')
+      expect(
+        gradePlayerLeg(leg({ sport: 'mlb', market: 'pitcher_strikeouts' }), FINAL, dnp).void_reason
+      ).toBe('scratched')
+      expect(gradePlayerLeg(leg({}), { ...FINAL, postponed: true }, null).void_reason).toBe('postponed')
+    })
+
+    it('should flag unknown markets and missing stat columns as ungradeable', () => {
+      const statLine = { played: true, stats: { pts: 27 } }
+      expect(gradePlayerLeg(leg({ market: 'player_double_double' }), FINAL, statLine).ungradeable).toBe(true)
+      expect(gradePlayerLeg(leg({ market: 'player_rebounds' }), FINAL, statLine).ungradeable).toBe(true)
+      expect(gradePlayerLeg(leg({}), FINAL, null).ungradeable).toBe(true)
+    })
+  })
+
+  describe('gradeGameLeg', () => {
+    const gameLeg = (overrides: Partial<GradableLeg>) => leg({ type: 'game', player_name: null, ...overrides })
+
+    it('should grade moneylines by team name or side', () => {
+      expect(gradeGameLeg(gameLeg({ market: 'moneyline', player_name: 'Lakers', side: 'lakers' }), FINAL).result).toBe('won')
+      expect(gradeGameLeg(gameLeg({ market: 'moneyline', side: 'away' }), FINAL).result).toBe('lost')
+      expect(
+        gradeGameLeg(gameLeg({ market: 'moneyline', side: 'home' }), { ...FINAL, away_score: 110 }).result
+      ).toBe('push')
+    })
+
+    it('should grade spreads with the line added to the margin', () => {
+      expect(gradeGameLeg(gameLeg({ market: 'spread', side: 'home', line: -5.5 }), FINAL).result).toBe('won')
+      expect(gradeGameLeg(gameLeg({ market: 'spread', side: 'home', line: -6 }), FINAL).result).toBe('push')
+      expect(gradeGameLeg(gameLeg({ market: 'spread', side: 'away', line: 5.5 }), FINAL).result).toBe('lost')
+    })
+
+    it('should grade totals and team totals', () => {
+      expect(gradeGameLeg(gameLeg({ market: 'game_total', side: 'over', line: 210.5 }), FINAL).result).toBe('won')
+      expect(gradeGameLeg(gameLeg({ market: 'team_total_away_team', side: 'over', line: 104 }), FINAL).result).toBe('push')
+    })
+
+    it('should leave period markets ungradeable', () => {
+      expect(gradeGameLeg(gameLeg({ market: '1h_spread', side: 'home' }), FINAL).ungradeable).toBe(true)
+    })
+  })
+
+  describe('teamsMatch', () => {
+    it('should match on full name or nickname', () => {
+      expect(teamsMatch('Los Angeles Lakers', 'LA Lakers')).toBe(true)
+      expect(teamsMatch('Boston Celtics', 'Celtics')).toBe(true)
+      expect(teamsMatch('Lakers', 'Celtics')).toBe(false)
+      expect(teamsMatch(null, 'Celtics')).toBe(false)
+    })
+  })
+
+  describe('settleSlip', () => {
+    it('should wait while legs are pending and none has lost', () => {
+      expect(settleSlip([{ result: 'won', price: -110 }, { result: 'pending', price: 150 }], 10, 264)).toBeNull()
+      expect(settleSlip([], 10, null)).toBeNull()
+    })
+
+    it('should settle as lost when any leg loses, even with legs still pending', () => {
+      const settlement = settleSlip(
+        [{ result: 'lost', price: -110 }, { result: 'pending', price: 150 }],
+        10,
+        264
+      )
+      expect(settlement).toEqual({ status: 'lost', payout: 0, settled_odds: 264, active_legs: 2 })
+    })
+
+    it('should honor the placed odds when every leg wins', () => {
+      const settlement = settleSlip([{ result: 'won', price: -110 }, { result: 'won', price: 150 }], 10, 300)
+      expect(settlement).toEqual({ status: 'won', payout: 40, settled_odds: 300, active_legs: 2 })
+    })
+
+    it('should reprice a reduced parlay on the remaining legs', () => {
+      const settlement = settleSlip(
+        [{ result: 'won', price: 150 }, { result: 'push', price: -110 }, { result: 'won', price: 100 }],
+        10,
+        600
+      )
+      expect(settlement).toEqual({ status: 'won', payout: 50, settled_odds: 400, active_legs: 2 })
+    })
+
+    it('should void when every leg pushes or is voided', () => {
+      const settlement = settleSlip([{ result: 'push', price: -110 }, { result: 'void', price: 150 }], 10, 264)
+      expect(settlement).toEqual({ status: 'void', payout: 10, settled_odds: null, active_legs: 0 })
+    })
+
+    it('should refund the stake when a reduced parlay is missing leg prices', () => {
+      const settlement = settleSlip([{ result: 'won', price: null }, { result: 'void', price: 150 }], 10, 264)
+      expect(settlement).toEqual({ status: 'void', payout: 10, settled_odds: null, active_legs: 1 })
+    })
+  })
+})
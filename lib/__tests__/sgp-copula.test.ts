@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the Gaussian copula used in SGP fair value
+ * Run with: npm test
+ */
+
+import {
+  bivariateNormalCDF,
+  choleskyCorrelation,
+  estimateJointProbability,
+  impliedLatentCorrelation,
+  pairJointProbability,
+} from '../sgp/copula'
+
+// P(X ≤ 0, Y ≤ 0) = 1/4 + asin(rho) / 2π
+const orthantProbability = (rho: number) => 0.25 + Math.asin(rho) / (2 * Math.PI)
+
+describe('Gaussian copula', () => {
+  describe('bivariateNormalCDF', () => {
+    it('should match the closed-form orthant probability across correlation regimes', () => {
+      for (const rho of [-0.95, -0.5, 0, 0.2, 0.5, 0.8, 0.95]) {
+        expect(bivariateNormalCDF(0, 0, rho)).toBeCloseTo(orthantProbability(rho), 6)
+      }
+    })
+
+    it('should reduce to the product of marginals when uncorrelated', () => {
+      expect(bivariateNormalCDF(0.5, -0.3, 0)).toBeCloseTo(0.691462 * 0.382089, 5)
+    })
+
+    it('should handle infinite bounds', () => {
+      expect(bivariateNormalCDF(Infinity, Infinity, 0.4)).toBeCloseTo(1, 10)
+      expect(bivariateNormalCDF(-Infinity, 0, 0.4)).toBe(0)
+      expect(bivariateNormalCDF(Infinity, 0, 0.4)).toBeCloseTo(0.5, 6)
+    })
+  })
+
+  describe('pairJointProbability', () => {
+    it('should raise the joint hit rate with positive correlation', () => {
+      const independent = pairJointProbability(0.55, 0.45, 0)
+      expect(independent).toBeCloseTo(0.55 * 0.45, 6)
+      expect(pairJointProbability(0.55, 0.45, 0.4)).toBeGreaterThan(independent)
+      expect(pairJointProbability(0.55, 0.45, -0.4)).toBeLessThan(independent)
+    })
+
+    it('should short-circuit certain and impossible legs', () => {
+      expect(pairJointProbability(0, 0.5, 0.3)).toBe(0)
+      expect(pairJointProbability(1, 0.5, 0.3)).toBe(0.5)
+      expect(pairJointProbability(0.4, 1, 0.3)).toBe(0.4)
+    })
+  })
+
+  describe('impliedLatentCorrelation', () => {
+    it('should invert pairJointProbability', () => {
+      for (const rho of [-0.6, -0.1, 0.25, 0.7]) {
+        const joint = pairJointProbability(0.6, 0.35, rho)
+        expect(impliedLatentCorrelation(0.6, 0.35, joint)).toBeCloseTo(rho, 4)
+      }
+    })
+
+    it('should clamp joints outside the Fréchet bounds', () => {
+      expect(impliedLatentCorrelation(0.6, 0.35, 0.5)).toBeGreaterThan(0.95)
+      expect(impliedLatentCorrelation(0.6, 0.35, 0)).toBeLessThan(-0.95)
+      expect(impliedLatentCorrelation(1, 0.35, 0.35)).toBe(0)
+    })
+  })
+
+  describe('choleskyCorrelation', () => {
+    it('should factor a valid correlation matrix without shrinkage', () => {
+      const matrix = [
+        [1, 0.3, 0.2],
+        [0.3, 1, 0.4],
+        [0.2, 0.4, 1],
+      ]
+      const { factor, shrinkage } = choleskyCorrelation(matrix)
+      expect(shrinkage).toBe(1)
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          const product = factor[i].reduce((acc, value, k) => acc + value * factor[j][k], 0)
+          expect(product).toBeCloseTo(matrix[i][j], 10)
+        }
+      }
+    })
+
+    it('should shrink an inconsistent matrix until it is positive definite', () => {
+      const { shrinkage } = choleskyCorrelation([
+        [1, 0.9, -0.9],
+        [0.9, 1, 0.9],
+        [-0.9, 0.9, 1],
+      ])
+      expect(shrinkage).toBeGreaterThan(0)
+      expect(shrinkage).toBeLessThan(1)
+    })
+  })
+
+  describe('estimateJointProbability', () => {
+    const independent = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ]
+
+    it('should price two legs in closed form', () => {
+      const result = estimateJointProbability([0.5, 0.5], [[1, 0.5], [0.5, 1]])
+      expect(result.method).toBe('closed_form')
+      expect(result.jointProb).toBeCloseTo(1 / 3, 6)
+      expect(result.independentProb).toBe(0.25)
+    })
+
+    it('should simulate three or more legs close to the independent product', () => {
+      const result = estimateJointProbability([0.5, 0.6, 0.7], independent, { simulations: 40_000 })
+      expect(result.method).toBe('simulation')
+      expect(result.independentProb).toBeCloseTo(0.21, 10)
+      expect(Math.abs(result.jointProb - 0.21)).toBeLessThan(0.01)
+    })
+
+    it('should be reproducible for the same seed', () => {
+      const correlated = [
+        [1, 0.4, 0.3],
+        [0.4, 1, 0.2],
+        [0.3, 0.2, 1],
+      ]
+      const first = estimateJointProbability([0.5, 0.6, 0.7], correlated, { simulations: 5_000, seed: 7 })
+      const second = estimateJointProbability([0.5, 0.6, 0.7], correlated, { simulations: 5_000, seed: 7 })
+      expect(second.jointProb).toBe(first.jointProb)
+      expect(first.jointProb).toBeGreaterThan(first.independentProb)
+    })
+  })
+})
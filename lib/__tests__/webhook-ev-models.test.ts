@@ -0,0 +1,52 @@
+/**
+ * Unit tests for webhook EV model queries
+ * Run with: npm test
+ */
+
+import { buildEvModelQueries } from '../webhooks/ev-models'
+import type { WebhookEvModel } from '../webhooks/ev-models'
+
+const MODEL: WebhookEvModel = {
+  id: 'model-1',
+  user_id: 'user-1',
+  name: 'Pinnacle props',
+  sport: 'nba,nfl',
+  markets: null,
+  market_type: 'player',
+  sharp_books: ['pinnacle', 'circa'],
+  book_weights: { pinnacle: 70, circa: 30 },
+  min_books_reference: 2,
+  min_odds: -300,
+  max_odds: 300,
+  fair_source: 'market',
+  projection_weights: null,
+}
+
+describe('Webhook EV model queries', () => {
+  it('should query the +EV route with the model sharp books and weights', () => {
+    const [params, ...rest] = buildEvModelQueries(MODEL, 2)
+    expect(rest).toHaveLength(0)
+    expect(params.get('sports')).toBe('nba,nfl')
+    expect(params.get('marketType')).toBe('player')
+    expect(params.get('customSharpBooks')).toBe('pinnacle,circa')
+    expect(JSON.parse(params.get('customBookWeights')!)).toEqual({ pinnacle: 70, circa: 30 })
+    expect(params.get('minEV')).toBe('2')
+    expect(params.get('minOdds')).toBe('-300')
+  })
+
+  it('should run one query per sport for per-sport markets and skip cleared sports', () => {
+    const queries = buildEvModelQueries(
+      { ...MODEL, markets: ['nba:player_points', 'nba:player_assists', 'nfl:__none__'] },
+      0
+    )
+    expect(queries).toHaveLength(1)
+    expect(queries[0].get('sports')).toBe('nba')
+    expect(queries[0].get('markets')).toBe('player_points,player_assists')
+    expect(queries[0].has('marketType')).toBe(false)
+  })
+
+  it('should leave min EV to the projection for model fair sources', () => {
+    const [params] = buildEvModelQueries({ ...MODEL, fair_source: 'blend' }, 2)
+    expect(params.has('minEV')).toBe(false)
+  })
+})
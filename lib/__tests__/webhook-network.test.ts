@@ -0,0 +1,56 @@
+/**
+ * Unit tests for webhook destination address checks
+ * Run with: npm test
+ */
+
+import { isPrivateAddress, resolvePublicAddress } from '../webhooks/network'
+
+describe('Webhook network checks', () => {
+  describe('isPrivateAddress', () => {
+    it('should block loopback, private, link-local and CGNAT IPv4 ranges', () => {
+      for (const address of [
+        '0.0.0.0',
+        '10.1.2.3',
+        '100.64.0.1',
+        '100.127.255.254',
+        '127.0.0.1',
+        '169.254.169.254',
+        '172.16.0.1',
+        '172.31.255.255',
+        '192.168.1.1',
+        '198.18.0.1',
+        '224.0.0.1',
+        '255.255.255.255',
+      ]) {
+        expect(isPrivateAddress(address)).toBe(true)
+      }
+    })
+
+    it('should allow public IPv4 addresses next to the blocked ranges', () => {
+      for (const address of ['8.8.8.8', '100.63.255.255', '100.128.0.1', '172.32.0.1', '1.1.1.1']) {
+        expect(isPrivateAddress(address)).toBe(false)
+      }
+    })
+
+    it('should block private IPv6 ranges and embedded private IPv4', () => {
+      for (const address of ['::', '::1', 'fd00::1', 'fe80::1%eth0', 'ff02::1', '::ffff:127.0.0.1', '::ffff:a00:1', '64:ff9b::10.0.0.1']) {
+        expect(isPrivateAddress(address)).toBe(true)
+      }
+      expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false)
+      expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false)
+    })
+
+    it('should treat anything that is not an IP as private', () => {
+      expect(isPrivateAddress('example.com')).toBe(true)
+      expect(isPrivateAddress('')).toBe(true)
+    })
+  })
+
+  describe('resolvePublicAddress', () => {
+    it('should pin a public literal and refuse private ones', async () => {
+      await expect(resolvePublicAddress('8.8.8.8')).resolves.toEqual({ address: '8.8.8.8', family: 4 })
+      await expect(resolvePublicAddress('127.0.0.1')).rejects.toThrow('private address')
+      await expect(resolvePublicAddress('[::1]')).rejects.toThrow('private address')
+    })
+  })
+})
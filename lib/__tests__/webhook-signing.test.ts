@@ -0,0 +1,52 @@
+/**
+ * Unit tests for webhook payload signing
+ * Run with: npm test
+ */
+
+import {
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhooks/sign'
+
+const SECRET = 'whsec_test'
+const BODY = JSON.stringify({ id: 'evt_1', type: 'webhook.test', data: {} })
+const TIMESTAMP = 1_760_000_000
+
+describe('Webhook signing', () => {
+  it('should produce a Stripe-style header over "<t>.<body>"', () => {
+    const header = signWebhookPayload(SECRET, BODY, TIMESTAMP)
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/)
+    expect(signWebhookPayload(SECRET, BODY, TIMESTAMP)).toBe(header)
+  })
+
+  it('should verify its own signatures inside the tolerance window', () => {
+    const header = signWebhookPayload(SECRET, BODY, TIMESTAMP)
+    expect(verifyWebhookSignature(SECRET, BODY, header, undefined, TIMESTAMP * 1000)).toBe(true)
+    expect(
+      verifyWebhookSignature(SECRET, BODY, header, undefined, (TIMESTAMP + WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) * 1000)
+    ).toBe(true)
+  })
+
+  it('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+    const header = signWebhookPayload(SECRET, BODY, TIMESTAMP)
+    const now = TIMESTAMP * 1000
+    expect(verifyWebhookSignature(SECRET, `${BODY} `, header, undefined, now)).toBe(false)
+    expect(verifyWebhookSignature('whsec_other', BODY, header, undefined, now)).toBe(false)
+    expect(verifyWebhookSignature(SECRET, BODY, header, 60, now + 61_000)).toBe(false)
+  })
+
+  it('should reject malformed headers', () => {
+    const now = TIMESTAMP * 1000
+    expect(verifyWebhookSignature(SECRET, BODY, '', undefined, now)).toBe(false)
+    expect(verifyWebhookSignature(SECRET, BODY, `t=${TIMESTAMP}`, undefined, now)).toBe(false)
+    expect(verifyWebhookSignature(SECRET, BODY, `t=${TIMESTAMP},v1=abcd`, undefined, now)).toBe(false)
+  })
+
+  it('should generate distinct prefixed secrets', () => {
+    const secret = generateWebhookSecret()
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/)
+    expect(generateWebhookSecret()).not.toBe(secret)
+  })
+})
@@ -0,0 +1,30 @@
+import { DOMAINS } from "@/lib/domain";
+import type { AlertChannelHandler } from "./types";
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const sendEmailAlert: AlertChannelHandler = async (recipient, message) => {
+  const to = recipient.account_email;
+  if (!to) return { status: "skipped" };
+
+  // libs/resend throws at import time without RESEND_API_KEY
+  const { sendEmail } = await import("@/libs/resend");
+  const link = `${DOMAINS.app}${message.url}`;
+
+  await sendEmail({
+    to,
+    subject: `[Alert] ${message.title}`,
+    text: `${message.title}\n${message.body}\n\nRule: ${message.rule_name}\n${link}`,
+    html: `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px;">
+        <p style="font-size: 16px; font-weight: 600; margin: 0 0 4px;">${escapeHtml(message.title)}</p>
+        <p style="font-size: 14px; color: #525252; margin: 0 0 16px;">${escapeHtml(message.body)}</p>
+        <a href="${link}" style="display: inline-block; background: #10b981; color: #fff; padding: 8px 14px; border-radius: 6px; text-decoration: none; font-size: 14px;">Open in Unjuiced</a>
+        <p style="font-size: 12px; color: #a3a3a3; margin: 16px 0 0;">Triggered by your rule "${escapeHtml(message.rule_name)}".</p>
+      </div>
+    `,
+  });
+
+  return { status: "sent" };
+};
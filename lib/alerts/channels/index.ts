@@ -0,0 +1,51 @@
+/**
+ * Alert delivery channels
+ *
+ * Each channel is a handler keyed by AlertChannel. Adding a channel means
+ * adding it to ALERT_CHANNELS and registering its handler here.
+ */
+
+import type { AlertChannel, AlertMessage } from "../types";
+import { sendEmailAlert } from "./email";
+import { sendWebPushAlert } from "./web-push";
+import { sendDiscordAlert, sendSlackAlert } from "./webhooks";
+import type { AlertChannelHandler, AlertRecipient, ChannelResult } from "./types";
+
+export type { AlertChannelHandler, AlertRecipient, ChannelResult } from "./types";
+
+export const CHANNEL_HANDLERS: Record<AlertChannel, AlertChannelHandler> = {
+  email: sendEmailAlert,
+  web_push: sendWebPushAlert,
+  discord: sendDiscordAlert,
+  slack: sendSlackAlert,
+};
+
+/**
+ * Deliver one message over each requested channel. Channel errors are
+ * captured per channel so one failing webhook doesn't block the others.
+ */
+export async function deliverAlert(
+  channels: AlertChannel[],
+  recipient: AlertRecipient,
+  message: AlertMessage
+): Promise<Partial<Record<AlertChannel, ChannelResult>>> {
+  const results: Partial<Record<AlertChannel, ChannelResult>> = {};
+
+  await Promise.all(
+    channels.map(async (channel) => {
+      const handler = CHANNEL_HANDLERS[channel];
+      if (!handler) {
+        results[channel] = { status: "skipped" };
+        return;
+      }
+      try {
+        results[channel] = await handler(recipient, message);
+      } catch (error) {
+        console.error(`[alerts] ${channel} delivery failed for user ${recipient.user_id}:`, error);
+        results[channel] = { status: "failed", error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  return results;
+}
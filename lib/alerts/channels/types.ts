@@ -0,0 +1,21 @@
+import type { AlertDestinations, AlertMessage, DeliveryStatus, PushSubscriptionRecord } from "../types";
+
+/**
+ * Everything a channel may need to reach one user
+ */
+export interface AlertRecipient {
+  user_id: string;
+  destinations: AlertDestinations | null;
+  /** Verified account email; the only address email alerts go to */
+  account_email: string | null;
+  push_subscriptions: PushSubscriptionRecord[];
+}
+
+export interface ChannelResult {
+  status: DeliveryStatus;
+  /** Push subscriptions the push service reported as gone (404/410) */
+  expired_push_endpoints?: string[];
+  error?: string;
+}
+
+export type AlertChannelHandler = (recipient: AlertRecipient, message: AlertMessage) => Promise<ChannelResult>;
@@ -0,0 +1,145 @@
+/**
+ * Web Push delivery
+ *
+ * Minimal Web Push sender: VAPID auth (RFC 8292) and aes128gcm payload
+ * encryption (RFC 8291) using node:crypto, so no extra dependency is needed.
+ *
+ * Env:
+ *   VAPID_PUBLIC_KEY  - base64url uncompressed P-256 public key (also exposed
+ *                       to the browser as NEXT_PUBLIC_VAPID_PUBLIC_KEY)
+ *   VAPID_PRIVATE_KEY - base64url raw 32-byte private key
+ *   VAPID_SUBJECT     - mailto: or https: contact for the push service
+ */
+
+import crypto from "node:crypto";
+import { isPushServiceEndpoint } from "../schema";
+import type { PushSubscriptionRecord } from "../types";
+import type { AlertChannelHandler } from "./types";
+
+const PUSH_TTL_SECONDS = 5 * 60;
+const RECORD_SIZE = 4096;
+
+const b64url = (buffer: Buffer) => buffer.toString("base64url");
+const fromB64url = (value: string) => Buffer.from(value, "base64url");
+
+function getVapidConfig() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || "mailto:support@unjuiced.bet",
+  };
+}
+
+function createVapidAuthorization(endpoint: string, vapid: NonNullable<ReturnType<typeof getVapidConfig>>): string {
+  const publicKey = fromB64url(vapid.publicKey);
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: b64url(publicKey.subarray(1, 33)),
+      y: b64url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = b64url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = b64url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${header}.${claims}.${b64url(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for one subscription (single aes128gcm record)
+ */
+function encryptPayload(subscription: PushSubscriptionRecord, payload: string): Buffer {
+  const uaPublic = fromB64url(subscription.p256dh);
+  const authSecret = fromB64url(subscription.auth);
+
+  const ecdh = crypto.createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = Buffer.from(crypto.hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const cek = Buffer.from(crypto.hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(crypto.hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", cek, nonce);
+  // 0x02 marks the last (only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+
+  return Buffer.concat([header, asPublic, ciphertext, cipher.getAuthTag()]);
+}
+
+export const sendWebPushAlert: AlertChannelHandler = async (recipient, message) => {
+  if (recipient.push_subscriptions.length === 0) return { status: "skipped" };
+
+  const vapid = getVapidConfig();
+  if (!vapid) return { status: "skipped", error: "VAPID keys not configured" };
+
+  const payload = JSON.stringify({ title: message.title, body: message.body, url: message.url, tag: message.rule_name });
+  const expired: string[] = [];
+  let sent = 0;
+
+  await Promise.all(
+    recipient.push_subscriptions.map(async (subscription) => {
+      // Rows can be written directly under RLS, so re-check before sending
+      if (!isPushServiceEndpoint(subscription.endpoint)) {
+        console.warn(`[alerts] Skipping non push-service endpoint for user ${recipient.user_id}`);
+        return;
+      }
+      try {
+        const response = await fetch(subscription.endpoint, {
+          method: "POST",
+          headers: {
+            Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+            "Content-Encoding": "aes128gcm",
+            "Content-Type": "application/octet-stream",
+            TTL: String(PUSH_TTL_SECONDS),
+            Urgency: "high",
+          },
+          body: new Uint8Array(encryptPayload(subscription, payload)),
+          redirect: "manual",
+          signal: AbortSignal.timeout(5000),
+        });
+
+        if (response.status === 404 || response.status === 410) {
+          expired.push(subscription.endpoint);
+        } else if (response.ok) {
+          sent++;
+        } else {
+          console.warn(`[alerts] Push failed (${response.status}) for user ${recipient.user_id}`);
+        }
+      } catch (error) {
+        console.warn(`[alerts] Push error for user ${recipient.user_id}:`, error);
+      }
+    })
+  );
+
+  return {
+    status: sent > 0 ? "sent" : "failed",
+    expired_push_endpoints: expired,
+  };
+};
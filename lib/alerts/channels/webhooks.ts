@@ -0,0 +1,69 @@
+import { DOMAINS } from "@/lib/domain";
+import { DISCORD_WEBHOOK_URL_PATTERN, SLACK_WEBHOOK_URL_PATTERN } from "../schema";
+import type { AlertMessage } from "../types";
+import type { AlertChannelHandler, ChannelResult } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+async function postJson(url: string, body: unknown): Promise<ChannelResult> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    redirect: "manual",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    return { status: "failed", error: `HTTP ${response.status}` };
+  }
+  return { status: "sent" };
+}
+
+const RULE_TYPE_COLORS: Record<AlertMessage["rule_type"], number> = {
+  ev: 0x10b981,
+  arb: 0x3b82f6,
+  line_move: 0xf59e0b,
+  sharp_consensus: 0x8b5cf6,
+};
+
+export const sendDiscordAlert: AlertChannelHandler = async (recipient, message) => {
+  const url = recipient.destinations?.discord_webhook_url;
+  if (!url) return { status: "skipped" };
+  // Destinations can be written directly under RLS, so re-check before sending
+  if (!DISCORD_WEBHOOK_URL_PATTERN.test(url)) return { status: "failed", error: "Not a Discord webhook URL" };
+
+  return postJson(url, {
+    username: "Unjuiced Alerts",
+    embeds: [
+      {
+        title: message.title,
+        description: message.body,
+        url: `${DOMAINS.app}${message.url}`,
+        color: RULE_TYPE_COLORS[message.rule_type],
+        footer: { text: message.rule_name },
+        timestamp: new Date().toISOString(),
+      },
+    ],
+  });
+};
+
+export const sendSlackAlert: AlertChannelHandler = async (recipient, message) => {
+  const url = recipient.destinations?.slack_webhook_url;
+  if (!url) return { status: "skipped" };
+  if (!SLACK_WEBHOOK_URL_PATTERN.test(url)) return { status: "failed", error: "Not a Slack webhook URL" };
+
+  return postJson(url, {
+    text: `${message.title} — ${message.body}`,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*<${DOMAINS.app}${message.url}|${message.title}>*\n${message.body}` },
+      },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: message.rule_name }],
+      },
+    ],
+  });
+};
@@ -0,0 +1,247 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Pure matchers that test feed rows against a rule's conditions and render
+ * the resulting notification text. Feed loading lives in ./feeds.
+ */
+
+import type { ArbRow } from "@/lib/arb-schema";
+import { isArbFreshForMode } from "@/lib/arb-freshness";
+import { formatMarketLabelShort } from "@/lib/data/markets";
+import { getSportsbookById, normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import type { DevigMethod } from "@/lib/ev/types";
+import { computeMoveValue, formatOdds } from "@/lib/line-history/utils";
+import { detectPileOn } from "@/lib/polymarket/consensus";
+import type { MarketConsensus } from "@/lib/polymarket/types";
+import type {
+  AlertMatch,
+  AlertScopeFilters,
+  ArbAlertConditions,
+  EVAlertConditions,
+  LineMoveAlertConditions,
+  SharpConsensusAlertConditions,
+} from "./types";
+
+// Worker EV row shape (ev:{sport}:rows:{preset}) — see /api/v2/positive-ev
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type WorkerEVRow = any;
+
+/** Per-book best price for one side of a line (from props:{sport}:best_odds:rows) */
+export interface LinePriceSnapshot {
+  /** `${dealKey}|${book}` → American price */
+  prices: Record<string, number>;
+  /** Display metadata keyed by dealKey */
+  meta: Record<string, { sport: string; mkt: string; ln: number; side: string; label: string }>;
+  captured_at: number;
+}
+
+const EV_METHOD_FIELDS: Record<DevigMethod, string> = {
+  power: "pow",
+  multiplicative: "mult",
+  additive: "add",
+  probit: "probit",
+};
+
+const bookName = (id: string) => getSportsbookById(id)?.name ?? id;
+
+function inList(list: string[] | null, value: string | null | undefined): boolean {
+  if (!list || list.length === 0) return true;
+  if (!value) return false;
+  return list.includes(value.toLowerCase());
+}
+
+function inBooks(filters: AlertScopeFilters, bookId: string | null | undefined): boolean {
+  if (!filters.books || filters.books.length === 0) return true;
+  if (!bookId) return false;
+  const normalized = normalizeSportsbookId(bookId);
+  return filters.books.some((b) => normalizeSportsbookId(b) === normalized);
+}
+
+// =============================================================================
+// +EV
+// =============================================================================
+
+/** Worst-case EV % across the rule's de-vig methods */
+export function getWorstCaseEV(row: WorkerEVRow, methods: DevigMethod[]): number | null {
+  const values = methods
+    .map((method) => row?.ev?.[EV_METHOD_FIELDS[method]])
+    .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+  return values.length > 0 ? Math.min(...values) : null;
+}
+
+export function matchEVRow(conditions: EVAlertConditions, sport: string, row: WorkerEVRow): AlertMatch | null {
+  if (!inList(conditions.sports, sport)) return null;
+  if (!inList(conditions.markets, row?.mkt)) return null;
+
+  const scope = row?.meta?.scope === "live" ? "live" : "pregame";
+  if (conditions.mode !== "all" && conditions.mode !== scope) return null;
+
+  const bookId: string | undefined = row?.book?.id;
+  if (!inBooks(conditions, bookId)) return null;
+
+  const price = row?.book?.odds?.am;
+  if (typeof price !== "number" || !Number.isFinite(price)) return null;
+  if (conditions.min_odds !== null && price < conditions.min_odds) return null;
+  if (conditions.max_odds !== null && price > conditions.max_odds) return null;
+
+  const ev = getWorstCaseEV(row, conditions.devig_methods);
+  if (ev === null || ev < conditions.min_ev) return null;
+
+  const entity = row?.ev_data?.player ?? row?.ent ?? "";
+  const side = String(row?.side ?? "");
+  const market = formatMarketLabelShort(row?.mkt) || row?.mkt;
+  const selection = [entity, side && side[0].toUpperCase() + side.slice(1), row?.line, market]
+    .filter((part) => part !== undefined && part !== null && part !== "")
+    .join(" ");
+
+  return {
+    dedupe_key: `ev:${row?.seid ?? `${row?.eid}:${row?.mkt}:${entity}:${side}:${row?.line}`}:${normalizeSportsbookId(bookId ?? "")}`,
+    title: `+${ev.toFixed(1)}% EV · ${selection}`,
+    body: `${bookName(bookId ?? "")} ${formatOdds(price)} · ${sport.toUpperCase()}${scope === "live" ? " · LIVE" : ""}`,
+    url: "/positive-ev",
+    payload: { sport, seid: row?.seid, event_id: row?.eid, market: row?.mkt, book: bookId, price, ev },
+  };
+}
+
+// =============================================================================
+// Arbitrage
+// =============================================================================
+
+export function matchArbRow(conditions: ArbAlertConditions, id: string, row: ArbRow, now = Date.now()): AlertMatch | null {
+  const isLive = row.ev?.live === true;
+  if (isLive && !conditions.include_live) return null;
+  if (!isArbFreshForMode(row, conditions.include_live ? "all" : "pregame", now)) return null;
+
+  if (!inList(conditions.sports, row.lg?.sport)) return null;
+  if (!inList(conditions.markets, row.mkt)) return null;
+  if (!inBooks(conditions, row.o?.bk) || !inBooks(conditions, row.u?.bk)) return null;
+
+  const roi = (row.roi_bps ?? 0) / 100;
+  if (roi < conditions.min_roi) return null;
+
+  if (conditions.min_max_bet !== null) {
+    const maxBet = row.max_bet ?? null;
+    if (maxBet === null || maxBet < conditions.min_max_bet) return null;
+  }
+
+  const matchup = [row.ev?.away?.abbr || row.ev?.away?.name, row.ev?.home?.abbr || row.ev?.home?.name]
+    .filter(Boolean)
+    .join(" @ ");
+  const market = formatMarketLabelShort(row.mkt) || row.mkt;
+
+  return {
+    dedupe_key: `arb:${id}`,
+    title: `${roi.toFixed(2)}% arb · ${matchup} ${market}${row.ln != null ? ` ${row.ln}` : ""}`,
+    body: [
+      `${bookName(row.o.bk)} ${formatOdds(row.o.od)} / ${bookName(row.u.bk)} ${formatOdds(row.u.od)}`,
+      row.max_bet ? `max $${Math.round(row.max_bet)}` : null,
+      isLive ? "LIVE" : null,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    url: "/arbitrage",
+    payload: { id, event_id: row.eid, market: row.mkt, roi, max_bet: row.max_bet ?? null },
+  };
+}
+
+// =============================================================================
+// Line moves
+// =============================================================================
+
+/**
+ * Compare the current per-book prices against a snapshot from
+ * `window_minutes` ago. Move size is in cents, normalized around even money.
+ */
+export function matchLineMoves(
+  conditions: LineMoveAlertConditions,
+  previous: LinePriceSnapshot,
+  current: LinePriceSnapshot
+): AlertMatch[] {
+  const matches: AlertMatch[] = [];
+
+  for (const [priceKey, price] of Object.entries(current.prices)) {
+    const prevPrice = previous.prices[priceKey];
+    if (prevPrice === undefined) continue;
+
+    const move = computeMoveValue(prevPrice, price);
+    if (move === null || Math.abs(move) < conditions.min_cents) continue;
+
+    const direction = move > 0 ? "up" : "down";
+    if (conditions.direction !== "any" && conditions.direction !== direction) continue;
+
+    const separator = priceKey.lastIndexOf("|");
+    const dealKey = priceKey.slice(0, separator);
+    const book = priceKey.slice(separator + 1);
+    const meta = current.meta[dealKey];
+    if (!meta) continue;
+
+    if (!inList(conditions.sports, meta.sport)) continue;
+    if (!inList(conditions.markets, meta.mkt)) continue;
+    if (!inBooks(conditions, book)) continue;
+
+    const minutes = Math.max(1, Math.round((current.captured_at - previous.captured_at) / 60_000));
+
+    matches.push({
+      dedupe_key: `line:${priceKey}:${direction}`,
+      title: `${direction === "up" ? "▲" : "▼"} ${Math.abs(Math.round(move))}¢ · ${meta.label}`,
+      body: `${bookName(book)} ${formatOdds(prevPrice)} → ${formatOdds(price)} in ${minutes}m · ${meta.sport.toUpperCase()}`,
+      url: "/odds",
+      payload: { key: dealKey, book, from: prevPrice, to: price, move, window_minutes: minutes },
+    });
+  }
+
+  return matches.sort((a, b) => Math.abs(Number(b.payload.move)) - Math.abs(Number(a.payload.move)));
+}
+
+// =============================================================================
+// Sharp consensus (Polymarket)
+// =============================================================================
+
+const formatDollars = (n: number) => (n >= 1000 ? `$${(n / 1000).toFixed(1)}k` : `$${Math.round(n)}`);
+
+/**
+ * Markets where at least `min_top_wallets` S/A-tier wallets entered the
+ * consensus side within `window_minutes`, the latest of them inside the
+ * last window so each pile-on alerts while it's still forming.
+ */
+export function matchConsensusPileOns(
+  conditions: SharpConsensusAlertConditions,
+  markets: MarketConsensus[],
+  now = Date.now()
+): AlertMatch[] {
+  const matches: AlertMatch[] = [];
+
+  for (const market of markets) {
+    if (!inList(conditions.sports, market.sport)) continue;
+    if (!inList(conditions.markets, market.market_type)) continue;
+    if (market.strength < conditions.min_strength) continue;
+
+    const side = market.sides.find((s) => s.outcome === market.outcome);
+    if (!side) continue;
+    const pileOn = detectPileOn(side.outcome, side.top_entries, conditions.window_minutes, conditions.min_top_wallets);
+    if (!pileOn || pileOn.dollars < conditions.min_dollars) continue;
+    if (now - Date.parse(pileOn.last_at) > conditions.window_minutes * 60_000) continue;
+
+    matches.push({
+      dedupe_key: `consensus:${market.condition_id}:${market.outcome}`,
+      title: `${pileOn.wallets} sharp wallets on ${market.outcome} · ${market.market_title}`,
+      body: [
+        `${formatDollars(pileOn.dollars)} in ${pileOn.window_minutes}m`,
+        `consensus ${market.strength}/100`,
+        market.sport ? market.sport.toUpperCase() : null,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      url: "/sharp-intel",
+      payload: {
+        condition_id: market.condition_id,
+        outcome: market.outcome,
+        wallets: pileOn.wallets,
+        dollars: pileOn.dollars,
+        strength: market.strength,
+      },
+    });
+  }
+
+  return matches.sort((a, b) => Number(b.payload.strength) - Number(a.payload.strength));
+}
@@ -0,0 +1,146 @@
+/**
+ * Alert Feed Loaders
+ *
+ * Reads the same Redis feeds that back the SSE streams (`pumpPubSub`):
+ * worker +EV rows, the arbitrage hash and the best-odds hashes. Line-move
+ * alerts need history, so each run also stores a compact per-minute price
+ * snapshot that later runs diff against.
+ */
+
+import { redis, hgetallSafe, parseRedisValue, setSafe } from "@/lib/shared-redis-client";
+import type { ArbRow } from "@/lib/arb-schema";
+import { zrevrangeCompat } from "@/lib/redis-zset";
+import { formatMarketLabelShort } from "@/lib/data/markets";
+import { normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import type { SharpPreset } from "@/lib/ev/types";
+import type { LinePriceSnapshot, WorkerEVRow } from "./evaluate";
+
+/** Sports evaluated when a rule doesn't narrow them */
+export const DEFAULT_ALERT_SPORTS = ["nba", "nfl", "nhl", "mlb", "ncaab", "ncaaf", "wnba"];
+
+const ARB_ROWS_KEY = "arbs:rows";
+const ARB_SORT_KEY = "arbs:sort:roi";
+const MAX_ARBS = 500;
+
+const BEST_ODDS_SORT_KEY = "best_odds:all:sort:improvement";
+const MAX_SNAPSHOT_DEALS = 600;
+
+/** Longest supported window + a little slack for late cron runs */
+const SNAPSHOT_TTL_SECONDS = 35 * 60;
+
+const snapshotKey = (minuteBucket: number) => `alerts:line_snap:${minuteBucket}`;
+
+export const toMinuteBucket = (ms: number) => Math.floor(ms / 60_000);
+
+/**
+ * Worker +EV rows for one sport/preset (ev:{sport}:rows:{preset})
+ */
+export async function loadEVRows(sport: string, preset: SharpPreset): Promise<WorkerEVRow[]> {
+  const rowsKey = `ev:${sport}:rows:${preset}`;
+  const fields = await hgetallSafe(rowsKey);
+  if (!fields) return [];
+
+  const rows: WorkerEVRow[] = [];
+  for (const [seid, raw] of Object.entries(fields)) {
+    const row = parseRedisValue<WorkerEVRow>(raw, `${rowsKey}:${seid}`);
+    if (row) rows.push({ ...row, seid: row.seid ?? seid });
+  }
+  return rows;
+}
+
+/**
+ * Top arbs by ROI with their rows (arbs:rows)
+ */
+export async function loadArbRows(): Promise<Array<{ id: string; row: ArbRow }>> {
+  const ids = await zrevrangeCompat(redis, ARB_SORT_KEY, 0, MAX_ARBS - 1);
+  if (ids.length === 0) return [];
+
+  const raw = (await redis.hmget(ARB_ROWS_KEY, ...ids)) as Record<string, unknown> | unknown[] | null;
+  const values = Array.isArray(raw) ? raw : ids.map((id) => (raw as Record<string, unknown> | null)?.[id] ?? null);
+
+  const result: Array<{ id: string; row: ArbRow }> = [];
+  ids.forEach((id, i) => {
+    const row = parseRedisValue<ArbRow>(values[i] as string | null, `${ARB_ROWS_KEY}:${id}`);
+    if (row) result.push({ id, row });
+  });
+  return result;
+}
+
+/**
+ * Build a per-book price snapshot from the highest-improvement best-odds
+ * deals. Only the top deals are tracked to keep snapshots small.
+ */
+export async function buildLinePriceSnapshot(now = Date.now()): Promise<LinePriceSnapshot> {
+  const snapshot: LinePriceSnapshot = { prices: {}, meta: {}, captured_at: now };
+
+  const members = await zrevrangeCompat(redis, BEST_ODDS_SORT_KEY, 0, MAX_SNAPSHOT_DEALS - 1);
+  const bySport = new Map<string, string[]>();
+  for (const member of members) {
+    const [sport, ...rest] = member.split(":");
+    if (!sport || rest.length === 0) continue;
+    const list = bySport.get(sport) ?? [];
+    list.push(rest.join(":"));
+    bySport.set(sport, list);
+  }
+
+  for (const [sport, fields] of bySport) {
+    const rowsKey = `props:${sport}:best_odds:rows`;
+    let raw: unknown;
+    try {
+      raw = await redis.hmget(rowsKey, ...fields);
+    } catch (error) {
+      console.warn(`[alerts] Failed to load ${rowsKey}:`, error);
+      continue;
+    }
+    const values = Array.isArray(raw) ? raw : fields.map((f) => (raw as Record<string, unknown> | null)?.[f] ?? null);
+
+    fields.forEach((field, i) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const deal = parseRedisValue<any>(values[i] as string | null);
+      if (!deal || !Array.isArray(deal.all_books)) return;
+
+      const dealKey = `${sport}:${field}`;
+      const entity = deal.player_name || deal.ent || [deal.away_team, deal.home_team].filter(Boolean).join(" @ ");
+      const side = deal.side ? String(deal.side)[0].toUpperCase() + String(deal.side).slice(1) : "";
+      snapshot.meta[dealKey] = {
+        sport,
+        mkt: deal.mkt,
+        ln: Number(deal.ln),
+        side: deal.side,
+        label: [entity, side, deal.ln, formatMarketLabelShort(deal.mkt) || deal.mkt].filter((p) => p !== undefined && p !== "").join(" "),
+      };
+
+      for (const entry of deal.all_books) {
+        const price = Number(entry?.price);
+        if (!entry?.book || !Number.isFinite(price)) continue;
+        snapshot.prices[`${dealKey}|${normalizeSportsbookId(entry.book)}`] = price;
+      }
+    });
+  }
+
+  return snapshot;
+}
+
+export async function saveLinePriceSnapshot(snapshot: LinePriceSnapshot): Promise<void> {
+  // Meta is rebuilt each run; only prices are needed to diff against
+  const stored = { prices: snapshot.prices, captured_at: snapshot.captured_at };
+  await setSafe(snapshotKey(toMinuteBucket(snapshot.captured_at)), JSON.stringify(stored), {
+    ex: SNAPSHOT_TTL_SECONDS,
+  });
+}
+
+/**
+ * Snapshot from `minutesAgo` minutes before `now` (falls back to the
+ * neighbouring minute if that cron run was missed).
+ */
+export async function loadLinePriceSnapshot(minutesAgo: number, now = Date.now()): Promise<LinePriceSnapshot | null> {
+  const currentBucket = toMinuteBucket(now);
+  const bucket = currentBucket - minutesAgo;
+  for (const candidate of [bucket, bucket - 1, bucket + 1]) {
+    if (candidate >= currentBucket) continue;
+    const raw = await redis.get(snapshotKey(candidate));
+    const parsed = parseRedisValue<Omit<LinePriceSnapshot, "meta">>(raw as string | null);
+    if (parsed?.prices) return { ...parsed, meta: {} };
+  }
+  return null;
+}
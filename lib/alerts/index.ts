@@ -0,0 +1,57 @@
+/**
+ * Alerts Library
+ *
+ * User-defined alert rules (+EV, arbitrage, line moves, sharp consensus)
+ * evaluated server-side against the Redis feeds and Polymarket signals,
+ * deduplicated per opportunity, rate-limited per user and delivered over
+ * email, web push and webhooks.
+ */
+
+// Types
+export type {
+  AlertRuleType,
+  AlertChannel,
+  AlertScopeFilters,
+  EVAlertConditions,
+  ArbAlertConditions,
+  LineMoveAlertConditions,
+  SharpConsensusAlertConditions,
+  AlertConditionsByType,
+  AlertConditions,
+  AlertRule,
+  AlertDestinations,
+  PushSubscriptionRecord,
+  AlertMatch,
+  AlertMessage,
+  DeliveryStatus,
+  AlertHistoryEntry,
+  AlertRunSummary,
+} from "./types";
+export { ALERT_CHANNELS } from "./types";
+
+// Validation
+export {
+  MAX_ALERT_RULES_PER_USER,
+  DEFAULT_ALERT_COOLDOWN_MINUTES,
+  MAX_CONSENSUS_WINDOW_MINUTES,
+  EVConditionsSchema,
+  ArbConditionsSchema,
+  LineMoveConditionsSchema,
+  SharpConsensusConditionsSchema,
+  CreateAlertRuleSchema,
+  UpdateAlertRuleSchema,
+  AlertDestinationsSchema,
+  PushSubscriptionSchema,
+  getConditionsSchema,
+} from "./schema";
+export type { CreateAlertRuleInput, UpdateAlertRuleInput } from "./schema";
+
+// Matching
+export { getWorstCaseEV, matchEVRow, matchArbRow, matchLineMoves, matchConsensusPileOns } from "./evaluate";
+export type { LinePriceSnapshot, WorkerEVRow } from "./evaluate";
+
+// Runner (server)
+export { evaluateAlertRules } from "./runner";
+export { MAX_ALERTS_PER_USER_PER_HOUR, MAX_MATCHES_PER_RULE_PER_RUN } from "./throttle";
+export { CHANNEL_HANDLERS, deliverAlert } from "./channels";
+export type { AlertChannelHandler, AlertRecipient, ChannelResult } from "./channels";
@@ -0,0 +1,311 @@
+/**
+ * Alert Rule Runner
+ *
+ * Evaluates every enabled alert rule against the live Redis feeds, drops
+ * duplicates and over-budget matches, delivers the rest through each rule's
+ * channels and writes the history log. Called by the evaluate-alerts cron.
+ *
+ * Feeds are loaded once per run and shared across rules: EV rows per
+ * (sport, preset), the top arbs, one best-odds price snapshot that is
+ * also persisted for future line-move comparisons, and the consensus of
+ * recently active Polymarket markets.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import type { ArbRow } from "@/lib/arb-schema";
+import { PLAN_LIMITS, hasEliteAccess, hasSharpAccess, normalizePlanName, type UserPlan } from "@/lib/plans";
+import type { SharpPreset } from "@/lib/ev/types";
+import { loadActiveMarketConsensus } from "@/lib/polymarket/consensus-scan";
+import type { MarketConsensus } from "@/lib/polymarket/types";
+import { deliverAlert, type AlertRecipient } from "./channels";
+import {
+  matchArbRow,
+  matchConsensusPileOns,
+  matchEVRow,
+  matchLineMoves,
+  type LinePriceSnapshot,
+  type WorkerEVRow,
+} from "./evaluate";
+import {
+  DEFAULT_ALERT_SPORTS,
+  buildLinePriceSnapshot,
+  loadArbRows,
+  loadEVRows,
+  loadLinePriceSnapshot,
+  saveLinePriceSnapshot,
+} from "./feeds";
+import { MAX_CONSENSUS_WINDOW_MINUTES } from "./schema";
+import { MAX_MATCHES_PER_RULE_PER_RUN, claimAlert, consumeUserAlertBudget, releaseAlert } from "./throttle";
+import type {
+  AlertChannel,
+  AlertDestinations,
+  AlertMatch,
+  AlertRule,
+  AlertRunSummary,
+  DeliveryStatus,
+  PushSubscriptionRecord,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+interface FeedCache {
+  ev: Map<string, Promise<WorkerEVRow[]>>;
+  arbs: Promise<Array<{ id: string; row: ArbRow }>> | null;
+  currentSnapshot: Promise<LinePriceSnapshot> | null;
+  pastSnapshots: Map<number, Promise<LinePriceSnapshot | null>>;
+  consensus: Promise<MarketConsensus[]> | null;
+}
+
+async function loadUserPlans(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, UserPlan>> {
+  const plans = new Map<string, UserPlan>();
+  if (userIds.length === 0) return plans;
+
+  const { data, error } = await supabase
+    .from("current_entitlements")
+    .select("user_id, current_plan")
+    .in("user_id", userIds);
+
+  if (error) {
+    console.error("[alerts] Failed to load entitlements:", error.message);
+    return plans;
+  }
+
+  for (const row of data ?? []) {
+    const normalized = normalizePlanName(String(row.current_plan || "free"));
+    plans.set(row.user_id, normalized in PLAN_LIMITS ? normalized : "free");
+  }
+  return plans;
+}
+
+async function matchRule(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  plan: UserPlan,
+  feeds: FeedCache
+): Promise<AlertMatch[]> {
+  switch (rule.type) {
+    case "ev": {
+      const conditions = (rule as AlertRule<"ev">).conditions;
+      const sports = conditions.sports?.length ? conditions.sports : DEFAULT_ALERT_SPORTS;
+      const matches: AlertMatch[] = [];
+      for (const sport of sports) {
+        const cacheKey = `${sport}:${conditions.sharp_preset}`;
+        if (!feeds.ev.has(cacheKey)) {
+          feeds.ev.set(cacheKey, loadEVRows(sport, conditions.sharp_preset as SharpPreset).catch(() => []));
+        }
+        const rows = await feeds.ev.get(cacheKey)!;
+        for (const row of rows) {
+          // Live EV is an Elite feature
+          if (row?.meta?.scope === "live" && !hasEliteAccess(plan)) continue;
+          const match = matchEVRow(conditions, sport, row);
+          if (match) matches.push(match);
+        }
+      }
+      return matches.sort((a, b) => Number(b.payload.ev) - Number(a.payload.ev));
+    }
+
+    case "arb": {
+      const conditions = { ...(rule as AlertRule<"arb">).conditions };
+      // Live arbs are an Elite feature
+      if (!hasEliteAccess(plan)) conditions.include_live = false;
+      feeds.arbs ??= loadArbRows().catch(() => []);
+      const now = Date.now();
+      return (await feeds.arbs)
+        .map(({ id, row }) => matchArbRow(conditions, id, row, now))
+        .filter((match): match is AlertMatch => match !== null);
+    }
+
+    case "line_move": {
+      const conditions = (rule as AlertRule<"line_move">).conditions;
+      if (!feeds.currentSnapshot) return [];
+      if (!feeds.pastSnapshots.has(conditions.window_minutes)) {
+        feeds.pastSnapshots.set(
+          conditions.window_minutes,
+          loadLinePriceSnapshot(conditions.window_minutes).catch(() => null)
+        );
+      }
+      const [current, previous] = await Promise.all([
+        feeds.currentSnapshot,
+        feeds.pastSnapshots.get(conditions.window_minutes)!,
+      ]);
+      if (!previous) return [];
+      return matchLineMoves(conditions, previous, current);
+    }
+
+    case "sharp_consensus": {
+      // Sharp Intel is an Elite feature
+      if (!hasEliteAccess(plan)) return [];
+      const conditions = (rule as AlertRule<"sharp_consensus">).conditions;
+      feeds.consensus ??= loadActiveMarketConsensus(supabase, MAX_CONSENSUS_WINDOW_MINUTES).catch((err) => {
+        console.warn("[alerts] Failed to load Polymarket consensus:", err);
+        return [];
+      });
+      return matchConsensusPileOns(conditions, await feeds.consensus);
+    }
+  }
+}
+
+async function loadRecipient(supabase: SupabaseClient, userId: string, channels: AlertChannel[]): Promise<AlertRecipient> {
+  const [{ data: destinations }, { data: pushSubscriptions }] = await Promise.all([
+    supabase.from("user_alert_destinations").select("*").eq("user_id", userId).maybeSingle(),
+    channels.includes("web_push")
+      ? supabase.from("user_push_subscriptions").select("id, user_id, endpoint, p256dh, auth").eq("user_id", userId)
+      : Promise.resolve({ data: [] as PushSubscriptionRecord[] }),
+  ]);
+
+  let accountEmail: string | null = null;
+  if (channels.includes("email")) {
+    const { data } = await supabase.auth.admin.getUserById(userId);
+    accountEmail = data?.user?.email ?? null;
+  }
+
+  return {
+    user_id: userId,
+    destinations: (destinations as AlertDestinations | null) ?? null,
+    account_email: accountEmail,
+    push_subscriptions: (pushSubscriptions as PushSubscriptionRecord[] | null) ?? [],
+  };
+}
+
+/**
+ * Run one evaluation pass over all enabled rules.
+ */
+export async function evaluateAlertRules(supabase: SupabaseClient): Promise<AlertRunSummary> {
+  const summary: AlertRunSummary = {
+    rules_evaluated: 0,
+    matches: 0,
+    deduped: 0,
+    rate_limited: 0,
+    delivered: 0,
+    failed_deliveries: 0,
+    errors: 0,
+  };
+
+  const { data: ruleRows, error } = await supabase
+    .from("user_alert_rules")
+    .select("*")
+    .eq("enabled", true);
+
+  if (error) {
+    console.error("[alerts] Failed to load rules:", error.message);
+    throw error;
+  }
+
+  const rules = (ruleRows ?? []) as AlertRule[];
+  const feeds: FeedCache = {
+    ev: new Map(),
+    arbs: null,
+    currentSnapshot: null,
+    pastSnapshots: new Map(),
+    consensus: null,
+  };
+
+  // Line-move history has to accumulate even before anyone's rule can match
+  if (rules.some((rule) => rule.type === "line_move")) {
+    feeds.currentSnapshot = buildLinePriceSnapshot();
+    try {
+      await saveLinePriceSnapshot(await feeds.currentSnapshot);
+    } catch (err) {
+      console.warn("[alerts] Failed to save line snapshot:", err);
+    }
+  }
+
+  if (rules.length === 0) return summary;
+
+  const plans = await loadUserPlans(supabase, [...new Set(rules.map((rule) => rule.user_id))]);
+  const recipients = new Map<string, Promise<AlertRecipient>>();
+  const triggeredRuleIds: string[] = [];
+
+  for (const rule of rules) {
+    const plan = plans.get(rule.user_id) ?? "free";
+    if (!hasSharpAccess(plan)) continue;
+    summary.rules_evaluated++;
+
+    let matches: AlertMatch[];
+    try {
+      matches = await matchRule(supabase, rule, plan, feeds);
+    } catch (err) {
+      console.error(`[alerts] Failed to evaluate rule ${rule.id}:`, err);
+      summary.errors++;
+      continue;
+    }
+    summary.matches += matches.length;
+
+    let emitted = 0;
+    for (const match of matches) {
+      if (emitted >= MAX_MATCHES_PER_RULE_PER_RUN) break;
+
+      // A Redis or delivery error costs this match, not the rest of the run
+      try {
+        if (!(await claimAlert(rule.id, match.dedupe_key, rule.cooldown_minutes))) {
+          summary.deduped++;
+          continue;
+        }
+        if (!(await consumeUserAlertBudget(rule.user_id))) {
+          summary.rate_limited++;
+          await releaseAlert(rule.id, match.dedupe_key);
+          break;
+        }
+        emitted++;
+
+        if (!recipients.has(rule.user_id)) {
+          const allChannels = [...new Set(rules.filter((r) => r.user_id === rule.user_id).flatMap((r) => r.channels))];
+          recipients.set(rule.user_id, loadRecipient(supabase, rule.user_id, allChannels));
+        }
+        const recipient = await recipients.get(rule.user_id)!;
+
+        const results = await deliverAlert(rule.channels, recipient, {
+          rule_name: rule.name,
+          rule_type: rule.type,
+          title: match.title,
+          body: match.body,
+          url: match.url,
+        });
+
+        const deliveries: Partial<Record<AlertChannel, DeliveryStatus>> = {};
+        for (const [channel, result] of Object.entries(results) as [AlertChannel, NonNullable<(typeof results)[AlertChannel]>][]) {
+          deliveries[channel] = result.status;
+          if (result.status === "sent") summary.delivered++;
+          if (result.status === "failed") summary.failed_deliveries++;
+
+          if (result.expired_push_endpoints?.length) {
+            await supabase.from("user_push_subscriptions").delete().in("endpoint", result.expired_push_endpoints);
+            recipient.push_subscriptions = recipient.push_subscriptions.filter(
+              (sub) => !result.expired_push_endpoints!.includes(sub.endpoint)
+            );
+          }
+        }
+
+        const { error: historyError } = await supabase.from("user_alert_history").insert({
+          user_id: rule.user_id,
+          rule_id: rule.id,
+          rule_name: rule.name,
+          rule_type: rule.type,
+          dedupe_key: match.dedupe_key,
+          title: match.title,
+          body: match.body,
+          url: match.url,
+          payload: match.payload,
+          deliveries,
+        });
+        if (historyError) {
+          console.error(`[alerts] Failed to log history for rule ${rule.id}:`, historyError.message);
+        }
+      } catch (err) {
+        console.error(`[alerts] Failed to process match ${match.dedupe_key} for rule ${rule.id}:`, err);
+        summary.errors++;
+      }
+    }
+
+    if (emitted > 0) triggeredRuleIds.push(rule.id);
+  }
+
+  if (triggeredRuleIds.length > 0) {
+    await supabase
+      .from("user_alert_rules")
+      .update({ last_triggered_at: new Date().toISOString() })
+      .in("id", triggeredRuleIds);
+  }
+
+  return summary;
+}
@@ -0,0 +1,164 @@
+/**
+ * Alert Rule Validation
+ *
+ * zod schemas for creating and updating alert rules. Conditions are
+ * validated per rule type so a stored rule is always evaluable.
+ */
+
+import { z } from "zod";
+import { ALL_DEVIG_METHODS, SHARP_PRESETS } from "@/lib/ev/constants";
+import type { DevigMethod } from "@/lib/ev/types";
+import { ALERT_CHANNELS, type AlertChannel } from "./types";
+
+export const MAX_ALERT_RULES_PER_USER = 25;
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+export const MAX_CONSENSUS_WINDOW_MINUTES = 240;
+
+const stringList = z.array(z.string().min(1).max(64)).max(100).nullable().default(null);
+
+const scopeFilters = {
+  sports: stringList,
+  markets: stringList,
+  books: stringList,
+};
+
+const presetSchema = z
+  .string()
+  .refine((value) => value in SHARP_PRESETS && value !== "custom", { message: "Unknown sharp preset" });
+
+const devigMethodsSchema = z
+  .array(z.string())
+  .min(1)
+  .refine((methods) => methods.every((m) => ALL_DEVIG_METHODS.includes(m as DevigMethod)), {
+    message: "Unknown de-vig method",
+  })
+  .transform((methods) => methods as DevigMethod[]);
+
+export const EVConditionsSchema = z.object({
+  ...scopeFilters,
+  sharp_preset: presetSchema,
+  devig_methods: devigMethodsSchema.default(["power", "multiplicative"]),
+  min_ev: z.number().min(0).max(50),
+  min_odds: z.number().int().min(-10000).max(100000).nullable().default(null),
+  max_odds: z.number().int().min(-10000).max(100000).nullable().default(null),
+  mode: z.enum(["pregame", "live", "all"]).default("pregame"),
+});
+
+export const ArbConditionsSchema = z.object({
+  ...scopeFilters,
+  min_roi: z.number().min(0).max(50),
+  min_max_bet: z.number().min(0).nullable().default(null),
+  include_live: z.boolean().default(false),
+});
+
+export const LineMoveConditionsSchema = z.object({
+  ...scopeFilters,
+  min_cents: z.number().int().min(5).max(500),
+  window_minutes: z.number().int().min(1).max(30),
+  direction: z.enum(["any", "up", "down"]).default("any"),
+});
+
+export const SharpConsensusConditionsSchema = z.object({
+  ...scopeFilters,
+  min_top_wallets: z.number().int().min(2).max(10).default(3),
+  window_minutes: z.number().int().min(5).max(MAX_CONSENSUS_WINDOW_MINUTES).default(30),
+  min_strength: z.number().min(0).max(100).default(0),
+  min_dollars: z.number().min(0).default(0),
+});
+
+const CONDITIONS_SCHEMAS = {
+  ev: EVConditionsSchema,
+  arb: ArbConditionsSchema,
+  line_move: LineMoveConditionsSchema,
+  sharp_consensus: SharpConsensusConditionsSchema,
+} as const;
+
+const channelsSchema = z
+  .array(z.enum(ALERT_CHANNELS as [AlertChannel, ...AlertChannel[]]))
+  .min(1, "Select at least one delivery channel")
+  .transform((channels) => [...new Set(channels)]);
+
+const ruleBase = {
+  name: z.string().trim().min(1).max(80),
+  channels: channelsSchema,
+  enabled: z.boolean().default(true),
+  cooldown_minutes: z.number().int().min(5).max(24 * 60).default(DEFAULT_ALERT_COOLDOWN_MINUTES),
+};
+
+export const CreateAlertRuleSchema = z.discriminatedUnion("type", [
+  z.object({ ...ruleBase, type: z.literal("ev"), conditions: EVConditionsSchema }),
+  z.object({ ...ruleBase, type: z.literal("arb"), conditions: ArbConditionsSchema }),
+  z.object({ ...ruleBase, type: z.literal("line_move"), conditions: LineMoveConditionsSchema }),
+  z.object({ ...ruleBase, type: z.literal("sharp_consensus"), conditions: SharpConsensusConditionsSchema }),
+]);
+
+/** Partial update; conditions are re-validated against the stored rule's type */
+export const UpdateAlertRuleSchema = z.object({
+  name: ruleBase.name.optional(),
+  channels: channelsSchema.optional(),
+  enabled: z.boolean().optional(),
+  cooldown_minutes: z.number().int().min(5).max(24 * 60).optional(),
+  conditions: z.record(z.unknown()).optional(),
+});
+
+export function getConditionsSchema(type: keyof typeof CONDITIONS_SCHEMAS) {
+  return CONDITIONS_SCHEMAS[type];
+}
+
+export const DISCORD_WEBHOOK_URL_PATTERN = /^https:\/\/(discord\.com|discordapp\.com)\/api\/webhooks\//;
+export const SLACK_WEBHOOK_URL_PATTERN = /^https:\/\/hooks\.slack\.com\//;
+
+/**
+ * Alert email always goes to the verified account email, so there's no
+ * email destination to set here.
+ */
+export const AlertDestinationsSchema = z.object({
+  discord_webhook_url: z
+    .string()
+    .url()
+    .regex(DISCORD_WEBHOOK_URL_PATTERN, "Must be a Discord webhook URL")
+    .nullable()
+    .optional(),
+  slack_webhook_url: z
+    .string()
+    .url()
+    .regex(SLACK_WEBHOOK_URL_PATTERN, "Must be a Slack webhook URL")
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Hosts of the browser push services (Chrome/FCM, Firefox autopush, Apple,
+ * Windows WNS). The cron POSTs to subscription endpoints, so anything else
+ * is rejected rather than letting a user aim it at internal hosts.
+ */
+const PUSH_SERVICE_HOSTS = [
+  /^fcm\.googleapis\.com$/,
+  /^android\.googleapis\.com$/,
+  /^updates\.push\.services\.mozilla\.com$/,
+  /^(?:[a-z0-9-]+\.)*push\.apple\.com$/,
+  /^(?:[a-z0-9-]+\.)*notify\.windows\.com$/,
+];
+
+export function isPushServiceEndpoint(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((pattern) => pattern.test(host));
+}
+
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url().refine(isPushServiceEndpoint, "Must be a browser push service endpoint"),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export type CreateAlertRuleInput = z.infer<typeof CreateAlertRuleSchema>;
+export type UpdateAlertRuleInput = z.infer<typeof UpdateAlertRuleSchema>;
@@ -0,0 +1,52 @@
+/**
+ * Alert Dedupe & Rate Limiting
+ *
+ * Dedupe is per rule + opportunity: a match claims its key with SET NX for
+ * the rule's cooldown, so the same arb/line doesn't re-alert every minute.
+ * Rate limiting is per user per hour across all of their rules.
+ */
+
+import { redis } from "@/lib/shared-redis-client";
+
+/** Max notifications a single user receives per hour */
+export const MAX_ALERTS_PER_USER_PER_HOUR = 30;
+
+/** Max matches a single rule can emit in one evaluation run */
+export const MAX_MATCHES_PER_RULE_PER_RUN = 5;
+
+const dedupeKey = (ruleId: string, opportunityKey: string) => `alerts:dedupe:${ruleId}:${opportunityKey}`;
+
+const rateLimitKey = (userId: string, now: number) =>
+  `alerts:rl:${userId}:${Math.floor(now / 3_600_000)}`;
+
+/**
+ * Returns true if this rule hasn't alerted on this opportunity within its
+ * cooldown (and claims it), false if it's a duplicate.
+ */
+export async function claimAlert(ruleId: string, opportunityKey: string, cooldownMinutes: number): Promise<boolean> {
+  const result = await redis.set(dedupeKey(ruleId, opportunityKey), "1", {
+    nx: true,
+    ex: Math.max(60, cooldownMinutes * 60),
+  });
+  return result === "OK";
+}
+
+/**
+ * Release a dedupe claim (used when a match is dropped by the rate limiter
+ * so it can alert once the user has budget again).
+ */
+export async function releaseAlert(ruleId: string, opportunityKey: string): Promise<void> {
+  await redis.del(dedupeKey(ruleId, opportunityKey));
+}
+
+/**
+ * Consume one unit of the user's hourly budget. Returns false once exhausted.
+ */
+export async function consumeUserAlertBudget(userId: string, now = Date.now()): Promise<boolean> {
+  const key = rateLimitKey(userId, now);
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.expire(key, 3600);
+  }
+  return count <= MAX_ALERTS_PER_USER_PER_HOUR;
+}
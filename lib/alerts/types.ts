@@ -0,0 +1,165 @@
+/**
+ * Alert Types
+ *
+ * User-defined alert rules evaluated server-side against the +EV, arbitrage
+ * and best-odds Redis feeds and Polymarket sharp consensus, and the
+ * notifications they produce.
+ */
+
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+
+export type AlertRuleType = "ev" | "arb" | "line_move" | "sharp_consensus";
+
+export type AlertChannel = "email" | "web_push" | "discord" | "slack";
+
+export const ALERT_CHANNELS: AlertChannel[] = ["email", "web_push", "discord", "slack"];
+
+/** Filters shared by every rule type (null = any) */
+export interface AlertScopeFilters {
+  sports: string[] | null;
+  markets: string[] | null;
+  books: string[] | null;
+}
+
+/**
+ * "EV ≥ 4% on player_points at DraftKings with Pinnacle preset"
+ */
+export interface EVAlertConditions extends AlertScopeFilters {
+  sharp_preset: Exclude<SharpPreset, "custom">;
+  devig_methods: DevigMethod[];
+  /** Worst-case EV % across the selected de-vig methods */
+  min_ev: number;
+  min_odds: number | null;
+  max_odds: number | null;
+  mode: "pregame" | "live" | "all";
+}
+
+/**
+ * "Arb ROI ≥ 2% with max_bet ≥ $200"
+ */
+export interface ArbAlertConditions extends AlertScopeFilters {
+  min_roi: number;
+  /** Minimum effective max bet (min of both legs); null = ignore limits */
+  min_max_bet: number | null;
+  include_live: boolean;
+}
+
+/**
+ * "Line moved ≥ 20 cents in 5 minutes"
+ */
+export interface LineMoveAlertConditions extends AlertScopeFilters {
+  min_cents: number;
+  window_minutes: number;
+  direction: "any" | "up" | "down";
+}
+
+/**
+ * "3+ S/A-tier Polymarket wallets on the same side within 30 minutes".
+ * `markets` filters Polymarket market types (moneyline, spread, total).
+ */
+export interface SharpConsensusAlertConditions extends AlertScopeFilters {
+  min_top_wallets: number;
+  window_minutes: number;
+  /** Minimum market consensus strength (0-100) */
+  min_strength: number;
+  /** Minimum dollars from the piling wallets */
+  min_dollars: number;
+}
+
+export interface AlertConditionsByType {
+  ev: EVAlertConditions;
+  arb: ArbAlertConditions;
+  line_move: LineMoveAlertConditions;
+  sharp_consensus: SharpConsensusAlertConditions;
+}
+
+export type AlertConditions = AlertConditionsByType[AlertRuleType];
+
+/**
+ * Database row (user_alert_rules)
+ */
+export interface AlertRule<T extends AlertRuleType = AlertRuleType> {
+  id: string;
+  user_id: string;
+  name: string;
+  type: T;
+  conditions: AlertConditionsByType[T];
+  channels: AlertChannel[];
+  enabled: boolean;
+  /** Minimum minutes before the same opportunity can alert again */
+  cooldown_minutes: number;
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Where a user's alerts are delivered (user_alert_destinations)
+ */
+export interface AlertDestinations {
+  user_id: string;
+  discord_webhook_url: string | null;
+  slack_webhook_url: string | null;
+  updated_at: string;
+}
+
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * One opportunity that satisfied a rule
+ */
+export interface AlertMatch {
+  /** Stable per-opportunity key used for dedupe */
+  dedupe_key: string;
+  title: string;
+  body: string;
+  /** In-app path to open the opportunity */
+  url: string;
+  payload: Record<string, unknown>;
+}
+
+/** Rendered notification handed to each channel */
+export interface AlertMessage {
+  rule_name: string;
+  rule_type: AlertRuleType;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export type DeliveryStatus = "sent" | "failed" | "skipped";
+
+/**
+ * History log row (user_alert_history)
+ */
+export interface AlertHistoryEntry {
+  id: string;
+  user_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  dedupe_key: string;
+  title: string;
+  body: string;
+  url: string;
+  payload: Record<string, unknown>;
+  deliveries: Partial<Record<AlertChannel, DeliveryStatus>>;
+  created_at: string;
+}
+
+export interface AlertRunSummary {
+  rules_evaluated: number;
+  matches: number;
+  deduped: number;
+  rate_limited: number;
+  delivered: number;
+  failed_deliveries: number;
+  /** Rules or matches skipped after an evaluation, Redis or delivery error */
+  errors: number;
+}
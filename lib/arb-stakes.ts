@@ -0,0 +1,200 @@
+import type { ArbRow } from "@/lib/arb-schema";
+import { americanToDecimal } from "@/lib/ev/devig";
+
+/**
+ * Arb stake allocation
+ *
+ * Splits a bankroll (or hedges a fixed stake) across N mutually exclusive
+ * outcomes so every outcome pays the same, then applies book limits and
+ * rounds to book-friendly increments. Works for two-way arbs (ArbRow o/u)
+ * and 3-way markets like soccer 1X2.
+ */
+
+export type StakeLeg = {
+  /** American odds */
+  odds: number;
+  /** Book max bet for this leg (ArbLeg.max); null = unknown */
+  max?: number | null;
+  /** Profit boost on winnings, e.g. 25 = +25% */
+  boostPercent?: number;
+  /** Stake is not returned on a win (bonus bet / free bet token) */
+  bonusBet?: boolean;
+};
+
+export type StakeTarget =
+  | { type: "total"; amount: number }
+  | { type: "fixed"; legIndex: number; stake: number };
+
+export type ArbStakePlan = {
+  stakes: number[];
+  /** Amount returned if each leg wins */
+  payouts: number[];
+  /** Net profit if each leg wins */
+  profits: number[];
+  totalStake: number;
+  /** Money actually at risk (bonus-bet legs excluded) */
+  cashStake: number;
+  worstCaseProfit: number;
+  bestCaseProfit: number;
+  /** Worst-case profit as % of cash at risk */
+  roi: number;
+  /** Stakes were scaled down to fit a leg's max bet */
+  cappedByLimit: boolean;
+  limitingLeg: number | null;
+  /** Legs whose stake exceeds the book max */
+  legsOverLimit: number[];
+};
+
+/** Max legs searched exhaustively when rounding (2^n combinations) */
+const MAX_ROUNDING_SEARCH_LEGS = 8;
+
+const toCents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Return per $1 staked if the leg wins, after boosts.
+ * Bonus bets only return the winnings.
+ */
+export function getEffectiveDecimal(leg: StakeLeg): number {
+  const decimal = americanToDecimal(leg.odds);
+  const winnings = (decimal - 1) * (1 + (leg.boostPercent ?? 0) / 100);
+  return leg.bonusBet ? winnings : 1 + winnings;
+}
+
+/** Legs for an ArbRow, carrying each side's max bet */
+export function getArbStakeLegs(row: ArbRow): StakeLeg[] {
+  return [
+    { odds: Number(row.o?.od || 0), max: row.o?.max ?? null },
+    { odds: Number(row.u?.od || 0), max: row.u?.max ?? null },
+  ];
+}
+
+/** Implied-probability sum of the effective prices; < 1 means an arb */
+export function getArbMargin(legs: StakeLeg[]): number {
+  return legs.reduce((sum, leg) => sum + 1 / getEffectiveDecimal(leg), 0);
+}
+
+/** Stake on `otherLeg` that pays the same as `knownStake` on `knownLeg` */
+export function getHedgeStake(knownLeg: StakeLeg, knownStake: number, otherLeg: StakeLeg): number {
+  return (knownStake * getEffectiveDecimal(knownLeg)) / getEffectiveDecimal(otherLeg);
+}
+
+/**
+ * Profit per outcome for a given set of stakes
+ */
+export function evaluateArbStakes(legs: StakeLeg[], stakes: number[]): ArbStakePlan {
+  const payouts = legs.map((leg, i) => (stakes[i] ?? 0) * getEffectiveDecimal(leg));
+  const totalStake = stakes.reduce((sum, s) => sum + s, 0);
+  const cashStake = legs.reduce((sum, leg, i) => sum + (leg.bonusBet ? 0 : stakes[i] ?? 0), 0);
+  const profits = payouts.map((payout) => payout - cashStake);
+  const worstCaseProfit = profits.length > 0 ? Math.min(...profits) : 0;
+  const bestCaseProfit = profits.length > 0 ? Math.max(...profits) : 0;
+
+  return {
+    stakes,
+    payouts,
+    profits,
+    totalStake,
+    cashStake,
+    worstCaseProfit,
+    bestCaseProfit,
+    roi: cashStake > 0 ? (worstCaseProfit / cashStake) * 100 : 0,
+    cappedByLimit: false,
+    limitingLeg: null,
+    legsOverLimit: legs
+      .map((leg, i) => (leg.max != null && leg.max > 0 && (stakes[i] ?? 0) > leg.max + 0.005 ? i : -1))
+      .filter((i) => i >= 0),
+  };
+}
+
+function roundCandidates(stake: number, step: number, max: number | null | undefined): number[] {
+  const down = Math.floor(stake / step) * step;
+  const up = Math.ceil(stake / step) * step;
+  const candidates = [...new Set([down, up])].filter((s) => s > 0 && (max == null || max <= 0 || s <= max));
+  // A leg capped below one increment keeps its exact (capped) stake
+  return candidates.length > 0 ? candidates : [toCents(stake)];
+}
+
+/**
+ * Round each stake up or down to `step`, picking the combination with the
+ * best worst-case profit that doesn't exceed the unrounded total by more
+ * than half a step (and never exceeds a leg's max).
+ */
+function roundStakes(legs: StakeLeg[], stakes: number[], step: number, fixedLeg: number | null): number[] {
+  if (legs.length > MAX_ROUNDING_SEARCH_LEGS) {
+    return stakes.map((s, i) => (i === fixedLeg ? s : Math.round(s / step) * step));
+  }
+
+  const options = stakes.map((s, i) => (i === fixedLeg ? [s] : roundCandidates(s, step, legs[i].max)));
+  const budget = stakes.reduce((sum, s) => sum + s, 0) + step / 2;
+
+  let best: number[] | null = null;
+  let bestProfit = -Infinity;
+  let bestDeviation = Infinity;
+
+  const search = (index: number, current: number[]) => {
+    if (index === options.length) {
+      const total = current.reduce((sum, s) => sum + s, 0);
+      if (total > budget) return;
+      const profit = evaluateArbStakes(legs, current).worstCaseProfit;
+      const deviation = Math.abs(total - budget + step / 2);
+      if (profit > bestProfit + 1e-9 || (Math.abs(profit - bestProfit) <= 1e-9 && deviation < bestDeviation)) {
+        best = [...current];
+        bestProfit = profit;
+        bestDeviation = deviation;
+      }
+      return;
+    }
+    for (const option of options[index]) {
+      current.push(option);
+      search(index + 1, current);
+      current.pop();
+    }
+  };
+  search(0, []);
+
+  return best ?? stakes.map(toCents);
+}
+
+/**
+ * Allocate stakes so every outcome returns the same amount.
+ *
+ * - `total`: split a bankroll across legs
+ * - `fixed`: hedge a known stake on one leg
+ *
+ * Stakes are scaled down proportionally if any leg would exceed its max,
+ * then rounded to `roundTo` (0 = cents).
+ */
+export function allocateArbStakes(legs: StakeLeg[], target: StakeTarget, roundTo = 0): ArbStakePlan {
+  if (legs.length === 0 || legs.some((leg) => !leg.odds)) {
+    return evaluateArbStakes(legs, legs.map(() => 0));
+  }
+
+  const decimals = legs.map(getEffectiveDecimal);
+  const payout =
+    target.type === "total"
+      ? target.amount / decimals.reduce((sum, d) => sum + 1 / d, 0)
+      : target.stake * decimals[target.legIndex];
+  let stakes = decimals.map((d) => payout / d);
+
+  // Scale everything down to the tightest limit so payouts stay equal
+  let scale = 1;
+  let limitingLeg: number | null = null;
+  legs.forEach((leg, i) => {
+    if (leg.max == null || leg.max <= 0 || stakes[i] <= 0) return;
+    const ratio = leg.max / stakes[i];
+    if (ratio < scale) {
+      scale = ratio;
+      limitingLeg = i;
+    }
+  });
+  if (scale < 1) stakes = stakes.map((s) => s * scale);
+
+  const fixedLeg = target.type === "fixed" && scale === 1 ? target.legIndex : null;
+  stakes = roundTo > 0 ? roundStakes(legs, stakes, roundTo, fixedLeg) : stakes.map(toCents);
+
+  return {
+    ...evaluateArbStakes(legs, stakes),
+    cappedByLimit: scale < 1,
+    limitingLeg,
+  };
+}
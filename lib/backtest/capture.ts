@@ -0,0 +1,303 @@
+/**
+ * Backtest capture (server)
+ *
+ * Samples every book's two-way prices for upcoming events into
+ * ev_backtest_markets / ev_backtest_snapshots, and grades captured markets
+ * once their games are final. Only sports the settlement providers can grade
+ * are captured, since an ungraded market is useless to a backtest.
+ *
+ * A snapshot is only written when a market's prices changed since the last
+ * run (signature per market in a Redis hash per event).
+ */
+
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { redis, hgetallSafe } from "@/lib/shared-redis-client";
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { getMarketType } from "@/lib/arb-filters";
+import { findOppositeSelection } from "@/lib/clv/closing-line";
+import { normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import { normalizePlayerName, type SSEEvent, type SSESelection } from "@/lib/odds/types";
+import { SETTLEMENT_SUPPORTED_SPORTS, SettlementResultsProvider, gradeLeg, teamsMatch } from "@/lib/settlement";
+import type { GradableLeg } from "@/lib/settlement";
+import type { BacktestCaptureSummary, BacktestGradeSummary, BacktestPrices } from "./types";
+
+const LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+const MAX_EVENTS_PER_SPORT = 40;
+const MIN_BOOKS_PER_MARKET = 2;
+const SIGNATURE_TTL_SECONDS = 2 * 24 * 60 * 60;
+const INSERT_CHUNK_SIZE = 500;
+
+/** Wait this long after start before grading */
+const GRADE_AFTER_MS = 3 * 60 * 60 * 1000;
+/** Give up on markets still pending this long after start */
+const GRADE_GIVE_UP_MS = 2 * 24 * 60 * 60 * 1000;
+
+const signatureKey = (sport: string, eventId: string) => `backtest:sig:${sport}:${eventId}`;
+
+interface CapturedMarket {
+  id: string;
+  sport: string;
+  event_id: string;
+  market: string;
+  market_type: "player" | "game";
+  player_id: string | null;
+  player_name: string | null;
+  home_team: string | null;
+  away_team: string | null;
+  side_a: "over" | "home";
+  line: number | null;
+  start_time: string;
+  prices: BacktestPrices;
+}
+
+function parsePrice(price: string | undefined): number {
+  return parseInt(String(price ?? "").replace("+", ""), 10);
+}
+
+function isHomeTeam(sel: SSESelection, ev: SSEEvent): boolean {
+  return teamsMatch(sel.player, ev.home_team_name) || teamsMatch(sel.player, ev.home_team);
+}
+
+/**
+ * Side A / side B selections for each two-way market at one book,
+ * keyed by the market's entity + line.
+ */
+function getTwoWayPairs(
+  all: SSESelection[],
+  ev: SSEEvent
+): { key: string; a: SSESelection; b: SSESelection }[] {
+  const pairs: { key: string; a: SSESelection; b: SSESelection }[] = [];
+
+  const moneylines = all.filter((s) => s.side === "ml");
+  if (moneylines.length === 2) {
+    const home = moneylines.find((s) => isHomeTeam(s, ev));
+    const away = moneylines.find((s) => s !== home);
+    if (home && away) pairs.push({ key: "game:ml", a: home, b: away });
+  }
+
+  for (const sel of all) {
+    if (sel.side === "over") {
+      const under = findOppositeSelection(all, sel);
+      if (!under) continue;
+      const entity = sel.player_id || normalizePlayerName(sel.player || "") || "game";
+      pairs.push({ key: `${entity}:${sel.line}`, a: sel, b: under });
+    } else if (sel.side === "spread" && isHomeTeam(sel, ev)) {
+      const away = findOppositeSelection(all, sel);
+      if (away) pairs.push({ key: `game:${sel.line}`, a: sel, b: away });
+    }
+  }
+
+  return pairs;
+}
+
+async function collectSportMarkets(sport: string, now: number): Promise<{ markets: CapturedMarket[]; events: number }> {
+  const events = await getUpcomingEvents(sport, { now, lookaheadMs: LOOKAHEAD_MS, maxEvents: MAX_EVENTS_PER_SPORT });
+  if (events.length === 0) return { markets: [], events: 0 };
+
+  const eventsById = new Map(events.map((ev) => [ev.event_id, ev]));
+  const odds = (await getOddsCache().getOddsForSport(sport, events.map((ev) => ev.event_id))) as unknown as Map<string, unknown>;
+  const markets = new Map<string, CapturedMarket>();
+
+  for (const [key, value] of odds) {
+    // odds:{sport}:{eid}:{market}:{book}
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, market, rawBook] = parts;
+    const ev = eventsById.get(eid);
+    const selections = ev ? parseBookSelections(value) : null;
+    if (!ev || !selections) continue;
+
+    const book = normalizeSportsbookId(rawBook);
+    const all = Object.values(selections).filter((sel): sel is SSESelection => !!sel && !sel.locked);
+
+    for (const { key: pairKey, a, b } of getTwoWayPairs(all, ev)) {
+      const priceA = parsePrice(a.price);
+      const priceB = parsePrice(b.price);
+      if (!Number.isFinite(priceA) || !Number.isFinite(priceB) || priceA === 0 || priceB === 0) continue;
+
+      const id = `${sport}:${eid}:${market}:${pairKey}`;
+      let entry = markets.get(id);
+      if (!entry) {
+        const isTeamSide = a.side === "ml" || a.side === "spread";
+        const marketType = isTeamSide ? "game" : getMarketType(market);
+        entry = {
+          id,
+          sport,
+          event_id: eid,
+          market,
+          market_type: marketType,
+          player_id: marketType === "player" ? a.player_id || null : null,
+          player_name: isTeamSide || marketType === "player" ? a.player || null : null,
+          home_team: ev.home_team_name || ev.home_team || null,
+          away_team: ev.away_team_name || ev.away_team || null,
+          side_a: isTeamSide ? "home" : "over",
+          line: a.side === "ml" ? null : a.line,
+          start_time: ev.commence_time,
+          prices: {},
+        };
+        markets.set(id, entry);
+      }
+      entry.prices[book] = [priceA, priceB];
+    }
+  }
+
+  return {
+    markets: [...markets.values()].filter((m) => Object.keys(m.prices).length >= MIN_BOOKS_PER_MARKET),
+    events: events.length,
+  };
+}
+
+function priceSignature(prices: BacktestPrices): string {
+  const canonical = Object.keys(prices)
+    .sort()
+    .map((book) => `${book}:${prices[book][0]}:${prices[book][1]}`)
+    .join("|");
+  return createHash("md5").update(canonical).digest("hex").slice(0, 16);
+}
+
+/** Markets whose prices moved since the last capture; records the new signatures */
+async function filterChanged(markets: CapturedMarket[]): Promise<CapturedMarket[]> {
+  const byEvent = new Map<string, CapturedMarket[]>();
+  for (const market of markets) {
+    const key = signatureKey(market.sport, market.event_id);
+    const list = byEvent.get(key) ?? [];
+    list.push(market);
+    byEvent.set(key, list);
+  }
+
+  const changed: CapturedMarket[] = [];
+  for (const [key, eventMarkets] of byEvent) {
+    const previous = (await hgetallSafe(key)) ?? {};
+    const updates: Record<string, string> = {};
+    for (const market of eventMarkets) {
+      const signature = priceSignature(market.prices);
+      if (previous[market.id] === signature) continue;
+      updates[market.id] = signature;
+      changed.push(market);
+    }
+    if (Object.keys(updates).length > 0) {
+      await redis.hset(key, updates);
+      await redis.expire(key, SIGNATURE_TTL_SECONDS);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Record a snapshot of every changed two-way market for upcoming events
+ */
+export async function captureBacktestSnapshots(
+  supabase: SupabaseClient,
+  options: { sports?: string[]; now?: Date } = {}
+): Promise<BacktestCaptureSummary> {
+  const now = options.now ?? new Date();
+  const sports = options.sports ?? [...SETTLEMENT_SUPPORTED_SPORTS];
+  const summary: BacktestCaptureSummary = { sports, events: 0, markets: 0, snapshots: 0, unchanged: 0 };
+
+  for (const sport of sports) {
+    const { markets, events } = await collectSportMarkets(sport, now.getTime());
+    summary.events += events;
+    summary.markets += markets.length;
+    if (markets.length === 0) continue;
+
+    const changed = await filterChanged(markets);
+    summary.unchanged += markets.length - changed.length;
+
+    for (let i = 0; i < changed.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = changed.slice(i, i + INSERT_CHUNK_SIZE);
+
+      const { error: marketError } = await supabase
+        .from("ev_backtest_markets")
+        .upsert(
+          chunk.map(({ prices: _prices, ...market }) => market),
+          { onConflict: "id", ignoreDuplicates: true }
+        );
+      if (marketError) throw marketError;
+
+      const { error: snapshotError } = await supabase
+        .from("ev_backtest_snapshots")
+        .insert(chunk.map((market) => ({ market_id: market.id, captured_at: now.toISOString(), prices: market.prices })));
+      if (snapshotError) throw snapshotError;
+
+      summary.snapshots += chunk.length;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Grade captured markets whose games have finished. Results are stored from
+ * side A's perspective (over / home).
+ */
+export async function gradeBacktestMarkets(
+  supabase: SupabaseClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<BacktestGradeSummary> {
+  const now = options.now ?? new Date();
+  const summary: BacktestGradeSummary = { checked: 0, graded: 0, ungradeable: 0, errors: 0 };
+
+  const { data, error } = await supabase
+    .from("ev_backtest_markets")
+    .select("id, sport, event_id, market, market_type, player_id, player_name, home_team, away_team, side_a, line, start_time")
+    .is("result", null)
+    .lt("start_time", new Date(now.getTime() - GRADE_AFTER_MS).toISOString())
+    .order("start_time", { ascending: true })
+    .limit(options.limit ?? 500);
+
+  if (error) throw error;
+
+  const provider = new SettlementResultsProvider(supabase);
+
+  for (const row of data || []) {
+    summary.checked++;
+    const leg: GradableLeg = {
+      favorite_id: row.id,
+      type: row.market_type,
+      sport: row.sport,
+      event_id: row.event_id,
+      game_date: null,
+      start_time: row.start_time,
+      home_team: row.home_team,
+      away_team: row.away_team,
+      player_id: row.player_id,
+      player_name: row.player_name,
+      market: row.market,
+      line: row.line === null ? null : Number(row.line),
+      side: row.side_a,
+    };
+
+    try {
+      const event = await provider.getEventResult(leg);
+      const statLine = leg.type === "player" && event.final ? await provider.getPlayerStatLine(leg, event) : null;
+      const grade = gradeLeg(leg, event, statLine);
+
+      const stale = now.getTime() - Date.parse(row.start_time) > GRADE_GIVE_UP_MS;
+      if (grade.result === "pending" && !grade.ungradeable && !stale) continue;
+      if (grade.ungradeable || grade.result === "pending") summary.ungradeable++;
+
+      const { error: updateError } = await supabase
+        .from("ev_backtest_markets")
+        .update({
+          result: grade.result === "pending" ? "void" : grade.result,
+          actual_value: grade.actual_value,
+          graded_at: now.toISOString(),
+        })
+        .eq("id", row.id);
+
+      if (updateError) {
+        console.error(`[backtest/grade] Failed to update ${row.id}:`, updateError.message);
+        summary.errors++;
+        continue;
+      }
+      summary.graded++;
+    } catch (err) {
+      console.error(`[backtest/grade] Failed to grade ${row.id}:`, err);
+      summary.errors++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,58 @@
+/**
+ * Backtest configs
+ *
+ * Turns sharp presets and saved EV models into engine configs.
+ */
+
+import { SHARP_PRESETS } from "@/lib/ev/constants";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import type { EvModel } from "@/lib/types/ev-models";
+import type { BacktestConfig } from "./types";
+
+export interface BacktestThresholds {
+  minEV: number;
+  maxEV: number;
+}
+
+export const DEFAULT_BACKTEST_PRESETS: SharpPreset[] = ["pinnacle", "pinnacle_circa", "market_average"];
+
+export function buildPresetConfig(
+  preset: SharpPreset,
+  method: DevigMethod,
+  thresholds: BacktestThresholds
+): BacktestConfig {
+  const presetConfig = SHARP_PRESETS[preset];
+  return {
+    id: `${preset}:${method}`,
+    label: presetConfig.label,
+    preset,
+    books: presetConfig.books.map(({ bookId, weight }) => ({ bookId, weight })),
+    method,
+    minEV: thresholds.minEV,
+    maxEV: thresholds.maxEV,
+    minBooksReference: preset === "market_average" ? 2 : 1,
+  };
+}
+
+export function buildModelConfig(
+  model: Pick<EvModel, "id" | "name" | "sharp_books" | "book_weights" | "min_books_reference" | "min_odds" | "max_odds" | "markets" | "market_type">,
+  method: DevigMethod,
+  thresholds: BacktestThresholds
+): BacktestConfig {
+  const weights = model.book_weights;
+  return {
+    id: `model:${model.id}:${method}`,
+    label: model.name,
+    preset: "custom",
+    // Null weights = equal weighting
+    books: model.sharp_books.map((bookId) => ({ bookId, weight: weights?.[bookId] ?? 1 })),
+    method,
+    minEV: thresholds.minEV,
+    maxEV: thresholds.maxEV,
+    minOdds: model.min_odds,
+    maxOdds: model.max_odds,
+    minBooksReference: model.min_books_reference || 1,
+    markets: model.markets,
+    marketType: model.market_type,
+  };
+}
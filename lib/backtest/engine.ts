@@ -0,0 +1,236 @@
+/**
+ * Backtest engine
+ *
+ * Walks each market's snapshots in order. At every snapshot the reference
+ * books are de-vigged with the config's method and blended by weight; the
+ * first time a side clears the EV threshold at a bettable book, a flat 1u
+ * bet is taken at the best such price. Each side of a market is bet at most
+ * once, so a line that stays +EV for hours counts as one opportunity.
+ */
+
+import { americanToDecimal, devigMultiple, impliedProbToAmerican } from "@/lib/ev/devig";
+import { computeCLVPercent } from "@/lib/line-history/utils";
+import type {
+  BacktestBet,
+  BacktestConfig,
+  BacktestMarket,
+  BacktestMetrics,
+  BacktestPrices,
+  BacktestRun,
+  CalibrationBin,
+} from "./types";
+
+const CALIBRATION_BIN_WIDTH = 0.1;
+/** Clamp for log loss so a 0/1 probability doesn't blow up */
+const LOG_LOSS_EPSILON = 1e-6;
+
+const round = (n: number, digits = 4) => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+/**
+ * Blended fair probability for side A from the reference books, or null
+ * when fewer than `minBooksReference` books quote both sides.
+ */
+export function getReferenceFairProb(prices: BacktestPrices, config: BacktestConfig): number | null {
+  const refs = config.books.length > 0
+    ? config.books
+    : Object.keys(prices).map((bookId) => ({ bookId, weight: 1 }));
+
+  let weighted = 0;
+  let totalWeight = 0;
+  let used = 0;
+
+  for (const { bookId, weight } of refs) {
+    const pair = prices[bookId];
+    if (!pair || weight <= 0) continue;
+    const result = devigMultiple(pair[0], pair[1], [config.method])[config.method];
+    if (!result?.success) continue;
+    weighted += result.fairProbOver * weight;
+    totalWeight += weight;
+    used++;
+  }
+
+  if (used < Math.max(1, config.minBooksReference) || totalWeight <= 0) return null;
+  const fair = weighted / totalWeight;
+  return fair > 0 && fair < 1 ? fair : null;
+}
+
+function matchesMarket(market: BacktestMarket, config: BacktestConfig): boolean {
+  if (config.marketType && config.marketType !== "all" && market.market_type !== config.marketType) return false;
+  if (config.markets && config.markets.length > 0 && !config.markets.includes(market.market)) return false;
+  return true;
+}
+
+function isBettableBook(book: string, config: BacktestConfig, referenceBooks: Set<string>): boolean {
+  if (config.betBooks && config.betBooks.length > 0) return config.betBooks.includes(book);
+  // Sharp-reference configs only bet into books outside the reference
+  return referenceBooks.size === 0 || !referenceBooks.has(book);
+}
+
+function inOddsRange(price: number, config: BacktestConfig): boolean {
+  if (config.minOdds != null && price < config.minOdds) return false;
+  if (config.maxOdds != null && price > config.maxOdds) return false;
+  return true;
+}
+
+/**
+ * Bets one config would have taken on one market
+ */
+export function simulateMarket(market: BacktestMarket, config: BacktestConfig): BacktestBet[] {
+  if (market.result === "void" || !matchesMarket(market, config)) return [];
+
+  const referenceBooks = new Set(config.books.map((b) => b.bookId));
+  const pregame = market.snapshots.filter((s) => s.ts < market.start_time);
+  if (pregame.length === 0) return [];
+
+  const close = pregame[pregame.length - 1];
+  const closeFairA = getReferenceFairProb(close.prices, config);
+  const taken = new Map<"a" | "b", BacktestBet>();
+
+  for (const snapshot of pregame) {
+    if (taken.size === 2) break;
+    const fairA = getReferenceFairProb(snapshot.prices, config);
+    if (fairA === null) continue;
+
+    for (const side of ["a", "b"] as const) {
+      if (taken.has(side)) continue;
+      const fair = side === "a" ? fairA : 1 - fairA;
+
+      let best: { book: string; price: number; ev: number } | null = null;
+      for (const [book, pair] of Object.entries(snapshot.prices)) {
+        if (!isBettableBook(book, config, referenceBooks)) continue;
+        const price = side === "a" ? pair[0] : pair[1];
+        if (!price || !inOddsRange(price, config)) continue;
+        const ev = (fair * americanToDecimal(price) - 1) * 100;
+        if (ev < config.minEV || ev > config.maxEV) continue;
+        if (!best || ev > best.ev) best = { book, price, ev };
+      }
+      if (!best) continue;
+
+      const won = market.result === "push" ? null : (market.result === "won") === (side === "a");
+      const closeFair = closeFairA === null ? null : side === "a" ? closeFairA : 1 - closeFairA;
+
+      taken.set(side, {
+        market_id: market.id,
+        sport: market.sport,
+        market: market.market,
+        side,
+        book: best.book,
+        price: best.price,
+        fair_prob: fair,
+        ev: best.ev,
+        ts: snapshot.ts,
+        start_time: market.start_time,
+        result: won === null ? "push" : won ? "won" : "lost",
+        profit: won === null ? 0 : won ? americanToDecimal(best.price) - 1 : -1,
+        close_fair_prob: closeFair,
+        clv: closeFair === null ? null : computeCLVPercent(best.price, impliedProbToAmerican(closeFair)),
+      });
+    }
+  }
+
+  return [...taken.values()];
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+export function buildCalibration(bets: BacktestBet[], binWidth = CALIBRATION_BIN_WIDTH): CalibrationBin[] {
+  const binCount = Math.round(1 / binWidth);
+  const buckets = new Map<number, BacktestBet[]>();
+
+  for (const bet of bets) {
+    if (bet.result === "push") continue;
+    const index = Math.min(binCount - 1, Math.floor(bet.fair_prob / binWidth));
+    const list = buckets.get(index) ?? [];
+    list.push(bet);
+    buckets.set(index, list);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, inBin]) => ({
+      lower: round(index * binWidth, 2),
+      upper: round((index + 1) * binWidth, 2),
+      bets: inBin.length,
+      predicted: round(inBin.reduce((sum, b) => sum + b.fair_prob, 0) / inBin.length),
+      actual: round(inBin.filter((b) => b.result === "won").length / inBin.length),
+    }));
+}
+
+/** Largest peak-to-trough drop in cumulative units, bets ordered by settle time */
+export function computeMaxDrawdown(bets: BacktestBet[]): number {
+  const ordered = [...bets].sort((a, b) => a.start_time - b.start_time || a.ts - b.ts);
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const bet of ordered) {
+    cumulative += bet.profit;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+  }
+  return round(maxDrawdown, 2);
+}
+
+export function computeMetrics(bets: BacktestBet[]): BacktestMetrics {
+  const decided = bets.filter((b) => b.result !== "push");
+  const wins = decided.filter((b) => b.result === "won").length;
+  const losses = decided.length - wins;
+  const profit = bets.reduce((sum, b) => sum + b.profit, 0);
+  const withClv = bets.filter((b) => b.clv !== null);
+
+  let brier: number | null = null;
+  let logLoss: number | null = null;
+  if (decided.length > 0) {
+    let brierSum = 0;
+    let logSum = 0;
+    for (const bet of decided) {
+      const y = bet.result === "won" ? 1 : 0;
+      const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, bet.fair_prob));
+      brierSum += (bet.fair_prob - y) ** 2;
+      logSum += -(y * Math.log(p) + (1 - y) * Math.log(1 - p));
+    }
+    brier = round(brierSum / decided.length);
+    logLoss = round(logSum / decided.length);
+  }
+
+  return {
+    bets: bets.length,
+    wins,
+    losses,
+    pushes: bets.length - decided.length,
+    hit_rate: decided.length > 0 ? round(wins / decided.length) : 0,
+    avg_fair_prob: decided.length > 0 ? round(decided.reduce((sum, b) => sum + b.fair_prob, 0) / decided.length) : 0,
+    avg_ev: bets.length > 0 ? round(bets.reduce((sum, b) => sum + b.ev, 0) / bets.length, 2) : 0,
+    profit: round(profit, 2),
+    roi: bets.length > 0 ? round((profit / bets.length) * 100, 2) : 0,
+    avg_clv: withClv.length > 0 ? round(withClv.reduce((sum, b) => sum + (b.clv ?? 0), 0) / withClv.length, 2) : null,
+    beat_close_rate: withClv.length > 0 ? round(withClv.filter((b) => (b.clv ?? 0) > 0).length / withClv.length) : null,
+    max_drawdown: computeMaxDrawdown(bets),
+    brier,
+    log_loss: logLoss,
+    calibration: buildCalibration(bets),
+  };
+}
+
+/**
+ * Replay every market through every config
+ */
+export function runBacktest(markets: BacktestMarket[], configs: BacktestConfig[]): BacktestRun[] {
+  return configs.map((config) => {
+    const bets = markets.flatMap((market) => simulateMarket(market, config));
+    return {
+      config: {
+        id: config.id,
+        label: config.label,
+        preset: config.preset,
+        method: config.method,
+        minEV: config.minEV,
+      },
+      metrics: computeMetrics(bets),
+    };
+  });
+}
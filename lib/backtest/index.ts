@@ -0,0 +1,43 @@
+/**
+ * Backtest Library
+ *
+ * Replays captured two-way markets through sharp presets, saved EV models
+ * and de-vig methods, and scores what each would have bet: hit rate vs
+ * predicted, ROI, CLV, drawdown and calibration.
+ */
+
+// Types
+export type {
+  BacktestPrices,
+  BacktestSnapshot,
+  BacktestMarket,
+  BacktestConfig,
+  BacktestBet,
+  CalibrationBin,
+  BacktestMetrics,
+  BacktestRun,
+  BacktestReport,
+  BacktestCaptureSummary,
+  BacktestGradeSummary,
+} from "./types";
+
+// Engine
+export {
+  getReferenceFairProb,
+  simulateMarket,
+  buildCalibration,
+  computeMaxDrawdown,
+  computeMetrics,
+  runBacktest,
+} from "./engine";
+
+// Configs
+export { DEFAULT_BACKTEST_PRESETS, buildPresetConfig, buildModelConfig } from "./configs";
+export type { BacktestThresholds } from "./configs";
+
+// Capture + grading (server)
+export { captureBacktestSnapshots, gradeBacktestMarkets } from "./capture";
+
+// Loader (server)
+export { loadBacktestMarkets } from "./load";
+export type { LoadBacktestOptions } from "./load";
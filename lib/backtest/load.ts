@@ -0,0 +1,100 @@
+/**
+ * Backtest loader (server)
+ *
+ * Reads graded markets and their snapshots back into the shape the engine
+ * replays.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BacktestMarket, BacktestPrices } from "./types";
+
+const PAGE_SIZE = 1000;
+const SNAPSHOT_CHUNK_SIZE = 200;
+const DEFAULT_MARKET_LIMIT = 5000;
+
+export interface LoadBacktestOptions {
+  sports: string[];
+  /** ISO start of the window (by game start) */
+  from: string;
+  /** ISO end of the window (by game start) */
+  to: string;
+  limit?: number;
+}
+
+/**
+ * Graded, non-void markets in the window with snapshots oldest first
+ */
+export async function loadBacktestMarkets(
+  supabase: SupabaseClient,
+  options: LoadBacktestOptions
+): Promise<{ markets: BacktestMarket[]; snapshots: number }> {
+  const limit = options.limit ?? DEFAULT_MARKET_LIMIT;
+  const markets = new Map<string, BacktestMarket>();
+
+  for (let offset = 0; offset < limit; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("ev_backtest_markets")
+      .select("id, sport, event_id, market, market_type, player_name, side_a, line, start_time, result")
+      .in("sport", options.sports)
+      .gte("start_time", options.from)
+      .lte("start_time", options.to)
+      .in("result", ["won", "lost", "push"])
+      .order("start_time", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, Math.min(offset + PAGE_SIZE, limit) - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      markets.set(row.id, {
+        id: row.id,
+        sport: row.sport,
+        event_id: row.event_id,
+        market: row.market,
+        market_type: row.market_type,
+        player_name: row.player_name,
+        side_a: row.side_a,
+        line: row.line === null ? null : Number(row.line),
+        start_time: Date.parse(row.start_time),
+        result: row.result,
+        snapshots: [],
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  let snapshots = 0;
+  const ids = [...markets.keys()];
+
+  for (let i = 0; i < ids.length; i += SNAPSHOT_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + SNAPSHOT_CHUNK_SIZE);
+
+    // A chunk of markets easily has more snapshots than one response holds
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("ev_backtest_snapshots")
+        .select("market_id, captured_at, prices")
+        .in("market_id", chunk)
+        .order("captured_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const market = markets.get(row.market_id);
+        if (!market) continue;
+        market.snapshots.push({ ts: Date.parse(row.captured_at), prices: row.prices as BacktestPrices });
+        snapshots++;
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return {
+    markets: [...markets.values()].filter((m) => m.snapshots.length > 0),
+    snapshots,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Backtest Types
+ *
+ * Replays sampled two-way markets (ev_backtest_markets / ev_backtest_snapshots)
+ * through a sharp reference + de-vig method and scores every bet it would
+ * have flagged against the graded result and the fair close.
+ */
+
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+
+/** Per-book [side A, side B] American odds at one point in time */
+export type BacktestPrices = Record<string, [number, number]>;
+
+export interface BacktestSnapshot {
+  /** Epoch ms */
+  ts: number;
+  prices: BacktestPrices;
+}
+
+/** A graded two-way market with its price history, oldest snapshot first */
+export interface BacktestMarket {
+  id: string;
+  sport: string;
+  event_id: string;
+  market: string;
+  market_type: "player" | "game";
+  player_name: string | null;
+  /** "over" for totals/props, "home" for moneylines/spreads */
+  side_a: "over" | "home";
+  line: number | null;
+  /** Epoch ms */
+  start_time: number;
+  /** From side A's perspective */
+  result: "won" | "lost" | "push" | "void";
+  snapshots: BacktestSnapshot[];
+}
+
+/** One reference + method combination to replay */
+export interface BacktestConfig {
+  id: string;
+  label: string;
+  preset: SharpPreset;
+  /** Reference books and weights; empty = every book (market average) */
+  books: { bookId: string; weight: number }[];
+  method: DevigMethod;
+  /** Flag bets at or above this EV % */
+  minEV: number;
+  /** Ignore EV above this % (stale or bad lines) */
+  maxEV: number;
+  minOdds?: number;
+  maxOdds?: number;
+  /** Minimum reference books quoting both sides */
+  minBooksReference: number;
+  /** Only bet at these books (empty = any non-reference book) */
+  betBooks?: string[];
+  markets?: string[] | null;
+  marketType?: "all" | "player" | "game";
+}
+
+/** A bet the config would have taken */
+export interface BacktestBet {
+  market_id: string;
+  sport: string;
+  market: string;
+  side: "a" | "b";
+  book: string;
+  price: number;
+  /** Fair probability for the bet side when flagged */
+  fair_prob: number;
+  /** EV % when flagged */
+  ev: number;
+  /** Epoch ms the bet was flagged */
+  ts: number;
+  start_time: number;
+  result: "won" | "lost" | "push";
+  /** Profit in units at a flat 1u stake */
+  profit: number;
+  /** Fair probability for the bet side at close (same config) */
+  close_fair_prob: number | null;
+  /** CLV % of the taken price vs the fair close */
+  clv: number | null;
+}
+
+/** Fair-probability bucket for the calibration curve */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  bets: number;
+  /** Mean fair probability of bets in the bucket */
+  predicted: number;
+  /** Observed win rate */
+  actual: number;
+}
+
+export interface BacktestMetrics {
+  bets: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  /** Wins / (wins + losses) */
+  hit_rate: number;
+  /** Mean fair probability over decided bets (what hit_rate "should" be) */
+  avg_fair_prob: number;
+  avg_ev: number;
+  /** Units won at a flat 1u stake */
+  profit: number;
+  /** Profit / units staked, % */
+  roi: number;
+  avg_clv: number | null;
+  /** Share of bets whose price beat the fair close */
+  beat_close_rate: number | null;
+  /** Largest peak-to-trough drop in cumulative units, in settle order */
+  max_drawdown: number;
+  brier: number | null;
+  log_loss: number | null;
+  calibration: CalibrationBin[];
+}
+
+export interface BacktestRun {
+  config: Pick<BacktestConfig, "id" | "label" | "preset" | "method" | "minEV">;
+  metrics: BacktestMetrics;
+}
+
+export interface BacktestReport {
+  runs: BacktestRun[];
+  meta: {
+    sports: string[];
+    from: string;
+    to: string;
+    markets: number;
+    snapshots: number;
+    min_ev: number;
+    generated_at: string;
+  };
+}
+
+export interface BacktestCaptureSummary {
+  sports: string[];
+  events: number;
+  markets: number;
+  snapshots: number;
+  unchanged: number;
+}
+
+export interface BacktestGradeSummary {
+  checked: number;
+  graded: number;
+  ungradeable: number;
+  errors: number;
+}
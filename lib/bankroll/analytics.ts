@@ -0,0 +1,225 @@
+/**
+ * Bankroll Analytics
+ *
+ * ROI, units, win rate and CLV breakdowns over settled betslips.
+ * Sliced by sport, market (SSE_MARKETS keys), sportsbook and the tool the
+ * bet originated from.
+ */
+
+import type { LineHistorySource } from "@/lib/odds/line-history";
+import { computeCLVPercent } from "@/lib/line-history/utils";
+import type {
+  AnalyticsBucket,
+  AnalyticsDimension,
+  BankrollAnalytics,
+  BetOrigin,
+  ProfitSeriesPoint,
+  SettledBetRecord,
+} from "./types";
+
+export const DEFAULT_UNIT_SIZE = 100;
+
+const MIXED = "mixed";
+
+/**
+ * Map a favorite's `source` (where it was saved from) to the tool of origin.
+ * Mobile variants and sub-surfaces roll up into their parent tool.
+ */
+export function getBetOrigin(favoriteSource: string | null | undefined): LineHistorySource {
+  const source = (favoriteSource || "").toLowerCase();
+  if (source.startsWith("edge") || source === "best_odds") return "edge";
+  if (source.startsWith("positive_ev")) return "positive_ev";
+  if (
+    source.startsWith("prop_center") ||
+    source.startsWith("hit_rate") ||
+    source.startsWith("cheat_sheet") ||
+    source.startsWith("injury_impact") ||
+    source === "correlations" ||
+    source === "quick_view_modal"
+  ) {
+    return "prop_center";
+  }
+  return "betslip";
+}
+
+/** Collapse a list of leg values into one label, or "mixed" when they differ */
+function collapse<T extends string>(values: T[]): T | typeof MIXED {
+  const unique = [...new Set(values.filter(Boolean))];
+  if (unique.length === 1) return unique[0];
+  return MIXED;
+}
+
+export interface SettledSlipRow {
+  id: string;
+  status: "won" | "lost" | "void";
+  settled_at: string | null;
+  updated_at: string;
+  placed_book: string | null;
+  placed_odds: number | null;
+  closing_odds: number | null;
+  stake_amount: number | null;
+  settled_payout: number | null;
+  potential_payout: number | null;
+  items: Array<{
+    favorite: { sport: string; market: string; source: string | null } | null;
+  }> | null;
+}
+
+/**
+ * Flatten settled betslips into analytics records.
+ * Slips without a stake are skipped since they carry no P&L.
+ */
+export function toSettledBetRecords(slips: SettledSlipRow[]): SettledBetRecord[] {
+  const records: SettledBetRecord[] = [];
+
+  for (const slip of slips) {
+    const stake = Number(slip.stake_amount ?? 0);
+    if (stake <= 0) continue;
+
+    const favorites = (slip.items || []).map((item) => item.favorite).filter(Boolean) as Array<{
+      sport: string;
+      market: string;
+      source: string | null;
+    }>;
+
+    const payout =
+      slip.settled_payout !== null
+        ? Number(slip.settled_payout)
+        : slip.status === "won"
+          ? Number(slip.potential_payout ?? 0)
+          : slip.status === "void"
+            ? stake
+            : 0;
+
+    records.push({
+      betslip_id: slip.id,
+      settled_at: slip.settled_at ?? slip.updated_at,
+      book: slip.placed_book || "unknown",
+      sport: collapse(favorites.map((f) => f.sport)),
+      market: favorites.length > 1 ? "parlay" : favorites[0]?.market || "unknown",
+      source: collapse(favorites.map((f) => getBetOrigin(f.source))) as BetOrigin,
+      status: slip.status,
+      stake,
+      payout,
+      odds: slip.placed_odds,
+      closing_odds: slip.closing_odds,
+    });
+  }
+
+  return records;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function buildBucket(key: string, records: SettledBetRecord[], unitSize: number): AnalyticsBucket {
+  let wins = 0;
+  let losses = 0;
+  let voids = 0;
+  let staked = 0;
+  let returned = 0;
+  let clvSum = 0;
+  let clvSamples = 0;
+  let beatClose = 0;
+
+  for (const record of records) {
+    if (record.status === "won") wins++;
+    else if (record.status === "lost") losses++;
+    else voids++;
+
+    // Voids refund the stake and shouldn't dilute ROI
+    if (record.status !== "void") {
+      staked += record.stake;
+      returned += record.payout;
+    }
+
+    const clv = computeCLVPercent(record.odds, record.closing_odds);
+    if (clv !== null) {
+      clvSum += clv;
+      clvSamples++;
+      if (clv > 0) beatClose++;
+    }
+  }
+
+  const profit = returned - staked;
+  const decided = wins + losses;
+
+  return {
+    key,
+    bets: records.length,
+    wins,
+    losses,
+    voids,
+    staked: round(staked),
+    returned: round(returned),
+    profit: round(profit),
+    roi: staked > 0 ? round((profit / staked) * 100) : 0,
+    units: unitSize > 0 ? round(profit / unitSize) : 0,
+    win_rate: decided > 0 ? round((wins / decided) * 100, 1) : 0,
+    avg_clv: clvSamples > 0 ? round(clvSum / clvSamples) : null,
+    beat_close_rate: clvSamples > 0 ? round((beatClose / clvSamples) * 100, 1) : null,
+    clv_samples: clvSamples,
+  };
+}
+
+const DIMENSION_KEY: Record<AnalyticsDimension, (record: SettledBetRecord) => string> = {
+  sport: (r) => r.sport,
+  market: (r) => r.market,
+  book: (r) => r.book,
+  source: (r) => r.source,
+};
+
+export function groupAnalytics(
+  records: SettledBetRecord[],
+  dimension: AnalyticsDimension,
+  unitSize: number
+): AnalyticsBucket[] {
+  const groups = new Map<string, SettledBetRecord[]>();
+  const getKey = DIMENSION_KEY[dimension];
+  for (const record of records) {
+    const key = getKey(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => buildBucket(key, group, unitSize))
+    .sort((a, b) => b.bets - a.bets);
+}
+
+/**
+ * Daily realized profit with a running total, keyed by ET settlement date.
+ */
+export function buildProfitSeries(records: SettledBetRecord[]): ProfitSeriesPoint[] {
+  const byDate = new Map<string, number>();
+  for (const record of records) {
+    if (record.status === "void") continue;
+    const date = new Date(record.settled_at).toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+    byDate.set(date, (byDate.get(date) ?? 0) + record.payout - record.stake);
+  }
+
+  let cumulative = 0;
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, profit]) => {
+      cumulative += profit;
+      return { date, profit: round(profit), cumulative: round(cumulative) };
+    });
+}
+
+export function buildBankrollAnalytics(
+  records: SettledBetRecord[],
+  unitSize: number = DEFAULT_UNIT_SIZE
+): BankrollAnalytics {
+  return {
+    unit_size: unitSize,
+    overall: buildBucket("all", records, unitSize),
+    by_sport: groupAnalytics(records, "sport", unitSize),
+    by_market: groupAnalytics(records, "market", unitSize),
+    by_book: groupAnalytics(records, "book", unitSize),
+    by_source: groupAnalytics(records, "source", unitSize),
+    series: buildProfitSeries(records),
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Bankroll Library
+ *
+ * Per-sportsbook balances over an immutable ledger and P&L analytics
+ * (ROI, units, win rate, CLV) over settled betslips.
+ */
+
+// Types
+export type {
+  LedgerEntryType,
+  ManualLedgerEntryType,
+  BankrollLedgerEntry,
+  BankrollSettings,
+  CreateLedgerEntryParams,
+  BookBalance,
+  BankrollSummary,
+  AnalyticsDimension,
+  BetOrigin,
+  SettledBetRecord,
+  AnalyticsBucket,
+  ProfitSeriesPoint,
+  BankrollAnalytics,
+} from "./types";
+export { MANUAL_LEDGER_ENTRY_TYPES } from "./types";
+
+// Ledger
+export { UNASSIGNED_BOOK, signLedgerAmount, summarizeLedger } from "./ledger";
+
+// Analytics
+export {
+  DEFAULT_UNIT_SIZE,
+  getBetOrigin,
+  toSettledBetRecords,
+  groupAnalytics,
+  buildProfitSeries,
+  buildBankrollAnalytics,
+} from "./analytics";
+export type { SettledSlipRow } from "./analytics";
@@ -0,0 +1,137 @@
+/**
+ * Bankroll Ledger
+ *
+ * Balance math over the immutable ledger. Balances are always derived from
+ * ledger rows rather than stored, so corrections are made by appending an
+ * adjustment entry — never by editing history.
+ */
+
+import type {
+  BankrollLedgerEntry,
+  BankrollSettings,
+  BankrollSummary,
+  BookBalance,
+  ManualLedgerEntryType,
+} from "./types";
+
+/** Bucket for ledger rows with no sportsbook (e.g. general adjustments) */
+export const UNASSIGNED_BOOK = "unassigned";
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Apply the sign convention for a manual entry.
+ * Withdrawals are stored negative; adjustments keep the caller's sign.
+ */
+export function signLedgerAmount(entryType: ManualLedgerEntryType, amount: number): number {
+  if (entryType === "withdrawal") return -Math.abs(amount);
+  if (entryType === "adjustment") return amount;
+  return Math.abs(amount);
+}
+
+/** Running state of one betslip's ledger rows */
+interface SlipLedgerState {
+  /** Book the stake was placed at (where it counts as pending) */
+  book: string;
+  stake: number;
+  payout: number;
+  settled: boolean;
+  /** Pending / profit this slip currently contributes */
+  pending: number;
+  profit: number;
+}
+
+/**
+ * Roll ledger rows up into per-book balances.
+ *
+ * Betslip rows (bet_placed, bet_settled and the adjustments the database
+ * books when a slip's stake, result or payout changes) are folded into a
+ * per-slip state: an open slip counts its stake as pending, a settled one
+ * counts payout − stake as profit. Stake-side rows have no payout.
+ */
+export function summarizeLedger(
+  entries: BankrollLedgerEntry[],
+  settings: BankrollSettings | null
+): BankrollSummary {
+  const books = new Map<string, BookBalance>();
+  const slips = new Map<string, SlipLedgerState>();
+
+  const getBook = (id: string | null): BookBalance => {
+    const key = id || UNASSIGNED_BOOK;
+    let book = books.get(key);
+    if (!book) {
+      book = { sportsbook: key, balance: 0, deposited: 0, withdrawn: 0, pending: 0, profit: 0 };
+      books.set(key, book);
+    }
+    return book;
+  };
+
+  const ordered = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const entry of ordered) {
+    const book = getBook(entry.sportsbook);
+    const amount = Number(entry.amount);
+    book.balance += amount;
+
+    switch (entry.entry_type) {
+      case "opening_balance":
+      case "deposit":
+        book.deposited += amount;
+        break;
+      case "withdrawal":
+        book.withdrawn += Math.abs(amount);
+        break;
+      case "bet_placed":
+      case "bet_settled":
+      case "adjustment": {
+        if (!entry.betslip_id) break;
+        let slip = slips.get(entry.betslip_id);
+        if (!slip) {
+          // A settlement with no placement row on record still nets its stake
+          const stake = entry.entry_type === "bet_settled" ? Number(entry.stake ?? 0) : 0;
+          slip = { book: book.sportsbook, stake, payout: 0, settled: false, pending: 0, profit: 0 };
+          slips.set(entry.betslip_id, slip);
+        }
+
+        if (entry.payout === null) {
+          slip.stake -= amount;
+          if (entry.entry_type === "bet_placed") slip.book = book.sportsbook;
+        } else {
+          slip.payout += amount;
+          slip.settled = entry.result !== null;
+        }
+
+        const pending = slip.settled ? 0 : slip.stake;
+        const profit = slip.settled ? slip.payout - slip.stake : 0;
+        getBook(slip.book).pending += pending - slip.pending;
+        book.profit += profit - slip.profit;
+        slip.pending = pending;
+        slip.profit = profit;
+        break;
+      }
+    }
+  }
+
+  const bookList = [...books.values()]
+    .map((book) => ({
+      sportsbook: book.sportsbook,
+      balance: roundCents(book.balance),
+      deposited: roundCents(book.deposited),
+      withdrawn: roundCents(book.withdrawn),
+      pending: roundCents(book.pending),
+      profit: roundCents(book.profit),
+    }))
+    .sort((a, b) => b.balance - a.balance);
+
+  return {
+    settings,
+    total_balance: roundCents(bookList.reduce((sum, b) => sum + b.balance, 0)),
+    total_deposited: roundCents(bookList.reduce((sum, b) => sum + b.deposited, 0)),
+    total_withdrawn: roundCents(bookList.reduce((sum, b) => sum + b.withdrawn, 0)),
+    total_pending: roundCents(bookList.reduce((sum, b) => sum + b.pending, 0)),
+    total_profit: roundCents(bookList.reduce((sum, b) => sum + b.profit, 0)),
+    books: bookList,
+  };
+}
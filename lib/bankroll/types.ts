@@ -0,0 +1,149 @@
+/**
+ * Bankroll Types
+ *
+ * Ledger, balance and P&L analytics types for the bankroll tracker.
+ */
+
+import type { LineHistorySource } from "@/lib/odds/line-history";
+
+/**
+ * Ledger entry types.
+ * - opening_balance / deposit / withdrawal / adjustment: entered by the user
+ * - bet_placed / bet_settled: written by the database when a betslip is
+ *   placed and when it settles (won/lost/void)
+ * - adjustment with a betslip_id: written by the database when a slip's
+ *   stake, result or payout changes afterwards (including a reverted
+ *   settlement)
+ */
+export type LedgerEntryType =
+  | "opening_balance"
+  | "deposit"
+  | "withdrawal"
+  | "adjustment"
+  | "bet_placed"
+  | "bet_settled";
+
+/** Entry types a user may create directly */
+export const MANUAL_LEDGER_ENTRY_TYPES = ["opening_balance", "deposit", "withdrawal", "adjustment"] as const;
+export type ManualLedgerEntryType = (typeof MANUAL_LEDGER_ENTRY_TYPES)[number];
+
+/**
+ * Immutable ledger row (user_bankroll_ledger).
+ * Amounts are signed: money into the bankroll is positive, money out negative.
+ */
+export interface BankrollLedgerEntry {
+  id: string;
+  user_id: string;
+  entry_type: LedgerEntryType;
+  sportsbook: string | null;
+  amount: number;
+  betslip_id: string | null;
+  stake: number | null;
+  payout: number | null;
+  odds: number | null;
+  closing_odds: number | null;
+  result: "won" | "lost" | "void" | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface BankrollSettings {
+  user_id: string;
+  unit_size: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateLedgerEntryParams {
+  entry_type: ManualLedgerEntryType;
+  sportsbook: string | null;
+  /** Positive amount; the sign is applied from entry_type (withdrawals are negated) */
+  amount: number;
+  note?: string | null;
+}
+
+export interface BookBalance {
+  sportsbook: string;
+  balance: number;
+  deposited: number;
+  withdrawn: number;
+  /** Stake currently at risk on unsettled slips */
+  pending: number;
+  /** Net betting result (settled returns − settled stakes) */
+  profit: number;
+}
+
+export interface BankrollSummary {
+  settings: BankrollSettings | null;
+  total_balance: number;
+  total_deposited: number;
+  total_withdrawn: number;
+  total_pending: number;
+  total_profit: number;
+  books: BookBalance[];
+}
+
+// =============================================================================
+// Analytics
+// =============================================================================
+
+export type AnalyticsDimension = "sport" | "market" | "book" | "source";
+
+/** Tool a bet originated from; "mixed" for parlays spanning several tools */
+export type BetOrigin = LineHistorySource | "mixed";
+
+/**
+ * One settled bet flattened for analytics.
+ * Parlays spanning several sports/markets report "mixed" for that dimension.
+ */
+export interface SettledBetRecord {
+  betslip_id: string;
+  settled_at: string;
+  book: string;
+  sport: string;
+  market: string;
+  source: BetOrigin;
+  status: "won" | "lost" | "void";
+  stake: number;
+  payout: number;
+  odds: number | null;
+  closing_odds: number | null;
+}
+
+export interface AnalyticsBucket {
+  key: string;
+  bets: number;
+  wins: number;
+  losses: number;
+  voids: number;
+  staked: number;
+  returned: number;
+  profit: number;
+  /** profit / staked * 100 */
+  roi: number;
+  /** profit / unit size */
+  units: number;
+  /** wins / (wins + losses) * 100 */
+  win_rate: number;
+  /** Average CLV % across bets with a captured closing price */
+  avg_clv: number | null;
+  /** Share of bets with a captured close that beat it */
+  beat_close_rate: number | null;
+  clv_samples: number;
+}
+
+export interface ProfitSeriesPoint {
+  date: string;
+  profit: number;
+  cumulative: number;
+}
+
+export interface BankrollAnalytics {
+  unit_size: number;
+  overall: AnalyticsBucket;
+  by_sport: AnalyticsBucket[];
+  by_market: AnalyticsBucket[];
+  by_book: AnalyticsBucket[];
+  by_source: AnalyticsBucket[];
+  series: ProfitSeriesPoint[];
+}
@@ -0,0 +1,24 @@
+/**
+ * Billing Admin Access (server)
+ *
+ * Event replay and manual reconciliation are limited to accounts whose raw
+ * entitlement plan is "admin" (normalizePlanName folds it into elite, so
+ * getUserPlan can't tell admins apart).
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+
+export async function isBillingAdmin(user: User | null): Promise<boolean> {
+  if (!user) return false;
+  const { data, error } = await createServerSupabaseClient()
+    .from("current_entitlements")
+    .select("current_plan")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) {
+    console.error("[billing-admin] Entitlement lookup error:", error.message);
+    return false;
+  }
+  return data?.current_plan === "admin";
+}
@@ -0,0 +1,186 @@
+/**
+ * Stripe Event Store (server)
+ *
+ * Every verified webhook is written to billing.stripe_events before it's
+ * handled. Stripe retries and duplicate deliveries of an event that was
+ * already processed are acknowledged without running handlers again, and a
+ * delivery that arrives while another is mid-flight gets a 409 so Stripe
+ * retries it later instead of it being lost. Failures are recorded with
+ * the error and left for Stripe's retries or an admin replay.
+ */
+
+import type Stripe from "stripe";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { stripe } from "./stripe-client";
+import { handleStripeEvent } from "./webhook-handlers";
+import type {
+  ProcessStripeEventResult,
+  StripeEventOutcome,
+  StripeEventRecord,
+  StripeEventStatus,
+  StripeEventSummary,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const MAX_ERROR_LENGTH = 1000;
+
+export const STRIPE_EVENT_SUMMARY_COLUMNS =
+  "id, type, livemode, api_version, stripe_created_at, stripe_subscription_id, stripe_customer_id, status, attempts, last_error, note, received_at, processing_started_at, processed_at, updated_at";
+
+/** Thrown when another delivery of the same event is being processed */
+export class StripeEventInProgressError extends Error {
+  constructor(eventId: string) {
+    super(`Stripe event ${eventId} is already being processed`);
+    this.name = "StripeEventInProgressError";
+  }
+}
+
+/**
+ * Subscription and customer ids an event relates to, for per-subscription
+ * history and ordering
+ */
+function eventRefs(event: Stripe.Event): { subscriptionId: string | null; customerId: string | null } {
+  const object = event.data.object as unknown as Record<string, unknown>;
+  const idOf = (value: unknown) =>
+    typeof value === "string" ? value : (value as { id?: string } | null)?.id ?? null;
+
+  const subscriptionId = event.type.startsWith("customer.subscription.")
+    ? idOf(object.id)
+    : idOf(object.subscription);
+  return { subscriptionId, customerId: idOf(object.customer) };
+}
+
+/**
+ * Insert the event if it's new. Returns the stored status (existing or
+ * 'received'), or null when the store is unavailable.
+ */
+export async function recordStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<StripeEventStatus | null> {
+  const { subscriptionId, customerId } = eventRefs(event);
+  const { error } = await supabase
+    .schema("billing")
+    .from("stripe_events")
+    .upsert(
+      {
+        id: event.id,
+        type: event.type,
+        livemode: event.livemode,
+        api_version: event.api_version ?? null,
+        stripe_created_at: new Date(event.created * 1000).toISOString(),
+        stripe_subscription_id: subscriptionId,
+        stripe_customer_id: customerId,
+        payload: event,
+      },
+      { onConflict: "id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("[stripe-events] Failed to record event", event.id, error.message);
+    return null;
+  }
+
+  const { data } = await supabase.schema("billing").from("stripe_events").select("status").eq("id", event.id).maybeSingle();
+  return (data?.status as StripeEventStatus | undefined) ?? "received";
+}
+
+async function claimStripeEvent(supabase: SupabaseClient, eventId: string, force: boolean): Promise<boolean> {
+  const { data, error } = await supabase.rpc("claim_stripe_event", { p_event_id: eventId, p_force: force });
+  if (error) throw new Error(`Failed to claim Stripe event ${eventId}: ${error.message}`);
+  return data === true;
+}
+
+async function finishStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  update: { status: StripeEventStatus; note?: string | null; last_error?: string | null }
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .schema("billing")
+    .from("stripe_events")
+    .update({
+      note: null,
+      last_error: null,
+      ...update,
+      processed_at: update.status === "failed" ? null : now,
+      updated_at: now,
+    })
+    .eq("id", eventId);
+  if (error) console.error("[stripe-events] Failed to update event", eventId, error.message);
+}
+
+/**
+ * Handle a verified event exactly once. `force` re-runs an event that was
+ * already processed (admin replay); subscription writes are still ordered,
+ * so replaying an old event can't roll a subscription back.
+ */
+export async function processStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  { force = false }: { force?: boolean } = {}
+): Promise<ProcessStripeEventResult> {
+  const stored = await recordStripeEvent(supabase, event);
+
+  // Store unavailable: handle inline rather than dropping billing updates
+  if (stored === null) {
+    const outcome = await handleStripeEvent(stripe, supabase, event);
+    return { ...outcome, event_id: event.id, duplicate: false };
+  }
+
+  if (!force && (stored === "processed" || stored === "skipped")) {
+    return { status: stored, event_id: event.id, duplicate: true };
+  }
+  if (!(await claimStripeEvent(supabase, event.id, force))) {
+    throw new StripeEventInProgressError(event.id);
+  }
+
+  let outcome: StripeEventOutcome;
+  try {
+    outcome = await handleStripeEvent(stripe, supabase, event);
+  } catch (err) {
+    const message = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+    await finishStripeEvent(supabase, event.id, { status: "failed", last_error: message });
+    throw err;
+  }
+
+  await finishStripeEvent(supabase, event.id, { status: outcome.status, note: outcome.note ?? null });
+  return { ...outcome, event_id: event.id, duplicate: false };
+}
+
+/**
+ * Stored event by id
+ */
+export async function getStripeEvent(supabase: SupabaseClient, eventId: string): Promise<StripeEventRecord | null> {
+  const { data, error } = await supabase
+    .schema("billing")
+    .from("stripe_events")
+    .select("*")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load Stripe event ${eventId}: ${error.message}`);
+  return (data as StripeEventRecord | null) ?? null;
+}
+
+/**
+ * Recent events, newest first, optionally narrowed by status, type or
+ * subscription (the latter shows the order a subscription's events were
+ * created in)
+ */
+export async function listStripeEvents(
+  supabase: SupabaseClient,
+  filters: { status?: StripeEventStatus; type?: string; subscription_id?: string; limit: number }
+): Promise<StripeEventSummary[]> {
+  let query = supabase
+    .schema("billing")
+    .from("stripe_events")
+    .select(STRIPE_EVENT_SUMMARY_COLUMNS)
+    .order(filters.subscription_id ? "stripe_created_at" : "received_at", { ascending: false })
+    .limit(filters.limit);
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.subscription_id) query = query.eq("stripe_subscription_id", filters.subscription_id);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to list Stripe events: ${error.message}`);
+  return (data ?? []) as StripeEventSummary[];
+}
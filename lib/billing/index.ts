@@ -0,0 +1,52 @@
+/**
+ * Billing Library (server)
+ *
+ * Stripe webhook event store and handlers, ordered subscription writes,
+ * admin replay helpers and nightly entitlement reconciliation.
+ */
+
+// Types
+export type {
+  StripeEventStatus,
+  StripeEventRecord,
+  StripeEventSummary,
+  StripeEventOutcome,
+  ProcessStripeEventResult,
+  SubscriptionState,
+  SubscriptionApplyResult,
+  ReconcileIssue,
+  ReconcileDrift,
+  ReconcileSummary,
+} from "./types";
+
+export { stripe } from "./stripe-client";
+
+// Subscriptions
+export {
+  ENTITLED_SUBSCRIPTION_STATUSES,
+  getSubscriptionPriceId,
+  subscriptionStateFromStripe,
+  applySubscriptionState,
+  resolveSubscriptionUserId,
+} from "./subscriptions";
+
+// Webhook events
+export { handleStripeEvent } from "./webhook-handlers";
+export {
+  STRIPE_EVENT_SUMMARY_COLUMNS,
+  StripeEventInProgressError,
+  recordStripeEvent,
+  processStripeEvent,
+  getStripeEvent,
+  listStripeEvents,
+} from "./event-store";
+
+// Admin & reconciliation
+export {
+  StripeEventsQuerySchema,
+  ReplayStripeEventSchema,
+  type StripeEventsQuery,
+  type ReplayStripeEventInput,
+} from "./schema";
+export { isBillingAdmin } from "./admin";
+export { reconcileSubscriptions } from "./reconcile";
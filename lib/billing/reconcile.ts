@@ -0,0 +1,205 @@
+/**
+ * Entitlement Reconciliation (server)
+ *
+ * Nightly safety net for missed or mangled webhooks. Compares every live
+ * Stripe subscription (and every subscription we still consider live) with
+ * billing.subscriptions, rewrites drifted rows from Stripe's current state,
+ * then checks current_entitlements: paying users without access and
+ * subscription-sourced access without a paying subscription are reported
+ * (the view itself can't be written, and grants/trials are left alone).
+ */
+
+import type Stripe from "stripe";
+import { normalizePlanName } from "@/lib/plans";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { stripe } from "./stripe-client";
+import {
+  ENTITLED_SUBSCRIPTION_STATUSES,
+  applySubscriptionState,
+  resolveSubscriptionUserId,
+  subscriptionStateFromStripe,
+} from "./subscriptions";
+import type { ReconcileDrift, ReconcileIssue, ReconcileSummary, SubscriptionState } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Stripe statuses treated as live; anything else is terminal */
+const LIVE_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing", "past_due", "unpaid"];
+
+const DB_PAGE_SIZE = 1000;
+const IN_FILTER_CHUNK = 500;
+const MAX_REPORTED_DRIFT = 200;
+
+function diffSubscription(stored: SubscriptionState | undefined, expected: SubscriptionState): ReconcileIssue[] {
+  if (!stored) return ["missing_row"];
+  const issues: ReconcileIssue[] = [];
+  if (stored.status !== expected.status) issues.push("status");
+  if (stored.price_id !== expected.price_id) issues.push("price");
+  if (Date.parse(stored.current_period_end) !== Date.parse(expected.current_period_end)) issues.push("period");
+  if (!!stored.cancel_at_period_end !== expected.cancel_at_period_end) issues.push("cancellation");
+  return issues;
+}
+
+async function listStripeSubscriptions(): Promise<Map<string, Stripe.Subscription>> {
+  const subs = new Map<string, Stripe.Subscription>();
+  for (const status of LIVE_STATUSES) {
+    for await (const sub of stripe.subscriptions.list({ status, limit: 100 })) {
+      subs.set(sub.id, sub);
+    }
+  }
+  return subs;
+}
+
+async function listLiveDbSubscriptions(supabase: SupabaseClient): Promise<Map<string, SubscriptionState>> {
+  const rows = new Map<string, SubscriptionState>();
+  for (let from = 0; ; from += DB_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .schema("billing")
+      .from("subscriptions")
+      .select(
+        "user_id, stripe_customer_id, stripe_subscription_id, price_id, status, current_period_start, current_period_end, cancel_at_period_end, canceled_at"
+      )
+      .in("status", LIVE_STATUSES)
+      .order("stripe_subscription_id", { ascending: true })
+      .range(from, from + DB_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load subscriptions: ${error.message}`);
+    for (const row of (data ?? []) as SubscriptionState[]) rows.set(row.stripe_subscription_id, row);
+    if (!data || data.length < DB_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function loadStoredRows(supabase: SupabaseClient, ids: string[]): Promise<Map<string, SubscriptionState>> {
+  const rows = new Map<string, SubscriptionState>();
+  for (let i = 0; i < ids.length; i += IN_FILTER_CHUNK) {
+    const { data } = await supabase
+      .schema("billing")
+      .from("subscriptions")
+      .select("*")
+      .in("stripe_subscription_id", ids.slice(i, i + IN_FILTER_CHUNK));
+    for (const row of (data ?? []) as SubscriptionState[]) rows.set(row.stripe_subscription_id, row);
+  }
+  return rows;
+}
+
+/**
+ * Compare Stripe with billing.subscriptions and current_entitlements.
+ * With `dryRun` nothing is written; drift is only reported.
+ */
+export async function reconcileSubscriptions(
+  supabase: SupabaseClient,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<ReconcileSummary> {
+  const summary: ReconcileSummary = {
+    dry_run: dryRun,
+    stripe_subscriptions: 0,
+    db_subscriptions: 0,
+    checked: 0,
+    drifted: 0,
+    repaired: 0,
+    skipped_stale: 0,
+    entitlement_mismatches: 0,
+    errors: 0,
+    drift: [],
+  };
+  const report = (drift: ReconcileDrift) => {
+    if (summary.drift.length < MAX_REPORTED_DRIFT) summary.drift.push(drift);
+  };
+
+  // Captured before reading Stripe: anything a webhook writes after this is
+  // at least as new as what we're about to fetch
+  const fetchedAt = new Date();
+  const [stripeSubs, liveRows] = await Promise.all([listStripeSubscriptions(), listLiveDbSubscriptions(supabase)]);
+  summary.stripe_subscriptions = stripeSubs.size;
+  summary.db_subscriptions = liveRows.size;
+
+  // Rows we think are live but Stripe doesn't list as live: fetch their real state
+  for (const id of liveRows.keys()) {
+    if (stripeSubs.has(id)) continue;
+    try {
+      stripeSubs.set(id, await stripe.subscriptions.retrieve(id));
+    } catch (err) {
+      console.error(`[reconcile] Failed to retrieve subscription ${id}:`, (err as Error)?.message);
+      summary.errors++;
+    }
+  }
+
+  const storedRows = await loadStoredRows(
+    supabase,
+    [...stripeSubs.keys()].filter((id) => !liveRows.has(id))
+  );
+  for (const [id, row] of liveRows) storedRows.set(id, row);
+
+  // user -> subscription id, for users Stripe says should have access
+  const entitledUsers = new Map<string, string>();
+  for (const sub of stripeSubs.values()) {
+    summary.checked++;
+    try {
+      const stored = storedRows.get(sub.id);
+      const userId = stored?.user_id ?? (await resolveSubscriptionUserId(stripe, supabase, sub));
+      if (!userId) {
+        summary.drifted++;
+        report({ stripe_subscription_id: sub.id, user_id: null, issues: ["user_unresolved"], repaired: false });
+        continue;
+      }
+      if (ENTITLED_SUBSCRIPTION_STATUSES.includes(sub.status)) entitledUsers.set(userId, sub.id);
+
+      const expected = subscriptionStateFromStripe(sub, userId);
+      if (!expected) continue;
+      const issues = diffSubscription(stored, expected);
+      if (issues.length === 0) continue;
+
+      summary.drifted++;
+      let repaired = false;
+      if (!dryRun) {
+        repaired = (await applySubscriptionState(supabase, expected, fetchedAt)) === "applied";
+        if (repaired) summary.repaired++;
+        else summary.skipped_stale++;
+      }
+      console.warn(`[reconcile] Subscription ${sub.id} drifted (${issues.join(", ")})${repaired ? " - repaired" : ""}`);
+      report({ stripe_subscription_id: sub.id, user_id: userId, issues, repaired });
+    } catch (err) {
+      console.error(`[reconcile] Failed to reconcile subscription ${sub.id}:`, (err as Error)?.message);
+      summary.errors++;
+    }
+  }
+
+  // Entitlements, after repairs have landed
+  const userIds = [...new Set([...entitledUsers.keys(), ...[...liveRows.values()].map((row) => row.user_id)])];
+  for (let i = 0; i < userIds.length; i += IN_FILTER_CHUNK) {
+    const { data, error } = await supabase
+      .from("current_entitlements")
+      .select("user_id, current_plan, entitlement_source")
+      .in("user_id", userIds.slice(i, i + IN_FILTER_CHUNK));
+    if (error) {
+      console.error("[reconcile] Failed to load entitlements:", error.message);
+      summary.errors++;
+      continue;
+    }
+
+    for (const row of data ?? []) {
+      const plan = normalizePlanName(String(row.current_plan || "free"));
+      const hasPaidPlan = plan !== "free" && plan !== "anonymous";
+      let issue: ReconcileIssue | null = null;
+      if (entitledUsers.has(row.user_id) && !hasPaidPlan) issue = "entitlement_missing";
+      else if (!entitledUsers.has(row.user_id) && row.entitlement_source === "subscription" && hasPaidPlan) {
+        issue = "entitlement_unpaid";
+      }
+      if (!issue) continue;
+
+      summary.entitlement_mismatches++;
+      console.warn(`[reconcile] Entitlement mismatch for user ${row.user_id}: ${issue} (plan ${row.current_plan})`);
+      report({
+        stripe_subscription_id:
+          entitledUsers.get(row.user_id) ??
+          [...liveRows.values()].find((stored) => stored.user_id === row.user_id)?.stripe_subscription_id ??
+          "",
+        user_id: row.user_id,
+        issues: [issue],
+        repaired: false,
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,22 @@
+/**
+ * Billing Admin Validation
+ *
+ * zod schemas for the Stripe event log and replay endpoints.
+ */
+
+import { z } from "zod";
+
+export const StripeEventsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(["received", "processing", "processed", "skipped", "failed"]).optional(),
+  type: z.string().min(1).max(100).optional(),
+  subscription_id: z.string().startsWith("sub_").max(255).optional(),
+});
+
+export const ReplayStripeEventSchema = z.object({
+  // Re-fetch the event from Stripe instead of replaying the stored payload
+  refetch: z.boolean().default(false),
+});
+
+export type StripeEventsQuery = z.infer<typeof StripeEventsQuerySchema>;
+export type ReplayStripeEventInput = z.infer<typeof ReplayStripeEventSchema>;
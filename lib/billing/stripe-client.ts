@@ -0,0 +1,10 @@
+import Stripe from "stripe";
+
+/**
+ * Server-side Stripe client shared by the billing webhook, replay and
+ * reconciliation code
+ */
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2023-08-16" as any,
+  typescript: true,
+});
@@ -0,0 +1,116 @@
+/**
+ * Subscription State (server)
+ *
+ * Maps Stripe subscriptions to billing.subscriptions rows and writes them
+ * through apply_stripe_subscription_state, which refuses to overwrite a row
+ * with state older than what's stored. Webhook writes are stamped with the
+ * event's creation time; live reads (checkout, reconciliation) with the
+ * time they were fetched, so a delayed event can't roll them back. Two
+ * events from the same second tie; the handler then writes the live
+ * subscription instead of letting whichever arrived last win.
+ */
+
+import type Stripe from "stripe";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import type { SubscriptionApplyResult, SubscriptionState } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Statuses that grant access */
+export const ENTITLED_SUBSCRIPTION_STATUSES = ["active", "trialing"];
+
+const toIso = (epochSeconds: number) => new Date(epochSeconds * 1000).toISOString();
+
+export function getSubscriptionPriceId(sub: Stripe.Subscription): string {
+  const priceId = (sub as any)?.items?.data?.[0]?.price?.id;
+  return typeof priceId === "string" ? priceId : "";
+}
+
+/**
+ * Row for a subscription, or null when Stripe didn't include period dates
+ * (top-level on older API versions, on the first item on newer ones)
+ */
+export function subscriptionStateFromStripe(sub: Stripe.Subscription, userId: string): SubscriptionState | null {
+  const firstItem: any = (sub as any)?.items?.data?.[0] || null;
+  const cpsEpoch = (sub as any)?.current_period_start ?? firstItem?.current_period_start ?? (sub as any)?.start_date;
+  const cpeEpoch = (sub as any)?.current_period_end ?? firstItem?.current_period_end ?? null;
+  if (!cpsEpoch || !cpeEpoch) return null;
+
+  return {
+    user_id: userId,
+    stripe_customer_id: String(sub.customer),
+    stripe_subscription_id: sub.id,
+    price_id: getSubscriptionPriceId(sub),
+    status: sub.status,
+    current_period_start: toIso(Number(cpsEpoch)),
+    current_period_end: toIso(Number(cpeEpoch)),
+    cancel_at_period_end: !!(sub as any).cancel_at_period_end,
+    canceled_at: (sub as any).canceled_at ? toIso(Number((sub as any).canceled_at)) : null,
+  };
+}
+
+/**
+ * Upsert if `stateAt` is newer than the stored row. "stale" and "tied"
+ * writes are skipped; throws on database errors so the caller can retry.
+ */
+export async function applySubscriptionState(
+  supabase: SupabaseClient,
+  state: SubscriptionState,
+  stateAt: Date
+): Promise<SubscriptionApplyResult> {
+  const { data, error } = await supabase.rpc("apply_stripe_subscription_state", {
+    p_subscription: state,
+    p_state_at: stateAt.toISOString(),
+  });
+  if (error) {
+    throw new Error(`Failed to write subscription ${state.stripe_subscription_id}: ${error.message}`);
+  }
+  return data === "applied" || data === "tied" ? data : "stale";
+}
+
+/**
+ * App user for a subscription: metadata, then the checkout session behind
+ * its latest invoice, then profiles.stripe_customer_id, then an existing
+ * billing.subscriptions row.
+ */
+export async function resolveSubscriptionUserId(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  sub: Stripe.Subscription
+): Promise<string | null> {
+  let userId: string | null = sub.metadata?.user_id || sub.metadata?.userId || null;
+
+  if (!userId && sub.latest_invoice && typeof sub.latest_invoice === "string") {
+    try {
+      const inv = await stripe.invoices.retrieve(sub.latest_invoice, {
+        expand: ["payment_intent"],
+      });
+      const sessionId = inv.metadata?.checkout_session_id as string | undefined;
+      if (sessionId) {
+        const session = await stripe.checkout.sessions.retrieve(sessionId);
+        userId = (session.client_reference_id as string) || null;
+      }
+    } catch {}
+  }
+
+  if (!userId && sub.customer) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("stripe_customer_id", String(sub.customer))
+      .maybeSingle();
+    userId = profile?.id || null;
+  }
+
+  if (!userId) {
+    const { data: existing } = await supabase
+      .schema("billing")
+      .from("subscriptions")
+      .select("user_id")
+      .eq("stripe_subscription_id", sub.id)
+      .maybeSingle();
+    userId = existing?.user_id || null;
+  }
+
+  return userId;
+}
@@ -0,0 +1,97 @@
+/**
+ * Billing Types
+ *
+ * Persisted Stripe webhook events, the subscription state written to
+ * billing.subscriptions (which current_entitlements is derived from) and
+ * reconciliation results.
+ */
+
+export type StripeEventStatus = "received" | "processing" | "processed" | "skipped" | "failed";
+
+/**
+ * billing.stripe_events row
+ */
+export interface StripeEventRecord {
+  id: string;
+  type: string;
+  livemode: boolean;
+  api_version: string | null;
+  stripe_created_at: string;
+  stripe_subscription_id: string | null;
+  stripe_customer_id: string | null;
+  payload: Record<string, unknown>;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error: string | null;
+  note: string | null;
+  received_at: string;
+  processing_started_at: string | null;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+/** Event listing without the (large) payload */
+export type StripeEventSummary = Omit<StripeEventRecord, "payload">;
+
+/**
+ * Result of running a handler. `skipped` = handled but nothing changed
+ * (stale subscription state, unhandled type, unknown user).
+ */
+export interface StripeEventOutcome {
+  status: "processed" | "skipped";
+  note?: string;
+}
+
+export interface ProcessStripeEventResult extends StripeEventOutcome {
+  event_id: string;
+  /** Already handled (or being handled by another delivery); nothing ran */
+  duplicate: boolean;
+}
+
+/**
+ * billing.subscriptions columns written from Stripe
+ */
+export interface SubscriptionState {
+  user_id: string;
+  stripe_customer_id: string;
+  stripe_subscription_id: string;
+  price_id: string;
+  status: string;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  canceled_at: string | null;
+}
+
+/** Outcome of an ordered subscription write */
+export type SubscriptionApplyResult = "applied" | "stale" | "tied";
+
+export type ReconcileIssue =
+  | "missing_row"
+  | "status"
+  | "price"
+  | "period"
+  | "cancellation"
+  | "user_unresolved"
+  | "entitlement_missing"
+  | "entitlement_unpaid";
+
+export interface ReconcileDrift {
+  stripe_subscription_id: string;
+  user_id: string | null;
+  issues: ReconcileIssue[];
+  repaired: boolean;
+}
+
+export interface ReconcileSummary {
+  dry_run: boolean;
+  stripe_subscriptions: number;
+  db_subscriptions: number;
+  checked: number;
+  drifted: number;
+  repaired: number;
+  skipped_stale: number;
+  entitlement_mismatches: number;
+  errors: number;
+  drift: ReconcileDrift[];
+}
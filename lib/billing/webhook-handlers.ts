@@ -0,0 +1,489 @@
+/**
+ * Stripe Webhook Handlers (server)
+ *
+ * What each Stripe event does, separated from the webhook route so stored
+ * events can be replayed through the same code. Subscription writes go
+ * through applySubscriptionState, so a stale or duplicate event never
+ * overwrites newer billing.subscriptions state, and side effects (analytics,
+ * Customer.io, BeeHiiv) are skipped for stale subscription events. The event
+ * store keeps duplicates from reaching here; an admin replay does re-run
+ * side effects.
+ */
+
+import Stripe from 'stripe'
+import type { createServerSupabaseClient } from '@/lib/supabase-server'
+import { syncSubscriptionToBeeHiiv, getPlanFromPriceId } from '@/libs/beehiiv'
+import { identifyCustomer, trackEvent } from '@/libs/customerio'
+import { getPostHogClient } from '@/lib/posthog-server'
+import {
+  applySubscriptionState,
+  getSubscriptionPriceId,
+  resolveSubscriptionUserId,
+  subscriptionStateFromStripe,
+} from './subscriptions'
+import type { StripeEventOutcome } from './types'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+export async function handleStripeEvent(
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      let sub = event.data.object as Stripe.Subscription
+      const user_id = await resolveSubscriptionUserId(stripe, supabase, sub)
+      if (!user_id) {
+        // Best effort: do not fail webhook
+        console.warn('[stripe] missing user id on subscription event')
+        return { status: 'skipped', note: 'Could not resolve user for subscription' }
+      }
+
+      let state = subscriptionStateFromStripe(sub, user_id)
+      if (!state) {
+        console.warn('[webhook] Subscription event missing period dates; skipping upsert for subscription', sub.id)
+        return { status: 'skipped', note: 'Subscription missing period dates' }
+      }
+
+      // Deliveries can arrive out of order. A stale event is dropped entirely
+      // so neither the row nor the downstream syncs roll back to older state.
+      let outcome = await applySubscriptionState(supabase, state, new Date(event.created * 1000))
+      if (outcome === 'tied') {
+        // Another event from the same second is already stored and the two
+        // can't be ordered, so write what Stripe holds now
+        const live = await stripe.subscriptions.retrieve(sub.id)
+        const fetchedAt = new Date()
+        const liveState = subscriptionStateFromStripe(live, user_id)
+        if (liveState) {
+          sub = live
+          state = liveState
+          outcome = await applySubscriptionState(supabase, liveState, fetchedAt)
+        }
+      }
+      if (outcome !== 'applied') {
+        console.log('[webhook] Skipping stale subscription event', event.id, 'for subscription', sub.id)
+        return { status: 'skipped', note: 'Superseded by newer subscription state' }
+      }
+      const normalizedStatus = state.status
+      const { cancel_at_period_end, canceled_at } = state
+      const cpeEpoch = Date.parse(state.current_period_end) / 1000
+      console.log('[webhook] Successfully upserted subscription for user:', user_id)
+
+      // ═══════════════════════════════════════════════════════════════════
+      // POSTHOG - Track subscription lifecycle events
+      // ═══════════════════════════════════════════════════════════════════
+      const posthog = getPostHogClient()
+      const priceIdForEvent = getSubscriptionPriceId(sub) || undefined
+
+      if (event.type === 'customer.subscription.created') {
+        posthog.capture({
+          distinctId: user_id,
+          event: 'subscription_created',
+          properties: {
+            subscription_id: sub.id,
+            status: normalizedStatus,
+            price_id: priceIdForEvent,
+            is_trialing: normalizedStatus === 'trialing',
+          },
+        })
+      } else if (event.type === 'customer.subscription.updated') {
+        posthog.capture({
+          distinctId: user_id,
+          event: 'subscription_updated',
+          properties: {
+            subscription_id: sub.id,
+            status: normalizedStatus,
+            price_id: priceIdForEvent,
+            cancel_at_period_end,
+          },
+        })
+      } else if (event.type === 'customer.subscription.deleted') {
+        posthog.capture({
+          distinctId: user_id,
+          event: 'subscription_cancelled',
+          properties: {
+            subscription_id: sub.id,
+            status: normalizedStatus,
+            price_id: priceIdForEvent,
+          },
+        })
+      }
+
+      // If the subscription includes a trial, persist trial metadata on the profile
+      try {
+        const trialStartEpoch = (sub as any)?.trial_start ?? null
+        const trialEndEpoch = (sub as any)?.trial_end ?? null
+        const profileUpdates: Record<string, any> = {}
+        if (normalizedStatus === 'trialing') {
+          profileUpdates.trial_used = true
+        }
+        if (typeof trialStartEpoch === 'number') {
+          profileUpdates.trial_started_at = new Date(Number(trialStartEpoch) * 1000).toISOString()
+        }
+        if (typeof trialEndEpoch === 'number') {
+          profileUpdates.trial_ends_at = new Date(Number(trialEndEpoch) * 1000).toISOString()
+        }
+        if (Object.keys(profileUpdates).length > 0) {
+          await supabase
+            .from('profiles')
+            .update(profileUpdates)
+            .eq('id', user_id)
+          console.log('[webhook] Updated profile trial fields for user', user_id, profileUpdates)
+        }
+      } catch (e) {
+        console.warn('[webhook] Failed to update profile trial fields', (e as any)?.message)
+      }
+
+      // ═══════════════════════════════════════════════════════════════════
+      // CUSTOMER.IO - Sync subscription lifecycle
+      // ═══════════════════════════════════════════════════════════════════
+      try {
+        // Fetch profile for email/name (may already be fetched below for BeeHiiv, but keep independent)
+        const { data: cioProfile } = await supabase
+          .from('profiles')
+          .select('email, first_name, last_name')
+          .eq('id', user_id)
+          .maybeSingle()
+
+        const planName = getPlanFromPriceId(priceIdForEvent) || 'free'
+
+        if (event.type === 'customer.subscription.created') {
+          const trialStart = (sub as any).trial_start
+            ? Math.floor((sub as any).trial_start)
+            : undefined
+          const trialEnd = (sub as any).trial_end
+            ? Math.floor((sub as any).trial_end)
+            : undefined
+
+          await identifyCustomer(user_id, {
+            email: cioProfile?.email || undefined,
+            first_name: cioProfile?.first_name || undefined,
+            last_name: cioProfile?.last_name || undefined,
+            plan_name: planName,
+            plan: planName,
+            subscription_status: normalizedStatus,
+            stripe_customer_id: String(sub.customer),
+            created_at: Math.floor(Date.now() / 1000),
+            ...(trialStart && { trial_start_date: trialStart }),
+            ...(trialEnd && { trial_end_date: trialEnd }),
+          })
+          await trackEvent(user_id, 'subscription_created', {
+            plan: planName,
+            plan_name: planName,
+            price_id: priceIdForEvent,
+            is_trial: normalizedStatus === 'trialing',
+            ...(trialEnd && { trial_end_date: new Date(trialEnd * 1000).toISOString() }),
+          })
+        } else if (event.type === 'customer.subscription.updated') {
+          // Detect plan change by comparing previous attributes
+          const previousAttrs = (event.data as any).previous_attributes
+          const oldPriceId = previousAttrs?.items?.data?.[0]?.price?.id
+          const oldPlan = oldPriceId ? (getPlanFromPriceId(oldPriceId) || 'free') : undefined
+          const oldStatus = previousAttrs?.status
+
+          await identifyCustomer(user_id, {
+            email: cioProfile?.email || undefined,
+            plan: planName,
+            plan_name: planName,
+            subscription_status: normalizedStatus,
+            cancel_at_period_end,
+          })
+          await trackEvent(user_id, 'subscription_updated', {
+            plan: planName,
+            plan_name: planName,
+            status: normalizedStatus,
+            cancel_at_period_end,
+            canceled_at,
+          })
+
+          // Track cancellation
+          if (normalizedStatus === 'canceled' && oldStatus !== 'canceled') {
+            await identifyCustomer(user_id, {
+              subscription_status: 'churned',
+              churned_at: Math.floor(Date.now() / 1000),
+            })
+            await trackEvent(user_id, 'subscription_canceled', {
+              plan: planName,
+              plan_name: planName,
+              price_id: priceIdForEvent,
+            })
+          }
+
+          // Track plan change (upgrade/downgrade)
+          if (oldPlan && oldPlan !== planName) {
+            await trackEvent(user_id, 'plan_changed', {
+              old_plan: oldPlan,
+              new_plan: planName,
+            })
+          }
+        } else if (event.type === 'customer.subscription.deleted') {
+          await identifyCustomer(user_id, {
+            subscription_status: 'churned',
+            plan: 'free',
+            plan_name: 'free',
+            churned_at: Math.floor(Date.now() / 1000),
+          })
+          await trackEvent(user_id, 'subscription_deleted', {
+            plan: planName,
+            plan_name: planName,
+            price_id: priceIdForEvent,
+          })
+        }
+      } catch (e) {
+        // Non-blocking — don't fail the webhook for Customer.io errors
+        console.error('[webhook] Customer.io sync error:', (e as any)?.message)
+      }
+
+      // Also persist the Stripe customer id on the profile for easy joins from invoice events
+      try {
+        await supabase
+          .from('profiles')
+          .update({ stripe_customer_id: String(sub.customer) })
+          .eq('id', user_id)
+      } catch (e) {
+        console.warn('[webhook] Failed to update profiles.stripe_customer_id', e)
+      }
+      
+      // ═══════════════════════════════════════════════════════════════════
+      // BEEHIIV SYNC - Update contact lifecycle based on subscription status
+      // ═══════════════════════════════════════════════════════════════════
+      const priceId = priceIdForEvent
+
+      // Sync to BeeHiiv for all subscriptions (will map price to plan)
+      try {
+        // Get customer email and name for BeeHiiv sync
+        let customerEmail: string | undefined
+        let firstName: string | undefined
+        let lastName: string | undefined
+
+        // First try to get email from our profile
+        const { data: profileData } = await supabase
+          .from('profiles')
+          .select('email, first_name, last_name')
+          .eq('id', user_id)
+          .maybeSingle()
+
+        customerEmail = profileData?.email || undefined
+        firstName = profileData?.first_name || undefined
+        lastName = profileData?.last_name || undefined
+
+        // Fallback: fetch from Stripe customer
+        if (!customerEmail && sub.customer) {
+          try {
+            const customer = await stripe.customers.retrieve(String(sub.customer))
+            if (customer && !customer.deleted && 'email' in customer) {
+              customerEmail = customer.email || undefined
+            }
+          } catch (e) {
+            console.warn('[webhook] Failed to fetch customer email from Stripe:', (e as any)?.message)
+          }
+        }
+
+        if (customerEmail) {
+          const beehiivSuccess = await syncSubscriptionToBeeHiiv({
+            email: customerEmail,
+            priceId,
+            status: normalizedStatus,
+            cancelAtPeriodEnd: cancel_at_period_end,
+            currentPeriodEnd: cpeEpoch,
+            trialEnd: (sub as any)?.trial_end ?? undefined,
+            firstName,
+            lastName,
+          })
+
+          if (beehiivSuccess) {
+            console.log('[webhook] BeeHiiv sync successful for subscription', sub.id)
+          } else {
+            console.warn('[webhook] BeeHiiv sync failed for subscription', sub.id)
+          }
+        } else {
+          console.warn('[webhook] No email found for BeeHiiv sync, subscription:', sub.id)
+        }
+      } catch (e) {
+        // Don't fail the webhook for BeeHiiv errors
+        console.error('[webhook] BeeHiiv sync error:', (e as any)?.message)
+      }
+      
+      break
+    }
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session
+      // Do not insert invoice placeholders here; rely on invoice.* events for accurate amounts/status
+
+      // Best-effort: store stripe_customer_id on profile from session
+      try {
+        if (session.customer && session.client_reference_id) {
+          await supabase
+            .from('profiles')
+            .update({ stripe_customer_id: String(session.customer) })
+            .eq('id', session.client_reference_id as string)
+        }
+      } catch {}
+
+      // Also upsert subscription immediately if present on the session
+      try {
+        if (session.subscription && session.client_reference_id) {
+          const s = await stripe.subscriptions.retrieve(session.subscription as string)
+          const subUserId = session.client_reference_id as string
+          const fetchedAt = new Date()
+          const state = subscriptionStateFromStripe(s, subUserId)
+          if (!state) {
+            console.warn('[webhook] Subscription from checkout.session missing period dates; skipping upsert')
+          } else {
+            const normalizedStatus = state.status
+            const { cancel_at_period_end, price_id: priceId } = state
+            const cpeRaw = Date.parse(state.current_period_end) / 1000
+
+            // Live state, so stamp it with the fetch time rather than event.created
+            await applySubscriptionState(supabase, state, fetchedAt)
+            console.log('[webhook] Upserted subscription from checkout.session for user', subUserId)
+            
+            // ═══════════════════════════════════════════════════════════════════
+            // CUSTOMER.IO - Identify user on checkout completion
+            // ═══════════════════════════════════════════════════════════════════
+            try {
+              const { data: cioProfile } = await supabase
+                .from('profiles')
+                .select('email, first_name, last_name')
+                .eq('id', subUserId)
+                .maybeSingle()
+
+              const checkoutPlan = getPlanFromPriceId(priceId) || 'free'
+              await identifyCustomer(subUserId, {
+                email: cioProfile?.email || session.customer_email || undefined,
+                first_name: cioProfile?.first_name || undefined,
+                last_name: cioProfile?.last_name || undefined,
+                plan: checkoutPlan,
+                subscription_status: normalizedStatus,
+                stripe_customer_id: String(s.customer),
+              })
+              await trackEvent(subUserId, 'checkout_completed', {
+                plan: checkoutPlan,
+                price_id: priceId,
+                is_trial: normalizedStatus === 'trialing',
+              })
+            } catch (e) {
+              console.error('[webhook] Customer.io checkout sync error:', (e as any)?.message)
+            }
+
+            // ═══════════════════════════════════════════════════════════════════
+            // BEEHIIV SYNC - Update contact lifecycle from checkout completion
+            // ═══════════════════════════════════════════════════════════════════
+            try {
+              // Get customer email and name - prefer session.customer_email, fallback to Stripe customer
+              let customerEmail = session.customer_email || undefined
+              let firstName: string | undefined
+              let lastName: string | undefined
+
+              if (!customerEmail) {
+                // Try profile
+                const { data: profileData } = await supabase
+                  .from('profiles')
+                  .select('email, first_name, last_name')
+                  .eq('id', subUserId)
+                  .maybeSingle()
+                customerEmail = profileData?.email || undefined
+                firstName = profileData?.first_name || undefined
+                lastName = profileData?.last_name || undefined
+              }
+
+              if (!customerEmail && s.customer) {
+                const customer = await stripe.customers.retrieve(String(s.customer))
+                if (customer && !customer.deleted && 'email' in customer) {
+                  customerEmail = customer.email || undefined
+                }
+              }
+
+              if (customerEmail) {
+                const beehiivSuccess = await syncSubscriptionToBeeHiiv({
+                  email: customerEmail,
+                  priceId,
+                  status: normalizedStatus,
+                  cancelAtPeriodEnd: cancel_at_period_end,
+                  currentPeriodEnd: cpeRaw,
+                  trialEnd: (s as any)?.trial_end ?? undefined,
+                  firstName,
+                  lastName,
+                })
+
+                if (beehiivSuccess) {
+                  console.log('[webhook] BeeHiiv sync successful from checkout.session')
+                } else {
+                  console.warn('[webhook] BeeHiiv sync failed from checkout.session')
+                }
+              }
+            } catch (e) {
+              console.error('[webhook] BeeHiiv sync error from checkout.session:', (e as any)?.message)
+            }
+          }
+        }
+      } catch (e) {
+        console.warn('[webhook] Failed to upsert subscription from checkout.session', (e as any)?.message)
+      }
+      break
+    }
+    case 'invoice.paid':
+    case 'invoice.payment_succeeded':
+    case 'invoice.finalized':
+    case 'invoice.created': {
+      const inv = event.data.object as Stripe.Invoice
+      // Resolve the application user id from the Stripe customer id on the profile
+      let user_id: string | null = null
+      const customerId = inv.customer ? String(inv.customer) : null
+      if (customerId) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('stripe_customer_id', customerId)
+          .maybeSingle()
+        user_id = profile?.id ?? null
+      }
+
+      // Fallback: try to resolve via subscriptions table by stripe_customer_id
+      if (!user_id && customerId) {
+        const { data: subLookup } = await supabase
+          .schema('billing')
+          .from('subscriptions')
+          .select('user_id')
+          .eq('stripe_customer_id', customerId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        user_id = subLookup?.user_id ?? null
+      }
+
+      if (!user_id) {
+        console.warn('[webhook] Skipping invoice upsert; could not resolve user_id for customer', customerId)
+        return { status: 'skipped', note: 'Could not resolve user for invoice' }
+      }
+
+      const { error: invError } = await supabase
+        .schema('billing')
+        .from('invoices')
+        .upsert({
+        user_id,
+        stripe_invoice_id: inv.id,
+        amount_due: inv.amount_due,
+        amount_paid: inv.amount_paid,
+        currency: inv.currency,
+        status: inv.status,
+        hosted_invoice_url: (inv.hosted_invoice_url as string) ?? null,
+        created_at: new Date(inv.created * 1000).toISOString(),
+      }, { onConflict: 'stripe_invoice_id' })
+
+      if (invError) {
+        throw new Error(`Failed to upsert invoice ${inv.id}: ${invError.message}`)
+      }
+      console.log('[webhook] Upserted invoice', inv.id, 'for user', user_id)
+      break
+    }
+    default:
+      // Unhandled event type
+      console.log('[webhook] Unhandled event type:', event.type)
+      return { status: 'skipped', note: 'Unhandled event type' }
+  }
+  return { status: 'processed' }
+}
@@ -0,0 +1,266 @@
+/**
+ * Closing Line Capture
+ *
+ * Snapshots the fair closing price for favorites whose event is about to
+ * start. Runs on every tick of the capture-closing-lines cron and overwrites
+ * the previous snapshot until the event goes live, so the stored value is the
+ * last pregame price. Once every leg of a placed betslip has a close, the
+ * slip's closing_odds (product of leg fair closes) and CLV are written too.
+ */
+
+import { redis } from "@/lib/redis";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { americanToDecimal, decimalToAmerican } from "@/lib/ev/devig";
+import { computeCLVPercent } from "@/lib/line-history/utils";
+import { getMarketOddsPattern, normalizeFavoriteOddsKey, type SSEBookSelections } from "@/lib/odds/types";
+import { computeClosingLine, resolveClosingLinePreferences } from "./closing-line";
+import type { CaptureRunSummary, ClosingLinePreferences } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** How far ahead of start_time a favorite becomes eligible for capture */
+export const CLOSING_WINDOW_MINUTES = 15;
+
+interface CaptureFavoriteRow {
+  id: string;
+  user_id: string;
+  sport: string;
+  event_id: string;
+  market: string;
+  odds_key: string | null;
+  player_name: string | null;
+  line: number | null;
+  side: string;
+  best_price_at_save: number | null;
+}
+
+interface SlipClosingRow {
+  id: string;
+  placed_odds: number | null;
+  items: Array<{ favorite: { closing_fair_prob: number | null } | null }> | null;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Scan Redis keys with pattern
+ */
+async function scanKeys(pattern: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = "0";
+
+  do {
+    const result: [string, string[]] = await redis.scan(cursor, {
+      match: pattern,
+      count: 100,
+    });
+    cursor = result[0];
+    keys.push(...result[1]);
+  } while (cursor !== "0");
+
+  return keys;
+}
+
+/**
+ * Load every book's selections for a market odds key (`odds:{sport}:{eventId}:{market}`).
+ */
+export async function fetchMarketBookSelections(oddsKey: string): Promise<Record<string, SSEBookSelections>> {
+  const [, sport, eventId, market] = oddsKey.split(":");
+  const bookKeys = await scanKeys(getMarketOddsPattern(sport, eventId, market));
+  if (bookKeys.length === 0) return {};
+
+  const raw = await redis.mget<(string | SSEBookSelections | null)[]>(...bookKeys);
+  const bookSelections: Record<string, SSEBookSelections> = {};
+  bookKeys.forEach((key, i) => {
+    const data = raw[i];
+    if (!data) return;
+    bookSelections[key.split(":").pop()!] = typeof data === "string" ? JSON.parse(data) : data;
+  });
+  return bookSelections;
+}
+
+async function loadPreferences(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, ClosingLinePreferences>> {
+  const prefs = new Map<string, ClosingLinePreferences>();
+  if (userIds.length === 0) return prefs;
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("id, positive_ev_sharp_preset, positive_ev_devig_methods")
+    .in("id", userIds);
+
+  if (error) {
+    console.error("[clv/capture] Failed to load preferences:", error.message);
+  }
+  for (const row of data || []) {
+    prefs.set(row.id, resolveClosingLinePreferences(row));
+  }
+  return prefs;
+}
+
+async function isEventLive(sport: string, eventId: string): Promise<boolean> {
+  try {
+    const event = await redis.get<{ is_live?: boolean }>(`events:${sport}:${eventId}`);
+    return event?.is_live === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Price a parlay's fair close as the product of its legs' fair closes.
+ * Returns null until every leg has been captured.
+ */
+export function combineLegClosingProbs(probs: Array<number | null | undefined>): number | null {
+  if (probs.length === 0) return null;
+  let decimal = 1;
+  for (const prob of probs) {
+    if (prob == null || !(prob > 0 && prob < 1)) return null;
+    decimal *= 1 / prob;
+  }
+  return decimalToAmerican(decimal);
+}
+
+async function updateBetslipClosingLines(supabase: SupabaseClient, favoriteIds: string[]): Promise<number> {
+  if (favoriteIds.length === 0) return 0;
+
+  const { data: itemRows, error: itemError } = await supabase
+    .from("user_betslip_items")
+    .select("betslip_id")
+    .in("favorite_id", favoriteIds);
+  if (itemError) throw itemError;
+
+  const slipIds = [...new Set((itemRows || []).map((row) => row.betslip_id as string))];
+  if (slipIds.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("user_betslips")
+    .select("id, placed_odds, items:user_betslip_items(favorite:user_favorites(closing_fair_prob))")
+    .in("id", slipIds)
+    .eq("status", "placed");
+  if (error) throw error;
+
+  let updated = 0;
+  for (const slip of (data || []) as unknown as SlipClosingRow[]) {
+    const closingOdds = combineLegClosingProbs(
+      (slip.items || []).map((item) => item.favorite?.closing_fair_prob ?? null)
+    );
+    if (closingOdds === null) continue;
+
+    const clv = computeCLVPercent(slip.placed_odds, closingOdds);
+    const { error: updateError } = await supabase
+      .from("user_betslips")
+      .update({
+        closing_odds: closingOdds,
+        clv_percent: clv !== null ? roundTo(clv, 2) : null,
+      })
+      .eq("id", slip.id);
+
+    if (updateError) {
+      console.error(`[clv/capture] Failed to update betslip ${slip.id}:`, updateError.message);
+      continue;
+    }
+    updated++;
+  }
+  return updated;
+}
+
+export async function captureClosingLines(
+  supabase: SupabaseClient,
+  options: { windowMinutes?: number; limit?: number } = {}
+): Promise<CaptureRunSummary> {
+  const summary: CaptureRunSummary = { checked: 0, captured: 0, unpriced: 0, betslips_updated: 0 };
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + (options.windowMinutes ?? CLOSING_WINDOW_MINUTES) * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from("user_favorites")
+    .select("id, user_id, sport, event_id, market, odds_key, player_name, line, side, best_price_at_save")
+    .gt("start_time", now.toISOString())
+    .lte("start_time", windowEnd.toISOString())
+    .limit(options.limit ?? 2000);
+
+  if (error) throw error;
+
+  const favorites = (data || []) as CaptureFavoriteRow[];
+  summary.checked = favorites.length;
+  if (favorites.length === 0) return summary;
+
+  const prefsByUser = await loadPreferences(supabase, [...new Set(favorites.map((f) => f.user_id))]);
+
+  const byOddsKey = new Map<string, CaptureFavoriteRow[]>();
+  for (const fav of favorites) {
+    const oddsKey = normalizeFavoriteOddsKey({
+      oddsKey: fav.odds_key,
+      sport: fav.sport,
+      eventId: fav.event_id,
+      market: fav.market,
+    });
+    if (!oddsKey) {
+      summary.unpriced++;
+      continue;
+    }
+    const group = byOddsKey.get(oddsKey);
+    if (group) group.push(fav);
+    else byOddsKey.set(oddsKey, [fav]);
+  }
+
+  const liveEvents = new Map<string, boolean>();
+  const capturedIds: string[] = [];
+  const capturedAt = now.toISOString();
+
+  for (const [oddsKey, favs] of byOddsKey) {
+    const { sport, event_id } = favs[0];
+    const eventKey = `${sport}:${event_id}`;
+    if (!liveEvents.has(eventKey)) liveEvents.set(eventKey, await isEventLive(sport, event_id));
+    // Live prices aren't a close — keep the last pregame snapshot
+    if (liveEvents.get(eventKey)) continue;
+
+    let bookSelections: Record<string, SSEBookSelections>;
+    try {
+      bookSelections = await fetchMarketBookSelections(oddsKey);
+    } catch (err) {
+      console.error(`[clv/capture] Redis error for ${oddsKey}:`, err);
+      summary.unpriced += favs.length;
+      continue;
+    }
+
+    for (const fav of favs) {
+      const prefs = prefsByUser.get(fav.user_id) ?? resolveClosingLinePreferences(null);
+      const snapshot = computeClosingLine(bookSelections, fav, prefs);
+      if (!snapshot) {
+        summary.unpriced++;
+        continue;
+      }
+
+      const clv = computeCLVPercent(fav.best_price_at_save, snapshot.fair_odds);
+      const { error: updateError } = await supabase
+        .from("user_favorites")
+        .update({
+          closing_fair_odds: snapshot.fair_odds,
+          closing_fair_prob: roundTo(snapshot.fair_prob, 5),
+          closing_best_price: snapshot.best_price,
+          closing_best_book: snapshot.best_book,
+          closing_sharp_preset: snapshot.basis === "sharp" ? snapshot.sharp_preset : "market_average",
+          closing_captured_at: capturedAt,
+          clv_percent: clv !== null ? roundTo(clv, 2) : null,
+        })
+        .eq("id", fav.id);
+
+      if (updateError) {
+        console.error(`[clv/capture] Failed to update favorite ${fav.id}:`, updateError.message);
+        continue;
+      }
+      summary.captured++;
+      capturedIds.push(fav.id);
+    }
+  }
+
+  summary.betslips_updated = await updateBetslipClosingLines(supabase, capturedIds);
+  return summary;
+}
@@ -0,0 +1,186 @@
+/**
+ * Closing Line
+ *
+ * Prices the fair (no-vig) close for one side of a market from the raw
+ * per-book Redis selections. Two-way prices from the user's SharpPreset books
+ * are de-vigged with devigMultiple (averaged across the selected methods) and
+ * blended by preset weight. When none of the preset books quote both sides,
+ * every two-way book is averaged instead so the close is still captured.
+ */
+
+import { ALL_DEVIG_METHODS, POSITIVE_EV_DEFAULTS, SHARP_PRESETS } from "@/lib/ev/constants";
+import { devigMultiple, impliedProbToAmerican } from "@/lib/ev/devig";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import { normalizePlayerName, type SSEBookSelections, type SSESelection } from "@/lib/odds/types";
+import type { ClosingLinePreferences, ClosingLineSnapshot } from "./types";
+
+/** The side of a market a favorite was saved on */
+export interface ClosingLineTarget {
+  player_name: string | null;
+  line: number | null;
+  side: string;
+}
+
+interface TwoWayQuote {
+  book: string;
+  price: number;
+  oppositePrice: number;
+}
+
+const OPPOSITE_SIDE: Record<string, string> = {
+  over: "under",
+  under: "over",
+  yes: "no",
+  no: "yes",
+};
+
+function parsePrice(price: string): number {
+  return parseInt(price.replace("+", ""), 10);
+}
+
+function matchesEntity(selection: SSESelection, normalizedName: string): boolean {
+  if (!normalizedName) return true;
+  const selectionName = normalizePlayerName(selection.player || "");
+  return selectionName.includes(normalizedName) || normalizedName.includes(selectionName);
+}
+
+/**
+ * Resolve the user's +EV preferences into a closing-line config,
+ * dropping unknown presets/methods in favor of the tool defaults.
+ */
+export function resolveClosingLinePreferences(
+  prefs: { positive_ev_sharp_preset?: string | null; positive_ev_devig_methods?: string[] | null } | null
+): ClosingLinePreferences {
+  const preset = prefs?.positive_ev_sharp_preset;
+  const methods = (prefs?.positive_ev_devig_methods || []).filter((m): m is DevigMethod =>
+    ALL_DEVIG_METHODS.includes(m as DevigMethod)
+  );
+
+  return {
+    sharpPreset: preset && preset in SHARP_PRESETS ? (preset as SharpPreset) : POSITIVE_EV_DEFAULTS.sharpPreset,
+    devigMethods: methods.length > 0 ? methods : [...POSITIVE_EV_DEFAULTS.devigMethods],
+  };
+}
+
+/**
+ * The selection on the other side of `mine` within one book's selections.
+ *
+ * Over/under and yes/no markets pair on the same entity and line. Team sides
+ * (moneyline, spread) pair with the other team's selection, mirrored line for spreads.
+ */
+export function findOppositeSelection(all: SSESelection[], mine: SSESelection): SSESelection | undefined {
+  const oppositeSide = OPPOSITE_SIDE[mine.side];
+  if (oppositeSide) {
+    const normalizedName = normalizePlayerName(mine.player || "");
+    return all.find(
+      (sel) => sel.side === oppositeSide && sel.line === mine.line && matchesEntity(sel, normalizedName)
+    );
+  }
+  return all.find(
+    (sel) =>
+      sel.side === mine.side &&
+      sel.player !== mine.player &&
+      (mine.side !== "spread" || sel.line === -mine.line)
+  );
+}
+
+/**
+ * Find this side and the opposing side at a single book.
+ */
+function findTwoWayQuote(
+  book: string,
+  selections: SSEBookSelections,
+  target: ClosingLineTarget
+): TwoWayQuote | null {
+  const normalizedName = normalizePlayerName(target.player_name || "");
+  const all = Object.values(selections).filter((sel): sel is SSESelection => !!sel && !sel.locked);
+
+  const mine = all.find(
+    (sel) =>
+      sel.side === target.side &&
+      (target.line === null || sel.line === target.line) &&
+      matchesEntity(sel, normalizedName)
+  );
+  if (!mine) return null;
+
+  const opposite = findOppositeSelection(all, mine);
+  if (!opposite) return null;
+
+  const price = parsePrice(mine.price);
+  const oppositePrice = parsePrice(opposite.price);
+  if (!Number.isFinite(price) || !Number.isFinite(oppositePrice)) return null;
+
+  return { book, price, oppositePrice };
+}
+
+/**
+ * Mean fair probability for "this" side across the selected de-vig methods.
+ */
+function devigQuote(quote: TwoWayQuote, methods: DevigMethod[]): number | null {
+  const results = Object.values(devigMultiple(quote.price, quote.oppositePrice, methods)).filter(
+    (r) => r?.success
+  );
+  if (results.length === 0) return null;
+  return results.reduce((sum, r) => sum + r!.fairProbOver, 0) / results.length;
+}
+
+/**
+ * Price the fair close for a favorite's side from per-book selections.
+ * Returns null when no book quotes both sides.
+ */
+export function computeClosingLine(
+  bookSelections: Record<string, SSEBookSelections>,
+  target: ClosingLineTarget,
+  prefs: ClosingLinePreferences
+): ClosingLineSnapshot | null {
+  const quotes: TwoWayQuote[] = [];
+  let bestPrice: number | null = null;
+  let bestBook: string | null = null;
+
+  for (const [book, selections] of Object.entries(bookSelections)) {
+    const quote = findTwoWayQuote(book, selections, target);
+    if (!quote) continue;
+    quotes.push(quote);
+    if (bestPrice === null || quote.price > bestPrice) {
+      bestPrice = quote.price;
+      bestBook = book;
+    }
+  }
+
+  if (quotes.length === 0) return null;
+
+  const presetBooks = SHARP_PRESETS[prefs.sharpPreset]?.books ?? [];
+  const weighted: { book: string; prob: number; weight: number }[] = [];
+
+  for (const { bookId, weight } of presetBooks) {
+    const quote = quotes.find((q) => q.book === bookId);
+    if (!quote) continue;
+    const prob = devigQuote(quote, prefs.devigMethods);
+    if (prob !== null) weighted.push({ book: bookId, prob, weight });
+  }
+
+  const basis = weighted.length > 0 ? "sharp" : "market_average";
+  if (weighted.length === 0) {
+    for (const quote of quotes) {
+      const prob = devigQuote(quote, prefs.devigMethods);
+      if (prob !== null) weighted.push({ book: quote.book, prob, weight: 1 });
+    }
+  }
+  if (weighted.length === 0) return null;
+
+  // Re-normalize weights over the books that actually quoted both sides
+  const totalWeight = weighted.reduce((sum, w) => sum + w.weight, 0);
+  const fairProb = weighted.reduce((sum, w) => sum + w.prob * w.weight, 0) / totalWeight;
+  if (!(fairProb > 0 && fairProb < 1)) return null;
+
+  return {
+    fair_prob: fairProb,
+    fair_odds: impliedProbToAmerican(fairProb),
+    best_price: bestPrice,
+    best_book: bestBook,
+    sharp_preset: prefs.sharpPreset,
+    devig_methods: prefs.devigMethods,
+    basis,
+    books: weighted.map((w) => w.book),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * CLV Library
+ *
+ * Captures the sharp/blended fair closing price for favorites and placed
+ * betslips at event start, and reports closing line value over them.
+ */
+
+// Types
+export type {
+  ClosingLineBasis,
+  ClosingLineSnapshot,
+  FavoriteClosingLine,
+  ClosingLinePreferences,
+  CaptureRunSummary,
+  CLVReportDimension,
+  CLVBucket,
+  CLVHistogramBin,
+  CLVEntryRecord,
+  CLVReport,
+} from "./types";
+
+// Closing line pricing
+export { computeClosingLine, resolveClosingLinePreferences } from "./closing-line";
+export type { ClosingLineTarget } from "./closing-line";
+
+// Capture (server)
+export {
+  CLOSING_WINDOW_MINUTES,
+  captureClosingLines,
+  combineLegClosingProbs,
+  fetchMarketBookSelections,
+} from "./capture";
+
+// Report
+export { toCLVEntryRecords, buildCLVBucket, groupCLV, buildCLVHistogram, buildCLVReport } from "./report";
+export type { CLVFavoriteRow } from "./report";
@@ -0,0 +1,115 @@
+/**
+ * CLV Report
+ *
+ * "How good are my entries": CLV distribution and breakdowns over every
+ * favorite whose close was captured, whether or not it was bet.
+ */
+
+import { getBetOrigin } from "@/lib/bankroll/analytics";
+import type { CLVBucket, CLVEntryRecord, CLVHistogramBin, CLVReport, CLVReportDimension } from "./types";
+
+/** CLV % bin edges for the histogram; outer bins are open-ended */
+const HISTOGRAM_EDGES = [-10, -5, -2, 0, 2, 5, 10];
+
+export interface CLVFavoriteRow {
+  id: string;
+  sport: string;
+  market: string;
+  source: string | null;
+  best_book_at_save: string | null;
+  closing_captured_at: string | null;
+  clv_percent: number | null;
+}
+
+export function toCLVEntryRecords(rows: CLVFavoriteRow[]): CLVEntryRecord[] {
+  const records: CLVEntryRecord[] = [];
+  for (const row of rows) {
+    if (row.clv_percent === null || !row.closing_captured_at) continue;
+    records.push({
+      favorite_id: row.id,
+      captured_at: row.closing_captured_at,
+      sport: row.sport,
+      market: row.market,
+      book: row.best_book_at_save || "unknown",
+      source: getBetOrigin(row.source),
+      clv: Number(row.clv_percent),
+    });
+  }
+  return records;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function buildCLVBucket(key: string, values: number[]): CLVBucket {
+  if (values.length === 0) {
+    return { key, entries: 0, avg_clv: 0, median_clv: 0, beat_close_rate: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, v) => acc + v, 0);
+  return {
+    key,
+    entries: sorted.length,
+    avg_clv: round(sum / sorted.length),
+    median_clv: round(median(sorted)),
+    beat_close_rate: round((sorted.filter((v) => v > 0).length / sorted.length) * 100, 1),
+  };
+}
+
+const DIMENSION_KEY: Record<CLVReportDimension, (record: CLVEntryRecord) => string> = {
+  sport: (r) => r.sport,
+  market: (r) => r.market,
+  book: (r) => r.book,
+  source: (r) => r.source,
+};
+
+export function groupCLV(records: CLVEntryRecord[], dimension: CLVReportDimension): CLVBucket[] {
+  const groups = new Map<string, number[]>();
+  const getKey = DIMENSION_KEY[dimension];
+  for (const record of records) {
+    const key = getKey(record);
+    const group = groups.get(key);
+    if (group) group.push(record.clv);
+    else groups.set(key, [record.clv]);
+  }
+  return [...groups.entries()]
+    .map(([key, values]) => buildCLVBucket(key, values))
+    .sort((a, b) => b.entries - a.entries);
+}
+
+export function buildCLVHistogram(values: number[]): CLVHistogramBin[] {
+  const bins: CLVHistogramBin[] = [];
+  const edges = [-Infinity, ...HISTOGRAM_EDGES, Infinity];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const from = edges[i];
+    const to = edges[i + 1];
+    bins.push({ from, to, count: values.filter((v) => v >= from && v < to).length });
+  }
+  return bins;
+}
+
+export function buildCLVReport(
+  records: CLVEntryRecord[],
+  options: { betslipClv?: number[]; unpriced?: number } = {}
+): CLVReport {
+  const values = records.map((r) => r.clv);
+  const betslipClv = options.betslipClv ?? [];
+
+  return {
+    overall: buildCLVBucket("all", values),
+    betslips: betslipClv.length > 0 ? buildCLVBucket("betslips", betslipClv) : null,
+    by_sport: groupCLV(records, "sport"),
+    by_market: groupCLV(records, "market"),
+    by_book: groupCLV(records, "book"),
+    by_source: groupCLV(records, "source"),
+    histogram: buildCLVHistogram(values),
+    unpriced: options.unpriced ?? 0,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * CLV Types
+ *
+ * Closing-line snapshots for favorites and placed betslips, and the
+ * aggregate "how good are my entries" report built on top of them.
+ */
+
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import type { LineHistorySource } from "@/lib/odds/line-history";
+
+/**
+ * Which price feeds the fair close:
+ * - sharp: the user's SharpPreset books (single book or weighted blend)
+ * - market_average: every book quoting both sides (preset fallback)
+ */
+export type ClosingLineBasis = "sharp" | "market_average";
+
+/**
+ * De-vigged closing price for one side of a market, captured at event start.
+ */
+export interface ClosingLineSnapshot {
+  /** Fair (no-vig) probability for the favorited side (0-1) */
+  fair_prob: number;
+  /** Fair probability as American odds */
+  fair_odds: number;
+  /** Best price offered for this side at close */
+  best_price: number | null;
+  best_book: string | null;
+  sharp_preset: SharpPreset;
+  devig_methods: DevigMethod[];
+  basis: ClosingLineBasis;
+  /** Books whose two-way prices fed the fair close */
+  books: string[];
+}
+
+/**
+ * Closing-line columns on user_favorites
+ */
+export interface FavoriteClosingLine {
+  closing_fair_odds: number | null;
+  closing_fair_prob: number | null;
+  closing_best_price: number | null;
+  closing_best_book: string | null;
+  closing_sharp_preset: string | null;
+  closing_captured_at: string | null;
+  clv_percent: number | null;
+}
+
+/**
+ * Which sharp reference a user prices their closes against
+ * (from user_preferences.positive_ev_*)
+ */
+export interface ClosingLinePreferences {
+  sharpPreset: SharpPreset;
+  devigMethods: DevigMethod[];
+}
+
+export interface CaptureRunSummary {
+  checked: number;
+  captured: number;
+  unpriced: number;
+  betslips_updated: number;
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+export type CLVReportDimension = "sport" | "market" | "book" | "source";
+
+export interface CLVBucket {
+  key: string;
+  entries: number;
+  avg_clv: number;
+  median_clv: number;
+  /** Share of entries priced better than the fair close (%) */
+  beat_close_rate: number;
+}
+
+export interface CLVHistogramBin {
+  /** Lower bound of the CLV % bin (inclusive) */
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface CLVEntryRecord {
+  favorite_id: string;
+  captured_at: string;
+  sport: string;
+  market: string;
+  book: string;
+  source: LineHistorySource;
+  clv: number;
+}
+
+export interface CLVReport {
+  overall: CLVBucket;
+  /** Placed betslips (parlays priced as the product of leg closes) */
+  betslips: CLVBucket | null;
+  by_sport: CLVBucket[];
+  by_market: CLVBucket[];
+  by_book: CLVBucket[];
+  by_source: CLVBucket[];
+  histogram: CLVHistogramBin[];
+  /** Favorites whose event started but no fair close could be priced */
+  unpriced: number;
+}
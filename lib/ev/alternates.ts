@@ -0,0 +1,247 @@
+/**
+ * Alternate-line +EV scanner (server)
+ *
+ * The worker only prices lines where a sharp book quotes both sides, which
+ * leaves most alternate player-prop lines without a fair price. Here every
+ * sharp two-way quote on a player's stat is fitted into a fair curve (see
+ * ./fair-curve) and the soft books' alternate lines are scored against the
+ * curve at lines the sharps don't quote two-way themselves.
+ */
+
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { getSportsbookById, normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import { getMarketDisplay, type SSEEvent, type SSESelection } from "@/lib/odds/types";
+import { EV_THRESHOLDS, SHARP_BOOKS, SHARP_PRESETS, getMultiWayMarketConfig } from "./constants";
+import { americanToDecimal, calculateMultiWayEV } from "./devig";
+import { fairLinePrice, fitFairCurveFromQuotes, type FairCurveQuote } from "./fair-curve";
+import type { BookOffer, CustomSharpConfig, PositiveEVOpportunity, SharpPreset } from "./types";
+
+export interface AlternateScanOptions {
+  sharpPreset: SharpPreset;
+  customSharpConfig?: CustomSharpConfig | null;
+  minEV?: number;
+  maxEV?: number;
+  /** Only surface prices at these books */
+  books?: string[] | null;
+  /** Base stat markets (alternates are folded into their base market) */
+  markets?: string[] | null;
+  now?: number;
+}
+
+interface LineQuotes {
+  over: Map<string, SSESelection>;
+  under: Map<string, SSESelection>;
+  main: Set<string>;
+}
+
+interface PlayerStat {
+  ev: SSEEvent;
+  market: string;
+  playerId: string;
+  player: string;
+  team: string;
+  lines: Map<number, LineQuotes>;
+}
+
+function parsePrice(price: string | undefined): number {
+  return parseInt(String(price ?? "").replace("+", ""), 10);
+}
+
+function baseMarket(market: string): string {
+  return market.replace(/_alternate$/, "");
+}
+
+function toBookOffer(bookId: string, sel: SSESelection, price: number): BookOffer {
+  return {
+    bookId,
+    bookName: getSportsbookById(bookId)?.name ?? bookId,
+    price,
+    priceDecimal: americanToDecimal(price),
+    link: sel.link || null,
+    mobileLink: sel.mobile_link ?? null,
+    sgp: sel.sgp,
+    limits: sel.limits,
+    updated: sel.updated,
+    oddId: sel.odd_id,
+  };
+}
+
+/**
+ * Books the curve is fitted from. Weights don't apply (every sharp quote is
+ * one point); a preset without books falls back to the default sharp set.
+ */
+function getReferenceBooks(options: AlternateScanOptions): string[] {
+  if (options.customSharpConfig) {
+    return options.customSharpConfig.books.map(normalizeSportsbookId);
+  }
+  const preset = (SHARP_PRESETS[options.sharpPreset]?.books ?? []).filter((b) => b.weight > 0);
+  return preset.length > 0
+    ? preset.map((b) => normalizeSportsbookId(b.bookId))
+    : Object.keys(SHARP_BOOKS).map(normalizeSportsbookId);
+}
+
+async function collectPlayerStats(sport: string, options: AlternateScanOptions): Promise<PlayerStat[]> {
+  const events = await getUpcomingEvents(sport, { now: options.now });
+  if (events.length === 0) return [];
+
+  const eventsById = new Map(events.map((ev) => [ev.event_id, ev]));
+  const odds = (await getOddsCache().getOddsForSport(sport, events.map((ev) => ev.event_id))) as unknown as Map<string, unknown>;
+  const marketFilter = options.markets && options.markets.length > 0 ? new Set(options.markets.map(baseMarket)) : null;
+  const stats = new Map<string, PlayerStat>();
+
+  for (const [key, value] of odds) {
+    // odds:{sport}:{eid}:{market}:{book}
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, rawMarket, rawBook] = parts;
+    const ev = eventsById.get(eid);
+    const market = baseMarket(rawMarket);
+    if (!ev || getMultiWayMarketConfig(sport, market) || (marketFilter && !marketFilter.has(market))) continue;
+
+    const selections = parseBookSelections(value);
+    if (!selections) continue;
+    const book = normalizeSportsbookId(rawBook);
+
+    for (const sel of Object.values(selections)) {
+      if (!sel || sel.locked || !sel.player_id) continue;
+      if (sel.side !== "over" && sel.side !== "under") continue;
+      const price = parsePrice(sel.price);
+      if (!Number.isFinite(price) || price === 0 || !Number.isFinite(sel.line)) continue;
+
+      const statKey = `${eid}:${market}:${sel.player_id}`;
+      let stat = stats.get(statKey);
+      if (!stat) {
+        stat = { ev, market, playerId: sel.player_id, player: sel.player, team: sel.team, lines: new Map() };
+        stats.set(statKey, stat);
+      }
+      let line = stat.lines.get(sel.line);
+      if (!line) {
+        line = { over: new Map(), under: new Map(), main: new Set() };
+        stat.lines.set(sel.line, line);
+      }
+      line[sel.side].set(book, sel);
+      if (sel.main) line.main.add(book);
+    }
+  }
+
+  return [...stats.values()];
+}
+
+/**
+ * +EV alternate player-prop lines in one sport, priced off the fitted sharp
+ * curve, best book per line and side
+ */
+export async function findAlternateLineOpportunities(
+  sport: string,
+  options: AlternateScanOptions
+): Promise<PositiveEVOpportunity[]> {
+  const minEV = options.minEV ?? 0;
+  const maxEV = options.maxEV ?? EV_THRESHOLDS.maximum;
+  const bookFilter = options.books && options.books.length > 0
+    ? new Set(options.books.map(normalizeSportsbookId))
+    : null;
+  const refBooks = getReferenceBooks(options);
+  const refIds = new Set(refBooks);
+  const preset: SharpPreset = options.customSharpConfig ? "custom" : options.sharpPreset;
+  const timestamp = new Date().toISOString();
+
+  const stats = await collectPlayerStats(sport, options);
+  const opportunities: PositiveEVOpportunity[] = [];
+
+  for (const stat of stats) {
+    const quotes: FairCurveQuote[] = [];
+    for (const [line, q] of stat.lines) {
+      for (const book of new Set([...q.over.keys(), ...q.under.keys()])) {
+        quotes.push({
+          line,
+          book,
+          over: q.over.has(book) ? parsePrice(q.over.get(book)!.price) : null,
+          under: q.under.has(book) ? parsePrice(q.under.get(book)!.price) : null,
+          main: q.main.has(book),
+        });
+      }
+    }
+
+    const curve = fitFairCurveFromQuotes(quotes, stat.market, refBooks);
+    if (!curve) continue;
+    const sharpLines = new Set(curve.points.map((p) => p.line));
+    const sharpSources = [...new Set(curve.points.flatMap((p) => p.books))];
+
+    for (const [line, q] of stat.lines) {
+      // Lines the sharps quote two-way are already covered by the main feed
+      if (sharpLines.has(line)) continue;
+
+      const fair = fairLinePrice(curve, line);
+      const decided = 1 - fair.push_prob;
+      if (decided <= 0 || fair.fair_over_odds == null || fair.fair_under_odds == null) continue;
+
+      for (const side of ["over", "under"] as const) {
+        const fairProb = (side === "over" ? fair.over_prob : fair.under_prob) / decided;
+        const allBooks: BookOffer[] = [];
+        let best: { offer: BookOffer; evCalculations: ReturnType<typeof calculateMultiWayEV> } | null = null;
+
+        for (const [bookId, sel] of q[side]) {
+          const offer = toBookOffer(bookId, sel, parsePrice(sel.price));
+          const evCalculations = calculateMultiWayEV({ power: fairProb }, offer);
+          const isSharpRef = refIds.has(bookId);
+          offer.evPercent = evCalculations.evDisplay;
+          offer.isSharpRef = isSharpRef;
+          allBooks.push(offer);
+
+          if (isSharpRef || (bookFilter && !bookFilter.has(bookId))) continue;
+          if (evCalculations.evDisplay < minEV || evCalculations.evDisplay > maxEV) continue;
+          if (!best || evCalculations.evDisplay > best.evCalculations.evDisplay) best = { offer, evCalculations };
+        }
+        if (!best) continue;
+
+        const opposite = side === "over" ? q.under : q.over;
+        const ev = stat.ev;
+
+        opportunities.push({
+          id: `alt:${sport}:${ev.event_id}:${stat.market}:${stat.playerId}:${line}:${side}`,
+          sport,
+          eventId: ev.event_id,
+          market: stat.market,
+          marketDisplay: getMarketDisplay(stat.market),
+          homeTeam: ev.home_team_name || ev.home_team,
+          awayTeam: ev.away_team_name || ev.away_team,
+          startTime: ev.commence_time,
+          playerId: stat.playerId,
+          playerName: stat.player,
+          playerTeam: stat.team || undefined,
+          line,
+          side,
+          sharpPreset: preset,
+          sharpReference: {
+            preset,
+            overOdds: fair.fair_over_odds,
+            underOdds: fair.fair_under_odds,
+            overDecimal: americanToDecimal(fair.fair_over_odds),
+            underDecimal: americanToDecimal(fair.fair_under_odds),
+            source: sharpSources.join(", "),
+            blendedFrom: sharpSources.length > 1 ? sharpSources : undefined,
+          },
+          devigResults: {},
+          book: best.offer,
+          evCalculations: best.evCalculations,
+          allBooks: allBooks.sort((a, b) => b.price - a.price),
+          oppositeBooks: [...opposite]
+            .map(([bookId, sel]) => toBookOffer(bookId, sel, parsePrice(sel.price)))
+            .sort((a, b) => b.price - a.price),
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          altLine: {
+            model: curve.model,
+            mean: curve.mean,
+            variance: curve.variance,
+            rmse: curve.rmse,
+            sharpLines: [...sharpLines].sort((a, b) => a - b),
+          },
+        });
+      }
+    }
+  }
+
+  return opportunities.sort((a, b) => b.evCalculations.evDisplay - a.evCalculations.evDisplay);
+}
@@ -5,7 +5,7 @@
  * for the +EV tool.
  */
 
-import type { SharpPreset, SharpPresetConfig, DevigMethod } from "./types";
+import type { SharpPreset, SharpPresetConfig, DevigMethod, MultiWayDevigMethod, MultiWayMarketKind } from "./types";
 
 // =============================================================================
 // Sharp Book Definitions
@@ -300,6 +300,51 @@ export const DEFAULT_DEVIG_METHODS: DevigMethod[] = ["power", "multiplicative"];
  */
 export const ALL_DEVIG_METHODS: DevigMethod[] = ["power", "multiplicative", "additive", "probit"];
 
+/**
+ * Multi-way (3+ outcome) de-vig method metadata
+ */
+export const MULTI_WAY_DEVIG_METHODS: Record<MultiWayDevigMethod, {
+  id: MultiWayDevigMethod;
+  name: string;
+  label: string;
+  description: string;
+}> = {
+  power: {
+    id: "power",
+    name: "Power",
+    label: "Power",
+    description: "Finds exponent k where the sum of p_i^k = 1. Shades longshots more than favorites.",
+  },
+  multiplicative: {
+    id: "multiplicative",
+    name: "Multiplicative",
+    label: "Multiplicative",
+    description: "Rescales every outcome by the same factor. Overprices longshots in wide fields.",
+  },
+  additive: {
+    id: "additive",
+    name: "Additive",
+    label: "Additive",
+    description: "Subtracts an equal share of the margin from every outcome. Can clamp longshots.",
+  },
+  shin: {
+    id: "shin",
+    name: "Shin",
+    label: "Shin",
+    description: "Models the margin as protection against insider money. Strong on first scorer and futures boards.",
+  },
+};
+
+/**
+ * Default multi-way de-vig methods
+ */
+export const DEFAULT_MULTI_WAY_DEVIG_METHODS: MultiWayDevigMethod[] = ["power", "shin"];
+
+/**
+ * All multi-way de-vig methods in recommended order
+ */
+export const ALL_MULTI_WAY_DEVIG_METHODS: MultiWayDevigMethod[] = ["power", "shin", "multiplicative", "additive"];
+
 // =============================================================================
 // Default Values
 // =============================================================================
@@ -429,7 +474,8 @@ export const TWO_WAY_MARKETS = [
 
 /**
  * Markets that are NOT suitable for standard 2-way de-vigging
- * (3+ way markets, or markets with correlation issues)
+ * (3+ way markets, or markets with correlation issues).
+ * Those in MULTI_WAY_MARKETS are priced by the multi-way scanner instead.
  */
 export const NON_TWO_WAY_MARKETS = [
   "first_basket",
@@ -441,3 +487,71 @@ export const NON_TWO_WAY_MARKETS = [
   "correct_score",
   "race_to_points",
 ] as const;
+
+/**
+ * Multi-way market configuration
+ */
+export interface MultiWayMarketConfig {
+  kind: MultiWayMarketKind;
+  label: string;
+  /** Only multi-way in these sports (e.g. moneylines are 3-way in soccer only) */
+  sports?: string[];
+  /** Minimum outcomes the reference must price */
+  minOutcomes: number;
+  /** Season-long market; its event can start weeks or months out */
+  futures?: boolean;
+}
+
+const SOCCER_SPORTS = ["soccer_epl", "soccer_laliga", "soccer_mls", "soccer_ucl", "soccer_uel"];
+
+/**
+ * Markets priced with N-outcome de-vig instead of over/under pairs
+ */
+export const MULTI_WAY_MARKETS: Record<string, MultiWayMarketConfig> = {
+  // Soccer 1X2 and other 3-way results
+  game_moneyline: { kind: "exclusive", label: "Moneyline (1X2)", sports: SOCCER_SPORTS, minOutcomes: 3 },
+  moneyline_3_way: { kind: "exclusive", label: "Moneyline 3-Way", minOutcomes: 3 },
+  "1st_half_moneyline_3_way": { kind: "exclusive", label: "1st Half ML 3-Way", minOutcomes: 3 },
+  "1st_quarter_moneyline_3_way": { kind: "exclusive", label: "1st Quarter ML 3-Way", minOutcomes: 3 },
+  first_team_to_score_3_way: { kind: "exclusive", label: "First Team To Score (3-Way)", minOutcomes: 3 },
+
+  // First scorer boards
+  first_field_goal: { kind: "exclusive", label: "First Basket", minOutcomes: 6 },
+  home_team_first_field_goal: { kind: "exclusive", label: "First Basket (Home)", minOutcomes: 3 },
+  away_team_first_field_goal: { kind: "exclusive", label: "First Basket (Away)", minOutcomes: 3 },
+  first_touchdown_scorer: { kind: "exclusive", label: "First TD Scorer", minOutcomes: 6 },
+  player_first_goal: { kind: "exclusive", label: "First Goalscorer", minOutcomes: 6 },
+
+  // MMA
+  method_of_victory: { kind: "exclusive", label: "Method of Victory", sports: ["ufc"], minOutcomes: 4 },
+  moneyline_finish_only: { kind: "independent", label: "Moneyline (Finish Only)", sports: ["ufc"], minOutcomes: 2 },
+  moneyline_decision_only: { kind: "independent", label: "Moneyline (Decision Only)", sports: ["ufc"], minOutcomes: 2 },
+
+  // Anytime scorers (several can win)
+  player_touchdowns: { kind: "independent", label: "Anytime TD", minOutcomes: 2 },
+  anytime_goalscorer: { kind: "independent", label: "Anytime Goalscorer", minOutcomes: 2 },
+
+  // Futures (one winner from the whole field)
+  championship_winner: { kind: "exclusive", label: "Championship Winner", minOutcomes: 8, futures: true },
+  conference_winner: { kind: "exclusive", label: "Conference Winner", minOutcomes: 4, futures: true },
+  division_winner: { kind: "exclusive", label: "Division Winner", minOutcomes: 3, futures: true },
+  league_winner: { kind: "exclusive", label: "League Winner", sports: SOCCER_SPORTS, minOutcomes: 4, futures: true },
+  mvp: { kind: "exclusive", label: "MVP", minOutcomes: 6, futures: true },
+  rookie_of_the_year: { kind: "exclusive", label: "Rookie of the Year", minOutcomes: 6, futures: true },
+};
+
+/**
+ * Assumed hold on yes-only prices in independent markets, where there is
+ * no opposite side to measure the vig against
+ */
+export const INDEPENDENT_MARKET_HOLD = 0.08;
+
+/**
+ * Multi-way config for a market in a sport, if it is priced as multi-way
+ */
+export function getMultiWayMarketConfig(sport: string, market: string): MultiWayMarketConfig | null {
+  const config = MULTI_WAY_MARKETS[market];
+  if (!config) return null;
+  if (config.sports && !config.sports.includes(sport)) return null;
+  return config;
+}
@@ -9,12 +9,18 @@
  * - Multiplicative (Tier A): Simple proportional rescaling
  * - Additive (Tier B): Equal margin subtraction
  * - Probit (Tier B): Normal quantile transformation
+ *
+ * Plus N-outcome versions of power, multiplicative, additive and Shin for
+ * 3+ way markets (1X2, first basket, method of victory, futures).
  */
 
 import type {
   DevigMethod,
   DevigResult,
   MultiDevigResult,
+  MultiWayDevigMethod,
+  MultiWayDevigResult,
+  MultiMultiWayDevigResult,
   EVCalculation,
   MultiEVCalculation,
   SharpReference,
@@ -416,7 +422,7 @@ export function devigPower(overOdds: number, underOdds: number): DevigResult {
  * Standard normal CDF (cumulative distribution function)
  * Approximation using error function
  */
-function normalCDF(x: number): number {
+export function normalCDF(x: number): number {
   const a1 =  0.254829592;
   const a2 = -0.284496736;
   const a3 =  1.421413741;
@@ -437,7 +443,7 @@ function normalCDF(x: number): number {
  * Inverse standard normal CDF (probit function)
  * Approximation using Abramowitz and Stegun formula
  */
-function normalInverseCDF(p: number): number {
+export function normalInverseCDF(p: number): number {
   if (p <= 0) return -Infinity;
   if (p >= 1) return Infinity;
   if (p === 0.5) return 0;
@@ -618,6 +624,203 @@ export function devigMultiple(
   return results;
 }
 
+// =============================================================================
+// Multi-way De-vig (3+ outcomes)
+// =============================================================================
+
+const MULTI_WAY_MIN_PROB = 0.001;
+
+function failedMultiWay(method: MultiWayDevigMethod, count: number, margin: number, error: string): MultiWayDevigResult {
+  return { method, fairProbs: new Array(count).fill(0), margin, success: false, error };
+}
+
+/**
+ * Implied probabilities for N outcomes, or null if any price is unusable
+ */
+function toImpliedProbs(odds: number[]): number[] | null {
+  if (odds.length < 2) return null;
+  const probs = odds.map((o) => (Number.isFinite(o) && o !== 0 ? americanToImpliedProb(o) : 0));
+  return probs.every((p) => p > 0 && p < 1) ? probs : null;
+}
+
+/**
+ * Multiplicative N-outcome de-vig
+ *
+ * Formula: p_fair_i = p_i * target / sum(p)
+ *
+ * @param odds American odds per outcome
+ * @param target What fair probabilities should sum to (1 for exclusive markets)
+ */
+export function devigMultiplicativeN(odds: number[], target = 1): MultiWayDevigResult {
+  const probs = toImpliedProbs(odds);
+  if (!probs) return failedMultiWay("multiplicative", odds.length, 0, "Invalid odds");
+
+  const total = probs.reduce((sum, p) => sum + p, 0);
+  return {
+    method: "multiplicative",
+    fairProbs: probs.map((p) => (p * target) / total),
+    margin: total - target,
+    success: true,
+  };
+}
+
+/**
+ * Additive N-outcome de-vig
+ *
+ * Formula: p_fair_i = p_i - (sum(p) - target) / N
+ *
+ * Longshots can go negative in wide fields; those are clamped and the
+ * board renormalized, with a warning.
+ */
+export function devigAdditiveN(odds: number[], target = 1): MultiWayDevigResult {
+  const probs = toImpliedProbs(odds);
+  if (!probs) return failedMultiWay("additive", odds.length, 0, "Invalid odds");
+
+  const total = probs.reduce((sum, p) => sum + p, 0);
+  const margin = total - target;
+  const shifted = probs.map((p) => p - margin / probs.length);
+  const needsClamping = shifted.some((p) => p < MULTI_WAY_MIN_PROB);
+  const clamped = shifted.map((p) => Math.max(MULTI_WAY_MIN_PROB, p));
+  const clampedTotal = clamped.reduce((sum, p) => sum + p, 0);
+
+  return {
+    method: "additive",
+    fairProbs: clamped.map((p) => (p * target) / clampedTotal),
+    margin,
+    success: true,
+    error: needsClamping ? "Clamping applied due to extreme odds" : undefined,
+  };
+}
+
+/**
+ * Power N-outcome de-vig
+ *
+ * Finds k such that sum(p_i^k) = target. Longshots are shaded more than
+ * favorites, matching the favorite/longshot bias in wide fields.
+ */
+export function devigPowerN(odds: number[], target = 1): MultiWayDevigResult {
+  const probs = toImpliedProbs(odds);
+  if (!probs) return failedMultiWay("power", odds.length, 0, "Invalid odds");
+
+  const margin = probs.reduce((sum, p) => sum + p, 0) - target;
+  const sumAt = (k: number) => probs.reduce((sum, p) => sum + Math.pow(p, k), 0);
+
+  // sum(p^k) is decreasing in k since every p < 1
+  let kLow = 0.01;
+  let kHigh = 20;
+  if (sumAt(kLow) < target || sumAt(kHigh) > target) {
+    return failedMultiWay("power", odds.length, margin, "No exponent reaches the target");
+  }
+
+  let k = 1;
+  for (let i = 0; i < 100; i++) {
+    k = (kLow + kHigh) / 2;
+    const sum = sumAt(k);
+    if (Math.abs(sum - target) < 1e-10) break;
+    if (sum > target) kLow = k;
+    else kHigh = k;
+  }
+
+  const fairProbs = probs.map((p) => Math.pow(p, k));
+  const total = fairProbs.reduce((sum, p) => sum + p, 0);
+  return {
+    method: "power",
+    fairProbs: fairProbs.map((p) => (p * target) / total),
+    margin,
+    success: true,
+  };
+}
+
+/**
+ * Shin N-outcome de-vig
+ *
+ * Treats the margin as the book's protection against a share z of insider
+ * money and solves for z such that the fair probabilities sum to 1:
+ *
+ *   p_i = (sqrt(z^2 + 4(1 - z) * p_i'^2 / S) - z) / (2(1 - z))
+ *
+ * where p_i' are implied probs and S their sum. Only meaningful when
+ * exactly one outcome wins.
+ */
+export function devigShinN(odds: number[]): MultiWayDevigResult {
+  const probs = toImpliedProbs(odds);
+  if (!probs) return failedMultiWay("shin", odds.length, 0, "Invalid odds");
+
+  const total = probs.reduce((sum, p) => sum + p, 0);
+  const margin = total - 1;
+  if (margin <= 0) {
+    // No overround to explain; fall back to proportional
+    return { method: "shin", fairProbs: probs.map((p) => p / total), margin, success: true };
+  }
+
+  const fairAt = (z: number) =>
+    probs.map((p) => (Math.sqrt(z * z + (4 * (1 - z) * p * p) / total) - z) / (2 * (1 - z)));
+  const sumAt = (z: number) => fairAt(z).reduce((sum, p) => sum + p, 0);
+
+  // sum is sqrt(S) > 1 at z = 0 and falls as z grows
+  let zLow = 0;
+  let zHigh = 0.99;
+  if (sumAt(zHigh) > 1) {
+    return failedMultiWay("shin", odds.length, margin, "Margin too large to solve");
+  }
+
+  let z = 0;
+  for (let i = 0; i < 100; i++) {
+    z = (zLow + zHigh) / 2;
+    const sum = sumAt(z);
+    if (Math.abs(sum - 1) < 1e-10) break;
+    if (sum > 1) zLow = z;
+    else zHigh = z;
+  }
+
+  const fairProbs = fairAt(z);
+  const fairTotal = fairProbs.reduce((sum, p) => sum + p, 0);
+  return {
+    method: "shin",
+    fairProbs: fairProbs.map((p) => p / fairTotal),
+    margin,
+    success: true,
+  };
+}
+
+/**
+ * Run multiple N-outcome de-vig methods
+ *
+ * @param odds American odds per outcome
+ * @param methods Which methods to run
+ * @param target Sum the fair board should reach: 1 for exclusive markets,
+ *   the expected number of winners for independent ones (Shin is skipped
+ *   when target != 1)
+ */
+export function devigMultiWay(
+  odds: number[],
+  methods: MultiWayDevigMethod[] = ["power", "multiplicative"],
+  target = 1
+): MultiMultiWayDevigResult {
+  const results: MultiMultiWayDevigResult = {};
+
+  for (const method of methods) {
+    switch (method) {
+      case "power":
+        results.power = devigPowerN(odds, target);
+        break;
+      case "multiplicative":
+        results.multiplicative = devigMultiplicativeN(odds, target);
+        break;
+      case "additive":
+        results.additive = devigAdditiveN(odds, target);
+        break;
+      case "shin":
+        results.shin = target === 1
+          ? devigShinN(odds)
+          : failedMultiWay("shin", odds.length, 0, "Shin requires an exclusive market");
+        break;
+    }
+  }
+
+  return results;
+}
+
 // =============================================================================
 // EV Calculation
 // =============================================================================
@@ -672,7 +875,7 @@ export function calculateKelly(fairProb: number, bookOdds: number): number {
 export function calculateEVDetails(
   fairProb: number,
   bookOffer: BookOffer,
-  method: DevigMethod
+  method: DevigMethod | MultiWayDevigMethod
 ): EVCalculation {
   const bookDecimal = americanToDecimal(bookOffer.price);
   const bookProb = americanToImpliedProb(bookOffer.price);
@@ -772,6 +975,43 @@ export function calculateMultiEV(
   };
 }
 
+/**
+ * Calculate EV for one outcome of a multi-way market
+ *
+ * @param fairProbs Fair probability for the outcome per method
+ * @param bookOffer Book's odds offer on the outcome
+ * @returns Combined EV calculations with worst/best/display values
+ */
+export function calculateMultiWayEV(
+  fairProbs: Partial<Record<MultiWayDevigMethod, number>>,
+  bookOffer: BookOffer
+): MultiEVCalculation {
+  const result: MultiEVCalculation = { evWorst: 0, evBest: 0, evDisplay: 0 };
+  const calculations: EVCalculation[] = [];
+
+  for (const [method, fairProb] of Object.entries(fairProbs) as [MultiWayDevigMethod, number | undefined][]) {
+    if (fairProb === undefined || fairProb <= 0) continue;
+    const calculation = calculateEVDetails(fairProb, bookOffer, method);
+    result[method] = calculation;
+    calculations.push(calculation);
+  }
+
+  if (calculations.length === 0) return result;
+
+  const evValues = calculations.map((c) => c.evPercent);
+  const kellyValues = calculations
+    .map((c) => c.kellyFraction)
+    .filter((kelly): kelly is number => kelly != null);
+
+  return {
+    ...result,
+    evWorst: Math.min(...evValues),
+    evBest: Math.max(...evValues),
+    evDisplay: Math.min(...evValues),
+    kellyWorst: kellyValues.length > 0 ? Math.min(...kellyValues) : undefined,
+  };
+}
+
 // =============================================================================
 // Sharp Reference Helpers
 // =============================================================================
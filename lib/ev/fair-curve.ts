@@ -0,0 +1,297 @@
+/**
+ * Alternate-line fair curve
+ *
+ * Sharp books rarely quote both sides at every alternate line, so a single
+ * line usually can't be de-vigged on its own. Instead every sharp two-way
+ * quote on the player's stat (main line plus alternates) is de-vigged into a
+ * (line, P(over)) point and a distribution is fitted through them.
+ *
+ * Count stats (rebounds, assists, strikeouts, ...):
+ *   - One point: Poisson with the mean that reproduces it exactly
+ *   - Two or more: the better of Poisson and negative binomial by weighted
+ *     squared error, so overdispersed stats get fatter tails
+ * Large or continuous-like stats (points, combos, yards):
+ *   - Normal, regressing each line on its probit so two or more points pin
+ *     both mean and spread; one point assumes a typical spread
+ *
+ * Fair prices at any line are then read straight off the fitted pmf.
+ */
+
+import {
+  lineProbabilities,
+  negativeBinomialDistribution,
+  normalDistribution,
+  poissonDistribution,
+} from "@/lib/projections/distribution";
+import type { StatDistribution } from "@/lib/projections/types";
+import { SHARP_BOOKS } from "./constants";
+import { devigPower, impliedProbToAmerican, normalInverseCDF } from "./devig";
+
+export type FairCurveModel = "poisson" | "negative_binomial" | "normal";
+
+export type FairCurveFamily = "count" | "normal";
+
+export interface FairCurveQuote {
+  line: number;
+  book: string;
+  over: number | null;
+  under: number | null;
+  /** Book's main line for the stat */
+  main?: boolean;
+}
+
+export interface FairCurvePoint {
+  line: number;
+  fair_over: number;
+  books: string[];
+  main: boolean;
+}
+
+export interface FairCurve {
+  model: FairCurveModel;
+  mean: number;
+  variance: number;
+  /** Root-mean-square gap between the fit and the de-vigged points */
+  rmse: number;
+  points: FairCurvePoint[];
+  distribution: StatDistribution;
+}
+
+export interface FairLinePrice {
+  line: number;
+  over_prob: number;
+  under_prob: number;
+  push_prob: number;
+  fair_over_odds: number | null;
+  fair_under_odds: number | null;
+}
+
+/** Count fits only; lines past this can't be represented by the pmf */
+const MAX_COUNT_LINE = 100;
+/** Main lines carry the most liquidity and count double in the fit */
+const MAIN_LINE_WEIGHT = 2;
+/** Variance / mean ratios tried for the negative binomial */
+const DISPERSION_GRID = [1.1, 1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5, 6];
+/** Negative binomial must beat Poisson by this much to be preferred */
+const NB_MIN_IMPROVEMENT = 0.9;
+/** Spread (sd / mean) assumed for a normal fit through a single point */
+const NORMAL_DEFAULT_CV = 0.3;
+
+/** Stats priced with a normal curve; everything else is treated as a count */
+const NORMAL_MARKET_PATTERN = /yards|_points$|_pra$|_pr$|_pa$|points_rebounds|points_assists|fantasy|_outs$/;
+
+/**
+ * Curve family for a market. Alternate markets share their base stat's.
+ */
+export function fairCurveFamily(market: string): FairCurveFamily {
+  return NORMAL_MARKET_PATTERN.test(market.toLowerCase().replace(/_alternate$/, "")) ? "normal" : "count";
+}
+
+function bookKey(book: string): string {
+  return book.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+const DEFAULT_SHARP_KEYS = new Set(Object.keys(SHARP_BOOKS).map(bookKey));
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/**
+ * De-vig every sharp two-way quote and average per line.
+ */
+export function sharpCurvePoints(quotes: FairCurveQuote[], sharpBooks?: string[]): FairCurvePoint[] {
+  const sharpKeys = sharpBooks ? new Set(sharpBooks.map(bookKey)) : DEFAULT_SHARP_KEYS;
+  const byLine = new Map<number, { sum: number; books: string[]; main: boolean }>();
+
+  for (const q of quotes) {
+    if (q.over == null || q.under == null) continue;
+    if (!sharpKeys.has(bookKey(q.book))) continue;
+    if (!Number.isFinite(q.line) || q.line < 0) continue;
+
+    const fair = devigPower(q.over, q.under).fairProbOver;
+    if (!(fair > 0 && fair < 1)) continue;
+
+    const point = byLine.get(q.line) ?? { sum: 0, books: [], main: false };
+    point.sum += fair;
+    point.books.push(q.book);
+    point.main = point.main || !!q.main;
+    byLine.set(q.line, point);
+  }
+
+  return [...byLine.entries()]
+    .map(([line, p]) => ({ line, fair_over: round(p.sum / p.books.length, 4), books: p.books, main: p.main }))
+    .sort((a, b) => a.line - b.line);
+}
+
+/** P(over) with pushes removed, matching how the points were de-vigged */
+function overNoPush(dist: StatDistribution, line: number): number {
+  const { over, push } = lineProbabilities(dist, line);
+  return push < 1 ? over / (1 - push) : 0;
+}
+
+function pointWeight(p: FairCurvePoint): number {
+  return p.books.length * (p.main ? MAIN_LINE_WEIGHT : 1);
+}
+
+function fitError(dist: StatDistribution, points: FairCurvePoint[]): number {
+  let err = 0;
+  let weight = 0;
+  for (const p of points) {
+    const w = pointWeight(p);
+    const diff = overNoPush(dist, p.line) - p.fair_over;
+    err += w * diff * diff;
+    weight += w;
+  }
+  return weight > 0 ? err / weight : Infinity;
+}
+
+/**
+ * Mean minimising the fit error for a fixed dispersion. P(over) rises with
+ * the mean, so the error is unimodal and a golden-section search converges.
+ */
+function fitMean(make: (mean: number) => StatDistribution, points: FairCurvePoint[]): { mean: number; err: number } {
+  const maxLine = points[points.length - 1].line;
+  let lo = 0.01;
+  let hi = Math.min(maxLine * 2 + 10, MAX_COUNT_LINE);
+  const phi = (Math.sqrt(5) - 1) / 2;
+  let a = hi - phi * (hi - lo);
+  let b = lo + phi * (hi - lo);
+  let fa = fitError(make(a), points);
+  let fb = fitError(make(b), points);
+  for (let i = 0; i < 40 && hi - lo > 1e-3; i++) {
+    if (fa < fb) {
+      hi = b;
+      b = a;
+      fb = fa;
+      a = hi - phi * (hi - lo);
+      fa = fitError(make(a), points);
+    } else {
+      lo = a;
+      a = b;
+      fa = fb;
+      b = lo + phi * (hi - lo);
+      fb = fitError(make(b), points);
+    }
+  }
+  const mean = (lo + hi) / 2;
+  return { mean, err: fitError(make(mean), points) };
+}
+
+/**
+ * Normal fit: an over at line L wins when the (discretised) stat clears
+ * floor(L) + 0.5, so threshold = mean + sd * probit(1 - P(over)). Weighted
+ * least squares across the points gives both parameters.
+ */
+function fitNormal(points: FairCurvePoint[]): { mean: number; variance: number } | null {
+  const rows = points.map((p) => ({
+    t: Math.floor(p.line) + 0.5,
+    z: normalInverseCDF(1 - p.fair_over),
+    w: pointWeight(p),
+  }));
+  const totalW = rows.reduce((s, r) => s + r.w, 0);
+  const meanZ = rows.reduce((s, r) => s + r.w * r.z, 0) / totalW;
+  const meanT = rows.reduce((s, r) => s + r.w * r.t, 0) / totalW;
+  const varZ = rows.reduce((s, r) => s + r.w * (r.z - meanZ) ** 2, 0) / totalW;
+  const covZT = rows.reduce((s, r) => s + r.w * (r.z - meanZ) * (r.t - meanT), 0) / totalW;
+
+  if (rows.length >= 2 && varZ > 1e-6 && covZT > 0) {
+    const sd = covZT / varZ;
+    const mean = meanT - sd * meanZ;
+    if (mean > 0) return { mean, variance: sd * sd };
+  }
+
+  // One point (or points that disagree): anchor on the heaviest one
+  const anchor = [...rows].sort((a, b) => b.w - a.w)[0];
+  const scale = 1 + NORMAL_DEFAULT_CV * anchor.z;
+  if (scale <= 0.1) return null;
+  const mean = anchor.t / scale;
+  const sd = NORMAL_DEFAULT_CV * mean;
+  return { mean, variance: sd * sd };
+}
+
+/**
+ * Fit the family's distribution through the sharp points. Null when there
+ * are no usable points. Count stats too large for the count pmf fall back to
+ * the normal.
+ */
+export function fitFairCurve(points: FairCurvePoint[], family: FairCurveFamily = "count"): FairCurve | null {
+  if (points.length === 0) return null;
+
+  if (family === "normal" || points[points.length - 1].line > MAX_COUNT_LINE) {
+    const fit = fitNormal(points);
+    if (!fit) return null;
+    const distribution = normalDistribution(fit.mean, fit.variance);
+    return {
+      model: "normal",
+      mean: round(fit.mean, 3),
+      variance: round(fit.variance, 3),
+      rmse: round(Math.sqrt(fitError(distribution, points)), 4),
+      points,
+      distribution,
+    };
+  }
+
+  const poisson = fitMean(poissonDistribution, points);
+  let best: { model: FairCurveModel; mean: number; variance: number; err: number } = {
+    model: "poisson",
+    mean: poisson.mean,
+    variance: poisson.mean,
+    err: poisson.err,
+  };
+
+  if (points.length >= 2) {
+    for (const ratio of DISPERSION_GRID) {
+      const fit = fitMean((m) => negativeBinomialDistribution(m, m * ratio), points);
+      const threshold = best.model === "poisson" ? best.err * NB_MIN_IMPROVEMENT : best.err;
+      if (fit.err < threshold) {
+        best = { model: "negative_binomial", mean: fit.mean, variance: fit.mean * ratio, err: fit.err };
+      }
+    }
+  }
+
+  const distribution =
+    best.model === "poisson"
+      ? poissonDistribution(best.mean)
+      : negativeBinomialDistribution(best.mean, best.variance);
+
+  return {
+    model: best.model,
+    mean: round(best.mean, 3),
+    variance: round(best.variance, 3),
+    rmse: round(Math.sqrt(best.err), 4),
+    points,
+    distribution,
+  };
+}
+
+/**
+ * Fair over/under at a line from the fitted curve. Pushes refund the stake,
+ * so fair odds are priced on the decided outcomes only.
+ */
+export function fairLinePrice(curve: FairCurve, line: number): FairLinePrice {
+  const { over, under, push } = lineProbabilities(curve.distribution, line);
+  const decided = 1 - push;
+  const overFair = decided > 0 ? over / decided : 0;
+  const underFair = decided > 0 ? under / decided : 0;
+  return {
+    line,
+    over_prob: round(over, 4),
+    under_prob: round(under, 4),
+    push_prob: round(push, 4),
+    fair_over_odds: overFair > 0 && overFair < 1 ? impliedProbToAmerican(overFair) : null,
+    fair_under_odds: underFair > 0 && underFair < 1 ? impliedProbToAmerican(underFair) : null,
+  };
+}
+
+/**
+ * Fit straight from raw two-way quotes, picking the family from the market.
+ */
+export function fitFairCurveFromQuotes(
+  quotes: FairCurveQuote[],
+  market: string,
+  sharpBooks?: string[]
+): FairCurve | null {
+  return fitFairCurve(sharpCurvePoints(quotes, sharpBooks), fairCurveFamily(market));
+}
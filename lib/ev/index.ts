@@ -28,6 +28,13 @@ export type {
   DevigMethod,
   DevigResult,
   MultiDevigResult,
+  MultiWayDevigMethod,
+  MultiWayMarketKind,
+  MultiWayDevigResult,
+  MultiMultiWayDevigResult,
+  MultiWayOutcome,
+  MultiWayContext,
+  AltLineContext,
   SharpPreset,
   SharpPresetConfig,
   SharpReference,
@@ -40,6 +47,8 @@ export type {
   PositiveEVResponse,
   PositiveEVModel,
   EVMode,
+  EVFairSource,
+  ProjectionEV,
   CustomSharpConfig,
 } from "./types";
 
@@ -56,7 +65,14 @@ export {
   SUPPORTED_SPORTS,
   TWO_WAY_MARKETS,
   NON_TWO_WAY_MARKETS,
+  MULTI_WAY_DEVIG_METHODS,
+  DEFAULT_MULTI_WAY_DEVIG_METHODS,
+  ALL_MULTI_WAY_DEVIG_METHODS,
+  MULTI_WAY_MARKETS,
+  INDEPENDENT_MARKET_HOLD,
+  getMultiWayMarketConfig,
 } from "./constants";
+export type { MultiWayMarketConfig } from "./constants";
 
 // Odds conversion functions
 export {
@@ -67,6 +83,12 @@ export {
   impliedProbToDecimal,
 } from "./devig";
 
+// Normal distribution helpers
+export {
+  normalCDF,
+  normalInverseCDF,
+} from "./devig";
+
 // Margin calculation
 export {
   calculateMargin,
@@ -82,6 +104,16 @@ export {
   devigMultiple,
 } from "./devig";
 
+// Multi-way (3+ outcome) de-vig
+export {
+  devigMultiplicativeN,
+  devigAdditiveN,
+  devigPowerN,
+  devigShinN,
+  devigMultiWay,
+  calculateMultiWayEV,
+} from "./devig";
+
 // EV calculation
 export {
   calculateEV,
@@ -103,3 +135,27 @@ export {
   formatKelly,
   getKellyStake,
 } from "./devig";
+
+// Projection EV (hit-rate model vs market)
+export {
+  marketFairProb,
+  evaluateProjectionEV,
+  projectionSourceEV,
+} from "./projection";
+
+// Alternate-line fair curve
+export {
+  fairCurveFamily,
+  sharpCurvePoints,
+  fitFairCurve,
+  fitFairCurveFromQuotes,
+  fairLinePrice,
+} from "./fair-curve";
+export type {
+  FairCurve,
+  FairCurveFamily,
+  FairCurveModel,
+  FairCurvePoint,
+  FairCurveQuote,
+  FairLinePrice,
+} from "./fair-curve";
@@ -0,0 +1,204 @@
+/**
+ * Ladder staking
+ *
+ * Every rung of a ladder settles on the same stat, so the rungs are fully
+ * correlated: one outcome (the stat's final value) decides all of them.
+ * Sizing therefore works on the joint payout across the fitted stat
+ * distribution rather than pricing each rung on its own:
+ *   - Kelly: stakes (as bankroll fractions) maximising expected log wealth,
+ *     free to bet less than the budget or skip negative-EV rungs
+ *   - Growth: the whole ladder budget is deployed, split to maximise
+ *     expected log wealth given that it will be spent
+ */
+
+import { americanToDecimal } from "./devig";
+
+export interface LadderRung {
+  id: string;
+  line: number;
+  side: "over" | "under";
+  price: number;
+}
+
+export interface RungValue {
+  id: string;
+  win_prob: number;
+  push_prob: number;
+  /** Expected return per $1 staked minus 1 (pushes refund) */
+  ev: number;
+}
+
+export interface PayoutSegment {
+  /** Inclusive stat range; `max` is null for the open top bucket */
+  min: number;
+  max: number | null;
+  prob: number;
+  returned: number;
+  profit: number;
+}
+
+/** Ladder outcome buckets: stat values where every rung settles the same way */
+interface OutcomeBucket {
+  min: number;
+  max: number | null;
+  prob: number;
+  /** Per-rung return multiple (decimal odds on a win, 1 on a push, 0 on a loss) */
+  multiples: number[];
+}
+
+const MAX_ITERATIONS = 400;
+const TOLERANCE = 1e-9;
+/** Wealth floor inside the log so a bust bucket can't produce -Infinity */
+const MIN_WEALTH = 1e-6;
+
+function settle(rung: LadderRung, value: number): "win" | "push" | "loss" {
+  if (value === rung.line) return "push";
+  if (rung.side === "over") return value > rung.line ? "win" : "loss";
+  return value < rung.line ? "win" : "loss";
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function buildBuckets(rungs: LadderRung[], pmf: number[]): OutcomeBucket[] {
+  const decimals = rungs.map((r) => americanToDecimal(r.price));
+  const buckets: OutcomeBucket[] = [];
+  let signature = "";
+
+  for (let k = 0; k < pmf.length; k++) {
+    const multiples = rungs.map((r, i) => {
+      const result = settle(r, k);
+      return result === "win" ? decimals[i] : result === "push" ? 1 : 0;
+    });
+    const key = multiples.join(",");
+    const last = buckets[buckets.length - 1];
+    if (last && key === signature) {
+      last.max = k;
+      last.prob += pmf[k];
+    } else {
+      buckets.push({ min: k, max: k, prob: pmf[k], multiples });
+      signature = key;
+    }
+  }
+
+  // The last pmf bucket holds the folded tail
+  if (buckets.length > 0) buckets[buckets.length - 1].max = null;
+  return buckets.filter((b) => b.prob > 0);
+}
+
+/**
+ * Win/push probability and EV of each rung against the stat pmf.
+ */
+export function rungValues(rungs: LadderRung[], pmf: number[]): RungValue[] {
+  return rungs.map((rung) => {
+    let win = 0;
+    let push = 0;
+    for (let k = 0; k < pmf.length; k++) {
+      const result = settle(rung, k);
+      if (result === "win") win += pmf[k];
+      else if (result === "push") push += pmf[k];
+    }
+    const ev = win * americanToDecimal(rung.price) + push - 1;
+    return { id: rung.id, win_prob: round(win, 4), push_prob: round(push, 4), ev: round(ev, 4) };
+  });
+}
+
+/** Expected log wealth and its gradient for stakes given as bankroll fractions */
+function logGrowth(buckets: OutcomeBucket[], fractions: number[]): { value: number; gradient: number[] } {
+  const staked = fractions.reduce((s, f) => s + f, 0);
+  const gradient = new Array<number>(fractions.length).fill(0);
+  let value = 0;
+  for (const b of buckets) {
+    let wealth = 1 - staked;
+    for (let i = 0; i < fractions.length; i++) wealth += fractions[i] * b.multiples[i];
+    const w = Math.max(wealth, MIN_WEALTH);
+    value += b.prob * Math.log(w);
+    for (let i = 0; i < fractions.length; i++) gradient[i] += (b.prob * (b.multiples[i] - 1)) / w;
+  }
+  return { value, gradient };
+}
+
+/**
+ * Joint Kelly fractions. Projected gradient ascent on expected log wealth
+ * with stakes kept non-negative and the total below the whole bankroll.
+ */
+export function kellyLadderFractions(rungs: LadderRung[], pmf: number[]): number[] {
+  const buckets = buildBuckets(rungs, pmf);
+  const n = rungs.length;
+  if (n === 0 || buckets.length === 0) return [];
+
+  let fractions = new Array<number>(n).fill(0);
+  let current = logGrowth(buckets, fractions);
+  let step = 0.05;
+
+  for (let iter = 0; iter < MAX_ITERATIONS && step > TOLERANCE; iter++) {
+    let next = fractions.map((f, i) => Math.max(0, f + step * current.gradient[i]));
+    const total = next.reduce((s, f) => s + f, 0);
+    if (total > 0.99) next = next.map((f) => (f * 0.99) / total);
+
+    const candidate = logGrowth(buckets, next);
+    if (candidate.value > current.value + TOLERANCE) {
+      fractions = next;
+      current = candidate;
+      step *= 1.2;
+    } else {
+      step /= 2;
+    }
+  }
+
+  return fractions.map((f) => round(f, 6));
+}
+
+/**
+ * Split a fixed budget (as a bankroll fraction) across the rungs to maximise
+ * expected log wealth. Exponentiated-gradient updates keep the stakes on the
+ * budget simplex.
+ */
+export function growthLadderFractions(rungs: LadderRung[], pmf: number[], budgetFraction: number): number[] {
+  const buckets = buildBuckets(rungs, pmf);
+  const n = rungs.length;
+  if (n === 0 || buckets.length === 0 || !(budgetFraction > 0)) return [];
+
+  const budget = Math.min(budgetFraction, 1);
+  let weights = new Array<number>(n).fill(1 / n);
+  let current = logGrowth(buckets, weights.map((w) => w * budget));
+  let eta = 1;
+
+  for (let iter = 0; iter < MAX_ITERATIONS && eta > TOLERANCE; iter++) {
+    const raw = weights.map((w, i) => w * Math.exp(eta * budget * current.gradient[i]));
+    const total = raw.reduce((s, w) => s + w, 0);
+    const next = raw.map((w) => w / total);
+
+    const candidate = logGrowth(buckets, next.map((w) => w * budget));
+    if (candidate.value > current.value + TOLERANCE) {
+      weights = next;
+      current = candidate;
+      eta *= 1.2;
+    } else {
+      eta /= 2;
+    }
+  }
+
+  return weights.map((w) => round(w * budget, 6));
+}
+
+/**
+ * Profit of the whole ladder across the stat's outcome buckets, for the
+ * payout chart. Stakes are in dollars.
+ */
+export function ladderPayoutSegments(rungs: LadderRung[], stakes: number[], pmf: number[]): PayoutSegment[] {
+  const buckets = buildBuckets(rungs, pmf);
+  const totalStake = stakes.reduce((s, x) => s + x, 0);
+  return buckets.map((b) => {
+    const returned = b.multiples.reduce((s, m, i) => s + m * (stakes[i] ?? 0), 0);
+    return {
+      min: b.min,
+      max: b.max,
+      prob: round(b.prob, 4),
+      returned: round(returned, 2),
+      profit: round(returned - totalStake, 2),
+    };
+  });
+}
@@ -0,0 +1,397 @@
+/**
+ * Multi-way +EV scanner (server)
+ *
+ * The worker only pre-computes over/under pairs, so 3+ way markets (1X2,
+ * first basket, first TD, method of victory, anytime scorers, futures) are
+ * priced here on demand from the shared OddsCache. Each reference book's
+ * board is de-vigged as a whole, blended by preset weight, and every other
+ * book's price on each outcome is scored against the blended fair
+ * probability.
+ *
+ * Futures boards hang off events that start well past the game window, so
+ * they are read from a second, longer event window.
+ */
+
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { getSportsbookById, normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import { normalizePlayerName, type SSEEvent, type SSESelection } from "@/lib/odds/types";
+import {
+  DEFAULT_MULTI_WAY_DEVIG_METHODS,
+  EV_THRESHOLDS,
+  INDEPENDENT_MARKET_HOLD,
+  MULTI_WAY_MARKETS,
+  SHARP_PRESETS,
+  getMultiWayMarketConfig,
+  type MultiWayMarketConfig,
+} from "./constants";
+import {
+  americanToDecimal,
+  americanToImpliedProb,
+  calculateMultiWayEV,
+  devigMultiWay,
+  impliedProbToAmerican,
+} from "./devig";
+import type {
+  BookOffer,
+  CustomSharpConfig,
+  DevigMethod,
+  MultiDevigResult,
+  MultiWayDevigMethod,
+  MultiWayOutcome,
+  PositiveEVOpportunity,
+  SharpPreset,
+} from "./types";
+
+export interface MultiWayScanOptions {
+  sharpPreset: SharpPreset;
+  customSharpConfig?: CustomSharpConfig | null;
+  devigMethods?: MultiWayDevigMethod[];
+  minEV?: number;
+  maxEV?: number;
+  /** Only surface prices at these books */
+  books?: string[] | null;
+  markets?: string[] | null;
+  now?: number;
+}
+
+interface OutcomeQuotes {
+  outcome: MultiWayOutcome;
+  line: number;
+  isPlayer: boolean;
+  yes: Map<string, SSESelection>;
+  /** "No" prices (independent markets only) */
+  no: Map<string, number>;
+}
+
+interface Board {
+  ev: SSEEvent;
+  market: string;
+  config: MultiWayMarketConfig;
+  outcomes: Map<string, OutcomeQuotes>;
+}
+
+type FairByMethod = Partial<Record<MultiWayDevigMethod, number>>;
+
+const GAME_LOOKAHEAD_MS = 48 * 60 * 60 * 1000;
+const FUTURES_LOOKAHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const MAX_FUTURES_EVENTS = 50;
+/** Methods shared with the two-way de-vig, reported in devigResults */
+const TWO_WAY_METHODS: Array<DevigMethod & MultiWayDevigMethod> = ["power", "multiplicative", "additive"];
+
+function parsePrice(price: string | undefined): number {
+  return parseInt(String(price ?? "").replace("+", ""), 10);
+}
+
+function getOutcome(sel: SSESelection): MultiWayOutcome | null {
+  const label = sel.player || sel.team_name || sel.team;
+  if (!label) return null;
+  const key = sel.player_id || normalizePlayerName(label);
+  return key ? { key, label, playerId: sel.player_id || undefined, team: sel.team || undefined } : null;
+}
+
+function toBookOffer(bookId: string, sel: SSESelection, price: number): BookOffer {
+  return {
+    bookId,
+    bookName: getSportsbookById(bookId)?.name ?? bookId,
+    price,
+    priceDecimal: americanToDecimal(price),
+    link: sel.link || null,
+    mobileLink: sel.mobile_link ?? null,
+    sgp: sel.sgp,
+    limits: sel.limits,
+    updated: sel.updated,
+    oddId: sel.odd_id,
+  };
+}
+
+/**
+ * Reference books + weights for the preset; empty = every book (market average)
+ */
+function getReferenceBooks(options: MultiWayScanOptions): { bookId: string; weight: number }[] {
+  if (options.customSharpConfig) {
+    const { books, weights } = options.customSharpConfig;
+    return books.map((bookId) => ({ bookId: normalizeSportsbookId(bookId), weight: weights?.[bookId] ?? 1 }));
+  }
+  return (SHARP_PRESETS[options.sharpPreset]?.books ?? []).map(({ bookId, weight }) => ({
+    bookId: normalizeSportsbookId(bookId),
+    weight,
+  }));
+}
+
+/**
+ * Fair probability per outcome per method from one reference book's board
+ */
+function devigBookBoard(
+  board: Board,
+  bookId: string,
+  methods: MultiWayDevigMethod[]
+): Map<string, FairByMethod> {
+  const fair = new Map<string, FairByMethod>();
+  const quoted = [...board.outcomes.values()]
+    .map((o) => ({ o, price: o.yes.get(bookId) ? parsePrice(o.yes.get(bookId)!.price) : NaN }))
+    .filter(({ price }) => Number.isFinite(price) && price !== 0);
+
+  if (board.config.kind === "exclusive") {
+    if (quoted.length < board.config.minOutcomes) return fair;
+    const results = devigMultiWay(quoted.map((q) => q.price), methods);
+    quoted.forEach(({ o }, i) => {
+      const byMethod: FairByMethod = {};
+      for (const method of methods) {
+        const result = results[method];
+        if (result?.success) byMethod[method] = result.fairProbs[i];
+      }
+      fair.set(o.outcome.key, byMethod);
+    });
+    return fair;
+  }
+
+  // Independent: de-vig yes/no pairs where the book quotes both sides,
+  // otherwise strip an assumed hold from the yes-only board
+  const oneWay = quoted.filter(({ o }) => !o.no.has(bookId));
+  const oneWayTarget = oneWay.reduce((sum, q) => sum + americanToImpliedProb(q.price), 0) / (1 + INDEPENDENT_MARKET_HOLD);
+  const oneWayResults = oneWay.length > 0 ? devigMultiWay(oneWay.map((q) => q.price), methods, oneWayTarget) : {};
+
+  for (const { o, price } of quoted) {
+    const byMethod: FairByMethod = {};
+    const noPrice = o.no.get(bookId);
+    if (noPrice !== undefined) {
+      const results = devigMultiWay([price, noPrice], methods);
+      for (const method of methods) {
+        const result = results[method];
+        if (result?.success) byMethod[method] = result.fairProbs[0];
+      }
+    } else {
+      const index = oneWay.findIndex((q) => q.o === o);
+      for (const method of methods) {
+        const result = oneWayResults[method];
+        if (result?.success) byMethod[method] = result.fairProbs[index];
+      }
+    }
+    if (Object.keys(byMethod).length > 0) fair.set(o.outcome.key, byMethod);
+  }
+  return fair;
+}
+
+function wantsFutures(sport: string, marketFilter: Set<string> | null): boolean {
+  return Object.entries(MULTI_WAY_MARKETS).some(
+    ([market, config]) =>
+      config.futures && (!config.sports || config.sports.includes(sport)) && (!marketFilter || marketFilter.has(market))
+  );
+}
+
+/**
+ * An outcome's fair probability in the two-way shape the +EV feed reads:
+ * over is the outcome, under is the rest of the field
+ */
+function toDevigResults(fairProbs: FairByMethod, margin: number): MultiDevigResult {
+  const results: MultiDevigResult = {};
+  for (const method of TWO_WAY_METHODS) {
+    const fairProb = fairProbs[method];
+    if (fairProb === undefined) continue;
+    results[method] = { method, fairProbOver: fairProb, fairProbUnder: 1 - fairProb, margin, success: true };
+  }
+  return results;
+}
+
+async function collectBoards(sport: string, options: MultiWayScanOptions): Promise<Board[]> {
+  const marketFilter = options.markets && options.markets.length > 0 ? new Set(options.markets) : null;
+  const [games, futures] = await Promise.all([
+    getUpcomingEvents(sport, { now: options.now, lookaheadMs: GAME_LOOKAHEAD_MS }),
+    wantsFutures(sport, marketFilter)
+      ? getUpcomingEvents(sport, {
+          now: options.now,
+          lookaheadMs: FUTURES_LOOKAHEAD_MS,
+          minLeadMs: GAME_LOOKAHEAD_MS,
+          maxEvents: MAX_FUTURES_EVENTS,
+        })
+      : Promise.resolve([]),
+  ]);
+  if (games.length === 0 && futures.length === 0) return [];
+
+  const gamesById = new Map(games.map((ev) => [ev.event_id, ev]));
+  const futuresById = new Map(futures.map((ev) => [ev.event_id, ev]));
+  const eventIds = [...gamesById.keys(), ...futuresById.keys()];
+  const odds = (await getOddsCache().getOddsForSport(sport, eventIds)) as unknown as Map<string, unknown>;
+  const boards = new Map<string, Board>();
+
+  for (const [key, value] of odds) {
+    // odds:{sport}:{eid}:{market}:{book}
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, market, rawBook] = parts;
+    const config = getMultiWayMarketConfig(sport, market);
+    if (!config || (marketFilter && !marketFilter.has(market))) continue;
+    const ev = gamesById.get(eid) ?? (config.futures ? futuresById.get(eid) : undefined);
+    if (!ev) continue;
+
+    const selections = parseBookSelections(value);
+    if (!selections) continue;
+    const book = normalizeSportsbookId(rawBook);
+
+    const boardKey = `${eid}:${market}`;
+    let board = boards.get(boardKey);
+    if (!board) {
+      board = { ev, market, config, outcomes: new Map() };
+      boards.set(boardKey, board);
+    }
+
+    for (const sel of Object.values(selections)) {
+      if (!sel || sel.locked) continue;
+      // Anytime markets also carry 2+/3+ ladders; only the first rung is "anytime"
+      if (config.kind === "independent" && sel.line > 0.5) continue;
+      const outcome = getOutcome(sel);
+      const price = parsePrice(sel.price);
+      if (!outcome || !Number.isFinite(price) || price === 0) continue;
+
+      let quotes = board.outcomes.get(outcome.key);
+      if (!quotes) {
+        quotes = { outcome, line: sel.line ?? 0, isPlayer: !!sel.player_id, yes: new Map(), no: new Map() };
+        board.outcomes.set(outcome.key, quotes);
+      }
+      if (sel.side === "under") {
+        if (config.kind === "independent") quotes.no.set(book, price);
+      } else {
+        quotes.yes.set(book, sel);
+      }
+    }
+  }
+
+  return [...boards.values()];
+}
+
+/**
+ * +EV outcomes in one sport's multi-way markets, best book per outcome
+ */
+export async function findMultiWayOpportunities(
+  sport: string,
+  options: MultiWayScanOptions
+): Promise<PositiveEVOpportunity[]> {
+  const methods = options.devigMethods && options.devigMethods.length > 0
+    ? options.devigMethods
+    : DEFAULT_MULTI_WAY_DEVIG_METHODS;
+  const primaryMethod = methods[0];
+  const minEV = options.minEV ?? 0;
+  const maxEV = options.maxEV ?? EV_THRESHOLDS.maximum;
+  const bookFilter = options.books && options.books.length > 0
+    ? new Set(options.books.map(normalizeSportsbookId))
+    : null;
+  const presetRefs = getReferenceBooks(options);
+  const timestamp = new Date().toISOString();
+
+  const boards = await collectBoards(sport, options);
+  const opportunities: PositiveEVOpportunity[] = [];
+
+  for (const board of boards) {
+    const boardBooks = new Set([...board.outcomes.values()].flatMap((o) => [...o.yes.keys()]));
+    const refs = presetRefs.length > 0
+      ? presetRefs.filter((r) => boardBooks.has(r.bookId) && r.weight > 0)
+      : [...boardBooks].map((bookId) => ({ bookId, weight: 1 }));
+    if (refs.length === 0) continue;
+    const refIds = new Set(refs.map((r) => r.bookId));
+
+    // Blend each reference book's de-vigged board by weight
+    const perBook = refs.map((ref) => ({ ref, fair: devigBookBoard(board, ref.bookId, methods) }));
+    const blended = new Map<string, FairByMethod>();
+    for (const outcomeKey of board.outcomes.keys()) {
+      const byMethod: FairByMethod = {};
+      for (const method of methods) {
+        let weighted = 0;
+        let totalWeight = 0;
+        for (const { ref, fair } of perBook) {
+          const p = fair.get(outcomeKey)?.[method];
+          if (p === undefined) continue;
+          weighted += p * ref.weight;
+          totalWeight += ref.weight;
+        }
+        if (totalWeight > 0) byMethod[method] = weighted / totalWeight;
+      }
+      if (byMethod[primaryMethod] !== undefined) blended.set(outcomeKey, byMethod);
+    }
+    if (blended.size === 0) continue;
+
+    const primaryRef = [...refs].sort((a, b) => b.weight - a.weight)[0];
+    const referenceOutcomes = [...blended.entries()]
+      .map(([key, fair]) => {
+        const quotes = board.outcomes.get(key)!;
+        const refSel = quotes.yes.get(primaryRef.bookId) ?? refs.map((r) => quotes.yes.get(r.bookId)).find(Boolean);
+        return {
+          key,
+          label: quotes.outcome.label,
+          price: refSel ? parsePrice(refSel.price) : impliedProbToAmerican(fair[primaryMethod]!),
+          fairProb: fair[primaryMethod]!,
+        };
+      })
+      .sort((a, b) => b.fairProb - a.fairProb);
+    const margin = board.config.kind === "exclusive"
+      ? referenceOutcomes.reduce((sum, o) => sum + americanToImpliedProb(o.price), 0) - 1
+      : INDEPENDENT_MARKET_HOLD;
+
+    for (const [outcomeKey, fairProbs] of blended) {
+      const quotes = board.outcomes.get(outcomeKey)!;
+      const allBooks: BookOffer[] = [];
+      let best: { offer: BookOffer; evCalculations: ReturnType<typeof calculateMultiWayEV> } | null = null;
+
+      for (const [bookId, sel] of quotes.yes) {
+        const price = parsePrice(sel.price);
+        const offer = toBookOffer(bookId, sel, price);
+        const isSharpRef = presetRefs.length > 0 && refIds.has(bookId);
+        const evCalculations = calculateMultiWayEV(fairProbs, offer);
+        offer.evPercent = evCalculations.evDisplay;
+        offer.isSharpRef = isSharpRef;
+        allBooks.push(offer);
+
+        if (isSharpRef || (bookFilter && !bookFilter.has(bookId))) continue;
+        if (evCalculations.evDisplay < minEV || evCalculations.evDisplay > maxEV) continue;
+        if (!best || evCalculations.evDisplay > best.evCalculations.evDisplay) best = { offer, evCalculations };
+      }
+      if (!best) continue;
+
+      const reference = referenceOutcomes.find((o) => o.key === outcomeKey)!;
+      const fairField = 1 - fairProbs[primaryMethod]!;
+      const ev = board.ev;
+
+      opportunities.push({
+        id: `mw:${sport}:${ev.event_id}:${board.market}:${outcomeKey}`,
+        sport,
+        eventId: ev.event_id,
+        market: board.market,
+        marketDisplay: board.config.label,
+        homeTeam: ev.home_team_name || ev.home_team,
+        awayTeam: ev.away_team_name || ev.away_team,
+        startTime: ev.commence_time,
+        playerId: quotes.isPlayer ? quotes.outcome.playerId : undefined,
+        playerName: quotes.isPlayer ? quotes.outcome.label : undefined,
+        playerTeam: quotes.isPlayer ? quotes.outcome.team : undefined,
+        line: quotes.line,
+        side: "yes",
+        sharpPreset: options.customSharpConfig ? "custom" : options.sharpPreset,
+        sharpReference: {
+          preset: options.customSharpConfig ? "custom" : options.sharpPreset,
+          overOdds: reference.price,
+          underOdds: impliedProbToAmerican(fairField),
+          overDecimal: americanToDecimal(reference.price),
+          underDecimal: 1 / fairField,
+          source: refs.map((r) => r.bookId).join(", "),
+          blendedFrom: refs.length > 1 ? refs.map((r) => r.bookId) : undefined,
+        },
+        devigResults: toDevigResults(fairProbs, margin),
+        book: best.offer,
+        evCalculations: best.evCalculations,
+        allBooks: allBooks.sort((a, b) => b.price - a.price),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        multiWay: {
+          kind: board.config.kind,
+          outcome: quotes.outcome,
+          outcomeCount: referenceOutcomes.length,
+          referenceOutcomes,
+          fairProbs,
+          margin,
+        },
+      });
+    }
+  }
+
+  return opportunities.sort((a, b) => b.evCalculations.evDisplay - a.evCalculations.evDisplay);
+}
@@ -0,0 +1,70 @@
+/**
+ * Projection EV
+ *
+ * Prices a +EV opportunity against the hit-rate projection as well as the
+ * de-vigged sharp market, and blends the two by the model's market weight.
+ */
+
+import { fitHitRateModel, hitRateSideProbability } from "@/lib/projections/hit-rate-model";
+import type { HitRateModelInputs, ProjectionWeights } from "@/lib/projections/types";
+import { calculateEV, impliedProbToAmerican } from "./devig";
+import type { EVCalculation, EVFairSource, PositiveEVOpportunity, ProjectionEV } from "./types";
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fair probability behind the opportunity's displayed EV (the method that
+ * produced evDisplay, else the first method available).
+ */
+export function marketFairProb(opp: PositiveEVOpportunity): number | null {
+  const { power, multiplicative, additive, probit, shin, evDisplay } = opp.evCalculations;
+  const calcs = [power, multiplicative, additive, probit, shin].filter((c): c is EVCalculation => !!c);
+  const display = calcs.find((c) => Math.abs(c.evPercent - evDisplay) < 1e-6) ?? calcs[0];
+  return display && display.fairProb > 0 && display.fairProb < 1 ? display.fairProb : null;
+}
+
+/**
+ * Projection, market and blended EV for one opportunity.
+ * Null for non over/under selections or when the profile can't be fit.
+ */
+export function evaluateProjectionEV(
+  opp: PositiveEVOpportunity,
+  inputs: HitRateModelInputs,
+  weights: ProjectionWeights
+): ProjectionEV | null {
+  if (opp.side !== "over" && opp.side !== "under") return null;
+  const marketProb = marketFairProb(opp);
+  const fit = fitHitRateModel(inputs, weights);
+  if (marketProb == null || !fit) return null;
+
+  const modelProb = hitRateSideProbability(fit, opp.line, opp.side);
+  if (modelProb <= 0 || modelProb >= 1) return null;
+
+  const marketShare = weights.market / 100;
+  const blendedProb = marketProb * marketShare + modelProb * (1 - marketShare);
+  const price = opp.book.price;
+
+  return {
+    mean: fit.mean,
+    family: fit.family,
+    modelProb: round(modelProb, 4),
+    modelFairOdds: Math.round(impliedProbToAmerican(modelProb)),
+    modelEV: round(calculateEV(modelProb, price) * 100, 2),
+    marketProb: round(marketProb, 4),
+    marketEV: round(calculateEV(marketProb, price) * 100, 2),
+    blendedProb: round(blendedProb, 4),
+    blendedEV: round(calculateEV(blendedProb, price) * 100, 2),
+    marketWeight: weights.market,
+  };
+}
+
+/**
+ * The EV % a fair source ranks by. Market EV when there's no projection.
+ */
+export function projectionSourceEV(opp: PositiveEVOpportunity, source: EVFairSource): number {
+  if (!opp.projection || source === "market") return opp.evCalculations.evDisplay;
+  return source === "model" ? opp.projection.modelEV : opp.projection.blendedEV;
+}
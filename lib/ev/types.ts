@@ -5,6 +5,8 @@
  * de-vig methods, and sharp reference presets.
  */
 
+import type { ProjectionWeights } from "@/lib/projections/types";
+
 // =============================================================================
 // De-vig Methods
 // =============================================================================
@@ -41,6 +43,77 @@ export interface MultiDevigResult {
   probit?: DevigResult;
 }
 
+// =============================================================================
+// Multi-way De-vig (3+ outcomes)
+// =============================================================================
+
+/**
+ * De-vig methods that generalize to N outcomes
+ *
+ * - power: Finds k such that sum(p_i^k) = target
+ * - multiplicative: Rescales every implied prob by the same factor
+ * - additive: Subtracts an equal share of the margin from every outcome
+ * - shin: Models the margin as protection against insider money (exclusive markets only)
+ */
+export type MultiWayDevigMethod = "power" | "multiplicative" | "additive" | "shin";
+
+/**
+ * How a multi-way market's outcomes relate
+ *
+ * - exclusive: exactly one outcome wins (1X2, first basket, method of victory, futures)
+ * - independent: each outcome is its own yes/no (anytime TD/goal scorer)
+ */
+export type MultiWayMarketKind = "exclusive" | "independent";
+
+/**
+ * Result from a single N-outcome de-vig calculation
+ */
+export interface MultiWayDevigResult {
+  method: MultiWayDevigMethod;
+  fairProbs: number[];     // Fair probability per outcome, same order as the input odds
+  margin: number;          // Original overround (sum of implied probs - target)
+  success: boolean;
+  error?: string;
+}
+
+export type MultiMultiWayDevigResult = Partial<Record<MultiWayDevigMethod, MultiWayDevigResult>>;
+
+/**
+ * One outcome of a multi-way market
+ */
+export interface MultiWayOutcome {
+  key: string;             // Stable id (player id, team, "draw")
+  label: string;
+  playerId?: string;
+  team?: string;
+}
+
+/**
+ * Where a +EV outcome sits within its multi-way market
+ */
+export interface MultiWayContext {
+  kind: MultiWayMarketKind;
+  outcome: MultiWayOutcome;
+  outcomeCount: number;    // Outcomes priced by the reference
+  // Reference board: fair probability per outcome (primary method)
+  referenceOutcomes: { key: string; label: string; price: number; fairProb: number }[];
+  // Fair probability for this outcome per method
+  fairProbs: Partial<Record<MultiWayDevigMethod, number>>;
+  margin: number;          // Reference overround
+}
+
+/**
+ * Fair curve an alternate line was priced from (sharp lines fitted into a
+ * distribution, then read off at this line)
+ */
+export interface AltLineContext {
+  model: "poisson" | "negative_binomial" | "normal";
+  mean: number;
+  variance: number;
+  rmse: number;            // Fit error against the de-vigged sharp points
+  sharpLines: number[];    // Lines the sharps quoted two-way
+}
+
 // =============================================================================
 // Sharp Reference Presets
 // =============================================================================
@@ -158,7 +231,7 @@ export interface BookPairedOdds {
  * EV calculation result for a single book offer
  */
 export interface EVCalculation {
-  method: DevigMethod;
+  method: DevigMethod | MultiWayDevigMethod;
   fairProb: number;        // Fair probability (0-1)
   bookProb: number;        // Book's implied probability (0-1)
   bookDecimal: number;     // Book's decimal odds
@@ -176,6 +249,7 @@ export interface MultiEVCalculation {
   multiplicative?: EVCalculation;
   additive?: EVCalculation;
   probit?: EVCalculation;
+  shin?: EVCalculation;      // Multi-way markets only
   
   // Aggregated values
   evWorst: number;         // Min EV across methods (conservative)
@@ -237,6 +311,14 @@ export interface PositiveEVOpportunity {
   // Opposite side books for full market view
   oppositeBooks?: BookOffer[];
   
+  // Set when this is one outcome of a 3+ way market (side is "yes",
+  // sharpReference.underOdds is the fair price on the rest of the field)
+  multiWay?: MultiWayContext;
+  
+  // Set when the fair price is interpolated from the sharp alternate-line
+  // curve (sharpReference holds the curve's fair odds at this line)
+  altLine?: AltLineContext;
+  
   // Timestamps
   createdAt: string;
   updatedAt: string;
@@ -245,6 +327,9 @@ export interface PositiveEVOpportunity {
   modelId?: string;
   modelName?: string;
   modelColor?: string | null;
+
+  // Hit-rate projection EV (client-side, player props only)
+  projection?: ProjectionEV;
 }
 
 // =============================================================================
@@ -272,6 +357,33 @@ export interface PositiveEVRequest {
  */
 export type EVMode = "pregame" | "live" | "all";
 
+/**
+ * Where fair probability comes from
+ *
+ * - market: de-vigged sharp book prices
+ * - model: hit-rate projection fit as a distribution around the line
+ * - blend: weighted mix of the two
+ */
+export type EVFairSource = "market" | "model" | "blend";
+
+/**
+ * Projection, market and blended EV for one opportunity, side by side
+ */
+export interface ProjectionEV {
+  /** Projected stat mean and the fitted distribution family */
+  mean: number;
+  family: "poisson" | "negative_binomial";
+  modelProb: number;        // Push-adjusted model probability (0-1)
+  modelFairOdds: number | null;
+  modelEV: number;          // EV % vs the model
+  marketProb: number;       // De-vigged sharp probability (0-1)
+  marketEV: number;         // EV % vs the market
+  blendedProb: number;
+  blendedEV: number;
+  /** Share (0-100) of the market in the blend */
+  marketWeight: number;
+}
+
 /**
  * Custom sharp configuration (for user's custom EV models)
  */
@@ -324,6 +436,8 @@ export interface PositiveEVModel {
   devigMethods: DevigMethod[];
   minEV: number;
   maxEV?: number;
+  fairSource?: EVFairSource;
+  projectionWeights?: ProjectionWeights;
   
   // Display preferences
   showKelly: boolean;
@@ -380,3 +380,16 @@ export function computeCLV(bookData: LineHistoryBookData): { delta: number; beat
   const delta = clvNorm - olvNorm;
   return { delta, beatCLV: delta > 0 };
 }
+
+/**
+ * CLV as a percentage: how much better the taken price paid than the close.
+ * (decimal taken / decimal closing - 1) * 100, so +5 means 5% more payout than closing.
+ */
+export function computeCLVPercent(takenPrice: number | null | undefined, closingPrice: number | null | undefined): number | null {
+  if (takenPrice == null || closingPrice == null) return null;
+  if (Number.isNaN(takenPrice) || Number.isNaN(closingPrice)) return null;
+  const takenDecimal = americanToDecimal(takenPrice);
+  const closingDecimal = americanToDecimal(closingPrice);
+  if (!Number.isFinite(takenDecimal) || !Number.isFinite(closingDecimal) || closingDecimal <= 1) return null;
+  return (takenDecimal / closingDecimal - 1) * 100;
+}
@@ -0,0 +1,169 @@
+/**
+ * Fair distribution fitting and middle pricing
+ *
+ * Every line quoted on both sides gives a de-vigged P(X > line). Under a
+ * normal model Φ⁻¹(1 - p) = (line - μ) / σ, so regressing line on
+ * Φ⁻¹(1 - p) recovers μ (intercept) and σ (slope). With a single line we
+ * fall back to a per-market default σ. Outcomes are integers (points, goals,
+ * margins), so the fit is discretised with a continuity correction and
+ * whole-number lines can push.
+ */
+
+import { allocateArbStakes } from "@/lib/arb-stakes";
+import { americanToDecimal, devigMultiplicative, normalCDF, normalInverseCDF } from "@/lib/ev/devig";
+import type { FairDistribution } from "./types";
+
+/** Two-sided quote at one line (threshold scale) from one book */
+export interface TwoWayQuote {
+  threshold: number;
+  over: number;
+  under: number;
+}
+
+/** Game-line standard deviations by league (final margin / combined score) */
+const GAME_LINE_SD: Record<string, { spread: number; total: number }> = {
+  nfl: { spread: 13.5, total: 13.5 },
+  ncaaf: { spread: 15, total: 16 },
+  nba: { spread: 12, total: 18 },
+  wnba: { spread: 11, total: 16 },
+  ncaab: { spread: 11, total: 17 },
+  mlb: { spread: 4.3, total: 4.4 },
+  ncaabaseball: { spread: 5, total: 5.5 },
+  nhl: { spread: 2.3, total: 2.4 },
+  soccer: { spread: 1.7, total: 1.7 },
+};
+
+const PROP_SD_DISPERSION = 1.2;
+const MIN_SD = 0.6;
+const MAX_SD_RATIO = 4;
+
+/** Stake basis for EV figures */
+export const MIDDLE_STAKE_BASIS = 100;
+
+export type LineKind = "spread" | "total" | "prop";
+
+/**
+ * Default σ when only one line is quoted
+ */
+export function getDefaultSd(sport: string, kind: LineKind, line: number): number {
+  if (kind !== "prop") {
+    const key = sport.startsWith("soccer") ? "soccer" : sport;
+    const sd = GAME_LINE_SD[key]?.[kind];
+    if (sd) return sd;
+  }
+  // Count stats are roughly Poisson with some over-dispersion
+  return Math.max(MIN_SD, Math.sqrt(Math.max(Math.abs(line), 0.5)) * PROP_SD_DISPERSION);
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Fit μ/σ from two-sided quotes. Quotes at the same threshold are de-vigged
+ * per book and the median fair probability is used.
+ */
+export function fitFairDistribution(
+  quotes: TwoWayQuote[],
+  sport: string,
+  kind: LineKind
+): FairDistribution | null {
+  const byThreshold = new Map<number, number[]>();
+  for (const quote of quotes) {
+    const devig = devigMultiplicative(quote.over, quote.under);
+    if (!devig.success || devig.fairProbOver <= 0.02 || devig.fairProbOver >= 0.98) continue;
+    const list = byThreshold.get(quote.threshold) ?? [];
+    list.push(devig.fairProbOver);
+    byThreshold.set(quote.threshold, list);
+  }
+  if (byThreshold.size === 0) return null;
+
+  const points = Array.from(byThreshold.entries()).map(([threshold, probs]) => ({
+    x: normalInverseCDF(1 - median(probs)),
+    y: threshold,
+  }));
+
+  if (points.length >= 2) {
+    const n = points.length;
+    const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+    const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+    const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+    const sxy = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0);
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    const defaultSd = getDefaultSd(sport, kind, meanY);
+
+    // A flat or inverted curve means the lines disagree; trust the default σ
+    if (slope > MIN_SD && slope < defaultSd * MAX_SD_RATIO) {
+      return { mean: meanY - slope * meanX, sd: slope, lines_used: n, basis: "fit" };
+    }
+  }
+
+  // Anchor on the line closest to a coin flip
+  const anchor = points.reduce((best, p) => (Math.abs(p.x) < Math.abs(best.x) ? p : best));
+  const sd = getDefaultSd(sport, kind, anchor.y);
+  return { mean: anchor.y - sd * anchor.x, sd, lines_used: points.length, basis: "default" };
+}
+
+/**
+ * P(X = k) over the integer outcomes within ±6σ of the mean
+ */
+export function discretize(dist: FairDistribution): Array<{ k: number; p: number }> {
+  const lo = Math.floor(dist.mean - 6 * dist.sd);
+  const hi = Math.ceil(dist.mean + 6 * dist.sd);
+  const out: Array<{ k: number; p: number }> = [];
+  for (let k = lo; k <= hi; k++) {
+    const p = normalCDF((k + 0.5 - dist.mean) / dist.sd) - normalCDF((k - 0.5 - dist.mean) / dist.sd);
+    if (p > 1e-9) out.push({ k, p });
+  }
+  return out;
+}
+
+export interface MiddlePricing {
+  middle_prob: number;
+  push_prob: number;
+  ev: number;
+  hit_profit: number;
+  miss_profit: number;
+  stakes: [number, number];
+}
+
+/**
+ * Price an over at `lo` against an under at `hi` with equal-payout stakes
+ * on MIDDLE_STAKE_BASIS. Pushes refund the leg.
+ */
+export function priceMiddle(
+  dist: FairDistribution,
+  over: { threshold: number; od: number },
+  under: { threshold: number; od: number }
+): MiddlePricing {
+  const plan = allocateArbStakes(
+    [{ odds: over.od }, { odds: under.od }],
+    { type: "total", amount: MIDDLE_STAKE_BASIS }
+  );
+  const [overStake, underStake] = plan.stakes;
+  const overDec = americanToDecimal(over.od);
+  const underDec = americanToDecimal(under.od);
+  const total = overStake + underStake;
+
+  let ev = 0;
+  let middleProb = 0;
+  let pushProb = 0;
+  for (const { k, p } of discretize(dist)) {
+    const overResult = k > over.threshold ? overStake * overDec : k === over.threshold ? overStake : 0;
+    const underResult = k < under.threshold ? underStake * underDec : k === under.threshold ? underStake : 0;
+    ev += p * (overResult + underResult - total);
+    if (k > over.threshold && k < under.threshold) middleProb += p;
+    if (k === over.threshold || k === under.threshold) pushProb += p;
+  }
+
+  return {
+    middle_prob: middleProb,
+    push_prob: pushProb,
+    ev,
+    hit_profit: overStake * overDec + underStake * underDec - total,
+    miss_profit: plan.worstCaseProfit,
+    stakes: [overStake, underStake],
+  };
+}
@@ -0,0 +1,47 @@
+import type { ArbRow } from "@/lib/arb-schema";
+import { matchesArbRow } from "@/lib/arb-filters";
+import type { MiddleKind, MiddlePrefs, MiddleRow } from "./types";
+
+export const DEFAULT_MIDDLE_PREFS: Pick<MiddlePrefs, "kinds" | "minEv" | "maxHold" | "minGap"> = {
+  kinds: ["middle", "low_hold"],
+  minEv: 0,
+  maxHold: 2,
+  minGap: 0.5,
+};
+
+export const MIDDLE_KIND_LABELS: Record<MiddleKind, string> = {
+  middle: "Middle",
+  low_hold: "Low Hold",
+};
+
+/**
+ * View a middle as an ArbRow so the arb filters (books, leagues, markets,
+ * liquidity, search) apply unchanged. EV stands in for ROI.
+ */
+export function toArbFilterRow(row: MiddleRow): ArbRow {
+  return {
+    eid: row.eid,
+    mkt: row.mkt,
+    ln: row.o.ln,
+    roi_bps: row.ev_bps,
+    ts: row.ts,
+    lg: row.lg,
+    ev: row.ev,
+    o: { bk: row.o.bk, name: row.o.name, od: row.o.od, id: row.o.id, u: row.o.u, m: row.o.m, max: row.o.max },
+    u: { bk: row.u.bk, name: row.u.name, od: row.u.od, id: row.u.id, u: row.u.u, m: row.u.m, max: row.u.max },
+  };
+}
+
+export function matchesMiddleRow(row: MiddleRow, prefs: MiddlePrefs): boolean {
+  if (prefs.kinds.length > 0 && !prefs.kinds.includes(row.kind)) return false;
+
+  if (row.kind === "middle") {
+    if (row.gap < prefs.minGap) return false;
+  } else if (row.hold_bps / 100 > prefs.maxHold) {
+    return false;
+  }
+
+  // Low-hold pairs are negative EV by design; the EV floor only gates middles
+  const evFloor = row.kind === "middle" ? prefs.minEv : -Infinity;
+  return matchesArbRow(toArbFilterRow(row), { ...prefs, minArb: evFloor, maxArb: Infinity });
+}
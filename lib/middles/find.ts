@@ -0,0 +1,142 @@
+/**
+ * Middle / low-hold pair finder
+ *
+ * Given every book's over/under quotes for one market (one player or one
+ * game line), fits the fair distribution and prices each cross-book pairing
+ * of an over at a lower threshold with an under at an equal or higher one.
+ */
+
+import { americanToDecimal } from "@/lib/ev/devig";
+import { fitFairDistribution, priceMiddle, MIDDLE_STAKE_BASIS, type LineKind, type TwoWayQuote } from "./distribution";
+import type { MiddleLeg, MiddleRow } from "./types";
+
+export interface LineOffer extends MiddleLeg {
+  side: "over" | "under";
+}
+
+export interface MarketGroup {
+  sport: string;
+  eid: string;
+  mkt: string;
+  player: string | null;
+  kind: LineKind;
+  offers: LineOffer[];
+  lg: MiddleRow["lg"];
+  ev: MiddleRow["ev"];
+}
+
+export interface FindMiddlesOptions {
+  /** Keep low-hold pairs at or below this hold % */
+  maxHold: number;
+  /** Keep middles at or above this EV % */
+  minEv: number;
+  /** Ignore windows wider than this many standard deviations */
+  maxGapSd: number;
+}
+
+export const DEFAULT_FIND_MIDDLES_OPTIONS: FindMiddlesOptions = {
+  maxHold: 3,
+  minEv: -1,
+  maxGapSd: 2,
+};
+
+/** Best couple of books per threshold so a same-book clash has a fallback */
+const BOOKS_PER_THRESHOLD = 2;
+
+function topOffersByThreshold(offers: LineOffer[]): Map<number, LineOffer[]> {
+  const byThreshold = new Map<number, LineOffer[]>();
+  for (const offer of offers) {
+    const list = byThreshold.get(offer.threshold) ?? [];
+    list.push(offer);
+    byThreshold.set(offer.threshold, list);
+  }
+  for (const [threshold, list] of byThreshold) {
+    byThreshold.set(threshold, list.sort((a, b) => b.od - a.od).slice(0, BOOKS_PER_THRESHOLD));
+  }
+  return byThreshold;
+}
+
+function buildQuotes(offers: LineOffer[]): TwoWayQuote[] {
+  const byBookThreshold = new Map<string, { over?: number; under?: number; threshold: number }>();
+  for (const offer of offers) {
+    const key = `${offer.bk}|${offer.threshold}`;
+    const entry = byBookThreshold.get(key) ?? { threshold: offer.threshold };
+    entry[offer.side] = offer.od;
+    byBookThreshold.set(key, entry);
+  }
+  return Array.from(byBookThreshold.values())
+    .filter((q): q is TwoWayQuote => q.over != null && q.under != null);
+}
+
+const stripSide = ({ side: _side, ...leg }: LineOffer): MiddleLeg => leg;
+
+/** Implied-probability sum minus 1; lower is a better-priced pair */
+function pairHold(o: LineOffer, u: LineOffer): number {
+  return 1 / americanToDecimal(o.od) + 1 / americanToDecimal(u.od) - 1;
+}
+
+/**
+ * Middles and low-hold pairs for one market, best EV first
+ */
+export function findMiddles(
+  group: MarketGroup,
+  options: FindMiddlesOptions = DEFAULT_FIND_MIDDLES_OPTIONS,
+  now = Date.now()
+): MiddleRow[] {
+  const fair = fitFairDistribution(buildQuotes(group.offers), group.sport, group.kind);
+  if (!fair) return [];
+
+  const overs = topOffersByThreshold(group.offers.filter((o) => o.side === "over"));
+  const unders = topOffersByThreshold(group.offers.filter((o) => o.side === "under"));
+  const maxGap = fair.sd * options.maxGapSd;
+  const rows: MiddleRow[] = [];
+
+  for (const [lo, overOffers] of overs) {
+    for (const [hi, underOffers] of unders) {
+      const gap = hi - lo;
+      if (gap < 0 || gap > maxGap) continue;
+
+      // Lowest-hold pairing across different books
+      let pair: { o: LineOffer; u: LineOffer; hold: number } | null = null;
+      for (const o of overOffers) {
+        for (const u of underOffers) {
+          if (o.bk === u.bk) continue;
+          const pairedHold = pairHold(o, u);
+          if (!pair || pairedHold < pair.hold) pair = { o, u, hold: pairedHold };
+        }
+      }
+      if (!pair) continue;
+
+      const { hold } = pair;
+      // Negative hold at the same line is an arb — the arb feed already has it
+      if (gap === 0 && (hold < 0 || hold * 100 > options.maxHold)) continue;
+
+      const pricing = priceMiddle(fair, pair.o, pair.u);
+      const evPct = (pricing.ev / MIDDLE_STAKE_BASIS) * 100;
+      if (gap > 0 && evPct < options.minEv) continue;
+
+      rows.push({
+        id: [group.eid, group.mkt, group.player ?? "game", lo, hi, pair.o.bk, pair.u.bk].join(":"),
+        kind: gap > 0 ? "middle" : "low_hold",
+        eid: group.eid,
+        mkt: group.mkt,
+        player: group.player,
+        o: stripSide(pair.o),
+        u: stripSide(pair.u),
+        gap,
+        hold_bps: Math.round(hold * 10000),
+        middle_prob: pricing.middle_prob,
+        push_prob: pricing.push_prob,
+        ev_bps: Math.round(evPct * 100),
+        hit_profit: pricing.hit_profit,
+        miss_profit: pricing.miss_profit,
+        fair,
+        lg: group.lg,
+        ev: group.ev,
+        ts: now,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => b.ev_bps - a.ev_bps);
+}
@@ -0,0 +1,37 @@
+/**
+ * Middles Library
+ *
+ * Finds middles (over below under across books) and low-hold pairs from
+ * main and alternate lines, prices them against a fair distribution fit
+ * from de-vigged quotes, and filters them with the arbitrage prefs.
+ */
+
+// Types
+export type {
+  MiddleKind,
+  MiddleLeg,
+  MiddleRow,
+  MiddlePrefs,
+  FairDistribution,
+  MiddlesScanSummary,
+} from "./types";
+
+// Distribution fitting & pricing
+export {
+  MIDDLE_STAKE_BASIS,
+  getDefaultSd,
+  fitFairDistribution,
+  discretize,
+  priceMiddle,
+} from "./distribution";
+export type { LineKind, TwoWayQuote, MiddlePricing } from "./distribution";
+
+// Finder
+export { findMiddles, DEFAULT_FIND_MIDDLES_OPTIONS } from "./find";
+export type { LineOffer, MarketGroup, FindMiddlesOptions } from "./find";
+
+// Filters
+export { DEFAULT_MIDDLE_PREFS, MIDDLE_KIND_LABELS, toArbFilterRow, matchesMiddleRow } from "./filters";
+
+// Scanner (server)
+export { scanSportMiddles, getMiddles } from "./scan";
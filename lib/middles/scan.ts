@@ -0,0 +1,194 @@
+/**
+ * Middles scanner (server)
+ *
+ * Reads every book's main and alternate lines for a sport's upcoming events
+ * from the shared OddsCache (the same `odds:{sport}:{eid}:{market}:{book}`
+ * keys the alternates endpoint reads), groups them per player / game line,
+ * and runs the middle finder over each group. Results are cached briefly in
+ * Redis per sport since a full scan touches thousands of keys.
+ */
+
+import { redis } from "@/lib/redis";
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { getMarketType } from "@/lib/arb-filters";
+import { getAllLeagues } from "@/lib/data/sports";
+import { normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import type { SSEEvent } from "@/lib/odds/types";
+import { findMiddles, DEFAULT_FIND_MIDDLES_OPTIONS, type LineOffer, type MarketGroup } from "./find";
+import type { MiddleRow, MiddlesScanSummary } from "./types";
+
+const CACHE_TTL_SECONDS = 60;
+const MAX_ROWS_PER_SPORT = 400;
+
+/** Markets with no line to middle */
+const SKIP_MARKET_PATTERN = /moneyline|money_line|h2h|winner|anytime|first_|last_|double_double|triple_double|btts|both_teams|odd_even|race_to/;
+const SPREAD_MARKET_PATTERN = /spread|handicap|run_line|puck_line|goal_line/;
+
+const EXCLUDED_BOOKS = new Set(["hard-rock-indiana", "hardrockindiana"]);
+
+const cacheKey = (sport: string) => `middles:rows:${sport}`;
+
+const normName = (s?: string | null) => (s || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Which side of the home margin a spread selection is on. Home -2.5 covers
+ * when margin > 2.5 ("over"); away +3.5 covers when margin < 3.5 ("under").
+ */
+function getSpreadSide(name: string, ev: SSEEvent): "home" | "away" | null {
+  const n = normName(name);
+  if (!n) return null;
+  const isHome = [ev.home_team, ev.home_team_name].some((t) => normName(t) && (n.includes(normName(t)) || normName(t).includes(n)));
+  const isAway = [ev.away_team, ev.away_team_name].some((t) => normName(t) && (n.includes(normName(t)) || normName(t).includes(n)));
+  if (isHome === isAway) return null;
+  return isHome ? "home" : "away";
+}
+
+/** Leg label in the ArbLeg.name style ("Player Over 24.5", "LAL -2.5") */
+function describeLeg(subject: string, side: LineOffer["side"], line: number, isSpread: boolean): string {
+  if (isSpread) return `${subject} ${line > 0 ? `+${line}` : line}`;
+  return `${subject} ${side === "over" ? "Over" : "Under"} ${line}`;
+}
+
+/**
+ * Scan one sport for middles and low-hold pairs (uncached)
+ */
+export async function scanSportMiddles(sport: string, now = Date.now()): Promise<{
+  rows: MiddleRow[];
+  events: number;
+  markets: number;
+}> {
+  const events = await getUpcomingEvents(sport, { now });
+  if (events.length === 0) return { rows: [], events: 0, markets: 0 };
+
+  const eventsById = new Map(events.map((ev) => [ev.event_id, ev]));
+  const odds = (await getOddsCache().getOddsForSport(sport, events.map((ev) => ev.event_id))) as unknown as Map<string, unknown>;
+
+  const league = getAllLeagues().find((l) => l.id === sport);
+  const lg = { id: sport, name: league?.name ?? sport.toUpperCase(), sport: league?.sportId ?? sport };
+  const groups = new Map<string, MarketGroup>();
+
+  for (const [key, value] of odds) {
+    // odds:{sport}:{eid}:{market}:{book}
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, market, rawBook] = parts;
+    const ev = eventsById.get(eid);
+    if (!ev || SKIP_MARKET_PATTERN.test(market) || EXCLUDED_BOOKS.has(rawBook.toLowerCase())) continue;
+
+    const selections = parseBookSelections(value);
+    if (!selections) continue;
+
+    const book = normalizeSportsbookId(rawBook);
+    const isSpread = SPREAD_MARKET_PATTERN.test(market);
+    const kind = isSpread ? "spread" : getMarketType(market) === "game" ? "total" : "prop";
+
+    for (const [selKey, sel] of Object.entries(selections)) {
+      if (!sel || sel.locked) continue;
+      const [rawName, rawSide, lineStr] = selKey.split("|");
+      const line = Number.isFinite(sel.line) ? sel.line : parseFloat(lineStr);
+      const od = parseInt(String(sel.price).replace("+", ""), 10);
+      if (!Number.isFinite(line) || !Number.isFinite(od) || od === 0) continue;
+
+      let side: LineOffer["side"] | null = null;
+      let threshold = line;
+      let subject: string;
+
+      if (isSpread) {
+        const team = getSpreadSide(sel.player || rawName, ev);
+        if (!team) continue;
+        // Both sides on the home-margin scale
+        side = team === "home" ? "over" : "under";
+        threshold = team === "home" ? -line : line;
+        subject = "game";
+      } else {
+        const s = (rawSide || sel.side || "").toLowerCase();
+        if (s === "over" || s === "o") side = "over";
+        else if (s === "under" || s === "u") side = "under";
+        subject = sel.player_id || normName(rawName);
+      }
+      if (!side) continue;
+
+      const groupKey = `${eid}|${market}|${subject}`;
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          sport,
+          eid,
+          mkt: market,
+          player: kind === "prop" ? sel.player || rawName : null,
+          kind,
+          offers: [],
+          lg,
+          ev: {
+            dt: ev.commence_time,
+            live: false,
+            home: { abbr: ev.home_team, name: ev.home_team_name },
+            away: { abbr: ev.away_team, name: ev.away_team_name },
+          },
+        };
+        groups.set(groupKey, group);
+      }
+
+      group.offers.push({
+        side,
+        bk: book,
+        name: describeLeg(sel.player || rawName, side, line, isSpread),
+        od,
+        ln: line,
+        threshold,
+        id: sel.odd_id,
+        u: sel.link || undefined,
+        m: sel.mobile_link ?? null,
+        max: sel.limits?.max ?? null,
+      });
+    }
+  }
+
+  const rows: MiddleRow[] = [];
+  for (const group of groups.values()) {
+    rows.push(...findMiddles(group, DEFAULT_FIND_MIDDLES_OPTIONS, now));
+  }
+
+  rows.sort((a, b) => b.ev_bps - a.ev_bps);
+  return { rows: rows.slice(0, MAX_ROWS_PER_SPORT), events: events.length, markets: groups.size };
+}
+
+/**
+ * Middles for several sports, served from a short Redis cache per sport
+ */
+export async function getMiddles(sports: string[]): Promise<{ rows: MiddleRow[]; summary: MiddlesScanSummary }> {
+  const start = Date.now();
+  let eventsScanned = 0;
+  let marketsScanned = 0;
+
+  const perSport = await Promise.all(
+    sports.map(async (sport) => {
+      try {
+        const cached = await redis.get<MiddleRow[] | string>(cacheKey(sport));
+        if (cached) return typeof cached === "string" ? (JSON.parse(cached) as MiddleRow[]) : cached;
+
+        const result = await scanSportMiddles(sport);
+        eventsScanned += result.events;
+        marketsScanned += result.markets;
+        await redis.set(cacheKey(sport), JSON.stringify(result.rows), { ex: CACHE_TTL_SECONDS });
+        return result.rows;
+      } catch (error) {
+        console.error(`[middles] Scan failed for ${sport}:`, error);
+        return [];
+      }
+    })
+  );
+
+  const rows = perSport.flat().sort((a, b) => b.ev_bps - a.ev_bps);
+  return {
+    rows,
+    summary: {
+      sports,
+      events_scanned: eventsScanned,
+      markets_scanned: marketsScanned,
+      rows: rows.length,
+      duration_ms: Date.now() - start,
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Middles Types
+ *
+ * Cross-book pairs where the over sits below the under (a middle: both legs
+ * can win) or at the same line with a thin hold (low-hold pairs for promo
+ * conversion). Rows mirror ArbRow so the arb filters can be reused.
+ */
+
+import type { ArbPrefs } from "@/lib/arb-filters";
+
+export type MiddleKind = "middle" | "low_hold";
+
+/**
+ * One side of a middle. `ln` is the line as offered (e.g. -2.5 for a home
+ * spread); `threshold` is that line on the shared scale the distribution is
+ * fit on (home margin for spreads, the stat itself otherwise).
+ */
+export interface MiddleLeg {
+  bk: string;
+  name?: string;
+  od: number;
+  ln: number;
+  threshold: number;
+  id?: string;
+  u?: string;
+  m?: string | null;
+  max?: number | null;
+}
+
+/**
+ * Fair distribution of the underlying stat, fit from de-vigged prices
+ * across all offered lines.
+ */
+export interface FairDistribution {
+  mean: number;
+  sd: number;
+  /** Number of lines with two-sided prices used in the fit */
+  lines_used: number;
+  /** "fit" = regression over 2+ lines, "default" = one line + default spread */
+  basis: "fit" | "default";
+}
+
+export interface MiddleRow {
+  id: string;
+  kind: MiddleKind;
+  eid: string;
+  mkt: string;
+  /** Player for props, null for game lines */
+  player: string | null;
+  /** Over / "home covers" leg at the lower threshold */
+  o: MiddleLeg;
+  /** Under / "away covers" leg at the higher threshold */
+  u: MiddleLeg;
+  /** Width of the window where both legs win */
+  gap: number;
+  /** Sum of implied probabilities minus 1, in basis points */
+  hold_bps: number;
+  /** Probability that both legs win */
+  middle_prob: number;
+  /** Probability at least one leg pushes */
+  push_prob: number;
+  /** Expected profit per $100 at equal-payout stakes, in basis points */
+  ev_bps: number;
+  /** Loss when the middle misses (per $100, negative) */
+  miss_profit: number;
+  /** Profit when the middle hits (per $100) */
+  hit_profit: number;
+  fair: FairDistribution;
+  lg: { id: string; name: string; sport: string };
+  ev: {
+    dt: string;
+    live: boolean;
+    home: { abbr?: string; name?: string };
+    away: { abbr?: string; name?: string };
+  };
+  ts: number;
+}
+
+/**
+ * Filters for the middles view: the arb prefs (books, leagues, markets,
+ * search, liquidity) plus middle-specific thresholds. `minArb`/`maxArb`
+ * are replaced by an EV window.
+ */
+export type MiddlePrefs = Omit<ArbPrefs, "minArb" | "maxArb"> & {
+  kinds: MiddleKind[];
+  /** Minimum EV % at equal-payout stakes */
+  minEv: number;
+  /** Maximum hold % for low-hold pairs */
+  maxHold: number;
+  /** Minimum middle width */
+  minGap: number;
+};
+
+export interface MiddlesScanSummary {
+  sports: string[];
+  events_scanned: number;
+  markets_scanned: number;
+  rows: number;
+  duration_ms: number;
+}
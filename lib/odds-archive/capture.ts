@@ -0,0 +1,151 @@
+/**
+ * Odds Archive Capture (server)
+ *
+ * Listens to the odds_updates:{sport} pub/sub channels for a bounded window,
+ * re-reads every book key an update touches and records its price changes.
+ * The archive-odds cron starts a run every minute and each window outlasts
+ * that interval, so every update is heard by at least one run. The newer
+ * run buffers updates until the older one has saved its last prices, then
+ * starts from them: nothing is recorded twice and unchanged prices aren't
+ * stored again as first sightings.
+ */
+
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { listenOddsUpdates, openFeedWindow, readBookSelections } from "@/lib/odds/updates";
+import { OddsArchiveRecorder } from "./recorder";
+import { loadArchiveLastPrices, saveArchiveLastPrices } from "./state";
+import type { OddsArchiveCaptureSummary } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Sports archived by default */
+export const ARCHIVE_SPORTS = ["nba", "wnba", "nfl", "ncaaf", "ncaab", "nhl", "mlb"];
+
+/** Longer than the one-minute cron interval, leaving slack for start jitter */
+const DEFAULT_WINDOW_MS = 75_000;
+/** Each flush writes one chunk per changed selection, so keep them sparse */
+const DEFAULT_FLUSH_MS = 30_000;
+/** Longest wait for the previous window to save its last prices */
+const HANDOFF_WAIT_MS = 25_000;
+/** Partitions are created this many months ahead */
+const PARTITION_MONTHS_AHEAD = 2;
+
+async function ensurePartitions(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase.rpc("ensure_odds_archive_partitions", {
+    p_from: new Date().toISOString().slice(0, 10),
+    p_months: PARTITION_MONTHS_AHEAD,
+  });
+  if (error) console.error("[odds-archive] Failed to ensure partitions:", error.message);
+}
+
+/**
+ * Run one capture window: subscribe, record changes every flushMs and
+ * write them to odds_archive_chunks.
+ */
+export async function runOddsArchiveWindow(
+  supabase: SupabaseClient,
+  options: { sports?: string[]; windowMs?: number; flushMs?: number } = {}
+): Promise<OddsArchiveCaptureSummary> {
+  const sports = options.sports?.length ? options.sports : ARCHIVE_SPORTS;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  const flushMs = options.flushMs ?? DEFAULT_FLUSH_MS;
+
+  const summary: OddsArchiveCaptureSummary = {
+    sports,
+    messages: 0,
+    keysRead: 0,
+    changes: 0,
+    chunksWritten: 0,
+    errors: 0,
+  };
+
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) {
+    console.error("[odds-archive] Pub/sub endpoint is not configured");
+    summary.errors++;
+    return summary;
+  }
+
+  await ensurePartitions(supabase);
+
+  const recorder = new OddsArchiveRecorder();
+  const dirty = new Set<string>();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), windowMs);
+
+  const listening = listenOddsUpdates({
+    sports,
+    signal: controller.signal,
+    onKeys: (_sport, keys) => {
+      summary.messages++;
+      keys.forEach((key) => dirty.add(key));
+    },
+    onError: (sport, error) => {
+      console.error(`[odds-archive] ${sport} listener error:`, error);
+      summary.errors++;
+    },
+  });
+
+  const handoff = await openFeedWindow("odds-archive", { maxWaitMs: HANDOFF_WAIT_MS, signal: controller.signal }).catch(
+    (error) => {
+      console.error("[odds-archive] Failed to hand off from the previous window:", error);
+      summary.errors++;
+      return null;
+    }
+  );
+
+  const drainDirty = async () => {
+    if (dirty.size === 0) return;
+    const keys = [...dirty];
+    dirty.clear();
+    const observedAt = Date.now();
+    try {
+      // Carry over last prices for keys this window hasn't seen yet
+      const newKeys = keys.filter((key) => !recorder.hasKey(key));
+      if (newKeys.length > 0) {
+        const saved = await loadArchiveLastPrices(newKeys);
+        for (const key of newKeys) recorder.seed(key, saved.get(key) ?? null);
+      }
+
+      const books = await readBookSelections(keys);
+      summary.keysRead += books.length;
+      for (const [key, selections] of books) recorder.observe(key, selections, observedAt);
+    } catch (error) {
+      console.error("[odds-archive] Failed to read odds keys:", error);
+      summary.errors++;
+    }
+  };
+
+  const flush = async () => {
+    await drainDirty();
+    const { written, errors } = await recorder.flush(supabase);
+    summary.chunksWritten += written;
+    summary.errors += errors;
+  };
+
+  try {
+    while (!controller.signal.aborted) {
+      await new Promise((resolve) => setTimeout(resolve, flushMs));
+      await flush();
+    }
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+    await listening;
+    await flush();
+    try {
+      await saveArchiveLastPrices(recorder.lastPrices());
+    } catch (error) {
+      console.error("[odds-archive] Failed to save last prices:", error);
+      summary.errors++;
+    }
+    await handoff?.close().catch((error) => {
+      console.error("[odds-archive] Failed to close window:", error);
+      summary.errors++;
+    });
+  }
+
+  summary.changes = recorder.changes;
+  return summary;
+}
@@ -0,0 +1,74 @@
+/**
+ * Odds Archive Codec
+ *
+ * Delta encoding for per-selection price series. Prices move a few cents
+ * at a time and feed timestamps are close together, so small integer
+ * deltas keep each chunk to a fraction of the raw point list.
+ */
+
+import type { ArchivePoint, EncodedSeries } from "./types";
+
+/**
+ * Drop points that repeat the previous price. Input must be sorted.
+ */
+export function compactPoints(points: ArchivePoint[]): ArchivePoint[] {
+  const result: ArchivePoint[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && last.price === point.price) continue;
+    result.push(point);
+  }
+  return result;
+}
+
+/**
+ * Encode a non-empty, time-ordered series.
+ */
+export function encodeSeries(points: ArchivePoint[]): EncodedSeries {
+  if (points.length === 0) throw new Error("Cannot encode an empty series");
+
+  const first = points[0];
+  const tsDeltas: number[] = [];
+  const priceDeltas: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    tsDeltas.push(points[i].timestamp - points[i - 1].timestamp);
+    priceDeltas.push(points[i].price - points[i - 1].price);
+  }
+
+  return {
+    base_ts: first.timestamp,
+    base_price: first.price,
+    ts_deltas: tsDeltas,
+    price_deltas: priceDeltas,
+    points: points.length,
+    start_ts: first.timestamp,
+    end_ts: points[points.length - 1].timestamp,
+  };
+}
+
+export function decodeSeries(encoded: Pick<EncodedSeries, "base_ts" | "base_price" | "ts_deltas" | "price_deltas">): ArchivePoint[] {
+  const baseTs = Number(encoded.base_ts);
+  const basePrice = Number(encoded.base_price);
+  const points: ArchivePoint[] = [{ price: basePrice, timestamp: baseTs }];
+
+  const tsDeltas = encoded.ts_deltas || [];
+  const priceDeltas = encoded.price_deltas || [];
+  let timestamp = baseTs;
+  let price = basePrice;
+  for (let i = 0; i < tsDeltas.length; i++) {
+    timestamp += Number(tsDeltas[i]);
+    price += Number(priceDeltas[i] ?? 0);
+    points.push({ price, timestamp });
+  }
+  return points;
+}
+
+/**
+ * Merge decoded chunks of the same selection into one series. A capture
+ * window with no carried-over price opens with the price it first sees, so
+ * chunk boundaries can repeat prices that get compacted away here.
+ */
+export function mergeChunks(chunks: ArchivePoint[][]): ArchivePoint[] {
+  const all = chunks.flat().sort((a, b) => a.timestamp - b.timestamp);
+  return compactPoints(all);
+}
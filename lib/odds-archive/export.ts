@@ -0,0 +1,83 @@
+/**
+ * Odds Archive Export
+ *
+ * Flattens archived series to one row per price change for CSV and
+ * Parquet downloads.
+ */
+
+import { writeParquet } from "./parquet";
+import type { OddsArchiveSeries } from "./types";
+
+export interface OddsArchiveExportRow {
+  sport: string;
+  event_id: string;
+  market: string;
+  book: string;
+  selection_key: string;
+  player_id: string | null;
+  player_name: string | null;
+  side: string | null;
+  line: number | null;
+  price: number;
+  timestamp: number;
+}
+
+export function flattenSeries(series: OddsArchiveSeries[]): OddsArchiveExportRow[] {
+  const rows: OddsArchiveExportRow[] = [];
+  for (const { points, ...meta } of series) {
+    for (const point of points) {
+      rows.push({ ...meta, price: point.price, timestamp: point.timestamp });
+    }
+  }
+  return rows;
+}
+
+const CSV_COLUMNS: Array<keyof OddsArchiveExportRow> = [
+  "sport",
+  "event_id",
+  "market",
+  "book",
+  "selection_key",
+  "player_id",
+  "player_name",
+  "side",
+  "line",
+  "price",
+  "timestamp",
+];
+
+function csvCell(value: string | number | null): string {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with an ISO time column next to the epoch ms timestamp.
+ */
+export function seriesToCsv(series: OddsArchiveSeries[]): string {
+  const lines = [[...CSV_COLUMNS, "time"].join(",")];
+  for (const row of flattenSeries(series)) {
+    const cells = CSV_COLUMNS.map((column) => csvCell(row[column]));
+    cells.push(new Date(row.timestamp).toISOString());
+    lines.push(cells.join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function seriesToParquet(series: OddsArchiveSeries[]): Uint8Array {
+  const rows = flattenSeries(series);
+  return writeParquet([
+    { name: "sport", type: "string", values: rows.map((row) => row.sport) },
+    { name: "event_id", type: "string", values: rows.map((row) => row.event_id) },
+    { name: "market", type: "string", values: rows.map((row) => row.market) },
+    { name: "book", type: "string", values: rows.map((row) => row.book) },
+    { name: "selection_key", type: "string", values: rows.map((row) => row.selection_key) },
+    { name: "player_id", type: "string", optional: true, values: rows.map((row) => row.player_id) },
+    { name: "player_name", type: "string", optional: true, values: rows.map((row) => row.player_name) },
+    { name: "side", type: "string", optional: true, values: rows.map((row) => row.side) },
+    { name: "line", type: "double", optional: true, values: rows.map((row) => row.line) },
+    { name: "price", type: "int32", values: rows.map((row) => row.price) },
+    { name: "timestamp", type: "timestamp", values: rows.map((row) => row.timestamp) },
+  ]);
+}
@@ -0,0 +1,40 @@
+/**
+ * Odds Archive Library
+ *
+ * Persistent, queryable history of every price change on the odds feed.
+ * The archive-odds cron subscribes to the odds pub/sub channels and stores
+ * delta-encoded per-selection series in monthly Postgres partitions; the
+ * archive API and line-history chart read them back by sport, event,
+ * market, player, book and date range.
+ */
+
+// Types
+export type {
+  ArchivePoint,
+  ArchiveSelectionMeta,
+  EncodedSeries,
+  OddsArchiveChunkRow,
+  OddsArchiveQuery,
+  OddsArchiveSeries,
+  OddsArchiveQueryResult,
+  OddsArchiveExportFormat,
+  OddsArchiveCaptureSummary,
+} from "./types";
+
+// Codec
+export { compactPoints, encodeSeries, decodeSeries, mergeChunks } from "./codec";
+
+// Export
+export { flattenSeries, seriesToCsv, seriesToParquet } from "./export";
+export type { OddsArchiveExportRow } from "./export";
+export { writeParquet } from "./parquet";
+export type { ParquetColumn, ParquetColumnType } from "./parquet";
+
+// Recorder + capture (server)
+export { OddsArchiveRecorder } from "./recorder";
+export type { ArchiveLastPrices } from "./recorder";
+export { loadArchiveLastPrices, saveArchiveLastPrices } from "./state";
+export { ARCHIVE_SPORTS, runOddsArchiveWindow } from "./capture";
+
+// Query (server)
+export { queryOddsArchive } from "./query";
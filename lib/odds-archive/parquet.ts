@@ -0,0 +1,285 @@
+/**
+ * Minimal Parquet Writer
+ *
+ * Writes a single row group, one uncompressed PLAIN-encoded data page per
+ * column, which every Parquet reader (pandas, DuckDB, Spark) accepts.
+ * Metadata is Thrift compact protocol, written by hand so exports don't
+ * need a native dependency.
+ */
+
+export type ParquetColumnType = "string" | "int32" | "int64" | "double" | "timestamp";
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+  optional?: boolean;
+  values: Array<string | number | null>;
+}
+
+// parquet.thrift enums
+const PARQUET_TYPE = { INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const REPETITION = { REQUIRED: 0, OPTIONAL: 1 } as const;
+const CONVERTED_TYPE = { UTF8: 0, TIMESTAMP_MILLIS: 9 } as const;
+const ENCODING = { PLAIN: 0, RLE: 3 } as const;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+// Thrift compact protocol field types
+const CT_I32 = 5;
+const CT_I64 = 6;
+const CT_BINARY = 8;
+const CT_LIST = 9;
+const CT_STRUCT = 12;
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31]; // "PAR1"
+const utf8 = new TextEncoder();
+
+/** push(...source) overflows the call stack on large pages */
+function append(target: number[], source: ArrayLike<number>): void {
+  for (let i = 0; i < source.length; i++) target.push(source[i]);
+}
+
+class CompactWriter {
+  readonly bytes: number[] = [];
+  private lastFieldIds: number[] = [0];
+
+  // Plain arithmetic instead of bit ops keeps i64 values (epoch ms) exact
+  private varint(value: number): void {
+    let v = value;
+    while (v >= 0x80) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+
+  private zigzag(value: number): void {
+    const v = Math.trunc(value);
+    this.varint(v >= 0 ? v * 2 : -v * 2 - 1);
+  }
+
+  private fieldHeader(id: number, type: number): void {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type);
+    } else {
+      this.bytes.push(type);
+      this.zigzag(id);
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  private listHeader(size: number, elementType: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | elementType);
+    } else {
+      this.bytes.push(0xf0 | elementType);
+      this.varint(size);
+    }
+  }
+
+  private binary(value: Uint8Array): void {
+    this.varint(value.length);
+    append(this.bytes, value);
+  }
+
+  i32(id: number, value: number): this {
+    this.fieldHeader(id, CT_I32);
+    this.zigzag(value);
+    return this;
+  }
+
+  i64(id: number, value: number): this {
+    this.fieldHeader(id, CT_I64);
+    this.zigzag(value);
+    return this;
+  }
+
+  string(id: number, value: string): this {
+    this.fieldHeader(id, CT_BINARY);
+    this.binary(utf8.encode(value));
+    return this;
+  }
+
+  i32List(id: number, values: number[]): this {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(values.length, CT_I32);
+    values.forEach((value) => this.zigzag(value));
+    return this;
+  }
+
+  stringList(id: number, values: string[]): this {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(values.length, CT_BINARY);
+    values.forEach((value) => this.binary(utf8.encode(value)));
+    return this;
+  }
+
+  structList<T>(id: number, items: T[], write: (writer: this, item: T) => void): this {
+    this.fieldHeader(id, CT_LIST);
+    this.listHeader(items.length, CT_STRUCT);
+    items.forEach((item) => {
+      this.lastFieldIds.push(0);
+      write(this, item);
+      this.stop();
+    });
+    return this;
+  }
+
+  struct(id: number, write: (writer: this) => void): this {
+    this.fieldHeader(id, CT_STRUCT);
+    this.lastFieldIds.push(0);
+    write(this);
+    return this.stop();
+  }
+
+  /** End the current struct */
+  stop(): this {
+    this.bytes.push(0);
+    if (this.lastFieldIds.length > 1) this.lastFieldIds.pop();
+    return this;
+  }
+}
+
+function physicalType(type: ParquetColumnType): number {
+  if (type === "string") return PARQUET_TYPE.BYTE_ARRAY;
+  if (type === "int32") return PARQUET_TYPE.INT32;
+  if (type === "double") return PARQUET_TYPE.DOUBLE;
+  return PARQUET_TYPE.INT64;
+}
+
+function plainValues(type: ParquetColumnType, values: Array<string | number>): number[] {
+  const out: number[] = [];
+  const scratch = new DataView(new ArrayBuffer(8));
+  const pushScratch = (length: number) => {
+    for (let i = 0; i < length; i++) out.push(scratch.getUint8(i));
+  };
+
+  for (const value of values) {
+    if (type === "string") {
+      const encoded = utf8.encode(String(value));
+      scratch.setUint32(0, encoded.length, true);
+      pushScratch(4);
+      append(out, encoded);
+    } else if (type === "int32") {
+      scratch.setInt32(0, Math.round(Number(value)), true);
+      pushScratch(4);
+    } else if (type === "double") {
+      scratch.setFloat64(0, Number(value), true);
+      pushScratch(8);
+    } else {
+      scratch.setBigInt64(0, BigInt(Math.round(Number(value))), true);
+      pushScratch(8);
+    }
+  }
+  return out;
+}
+
+/**
+ * Definition levels (bit width 1) as RLE runs with the 4-byte length prefix
+ * data page v1 expects.
+ */
+function definitionLevels(values: Array<string | number | null>): number[] {
+  const runs: number[] = [];
+  let i = 0;
+  while (i < values.length) {
+    const level = values[i] == null ? 0 : 1;
+    let run = 1;
+    while (i + run < values.length && (values[i + run] == null ? 0 : 1) === level) run++;
+    let header = run << 1;
+    while (header >= 0x80) {
+      runs.push((header & 0x7f) | 0x80);
+      header >>>= 7;
+    }
+    runs.push(header, level);
+    i += run;
+  }
+  const length = runs.length;
+  const out = [length & 0xff, (length >>> 8) & 0xff, (length >>> 16) & 0xff, (length >>> 24) & 0xff];
+  append(out, runs);
+  return out;
+}
+
+/**
+ * Encode columns as a Parquet file. Every column must have the same length.
+ */
+export function writeParquet(columns: ParquetColumn[]): Uint8Array {
+  const rowCount = columns[0]?.values.length ?? 0;
+  if (columns.some((column) => column.values.length !== rowCount)) {
+    throw new Error("Parquet columns must have the same length");
+  }
+
+  const file: number[] = [...MAGIC];
+  const chunks: Array<{ column: ParquetColumn; offset: number; size: number }> = [];
+
+  for (const column of columns) {
+    const present = column.values.filter((value): value is string | number => value != null);
+    if (!column.optional && present.length !== rowCount) {
+      throw new Error(`Required Parquet column ${column.name} has nulls`);
+    }
+
+    const body = column.optional ? definitionLevels(column.values) : [];
+    append(body, plainValues(column.type, present));
+    const header = new CompactWriter()
+      .i32(1, PAGE_TYPE_DATA)
+      .i32(2, body.length)
+      .i32(3, body.length)
+      .struct(5, (writer) =>
+        writer
+          .i32(1, rowCount)
+          .i32(2, ENCODING.PLAIN)
+          .i32(3, ENCODING.RLE)
+          .i32(4, ENCODING.RLE)
+      )
+      .stop();
+
+    const offset = file.length;
+    append(file, header.bytes);
+    append(file, body);
+    chunks.push({ column, offset, size: file.length - offset });
+  }
+
+  const totalSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  const metadata = new CompactWriter()
+    .i32(1, 1)
+    .structList(2, [null, ...columns], (writer, column) => {
+      if (!column) {
+        writer.string(4, "schema").i32(5, columns.length);
+        return;
+      }
+      writer
+        .i32(1, physicalType(column.type))
+        .i32(3, column.optional ? REPETITION.OPTIONAL : REPETITION.REQUIRED)
+        .string(4, column.name);
+      if (column.type === "string") writer.i32(6, CONVERTED_TYPE.UTF8);
+      if (column.type === "timestamp") writer.i32(6, CONVERTED_TYPE.TIMESTAMP_MILLIS);
+    })
+    .i64(3, rowCount)
+    .structList(4, [chunks], (writer, rowGroupChunks) => {
+      writer
+        .structList(1, rowGroupChunks, (chunkWriter, chunk) => {
+          chunkWriter.i64(2, chunk.offset).struct(3, (meta) =>
+            meta
+              .i32(1, physicalType(chunk.column.type))
+              .i32List(2, [ENCODING.PLAIN, ENCODING.RLE])
+              .stringList(3, [chunk.column.name])
+              .i32(4, CODEC_UNCOMPRESSED)
+              .i64(5, rowCount)
+              .i64(6, chunk.size)
+              .i64(7, chunk.size)
+              .i64(9, chunk.offset)
+          );
+        })
+        .i64(2, totalSize)
+        .i64(3, rowCount);
+    })
+    .string(6, "unjuiced odds archive")
+    .stop();
+
+  const footerLength = metadata.bytes.length;
+  append(file, metadata.bytes);
+  append(file, [footerLength & 0xff, (footerLength >>> 8) & 0xff, (footerLength >>> 16) & 0xff, (footerLength >>> 24) & 0xff]);
+  append(file, MAGIC);
+  return Uint8Array.from(file);
+}
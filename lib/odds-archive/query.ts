@@ -0,0 +1,128 @@
+/**
+ * Odds Archive Query (server)
+ *
+ * Reads archived chunks for a filter and date range and rebuilds one
+ * continuous price series per selection and book.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { normalizePlayerName } from "@/lib/odds/types";
+import { decodeSeries, mergeChunks } from "./codec";
+import type {
+  ArchivePoint,
+  OddsArchiveChunkRow,
+  OddsArchiveQuery,
+  OddsArchiveQueryResult,
+  OddsArchiveSeries,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const DEFAULT_CHUNK_LIMIT = 20_000;
+/** PostgREST caps each response at its max-rows setting (1000 by default) */
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function matchesPlayer(row: OddsArchiveChunkRow, player: string): boolean {
+  if (row.player_id && row.player_id === player) return true;
+  const target = normalizePlayerName(player);
+  const name = normalizePlayerName(row.player_name || "");
+  return !!target && !!name && (name.includes(target) || target.includes(name));
+}
+
+/**
+ * Read matching chunks newest first, a page at a time, up to `limit`.
+ * One extra row is requested to tell whether anything older was left out.
+ */
+async function loadChunks(
+  supabase: SupabaseClient,
+  query: OddsArchiveQuery
+): Promise<{ rows: OddsArchiveChunkRow[]; truncated: boolean }> {
+  const limit = query.limit ?? DEFAULT_CHUNK_LIMIT;
+  const rows: OddsArchiveChunkRow[] = [];
+
+  while (rows.length <= limit) {
+    const pageSize = Math.min(PAGE_SIZE, limit + 1 - rows.length);
+    // Bucket is the chunk's start date; chunks never span more than a flush,
+    // so one day of slack on the lower bound covers anything open at `from`
+    let request = supabase
+      .from("odds_archive_chunks")
+      .select(
+        "sport, event_id, market, book, selection_key, player_id, player_name, side, line, base_ts, base_price, ts_deltas, price_deltas, points, start_ts, end_ts, bucket_date"
+      )
+      .eq("sport", query.sport)
+      .gte("bucket_date", toDateString(query.from - DAY_MS))
+      .lte("bucket_date", toDateString(query.to))
+      .lte("start_ts", query.to);
+
+    if (query.eventId) request = request.eq("event_id", query.eventId);
+    if (query.market) request = request.eq("market", query.market);
+    if (query.books?.length) request = request.in("book", query.books);
+    if (query.side) request = request.eq("side", query.side);
+    if (query.line != null) request = request.eq("line", query.line);
+
+    const { data, error } = await request
+      .order("start_ts", { ascending: false })
+      .order("id", { ascending: false })
+      .range(rows.length, rows.length + pageSize - 1);
+    if (error) throw new Error(`Failed to query odds archive: ${error.message}`);
+
+    const page = (data || []) as OddsArchiveChunkRow[];
+    rows.push(...page);
+    if (page.length < pageSize) break;
+  }
+
+  const truncated = rows.length > limit;
+  return { rows: truncated ? rows.slice(0, limit) : rows, truncated };
+}
+
+/**
+ * Series matching the query, sorted by book then selection. Points are
+ * clipped to [from, to], with the last price before `from` carried in as
+ * the opening point so the series starts at the price in effect.
+ */
+export async function queryOddsArchive(
+  supabase: SupabaseClient,
+  query: OddsArchiveQuery
+): Promise<OddsArchiveQueryResult> {
+  const { rows, truncated } = await loadChunks(supabase, query);
+
+  const grouped = new Map<string, { meta: OddsArchiveChunkRow; chunks: ArchivePoint[][] }>();
+  for (const row of rows) {
+    if (query.player && !matchesPlayer(row, query.player)) continue;
+    const key = `${row.event_id}|${row.market}|${row.book}|${row.selection_key}`;
+    const entry = grouped.get(key) ?? { meta: row, chunks: [] };
+    entry.chunks.push(decodeSeries(row));
+    grouped.set(key, entry);
+  }
+
+  const series: OddsArchiveSeries[] = [];
+  for (const { meta, chunks } of grouped.values()) {
+    const merged = mergeChunks(chunks);
+    const before = merged.filter((point) => point.timestamp < query.from);
+    const inRange = merged.filter((point) => point.timestamp >= query.from && point.timestamp <= query.to);
+    const opening = before[before.length - 1];
+    const points = opening ? [{ price: opening.price, timestamp: query.from }, ...inRange] : inRange;
+    if (points.length === 0) continue;
+
+    series.push({
+      sport: meta.sport,
+      event_id: meta.event_id,
+      market: meta.market,
+      book: meta.book,
+      selection_key: meta.selection_key,
+      player_id: meta.player_id,
+      player_name: meta.player_name,
+      side: meta.side,
+      line: meta.line != null ? Number(meta.line) : null,
+      points,
+    });
+  }
+
+  series.sort((a, b) => a.book.localeCompare(b.book) || a.selection_key.localeCompare(b.selection_key));
+  return { series, truncated };
+}
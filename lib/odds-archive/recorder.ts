@@ -0,0 +1,173 @@
+/**
+ * Odds Archive Recorder
+ *
+ * Holds the last seen price of every selection touched during a capture
+ * window and turns price changes into encoded chunk rows. Last prices can
+ * be seeded from the previous window so its final prices aren't recorded
+ * again as first sightings.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { parseBookOddsKey, type SSEBookSelections, type SSESelection } from "@/lib/odds/types";
+import { encodeSeries } from "./codec";
+import type { ArchivePoint, ArchiveSelectionMeta, OddsArchiveChunkRow } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const INSERT_BATCH_SIZE = 500;
+
+interface SelectionState {
+  oddsKey: string;
+  meta: ArchiveSelectionMeta;
+  lastPrice: number | null;
+  pending: ArchivePoint[];
+}
+
+function parsePrice(price: unknown): number | null {
+  if (typeof price === "number" && Number.isFinite(price)) return Math.round(price);
+  if (typeof price !== "string") return null;
+  const parsed = parseInt(price.replace(/\u2212/g, "-").replace("+", ""), 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function selectionMeta(
+  key: { sport: string; eventId: string; market: string; book: string },
+  selectionId: string,
+  selection: SSESelection
+): ArchiveSelectionMeta {
+  const line = Number(selection.line);
+  return {
+    sport: key.sport,
+    event_id: key.eventId,
+    market: key.market,
+    book: key.book,
+    selection_key: selection.odd_id || selectionId,
+    player_id: selection.player_id || null,
+    player_name: selection.player || null,
+    side: selection.side || null,
+    line: Number.isFinite(line) ? line : null,
+  };
+}
+
+/** Last price per selection key for one book key */
+export type ArchiveLastPrices = Record<string, number>;
+
+export class OddsArchiveRecorder {
+  private selections = new Map<string, SelectionState>();
+  /** Book key -> last prices carried over from the previous window */
+  private seeded = new Map<string, ArchiveLastPrices>();
+  private changeCount = 0;
+
+  get changes(): number {
+    return this.changeCount;
+  }
+
+  hasKey(oddsKey: string): boolean {
+    return this.seeded.has(oddsKey);
+  }
+
+  /**
+   * Start a book key from the previous window's last prices (or from
+   * nothing, so every selection is a first sighting).
+   */
+  seed(oddsKey: string, prices: ArchiveLastPrices | null): void {
+    if (!this.seeded.has(oddsKey)) this.seeded.set(oddsKey, prices ?? {});
+  }
+
+  /**
+   * Last known price of every selection per book key, to carry into the
+   * next window.
+   */
+  lastPrices(): Array<[string, ArchiveLastPrices]> {
+    const byKey = new Map<string, ArchiveLastPrices>();
+    for (const [oddsKey, prices] of this.seeded) byKey.set(oddsKey, { ...prices });
+    for (const state of this.selections.values()) {
+      if (state.lastPrice == null) continue;
+      const prices = byKey.get(state.oddsKey) ?? {};
+      prices[state.meta.selection_key] = state.lastPrice;
+      byKey.set(state.oddsKey, prices);
+    }
+    return [...byKey.entries()];
+  }
+
+  /**
+   * Record the current prices of one book's selections. Returns how many
+   * selections changed price (first sightings without a seeded price count
+   * as changes).
+   */
+  observe(oddsKey: string, selections: SSEBookSelections, timestamp: number): number {
+    const key = parseBookOddsKey(oddsKey);
+    if (!key) return 0;
+
+    const carried = this.seeded.get(oddsKey);
+    let changed = 0;
+    for (const [selectionId, selection] of Object.entries(selections || {})) {
+      if (!selection || selection.locked) continue;
+      const price = parsePrice(selection.price);
+      if (price == null) continue;
+
+      const selectionKey = selection.odd_id || selectionId;
+      const stateKey = `${oddsKey}|${selectionKey}`;
+      let state = this.selections.get(stateKey);
+      if (!state) {
+        state = {
+          oddsKey,
+          meta: selectionMeta(key, selectionId, selection),
+          lastPrice: carried?.[selectionKey] ?? null,
+          pending: [],
+        };
+        this.selections.set(stateKey, state);
+      }
+      if (state.lastPrice === price) continue;
+
+      state.lastPrice = price;
+      state.pending.push({ price, timestamp });
+      changed++;
+    }
+
+    this.changeCount += changed;
+    return changed;
+  }
+
+  /**
+   * Take every pending run as a chunk row and reset the buffers. Last
+   * prices are kept so the next flush only stores real changes.
+   */
+  drain(): OddsArchiveChunkRow[] {
+    const rows: OddsArchiveChunkRow[] = [];
+    for (const state of this.selections.values()) {
+      if (state.pending.length === 0) continue;
+      const encoded = encodeSeries(state.pending);
+      rows.push({
+        ...state.meta,
+        ...encoded,
+        bucket_date: new Date(encoded.start_ts).toISOString().slice(0, 10),
+      });
+      state.pending = [];
+    }
+    return rows;
+  }
+
+  /**
+   * Write pending chunks. Returns rows written; failed batches are logged
+   * and dropped so one bad insert can't stall the capture loop.
+   */
+  async flush(supabase: SupabaseClient): Promise<{ written: number; errors: number }> {
+    const rows = this.drain();
+    let written = 0;
+    let errors = 0;
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+      const { error } = await supabase.from("odds_archive_chunks").insert(batch);
+      if (error) {
+        console.error("[odds-archive] Failed to write chunks:", error.message);
+        errors++;
+        continue;
+      }
+      written += batch.length;
+    }
+
+    return { written, errors };
+  }
+}
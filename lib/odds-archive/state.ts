@@ -0,0 +1,42 @@
+/**
+ * Odds Archive Window State (server)
+ *
+ * Last recorded prices per book key, saved when a capture window closes
+ * and loaded by the next one so unchanged prices aren't archived again.
+ */
+
+import { redis } from "@/lib/redis";
+import type { ArchiveLastPrices } from "./recorder";
+
+const STATE_KEY_PREFIX = "odds_archive:last:";
+/** Long enough to bridge a few skipped cron runs */
+const STATE_TTL_SECONDS = 30 * 60;
+const BATCH_SIZE = 100;
+
+export async function loadArchiveLastPrices(oddsKeys: string[]): Promise<Map<string, ArchiveLastPrices | null>> {
+  const result = new Map<string, ArchiveLastPrices | null>();
+  for (let i = 0; i < oddsKeys.length; i += BATCH_SIZE) {
+    const batch = oddsKeys.slice(i, i + BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch.map((key) => `${STATE_KEY_PREFIX}${key}`));
+    batch.forEach((key, j) => {
+      const value = raw[j];
+      if (!value) return result.set(key, null);
+      try {
+        result.set(key, (typeof value === "string" ? JSON.parse(value) : value) as ArchiveLastPrices);
+      } catch {
+        result.set(key, null);
+      }
+    });
+  }
+  return result;
+}
+
+export async function saveArchiveLastPrices(entries: Array<[string, ArchiveLastPrices]>): Promise<void> {
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const pipeline = redis.pipeline();
+    for (const [oddsKey, prices] of entries.slice(i, i + BATCH_SIZE)) {
+      pipeline.set(`${STATE_KEY_PREFIX}${oddsKey}`, JSON.stringify(prices), { ex: STATE_TTL_SECONDS });
+    }
+    await pipeline.exec();
+  }
+}
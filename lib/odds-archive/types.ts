@@ -0,0 +1,89 @@
+/**
+ * Odds Archive Types
+ *
+ * Persistent per-selection price history captured from the odds feed.
+ * Each stored chunk is a delta-encoded run of price changes for one
+ * selection at one book.
+ */
+
+export interface ArchivePoint {
+  /** American odds */
+  price: number;
+  /** Epoch ms */
+  timestamp: number;
+}
+
+/** Identifies one selection at one book */
+export interface ArchiveSelectionMeta {
+  sport: string;
+  event_id: string;
+  market: string;
+  book: string;
+  /** odd_id when the feed provides one, else player|side|line */
+  selection_key: string;
+  player_id: string | null;
+  player_name: string | null;
+  side: string | null;
+  line: number | null;
+}
+
+/**
+ * Delta-encoded series: the first point is stored as base_ts / base_price,
+ * every following point as the difference from the one before it.
+ */
+export interface EncodedSeries {
+  base_ts: number;
+  base_price: number;
+  ts_deltas: number[];
+  price_deltas: number[];
+  points: number;
+  start_ts: number;
+  end_ts: number;
+}
+
+/** Row shape of public.odds_archive_chunks */
+export interface OddsArchiveChunkRow extends ArchiveSelectionMeta, EncodedSeries {
+  /** UTC date of start_ts (partition key) */
+  bucket_date: string;
+}
+
+export interface OddsArchiveQuery {
+  sport: string;
+  eventId?: string;
+  market?: string;
+  /** Player name or odds player id */
+  player?: string;
+  books?: string[];
+  side?: string;
+  line?: number;
+  /** Epoch ms, inclusive */
+  from: number;
+  /** Epoch ms, inclusive */
+  to: number;
+  /** Max chunks read, newest first (default 20000) */
+  limit?: number;
+}
+
+export interface OddsArchiveSeries extends ArchiveSelectionMeta {
+  points: ArchivePoint[];
+}
+
+export interface OddsArchiveQueryResult {
+  series: OddsArchiveSeries[];
+  /** More chunks matched than `limit`; the oldest ones were left out */
+  truncated: boolean;
+}
+
+export type OddsArchiveExportFormat = "json" | "csv" | "parquet";
+
+export interface OddsArchiveCaptureSummary {
+  sports: string[];
+  /** Pub/sub update messages received */
+  messages: number;
+  /** Odds keys re-read from Redis */
+  keysRead: number;
+  /** Price changes recorded */
+  changes: number;
+  chunksWritten: number;
+  errors: number;
+}
@@ -43,7 +43,7 @@ export interface LineHistoryBookData {
   clv: LineHistorySnapshot;
   currentPrice: number | null;
   entries: LineHistoryPoint[];
-  source: "cache" | "vendor";
+  source: "cache" | "vendor" | "archive";
 }
 
 export interface LineHistoryApiRequest {
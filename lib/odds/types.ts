@@ -263,6 +263,17 @@ export function getBookOddsKey(sport: string, eventId: string, market: string, b
   return `odds:${sport}:${eventId}:${market}:${book}`;
 }
 
+/**
+ * Parse a book odds key (`odds:{sport}:{eventId}:{market}:{book}`)
+ */
+export function parseBookOddsKey(oddsKey: string): { sport: string; eventId: string; market: string; book: string } | null {
+  const parts = oddsKey.split(":");
+  if (parts.length < 5 || parts[0] !== "odds") return null;
+  const [, sport, eventId, market, book] = parts;
+  if (!sport || !eventId || !market || !book) return null;
+  return { sport, eventId, market, book };
+}
+
 // =============================================================================
 // DATA TYPES
 // =============================================================================
@@ -0,0 +1,61 @@
+/**
+ * Upcoming events + raw book selections (server)
+ *
+ * Shared readers for scanners that walk every book's odds for a sport's
+ * upcoming pregame events (middles, promo converter).
+ */
+
+import { redis } from "@/lib/redis";
+import { getActiveEventsKey, getEventKey, type SSEBookSelections, type SSEEvent } from "./types";
+
+const DEFAULT_LOOKAHEAD_MS = 48 * 60 * 60 * 1000;
+const DEFAULT_MAX_EVENTS = 30;
+
+export function parseBookSelections(value: unknown): SSEBookSelections | null {
+  if (!value) return null;
+  if (typeof value === "object") return value as SSEBookSelections;
+  if (typeof value !== "string" || !value.trim().startsWith("{")) return null;
+  try {
+    return JSON.parse(value) as SSEBookSelections;
+  } catch {
+    return null;
+  }
+}
+
+function parseEvent(value: unknown): SSEEvent | null {
+  if (!value) return null;
+  if (typeof value === "object") return value as SSEEvent;
+  try {
+    return JSON.parse(String(value)) as SSEEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pregame events starting within the lookahead window, soonest first.
+ * `minLeadMs` skips events starting sooner than that.
+ */
+export async function getUpcomingEvents(
+  sport: string,
+  {
+    now = Date.now(),
+    lookaheadMs = DEFAULT_LOOKAHEAD_MS,
+    maxEvents = DEFAULT_MAX_EVENTS,
+    minLeadMs = 0,
+  }: { now?: number; lookaheadMs?: number; maxEvents?: number; minLeadMs?: number } = {}
+): Promise<SSEEvent[]> {
+  const ids = ((await redis.smembers(getActiveEventsKey(sport))) ?? []).map(String);
+  if (ids.length === 0) return [];
+
+  const raw = await redis.mget<unknown[]>(...ids.map((id) => getEventKey(sport, id)));
+  return raw
+    .map(parseEvent)
+    .filter((ev): ev is SSEEvent => {
+      if (!ev || ev.is_live) return false;
+      const start = Date.parse(ev.commence_time);
+      return Number.isFinite(start) && start > now + minLeadMs && start - now <= lookaheadMs;
+    })
+    .sort((a, b) => Date.parse(a.commence_time) - Date.parse(b.commence_time))
+    .slice(0, maxEvents);
+}
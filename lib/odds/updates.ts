@@ -0,0 +1,116 @@
+/**
+ * Odds update listener (server)
+ *
+ * Follows the odds_updates:{sport} pub/sub channels the ingestors publish
+ * to and re-reads the book keys they name. Shared by the odds archive, the
+ * steam detector and the stale-line sniper crons.
+ */
+
+import { redis } from "@/lib/redis";
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import { listenPubSub } from "@/lib/sse-pubsub";
+import { parseBookSelections } from "./upcoming-events";
+import type { SSEBookSelections } from "./types";
+
+const MGET_BATCH_SIZE = 100;
+const WINDOW_KEY_PREFIX = "odds_window:";
+const WINDOW_KEY_TTL_SECONDS = 5 * 60;
+const HANDOFF_POLL_MS = 500;
+
+/** Message published on odds_updates:{sport} */
+export interface OddsUpdateMessage {
+  type: "update";
+  /** Book keys: odds:{sport}:{eventId}:{market}:{book} */
+  keys: string[];
+  count: number;
+  timestamp?: string;
+}
+
+/**
+ * Subscribe to every sport's update channel until the signal aborts.
+ * Resolves once all listeners have stopped; listener failures go to
+ * onError instead of rejecting.
+ */
+export async function listenOddsUpdates(opts: {
+  sports: string[];
+  signal: AbortSignal;
+  onKeys: (sport: string, keys: string[]) => void;
+  onError?: (sport: string, error: unknown) => void;
+}): Promise<void> {
+  const { sports, signal, onKeys, onError } = opts;
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) {
+    onError?.("*", new Error("Pub/sub endpoint is not configured"));
+    return;
+  }
+
+  await Promise.all(
+    sports.map((sport) =>
+      listenPubSub({
+        url: endpoint.url!,
+        token: endpoint.token!,
+        channel: `odds_updates:${sport}`,
+        signal,
+        onPayload: (payload) => {
+          try {
+            const message = JSON.parse(payload) as Partial<OddsUpdateMessage>;
+            if (message.type === "update" && Array.isArray(message.keys) && message.keys.length > 0) {
+              onKeys(sport, message.keys);
+            }
+          } catch {
+            // Not an update message
+          }
+        },
+      }).catch((error) => {
+        if (!signal.aborted) onError?.(sport, error);
+      })
+    )
+  );
+}
+
+/**
+ * Current selections for a list of book keys; missing or malformed keys
+ * are skipped.
+ */
+export async function readBookSelections(keys: string[]): Promise<Array<[string, SSEBookSelections]>> {
+  const result: Array<[string, SSEBookSelections]> = [];
+  for (let i = 0; i < keys.length; i += MGET_BATCH_SIZE) {
+    const batch = keys.slice(i, i + MGET_BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch);
+    batch.forEach((key, j) => {
+      const selections = parseBookSelections(raw[j]);
+      if (selections) result.push([key, selections]);
+    });
+  }
+  return result;
+}
+
+/**
+ * Register a cron window that overlaps the previous run of the same job and
+ * wait until that run has closed, or maxWaitMs has passed. Jobs that save
+ * state at the end of a window keep buffering keys while they wait, then
+ * load state the previous run has finished writing. Call close() once this
+ * window's state is saved.
+ */
+export async function openFeedWindow(
+  name: string,
+  opts: { maxWaitMs: number; signal?: AbortSignal }
+): Promise<{ close: () => Promise<void> }> {
+  const openKey = `${WINDOW_KEY_PREFIX}${name}:open`;
+  const closedKey = `${WINDOW_KEY_PREFIX}${name}:closed`;
+  const runId = `${Date.now()}:${Math.random().toString(36).slice(2, 10)}`;
+  const close = async () => {
+    await redis.set(closedKey, runId, { ex: WINDOW_KEY_TTL_SECONDS });
+  };
+
+  const previous = await redis.set<string>(openKey, runId, { get: true, ex: WINDOW_KEY_TTL_SECONDS });
+  if (typeof previous !== "string") return { close };
+
+  const deadline = Date.now() + opts.maxWaitMs;
+  while (Date.now() < deadline && !opts.signal?.aborted) {
+    const closed = await redis.get<string>(closedKey);
+    if (closed != null && String(closed) === previous) break;
+    await new Promise((resolve) => setTimeout(resolve, HANDOFF_POLL_MS));
+  }
+  return { close };
+}
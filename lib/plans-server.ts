@@ -1,5 +1,6 @@
 import { User } from "@supabase/supabase-js";
 import { createClient } from "@/libs/supabase/server";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
 import { PLAN_LIMITS, normalizePlanName, type UserPlan } from "./plans";
 
 /**
@@ -39,3 +40,30 @@ export async function getUserPlan(user: User | null): Promise<UserPlan> {
     return "free";
   }
 }
+
+/**
+ * Plan for a user id without a cookie session (API keys, webhooks). Uses the
+ * service role client, so only call it after the caller has been
+ * authenticated some other way.
+ */
+export async function getUserPlanById(userId: string): Promise<UserPlan> {
+  try {
+    const supabase = createServerSupabaseClient();
+    const { data: entitlement, error } = await supabase
+      .from("current_entitlements")
+      .select("current_plan")
+      .eq("user_id", userId)
+      .single();
+
+    if (error || !entitlement) {
+      console.error("Error fetching user entitlement:", error);
+      return "free";
+    }
+
+    const normalized = normalizePlanName(String(entitlement.current_plan || "free"));
+    return normalized in PLAN_LIMITS ? (normalized as UserPlan) : "free";
+  } catch (error) {
+    console.error("Error in getUserPlanById:", error);
+    return "free";
+  }
+}
@@ -57,6 +57,15 @@ export const PLAN_LIMITS = {
       hasAccess: false,
       hasEVSignals: false,
     },
+    api: {
+      // Rate limits (lib/rate-limit.ts): per user, or per IP when signed out
+      requestsPerMinute: 30,
+      sseConnectionsPerMinute: 5,
+      // Public REST API (lib/public-api): personal keys and daily quota
+      // summed across them; 0 = no API access
+      apiKeys: 0,
+      publicRequestsPerDay: 0,
+    },
   },
   free: {
     arbitrage: {
@@ -80,6 +89,12 @@ export const PLAN_LIMITS = {
       hasAccess: false,
       hasEVSignals: false,
     },
+    api: {
+      requestsPerMinute: 60,
+      sseConnectionsPerMinute: 10,
+      apiKeys: 0,
+      publicRequestsPerDay: 0,
+    },
   },
   scout: {
     arbitrage: {
@@ -103,6 +118,12 @@ export const PLAN_LIMITS = {
       hasAccess: true, // Full Hit Rates access
       hasEVSignals: false,
     },
+    api: {
+      requestsPerMinute: 120,
+      sseConnectionsPerMinute: 10,
+      apiKeys: 0,
+      publicRequestsPerDay: 0,
+    },
   },
   sharp: {
     arbitrage: {
@@ -126,6 +147,12 @@ export const PLAN_LIMITS = {
       hasAccess: true,
       hasEVSignals: false,
     },
+    api: {
+      requestsPerMinute: 300,
+      sseConnectionsPerMinute: 30,
+      apiKeys: 2,
+      publicRequestsPerDay: 10000,
+    },
   },
   elite: {
     arbitrage: {
@@ -149,6 +176,12 @@ export const PLAN_LIMITS = {
       hasAccess: true,
       hasEVSignals: true, // EV-enhanced hit rates
     },
+    api: {
+      requestsPerMinute: 600,
+      sseConnectionsPerMinute: 60,
+      apiKeys: 5,
+      publicRequestsPerDay: 50000,
+    },
   },
 } as const;
 
@@ -0,0 +1,333 @@
+/**
+ * Wallet clustering job (server)
+ *
+ * Loads the scored wallets and their recent signals, looks up each wallet's
+ * first USDC funder on Polygon (a few per run, cached in
+ * `polymarket_wallet_funding`), clusters them and writes the result to
+ * `polymarket_wallet_clusters` plus `cluster_id / is_cluster_primary` on
+ * `polymarket_wallet_scores`. Also holds the read helpers the leaderboard,
+ * wallet and feed routes use to attach clusters.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { clusterPositionKey, clusterWallets } from "./clusters";
+import type { ClusterEntryInput, ClusterWalletInput } from "./clusters";
+import type { WalletCluster, WalletTier } from "./types";
+
+const LOOKBACK_DAYS = 60;
+const MIN_WALLET_BETS = 5;
+const MAX_WALLETS = 1000;
+const WALLET_CHUNK = 100;
+const MAX_SIGNALS_PER_CHUNK = 20000;
+const TOKEN_CHUNK = 200;
+
+const POLYGONSCAN_URL = "https://api.etherscan.io/v2/api";
+const POLYGON_CHAIN_ID = 137;
+/** Bridged USDC (USDC.e), Polymarket's collateral */
+const USDC_CONTRACT = "0x2791bca1f2de4661ed88a30c99a7a9449aa84174";
+const FUNDING_LOOKUPS_PER_RUN = 25;
+const FUNDING_RECHECK_DAYS = 30;
+const FUNDING_TIMEOUT_MS = 5000;
+/** Free-tier explorer keys allow 5 calls/s */
+const FUNDING_SPACING_MS = 250;
+
+export const CLUSTER_COLUMNS =
+  "cluster_id, primary_wallet, size, confidence, evidence, members, total_bets, wins, losses, win_rate, roi, total_wagered, total_profit, avg_stake, updated_at";
+
+export interface ClusterRunSummary {
+  wallets: number;
+  signals: number;
+  funding_checked: number;
+  links: number;
+  clusters: number;
+  clustered_wallets: number;
+}
+
+interface WalletScoreRow {
+  wallet_address: string;
+  wallet_username: string | null;
+  rank: number | null;
+  tier: WalletTier;
+  total_bets: number | null;
+  wins: number | null;
+  losses: number | null;
+  roi: number | null;
+  total_wagered: number | null;
+  total_profit: number | null;
+}
+
+interface FundingRow {
+  wallet_address: string;
+  funder: string | null;
+  checked_at: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * First inbound USDC transfer to the wallet. `undefined` means the lookup
+ * failed and should be retried; `null` means no inbound transfer was found.
+ */
+async function fetchFirstFunder(wallet: string, apiKey: string): Promise<{ funder: string; at: string } | null | undefined> {
+  const params = new URLSearchParams({
+    chainid: String(POLYGON_CHAIN_ID),
+    module: "account",
+    action: "tokentx",
+    contractaddress: USDC_CONTRACT,
+    address: wallet,
+    page: "1",
+    offset: "10",
+    sort: "asc",
+    apikey: apiKey,
+  });
+  try {
+    const res = await fetch(`${POLYGONSCAN_URL}?${params}`, {
+      signal: AbortSignal.timeout(FUNDING_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    if (!res.ok) return undefined;
+    const body = (await res.json()) as { status?: string; message?: string; result?: unknown };
+    if (!Array.isArray(body.result)) {
+      return body.message === "No transactions found" ? null : undefined;
+    }
+    const inbound = (body.result as Array<{ from?: string; to?: string; timeStamp?: string }>).find(
+      (tx) => tx.to?.toLowerCase() === wallet.toLowerCase() && !!tx.from
+    );
+    if (!inbound) return null;
+    return {
+      funder: inbound.from!.toLowerCase(),
+      at: new Date(Number(inbound.timeStamp ?? 0) * 1000).toISOString(),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Look up funders for wallets never checked, or not checked recently */
+async function refreshWalletFunding(
+  supabase: SupabaseClient,
+  wallets: string[],
+  known: Map<string, FundingRow>
+): Promise<number> {
+  const apiKey = process.env.POLYGONSCAN_API_KEY;
+  if (!apiKey) return 0;
+
+  const recheckBefore = Date.now() - FUNDING_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+  const due = wallets
+    .filter((w) => {
+      const row = known.get(w);
+      // A found funder never changes; only empty results are rechecked
+      return !row || (!row.funder && Date.parse(row.checked_at) < recheckBefore);
+    })
+    .slice(0, FUNDING_LOOKUPS_PER_RUN);
+
+  let checked = 0;
+  for (const wallet of due) {
+    const result = await fetchFirstFunder(wallet, apiKey);
+    if (result !== undefined) {
+      const row = {
+        wallet_address: wallet,
+        funder: result?.funder ?? null,
+        funded_at: result?.at ?? null,
+        checked_at: new Date().toISOString(),
+      };
+      const { error } = await supabase.from("polymarket_wallet_funding").upsert(row, { onConflict: "wallet_address" });
+      if (error) throw new Error(`funding upsert: ${error.message}`);
+      known.set(wallet, row);
+      checked++;
+    }
+    await sleep(FUNDING_SPACING_MS);
+  }
+  return checked;
+}
+
+async function loadSignals(supabase: SupabaseClient, wallets: string[]): Promise<ClusterEntryInput[]> {
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const entries: ClusterEntryInput[] = [];
+  for (let i = 0; i < wallets.length; i += WALLET_CHUNK) {
+    const { data, error } = await supabase
+      .from("polymarket_signals")
+      .select("wallet_address, token_id, condition_id, side, bet_size, created_at")
+      .in("wallet_address", wallets.slice(i, i + WALLET_CHUNK))
+      .gte("created_at", since)
+      .order("created_at", { ascending: true })
+      .limit(MAX_SIGNALS_PER_CHUNK);
+    if (error) throw new Error(`signals: ${error.message}`);
+    entries.push(...((data ?? []) as ClusterEntryInput[]));
+  }
+  return entries;
+}
+
+async function writeClusters(supabase: SupabaseClient, clusters: WalletCluster[]): Promise<void> {
+  if (clusters.length > 0) {
+    const rows = clusters.map((c) => ({
+      ...c,
+      wallet_addresses: c.members.map((m) => m.wallet_address),
+    }));
+    const { error } = await supabase.from("polymarket_wallet_clusters").upsert(rows, { onConflict: "cluster_id" });
+    if (error) throw new Error(`clusters upsert: ${error.message}`);
+  }
+
+  const ids = clusters.map((c) => c.cluster_id);
+  const stale = supabase.from("polymarket_wallet_clusters").delete();
+  const { error: deleteErr } =
+    ids.length > 0 ? await stale.not("cluster_id", "in", `(${ids.join(",")})`) : await stale.neq("cluster_id", "");
+  if (deleteErr) throw new Error(`clusters delete: ${deleteErr.message}`);
+
+  const { error: resetErr } = await supabase
+    .from("polymarket_wallet_scores")
+    .update({ cluster_id: null, is_cluster_primary: false })
+    .not("cluster_id", "is", null);
+  if (resetErr) throw new Error(`scores reset: ${resetErr.message}`);
+
+  for (const cluster of clusters) {
+    const { error } = await supabase
+      .from("polymarket_wallet_scores")
+      .update({ cluster_id: cluster.cluster_id, is_cluster_primary: false })
+      .in("wallet_address", cluster.members.map((m) => m.wallet_address));
+    if (error) throw new Error(`scores update: ${error.message}`);
+    const { error: primaryErr } = await supabase
+      .from("polymarket_wallet_scores")
+      .update({ is_cluster_primary: true })
+      .eq("wallet_address", cluster.primary_wallet);
+    if (primaryErr) throw new Error(`scores primary: ${primaryErr.message}`);
+  }
+}
+
+/** One clustering pass over the scored wallets */
+export async function runWalletClustering(supabase: SupabaseClient): Promise<ClusterRunSummary> {
+  const { data: scoreRows, error } = await supabase
+    .from("polymarket_wallet_scores")
+    .select("wallet_address, wallet_username, rank, tier, total_bets, wins, losses, roi, total_wagered, total_profit")
+    .gte("total_bets", MIN_WALLET_BETS)
+    .order("total_wagered", { ascending: false })
+    .limit(MAX_WALLETS);
+  if (error) throw new Error(`wallet scores: ${error.message}`);
+
+  const rows = (scoreRows ?? []) as WalletScoreRow[];
+  const addresses = rows.map((r) => r.wallet_address);
+
+  const known = new Map<string, FundingRow>();
+  for (let i = 0; i < addresses.length; i += WALLET_CHUNK) {
+    const { data } = await supabase
+      .from("polymarket_wallet_funding")
+      .select("wallet_address, funder, checked_at")
+      .in("wallet_address", addresses.slice(i, i + WALLET_CHUNK));
+    for (const row of (data ?? []) as FundingRow[]) known.set(row.wallet_address, row);
+  }
+  const fundingChecked = await refreshWalletFunding(supabase, addresses, known);
+
+  const entries = await loadSignals(supabase, addresses);
+  const wallets: ClusterWalletInput[] = rows.map((r) => ({
+    wallet_address: r.wallet_address,
+    wallet_username: r.wallet_username,
+    rank: r.rank,
+    tier: r.tier,
+    total_bets: r.total_bets ?? 0,
+    wins: r.wins ?? 0,
+    losses: r.losses ?? 0,
+    roi: r.roi,
+    total_wagered: r.total_wagered ?? 0,
+    total_profit: r.total_profit ?? 0,
+    funder: known.get(r.wallet_address)?.funder ?? null,
+  }));
+
+  const { clusters, links } = clusterWallets(wallets, entries);
+  await writeClusters(supabase, clusters);
+
+  return {
+    wallets: wallets.length,
+    signals: entries.length,
+    funding_checked: fundingChecked,
+    links: links.length,
+    clusters: clusters.length,
+    clustered_wallets: clusters.reduce((s, c) => s + c.size, 0),
+  };
+}
+
+/** Attach each wallet's cluster (by `cluster_id`) for the leaderboard / wallet panel */
+export async function attachClusters<T extends { cluster_id?: string | null; cluster?: WalletCluster | null }>(
+  supabase: SupabaseClient,
+  wallets: T[]
+): Promise<T[]> {
+  const ids = [...new Set(wallets.map((w) => w.cluster_id).filter((id): id is string => !!id))];
+  if (ids.length === 0) return wallets;
+
+  const { data, error } = await supabase.from("polymarket_wallet_clusters").select(CLUSTER_COLUMNS).in("cluster_id", ids);
+  if (error) {
+    console.error("[polymarket/clusters] Cluster fetch error:", error);
+    return wallets;
+  }
+  const byId = new Map((data as WalletCluster[]).map((c) => [c.cluster_id, c]));
+  return wallets.map((w) => ({ ...w, cluster: (w.cluster_id && byId.get(w.cluster_id)) || null }));
+}
+
+export interface ClusterPosition {
+  wallets: Set<string>;
+  stake: number;
+  /** Sum of the holding wallets' average stakes: the cluster's usual combined bet */
+  avgStake: number;
+}
+
+/**
+ * Every cluster member's stake on the tokens in `signals`, keyed by
+ * `clusterPositionKey`. Feeds cluster-level conviction into the signal score.
+ */
+export async function loadClusterPositions(
+  supabase: SupabaseClient,
+  clusterByWallet: Map<string, string>,
+  signals: Array<{ wallet_address: string; token_id: string | null }>
+): Promise<Map<string, ClusterPosition>> {
+  const positions = new Map<string, ClusterPosition>();
+  const clusterIds = [
+    ...new Set(signals.map((s) => clusterByWallet.get(s.wallet_address)).filter((id): id is string => !!id)),
+  ];
+  if (clusterIds.length === 0) return positions;
+
+  const { data: memberRows, error: memberErr } = await supabase
+    .from("polymarket_wallet_scores")
+    .select("wallet_address, cluster_id, avg_stake")
+    .in("cluster_id", clusterIds);
+  if (memberErr) {
+    console.error("[polymarket/clusters] Member fetch error:", memberErr);
+    return positions;
+  }
+  type MemberRow = { wallet_address: string; cluster_id: string; avg_stake: number | null };
+  const members = new Map<string, string>(
+    ((memberRows ?? []) as MemberRow[]).map((m) => [m.wallet_address, m.cluster_id])
+  );
+  const avgStakes = new Map<string, number>(
+    ((memberRows ?? []) as MemberRow[]).map((m) => [m.wallet_address, Number(m.avg_stake ?? 0)])
+  );
+
+  const tokens = [
+    ...new Set(
+      signals
+        .filter((s) => clusterByWallet.has(s.wallet_address))
+        .map((s) => s.token_id)
+        .filter((t): t is string => !!t)
+    ),
+  ];
+  for (let i = 0; i < tokens.length; i += TOKEN_CHUNK) {
+    const { data, error } = await supabase
+      .from("polymarket_signals")
+      .select("wallet_address, token_id, side, bet_size")
+      .in("token_id", tokens.slice(i, i + TOKEN_CHUNK))
+      .in("wallet_address", [...members.keys()]);
+    if (error) {
+      console.error("[polymarket/clusters] Position fetch error:", error);
+      continue;
+    }
+    for (const row of data ?? []) {
+      const clusterId = members.get(row.wallet_address);
+      if (!clusterId || !row.token_id) continue;
+      const key = clusterPositionKey(clusterId, row.token_id, row.side);
+      const pos = positions.get(key) ?? { wallets: new Set<string>(), stake: 0, avgStake: 0 };
+      if (!pos.wallets.has(row.wallet_address)) pos.avgStake += avgStakes.get(row.wallet_address) ?? 0;
+      pos.wallets.add(row.wallet_address);
+      pos.stake += row.bet_size ?? 0;
+      positions.set(key, pos);
+    }
+  }
+  return positions;
+}
@@ -0,0 +1,416 @@
+/**
+ * Wallet clustering for the whale leaderboard
+ *
+ * Sharp bettors often spread one book of bets across several wallets. Pairs
+ * of wallets are scored on four kinds of evidence:
+ *   - Co-timing: both entered the same token/side within minutes
+ *   - Sequence: the longest run of shared markets taken in the same order
+ *   - Funding: both were first funded by the same wallet (exchange and relay
+ *     addresses that fund many wallets are ignored)
+ *   - Stake: similar typical stake size
+ * Pairs above the link threshold are merged with union-find; each cluster is
+ * reported with stats summed across its members.
+ *
+ * Bots copying a wallet within minutes look the same as a split bettor; the
+ * co-timing window is kept tight so delayed copy-traders mostly fall out.
+ */
+
+import type { ClusterEvidence, WalletCluster, WalletClusterMember, WalletTier } from "./types";
+
+export interface ClusterEntryInput {
+  wallet_address: string;
+  token_id: string | null;
+  condition_id: string | null;
+  side: string | null;
+  bet_size: number | null;
+  created_at: string;
+}
+
+export interface ClusterWalletInput {
+  wallet_address: string;
+  wallet_username: string | null;
+  rank: number | null;
+  tier: WalletTier;
+  total_bets: number;
+  wins: number;
+  losses: number;
+  roi: number | null;
+  total_wagered: number;
+  total_profit: number;
+  funder: string | null;
+}
+
+export interface ClusterOptions {
+  /** Entries this close together count as co-timed */
+  coTimingWindowMs: number;
+  /** Minimum shared positions before a pair is scored on behaviour */
+  minShared: number;
+  /** Tokens held by more wallets than this are too popular to tell anything */
+  maxTokenWallets: number;
+  /** Funders of more tracked wallets than this are exchanges or relays */
+  maxFunderFanout: number;
+  linkThreshold: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  coTimingWindowMs: 5 * 60 * 1000,
+  minShared: 3,
+  maxTokenWallets: 40,
+  maxFunderFanout: 10,
+  linkThreshold: 0.4,
+};
+
+/** A shared funder scores the link threshold on its own */
+const WEIGHTS: ClusterEvidence = {
+  co_timing: 0.3,
+  sequence: 0.2,
+  funding: 0.4,
+  stake: 0.1,
+};
+
+/** Below this, co-timing alone doesn't count as behavioural evidence */
+const MIN_CO_TIMING = 0.25;
+/** A 4x gap in median stake scores zero stake similarity */
+const STAKE_RATIO_SPAN = Math.log(4);
+
+const TIER_ORDER: WalletTier[] = ["S", "A", "B", "C", "NEW", "FADE"];
+
+export interface WalletPairLink {
+  a: string;
+  b: string;
+  score: number;
+  evidence: ClusterEvidence;
+  shared: number;
+  co_timed: number;
+}
+
+interface Position {
+  key: string;
+  at: number;
+  size: number;
+}
+
+function clamp01(n: number): number {
+  return Math.min(1, Math.max(0, n));
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((x, y) => x - y);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * A wallet's fills on one token/side merge into a single position at the
+ * first fill, so order splitting doesn't inflate the overlap.
+ */
+export function buildPositions(entries: ClusterEntryInput[]): Map<string, Position[]> {
+  const byWallet = new Map<string, Map<string, Position>>();
+  for (const e of entries) {
+    const token = e.token_id || e.condition_id;
+    if (!token) continue;
+    const key = `${token}:${(e.side || "BUY").toUpperCase()}`;
+    const at = Date.parse(e.created_at);
+    if (!Number.isFinite(at)) continue;
+    const positions = byWallet.get(e.wallet_address) ?? new Map<string, Position>();
+    const existing = positions.get(key);
+    if (existing) {
+      existing.at = Math.min(existing.at, at);
+      existing.size += e.bet_size ?? 0;
+    } else {
+      positions.set(key, { key, at, size: e.bet_size ?? 0 });
+    }
+    byWallet.set(e.wallet_address, positions);
+  }
+
+  const result = new Map<string, Position[]>();
+  for (const [wallet, positions] of byWallet) {
+    result.set(wallet, [...positions.values()].sort((x, y) => x.at - y.at));
+  }
+  return result;
+}
+
+/** Longest common subsequence length of two key sequences */
+export function longestCommonSubsequence(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  let prev = new Array<number>(b.length + 1).fill(0);
+  let curr = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], curr[j - 1]);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+}
+
+export function stakeSimilarity(a: number[], b: number[]): number {
+  const ma = median(a);
+  const mb = median(b);
+  if (!(ma > 0) || !(mb > 0)) return 0;
+  return clamp01(1 - Math.abs(Math.log(ma / mb)) / STAKE_RATIO_SPAN);
+}
+
+export function linkScore(evidence: ClusterEvidence): number {
+  return (
+    evidence.co_timing * WEIGHTS.co_timing +
+    evidence.sequence * WEIGHTS.sequence +
+    evidence.funding * WEIGHTS.funding +
+    evidence.stake * WEIGHTS.stake
+  );
+}
+
+/** Funders shared by 2..maxFunderFanout tracked wallets */
+function usableFunders(wallets: ClusterWalletInput[], maxFanout: number): Map<string, string[]> {
+  const byFunder = new Map<string, string[]>();
+  for (const w of wallets) {
+    if (!w.funder) continue;
+    const funder = w.funder.toLowerCase();
+    if (funder === w.wallet_address.toLowerCase()) continue;
+    const list = byFunder.get(funder) ?? [];
+    list.push(w.wallet_address);
+    byFunder.set(funder, list);
+  }
+  for (const [funder, list] of byFunder) {
+    if (list.length < 2 || list.length > maxFanout) byFunder.delete(funder);
+  }
+  return byFunder;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Score every candidate pair: wallets sharing at least one discriminating
+ * token, or a funder. Pairs are returned only if they clear the threshold.
+ */
+export function scoreWalletPairs(
+  wallets: ClusterWalletInput[],
+  entries: ClusterEntryInput[],
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): WalletPairLink[] {
+  const tracked = new Set(wallets.map((w) => w.wallet_address));
+  const positions = buildPositions(entries.filter((e) => tracked.has(e.wallet_address)));
+
+  // token/side -> holders with their entry time
+  const holders = new Map<string, Array<{ wallet: string; at: number }>>();
+  for (const [wallet, list] of positions) {
+    for (const p of list) {
+      const h = holders.get(p.key) ?? [];
+      h.push({ wallet, at: p.at });
+      holders.set(p.key, h);
+    }
+  }
+
+  const candidates = new Map<string, { a: string; b: string; shared: number; coTimed: number; funded: boolean }>();
+  const candidate = (x: string, y: string) => {
+    const key = pairKey(x, y);
+    let c = candidates.get(key);
+    if (!c) {
+      c = { a: x < y ? x : y, b: x < y ? y : x, shared: 0, coTimed: 0, funded: false };
+      candidates.set(key, c);
+    }
+    return c;
+  };
+
+  for (const list of holders.values()) {
+    if (list.length < 2 || list.length > options.maxTokenWallets) continue;
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const c = candidate(list[i].wallet, list[j].wallet);
+        c.shared++;
+        if (Math.abs(list[i].at - list[j].at) <= options.coTimingWindowMs) c.coTimed++;
+      }
+    }
+  }
+
+  for (const funded of usableFunders(wallets, options.maxFunderFanout).values()) {
+    for (let i = 0; i < funded.length; i++) {
+      for (let j = i + 1; j < funded.length; j++) {
+        candidate(funded[i], funded[j]).funded = true;
+      }
+    }
+  }
+
+  const links: WalletPairLink[] = [];
+  for (const c of candidates.values()) {
+    if (c.shared < options.minShared && !c.funded) continue;
+    const pa = positions.get(c.a) ?? [];
+    const pb = positions.get(c.b) ?? [];
+    const smaller = Math.max(Math.min(pa.length, pb.length), 1);
+
+    const behavioural = c.shared >= options.minShared;
+    const coTiming = behavioural ? clamp01(c.coTimed / smaller) : 0;
+    // Only common keys can match, so the LCS runs over the overlap alone
+    let sequence = 0;
+    if (behavioural) {
+      const keysA = new Set(pa.map((p) => p.key));
+      const keysB = new Set(pb.map((p) => p.key));
+      const seqA = pa.filter((p) => keysB.has(p.key)).map((p) => p.key);
+      const seqB = pb.filter((p) => keysA.has(p.key)).map((p) => p.key);
+      sequence = clamp01(longestCommonSubsequence(seqA, seqB) / smaller);
+    }
+    const stake = stakeSimilarity(pa.map((p) => p.size), pb.map((p) => p.size));
+
+    const evidence: ClusterEvidence = {
+      co_timing: round(coTiming, 3),
+      sequence: round(sequence, 3),
+      funding: c.funded ? 1 : 0,
+      stake: round(stake, 3),
+    };
+    const score = linkScore(evidence);
+
+    // Stake and order alone are too common to link on; require co-timing or a shared funder
+    if (score < options.linkThreshold) continue;
+    if (coTiming < MIN_CO_TIMING && !c.funded) continue;
+
+    links.push({ a: c.a, b: c.b, score: round(score, 3), evidence, shared: c.shared, co_timed: c.coTimed });
+  }
+
+  return links.sort((x, y) => y.score - x.score);
+}
+
+function tierIndex(tier: WalletTier): number {
+  const i = TIER_ORDER.indexOf(tier);
+  return i === -1 ? TIER_ORDER.length : i;
+}
+
+/** Best-ranked member, falling back to tier then volume */
+function pickPrimary(members: ClusterWalletInput[]): ClusterWalletInput {
+  return [...members].sort((x, y) => {
+    const rx = x.rank && x.rank > 0 ? x.rank : Infinity;
+    const ry = y.rank && y.rank > 0 ? y.rank : Infinity;
+    if (rx !== ry) return rx - ry;
+    const t = tierIndex(x.tier) - tierIndex(y.tier);
+    if (t !== 0) return t;
+    return y.total_wagered - x.total_wagered;
+  })[0];
+}
+
+export function clusterIdFor(primaryWallet: string): string {
+  return `cl_${primaryWallet.toLowerCase().replace(/^0x/, "").slice(0, 10)}`;
+}
+
+/**
+ * Union-find over the links; returns clusters of two or more wallets with
+ * combined stats, largest first.
+ */
+export function buildClusters(
+  wallets: ClusterWalletInput[],
+  links: WalletPairLink[],
+  now: Date = new Date()
+): WalletCluster[] {
+  const byAddress = new Map(wallets.map((w) => [w.wallet_address, w]));
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    while (x !== root) {
+      const next = parent.get(x)!;
+      parent.set(x, root);
+      x = next;
+    }
+    return root;
+  };
+
+  for (const l of links) {
+    if (!byAddress.has(l.a) || !byAddress.has(l.b)) continue;
+    if (!parent.has(l.a)) parent.set(l.a, l.a);
+    if (!parent.has(l.b)) parent.set(l.b, l.b);
+    const ra = find(l.a);
+    const rb = find(l.b);
+    if (ra !== rb) parent.set(ra, rb);
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const wallet of parent.keys()) {
+    const root = find(wallet);
+    const list = groups.get(root) ?? [];
+    list.push(wallet);
+    groups.set(root, list);
+  }
+
+  const clusters: WalletCluster[] = [];
+  for (const addresses of groups.values()) {
+    if (addresses.length < 2) continue;
+    const memberSet = new Set(addresses);
+    const clusterLinks = links.filter((l) => memberSet.has(l.a) && memberSet.has(l.b));
+    const members = addresses.map((a) => byAddress.get(a)!);
+    const primary = pickPrimary(members);
+
+    const bestLink = new Map<string, number>();
+    for (const l of clusterLinks) {
+      bestLink.set(l.a, Math.max(bestLink.get(l.a) ?? 0, l.score));
+      bestLink.set(l.b, Math.max(bestLink.get(l.b) ?? 0, l.score));
+    }
+
+    const mean = (pick: (e: ClusterEvidence) => number) =>
+      round(clusterLinks.reduce((s, l) => s + pick(l.evidence), 0) / clusterLinks.length, 3);
+
+    const wins = members.reduce((s, m) => s + m.wins, 0);
+    const losses = members.reduce((s, m) => s + m.losses, 0);
+    const totalBets = members.reduce((s, m) => s + m.total_bets, 0);
+    const totalWagered = members.reduce((s, m) => s + m.total_wagered, 0);
+    const totalProfit = members.reduce((s, m) => s + m.total_profit, 0);
+
+    const clusterMembers: WalletClusterMember[] = members
+      .map((m) => ({
+        wallet_address: m.wallet_address,
+        wallet_username: m.wallet_username,
+        rank: m.rank,
+        tier: m.tier,
+        total_bets: m.total_bets,
+        roi: m.roi,
+        link_score: bestLink.get(m.wallet_address) ?? 0,
+      }))
+      .sort((x, y) => {
+        if (x.wallet_address === primary.wallet_address) return -1;
+        if (y.wallet_address === primary.wallet_address) return 1;
+        return y.link_score - x.link_score;
+      });
+
+    clusters.push({
+      cluster_id: clusterIdFor(primary.wallet_address),
+      primary_wallet: primary.wallet_address,
+      size: members.length,
+      confidence: round(clusterLinks.reduce((s, l) => s + l.score, 0) / clusterLinks.length, 3),
+      evidence: {
+        co_timing: mean((e) => e.co_timing),
+        sequence: mean((e) => e.sequence),
+        funding: mean((e) => e.funding),
+        stake: mean((e) => e.stake),
+      },
+      members: clusterMembers,
+      total_bets: totalBets,
+      wins,
+      losses,
+      win_rate: wins + losses > 0 ? round((wins / (wins + losses)) * 100, 1) : null,
+      roi: totalWagered > 0 ? round((totalProfit / totalWagered) * 100, 2) : null,
+      total_wagered: round(totalWagered, 2),
+      total_profit: round(totalProfit, 2),
+      avg_stake: totalBets > 0 ? round(totalWagered / totalBets, 2) : 0,
+      updated_at: now.toISOString(),
+    });
+  }
+
+  return clusters.sort((x, y) => y.size - x.size || y.confidence - x.confidence);
+}
+
+export function clusterWallets(
+  wallets: ClusterWalletInput[],
+  entries: ClusterEntryInput[],
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS,
+  now: Date = new Date()
+): { clusters: WalletCluster[]; links: WalletPairLink[] } {
+  const links = scoreWalletPairs(wallets, entries, options);
+  return { clusters: buildClusters(wallets, links, now), links };
+}
+
+/** Key for a cluster's position on one token/side */
+export const clusterPositionKey = (clusterId: string, token: string, side: string | null) =>
+  `${clusterId}:${token}:${(side || "BUY").toUpperCase()}`;
@@ -0,0 +1,82 @@
+/**
+ * Market consensus loaders (server)
+ *
+ * Wallet tiers and clusters for the consensus weights, and the recently
+ * active markets the sharp-consensus alert rules are evaluated against.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildMarketConsensus } from "./consensus";
+import type { ConsensusOptions, ConsensusSignalInput, ConsensusWalletInfo } from "./consensus";
+import type { MarketConsensus, WalletTier } from "./types";
+
+const WALLET_CHUNK = 200;
+const CONDITION_CHUNK = 100;
+const MAX_ACTIVE_SIGNALS = 2000;
+const MAX_MARKET_SIGNALS = 5000;
+
+const CONSENSUS_SIGNAL_COLUMNS =
+  "condition_id, market_title, market_type, sport, outcome, side, bet_size, wallet_address, created_at, game_start_time";
+
+export async function loadConsensusWallets(
+  supabase: SupabaseClient,
+  wallets: string[]
+): Promise<Map<string, ConsensusWalletInfo>> {
+  const result = new Map<string, ConsensusWalletInfo>();
+  for (let i = 0; i < wallets.length; i += WALLET_CHUNK) {
+    const { data, error } = await supabase
+      .from("polymarket_wallet_scores")
+      .select("wallet_address, tier, cluster_id")
+      .in("wallet_address", wallets.slice(i, i + WALLET_CHUNK));
+    if (error) {
+      console.error("[polymarket/consensus] Wallet fetch error:", error);
+      continue;
+    }
+    for (const w of (data ?? []) as Array<{ wallet_address: string; tier: WalletTier; cluster_id: string | null }>) {
+      result.set(w.wallet_address, { tier: w.tier, cluster_id: w.cluster_id ?? null });
+    }
+  }
+  return result;
+}
+
+/**
+ * Consensus for every unresolved, not-yet-started market that took a new
+ * position in the last `activeMinutes`, built from the market's full history.
+ */
+export async function loadActiveMarketConsensus(
+  supabase: SupabaseClient,
+  activeMinutes: number,
+  options?: ConsensusOptions
+): Promise<MarketConsensus[]> {
+  const now = Date.now();
+  const since = new Date(now - activeMinutes * 60_000).toISOString();
+  const nowIso = new Date(now).toISOString();
+
+  const { data: recent, error } = await supabase
+    .from("polymarket_signals")
+    .select("condition_id")
+    .gte("created_at", since)
+    .eq("resolved", false)
+    .or(`game_start_time.is.null,game_start_time.gte.${nowIso}`)
+    .limit(MAX_ACTIVE_SIGNALS);
+  if (error) throw new Error(`active signals: ${error.message}`);
+
+  const conditionIds = [
+    ...new Set((recent ?? []).map((r: { condition_id: string | null }) => r.condition_id).filter((c): c is string => !!c)),
+  ];
+  if (conditionIds.length === 0) return [];
+
+  const signals: ConsensusSignalInput[] = [];
+  for (let i = 0; i < conditionIds.length; i += CONDITION_CHUNK) {
+    const { data, error: marketErr } = await supabase
+      .from("polymarket_signals")
+      .select(CONSENSUS_SIGNAL_COLUMNS)
+      .in("condition_id", conditionIds.slice(i, i + CONDITION_CHUNK))
+      .limit(MAX_MARKET_SIGNALS);
+    if (marketErr) throw new Error(`market signals: ${marketErr.message}`);
+    signals.push(...((data ?? []) as ConsensusSignalInput[]));
+  }
+
+  const wallets = await loadConsensusWallets(supabase, [...new Set(signals.map((s) => s.wallet_address))]);
+  return buildMarketConsensus(signals, wallets, options, now);
+}
@@ -0,0 +1,274 @@
+/**
+ * Market consensus across tracked Polymarket wallets
+ *
+ * Aggregates every tracked position on a market (condition_id) per outcome:
+ *   - Dollars are weighted by the wallet's tier (FADE wallets count against
+ *     the side they back) and decay with age, so fresh sharp money leads
+ *   - Selling an outcome counts as opposing money; on two-outcome markets it
+ *     also backs the other side
+ *   - Wallets in one cluster count as a single bettor
+ * Strength (0-100) blends how lopsided the weighted money is, how many
+ * S/A-tier wallets are on the side, and how much money it is. A pile-on is
+ * several top wallets entering the same side within a short window.
+ */
+
+import type {
+  ConsensusEntry,
+  ConsensusLabel,
+  ConsensusPileOn,
+  ConsensusSide,
+  MarketConsensus,
+  WalletTier,
+} from "./types";
+
+export interface ConsensusSignalInput {
+  condition_id: string | null;
+  market_title: string | null;
+  market_type: string | null;
+  sport: string | null;
+  outcome: string | null;
+  side: string | null;
+  bet_size: number | null;
+  wallet_address: string;
+  created_at: string;
+  game_start_time: string | null;
+}
+
+export interface ConsensusWalletInfo {
+  tier: WalletTier;
+  cluster_id: string | null;
+}
+
+export interface ConsensusOptions {
+  /** Weighted money halves every this many hours */
+  halfLifeHours: number;
+  pileOnWindowMinutes: number;
+  pileOnMinWallets: number;
+}
+
+export const DEFAULT_CONSENSUS_OPTIONS: ConsensusOptions = {
+  halfLifeHours: 6,
+  pileOnWindowMinutes: 30,
+  pileOnMinWallets: 3,
+};
+
+const TIER_WEIGHTS: Record<WalletTier, number> = {
+  S: 1,
+  A: 0.8,
+  B: 0.5,
+  C: 0.3,
+  NEW: 0.15,
+  FADE: -0.3,
+};
+
+const TOP_TIERS: WalletTier[] = ["S", "A"];
+
+/** Top-wallet breadth maxes out at this many wallets */
+const FULL_BREADTH_WALLETS = 4;
+/** Weighted money maxes out the size component at 10^5 ($100k) */
+const FULL_SIZE_LOG10 = 5;
+
+interface SideAccumulator {
+  outcome: string;
+  dollars: number;
+  against_dollars: number;
+  weighted: number;
+  against_weighted: number;
+  entities: Set<string>;
+  top: Map<string, ConsensusEntry>;
+  fade: Set<string>;
+}
+
+function clamp01(n: number): number {
+  return Math.min(1, Math.max(0, n));
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+export function consensusLabel(strength: number): ConsensusLabel {
+  if (strength >= 70) return "strong";
+  if (strength >= 45) return "lean";
+  return "split";
+}
+
+/**
+ * Largest group of top-wallet entries inside any `windowMinutes` span;
+ * ties go to the most recent group.
+ */
+export function detectPileOn(
+  outcome: string,
+  entries: ConsensusEntry[],
+  windowMinutes: number,
+  minWallets: number
+): ConsensusPileOn | null {
+  if (entries.length < minWallets) return null;
+  const sorted = [...entries].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  const windowMs = windowMinutes * 60_000;
+
+  let best: { start: number; end: number } | null = null;
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (Date.parse(sorted[end].at) - Date.parse(sorted[start].at) > windowMs) start++;
+    const count = end - start + 1;
+    if (count >= minWallets && (!best || count >= best.end - best.start + 1)) {
+      best = { start, end };
+    }
+  }
+  if (!best) return null;
+
+  const group = sorted.slice(best.start, best.end + 1);
+  return {
+    outcome,
+    wallets: group.length,
+    dollars: round(group.reduce((s, e) => s + e.dollars, 0), 2),
+    window_minutes: windowMinutes,
+    first_at: group[0].at,
+    last_at: group[group.length - 1].at,
+  };
+}
+
+function newSide(outcome: string): SideAccumulator {
+  return {
+    outcome,
+    dollars: 0,
+    against_dollars: 0,
+    weighted: 0,
+    against_weighted: 0,
+    entities: new Set(),
+    top: new Map(),
+    fade: new Set(),
+  };
+}
+
+/**
+ * One consensus per market, strongest first. Markets need at least one
+ * outcome with money on it.
+ */
+export function buildMarketConsensus(
+  signals: ConsensusSignalInput[],
+  wallets: Map<string, ConsensusWalletInfo>,
+  options: ConsensusOptions = DEFAULT_CONSENSUS_OPTIONS,
+  now: number = Date.now()
+): MarketConsensus[] {
+  const halfLifeMs = options.halfLifeHours * 60 * 60 * 1000;
+  const markets = new Map<
+    string,
+    {
+      signal: ConsensusSignalInput;
+      sides: Map<string, SideAccumulator>;
+      last_signal_at: string;
+    }
+  >();
+
+  for (const s of signals) {
+    if (!s.condition_id || !s.outcome) continue;
+    const at = Date.parse(s.created_at);
+    const stake = s.bet_size ?? 0;
+    if (!Number.isFinite(at) || !(stake > 0)) continue;
+
+    let market = markets.get(s.condition_id);
+    if (!market) {
+      market = { signal: s, sides: new Map(), last_signal_at: s.created_at };
+      markets.set(s.condition_id, market);
+    }
+    if (s.created_at > market.last_signal_at) market.last_signal_at = s.created_at;
+
+    const side = market.sides.get(s.outcome) ?? newSide(s.outcome);
+    market.sides.set(s.outcome, side);
+
+    const info = wallets.get(s.wallet_address);
+    const tier: WalletTier = info?.tier ?? "C";
+    const entity = info?.cluster_id ?? s.wallet_address;
+    const decay = Math.pow(0.5, Math.max(0, now - at) / halfLifeMs);
+    const weighted = stake * TIER_WEIGHTS[tier] * decay;
+
+    if ((s.side || "BUY").toUpperCase() === "SELL") {
+      side.against_dollars += stake;
+      side.against_weighted += weighted;
+      continue;
+    }
+
+    side.dollars += stake;
+    side.weighted += weighted;
+    side.entities.add(entity);
+    if (tier === "FADE") side.fade.add(entity);
+    if (TOP_TIERS.includes(tier)) {
+      const existing = side.top.get(entity);
+      if (existing) {
+        existing.dollars += stake;
+        if (s.created_at < existing.at) existing.at = s.created_at;
+      } else {
+        side.top.set(entity, {
+          wallet_address: s.wallet_address,
+          cluster_id: info?.cluster_id ?? null,
+          tier,
+          dollars: stake,
+          at: s.created_at,
+        });
+      }
+    }
+  }
+
+  const results: MarketConsensus[] = [];
+  for (const [conditionId, market] of markets) {
+    const accs = [...market.sides.values()];
+    const binary = accs.length === 2;
+
+    const sides: ConsensusSide[] = accs.map((acc) => {
+      const others = accs.filter((o) => o !== acc);
+      // Selling the other outcome of a two-way market backs this one
+      const support = binary ? others[0].against_weighted : 0;
+      const supportDollars = binary ? others[0].against_dollars : 0;
+      const opposingDollars = others.reduce((s, o) => s + o.dollars, 0) + acc.against_dollars;
+      return {
+        outcome: acc.outcome,
+        dollars: round(acc.dollars + supportDollars, 2),
+        opposing_dollars: round(opposingDollars, 2),
+        net_dollars: round(acc.dollars + supportDollars - opposingDollars, 2),
+        weighted: round(acc.weighted + support, 2),
+        wallets: acc.entities.size,
+        top_wallets: acc.top.size,
+        fade_wallets: acc.fade.size,
+        top_entries: [...acc.top.values()].sort((a, b) => a.at.localeCompare(b.at)),
+      };
+    });
+
+    sides.sort((a, b) => b.weighted - a.weighted);
+    const lead = sides[0];
+    if (!lead || lead.dollars <= 0) continue;
+
+    // Opposing weight: other sides' positive weight plus anything sold out of the lead
+    const leadAcc = market.sides.get(lead.outcome)!;
+    const opposingWeight =
+      sides.slice(1).reduce((s, o) => s + Math.max(0, o.weighted), 0) + Math.max(0, leadAcc.against_weighted);
+    const leadWeight = Math.max(0, lead.weighted);
+    const dominance = leadWeight + opposingWeight > 0 ? leadWeight / (leadWeight + opposingWeight) : 0.5;
+
+    const strength = Math.round(
+      100 *
+        (0.45 * clamp01((dominance - 0.5) / 0.5) +
+          0.35 * clamp01(lead.top_wallets / FULL_BREADTH_WALLETS) +
+          0.2 * clamp01(Math.log10(1 + leadWeight) / FULL_SIZE_LOG10))
+    );
+
+    results.push({
+      condition_id: conditionId,
+      market_title: market.signal.market_title ?? "",
+      sport: market.signal.sport,
+      market_type: market.signal.market_type,
+      game_start_time: market.signal.game_start_time,
+      outcome: lead.outcome,
+      strength,
+      label: consensusLabel(strength),
+      dominance: Math.round(dominance * 100),
+      sides,
+      pile_on: detectPileOn(lead.outcome, lead.top_entries, options.pileOnWindowMinutes, options.pileOnMinWallets),
+      last_signal_at: market.last_signal_at,
+    });
+  }
+
+  return results.sort((a, b) => b.strength - a.strength);
+}
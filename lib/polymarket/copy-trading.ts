@@ -0,0 +1,376 @@
+/**
+ * Copy-trading simulator for Sharp Intel
+ *
+ * Replays followed wallets' Polymarket buys as if we'd copied them:
+ *   - A wallet's fills on one token merge into a single position (first fill
+ *     time, VWAP entry, total size) so split orders aren't copied N times
+ *   - We get in `entry_delay_minutes` later at the next observed fill on the
+ *     token (any wallet), plus `slippage_cents`; positions whose game started
+ *     before our entry are skipped
+ *   - Stakes are flat, scaled by their stake vs their average (proportional),
+ *     or Kelly with the wallet's historical ROI as the edge estimate
+ *   - The bankroll moves on settlement; open stakes count at cost
+ */
+
+import { calculateKelly } from "./kelly";
+import type {
+  CopyPortfolioPoint,
+  CopyPortfolioSummary,
+  CopyTrade,
+  CopyTradingSettings,
+  CopyWalletContribution,
+} from "./types";
+
+export const DEFAULT_COPY_SETTINGS: CopyTradingSettings = {
+  bankroll: 1000,
+  sizing: "flat",
+  unit: 20,
+  kelly_fraction: 0.25,
+  max_stake_pct: 5,
+  entry_delay_minutes: 5,
+  slippage_cents: 1,
+  days: 30,
+};
+
+/** Proportional stakes stay within this multiple of the unit */
+const MIN_PROPORTIONAL = 0.25;
+const MAX_PROPORTIONAL = 5;
+const MAX_COPY_PRICE = 0.99;
+/** Signals carry no resolution time; assume a game settles this long after start */
+const SETTLE_LAG_MS = 3 * 60 * 60 * 1000;
+
+export interface CopySignalInput {
+  id: number | string;
+  wallet_address: string;
+  wallet_username: string | null;
+  market_title: string;
+  outcome: string | null;
+  sport: string | null;
+  token_id: string | null;
+  side: string | null;
+  entry_price: number;
+  bet_size: number;
+  created_at: string;
+  game_start_time: string | null;
+  resolved: boolean;
+  result: "win" | "loss" | null;
+}
+
+export interface CopyWalletStats {
+  avg_stake: number | null;
+  roi: number | null;          // % lifetime ROI
+}
+
+/** An observed fill on a token (any wallet), used to price delayed entries */
+export interface TokenFill {
+  price: number;
+  at: number;                  // epoch ms
+}
+
+interface Position {
+  id: string;
+  wallet_address: string;
+  wallet_username: string | null;
+  market_title: string;
+  outcome: string;
+  sport: string | null;
+  token_id: string | null;
+  first_at: number;
+  cost: number;
+  shares: number;
+  game_start: number | null;
+  resolved: boolean;
+  result: "win" | "loss" | null;
+}
+
+const toCents = (n: number) => Math.round(n * 100) / 100;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Fill missing or out-of-range settings from the defaults.
+ */
+export function normalizeCopySettings(settings?: Partial<CopyTradingSettings> | null): CopyTradingSettings {
+  const d = DEFAULT_COPY_SETTINGS;
+  const num = (value: unknown, fallback: number, min: number, max: number) => {
+    const n = Number(value);
+    return value != null && Number.isFinite(n) ? clamp(n, min, max) : fallback;
+  };
+  const sizing = settings?.sizing;
+  return {
+    bankroll: num(settings?.bankroll, d.bankroll, 10, 10_000_000),
+    sizing: sizing === "flat" || sizing === "proportional" || sizing === "kelly" ? sizing : d.sizing,
+    unit: num(settings?.unit, d.unit, 1, 1_000_000),
+    kelly_fraction: num(settings?.kelly_fraction, d.kelly_fraction, 0.1, 1),
+    max_stake_pct: num(settings?.max_stake_pct, d.max_stake_pct, 0.5, 100),
+    entry_delay_minutes: num(settings?.entry_delay_minutes, d.entry_delay_minutes, 0, 24 * 60),
+    slippage_cents: num(settings?.slippage_cents, d.slippage_cents, 0, 20),
+    days: Math.round(num(settings?.days, d.days, 1, 365)),
+  };
+}
+
+/** Merge a wallet's buys on the same token into positions */
+function buildPositions(signals: CopySignalInput[]): Position[] {
+  const positions = new Map<string, Position>();
+  for (const s of signals) {
+    if ((s.side || "").toUpperCase() === "SELL") continue;
+    if (!(s.entry_price > 0 && s.entry_price < 1) || !(s.bet_size > 0)) continue;
+    const at = Date.parse(s.created_at);
+    if (!Number.isFinite(at)) continue;
+
+    const key = `${s.wallet_address}:${s.token_id || `${s.market_title}|${s.outcome}`}`;
+    let pos = positions.get(key);
+    if (!pos) {
+      const start = s.game_start_time ? Date.parse(s.game_start_time) : NaN;
+      pos = {
+        id: key,
+        wallet_address: s.wallet_address,
+        wallet_username: s.wallet_username,
+        market_title: s.market_title,
+        outcome: s.outcome || "",
+        sport: s.sport,
+        token_id: s.token_id,
+        first_at: at,
+        cost: 0,
+        shares: 0,
+        game_start: Number.isFinite(start) ? start : null,
+        resolved: false,
+        result: null,
+      };
+      positions.set(key, pos);
+    }
+    pos.first_at = Math.min(pos.first_at, at);
+    pos.cost += s.bet_size;
+    pos.shares += s.bet_size / s.entry_price;
+    if (s.resolved) {
+      pos.resolved = true;
+      pos.result = s.result ?? pos.result;
+    }
+  }
+  return [...positions.values()];
+}
+
+/** First observed fill at or after `at` (fills sorted by time) */
+function fillAfter(fills: TokenFill[] | undefined, at: number, before: number | null): number | null {
+  if (!fills) return null;
+  for (const fill of fills) {
+    if (fill.at < at) continue;
+    if (before != null && fill.at >= before) return null;
+    return fill.price;
+  }
+  return null;
+}
+
+/**
+ * Run the simulation. `fillsByToken` should hold every wallet's fills on the
+ * copied tokens, sorted by time.
+ */
+export function simulateCopyPortfolio({
+  signals,
+  wallets,
+  fillsByToken,
+  settings,
+  now = Date.now(),
+}: {
+  signals: CopySignalInput[];
+  wallets: Map<string, CopyWalletStats>;
+  fillsByToken: Map<string, TokenFill[]>;
+  settings: CopyTradingSettings;
+  now?: number;
+}): {
+  summary: CopyPortfolioSummary;
+  curve: CopyPortfolioPoint[];
+  contributions: CopyWalletContribution[];
+  trades: CopyTrade[];
+} {
+  const delayMs = settings.entry_delay_minutes * 60_000;
+  const positions = buildPositions(signals)
+    .filter((pos) => pos.first_at + delayMs <= now)
+    .sort((a, b) => a.first_at - b.first_at);
+
+  type Entry = { pos: Position; trade: CopyTrade; placedAt: number; settleAt: number | null };
+  const entries: Entry[] = positions.map((pos) => {
+    const placedAt = pos.first_at + delayMs;
+    const trade: CopyTrade = {
+      id: pos.id,
+      wallet_address: pos.wallet_address,
+      wallet_username: pos.wallet_username,
+      market_title: pos.market_title,
+      outcome: pos.outcome,
+      sport: pos.sport,
+      their_entry: Math.round((pos.cost / pos.shares) * 10000) / 10000,
+      their_size: toCents(pos.cost),
+      placed_at: new Date(placedAt).toISOString(),
+      copy_price: null,
+      stake: 0,
+      status: "pending",
+      pnl: 0,
+      settled_at: null,
+    };
+
+    // Settles after our entry even when the guess lands earlier
+    const settleAt = pos.resolved && pos.result
+      ? Math.max(placedAt + 1, Math.min((pos.game_start ?? pos.first_at) + SETTLE_LAG_MS, now))
+      : null;
+    return { pos, trade, placedAt, settleAt };
+  });
+
+  // Timeline: placements and settlements in time order, settlements first on ties
+  type Event = { t: number; kind: "place" | "settle"; entry: Entry };
+  const events: Event[] = [];
+  for (const entry of entries) {
+    events.push({ t: entry.placedAt, kind: "place", entry });
+    if (entry.settleAt != null) events.push({ t: entry.settleAt, kind: "settle", entry });
+  }
+  events.sort((a, b) => a.t - b.t || (a.kind === b.kind ? 0 : a.kind === "settle" ? -1 : 1));
+
+  let cash = settings.bankroll;
+  let openStake = 0;
+  let peak = settings.bankroll;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  const curve: CopyPortfolioPoint[] = [];
+  const firstT = events[0]?.t ?? now;
+  curve.push({ t: new Date(firstT).toISOString(), bankroll: settings.bankroll, drawdown_pct: 0 });
+
+  for (const { t, kind, entry } of events) {
+    const { pos, trade } = entry;
+
+    if (kind === "place") {
+      if (pos.game_start != null && entry.placedAt >= pos.game_start) {
+        trade.status = "skipped";
+        trade.skip_reason = "started";
+        continue;
+      }
+      const observed = pos.token_id ? fillAfter(fillsByToken.get(pos.token_id), entry.placedAt, pos.game_start) : null;
+      const price = (observed ?? trade.their_entry) + settings.slippage_cents / 100;
+      if (price >= MAX_COPY_PRICE) {
+        trade.status = "skipped";
+        trade.skip_reason = "price";
+        continue;
+      }
+      trade.copy_price = Math.round(price * 10000) / 10000;
+
+      const equity = cash + openStake;
+      let stake: number;
+      if (settings.sizing === "kelly") {
+        const roi = wallets.get(pos.wallet_address)?.roi ?? 0;
+        const kelly = calculateKelly({
+          polyImplied: Math.min(MAX_COPY_PRICE, price * (1 + roi / 100)),
+          bookImplied: price,
+          fraction: settings.kelly_fraction,
+        });
+        if (!kelly.hasEdge || kelly.recommendedSize <= 0) {
+          trade.status = "skipped";
+          trade.skip_reason = "no_edge";
+          continue;
+        }
+        stake = kelly.recommendedSize * equity;
+      } else if (settings.sizing === "proportional") {
+        const avg = wallets.get(pos.wallet_address)?.avg_stake;
+        const ratio = avg && avg > 0 ? pos.cost / avg : 1;
+        stake = settings.unit * clamp(ratio, MIN_PROPORTIONAL, MAX_PROPORTIONAL);
+      } else {
+        stake = settings.unit;
+      }
+
+      stake = toCents(Math.min(stake, (equity * settings.max_stake_pct) / 100, cash));
+      if (stake < 1) {
+        trade.status = "skipped";
+        trade.skip_reason = "bankroll";
+        continue;
+      }
+      trade.stake = stake;
+      cash -= stake;
+      openStake += stake;
+      continue;
+    }
+
+    // Settlement (only for positions we actually entered)
+    if (trade.status !== "pending" || trade.stake <= 0 || trade.copy_price == null) continue;
+    const won = pos.result === "win";
+    trade.status = won ? "won" : "lost";
+    trade.pnl = toCents(won ? trade.stake * (1 / trade.copy_price - 1) : -trade.stake);
+    trade.settled_at = new Date(t).toISOString();
+    openStake -= trade.stake;
+    cash += trade.stake + trade.pnl;
+
+    const equity = cash + openStake;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    const drawdownPct = peak > 0 ? (drawdown / peak) * 100 : 0;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    maxDrawdownPct = Math.max(maxDrawdownPct, drawdownPct);
+    curve.push({ t: trade.settled_at, bankroll: toCents(equity), drawdown_pct: Math.round(drawdownPct * 100) / 100 });
+  }
+
+  const trades = entries.map((e) => e.trade);
+  const entered = trades.filter((trade) => trade.status !== "skipped" && trade.stake > 0);
+  const settled = entered.filter((trade) => trade.status === "won" || trade.status === "lost");
+  const pnl = settled.reduce((sum, trade) => sum + trade.pnl, 0);
+  const settledStake = settled.reduce((sum, trade) => sum + trade.stake, 0);
+
+  const byWallet = new Map<string, CopyWalletContribution>();
+  for (const trade of entered) {
+    let c = byWallet.get(trade.wallet_address);
+    if (!c) {
+      c = {
+        wallet_address: trade.wallet_address,
+        wallet_username: trade.wallet_username,
+        bets: 0,
+        wins: 0,
+        losses: 0,
+        pending: 0,
+        staked: 0,
+        pnl: 0,
+        roi: 0,
+        share_of_pnl: 0,
+      };
+      byWallet.set(trade.wallet_address, c);
+    }
+    c.bets++;
+    c.staked += trade.stake;
+    if (trade.status === "won") c.wins++;
+    else if (trade.status === "lost") c.losses++;
+    else c.pending++;
+    c.pnl += trade.pnl;
+  }
+  const contributions = [...byWallet.values()]
+    .map((c) => {
+      const settledStaked = entered
+        .filter((trade) => trade.wallet_address === c.wallet_address && trade.status !== "pending")
+        .reduce((sum, trade) => sum + trade.stake, 0);
+      return {
+        ...c,
+        staked: toCents(c.staked),
+        pnl: toCents(c.pnl),
+        roi: settledStaked > 0 ? Math.round((c.pnl / settledStaked) * 10000) / 100 : 0,
+        share_of_pnl: pnl !== 0 ? Math.round((c.pnl / Math.abs(pnl)) * 10000) / 100 : 0,
+      };
+    })
+    .sort((a, b) => b.pnl - a.pnl);
+
+  const endBankroll = cash + openStake;
+  return {
+    summary: {
+      start_bankroll: settings.bankroll,
+      end_bankroll: toCents(endBankroll),
+      pnl: toCents(pnl),
+      roi: settledStake > 0 ? Math.round((pnl / settledStake) * 10000) / 100 : 0,
+      growth_pct: Math.round(((endBankroll - settings.bankroll) / settings.bankroll) * 10000) / 100,
+      max_drawdown: toCents(maxDrawdown),
+      max_drawdown_pct: Math.round(maxDrawdownPct * 100) / 100,
+      bets: entered.length,
+      wins: settled.filter((trade) => trade.status === "won").length,
+      losses: settled.filter((trade) => trade.status === "lost").length,
+      pending: entered.length - settled.length,
+      open_stake: toCents(openStake),
+      skipped: trades.filter((trade) => trade.status === "skipped").length,
+    },
+    curve,
+    contributions,
+    trades: trades.sort((a, b) => Date.parse(b.placed_at) - Date.parse(a.placed_at)),
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Cross-venue scanner (server)
+ *
+ * Collects the Polymarket game markets the whale tracker has already matched
+ * to our events (`polymarket_signals.odds_event_id / odds_market_key`),
+ * resolves both outcome tokens from the CLOB, prices each token's asks at
+ * the requested stake and compares them with every book's odds from the
+ * shared OddsCache. Results are cached briefly per sport / size / fee since
+ * each scan fans out to the CLOB for every token.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { redis } from "@/lib/redis";
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import type { SSEBookSelections, SSEEvent } from "@/lib/odds/types";
+import { crossVenueMarketKind, evaluateCrossVenue, resolveOutcomeSide, toOddsMarketKey } from "./cross-venue";
+import { executablePrice, parseClobBook } from "./orderbook";
+import type { CrossVenueResponse, CrossVenueRow, PolymarketMarketMapping } from "./types";
+
+const CLOB_URL = "https://clob.polymarket.com";
+const CACHE_TTL_SECONDS = 30;
+const MAX_MARKETS = 80;
+const CLOB_CONCURRENCY = 8;
+const CLOB_TIMEOUT_MS = 5000;
+
+const cacheKey = (sport: string, sizeUsd: number, feeBps: number) =>
+  `polymarket:cross-venue:${sport}:${sizeUsd}:${feeBps}`;
+
+interface SignalMarketRow {
+  condition_id: string | null;
+  token_id: string | null;
+  market_title: string | null;
+  outcome: string | null;
+  odds_event_id: string | null;
+  odds_sport: string | null;
+  odds_market_key: string | null;
+  game_start_time: string | null;
+}
+
+interface ClobToken {
+  token_id: string;
+  outcome: string;
+}
+
+async function fetchClob(path: string): Promise<unknown | null> {
+  try {
+    const res = await fetch(`${CLOB_URL}${path}`, {
+      signal: AbortSignal.timeout(CLOB_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, concurrency: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let cursor = 0;
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), tasks.length) }, async () => {
+    while (cursor < tasks.length) {
+      const index = cursor++;
+      results[index] = await tasks[index]();
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Both outcome tokens of a condition. Falls back to the tokens seen in
+ * signals when the CLOB market lookup fails.
+ */
+async function fetchConditionTokens(conditionId: string, seen: ClobToken[]): Promise<ClobToken[]> {
+  const market = (await fetchClob(`/markets/${encodeURIComponent(conditionId)}`)) as {
+    tokens?: { token_id?: string; outcome?: string }[];
+  } | null;
+  const tokens = (market?.tokens ?? [])
+    .filter((t): t is { token_id: string; outcome: string } => !!t.token_id && !!t.outcome)
+    .map((t) => ({ token_id: t.token_id, outcome: t.outcome }));
+  return tokens.length > 0 ? tokens : seen;
+}
+
+/**
+ * Map one sport's open Polymarket game markets onto our upcoming events
+ */
+export async function loadPolymarketMappings(
+  supabase: SupabaseClient,
+  sport: string,
+  events: Map<string, SSEEvent>,
+  now = Date.now()
+): Promise<PolymarketMarketMapping[]> {
+  const { data, error } = await supabase
+    .from("polymarket_signals")
+    .select("condition_id, token_id, market_title, outcome, odds_event_id, odds_sport, odds_market_key, game_start_time")
+    .eq("odds_sport", sport)
+    .eq("resolved", false)
+    .not("odds_event_id", "is", null)
+    .gte("game_start_time", new Date(now).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(2000);
+  if (error) throw new Error(error.message);
+
+  // One entry per condition, keeping every token seen in signals
+  const conditions = new Map<string, { row: SignalMarketRow; seen: ClobToken[] }>();
+  for (const row of (data ?? []) as SignalMarketRow[]) {
+    if (!row.condition_id || !row.odds_event_id || !row.odds_market_key) continue;
+    if (!events.has(row.odds_event_id)) continue;
+    if (!crossVenueMarketKind(toOddsMarketKey(sport, row.odds_market_key))) continue;
+
+    let entry = conditions.get(row.condition_id);
+    if (!entry) {
+      if (conditions.size >= MAX_MARKETS) continue;
+      entry = { row, seen: [] };
+      conditions.set(row.condition_id, entry);
+    }
+    if (row.token_id && row.outcome && !entry.seen.some((t) => t.token_id === row.token_id)) {
+      entry.seen.push({ token_id: row.token_id, outcome: row.outcome });
+    }
+  }
+
+  const perCondition = await runWithConcurrency(
+    [...conditions.entries()].map(([conditionId, { row, seen }]) => async () => {
+      const market = toOddsMarketKey(sport, row.odds_market_key!);
+      const kind = crossVenueMarketKind(market)!;
+      const event = events.get(row.odds_event_id!)!;
+      const title = row.market_title ?? "";
+      const tokens = await fetchConditionTokens(conditionId, seen);
+
+      const mappings: PolymarketMarketMapping[] = [];
+      for (const token of tokens) {
+        const resolved = resolveOutcomeSide({ kind, title, outcome: token.outcome, event, sport });
+        if (!resolved) continue;
+        mappings.push({
+          condition_id: conditionId,
+          token_id: token.token_id,
+          title,
+          outcome: token.outcome,
+          sport,
+          event_id: event.event_id,
+          market,
+          kind,
+          side: resolved.side,
+          line: resolved.line,
+          game_start_time: row.game_start_time ?? event.commence_time,
+        });
+      }
+      return mappings;
+    }),
+    CLOB_CONCURRENCY
+  );
+
+  return perCondition.flat();
+}
+
+/**
+ * Scan one sport (uncached)
+ */
+export async function scanSportCrossVenue(
+  supabase: SupabaseClient,
+  sport: string,
+  { sizeUsd, feeBps, now = Date.now() }: { sizeUsd: number; feeBps: number; now?: number }
+): Promise<{ rows: CrossVenueRow[]; markets: number; tokens: number }> {
+  const upcoming = await getUpcomingEvents(sport, { now, maxEvents: 100 });
+  if (upcoming.length === 0) return { rows: [], markets: 0, tokens: 0 };
+  const events = new Map(upcoming.map((ev) => [ev.event_id, ev]));
+
+  const mappings = await loadPolymarketMappings(supabase, sport, events, now);
+  if (mappings.length === 0) return { rows: [], markets: 0, tokens: 0 };
+
+  const eventIds = [...new Set(mappings.map((m) => m.event_id))];
+  const odds = (await getOddsCache().getOddsForSport(sport, eventIds)) as unknown as Map<string, unknown>;
+
+  // {eid}:{market} → book → selections
+  const boards = new Map<string, Map<string, SSEBookSelections>>();
+  for (const [key, value] of odds) {
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, market, book] = parts;
+    const selections = parseBookSelections(value);
+    if (!selections) continue;
+    const boardKey = `${eid}:${market}`;
+    if (!boards.has(boardKey)) boards.set(boardKey, new Map());
+    boards.get(boardKey)!.set(book, selections);
+  }
+
+  const priced = await runWithConcurrency(
+    mappings.map((mapping) => async () => {
+      const books = boards.get(`${mapping.event_id}:${mapping.market}`);
+      if (!books || books.size === 0) return null;
+      const raw = await fetchClob(`/book?token_id=${encodeURIComponent(mapping.token_id)}`);
+      if (!raw) return null;
+      const fill = executablePrice(parseClobBook(raw).asks, sizeUsd, feeBps);
+      if (!fill) return null;
+      return evaluateCrossVenue(mapping, events.get(mapping.event_id)!, fill, books);
+    }),
+    CLOB_CONCURRENCY
+  );
+
+  const rows = priced.filter((row): row is CrossVenueRow => row !== null);
+  return { rows, markets: new Set(mappings.map((m) => m.condition_id)).size, tokens: rows.length };
+}
+
+/** Best of arb ROI and sharp EV, for ranking */
+export function crossVenueScore(row: CrossVenueRow): number {
+  return Math.max(row.arb_roi ?? -Infinity, row.sharp?.ev ?? -Infinity);
+}
+
+/**
+ * Cross-venue rows for several sports, served from a short Redis cache
+ */
+export async function getCrossVenue(
+  supabase: SupabaseClient,
+  sports: string[],
+  { sizeUsd, feeBps }: { sizeUsd: number; feeBps: number }
+): Promise<CrossVenueResponse> {
+  const start = Date.now();
+  let marketsMapped = 0;
+  let tokensPriced = 0;
+
+  const perSport = await Promise.all(
+    sports.map(async (sport) => {
+      try {
+        const key = cacheKey(sport, sizeUsd, feeBps);
+        const cached = await redis.get<CrossVenueRow[] | string>(key);
+        if (cached) return typeof cached === "string" ? (JSON.parse(cached) as CrossVenueRow[]) : cached;
+
+        const result = await scanSportCrossVenue(supabase, sport, { sizeUsd, feeBps });
+        marketsMapped += result.markets;
+        tokensPriced += result.tokens;
+        await redis.set(key, JSON.stringify(result.rows), { ex: CACHE_TTL_SECONDS });
+        return result.rows;
+      } catch (error) {
+        console.error(`[cross-venue] Scan failed for ${sport}:`, error);
+        return [];
+      }
+    })
+  );
+
+  const rows = perSport.flat().sort((a, b) => crossVenueScore(b) - crossVenueScore(a));
+  return {
+    rows,
+    summary: {
+      sports,
+      size_usd: sizeUsd,
+      fee_bps: feeBps,
+      markets_mapped: marketsMapped,
+      tokens_priced: tokensPriced,
+      arbs: rows.filter((row) => (row.arb_roi ?? 0) > 0).length,
+      positive_ev: rows.filter((row) => (row.sharp?.ev ?? 0) > 0).length,
+      duration_ms: Date.now() - start,
+    },
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Polymarket ↔ sportsbook cross-venue pricing
+ *
+ * Maps Polymarket outcome tokens onto our `odds:{sport}:{eid}:{market}`
+ * keys (moneyline, spread, total) and compares the executable Polymarket
+ * price against the sportsbooks on the same and opposite side:
+ *   - Arb: Polymarket fill + best opposite book price covers both outcomes
+ *   - Edge vs books: Polymarket pays more than any book on the same side
+ *   - EV: Polymarket fill against the de-vigged sharp line
+ */
+
+import { SHARP_BOOKS } from "@/lib/ev/constants";
+import { americanToDecimal, devigPower } from "@/lib/ev/devig";
+import { normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { teamsMatch } from "@/lib/settlement/grading";
+import type { SSEBookSelections, SSEEvent } from "@/lib/odds/types";
+import type {
+  CrossVenueMarketKind,
+  CrossVenueQuote,
+  CrossVenueRow,
+  CrossVenueSide,
+  ExecutablePrice,
+  PolymarketMarketMapping,
+} from "./types";
+
+/** Generic market keys from the whale tracker → sport-specific Redis keys */
+export const POLYMARKET_MARKET_REMAP: Record<string, Record<string, string>> = {
+  nba: { game_total: "total_points" },
+  nhl: { game_total: "game_total_goals", game_spread: "game_puck_line" },
+  ncaab: { game_total: "total_points" },
+  mlb: { game_spread: "game_run_line" },
+};
+
+/** Sports where a moneyline can draw, so "No" isn't the other team */
+const DRAW_SPORT_PATTERN = /^soccer/;
+
+/** Venues that are Polymarket itself and never count as the other side */
+const SAME_VENUE_BOOKS = new Set(["polymarket"]);
+
+/** Books whose de-vigged line is used as fair, in order of preference */
+export const CROSS_VENUE_SHARP_BOOKS: string[] = Object.values(SHARP_BOOKS)
+  .filter((book) => book.tier === "primary")
+  .map((book) => book.id);
+
+export function toOddsMarketKey(sport: string, market: string): string {
+  return POLYMARKET_MARKET_REMAP[sport]?.[market] ?? market;
+}
+
+export function crossVenueMarketKind(market: string): CrossVenueMarketKind | null {
+  if (/team_total|period|half|quarter|inning|_1h|_2h|_f5/.test(market)) return null;
+  if (/moneyline|money_line|h2h/.test(market)) return "moneyline";
+  if (/spread|puck_line|run_line|handicap/.test(market)) return "spread";
+  if (/total/.test(market)) return "total";
+  return null;
+}
+
+export function oppositeSide(side: CrossVenueSide): CrossVenueSide {
+  return side === "home" ? "away" : side === "away" ? "home" : side === "over" ? "under" : "over";
+}
+
+/** The other side's line: spreads flip sign, totals keep the number */
+export function oppositeLine(kind: CrossVenueMarketKind, line: number | null): number | null {
+  if (line == null) return null;
+  return kind === "spread" ? -line : line;
+}
+
+/** Which team a name refers to, or null when ambiguous */
+export function matchEventTeam(name: string, event: SSEEvent): "home" | "away" | null {
+  const isHome = teamsMatch(name, event.home_team_name) || teamsMatch(name, event.home_team);
+  const isAway = teamsMatch(name, event.away_team_name) || teamsMatch(name, event.away_team);
+  if (isHome === isAway) return null;
+  return isHome ? "home" : "away";
+}
+
+/**
+ * Side and line of one Polymarket outcome.
+ * Titles follow the whale tracker: "Spread: Bucks (-5.5)", "Bucks vs. Jazz: O/U 225.5",
+ * "Will the Bucks win on 2026-01-12?".
+ */
+export function resolveOutcomeSide({
+  kind,
+  title,
+  outcome,
+  event,
+  sport,
+}: {
+  kind: CrossVenueMarketKind;
+  title: string;
+  outcome: string;
+  event: SSEEvent;
+  sport: string;
+}): { side: CrossVenueSide; line: number | null } | null {
+  const normalized = outcome.trim().toLowerCase();
+
+  if (kind === "total") {
+    const side = normalized.startsWith("over") ? "over" : normalized.startsWith("under") ? "under" : null;
+    const line = parseFloat(title.match(/O\/U\s+([\d.]+)/i)?.[1] ?? outcome.match(/([\d.]+)/)?.[1] ?? "");
+    return side && Number.isFinite(line) ? { side, line } : null;
+  }
+
+  // "Will X win" markets trade Yes/No on the named team
+  let team: "home" | "away" | null;
+  if (normalized === "yes" || normalized === "no") {
+    const named = title.match(/^Will (?:the )?(.+?) win/i)?.[1];
+    const namedTeam = named ? matchEventTeam(named, event) : null;
+    if (!namedTeam) return null;
+    if (normalized === "yes") team = namedTeam;
+    else if (kind === "moneyline" && !DRAW_SPORT_PATTERN.test(sport)) team = namedTeam === "home" ? "away" : "home";
+    else return null;
+  } else {
+    team = matchEventTeam(outcome, event);
+  }
+  if (!team) return null;
+
+  if (kind === "moneyline") return { side: team, line: null };
+
+  // Spread line belongs to the team in the title; the other team gets the flip
+  const rawLine = parseFloat(
+    title.match(/\(([+-]?\d+\.?\d*)\)/)?.[1] ?? title.match(/Spread\s+([+-]?\d+\.?\d*)/i)?.[1] ?? ""
+  );
+  if (!Number.isFinite(rawLine)) return null;
+  const titleTeamName = title.match(/Spread:\s*(.+?)\s*\(/i)?.[1];
+  const titleTeam = titleTeamName ? matchEventTeam(titleTeamName, event) : team;
+  if (!titleTeam) return null;
+  return { side: team, line: titleTeam === team ? rawLine : -rawLine };
+}
+
+/**
+ * Best price one book offers on a side/line of a game market
+ */
+export function findBookQuote(
+  book: string,
+  selections: SSEBookSelections,
+  event: SSEEvent,
+  kind: CrossVenueMarketKind,
+  side: CrossVenueSide,
+  line: number | null
+): CrossVenueQuote | null {
+  let best: CrossVenueQuote | null = null;
+
+  for (const [selKey, sel] of Object.entries(selections)) {
+    if (!sel || sel.locked) continue;
+    const [rawName, rawSide, lineStr] = selKey.split("|");
+    const american = parseInt(String(sel.price).replace("+", ""), 10);
+    if (!Number.isFinite(american) || american === 0) continue;
+    const selLine = Number.isFinite(sel.line) ? sel.line : parseFloat(lineStr);
+
+    if (kind === "total") {
+      const rawSelSide = (rawSide || sel.side || "").toLowerCase();
+      const selSide = rawSelSide === "o" ? "over" : rawSelSide === "u" ? "under" : rawSelSide;
+      if (selSide !== side || !Number.isFinite(selLine) || selLine !== line) continue;
+    } else {
+      if (matchEventTeam(sel.player || rawName, event) !== side) continue;
+      if (kind === "spread" && (!Number.isFinite(selLine) || selLine !== line)) continue;
+    }
+
+    const decimal = americanToDecimal(american);
+    if (!best || decimal > best.decimal) {
+      best = {
+        book: normalizeSportsbookId(book),
+        american,
+        decimal: Math.round(decimal * 1000) / 1000,
+        line: kind === "moneyline" ? null : selLine,
+        link: sel.link || null,
+        mobile_link: sel.mobile_link ?? null,
+        max: sel.limits?.max ?? null,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Price one mapped Polymarket outcome against every book's selections
+ * for its market (`books`: book id → selections).
+ */
+export function evaluateCrossVenue(
+  mapping: PolymarketMarketMapping,
+  event: SSEEvent,
+  polymarket: ExecutablePrice,
+  books: Map<string, SSEBookSelections>
+): CrossVenueRow {
+  const opposite = oppositeSide(mapping.side);
+  const oppLine = oppositeLine(mapping.kind, mapping.line);
+  const sameQuotes = new Map<string, CrossVenueQuote>();
+  const oppQuotes = new Map<string, CrossVenueQuote>();
+
+  for (const [book, selections] of books) {
+    if (SAME_VENUE_BOOKS.has(book.toLowerCase())) continue;
+    const same = findBookQuote(book, selections, event, mapping.kind, mapping.side, mapping.line);
+    const opp = findBookQuote(book, selections, event, mapping.kind, opposite, oppLine);
+    if (same) sameQuotes.set(same.book, same);
+    if (opp) oppQuotes.set(opp.book, opp);
+  }
+
+  const bestOf = (quotes: Map<string, CrossVenueQuote>) =>
+    [...quotes.values()].reduce<CrossVenueQuote | null>((best, q) => (!best || q.decimal > best.decimal ? q : best), null);
+  const bestSame = bestOf(sameQuotes);
+  const bestOpp = bestOf(oppQuotes);
+
+  // Two-way arb: stakes proportional to 1/decimal pay the same either way
+  const arbRoi = bestOpp ? (1 / (1 / polymarket.decimal + 1 / bestOpp.decimal) - 1) * 100 : null;
+
+  let sharp: CrossVenueRow["sharp"] = null;
+  for (const book of CROSS_VENUE_SHARP_BOOKS) {
+    const same = sameQuotes.get(book);
+    const opp = oppQuotes.get(book);
+    if (!same || !opp) continue;
+    const devig = devigPower(same.american, opp.american);
+    if (!devig.success || devig.fairProbOver <= 0) continue;
+    sharp = {
+      book,
+      fair_prob: Math.round(devig.fairProbOver * 10000) / 10000,
+      ev: Math.round((devig.fairProbOver * polymarket.decimal - 1) * 10000) / 100,
+    };
+    break;
+  }
+
+  return {
+    id: `${mapping.condition_id}:${mapping.token_id}`,
+    mapping,
+    event: {
+      dt: event.commence_time,
+      home: event.home_team_name || event.home_team,
+      away: event.away_team_name || event.away_team,
+    },
+    polymarket,
+    best_same_side: bestSame,
+    best_opposite: bestOpp,
+    book_implied: bestSame ? Math.round((1 / bestSame.decimal) * 10000) / 10000 : null,
+    edge_vs_books: bestSame ? Math.round((polymarket.decimal / bestSame.decimal - 1) * 10000) / 100 : null,
+    arb_roi: arbRoi != null ? Math.round(arbRoi * 100) / 100 : null,
+    sharp,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Polymarket order book pricing
+ *
+ * Turns CLOB depth into the price a bettor actually gets at a given stake:
+ * walks the asks from the best price up, adds the taker fee and converts
+ * the blended cost per share into American / decimal odds.
+ *
+ * Fees follow Polymarket's curve: rate × min(price, 1 − price) per share,
+ * so they peak at 50¢ and vanish near 0 and 1.
+ */
+
+import { decimalToAmerican } from "@/lib/ev/devig";
+import type { ClobLevel, ExecutablePrice } from "./types";
+
+/** Cheapest share worth quoting; 1¢ asks are dust on resolved-looking books */
+const MIN_PRICE = 0.01;
+const MAX_PRICE = 0.99;
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+function parseLevels(raw: unknown): ClobLevel[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((level: { price?: string | number; size?: string | number }) => ({
+      price: Number(level?.price),
+      size: Number(level?.size),
+    }))
+    .filter((level) => Number.isFinite(level.price) && Number.isFinite(level.size) && level.size > 0);
+}
+
+/**
+ * Normalize a CLOB `/book` response. Asks come back best-first (ascending),
+ * bids best-first (descending) regardless of the upstream order.
+ */
+export function parseClobBook(raw: unknown): { bids: ClobLevel[]; asks: ClobLevel[] } {
+  const book = (raw ?? {}) as { bids?: unknown; asks?: unknown };
+  return {
+    bids: parseLevels(book.bids).sort((a, b) => b.price - a.price),
+    asks: parseLevels(book.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/** Taker fee per share at a price */
+export function takerFeePerShare(price: number, feeBps: number): number {
+  return (feeBps / 10_000) * Math.min(price, 1 - price);
+}
+
+/**
+ * Fill `sizeUsd` (fees included) against the asks.
+ * Null when the book has no usable asks.
+ */
+export function executablePrice(asks: ClobLevel[], sizeUsd: number, feeBps = 0): ExecutablePrice | null {
+  let remaining = sizeUsd;
+  let shares = 0;
+  let notional = 0;
+  let fees = 0;
+  let levelsUsed = 0;
+
+  for (const level of asks) {
+    if (remaining <= 1e-9) break;
+    if (level.price < MIN_PRICE || level.price > MAX_PRICE) continue;
+
+    const fee = takerFeePerShare(level.price, feeBps);
+    const costPerShare = level.price + fee;
+    const take = Math.min(level.size, remaining / costPerShare);
+    if (take <= 0) continue;
+
+    shares += take;
+    notional += take * level.price;
+    fees += take * fee;
+    remaining -= take * costPerShare;
+    levelsUsed++;
+  }
+
+  if (shares <= 0) return null;
+
+  const filled = notional + fees;
+  const effective = filled / shares;
+  const decimal = 1 / effective;
+
+  return {
+    size_usd: sizeUsd,
+    filled_usd: round(filled, 2),
+    shares: round(shares, 2),
+    avg_price: round(notional / shares, 4),
+    fee_bps: feeBps,
+    effective_price: round(effective, 4),
+    american: decimalToAmerican(decimal),
+    decimal: round(decimal, 4),
+    implied: round(effective, 4),
+    levels_used: levelsUsed,
+    partial: remaining > 0.01,
+  };
+}
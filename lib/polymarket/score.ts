@@ -5,6 +5,9 @@
  *   - Stake conviction (bet size × multiplier vs avg) is the #1 factor
  *   - Bettor quality (tier, rank, ROI, sample) is #2
  *   - Edge (poly vs sportsbook) is a bonus
+ *   - Clustered wallets (one bettor across several wallets) are scored on
+ *     the cluster's combined stake on the same side, against the cluster's
+ *     combined average stake; cluster size adds nothing beyond that
  *   - Recency keeps stale signals from floating to the top
  *
  * Weights:
@@ -28,6 +31,9 @@ export interface ScoreInput {
   entry_price?: number | null;
   book_implied?: number | null;
   quality_score?: number | null;
+  cluster_size?: number | null;  // Cluster wallets holding this side, incl. this one
+  cluster_stake?: number | null; // Their combined stake on this side
+  cluster_avg_stake?: number | null; // Sum of those wallets' average stakes
   created_at: string;
 }
 
@@ -100,6 +106,19 @@ function scoreBettor(input: ScoreInput): number {
   return clamp(score, 0, 100);
 }
 
+/**
+ * The position we judge conviction on and the average it's compared to: a
+ * clustered wallet's combined stake on this side (vs the cluster's combined
+ * average) when it's larger than this wallet's own fill
+ */
+function effectiveStake(input: ScoreInput): { stake: number; avg: number | null } {
+  const clusterStake = input.cluster_stake ?? 0;
+  if (clusterStake > input.bet_size) {
+    return { stake: clusterStake, avg: input.cluster_avg_stake || null };
+  }
+  return { stake: input.bet_size, avg: input.wallet_avg_stake ?? null };
+}
+
 /**
  * Stake conviction (35% weight)
  * How much are they betting relative to their average?
@@ -108,11 +127,11 @@ function scoreBettor(input: ScoreInput): number {
  */
 function scoreConviction(input: ScoreInput): number {
   let score = 0;
+  const { stake, avg } = effectiveStake(input);
 
   // Stake vs average multiplier (0-50)
-  const avg = input.wallet_avg_stake;
   if (avg && avg > 0) {
-    const multiplier = input.bet_size / avg;
+    const multiplier = stake / avg;
     if (multiplier >= 10) score += 50;
     else if (multiplier >= 5) score += 42;
     else if (multiplier >= 3) score += 35;
@@ -127,13 +146,13 @@ function scoreConviction(input: ScoreInput): number {
   }
 
   // Absolute bet size (0-50)
-  if (input.bet_size >= 50000) score += 50;
-  else if (input.bet_size >= 25000) score += 42;
-  else if (input.bet_size >= 10000) score += 35;
-  else if (input.bet_size >= 5000) score += 28;
-  else if (input.bet_size >= 2000) score += 20;
-  else if (input.bet_size >= 1000) score += 15;
-  else if (input.bet_size >= 500) score += 10;
+  if (stake >= 50000) score += 50;
+  else if (stake >= 25000) score += 42;
+  else if (stake >= 10000) score += 35;
+  else if (stake >= 5000) score += 28;
+  else if (stake >= 2000) score += 20;
+  else if (stake >= 1000) score += 15;
+  else if (stake >= 500) score += 10;
   else score += 5;
 
   return clamp(score, 0, 100);
@@ -221,9 +240,9 @@ export function computeSignalScore(input: ScoreInput): ScoreResult {
 
   // Conviction modifier: multiplier vs avg stake
   let convictionMod = 0;
-  const avg = input.wallet_avg_stake;
+  const { stake, avg } = effectiveStake(input);
   if (avg && avg > 0) {
-    const multiplier = input.bet_size / avg;
+    const multiplier = stake / avg;
     if (multiplier >= 10) convictionMod = 18;
     else if (multiplier >= 5) convictionMod = 14;
     else if (multiplier >= 3) convictionMod = 10;
@@ -234,9 +253,9 @@ export function computeSignalScore(input: ScoreInput): ScoreResult {
     else convictionMod = -6;
   } else {
     // No avg data — use absolute size
-    if (input.bet_size >= 10000) convictionMod = 8;
-    else if (input.bet_size >= 5000) convictionMod = 5;
-    else if (input.bet_size >= 1000) convictionMod = 2;
+    if (stake >= 10000) convictionMod = 8;
+    else if (stake >= 5000) convictionMod = 5;
+    else if (stake >= 1000) convictionMod = 2;
   }
 
   // Bettor quality modifier (rank, PnL, win rate)
@@ -76,6 +76,11 @@ export interface WalletScore {
 
   // Account
   is_new_account: boolean;
+
+  // Clustering (set by the cluster-polymarket-wallets job)
+  cluster_id?: string | null;
+  is_cluster_primary?: boolean | null;
+  cluster?: WalletCluster | null;
 }
 
 export interface BookOdds {
@@ -160,6 +165,9 @@ export interface WhaleSignal {
   wallet_total_trades?: number | null;    // All-time Polymarket trades (from backfill)
   wallet_sport_breakdown?: Record<string, { trades: number; volume: number }> | null;
   stake_vs_avg?: number | null; // multiplier vs avg stake
+  cluster_id?: string | null;   // Wallet's cluster, if it's linked to others
+  cluster_size?: number | null; // Cluster wallets holding this side (incl. this one)
+  cluster_stake?: number | null; // Their combined stake on this side
 
   // Composite signal score
   signal_score?: number;     // 0.0 - 10.0
@@ -263,6 +271,7 @@ export interface SignalPreferences {
   signal_market_types?: string[];     // Market type filter (moneyline, spread, total, futures)
   signal_hide_delay?: number;         // Hours after game start to keep showing picks (0 = hide immediately, default)
   signal_show_hidden?: boolean;       // Show hidden picks (default true)
+  signal_copy_settings?: Partial<CopyTradingSettings> | null; // Follow-portfolio simulator settings
 }
 
 export interface WalletDetailResponse {
@@ -270,3 +279,265 @@ export interface WalletDetailResponse {
   recent_bets: WhaleSignal[];
   sport_stats: Record<string, { w: number; l: number; roi: number }>;
 }
+
+// ── Cross-venue scanner ──────────────────────────────────────────────
+
+export type CrossVenueMarketKind = "moneyline" | "spread" | "total";
+export type CrossVenueSide = "home" | "away" | "over" | "under";
+
+/** One price level of a CLOB book (price in 0-1, size in shares) */
+export interface ClobLevel {
+  price: number;
+  size: number;
+}
+
+/** Price actually paid walking the asks for a given stake */
+export interface ExecutablePrice {
+  size_usd: number;          // Stake requested
+  filled_usd: number;        // Stake the book could absorb (< size_usd when depth runs out)
+  shares: number;
+  avg_price: number;         // Volume-weighted fill price (0-1)
+  fee_bps: number;
+  effective_price: number;   // avg_price plus taker fee
+  american: number;
+  decimal: number;
+  implied: number;
+  levels_used: number;
+  partial: boolean;
+}
+
+/** A Polymarket outcome token mapped onto our odds keys */
+export interface PolymarketMarketMapping {
+  condition_id: string;
+  token_id: string;
+  title: string;
+  outcome: string;
+  sport: string;
+  event_id: string;
+  market: string;            // Redis market key (e.g. "game_moneyline", "total_points")
+  kind: CrossVenueMarketKind;
+  side: CrossVenueSide;
+  line: number | null;       // Spread line for this side, total line, null for moneyline
+  game_start_time: string | null;
+}
+
+export interface CrossVenueQuote {
+  book: string;
+  american: number;
+  decimal: number;
+  line: number | null;
+  link?: string | null;
+  mobile_link?: string | null;
+  max?: number | null;
+}
+
+export interface CrossVenueRow {
+  id: string;                // condition_id:token_id
+  mapping: PolymarketMarketMapping;
+  event: { dt: string; home: string; away: string };
+  polymarket: ExecutablePrice;
+  best_same_side: CrossVenueQuote | null;
+  best_opposite: CrossVenueQuote | null;
+  book_implied: number | null;     // Best same-side sportsbook implied probability
+  edge_vs_books: number | null;    // % better payout than the best same-side book
+  arb_roi: number | null;          // Guaranteed return % vs the best opposite book (> 0 = arb)
+  sharp: {
+    book: string;
+    fair_prob: number;             // De-vigged probability of this side
+    ev: number;                    // EV % of the Polymarket fill at fair
+  } | null;
+}
+
+export interface CrossVenueScanSummary {
+  sports: string[];
+  size_usd: number;
+  fee_bps: number;
+  markets_mapped: number;
+  tokens_priced: number;      // Outcome tokens with a fillable order book
+  arbs: number;
+  positive_ev: number;
+  duration_ms: number;
+}
+
+export interface CrossVenueResponse {
+  rows: CrossVenueRow[];
+  summary: CrossVenueScanSummary;
+}
+
+// ── Copy-trading simulator ───────────────────────────────────────────
+
+export type CopySizingMode = "flat" | "proportional" | "kelly";
+
+export interface CopyTradingSettings {
+  bankroll: number;            // Starting virtual bankroll (USD)
+  sizing: CopySizingMode;
+  unit: number;                // Flat stake, and the stake at 1× their average in proportional mode
+  kelly_fraction: number;      // 0.1 - 1 (kelly mode)
+  max_stake_pct: number;       // Cap per bet, % of current bankroll
+  entry_delay_minutes: number; // How long after their fill we get in
+  slippage_cents: number;      // Added to our fill price (cents per share)
+  days: number;                // Lookback window
+}
+
+/** One copied position (their fills on a token merged into one entry) */
+export interface CopyTrade {
+  id: string;                  // wallet:token_id
+  wallet_address: string;
+  wallet_username: string | null;
+  market_title: string;
+  outcome: string;
+  sport: string | null;
+  their_entry: number;         // Their VWAP entry price (0-1)
+  their_size: number;          // Their total USD
+  placed_at: string;           // Our (delayed) entry time
+  copy_price: number | null;   // Our fill after delay + slippage
+  stake: number;
+  status: "won" | "lost" | "pending" | "skipped";
+  skip_reason?: "started" | "price" | "bankroll" | "no_edge";
+  pnl: number;
+  settled_at: string | null;
+}
+
+export interface CopyPortfolioPoint {
+  t: string;
+  bankroll: number;            // Realized bankroll (cash + open stakes at cost)
+  drawdown_pct: number;        // Below the running peak
+}
+
+export interface CopyWalletContribution {
+  wallet_address: string;
+  wallet_username: string | null;
+  bets: number;
+  wins: number;
+  losses: number;
+  pending: number;
+  staked: number;
+  pnl: number;
+  roi: number;                 // % on settled stake
+  share_of_pnl: number;        // % of the portfolio's total P&L
+}
+
+export interface CopyPortfolioSummary {
+  start_bankroll: number;
+  end_bankroll: number;
+  pnl: number;
+  roi: number;                 // % on settled stake
+  growth_pct: number;          // Bankroll growth
+  max_drawdown: number;
+  max_drawdown_pct: number;
+  bets: number;
+  wins: number;
+  losses: number;
+  pending: number;
+  open_stake: number;
+  skipped: number;
+}
+
+export interface CopyPortfolioResponse {
+  settings: CopyTradingSettings;
+  wallets: string[];
+  summary: CopyPortfolioSummary;
+  curve: CopyPortfolioPoint[];
+  contributions: CopyWalletContribution[];
+  trades: CopyTrade[];
+  /** Signals or fills past the read cap were left out; the oldest go first */
+  truncated: boolean;
+}
+
+// ── Wallet clusters ──────────────────────────────────────────────────
+
+/** Average pair evidence behind a cluster, each 0-1 */
+export interface ClusterEvidence {
+  co_timing: number; // Share of positions entered within minutes of each other
+  sequence: number;  // Longest common run of markets, in order
+  funding: number;   // Share of links with a common funding wallet
+  stake: number;     // Similarity of typical stake size
+}
+
+export interface WalletClusterMember {
+  wallet_address: string;
+  wallet_username: string | null;
+  rank: number | null;
+  tier: WalletTier;
+  total_bets: number;
+  roi: number | null;
+  /** Strongest link score to another member (0-1) */
+  link_score: number;
+}
+
+/** Wallets that look like one bettor, with stats summed across them */
+export interface WalletCluster {
+  cluster_id: string;
+  primary_wallet: string;
+  size: number;
+  /** Mean link score across the pairs that formed the cluster (0-1) */
+  confidence: number;
+  evidence: ClusterEvidence;
+  members: WalletClusterMember[];
+  total_bets: number;
+  wins: number;
+  losses: number;
+  win_rate: number | null;
+  roi: number | null;
+  total_wagered: number;
+  total_profit: number;
+  avg_stake: number;
+  updated_at: string;
+}
+
+// ── Market consensus ─────────────────────────────────────────────────
+
+export type ConsensusLabel = "strong" | "lean" | "split";
+
+/** A top (S/A-tier) wallet's first entry on a side; clusters count once */
+export interface ConsensusEntry {
+  wallet_address: string;
+  cluster_id: string | null;
+  tier: WalletTier;
+  dollars: number;
+  at: string;
+}
+
+/** Several top wallets entering the same side within a short window */
+export interface ConsensusPileOn {
+  outcome: string;
+  wallets: number;
+  dollars: number;
+  window_minutes: number;
+  first_at: string;
+  last_at: string;
+}
+
+export interface ConsensusSide {
+  outcome: string;
+  /** Dollars bought on this outcome */
+  dollars: number;
+  /** Dollars on other outcomes or sold out of this one */
+  opposing_dollars: number;
+  net_dollars: number;
+  /** Stake × wallet-tier weight × time decay */
+  weighted: number;
+  /** Distinct wallets (clusters count once) */
+  wallets: number;
+  top_wallets: number;
+  fade_wallets: number;
+  top_entries: ConsensusEntry[];
+}
+
+export interface MarketConsensus {
+  condition_id: string;
+  market_title: string;
+  sport: string | null;
+  market_type: string | null;
+  game_start_time: string | null;
+  /** Side the weighted money favours */
+  outcome: string;
+  /** 0-100: dominance over opposing money, top-wallet breadth and size */
+  strength: number;
+  label: ConsensusLabel;
+  /** Share of weighted money on the consensus side (0-100) */
+  dominance: number;
+  sides: ConsensusSide[];
+  pile_on: ConsensusPileOn | null;
+  last_signal_at: string;
+}
@@ -0,0 +1,336 @@
+/**
+ * Baseball Game Simulator
+ *
+ * Plate-appearance-by-plate-appearance Monte Carlo.
+ *
+ * Batters: the PA count comes from the lineup slot, and each PA rolls a
+ * single / double / triple / HR / walk / strikeout / out from the batter's
+ * rates blended with the opposing pitcher (odds-ratio), then nudged by the
+ * hot-zone overlay and the weather/park deltas. Runs and RBI are drawn per
+ * event from slot-dependent run-scoring chances.
+ *
+ * Pitchers: innings are played out with a base/out state against the
+ * pitcher's rates allowed until a sampled batters-faced limit, giving
+ * strikeouts, hits, walks, earned runs and outs from the same starts.
+ */
+
+import { createRng, sampleCategorical, sampleNormal, type Rng } from "./random";
+import type {
+  BaseballEnvironment,
+  BatterSimInput,
+  PitcherSimInput,
+  PlateAppearanceRates,
+  SimulationOptions,
+  SimulationSamples,
+} from "./types";
+
+const DEFAULT_SIMULATIONS = 5000;
+
+/** League-average outcome rates per plate appearance */
+export const LEAGUE_PA_RATES: PlateAppearanceRates = {
+  single: 0.142,
+  double: 0.044,
+  triple: 0.004,
+  home_run: 0.031,
+  walk: 0.083,
+  strikeout: 0.224,
+};
+
+/** Average plate appearances per game by lineup slot (1-9) */
+const PA_BY_SLOT = [4.65, 4.55, 4.45, 4.35, 4.25, 4.15, 4.05, 3.95, 3.85];
+const DEFAULT_PA = 4.2;
+
+/** Heart of the order drives in more, top of the order scores more */
+const RBI_SLOT_FACTOR = [0.8, 0.95, 1.1, 1.2, 1.15, 1.0, 0.95, 0.9, 0.85];
+const RUN_SLOT_FACTOR = [1.15, 1.15, 1.1, 1.05, 1.0, 0.95, 0.9, 0.85, 0.9];
+
+/** Mean RBI per event beyond the batter himself (runners on base) */
+const RBI_PER_EVENT = { home_run: 0.6, triple: 0.85, double: 0.7, single: 0.4, walk: 0.03, out: 0.06 };
+/** Chance the batter comes around to score after reaching */
+const RUN_AFTER_EVENT = { triple: 0.65, double: 0.45, single: 0.3, walk: 0.3 };
+
+/** Hot-zone edge of ±1 moves strikeouts/hits by these shares */
+const ZONE_STRIKEOUT_SWING = 0.15;
+const ZONE_HIT_SWING = 0.1;
+
+const BATTERS_FACED_SD = 3.5;
+
+const OUTCOMES = ["single", "double", "triple", "home_run", "walk", "strikeout"] as const;
+type Outcome = (typeof OUTCOMES)[number] | "out";
+
+function clampProb(value: number): number {
+  return Math.min(Math.max(value, 0.0005), 0.9);
+}
+
+/**
+ * Odds-ratio (log5) blend of batter and pitcher rates against the league.
+ */
+function log5(batter: number, pitcher: number, league: number): number {
+  const b = clampProb(batter);
+  const p = clampProb(pitcher);
+  const l = clampProb(league);
+  const odds = (b / (1 - b)) * (p / (1 - p)) / (l / (1 - l));
+  return odds / (1 + odds);
+}
+
+/**
+ * Matchup rates for one batter vs a pitcher in this game's environment.
+ * Pass `pitcher: null` to keep the batter's own rates.
+ */
+export function matchupRates(
+  batter: PlateAppearanceRates,
+  pitcher: PlateAppearanceRates | null,
+  env: BaseballEnvironment | null
+): PlateAppearanceRates {
+  const rates = { ...batter };
+  if (pitcher) {
+    for (const outcome of OUTCOMES) {
+      rates[outcome] = log5(batter[outcome], pitcher[outcome], LEAGUE_PA_RATES[outcome]);
+    }
+  }
+
+  if (env) {
+    rates.home_run *= 1 + (env.hr_pct_delta ?? 0) / 100;
+    rates.double *= 1 + (env.xbh_pct_delta ?? 0) / 100;
+    rates.triple *= 1 + (env.xbh_pct_delta ?? 0) / 100;
+    rates.single *= 1 + (env.singles_pct_delta ?? 0) / 100;
+
+    const edge = Math.min(Math.max(env.zone_edge ?? 0, -1), 1);
+    rates.strikeout *= 1 - ZONE_STRIKEOUT_SWING * edge;
+    const hitFactor = 1 + ZONE_HIT_SWING * edge;
+    rates.single *= hitFactor;
+    rates.double *= hitFactor;
+    rates.triple *= hitFactor;
+    rates.home_run *= hitFactor;
+  }
+
+  // Leave room for balls in play that become outs
+  const total = OUTCOMES.reduce((sum, outcome) => sum + rates[outcome], 0);
+  if (total > 0.9) {
+    for (const outcome of OUTCOMES) rates[outcome] *= 0.9 / total;
+  }
+  return rates;
+}
+
+function cumulativeRates(rates: PlateAppearanceRates): number[] {
+  let running = 0;
+  return OUTCOMES.map((outcome) => (running += Math.max(rates[outcome], 0)));
+}
+
+function drawOutcome(rng: Rng, cumulative: number[]): Outcome {
+  const index = sampleCategorical(rng, cumulative);
+  return index < OUTCOMES.length ? OUTCOMES[index] : "out";
+}
+
+/** Poisson draw for small means (Knuth) */
+function samplePoisson(rng: Rng, mean: number): number {
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let product = rng();
+  while (product > limit) {
+    k++;
+    product *= rng();
+  }
+  return k;
+}
+
+function samplePlateAppearances(rng: Rng, mean: number): number {
+  // 3 guaranteed trips plus up to three more, matching the mean
+  const p = Math.min(Math.max((mean - 3) / 3, 0), 1);
+  let extra = 0;
+  for (let i = 0; i < 3; i++) if (rng() < p) extra++;
+  return 3 + extra;
+}
+
+/**
+ * Simulate a batter's game `simulations` times.
+ * `rates` should already be the matchup rates (see matchupRates).
+ */
+export function simulateBatterGame(
+  input: BatterSimInput,
+  options: SimulationOptions = {}
+): SimulationSamples {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const rng = createRng(options.seed ?? input.player_id);
+  const slotIndex = input.lineup_slot && input.lineup_slot >= 1 && input.lineup_slot <= 9
+    ? input.lineup_slot - 1
+    : null;
+  const meanPa = slotIndex !== null ? PA_BY_SLOT[slotIndex] : DEFAULT_PA;
+  const rbiFactor = slotIndex !== null ? RBI_SLOT_FACTOR[slotIndex] : 1;
+  const runFactor = slotIndex !== null ? RUN_SLOT_FACTOR[slotIndex] : 1;
+  const cumulative = cumulativeRates(input.rates);
+
+  const keys = [
+    "hits", "singles", "doubles", "triples", "home_runs", "total_bases",
+    "base_on_balls", "strike_outs", "rbi", "runs", "stolen_bases",
+  ] as const;
+  const stats = Object.fromEntries(keys.map((key) => [key, new Float64Array(simulations)])) as Record<
+    (typeof keys)[number],
+    Float64Array
+  >;
+
+  for (let s = 0; s < simulations; s++) {
+    const plateAppearances = samplePlateAppearances(rng, meanPa);
+    let rbi = 0;
+    let runs = 0;
+
+    for (let pa = 0; pa < plateAppearances; pa++) {
+      const outcome = drawOutcome(rng, cumulative);
+      switch (outcome) {
+        case "home_run":
+          stats.home_runs[s]++;
+          stats.hits[s]++;
+          stats.total_bases[s] += 4;
+          rbi += 1 + samplePoisson(rng, RBI_PER_EVENT.home_run * rbiFactor);
+          runs++;
+          break;
+        case "triple":
+          stats.triples[s]++;
+          stats.hits[s]++;
+          stats.total_bases[s] += 3;
+          rbi += samplePoisson(rng, RBI_PER_EVENT.triple * rbiFactor);
+          if (rng() < RUN_AFTER_EVENT.triple * runFactor) runs++;
+          break;
+        case "double":
+          stats.doubles[s]++;
+          stats.hits[s]++;
+          stats.total_bases[s] += 2;
+          rbi += samplePoisson(rng, RBI_PER_EVENT.double * rbiFactor);
+          if (rng() < RUN_AFTER_EVENT.double * runFactor) runs++;
+          break;
+        case "single":
+        case "walk": {
+          if (outcome === "single") {
+            stats.singles[s]++;
+            stats.hits[s]++;
+            stats.total_bases[s] += 1;
+          } else {
+            stats.base_on_balls[s]++;
+          }
+          rbi += samplePoisson(rng, RBI_PER_EVENT[outcome] * rbiFactor);
+          const stole = rng() < input.steal_rate;
+          if (stole) stats.stolen_bases[s]++;
+          // A steal puts him in scoring position
+          const scoreChance = stole ? RUN_AFTER_EVENT.double : RUN_AFTER_EVENT[outcome];
+          if (rng() < scoreChance * runFactor) runs++;
+          break;
+        }
+        case "strikeout":
+          stats.strike_outs[s]++;
+          break;
+        default:
+          if (rng() < RBI_PER_EVENT.out * rbiFactor) rbi++;
+      }
+    }
+
+    stats.rbi[s] = rbi;
+    stats.runs[s] = runs;
+  }
+
+  return {
+    simulations,
+    stats,
+    context: {
+      lineup_slot: input.lineup_slot,
+      expected_plate_appearances: meanPa,
+      k_rate: Math.round(input.rates.strikeout * 1000) / 1000,
+      hr_rate: Math.round(input.rates.home_run * 1000) / 1000,
+    },
+  };
+}
+
+/**
+ * Simulate a pitcher's start `simulations` times.
+ * `rates` are rates allowed per batter faced, already environment-adjusted.
+ */
+export function simulatePitcherGame(
+  input: PitcherSimInput,
+  options: SimulationOptions = {}
+): SimulationSamples {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const rng = createRng(options.seed ?? input.player_id);
+  const cumulative = cumulativeRates(input.rates);
+
+  const keys = ["strike_outs", "hits_allowed", "base_on_balls", "earned_runs", "outs", "batters_faced"] as const;
+  const stats = Object.fromEntries(keys.map((key) => [key, new Float64Array(simulations)])) as Record<
+    (typeof keys)[number],
+    Float64Array
+  >;
+
+  for (let s = 0; s < simulations; s++) {
+    const limit = Math.max(Math.round(sampleNormal(rng, input.batters_faced, BATTERS_FACED_SD)), 3);
+    let faced = 0;
+    let outs = 0;
+    let runs = 0;
+    // bases[0] = first, [1] = second, [2] = third
+    let bases = [false, false, false];
+
+    while (faced < limit && outs < 27) {
+      faced++;
+      const outcome = drawOutcome(rng, cumulative);
+      const onBase = bases.filter(Boolean).length;
+
+      switch (outcome) {
+        case "strikeout":
+          stats.strike_outs[s]++;
+          outs++;
+          break;
+        case "out":
+          // Sac fly / productive out from third with less than two outs
+          if (bases[2] && outs % 3 < 2 && rng() < 0.35) {
+            runs++;
+            bases[2] = false;
+          }
+          outs++;
+          break;
+        case "walk":
+          stats.base_on_balls[s]++;
+          if (bases[0] && bases[1] && bases[2]) runs++;
+          bases = [true, bases[0] || bases[1], (bases[0] && bases[1]) || bases[2]];
+          break;
+        case "single": {
+          stats.hits_allowed[s]++;
+          const fromSecond = bases[1] && rng() < 0.6;
+          runs += (bases[2] ? 1 : 0) + (fromSecond ? 1 : 0);
+          bases = [true, bases[0], bases[1] && !fromSecond];
+          break;
+        }
+        case "double": {
+          stats.hits_allowed[s]++;
+          const fromFirst = bases[0] && rng() < 0.4;
+          runs += (bases[2] ? 1 : 0) + (bases[1] ? 1 : 0) + (fromFirst ? 1 : 0);
+          bases = [false, true, bases[0] && !fromFirst];
+          break;
+        }
+        case "triple":
+          stats.hits_allowed[s]++;
+          runs += onBase;
+          bases = [false, false, true];
+          break;
+        case "home_run":
+          stats.hits_allowed[s]++;
+          runs += onBase + 1;
+          bases = [false, false, false];
+          break;
+      }
+
+      if (outcome === "strikeout" || outcome === "out") {
+        if (outs % 3 === 0) bases = [false, false, false];
+      }
+    }
+
+    stats.earned_runs[s] = runs;
+    stats.outs[s] = outs;
+    stats.batters_faced[s] = faced;
+  }
+
+  return {
+    simulations,
+    stats,
+    context: {
+      expected_batters_faced: Math.round(input.batters_faced * 10) / 10,
+      k_rate: Math.round(input.rates.strikeout * 1000) / 1000,
+      bb_rate: Math.round(input.rates.walk * 1000) / 1000,
+    },
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Basketball Game Simulator
+ *
+ * Possession-by-possession Monte Carlo for one player:
+ *
+ * 1. Team possessions are drawn around the projected matchup pace.
+ * 2. Minutes are resampled from the player's recent games (recency weighted)
+ *    and turned into on-court possessions.
+ * 3. Every on-court possession rolls for a three, a two, free throws,
+ *    rebound, assist, steal, block and turnover at the player's per-possession
+ *    rates, scaled by the opponent's defense and a per-game "form" draw so
+ *    hot and cold nights widen the tails together.
+ *
+ * Stats are sampled jointly, so combo markets come from the same games.
+ */
+
+import { createRng, sampleBinomial, sampleNormal, type Rng } from "./random";
+import type {
+  BasketballGameLine,
+  BasketballSimInput,
+  SimulationOptions,
+  SimulationSamples,
+} from "./types";
+
+type CountingStat = Exclude<keyof BasketballGameLine, "minutes">;
+
+const GAME_MINUTES = { nba: 48, wnba: 40 } as const;
+const LEAGUE_PACE = { nba: 99.5, wnba: 80 } as const;
+const DEFAULT_SIMULATIONS = 5000;
+
+/** Game-to-game pace noise as a share of projected pace */
+const PACE_SD_SHARE = 0.04;
+/** Minutes noise on top of the resampled game (rotation / foul trouble) */
+const MINUTES_SD = 2;
+/** Per-game multiplier on every rate (shooting nights, role swings) */
+const FORM_SD = 0.12;
+/** Recency decay per game back */
+const RECENCY_DECAY = 0.92;
+/** Share of non-three points scored at the line */
+const FREE_THROW_POINT_SHARE = 0.25;
+/** Max rate swing from the best to worst defense */
+const DEFENSE_SWING = 0.12;
+
+const COUNTING_STATS: CountingStat[] = ["pts", "reb", "ast", "fg3m", "stl", "blk", "tov"];
+
+/**
+ * Rate multiplier for an opponent's defense-vs-position rank
+ * (1 = toughest defense → below 1, last = softest → above 1).
+ */
+export function defenseFactorFromRank(rank: number | null | undefined, teamCount: number): number {
+  if (rank == null || !Number.isFinite(rank) || teamCount < 2) return 1;
+  const position = (Math.min(Math.max(rank, 1), teamCount) - 1) / (teamCount - 1);
+  return 1 + DEFENSE_SWING * (position - 0.5);
+}
+
+interface PossessionRates {
+  three: number;
+  two: number;
+  /** Points per possession from the line (two attempts at half this each) */
+  freeThrowPoints: number;
+  reb: number;
+  ast: number;
+  stl: number;
+  blk: number;
+  tov: number;
+}
+
+function clampRate(value: number): number {
+  return Math.min(Math.max(value, 0), 0.95);
+}
+
+/**
+ * Recency-weighted per-possession rates from recent games.
+ */
+function estimateRates(games: BasketballGameLine[], pace: number, gameMinutes: number): PossessionRates | null {
+  const totals: Record<CountingStat, number> = { pts: 0, reb: 0, ast: 0, fg3m: 0, stl: 0, blk: 0, tov: 0 };
+  let possessions = 0;
+  let weight = 1;
+
+  for (const game of games) {
+    if (!(game.minutes > 0)) continue;
+    possessions += weight * pace * (game.minutes / gameMinutes);
+    for (const stat of COUNTING_STATS) totals[stat] += weight * (game[stat] || 0);
+    weight *= RECENCY_DECAY;
+  }
+  if (possessions <= 0) return null;
+
+  const insidePoints = Math.max(totals.pts - 3 * totals.fg3m, 0);
+  return {
+    three: totals.fg3m / possessions,
+    two: (insidePoints * (1 - FREE_THROW_POINT_SHARE)) / 2 / possessions,
+    freeThrowPoints: (insidePoints * FREE_THROW_POINT_SHARE) / possessions,
+    reb: totals.reb / possessions,
+    ast: totals.ast / possessions,
+    stl: totals.stl / possessions,
+    blk: totals.blk / possessions,
+    tov: totals.tov / possessions,
+  };
+}
+
+function createMinutesSampler(games: BasketballGameLine[], gameMinutes: number, rng: Rng): () => number {
+  const played = games.filter((game) => game.minutes > 0);
+  const weights: number[] = [];
+  let weight = 1;
+  let total = 0;
+  for (let i = 0; i < played.length; i++) {
+    total += weight;
+    weights.push(total);
+    weight *= RECENCY_DECAY;
+  }
+
+  return () => {
+    const u = rng() * total;
+    let index = weights.findIndex((w) => u < w);
+    if (index < 0) index = played.length - 1;
+    const minutes = sampleNormal(rng, played[index].minutes, MINUTES_SD);
+    return Math.min(Math.max(minutes, 0), gameMinutes);
+  };
+}
+
+/**
+ * Simulate a player's game `simulations` times.
+ * Returns null when there are no recent games with minutes.
+ */
+export function simulateBasketballGame(
+  input: BasketballSimInput,
+  options: SimulationOptions = {}
+): SimulationSamples | null {
+  const gameMinutes = GAME_MINUTES[input.league];
+  const baselinePace = input.baseline_pace ?? input.projected_pace ?? LEAGUE_PACE[input.league];
+  const projectedPace = input.projected_pace ?? baselinePace;
+
+  const rates = estimateRates(input.games, baselinePace, gameMinutes);
+  if (!rates) return null;
+
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const rng = createRng(options.seed ?? input.player_id);
+  const sampleMinutes = createMinutesSampler(input.games, gameMinutes, rng);
+  const defense = input.defense_factors ?? {};
+  const scoringFactor = defense.pts ?? 1;
+
+  const stats: Record<CountingStat | "minutes", Float64Array> = {
+    minutes: new Float64Array(simulations),
+    pts: new Float64Array(simulations),
+    reb: new Float64Array(simulations),
+    ast: new Float64Array(simulations),
+    fg3m: new Float64Array(simulations),
+    stl: new Float64Array(simulations),
+    blk: new Float64Array(simulations),
+    tov: new Float64Array(simulations),
+  };
+
+  for (let s = 0; s < simulations; s++) {
+    const teamPossessions = Math.max(
+      Math.round(sampleNormal(rng, projectedPace, projectedPace * PACE_SD_SHARE)),
+      0
+    );
+    const minutes = sampleMinutes();
+    const onCourt = Math.round(teamPossessions * (minutes / gameMinutes));
+    const form = Math.max(sampleNormal(rng, 1, FORM_SD), 0.4);
+
+    const pThree = clampRate(rates.three * form * (defense.fg3m ?? scoringFactor));
+    const pTwo = clampRate(rates.two * form * scoringFactor);
+    const pFreeThrow = clampRate((rates.freeThrowPoints / 2) * form * scoringFactor);
+    const pReb = clampRate(rates.reb * form * (defense.reb ?? 1));
+    const pAst = clampRate(rates.ast * form * (defense.ast ?? 1));
+    const pStl = clampRate(rates.stl * form * (defense.stl ?? 1));
+    const pBlk = clampRate(rates.blk * form * (defense.blk ?? 1));
+    const pTov = clampRate(rates.tov * form * (defense.tov ?? 1));
+
+    let pts = 0;
+    let fg3m = 0;
+    for (let p = 0; p < onCourt; p++) {
+      // A possession ends in at most one made field goal
+      const shot = rng();
+      if (shot < pThree) {
+        fg3m++;
+        pts += 3;
+      } else if (shot < pThree + pTwo) {
+        pts += 2;
+      }
+    }
+    pts += sampleBinomial(rng, onCourt * 2, pFreeThrow);
+
+    stats.minutes[s] = Math.round(minutes);
+    stats.pts[s] = pts;
+    stats.fg3m[s] = fg3m;
+    stats.reb[s] = sampleBinomial(rng, onCourt, pReb);
+    stats.ast[s] = sampleBinomial(rng, onCourt, pAst);
+    stats.stl[s] = sampleBinomial(rng, onCourt, pStl);
+    stats.blk[s] = sampleBinomial(rng, onCourt, pBlk);
+    stats.tov[s] = sampleBinomial(rng, onCourt, pTov);
+  }
+
+  return {
+    simulations,
+    stats,
+    context: {
+      projected_pace: Math.round(projectedPace * 10) / 10,
+      baseline_pace: Math.round(baselinePace * 10) / 10,
+      games_used: input.games.filter((game) => game.minutes > 0).length,
+    },
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Stat distributions from simulated samples, and pricing lines against them.
+ */
+
+import { calculateEV, impliedProbToAmerican, normalCDF } from "@/lib/ev/devig";
+import type {
+  LineProjection,
+  PlayerSimulation,
+  ProjectionSport,
+  SimulationSamples,
+  StatDistribution,
+  StatDistributions,
+} from "./types";
+
+/** Tail beyond this is folded into the last pmf bucket */
+const MAX_PMF_VALUE = 120;
+
+/**
+ * Collapse simulated integer samples into a distribution.
+ */
+export function buildDistribution(samples: ArrayLike<number>): StatDistribution {
+  const n = samples.length;
+  if (n === 0) return { mean: 0, std_dev: 0, median: 0, pmf: [1] };
+
+  let max = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < n; i++) {
+    const value = Math.min(Math.max(Math.round(samples[i]), 0), MAX_PMF_VALUE);
+    if (value > max) max = value;
+    sum += value;
+    sumSq += value * value;
+  }
+
+  const counts = new Array<number>(max + 1).fill(0);
+  for (let i = 0; i < n; i++) {
+    counts[Math.min(Math.max(Math.round(samples[i]), 0), MAX_PMF_VALUE)]++;
+  }
+
+  const mean = sum / n;
+  const pmf = counts.map((c) => c / n);
+
+  let cumulative = 0;
+  let median = 0;
+  for (let k = 0; k < pmf.length; k++) {
+    cumulative += pmf[k];
+    if (cumulative >= 0.5) {
+      median = k;
+      break;
+    }
+  }
+
+  return {
+    mean: Math.round(mean * 100) / 100,
+    std_dev: Math.round(Math.sqrt(Math.max(sumSq / n - mean * mean, 0)) * 100) / 100,
+    median,
+    pmf,
+  };
+}
+
+/**
+ * Sum per-simulation samples of several stats (PRA, H+R+RBI, ...).
+ */
+export function combineSamples(samples: ArrayLike<number>[]): Float64Array {
+  const n = samples[0]?.length ?? 0;
+  const combined = new Float64Array(n);
+  for (const stat of samples) {
+    for (let i = 0; i < n; i++) combined[i] += stat[i];
+  }
+  return combined;
+}
+
+/**
+ * Distribution of a market's stat keys summed per simulation.
+ * Null when the simulator doesn't produce one of the keys.
+ */
+export function marketDistribution(
+  samples: SimulationSamples,
+  statKeys: string[]
+): StatDistribution | null {
+  const parts = statKeys.map((key) => samples.stats[key]);
+  if (parts.length === 0 || parts.some((part) => !part)) return null;
+  return buildDistribution(parts.length === 1 ? parts[0] : combineSamples(parts));
+}
+
+/**
+ * Summarize every simulated stat for display.
+ */
+export function summarizeSimulation(
+  sport: ProjectionSport,
+  player: { player_id: number; player_name: string | null },
+  samples: SimulationSamples
+): PlayerSimulation {
+  const stats: StatDistributions = {};
+  for (const [key, values] of Object.entries(samples.stats)) {
+    stats[key] = buildDistribution(values);
+  }
+  return {
+    sport,
+    player_id: player.player_id,
+    player_name: player.player_name,
+    simulations: samples.simulations,
+    stats,
+    context: samples.context,
+  };
+}
+
+/**
+ * Over / under / push probabilities at a line.
+ * Half-point lines never push; whole-number lines push on the exact value.
+ */
+export function lineProbabilities(
+  dist: StatDistribution,
+  line: number
+): { over: number; under: number; push: number } {
+  let over = 0;
+  let push = 0;
+  for (let k = 0; k < dist.pmf.length; k++) {
+    if (k > line) over += dist.pmf[k];
+    else if (k === line) push += dist.pmf[k];
+  }
+  return { over, under: Math.max(1 - over - push, 0), push };
+}
+
+function fairOdds(prob: number): number | null {
+  if (prob <= 0 || prob >= 1) return null;
+  return impliedProbToAmerican(prob);
+}
+
+function edgePct(prob: number, price: number | null | undefined): number | null {
+  if (price == null || !Number.isFinite(price) || price === 0) return null;
+  return Math.round(calculateEV(prob, price) * 10000) / 100;
+}
+
+/**
+ * Model price for a line, with EV of the best book prices when given.
+ * Push probability is removed before pricing (pushes refund the stake).
+ */
+export function projectLine(
+  dist: StatDistribution,
+  line: number,
+  books: {
+    best_over?: { price: number; book: string } | null;
+    best_under?: { price: number; book: string } | null;
+  } = {}
+): LineProjection {
+  const { over, under, push } = lineProbabilities(dist, line);
+  const decided = 1 - push;
+  const overNoPush = decided > 0 ? over / decided : 0;
+  const underNoPush = decided > 0 ? under / decided : 0;
+
+  return {
+    line,
+    over_prob: Math.round(over * 10000) / 10000,
+    under_prob: Math.round(under * 10000) / 10000,
+    push_prob: Math.round(push * 10000) / 10000,
+    fair_over_odds: fairOdds(overNoPush),
+    fair_under_odds: fairOdds(underNoPush),
+    best_over: books.best_over ?? null,
+    best_under: books.best_under ?? null,
+    over_edge_pct: edgePct(overNoPush, books.best_over?.price),
+    under_edge_pct: edgePct(underNoPush, books.best_under?.price),
+  };
+}
+
+function distributionFromPmf(pmf: number[], mean: number, variance: number): StatDistribution {
+  let cumulative = 0;
+  let median = 0;
+  for (let k = 0; k < pmf.length; k++) {
+    cumulative += pmf[k];
+    if (cumulative >= 0.5) {
+      median = k;
+      break;
+    }
+  }
+  return {
+    mean: Math.round(mean * 100) / 100,
+    std_dev: Math.round(Math.sqrt(Math.max(variance, 0)) * 100) / 100,
+    median,
+    pmf,
+  };
+}
+
+/** Fold everything past the last bucket into it so the pmf sums to 1 */
+function foldTail(pmf: number[]): number[] {
+  const total = pmf.reduce((sum, p) => sum + p, 0);
+  pmf[pmf.length - 1] += Math.max(1 - total, 0);
+  return pmf;
+}
+
+/**
+ * Poisson distribution with the given mean.
+ */
+export function poissonDistribution(mean: number): StatDistribution {
+  const lambda = Math.max(mean, 0);
+  const pmf = [Math.exp(-lambda)];
+  for (let k = 1; k <= MAX_PMF_VALUE; k++) pmf.push((pmf[k - 1] * lambda) / k);
+  return distributionFromPmf(foldTail(pmf), lambda, lambda);
+}
+
+/**
+ * Negative binomial with the given mean and variance (overdispersed counts).
+ * Falls back to Poisson when the variance doesn't exceed the mean.
+ */
+export function negativeBinomialDistribution(mean: number, variance: number): StatDistribution {
+  if (mean <= 0 || variance <= mean) return poissonDistribution(mean);
+  const r = (mean * mean) / (variance - mean);
+  const p = r / (r + mean);
+  const pmf = [Math.pow(p, r)];
+  for (let k = 1; k <= MAX_PMF_VALUE; k++) pmf.push((pmf[k - 1] * (k - 1 + r) * (1 - p)) / k);
+  return distributionFromPmf(foldTail(pmf), mean, variance);
+}
+
+/** Normal pmfs stop this many standard deviations above the mean */
+const NORMAL_TAIL_SDS = 6;
+
+/**
+ * Normal with the given mean and variance, discretised onto whole numbers
+ * (bucket k holds k ± 0.5). Unlike the count pmfs it isn't capped at
+ * MAX_PMF_VALUE, so yardage-sized stats fit.
+ */
+export function normalDistribution(mean: number, variance: number): StatDistribution {
+  const mu = Math.max(mean, 0);
+  const sd = Math.sqrt(Math.max(variance, 1e-6));
+  const max = Math.max(1, Math.ceil(mu + NORMAL_TAIL_SDS * sd));
+  const pmf: number[] = [];
+  let below = 0;
+  for (let k = 0; k <= max; k++) {
+    const upper = normalCDF((k + 0.5 - mu) / sd);
+    pmf.push(upper - below);
+    below = upper;
+  }
+  return distributionFromPmf(foldTail(pmf), mu, sd * sd);
+}
@@ -0,0 +1,176 @@
+/**
+ * Hit-rate model inputs (server)
+ *
+ * Gathers what the hit-rate projection needs for a set of prop selections:
+ * profile averages and DvP rank, matchup pace, recent-game variance of the
+ * market stat and (NBA) the biggest stat boost with a teammate ruled out.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { fetchPaceContextsForRows, getPaceContextKey } from "@/lib/basketball/pace-context";
+import { getMarketStatKeys } from "@/lib/settlement/grading";
+import { hitRateSelectionKey } from "./hit-rate-model";
+import { loadBasketballRecentGames, paceInputsFromContext } from "./load";
+import type { BasketballGameLine, HitRateModelInputs } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+export type HitRateModelLeague = "nba" | "wnba";
+
+export interface HitRateModelSelection {
+  event_id: string;
+  market: string;
+  player_name: string;
+  /** ISO start time, preferred for the ET game date */
+  start_time?: string | null;
+  game_date?: string | null;
+}
+
+const TEAM_COUNT: Record<HitRateModelLeague, number> = { nba: 30, wnba: 15 };
+const PROFILE_LIMIT = 3000;
+/** Teammate-out splits need a few games to mean anything */
+const INJURY_MIN_GAMES = 3;
+const INJURY_MIN_TEAMMATE_MINUTES = 15;
+
+const etDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "America/New_York",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+function selectionDate(selection: HitRateModelSelection): string | null {
+  if (selection.start_time) {
+    const parsed = new Date(selection.start_time);
+    if (!Number.isNaN(parsed.getTime())) return etDateFormatter.format(parsed);
+  }
+  return selection.game_date ?? null;
+}
+
+/** NBA seasons start in October: 2026-10-20 → "2026-27" */
+function nbaSeasonForDate(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  const start = month >= 10 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function sampleVariance(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+function marketValues(games: BasketballGameLine[], statKeys: string[]): number[] {
+  return games.map((game) =>
+    statKeys.reduce((sum, key) => sum + (game[key as keyof BasketballGameLine] ?? 0), 0)
+  );
+}
+
+/**
+ * Largest stat boost (%) per `${player_id}:${market}` among teammates who are
+ * currently ruled out.
+ */
+async function loadInjuryBoosts(
+  supabase: SupabaseClient,
+  dates: string[],
+  markets: string[]
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  const { data, error } = await supabase.rpc("get_teammate_out_cheatsheet_v2", {
+    p_dates: dates,
+    p_markets: markets,
+    p_min_games: INJURY_MIN_GAMES,
+    p_min_teammate_minutes: INJURY_MIN_TEAMMATE_MINUTES,
+    p_season: nbaSeasonForDate(dates[0]),
+  });
+  if (error) {
+    console.error("[projections] injury impact fetch error:", error.message);
+    return result;
+  }
+
+  for (const row of data ?? []) {
+    if (String(row.default_teammate_injury_status ?? "").toLowerCase() !== "out") continue;
+    const boost = toNumber(row.stat_boost_pct);
+    if (boost == null) continue;
+    const key = `${row.player_id}:${row.market}`;
+    result.set(key, Math.max(result.get(key) ?? -Infinity, boost));
+  }
+  return result;
+}
+
+/**
+ * Model inputs keyed by hitRateSelectionKey. Selections without a matching
+ * hit-rate profile are left out.
+ */
+export async function loadHitRateModelInputs(
+  supabase: SupabaseClient,
+  league: HitRateModelLeague,
+  selections: HitRateModelSelection[]
+): Promise<Map<string, HitRateModelInputs>> {
+  const result = new Map<string, HitRateModelInputs>();
+  const wanted = new Set(selections.map((s) => hitRateSelectionKey(s.event_id, s.market, s.player_name)));
+  const dates = [...new Set(selections.map(selectionDate).filter((d): d is string => !!d))].sort();
+  if (wanted.size === 0 || dates.length === 0) return result;
+
+  const { data: profiles, error } = await supabase.rpc(`get_${league}_hit_rate_profiles_fast_v3`, {
+    p_dates: dates,
+    p_market: null,
+    p_has_odds: false,
+    p_limit: PROFILE_LIMIT,
+    p_offset: 0,
+  });
+  if (error) {
+    console.error(`[projections] ${league} hit-rate profile fetch error:`, error.message);
+    return result;
+  }
+
+  const matched = (profiles ?? []).filter(
+    (row: any) => row.event_id && row.market && row.player_name &&
+      wanted.has(hitRateSelectionKey(row.event_id, row.market, row.player_name))
+  );
+  if (matched.length === 0) return result;
+
+  const playerIds = [...new Set<number>(matched.map((row: any) => Number(row.player_id)).filter(Boolean))];
+  const markets = [...new Set<string>(matched.map((row: any) => row.market))];
+  const [recentGames, paceContexts, injuryBoosts] = await Promise.all([
+    loadBasketballRecentGames(supabase, league, playerIds, dates[0]),
+    fetchPaceContextsForRows(supabase, league, matched).catch((paceError) => {
+      console.error(`[projections] ${league} pace context error:`, paceError);
+      return new Map();
+    }),
+    league === "nba" ? loadInjuryBoosts(supabase, dates, markets) : Promise.resolve(new Map<string, number>()),
+  ]);
+
+  for (const row of matched) {
+    const key = hitRateSelectionKey(row.event_id, row.market, row.player_name);
+    if (result.has(key)) continue;
+
+    const statKeys = getMarketStatKeys(league, row.market);
+    const games = recentGames.get(Number(row.player_id)) ?? [];
+    const values = statKeys ? marketValues(games, statKeys) : [];
+    const pace = paceInputsFromContext(paceContexts.get(getPaceContextKey(row)));
+
+    result.set(key, {
+      l5_avg: toNumber(row.last_5_avg),
+      l10_avg: toNumber(row.last_10_avg),
+      l20_avg: toNumber(row.last_20_avg),
+      season_avg: toNumber(row.season_avg),
+      h2h_avg: toNumber(row.h2h_avg),
+      h2h_games: toNumber(row.h2h_games) ?? 0,
+      dvp_rank: toNumber(row.dvp_rank),
+      team_count: TEAM_COUNT[league],
+      pace_ratio: pace.projected_pace && pace.baseline_pace ? pace.projected_pace / pace.baseline_pace : null,
+      injury_boost_pct: injuryBoosts.get(`${row.player_id}:${row.market}`) ?? null,
+      variance: sampleVariance(values),
+      games: values.length,
+    });
+  }
+
+  return result;
+}
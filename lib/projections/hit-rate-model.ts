@@ -0,0 +1,137 @@
+/**
+ * Hit-rate projection model
+ *
+ * Fits a stat distribution around a player's hit-rate profile: a weighted
+ * blend of L5 / L10 / L20 / season / H2H averages, scaled for the opponent's
+ * DvP rank, projected pace and teammate injuries. Counts with more spread
+ * than a Poisson (most player props) get a negative binomial.
+ */
+
+import { normalizePlayerName } from "@/lib/odds/types";
+import { defenseFactorFromRank } from "./basketball";
+import { lineProbabilities, negativeBinomialDistribution, poissonDistribution } from "./distribution";
+import type { HitRateModelFit, HitRateModelInputs, ProjectionWeights } from "./types";
+
+export const DEFAULT_PROJECTION_WEIGHTS: ProjectionWeights = {
+  l5: 20,
+  l10: 30,
+  l20: 20,
+  season: 20,
+  h2h: 10,
+  dvp: 100,
+  pace: 100,
+  injury: 50,
+  market: 50,
+};
+
+/** Variance / mean when there aren't enough recent games to measure it */
+const DEFAULT_DISPERSION = 1.3;
+const MIN_VARIANCE_GAMES = 5;
+/** H2H averages over fewer games are noise */
+const MIN_H2H_GAMES = 2;
+/** Pace and injury effects are capped so one input can't run away */
+const MAX_PACE_SWING = 0.15;
+const MAX_INJURY_BOOST = 0.3;
+
+/**
+ * Matches an odds selection to its hit-rate profile.
+ */
+export function hitRateSelectionKey(eventId: string, market: string, playerName: string): string {
+  return `${eventId}:${market}:${normalizePlayerName(playerName)}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Fill missing or out-of-range weights from the defaults.
+ */
+export function normalizeProjectionWeights(weights?: Partial<ProjectionWeights> | null): ProjectionWeights {
+  const result = { ...DEFAULT_PROJECTION_WEIGHTS };
+  for (const key of Object.keys(result) as (keyof ProjectionWeights)[]) {
+    const value = Number(weights?.[key]);
+    if (weights?.[key] != null && Number.isFinite(value)) result[key] = clamp(value, 0, 100);
+  }
+  return result;
+}
+
+/**
+ * Weighted average of the windows that have data.
+ * Null when no weighted window has a value.
+ */
+export function projectBaseMean(inputs: HitRateModelInputs, weights: ProjectionWeights): number | null {
+  const windows: Array<[number | null, number]> = [
+    [inputs.l5_avg, weights.l5],
+    [inputs.l10_avg, weights.l10],
+    [inputs.l20_avg, weights.l20],
+    [inputs.season_avg, weights.season],
+    [inputs.h2h_games >= MIN_H2H_GAMES ? inputs.h2h_avg : null, weights.h2h],
+  ];
+
+  let sum = 0;
+  let total = 0;
+  for (const [value, weight] of windows) {
+    if (value == null || !Number.isFinite(value) || weight <= 0) continue;
+    sum += value * weight;
+    total += weight;
+  }
+  return total > 0 ? sum / total : null;
+}
+
+/**
+ * Multiplier for the matchup: DvP, pace and injury effects, each scaled by
+ * its weight.
+ */
+export function matchupMultiplier(inputs: HitRateModelInputs, weights: ProjectionWeights): number {
+  const dvp = defenseFactorFromRank(inputs.dvp_rank, inputs.team_count) - 1;
+  const pace = inputs.pace_ratio != null && inputs.pace_ratio > 0
+    ? clamp(inputs.pace_ratio - 1, -MAX_PACE_SWING, MAX_PACE_SWING)
+    : 0;
+  const injury = inputs.injury_boost_pct != null
+    ? clamp(inputs.injury_boost_pct / 100, 0, MAX_INJURY_BOOST)
+    : 0;
+
+  return (
+    (1 + (dvp * weights.dvp) / 100) *
+    (1 + (pace * weights.pace) / 100) *
+    (1 + (injury * weights.injury) / 100)
+  );
+}
+
+/**
+ * Fit the stat distribution for one profile. Null without any averages.
+ */
+export function fitHitRateModel(
+  inputs: HitRateModelInputs,
+  weights: ProjectionWeights = DEFAULT_PROJECTION_WEIGHTS
+): HitRateModelFit | null {
+  const baseMean = projectBaseMean(inputs, weights);
+  if (baseMean == null || baseMean <= 0) return null;
+  const mean = baseMean * matchupMultiplier(inputs, weights);
+
+  // Keep the measured dispersion (variance / mean) and apply it to the adjusted mean
+  const measured = inputs.variance != null && inputs.games >= MIN_VARIANCE_GAMES && baseMean > 0
+    ? inputs.variance / baseMean
+    : DEFAULT_DISPERSION;
+  const variance = mean * Math.max(measured, 1);
+  const overdispersed = variance > mean * 1.01;
+
+  return {
+    mean: Math.round(mean * 100) / 100,
+    base_mean: Math.round(baseMean * 100) / 100,
+    variance: Math.round(variance * 100) / 100,
+    family: overdispersed ? "negative_binomial" : "poisson",
+    distribution: overdispersed ? negativeBinomialDistribution(mean, variance) : poissonDistribution(mean),
+  };
+}
+
+/**
+ * Push-adjusted probability of one side of a line under the fit.
+ */
+export function hitRateSideProbability(fit: HitRateModelFit, line: number, side: "over" | "under"): number {
+  const { over, under, push } = lineProbabilities(fit.distribution, line);
+  const decided = 1 - push;
+  if (decided <= 0) return 0;
+  return (side === "over" ? over : under) / decided;
+}
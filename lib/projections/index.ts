@@ -0,0 +1,77 @@
+/**
+ * Projections Library
+ *
+ * Monte Carlo game simulators for player props: basketball possession by
+ * possession, MLB plate appearance by plate appearance. Each run yields a
+ * full distribution per stat, so any line (including alternates) gets a
+ * model over/under probability, fair odds and edge vs the books.
+ */
+
+// Types
+export type {
+  ProjectionSport,
+  StatDistribution,
+  StatDistributions,
+  PlayerSimulation,
+  SimulationSamples,
+  LineProjection,
+  MarketProjection,
+  BasketballGameLine,
+  BasketballSimInput,
+  PlateAppearanceRates,
+  BatterSimInput,
+  PitcherSimInput,
+  BaseballEnvironment,
+  SimulationOptions,
+  ProjectionWeights,
+  HitRateModelInputs,
+  HitRateModelFit,
+} from "./types";
+
+// Distributions
+export {
+  buildDistribution,
+  combineSamples,
+  marketDistribution,
+  summarizeSimulation,
+  lineProbabilities,
+  projectLine,
+  poissonDistribution,
+  negativeBinomialDistribution,
+  normalDistribution,
+} from "./distribution";
+
+// Simulators
+export { simulateBasketballGame, defenseFactorFromRank } from "./basketball";
+export { LEAGUE_PA_RATES, matchupRates, simulateBatterGame, simulatePitcherGame } from "./baseball";
+
+// Hit-rate model
+export {
+  DEFAULT_PROJECTION_WEIGHTS,
+  normalizeProjectionWeights,
+  projectBaseMean,
+  matchupMultiplier,
+  fitHitRateModel,
+  hitRateSideProbability,
+  hitRateSelectionKey,
+} from "./hit-rate-model";
+
+// Loaders (server)
+export {
+  loadBasketballRecentGames,
+  paceInputsFromContext,
+  batterRatesFromSeason,
+  pitcherRatesFromSeason,
+  zoneEdgeFromOverlay,
+  loadMlbGame,
+  simulateMlbPlayer,
+} from "./load";
+export type { MlbGameContext, MlbPlayerProjectionResult } from "./load";
+
+// Hit-rate matrix (server)
+export { MATRIX_SIMULATIONS, collectCurveQuotes, loadMatrixDistributions, matrixCellFair, matrixCellModel } from "./matrix";
+export type { MatrixModelProfile, MatrixCellModel, MatrixCellFair, MatrixOddEntry } from "./matrix";
+
+// Hit-rate model inputs (server)
+export { loadHitRateModelInputs } from "./hit-rate-inputs";
+export type { HitRateModelLeague, HitRateModelSelection } from "./hit-rate-inputs";
@@ -0,0 +1,405 @@
+/**
+ * Projection inputs (server)
+ *
+ * Loads the rates and game context the simulators need:
+ * - Basketball: recent box scores and the matchup pace context
+ * - MLB: season batting/pitching lines, the lineup slot, the opposing
+ *   starter, the hot-zone overlay and the game's weather deltas
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import type { PaceContext } from "@/lib/basketball/pace-context";
+import { isMlbPitcherMarket } from "@/lib/settlement/grading";
+import { LEAGUE_PA_RATES, matchupRates, simulateBatterGame, simulatePitcherGame } from "./baseball";
+import type {
+  BaseballEnvironment,
+  BasketballGameLine,
+  PlateAppearanceRates,
+  SimulationOptions,
+  SimulationSamples,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Box score lookback for basketball rates */
+const BASKETBALL_LOOKBACK_DAYS = 180;
+const BASKETBALL_GAMES_PER_PLAYER = 20;
+
+/** Plate appearances / batters faced of league average mixed into season rates */
+const BATTER_PRIOR_PA = 120;
+const PITCHER_PRIOR_BF = 150;
+/** Starter workload when the season line is too thin to trust */
+const DEFAULT_BATTERS_FACED = 22;
+/** Split of non-HR hits allowed, for pitchers (season lines only carry H and HR) */
+const NON_HR_HIT_SPLIT = { single: 0.75, double: 0.23, triple: 0.02 };
+
+// =============================================================================
+// Basketball
+// =============================================================================
+
+/**
+ * Most recent games with minutes per player, newest first.
+ */
+export async function loadBasketballRecentGames(
+  supabase: SupabaseClient,
+  league: "nba" | "wnba",
+  playerIds: number[],
+  beforeDate: string,
+  gamesPerPlayer = BASKETBALL_GAMES_PER_PLAYER
+): Promise<Map<number, BasketballGameLine[]>> {
+  const result = new Map<number, BasketballGameLine[]>();
+  if (playerIds.length === 0) return result;
+
+  const since = new Date(`${beforeDate}T12:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - BASKETBALL_LOOKBACK_DAYS);
+
+  const { data, error } = await supabase
+    .from(`${league}_player_box_scores`)
+    .select("player_id, game_date, minutes, pts, reb, ast, fg3m, stl, blk, tov")
+    .in("player_id", playerIds)
+    .gt("minutes", 0)
+    .gte("game_date", since.toISOString().slice(0, 10))
+    .lt("game_date", beforeDate)
+    .order("game_date", { ascending: false })
+    .range(0, 19999);
+
+  if (error) {
+    console.error(`[projections] ${league} box score fetch error:`, error.message);
+    return result;
+  }
+
+  for (const row of data ?? []) {
+    const playerId = Number(row.player_id);
+    const games = result.get(playerId) ?? [];
+    if (games.length >= gamesPerPlayer) continue;
+    games.push({
+      minutes: Number(row.minutes ?? 0),
+      pts: Number(row.pts ?? 0),
+      reb: Number(row.reb ?? 0),
+      ast: Number(row.ast ?? 0),
+      fg3m: Number(row.fg3m ?? 0),
+      stl: Number(row.stl ?? 0),
+      blk: Number(row.blk ?? 0),
+      tov: Number(row.tov ?? 0),
+    });
+    result.set(playerId, games);
+  }
+
+  return result;
+}
+
+/**
+ * Projected game pace and the pace the player's team has been playing at.
+ */
+export function paceInputsFromContext(context: PaceContext | null | undefined): {
+  projected_pace: number | null;
+  baseline_pace: number | null;
+} {
+  if (!context) return { projected_pace: null, baseline_pace: null };
+  return {
+    projected_pace: context.matchupL10Pace ?? context.matchupL5Pace ?? context.gamePace ?? null,
+    baseline_pace: context.teamRecent.l10 ?? context.teamRecent.season ?? context.teamRecent.l20 ?? null,
+  };
+}
+
+// =============================================================================
+// MLB
+// =============================================================================
+
+export interface MlbGameContext {
+  game_id: number;
+  odds_game_id: string | null;
+  game_date: string | null;
+  home_id: number | null;
+  away_id: number | null;
+  home_probable_pitcher_id: number | null;
+  away_probable_pitcher_id: number | null;
+}
+
+interface LineupSpot {
+  player_id: number;
+  batting_order: number;
+  side: "home" | "away";
+}
+
+function parseInnings(value: unknown): number {
+  const [full, partial] = String(value ?? "0").split(".");
+  return (parseInt(full, 10) || 0) + (partial ? (parseInt(partial, 10) || 0) / 3 : 0);
+}
+
+function shrinkToLeague(count: number, opportunities: number, league: number, prior: number): number {
+  return (count + league * prior) / (opportunities + prior);
+}
+
+export function batterRatesFromSeason(row: Record<string, unknown> | null | undefined): {
+  rates: PlateAppearanceRates;
+  steal_rate: number;
+  plate_appearances: number;
+} {
+  const pa = Number(row?.plateAppearances ?? 0);
+  const hits = Number(row?.hits ?? 0);
+  const doubles = Number(row?.doubles ?? 0);
+  const triples = Number(row?.triples ?? 0);
+  const homeRuns = Number(row?.homeRuns ?? 0);
+  const walks = Number(row?.baseOnBalls ?? 0) + Number(row?.hitByPitch ?? 0);
+  const singles = Math.max(hits - doubles - triples - homeRuns, 0);
+  const timesOnFirst = singles + walks;
+
+  return {
+    rates: {
+      single: shrinkToLeague(singles, pa, LEAGUE_PA_RATES.single, BATTER_PRIOR_PA),
+      double: shrinkToLeague(doubles, pa, LEAGUE_PA_RATES.double, BATTER_PRIOR_PA),
+      triple: shrinkToLeague(triples, pa, LEAGUE_PA_RATES.triple, BATTER_PRIOR_PA),
+      home_run: shrinkToLeague(homeRuns, pa, LEAGUE_PA_RATES.home_run, BATTER_PRIOR_PA),
+      walk: shrinkToLeague(walks, pa, LEAGUE_PA_RATES.walk, BATTER_PRIOR_PA),
+      strikeout: shrinkToLeague(Number(row?.strikeOuts ?? 0), pa, LEAGUE_PA_RATES.strikeout, BATTER_PRIOR_PA),
+    },
+    steal_rate: timesOnFirst > 0 ? Math.min(Number(row?.stolenBases ?? 0) / timesOnFirst, 0.5) : 0.03,
+    plate_appearances: pa,
+  };
+}
+
+export function pitcherRatesFromSeason(row: Record<string, unknown> | null | undefined): {
+  rates: PlateAppearanceRates;
+  batters_faced: number;
+} {
+  const ip = parseInnings(row?.inningsPitched);
+  const hits = Number(row?.hits ?? 0);
+  const homeRuns = Number(row?.homeRuns ?? 0);
+  const walks = Number(row?.baseOnBalls ?? 0);
+  // Season lines don't carry BF; outs + hits + walks is close enough
+  const battersFaced = Math.round(ip * 3) + hits + walks;
+  const starts = Number(row?.gamesStarted ?? 0) || Number(row?.gamesPlayed ?? 0);
+  const nonHrHits = Math.max(hits - homeRuns, 0);
+
+  return {
+    rates: {
+      single: shrinkToLeague(nonHrHits * NON_HR_HIT_SPLIT.single, battersFaced, LEAGUE_PA_RATES.single, PITCHER_PRIOR_BF),
+      double: shrinkToLeague(nonHrHits * NON_HR_HIT_SPLIT.double, battersFaced, LEAGUE_PA_RATES.double, PITCHER_PRIOR_BF),
+      triple: shrinkToLeague(nonHrHits * NON_HR_HIT_SPLIT.triple, battersFaced, LEAGUE_PA_RATES.triple, PITCHER_PRIOR_BF),
+      home_run: shrinkToLeague(homeRuns, battersFaced, LEAGUE_PA_RATES.home_run, PITCHER_PRIOR_BF),
+      walk: shrinkToLeague(walks, battersFaced, LEAGUE_PA_RATES.walk, PITCHER_PRIOR_BF),
+      strikeout: shrinkToLeague(Number(row?.strikeOuts ?? 0), battersFaced, LEAGUE_PA_RATES.strikeout, PITCHER_PRIOR_BF),
+    },
+    batters_faced: starts >= 3 && battersFaced > 0 ? battersFaced / starts : DEFAULT_BATTERS_FACED,
+  };
+}
+
+function averageRates(rates: PlateAppearanceRates[]): PlateAppearanceRates | null {
+  if (rates.length === 0) return null;
+  const sum = { ...LEAGUE_PA_RATES };
+  for (const key of Object.keys(sum) as Array<keyof PlateAppearanceRates>) {
+    sum[key] = rates.reduce((acc, r) => acc + r[key], 0) / rates.length;
+  }
+  return sum;
+}
+
+/**
+ * Weighted hot-zone edge in [-1, 1] from the matchup overlay: the share of
+ * the pitcher's zone usage that lands where the batter has the advantage,
+ * minus the share where the pitcher does.
+ */
+export function zoneEdgeFromOverlay(
+  overlay: Array<{ pitcher_zone_pct: number | null; advantage: string | null }> | null | undefined
+): number | null {
+  if (!overlay || overlay.length === 0) return null;
+  let total = 0;
+  let edge = 0;
+  for (const cell of overlay) {
+    const weight = Number(cell.pitcher_zone_pct ?? 0);
+    if (!(weight > 0)) continue;
+    total += weight;
+    if (cell.advantage === "batter_advantage") edge += weight;
+    else if (cell.advantage === "pitcher_advantage") edge -= weight;
+  }
+  return total > 0 ? edge / total : null;
+}
+
+async function loadZoneEdge(
+  supabase: SupabaseClient,
+  batterId: number,
+  pitcherId: number,
+  season: number
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc("get_mlb_hot_zone_matchup", {
+    p_batter_id: batterId,
+    p_pitcher_id: pitcherId,
+    p_batter_window: "season",
+    p_pitcher_window: "season",
+    p_season: season,
+    p_pitch_type: null,
+  } as any);
+  if (error) {
+    console.error("[projections] hot zone RPC error:", error.message);
+    return null;
+  }
+  const overlay = (data as { matchup_overlay?: unknown } | null)?.matchup_overlay;
+  return zoneEdgeFromOverlay(Array.isArray(overlay) ? overlay : null);
+}
+
+export async function loadMlbGame(
+  supabase: SupabaseClient,
+  ref: { gameId?: number | null; oddsGameId?: string | null }
+): Promise<MlbGameContext | null> {
+  let query = supabase
+    .from("mlb_games")
+    .select("game_id, odds_game_id, game_date, home_id, away_id, home_probable_pitcher_id, away_probable_pitcher_id");
+  if (ref.gameId) query = query.eq("game_id", ref.gameId);
+  else if (ref.oddsGameId) query = query.eq("odds_game_id", ref.oddsGameId);
+  else return null;
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const toId = (value: unknown) => (value != null && Number(value) > 0 ? Number(value) : null);
+  return {
+    game_id: Number(data.game_id),
+    odds_game_id: data.odds_game_id ? String(data.odds_game_id) : null,
+    game_date: data.game_date ? String(data.game_date) : null,
+    home_id: toId(data.home_id),
+    away_id: toId(data.away_id),
+    home_probable_pitcher_id: toId(data.home_probable_pitcher_id),
+    away_probable_pitcher_id: toId(data.away_probable_pitcher_id),
+  };
+}
+
+export interface MlbPlayerProjectionResult {
+  role: "batter" | "pitcher";
+  samples: SimulationSamples;
+  opponent_pitcher_id: number | null;
+  environment: BaseballEnvironment;
+}
+
+/**
+ * Simulate one MLB player's game, choosing the batter or pitcher model from
+ * the market. Returns null for a pitcher market when the player isn't one of
+ * the game's probable starters.
+ */
+export async function simulateMlbPlayer(
+  supabase: SupabaseClient,
+  game: MlbGameContext,
+  playerId: number,
+  market: string,
+  options: SimulationOptions = {}
+): Promise<MlbPlayerProjectionResult | null> {
+  const season = Number((game.game_date ?? new Date().toISOString()).slice(0, 4));
+  const isPitcher = isMlbPitcherMarket(market);
+
+  const [lineupResult, weatherResult] = await Promise.all([
+    supabase
+      .from("mlb_daily_lineups")
+      .select("player_id, batting_order, side")
+      .eq("game_id", game.game_id)
+      .gte("batting_order", 1)
+      .lte("batting_order", 9),
+    supabase
+      .from("mlb_game_weather")
+      .select("hr_pct_delta, xbh_pct_delta, singles_pct_delta")
+      .eq("game_id", game.game_id)
+      .maybeSingle(),
+  ]);
+
+  if (lineupResult.error) {
+    console.error("[projections] lineup fetch error:", lineupResult.error.message);
+  }
+  const lineup = ((lineupResult.data ?? []) as Array<Record<string, unknown>>)
+    .map((row) => ({
+      player_id: Number(row.player_id),
+      batting_order: Number(row.batting_order),
+      side: row.side === "home" ? "home" : "away",
+    }) as LineupSpot)
+    .filter((row) => row.player_id > 0);
+
+  const weather = weatherResult.data as Record<string, unknown> | null;
+  const toDelta = (value: unknown) => (value != null && Number.isFinite(Number(value)) ? Number(value) : null);
+  const environment: BaseballEnvironment = {
+    hr_pct_delta: toDelta(weather?.hr_pct_delta),
+    xbh_pct_delta: toDelta(weather?.xbh_pct_delta),
+    singles_pct_delta: toDelta(weather?.singles_pct_delta),
+    zone_edge: null,
+  };
+
+  if (isPitcher) {
+    const side =
+      game.home_probable_pitcher_id === playerId ? "home" : game.away_probable_pitcher_id === playerId ? "away" : null;
+    if (!side) return null;
+
+    const opposingIds = lineup.filter((spot) => spot.side !== side).map((spot) => spot.player_id);
+    const [pitcherResult, battersResult] = await Promise.all([
+      supabase
+        .from("mlb_pitching_season_stats")
+        .select("person_id, inningsPitched, hits, baseOnBalls, strikeOuts, homeRuns, gamesStarted, gamesPlayed")
+        .eq("person_id", playerId)
+        .eq("season", season)
+        .maybeSingle(),
+      opposingIds.length > 0
+        ? supabase
+            .from("mlb_batting_season_stats")
+            .select("person_id, plateAppearances, hits, doubles, triples, homeRuns, baseOnBalls, hitByPitch, strikeOuts, stolenBases")
+            .in("person_id", opposingIds)
+            .eq("season", season)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    const pitcher = pitcherRatesFromSeason(pitcherResult.data as Record<string, unknown> | null);
+    const lineupRates = averageRates(
+      ((battersResult.data ?? []) as Array<Record<string, unknown>>).map((row) => batterRatesFromSeason(row).rates)
+    );
+    // The opposing lineup plays the "batter" side of the odds-ratio blend
+    const rates = matchupRates(lineupRates ?? LEAGUE_PA_RATES, pitcher.rates, environment);
+
+    return {
+      role: "pitcher",
+      samples: simulatePitcherGame(
+        { player_id: playerId, player_name: null, rates, batters_faced: pitcher.batters_faced },
+        options
+      ),
+      opponent_pitcher_id: null,
+      environment,
+    };
+  }
+
+  const spot = lineup.find((row) => row.player_id === playerId) ?? null;
+  const opponentPitcherId = spot
+    ? spot.side === "home" ? game.away_probable_pitcher_id : game.home_probable_pitcher_id
+    : null;
+
+  const [batterResult, pitcherResult, zoneEdge] = await Promise.all([
+    supabase
+      .from("mlb_batting_season_stats")
+      .select("person_id, plateAppearances, hits, doubles, triples, homeRuns, baseOnBalls, hitByPitch, strikeOuts, stolenBases")
+      .eq("person_id", playerId)
+      .eq("season", season)
+      .maybeSingle(),
+    opponentPitcherId
+      ? supabase
+          .from("mlb_pitching_season_stats")
+          .select("person_id, inningsPitched, hits, baseOnBalls, strikeOuts, homeRuns, gamesStarted, gamesPlayed")
+          .eq("person_id", opponentPitcherId)
+          .eq("season", season)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    opponentPitcherId ? loadZoneEdge(supabase, playerId, opponentPitcherId, season) : Promise.resolve(null),
+  ]);
+
+  const batter = batterRatesFromSeason(batterResult.data as Record<string, unknown> | null);
+  const pitcher = pitcherResult.data ? pitcherRatesFromSeason(pitcherResult.data as Record<string, unknown>) : null;
+  environment.zone_edge = zoneEdge;
+
+  return {
+    role: "batter",
+    samples: simulateBatterGame(
+      {
+        player_id: playerId,
+        player_name: null,
+        rates: matchupRates(batter.rates, pitcher?.rates ?? null, environment),
+        lineup_slot: spot?.batting_order ?? null,
+        steal_rate: batter.steal_rate,
+      },
+      options
+    ),
+    opponent_pitcher_id: opponentPitcherId,
+    environment,
+  };
+}
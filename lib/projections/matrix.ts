@@ -0,0 +1,169 @@
+/**
+ * Hit-rate matrix model (server)
+ *
+ * Simulates every player on a matrix board once and returns their market
+ * distribution, so each threshold cell can be priced from the same run.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { calculateEV } from "@/lib/ev/devig";
+import { fairLinePrice, type FairCurve, type FairCurveQuote } from "@/lib/ev/fair-curve";
+import { fetchPaceContextsForRows, getPaceContextKey } from "@/lib/basketball/pace-context";
+import { getMarketStatKeys } from "@/lib/settlement/grading";
+import { defenseFactorFromRank, simulateBasketballGame } from "./basketball";
+import { marketDistribution, projectLine } from "./distribution";
+import { loadBasketballRecentGames, paceInputsFromContext } from "./load";
+import type { StatDistribution } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Enough for cell-level probabilities without slowing the board */
+export const MATRIX_SIMULATIONS = 1000;
+
+export interface MatrixModelProfile {
+  player_id: number;
+  game_id?: string | number | null;
+  game_date?: string | null;
+  team_id?: number | null;
+  opponent_team_id?: number | null;
+  dvp_rank: number | null;
+}
+
+export interface MatrixCellModel {
+  /** Model over probability (0-100, 1 decimal) */
+  modelOverProb: number;
+  modelFairOdds: number | null;
+  /** EV % of the best over price vs the model */
+  modelEdgePct: number | null;
+}
+
+export interface MatrixCellFair {
+  /** Sharp-curve P(over) with pushes removed (0-100, 1 decimal) */
+  fairOverProb: number | null;
+  fairOdds: number | null;
+  /** EV % of the best over price vs the sharp curve */
+  fairEdgePct: number | null;
+  /** A sharp book quotes both sides at this line, so nothing was interpolated */
+  fairSharp: boolean;
+}
+
+/** Odds blob entry as the matrix routes read it from Redis */
+export interface MatrixOddEntry {
+  player_id: string;
+  side: "over" | "under";
+  line: number;
+  price: string | number;
+}
+
+/**
+ * Two-way quotes per `${eventId}:${playerId}` from every fetched odds blob,
+ * for fitting each player's sharp fair curve.
+ */
+export function collectCurveQuotes(
+  blobs: { eventId: string; book: string; blob: Record<string, MatrixOddEntry> }[]
+): Map<string, FairCurveQuote[]> {
+  const byPlayer = new Map<string, Map<string, FairCurveQuote>>();
+  for (const { eventId, book, blob } of blobs) {
+    for (const entry of Object.values(blob)) {
+      if (!entry || typeof entry !== "object" || !entry.player_id) continue;
+      const price = typeof entry.price === "number" ? entry.price : parseInt(String(entry.price).replace("+", ""), 10);
+      if (!Number.isFinite(price) || price === 0) continue;
+
+      const playerKey = `${eventId}:${entry.player_id}`;
+      const quotes = byPlayer.get(playerKey) ?? new Map<string, FairCurveQuote>();
+      byPlayer.set(playerKey, quotes);
+      const quoteKey = `${book}|${entry.line}`;
+      const quote = quotes.get(quoteKey) ?? { line: entry.line, book, over: null, under: null };
+      if (entry.side === "over") quote.over = price;
+      else if (entry.side === "under") quote.under = price;
+      quotes.set(quoteKey, quote);
+    }
+  }
+  return new Map([...byPlayer].map(([key, quotes]) => [key, [...quotes.values()]]));
+}
+
+/**
+ * Sharp fair-curve fields for one matrix cell.
+ */
+export function matrixCellFair(curve: FairCurve, line: number, bestOdds: number | null): MatrixCellFair {
+  const price = fairLinePrice(curve, line);
+  const decided = 1 - price.push_prob;
+  const overProb = decided > 0 ? price.over_prob / decided : null;
+  return {
+    fairOverProb: overProb != null ? Math.round(overProb * 1000) / 10 : null,
+    fairOdds: price.fair_over_odds,
+    fairEdgePct:
+      overProb != null && overProb > 0 && bestOdds != null
+        ? Math.round(calculateEV(overProb, bestOdds) * 10000) / 100
+        : null,
+    fairSharp: curve.points.some((p) => p.line === line),
+  };
+}
+
+/**
+ * Simulated market distribution per player id.
+ * Players without recent box scores are left out.
+ */
+export async function loadMatrixDistributions(
+  supabase: SupabaseClient,
+  league: "nba" | "wnba",
+  market: string,
+  gameDate: string,
+  profiles: MatrixModelProfile[],
+  teamCount: number
+): Promise<Map<number, StatDistribution>> {
+  const result = new Map<number, StatDistribution>();
+  const statKeys = getMarketStatKeys(league, market);
+  if (!statKeys || profiles.length === 0) return result;
+
+  const playerIds = [...new Set(profiles.map((profile) => Number(profile.player_id)).filter(Boolean))];
+  const [recentGames, paceContexts] = await Promise.all([
+    loadBasketballRecentGames(supabase, league, playerIds, gameDate),
+    fetchPaceContextsForRows(supabase, league, profiles).catch((error) => {
+      console.error(`[projections] ${league} pace context error:`, error);
+      return new Map();
+    }),
+  ]);
+
+  for (const profile of profiles) {
+    const playerId = Number(profile.player_id);
+    const games = recentGames.get(playerId);
+    if (!games || games.length === 0 || result.has(playerId)) continue;
+
+    const factor = defenseFactorFromRank(profile.dvp_rank, teamCount);
+    const samples = simulateBasketballGame(
+      {
+        league,
+        player_id: playerId,
+        player_name: null,
+        games,
+        ...paceInputsFromContext(paceContexts.get(getPaceContextKey(profile))),
+        defense_factors: Object.fromEntries(statKeys.map((key) => [key, factor])),
+      },
+      { simulations: MATRIX_SIMULATIONS }
+    );
+    const distribution = samples ? marketDistribution(samples, statKeys) : null;
+    if (distribution) result.set(playerId, distribution);
+  }
+
+  return result;
+}
+
+/**
+ * Model fields for one matrix cell.
+ */
+export function matrixCellModel(
+  distribution: StatDistribution,
+  line: number,
+  bestOdds: number | null,
+  bestBook: string | null
+): MatrixCellModel {
+  const projection = projectLine(distribution, line, {
+    best_over: bestOdds != null ? { price: bestOdds, book: bestBook ?? "" } : null,
+  });
+  return {
+    modelOverProb: Math.round(projection.over_prob * 1000) / 10,
+    modelFairOdds: projection.fair_over_odds,
+    modelEdgePct: projection.over_edge_pct ?? null,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Seeded random sources for the game simulators, so the same inputs always
+ * produce the same projection.
+ */
+
+export type Rng = () => number;
+
+export const DEFAULT_SEED = 0x9a3e;
+
+/** mulberry32 — small deterministic PRNG */
+export function createRng(seed: number = DEFAULT_SEED): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box-Muller, one value per call) */
+export function sampleNormal(rng: Rng, mean = 0, stdDev = 1): number {
+  const u = Math.max(rng(), Number.EPSILON);
+  const v = rng();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Number of successes in `trials` Bernoulli(p) draws */
+export function sampleBinomial(rng: Rng, trials: number, p: number): number {
+  if (p <= 0 || trials <= 0) return 0;
+  if (p >= 1) return trials;
+  let hits = 0;
+  for (let i = 0; i < trials; i++) {
+    if (rng() < p) hits++;
+  }
+  return hits;
+}
+
+/** Index drawn from cumulative weights (last bucket catches the remainder) */
+export function sampleCategorical(rng: Rng, cumulative: number[]): number {
+  const u = rng();
+  for (let i = 0; i < cumulative.length; i++) {
+    if (u < cumulative[i]) return i;
+  }
+  return cumulative.length;
+}
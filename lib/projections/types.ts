@@ -0,0 +1,211 @@
+/**
+ * Projection Types
+ *
+ * Monte Carlo game simulations that turn player rates plus game context
+ * (pace, opponent defense, opposing pitcher, weather) into a full
+ * distribution per stat, so any line can be priced as an over/under
+ * probability and compared with the books.
+ */
+
+export type ProjectionSport = "nba" | "wnba" | "mlb";
+
+/**
+ * Simulated distribution of one integer stat (points, hits, strikeouts, ...)
+ */
+export interface StatDistribution {
+  mean: number;
+  std_dev: number;
+  median: number;
+  /** pmf[k] = P(stat = k); trailing tail is folded into the last bucket */
+  pmf: number[];
+}
+
+/** Stat key (box score / game log key, e.g. "pts", "total_bases") → distribution */
+export type StatDistributions = Record<string, StatDistribution>;
+
+export interface PlayerSimulation {
+  sport: ProjectionSport;
+  player_id: number;
+  player_name: string | null;
+  simulations: number;
+  stats: StatDistributions;
+  /** Context the simulation was run with, for display */
+  context: Record<string, number | string | null>;
+}
+
+/**
+ * Raw per-simulation stat values, kept so combo markets (PRA, H+R+RBI)
+ * are summed within the same simulated game
+ */
+export interface SimulationSamples {
+  simulations: number;
+  stats: Record<string, Float64Array>;
+  context: Record<string, number | string | null>;
+}
+
+/**
+ * Model price for one line of a market
+ */
+export interface LineProjection {
+  line: number;
+  over_prob: number;
+  under_prob: number;
+  /** Whole-number lines can push */
+  push_prob: number;
+  /** Fair American odds (push-adjusted) */
+  fair_over_odds: number | null;
+  fair_under_odds: number | null;
+  /** Best book prices at this line, when quoted */
+  best_over?: { price: number; book: string } | null;
+  best_under?: { price: number; book: string } | null;
+  /** EV % of the best book price vs the model */
+  over_edge_pct?: number | null;
+  under_edge_pct?: number | null;
+}
+
+export interface MarketProjection {
+  market: string;
+  mean: number;
+  median: number;
+  std_dev: number;
+  lines: LineProjection[];
+}
+
+// =============================================================================
+// Simulation inputs
+// =============================================================================
+
+/**
+ * One recent basketball game for a player (box score keys)
+ */
+export interface BasketballGameLine {
+  minutes: number;
+  pts: number;
+  reb: number;
+  ast: number;
+  fg3m: number;
+  stl: number;
+  blk: number;
+  tov: number;
+}
+
+export interface BasketballSimInput {
+  league: "nba" | "wnba";
+  player_id: number;
+  player_name: string | null;
+  /** Most recent first */
+  games: BasketballGameLine[];
+  /** Expected possessions per team for this game (pace) */
+  projected_pace: number | null;
+  /** Pace the player's recent rates were produced at */
+  baseline_pace: number | null;
+  /**
+   * Per-stat rate multipliers for the opponent's defense
+   * (e.g. { pts: 1.04 } against a bottom-five defense)
+   */
+  defense_factors?: Partial<Record<keyof Omit<BasketballGameLine, "minutes">, number>>;
+}
+
+/**
+ * Per plate appearance outcome rates (each 0-1; remainder = in-play out)
+ */
+export interface PlateAppearanceRates {
+  single: number;
+  double: number;
+  triple: number;
+  home_run: number;
+  walk: number;
+  strikeout: number;
+}
+
+export interface BatterSimInput {
+  player_id: number;
+  player_name: string | null;
+  rates: PlateAppearanceRates;
+  /** 1-9; drives plate appearances and run/RBI opportunities */
+  lineup_slot: number | null;
+  /** Stolen bases per time on first */
+  steal_rate: number;
+}
+
+export interface PitcherSimInput {
+  player_id: number;
+  player_name: string | null;
+  /** Rates allowed per batter faced */
+  rates: PlateAppearanceRates;
+  /** Mean batters faced per start */
+  batters_faced: number;
+}
+
+/**
+ * Multipliers applied on top of the matchup rates
+ */
+export interface BaseballEnvironment {
+  /** Weather / park deltas in percent (from mlb_game_weather) */
+  hr_pct_delta: number | null;
+  xbh_pct_delta: number | null;
+  singles_pct_delta: number | null;
+  /**
+   * Hot-zone edge in [-1, 1]: share of the pitcher's pitches landing in the
+   * batter's hot (+) vs cold (-) zones
+   */
+  zone_edge: number | null;
+}
+
+export interface SimulationOptions {
+  simulations?: number;
+  seed?: number;
+}
+
+// =============================================================================
+// Hit-rate model
+// =============================================================================
+
+/**
+ * Weights for the hit-rate projection. Window weights are relative (only
+ * windows with data count); adjustment weights are the share (0-100) of the
+ * DvP / pace / injury effect applied.
+ */
+export interface ProjectionWeights {
+  l5: number;
+  l10: number;
+  l20: number;
+  season: number;
+  h2h: number;
+  dvp: number;
+  pace: number;
+  injury: number;
+  /** Share (0-100) of the market fair probability in the blended estimate */
+  market: number;
+}
+
+/**
+ * One player's hit-rate profile inputs for a market
+ */
+export interface HitRateModelInputs {
+  l5_avg: number | null;
+  l10_avg: number | null;
+  l20_avg: number | null;
+  season_avg: number | null;
+  h2h_avg: number | null;
+  h2h_games: number;
+  dvp_rank: number | null;
+  /** Teams in the league, for scaling the DvP rank */
+  team_count: number;
+  /** Projected game pace / the team's recent pace */
+  pace_ratio: number | null;
+  /** Largest stat boost (%) with a teammate ruled out */
+  injury_boost_pct: number | null;
+  /** Sample variance of the market stat over recent games */
+  variance: number | null;
+  games: number;
+}
+
+export interface HitRateModelFit {
+  mean: number;
+  /** Mean before DvP / pace / injury adjustments */
+  base_mean: number;
+  variance: number;
+  family: "poisson" | "negative_binomial";
+  distribution: StatDistribution;
+}
@@ -0,0 +1,131 @@
+/**
+ * Promo conversion math
+ *
+ * Bonus bet: the stake isn't returned, so the promo leg pays only winnings and
+ * the best conversions sit on long odds. Profit boost: winnings are scaled by
+ * the boost before hedging. Either way the hedge is sized so both outcomes pay
+ * the same (see allocateArbStakes).
+ */
+
+import { allocateArbStakes, getEffectiveDecimal, type StakeLeg } from "@/lib/arb-stakes";
+import { sportsbooks, normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { calculateEV, decimalToAmerican } from "@/lib/ev/devig";
+import type { PromoType, SportsbookPromo } from "@/lib/promos-schema";
+import type { PromoConversionType } from "./types";
+
+export interface ConversionPlan {
+  promoStake: number;
+  hedgeStake: number;
+  guaranteedProfit: number;
+  /** Guaranteed profit / promo amount */
+  retention: number;
+  /** Promo price after the boost */
+  effectiveOdds: number;
+  hedgeOverLimit: boolean;
+}
+
+const BONUS_BET_PROMO_TYPES: PromoType[] = ["free_bet", "free_play"];
+const PROFIT_BOOST_PROMO_TYPES: PromoType[] = ["boost", "odds_boost"];
+
+const compactName = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function getPromoLeg(type: PromoConversionType, odds: number, boostPercent = 0): StakeLeg {
+  return type === "bonus_bet" ? { odds, bonusBet: true } : { odds, boostPercent };
+}
+
+/** American price after applying a profit boost to the winnings */
+export function getBoostedOdds(odds: number, boostPercent: number): number {
+  return decimalToAmerican(getEffectiveDecimal({ odds, boostPercent }));
+}
+
+/**
+ * Hedge a promo leg of `amount` with a cash bet on the other side.
+ * The promo stake is fixed (the book sets it), so only the hedge is rounded.
+ */
+export function planConversion(
+  type: PromoConversionType,
+  promoOdds: number,
+  hedgeOdds: number,
+  { amount, boostPercent = 0, roundTo = 0, hedgeMax = null }: {
+    amount: number;
+    boostPercent?: number;
+    roundTo?: number;
+    hedgeMax?: number | null;
+  }
+): ConversionPlan {
+  const promoLeg = getPromoLeg(type, promoOdds, boostPercent);
+  const plan = allocateArbStakes(
+    [promoLeg, { odds: hedgeOdds }],
+    { type: "fixed", legIndex: 0, stake: amount },
+    roundTo
+  );
+  const hedgeStake = plan.stakes[1] ?? 0;
+
+  return {
+    promoStake: amount,
+    hedgeStake,
+    guaranteedProfit: plan.worstCaseProfit,
+    retention: amount > 0 ? plan.worstCaseProfit / amount : 0,
+    effectiveOdds: type === "profit_boost" ? getBoostedOdds(promoOdds, boostPercent) : promoOdds,
+    hedgeOverLimit: hedgeMax != null && hedgeMax > 0 && hedgeStake > hedgeMax + 0.005,
+  };
+}
+
+/**
+ * Expected profit of the unhedged promo leg per $1 of promo amount, given
+ * the de-vigged win probability. For a bonus bet this is the expected
+ * retention; for a profit boost it's the boosted EV.
+ */
+export function getExpectedRetention(
+  type: PromoConversionType,
+  fairProb: number,
+  promoOdds: number,
+  boostPercent = 0
+): number {
+  if (type === "bonus_bet") {
+    return fairProb * getEffectiveDecimal({ odds: promoOdds, bonusBet: true });
+  }
+  return calculateEV(fairProb, getBoostedOdds(promoOdds, boostPercent));
+}
+
+/**
+ * Map a promo's sportsbook name ("Hard Rock Bet", "theScore Bet") to the
+ * odds feed book id. Returns null for books we don't carry odds for.
+ */
+export function resolvePromoBookId(sportsbook: string): string | null {
+  const compact = compactName(sportsbook);
+  for (const candidate of [compact, compact.replace(/bet$/, "")]) {
+    if (!candidate) continue;
+    const id = normalizeSportsbookId(candidate);
+    const match = sportsbooks.find((sb) => sb.id === id || compactName(sb.name) === candidate);
+    if (match) return match.id;
+  }
+  return null;
+}
+
+/**
+ * Converter inputs parsed from a listed promo, e.g. "$25 Bonus Bet" or
+ * "50% Profit Boost (max $25)". Null for promos that can't be hedged with a
+ * single leg (parlay/SGP boosts, insurance, contests).
+ */
+export function parsePromoConversion(promo: SportsbookPromo): {
+  type: PromoConversionType;
+  book: string | null;
+  amount: number | null;
+  boostPercent: number | null;
+} | null {
+  const isBonus = BONUS_BET_PROMO_TYPES.includes(promo.promo_type);
+  const isBoost = PROFIT_BOOST_PROMO_TYPES.includes(promo.promo_type);
+  if (!isBonus && !isBoost) return null;
+
+  const text = [promo.boost_or_bonus, promo.title, promo.description].filter(Boolean).join(" ");
+  const dollars = text.match(/\$\s?(\d+(?:,\d{3})*(?:\.\d+)?)/);
+  const percent = text.match(/(\d+(?:\.\d+)?)\s?%/);
+
+  return {
+    type: isBonus ? "bonus_bet" : "profit_boost",
+    book: resolvePromoBookId(promo.sportsbook),
+    amount: dollars ? parseFloat(dollars[1].replace(/,/g, "")) : null,
+    boostPercent: isBoost && percent ? parseFloat(percent[1]) : null,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Promo Converter Library
+ *
+ * Finds the hedge that converts a bonus bet or profit boost into the most
+ * guaranteed cash, with de-vigged expected retention for the unhedged leg.
+ */
+
+// Types
+export type {
+  PromoConversionType,
+  PromoConversionSort,
+  PromoConversionRequest,
+  ConversionLeg,
+  PromoConversion,
+  PromoConversionResponse,
+} from "./types";
+
+// Conversion math
+export {
+  getPromoLeg,
+  getBoostedOdds,
+  planConversion,
+  getExpectedRetention,
+  resolvePromoBookId,
+  parsePromoConversion,
+} from "./convert";
+export type { ConversionPlan } from "./convert";
+
+// Scanner (server)
+export { findPromoConversions } from "./scan";
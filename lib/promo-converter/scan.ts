@@ -0,0 +1,242 @@
+/**
+ * Promo converter scanner (server)
+ *
+ * Walks the promo book's two-way selections for upcoming events, pairs each
+ * with the best opposite price at any other book, and ranks the hedges by
+ * guaranteed conversion. Fair win probability comes from the same preset /
+ * market-average de-vig used for closing lines.
+ */
+
+import { getOddsCache } from "@/lib/cache/odds-cache";
+import { computeClosingLine, findOppositeSelection, resolveClosingLinePreferences } from "@/lib/clv/closing-line";
+import type { ClosingLinePreferences } from "@/lib/clv/types";
+import { getAllLeagues } from "@/lib/data/sports";
+import { normalizeSportsbookId } from "@/lib/data/sportsbooks";
+import { getUpcomingEvents, parseBookSelections } from "@/lib/odds/upcoming-events";
+import type { SSEBookSelections, SSEEvent, SSESelection } from "@/lib/odds/types";
+import { getExpectedRetention, planConversion } from "./convert";
+import type { ConversionLeg, PromoConversion, PromoConversionRequest, PromoConversionResponse } from "./types";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Outcomes that aren't one of exactly two (3-way, first scorer, etc.) */
+const SKIP_MARKET_PATTERN = /1x2|3_way|three_way|draw|double_chance|first_|last_|anytime|exact|correct_score|winning_margin|race_to/;
+
+const EXCLUDED_BOOKS = new Set(["hard-rock-indiana"]);
+
+type MarketBooks = {
+  eid: string;
+  mkt: string;
+  ev: SSEEvent;
+  books: Record<string, SSEBookSelections>;
+};
+
+function parsePrice(price: string | undefined): number {
+  return parseInt(String(price ?? "").replace("+", ""), 10);
+}
+
+function openSelections(selections: SSEBookSelections): SSESelection[] {
+  return Object.values(selections).filter((sel): sel is SSESelection => !!sel && !sel.locked);
+}
+
+/**
+ * Integer lines can push, which voids a hedge's equal-payout guarantee.
+ * Moneylines count as two-way only when the book lists exactly two teams.
+ */
+function isTwoWaySelection(sel: SSESelection, all: SSESelection[]): boolean {
+  if (sel.side === "ml") {
+    return new Set(all.filter((s) => s.side === "ml").map((s) => s.player)).size === 2;
+  }
+  return !Number.isInteger(sel.line);
+}
+
+/** Leg label in the ArbLeg.name style ("LAL", "LAL -2.5", "Player Over 24.5") */
+function describeSelection(sel: SSESelection): string {
+  if (sel.side === "ml") return sel.player;
+  if (sel.side === "spread") return `${sel.player} ${sel.line > 0 ? `+${sel.line}` : sel.line}`;
+  return `${sel.player} ${sel.side === "over" ? "Over" : "Under"} ${sel.line}`;
+}
+
+function toLeg(book: string, sel: SSESelection, od: number): ConversionLeg {
+  return {
+    bk: book,
+    name: describeSelection(sel),
+    od,
+    side: sel.side,
+    ln: sel.side === "ml" ? null : sel.line,
+    id: sel.odd_id,
+    u: sel.link || undefined,
+    m: sel.mobile_link ?? null,
+    max: sel.limits?.max ?? null,
+  };
+}
+
+async function loadMarkets(sport: string, now: number): Promise<{ markets: MarketBooks[]; events: number }> {
+  const events = await getUpcomingEvents(sport, { now });
+  if (events.length === 0) return { markets: [], events: 0 };
+
+  const eventsById = new Map(events.map((ev) => [ev.event_id, ev]));
+  const odds = (await getOddsCache().getOddsForSport(sport, events.map((ev) => ev.event_id))) as unknown as Map<string, unknown>;
+  const markets = new Map<string, MarketBooks>();
+
+  for (const [key, value] of odds) {
+    // odds:{sport}:{eid}:{market}:{book}
+    const parts = key.split(":");
+    if (parts.length < 5) continue;
+    const [, , eid, market, rawBook] = parts;
+    const ev = eventsById.get(eid);
+    if (!ev || SKIP_MARKET_PATTERN.test(market) || EXCLUDED_BOOKS.has(rawBook.toLowerCase())) continue;
+
+    const selections = parseBookSelections(value);
+    if (!selections) continue;
+
+    const marketKey = `${eid}|${market}`;
+    let entry = markets.get(marketKey);
+    if (!entry) {
+      entry = { eid, mkt: market, ev, books: {} };
+      markets.set(marketKey, entry);
+    }
+    entry.books[normalizeSportsbookId(rawBook)] = selections;
+  }
+
+  return { markets: [...markets.values()], events: events.length };
+}
+
+function convertMarket(
+  sport: string,
+  market: MarketBooks,
+  request: Required<Pick<PromoConversionRequest, "type" | "book" | "amount" | "boostPercent" | "roundTo">> &
+    Pick<PromoConversionRequest, "minOdds" | "maxOdds">,
+  prefs: ClosingLinePreferences,
+  lg: PromoConversion["lg"],
+  now: number
+): PromoConversion[] {
+  const promoSelections = market.books[request.book];
+  if (!promoSelections) return [];
+
+  const promoAll = openSelections(promoSelections);
+  const otherBooks = Object.entries(market.books)
+    .filter(([book]) => book !== request.book)
+    .map(([book, selections]) => [book, openSelections(selections)] as const);
+  const results: PromoConversion[] = [];
+
+  for (const sel of promoAll) {
+    const promoOdds = parsePrice(sel.price);
+    if (!Number.isFinite(promoOdds) || promoOdds === 0 || !isTwoWaySelection(sel, promoAll)) continue;
+    if (request.minOdds != null && promoOdds < request.minOdds) continue;
+    if (request.maxOdds != null && promoOdds > request.maxOdds) continue;
+
+    let best: { book: string; sel: SSESelection; od: number } | null = null;
+    for (const [book, all] of otherBooks) {
+      const opposite = findOppositeSelection(all, sel);
+      if (!opposite || !isTwoWaySelection(opposite, all)) continue;
+      const od = parsePrice(opposite.price);
+      if (!Number.isFinite(od) || od === 0) continue;
+      if (!best || od > best.od) best = { book, sel: opposite, od };
+    }
+    if (!best) continue;
+
+    const plan = planConversion(request.type, promoOdds, best.od, {
+      amount: request.amount,
+      boostPercent: request.boostPercent,
+      roundTo: request.roundTo,
+      hedgeMax: best.sel.limits?.max ?? null,
+    });
+
+    const fair = computeClosingLine(
+      market.books,
+      { player_name: sel.player || null, line: sel.side === "ml" ? null : sel.line, side: sel.side },
+      prefs
+    );
+
+    results.push({
+      id: `${market.eid}:${market.mkt}:${sel.odd_id ?? `${sel.player}|${sel.side}|${sel.line}`}:${best.book}`,
+      type: request.type,
+      sport,
+      eid: market.eid,
+      mkt: market.mkt,
+      player: sel.side === "over" || sel.side === "under" ? sel.player || null : null,
+      promo: toLeg(request.book, sel, promoOdds),
+      hedge: toLeg(best.book, best.sel, best.od),
+      effective_odds: plan.effectiveOdds,
+      promo_stake: plan.promoStake,
+      hedge_stake: plan.hedgeStake,
+      guaranteed_profit: plan.guaranteedProfit,
+      retention: plan.retention,
+      hedge_over_limit: plan.hedgeOverLimit,
+      fair_prob: fair?.fair_prob ?? null,
+      fair_basis: fair?.basis ?? null,
+      expected_retention: fair
+        ? getExpectedRetention(request.type, fair.fair_prob, promoOdds, request.boostPercent)
+        : null,
+      lg,
+      event: {
+        dt: market.ev.commence_time,
+        home: { abbr: market.ev.home_team, name: market.ev.home_team_name },
+        away: { abbr: market.ev.away_team, name: market.ev.away_team_name },
+      },
+      ts: now,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Best hedges for a bonus bet or profit boost across the requested sports
+ */
+export async function findPromoConversions(
+  request: PromoConversionRequest,
+  now = Date.now()
+): Promise<PromoConversionResponse> {
+  const book = normalizeSportsbookId(request.book);
+  const boostPercent = request.type === "profit_boost" ? request.boostPercent ?? 0 : 0;
+  const normalized = {
+    type: request.type,
+    book,
+    amount: request.amount,
+    boostPercent,
+    roundTo: request.roundTo ?? 0,
+    minOdds: request.minOdds,
+    maxOdds: request.maxOdds,
+  };
+  const prefs = resolveClosingLinePreferences({ positive_ev_sharp_preset: request.sharpPreset ?? null });
+  const leagues = getAllLeagues();
+
+  let eventsScanned = 0;
+  const perSport = await Promise.all(
+    request.sports.map(async (sport) => {
+      try {
+        const { markets, events } = await loadMarkets(sport, now);
+        eventsScanned += events;
+        const league = leagues.find((l) => l.id === sport);
+        const lg = { id: sport, name: league?.name ?? sport.toUpperCase(), sport: league?.sportId ?? sport };
+        return markets.flatMap((market) => convertMarket(sport, market, normalized, prefs, lg, now));
+      } catch (error) {
+        console.error(`[promo-converter] Scan failed for ${sport}:`, error);
+        return [];
+      }
+    })
+  );
+
+  const sortKey = request.sort === "ev"
+    ? (c: PromoConversion) => c.expected_retention ?? -Infinity
+    : (c: PromoConversion) => c.retention;
+  const candidates = perSport.flat().sort((a, b) => sortKey(b) - sortKey(a));
+  const limit = Math.min(Math.max(request.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  return {
+    conversions: candidates.slice(0, limit),
+    meta: {
+      type: request.type,
+      book,
+      amount: request.amount,
+      boost_percent: boostPercent,
+      sports: request.sports,
+      events_scanned: eventsScanned,
+      candidates: candidates.length,
+      timestamp: new Date(now).toISOString(),
+    },
+  };
+}
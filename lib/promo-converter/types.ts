@@ -0,0 +1,91 @@
+/**
+ * Promo Converter Types
+ *
+ * Hedges that turn a bonus bet or profit boost into guaranteed cash: the
+ * promo leg at the promo's book, the opposite side at another book sized so
+ * both outcomes pay the same.
+ */
+
+import type { ArbLeg } from "@/lib/arb-schema";
+import type { ClosingLineBasis } from "@/lib/clv/types";
+import type { SharpPreset } from "@/lib/ev/types";
+
+export type PromoConversionType = "bonus_bet" | "profit_boost";
+
+/** How results are ranked: locked-in hedge profit, or unhedged boosted EV */
+export type PromoConversionSort = "guaranteed" | "ev";
+
+export interface PromoConversionRequest {
+  type: PromoConversionType;
+  /** Odds book id the promo is at (e.g. "draftkings") */
+  book: string;
+  /** Bonus bet amount, or max wager for a profit boost */
+  amount: number;
+  /** Profit boost %, e.g. 50 = +50% winnings (profit_boost only) */
+  boostPercent?: number;
+  sports: string[];
+  /** Only consider promo-side prices in this American odds range */
+  minOdds?: number;
+  maxOdds?: number;
+  /** Round the hedge stake to this increment (0 = cents) */
+  roundTo?: number;
+  sharpPreset?: SharpPreset;
+  sort?: PromoConversionSort;
+  limit?: number;
+}
+
+export interface ConversionLeg extends ArbLeg {
+  /** Selection side as stored in the odds feed */
+  side: "over" | "under" | "ml" | "spread" | "yes" | "no";
+  ln: number | null;
+}
+
+export interface PromoConversion {
+  id: string;
+  type: PromoConversionType;
+  sport: string;
+  eid: string;
+  mkt: string;
+  /** Player for props, null for game lines */
+  player: string | null;
+  /** Leg placed with the promo */
+  promo: ConversionLeg;
+  /** Cash hedge at another book */
+  hedge: ConversionLeg;
+  /** Promo price after the boost (profit_boost) or as offered */
+  effective_odds: number;
+  promo_stake: number;
+  hedge_stake: number;
+  /** Profit locked in whichever side wins */
+  guaranteed_profit: number;
+  /** Guaranteed profit as a fraction of the promo amount */
+  retention: number;
+  /** Hedge stake exceeds the hedge book's max */
+  hedge_over_limit: boolean;
+  /** De-vigged probability the promo leg wins; null when no book quotes both sides */
+  fair_prob: number | null;
+  fair_basis: ClosingLineBasis | null;
+  /** Expected profit of the promo leg alone, as a fraction of the promo amount */
+  expected_retention: number | null;
+  lg: { id: string; name: string; sport: string };
+  event: {
+    dt: string;
+    home: { abbr?: string; name?: string };
+    away: { abbr?: string; name?: string };
+  };
+  ts: number;
+}
+
+export interface PromoConversionResponse {
+  conversions: PromoConversion[];
+  meta: {
+    type: PromoConversionType;
+    book: string;
+    amount: number;
+    boost_percent: number;
+    sports: string[];
+    events_scanned: number;
+    candidates: number;
+    timestamp: string;
+  };
+}
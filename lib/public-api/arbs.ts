@@ -0,0 +1,69 @@
+/**
+ * Arbitrage reads for the public API (server)
+ *
+ * Same Redis keys as /api/arbs and /api/arbs/rows, but the plan comes from
+ * the API key rather than a cookie session, so live rows are gated on the
+ * key's arbs:live scope instead of the session plan.
+ */
+
+import { redis, parseRedisValue } from "@/lib/shared-redis-client";
+import { isArbFreshForMode, type ArbMode } from "@/lib/arb-freshness";
+import type { ArbRow } from "@/lib/arb-schema";
+import { zrevrangeCompat } from "@/lib/redis-zset";
+
+const ARB_ROWS_KEY = "arbs:rows";
+const ARB_SORT_KEYS: Record<ArbMode, string> = {
+  all: "arbs:sort:roi",
+  live: "arbs:sort:roi:live",
+  pregame: "arbs:sort:roi:pregame",
+};
+const CHUNK = 500;
+
+/**
+ * Arb rows by id, in request order; null for ids no longer in the hash
+ */
+export async function readArbRows(ids: string[]): Promise<Array<{ id: string; row: ArbRow | null }>> {
+  const out: Array<{ id: string; row: ArbRow | null }> = [];
+  for (let offset = 0; offset < ids.length; offset += CHUNK) {
+    const chunk = ids.slice(offset, offset + CHUNK);
+    const raw = (await redis.hmget(ARB_ROWS_KEY, ...chunk)) as Record<string, unknown> | unknown[] | null;
+    const values = Array.isArray(raw) ? raw : chunk.map((id) => (raw as Record<string, unknown> | null)?.[id] ?? null);
+    chunk.forEach((id, i) => {
+      out.push({ id, row: parseRedisValue<ArbRow>(values[i] as string | null, `${ARB_ROWS_KEY}:${id}`) });
+    });
+  }
+  return out;
+}
+
+/**
+ * Fresh arbs for a mode by ROI, optionally on one event
+ */
+export async function readTopArbs(
+  mode: ArbMode,
+  cursor: number,
+  limit: number,
+  eventId?: string
+): Promise<Array<{ id: string; row: ArbRow }>> {
+  const sortKey = ARB_SORT_KEYS[mode];
+  let ids: string[];
+
+  if (eventId) {
+    const members = ((await redis.smembers(`arbs:by_event:${eventId}`)) as unknown[] | null) ?? [];
+    const eventIds = members.map(String);
+    if (eventIds.length === 0) return [];
+    const scores = (await redis.zmscore(sortKey, eventIds)) as Array<number | null> | null;
+    ids = eventIds
+      .map((id, i) => ({ id, score: Number(scores?.[i] ?? 0) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(cursor, cursor + limit)
+      .map((p) => p.id);
+  } else {
+    ids = await zrevrangeCompat(redis, sortKey, cursor, cursor + limit - 1);
+  }
+  if (ids.length === 0) return [];
+
+  const now = Date.now();
+  return (await readArbRows(ids)).filter(
+    (p): p is { id: string; row: ArbRow } => p.row !== null && isArbFreshForMode(p.row, mode, now)
+  );
+}
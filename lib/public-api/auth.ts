@@ -0,0 +1,201 @@
+/**
+ * Public API Authentication & Metering (server)
+ *
+ * Every /api/public/v1 request goes through withPublicApi:
+ *   1. The presented key is hashed and looked up (service role; there is no
+ *      cookie session on these routes)
+ *   2. Revoked / expired keys are rejected, and the key's scopes are
+ *      narrowed to what the owner's current plan grants
+ *   3. publicApiRateLimit caps bursts per key per minute
+ *   4. consume_api_key_quota meters the request against the owner's daily
+ *      quota (summed across all of their keys)
+ * Rate limit and quota state is returned in headers on every response.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PLAN_LIMITS, type UserPlan } from "@/lib/plans";
+import { getUserPlanById } from "@/lib/plans-server";
+import { getRateLimitHeaders, publicApiRateLimit } from "@/lib/rate-limit";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { hashApiKey, readApiKey } from "./keys";
+import { effectiveScopes, hasApiAccess } from "./scopes";
+import type { ApiKeyRecord, ApiPrincipal, ApiQuota, ApiScope } from "./types";
+
+type PublicApiHandler<C> = (req: NextRequest, principal: ApiPrincipal, context: C) => Promise<Response>;
+
+const API_KEY_COLUMNS = "id, user_id, name, prefix, scopes, last_used_at, expires_at, revoked_at, created_at";
+
+export function publicApiError(status: number, error: string, message: string, headers?: Record<string, string>) {
+  return NextResponse.json(
+    { error, message },
+    { status, headers: { "Cache-Control": "no-store", ...headers } }
+  );
+}
+
+export function nextUtcMidnight(now: number): string {
+  const d = new Date(now);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1)).toISOString();
+}
+
+export function dailyQuotaLimit(plan: UserPlan): number {
+  return PLAN_LIMITS[plan].api.publicRequestsPerDay;
+}
+
+/**
+ * Key record for a presented secret; null when unknown, revoked or expired
+ */
+export async function findActiveApiKey(secret: string, now = Date.now()): Promise<ApiKeyRecord | null> {
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("key_hash", hashApiKey(secret))
+    .maybeSingle();
+
+  if (error) {
+    console.error("[public-api] Key lookup error:", error);
+    return null;
+  }
+  const key = data as ApiKeyRecord | null;
+  if (!key || key.revoked_at) return null;
+  if (key.expires_at && Date.parse(key.expires_at) <= now) return null;
+  return key;
+}
+
+/**
+ * Count one request against the owner's daily quota. Metering failures are
+ * logged and let through rather than failing the request.
+ */
+async function consumeQuota(principal: ApiPrincipal, now: number): Promise<{ allowed: boolean; quota: ApiQuota }> {
+  const limit = dailyQuotaLimit(principal.plan);
+  const resets_at = nextUtcMidnight(now);
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase.rpc("consume_api_key_quota", {
+      p_key_id: principal.keyId,
+      p_user_id: principal.userId,
+      p_daily_limit: limit,
+    });
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; used: number } | null;
+    const used = Number(row?.used ?? 0);
+    return {
+      allowed: row?.allowed !== false,
+      quota: { limit, used, remaining: Math.max(0, limit - used), resets_at },
+    };
+  } catch (error) {
+    console.warn("[public-api] Quota metering unavailable, allowing request:", error);
+    return { allowed: true, quota: { limit, used: 0, remaining: limit, resets_at } };
+  }
+}
+
+function quotaHeaders(quota: ApiQuota): Record<string, string> {
+  return {
+    "X-Quota-Limit": String(quota.limit),
+    "X-Quota-Remaining": String(quota.remaining),
+    "X-Quota-Reset": quota.resets_at,
+  };
+}
+
+/**
+ * Wrap a public API route handler with key auth, scope checks, rate
+ * limiting and metering. `scope` null = any valid key (e.g. /usage).
+ */
+export function withPublicApi<C = unknown>(scope: ApiScope | null, handler: PublicApiHandler<C>) {
+  return async (req: NextRequest, context: C): Promise<Response> => {
+    const now = Date.now();
+    const secret = readApiKey(req);
+    if (!secret) {
+      return publicApiError(401, "unauthorized", "Send an API key as 'Authorization: Bearer uj_...' or 'X-API-Key'");
+    }
+
+    const key = await findActiveApiKey(secret, now);
+    if (!key) {
+      return publicApiError(401, "invalid_api_key", "API key is invalid, revoked or expired");
+    }
+
+    const plan = await getUserPlanById(key.user_id);
+    if (!hasApiAccess(plan)) {
+      return publicApiError(403, "plan_required", "API access requires a Sharp or Elite plan");
+    }
+
+    const principal: ApiPrincipal = {
+      keyId: key.id,
+      userId: key.user_id,
+      plan,
+      scopes: effectiveScopes(key.scopes, plan),
+    };
+    if (scope && !principal.scopes.includes(scope)) {
+      return publicApiError(403, "insufficient_scope", `This endpoint requires the '${scope}' scope`);
+    }
+
+    const burst = await publicApiRateLimit.limit({ identifier: `apikey:${key.id}`, plan });
+    const rateHeaders = getRateLimitHeaders(burst);
+    if (!burst.success) {
+      return publicApiError(429, "rate_limited", "Too many requests for this key, slow down", {
+        ...rateHeaders,
+        "Retry-After": rateHeaders["RateLimit-Reset"],
+      });
+    }
+
+    const { allowed, quota } = await consumeQuota(principal, now);
+    if (!allowed) {
+      return publicApiError(429, "quota_exceeded", `Daily quota of ${quota.limit} requests used`, {
+        ...rateHeaders,
+        ...quotaHeaders(quota),
+        "Retry-After": String(Math.ceil((Date.parse(quota.resets_at) - now) / 1000)),
+      });
+    }
+
+    try {
+      const response = await handler(req, principal, context);
+      for (const [name, value] of Object.entries({ ...rateHeaders, ...quotaHeaders(quota) })) {
+        response.headers.set(name, value);
+      }
+      response.headers.set("Cache-Control", "no-store");
+      return response;
+    } catch (error) {
+      // Internal detail stays in the logs; clients only get a generic message
+      console.error(`[public-api] Handler error on ${new URL(req.url).pathname}:`, error);
+      return publicApiError(500, "internal_error", "Something went wrong, try again later");
+    }
+  };
+}
+
+/**
+ * Daily request counts for a user's keys over the last `days` days
+ */
+export async function getApiKeyUsage(
+  userId: string,
+  days: number,
+  now = Date.now()
+): Promise<Array<{ key_id: string; day: string; requests: number }>> {
+  const since = new Date(now - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from("api_key_usage")
+    .select("key_id, day, requests")
+    .eq("user_id", userId)
+    .gte("day", since)
+    .order("day", { ascending: true });
+
+  if (error) {
+    console.error("[public-api] Usage fetch error:", error);
+    return [];
+  }
+  return (data ?? []) as Array<{ key_id: string; day: string; requests: number }>;
+}
+
+/**
+ * Rebuild a public request as the internal route's request so the existing
+ * handler can serve it. Only the listed params are forwarded.
+ */
+export function toInternalRequest(req: NextRequest, pathname: string, params: Record<string, unknown>): NextRequest {
+  const url = new URL(pathname, req.url);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) url.searchParams.set(name, String(value));
+  }
+  return new NextRequest(url, { headers: { accept: "application/json" } });
+}
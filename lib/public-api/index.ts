@@ -0,0 +1,27 @@
+/**
+ * Public API Library
+ *
+ * Personal API keys (hashed at rest, scoped to plan entitlements) for the
+ * read-only REST API under /api/public/v1, per-key rate limiting, daily
+ * usage metering and the generated OpenAPI document.
+ */
+
+// Types
+export type { ApiScope, ApiKeyRecord, ApiKeySummary, ApiPrincipal, ApiQuota } from "./types";
+
+// Scopes
+export {
+  API_SCOPES,
+  ALL_API_SCOPES,
+  isApiScope,
+  grantableScopes,
+  effectiveScopes,
+  hasApiAccess,
+} from "./scopes";
+
+// Keys
+export { API_KEY_PREFIX, generateApiKey, hashApiKey, readApiKey } from "./keys";
+export type { GeneratedApiKey } from "./keys";
+
+// OpenAPI
+export { PUBLIC_API_VERSION, PUBLIC_API_BASE_PATH, zodToJsonSchema, buildOpenApiDocument } from "./openapi";
@@ -0,0 +1,42 @@
+/**
+ * API Key Secrets
+ *
+ * Keys look like "uj_<43 base64url chars>" (32 random bytes). Only the
+ * SHA-256 hex digest is stored, so a lookup hashes the presented key and
+ * matches it exactly; a database leak doesn't expose usable keys.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+export const API_KEY_PREFIX = "uj_";
+
+const API_KEY_PATTERN = /^uj_[A-Za-z0-9_-]{43}$/;
+
+/** Characters of the key kept for display */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export interface GeneratedApiKey {
+  secret: string;
+  prefix: string;
+  hash: string;
+}
+
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const secret = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { secret, prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(secret) };
+}
+
+/**
+ * Key presented on a request: `Authorization: Bearer uj_...` or
+ * `X-API-Key: uj_...`. Null when missing or malformed.
+ */
+export function readApiKey(req: Request): string | null {
+  const authorization = req.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = bearer ?? req.headers.get("x-api-key")?.trim() ?? null;
+  return key && API_KEY_PATTERN.test(key) ? key : null;
+}
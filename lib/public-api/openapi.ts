@@ -0,0 +1,198 @@
+/**
+ * OpenAPI document for the public API
+ *
+ * Generated from the zod schemas in ./schema.ts (query parameters, request
+ * bodies and responses) and the scope table in ./scopes.ts, so the spec
+ * always matches what the routes validate. Only the zod types those schemas
+ * use are converted.
+ */
+
+import { z } from "zod";
+import { API_SCOPES, ALL_API_SCOPES } from "./scopes";
+import {
+  ArbRowsBodySchema,
+  ArbRowsResponseSchema,
+  ArbsQuerySchema,
+  ArbsResponseSchema,
+  ErrorResponseSchema,
+  OpportunitiesQuerySchema,
+  OpportunitiesResponseSchema,
+  PositiveEVQuerySchema,
+  PositiveEVResponseSchema,
+  UsageResponseSchema,
+} from "./schema";
+import type { ApiScope } from "./types";
+
+type JsonSchema = Record<string, unknown>;
+
+export const PUBLIC_API_VERSION = "1.0.0";
+export const PUBLIC_API_BASE_PATH = "/api/public/v1";
+
+/**
+ * JSON Schema (OpenAPI 3.1 dialect) for a zod schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const out: JsonSchema = { type: "string" };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === "min") out.minLength = check.value;
+        else if (check.kind === "max") out.maxLength = check.value;
+        else if (check.kind === "regex") out.pattern = check.regex.source;
+      }
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const out: JsonSchema = { type: "number" };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === "int") out.type = "integer";
+        else if (check.kind === "min") out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: (schema as z.ZodLiteral<unknown>).value };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<z.ZodTypeAny>;
+      const out: JsonSchema = { type: "array", items: zodToJsonSchema(array.element) };
+      if (array._def.minLength) out.minItems = array._def.minLength.value;
+      if (array._def.maxLength) out.maxItems = array._def.maxLength.value;
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const object = schema as z.AnyZodObject;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [name, value] of Object.entries(object.shape as Record<string, z.ZodTypeAny>)) {
+        properties[name] = zodToJsonSchema(value);
+        if (!value.isOptional() && value._def.typeName !== z.ZodFirstPartyTypeKind.ZodDefault) required.push(name);
+      }
+      return {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        additionalProperties: object._def.unknownKeys === "passthrough",
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodToJsonSchema(def.innerType);
+      return typeof inner.type === "string" ? { ...inner, type: [inner.type, "null"] } : { anyOf: [inner, { type: "null" }] };
+    }
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // refine / transform: document the input shape
+      return zodToJsonSchema(def.schema);
+    default:
+      // z.unknown(), z.any() and anything not used above
+      return {};
+  }
+}
+
+/**
+ * Query parameters of a zod object, one OpenAPI parameter per field
+ */
+function queryParameters(schema: z.AnyZodObject): JsonSchema[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => {
+    const { description, ...fieldSchema } = zodToJsonSchema(field);
+    return {
+      name,
+      in: "query",
+      required: !field.isOptional() && field._def.typeName !== z.ZodFirstPartyTypeKind.ZodDefault,
+      ...(description ? { description } : {}),
+      schema: fieldSchema,
+    };
+  });
+}
+
+function jsonContent(schema: z.ZodTypeAny): JsonSchema {
+  return { "application/json": { schema: zodToJsonSchema(schema) } };
+}
+
+const errorResponses = {
+  "400": { description: "Invalid parameters", content: jsonContent(ErrorResponseSchema) },
+  "401": { description: "Missing, invalid, revoked or expired API key", content: jsonContent(ErrorResponseSchema) },
+  "403": { description: "Plan or key scope doesn't allow this endpoint", content: jsonContent(ErrorResponseSchema) },
+  "429": {
+    description: "Per-minute rate limit or daily quota exhausted (see RateLimit-* and X-Quota-* headers)",
+    content: jsonContent(ErrorResponseSchema),
+  },
+};
+
+function operation(
+  summary: string,
+  scope: ApiScope | null,
+  response: z.ZodTypeAny,
+  extra: JsonSchema
+): JsonSchema {
+  return {
+    summary,
+    ...(scope ? { description: `Requires the \`${scope}\` scope.`, security: [{ apiKey: [scope] }, { bearer: [scope] }] } : {}),
+    ...extra,
+    responses: { "200": { description: "OK", content: jsonContent(response) }, ...errorResponses },
+  };
+}
+
+/**
+ * The full OpenAPI 3.1 document for /api/public/v1
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Unjuiced Public API",
+      version: PUBLIC_API_VERSION,
+      description:
+        "Read-only access to edge finder, +EV and arbitrage data with a personal API key " +
+        "(Account Settings → API Keys). Requests count against a daily quota per account.",
+    },
+    servers: [{ url: `${serverUrl}${PUBLIC_API_BASE_PATH}` }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+    },
+    "x-scopes": Object.fromEntries(ALL_API_SCOPES.map((scope) => [scope, API_SCOPES[scope].description])),
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      "/opportunities": {
+        get: operation("Edge finder opportunities", "opportunities:read", OpportunitiesResponseSchema, {
+          parameters: queryParameters(OpportunitiesQuerySchema),
+        }),
+      },
+      "/positive-ev": {
+        get: operation("+EV opportunities", "positive_ev:read", PositiveEVResponseSchema, {
+          parameters: queryParameters(PositiveEVQuerySchema),
+        }),
+      },
+      "/arbs": {
+        get: operation("Arbitrage rows by ROI", "arbs:read", ArbsResponseSchema, {
+          parameters: queryParameters(ArbsQuerySchema),
+        }),
+      },
+      "/arbs/rows": {
+        post: operation("Hydrate arbitrage rows by id", "arbs:read", ArbRowsResponseSchema, {
+          requestBody: { required: true, content: jsonContent(ArbRowsBodySchema) },
+        }),
+      },
+      "/usage": {
+        get: operation("This key's scopes and the account's quota usage", null, UsageResponseSchema, {}),
+      },
+    },
+  };
+}
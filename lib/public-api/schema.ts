@@ -0,0 +1,211 @@
+/**
+ * Public API Validation
+ *
+ * zod schemas for key management and for every public endpoint's query
+ * parameters and response. The same schemas validate requests in the route
+ * handlers and generate the OpenAPI document (./openapi.ts), so the spec
+ * can't drift from what the API actually accepts.
+ */
+
+import { z } from "zod";
+import { ALL_DEVIG_METHODS, SHARP_PRESETS } from "@/lib/ev/constants";
+import { ALL_API_SCOPES, isApiScope } from "./scopes";
+import type { ApiScope } from "./types";
+
+export const MAX_API_KEY_NAME_LENGTH = 64;
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+const scopesSchema = z
+  .array(z.string())
+  .min(1)
+  .refine((scopes) => scopes.every(isApiScope), { message: "Unknown scope" })
+  .transform((scopes) => [...new Set(scopes)] as ApiScope[]);
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(MAX_API_KEY_NAME_LENGTH),
+  scopes: scopesSchema,
+  expires_in_days: z.number().int().min(1).max(MAX_API_KEY_EXPIRY_DAYS).nullable().default(null),
+});
+
+export const UpdateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(MAX_API_KEY_NAME_LENGTH).optional(),
+  scopes: scopesSchema.optional(),
+});
+
+// ── Endpoint parameters ──────────────────────────────────────────────────────
+
+const csv = (description: string) =>
+  z
+    .string()
+    .regex(/^[a-z0-9_,.-]+$/i, "Comma-separated list")
+    .optional()
+    .describe(description);
+
+const flag = (description: string) => z.enum(["true", "false"]).optional().describe(description);
+
+const limit = (max: number) =>
+  z.coerce.number().int().min(1).max(max).default(100).describe(`Max results (1-${max})`);
+
+export const OpportunitiesQuerySchema = z.object({
+  sports: csv("Sports, e.g. nba,nfl (default nba)"),
+  markets: csv("Only these markets"),
+  preset: z.string().max(64).optional().describe("Fair-line preset: a preset id, a book id, 'average' or 'next_best'"),
+  minOdds: z.coerce.number().int().optional().describe("Minimum American odds (default -500)"),
+  maxOdds: z.coerce.number().int().optional().describe("Maximum American odds (default 10000)"),
+  minEdge: z.coerce.number().min(0).optional().describe("Minimum edge %"),
+  minEV: z.coerce.number().optional().describe("Minimum EV %"),
+  marketType: z.enum(["player", "game"]).optional().describe("Player props or game lines only"),
+  requireTwoWay: flag("Only markets with both sides quoted"),
+  minBooksPerSide: z.coerce.number().int().min(1).max(20).optional().describe("Minimum books per side (default 2)"),
+  sort: z.enum(["ev", "edge"]).optional().describe("Sort key (default ev)"),
+  limit: limit(500),
+});
+
+export const PositiveEVQuerySchema = z.object({
+  sports: csv("Sports, e.g. nba,nfl (default nba)"),
+  mode: z.enum(["pregame", "live", "all"]).optional().describe("Default pregame"),
+  sharpPreset: z
+    .string()
+    .refine((value) => value in SHARP_PRESETS && value !== "custom", { message: "Unknown sharp preset" })
+    .optional()
+    .describe(`Sharp reference preset: ${Object.keys(SHARP_PRESETS).filter((p) => p !== "custom").join(", ")}`),
+  devigMethods: csv(`De-vig methods: ${ALL_DEVIG_METHODS.join(", ")}`),
+  minEV: z.coerce.number().optional().describe("Minimum EV %"),
+  maxEV: z.coerce.number().optional().describe("Maximum EV %"),
+  minOdds: z.coerce.number().int().optional().describe("Minimum American odds"),
+  maxOdds: z.coerce.number().int().optional().describe("Maximum American odds"),
+  books: csv("Only prices at these books"),
+  markets: csv("Only these markets"),
+  marketType: z.enum(["player", "game"]).optional().describe("Player props or game lines only"),
+  minBooksPerSide: z.coerce.number().int().min(1).max(20).optional().describe("Minimum books per side (default 2)"),
+  limit: limit(500),
+});
+
+export const ArbsQuerySchema = z.object({
+  mode: z.enum(["all", "live", "pregame"]).default("pregame").describe("Live arbs need the arbs:live scope"),
+  event_id: z.string().max(128).optional().describe("Only arbs on this event"),
+  cursor: z.coerce.number().int().min(0).default(0).describe("Offset into the ROI-sorted list"),
+  limit: limit(1000),
+});
+
+export const ArbRowsBodySchema = z.object({
+  ids: z.array(z.string().min(1).max(256)).min(1).max(1000).describe("Arb ids to hydrate"),
+});
+
+// ── Responses (core fields; rows carry more than is listed) ─────────────────
+
+const bookOfferSchema = z
+  .object({
+    bookId: z.string(),
+    bookName: z.string(),
+    price: z.number().describe("American odds"),
+    link: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export const OpportunitiesResponseSchema = z
+  .object({
+    opportunities: z.array(
+      z
+        .object({
+          sport: z.string(),
+          event_id: z.string(),
+          market: z.string(),
+          player: z.string(),
+          player_id: z.string().nullable(),
+          line: z.number(),
+          side: z.enum(["over", "under"]),
+          best_book: z.string(),
+          best_price: z.string().describe("American odds"),
+          sharp_price: z.string().nullable(),
+          fair_american: z.string().nullable(),
+          edge_pct: z.number().nullable(),
+          ev_pct: z.number().nullable(),
+          all_books: z.array(z.object({ book: z.string(), price: z.number() }).passthrough()),
+        })
+        .passthrough()
+    ),
+    count: z.number().int(),
+  })
+  .passthrough();
+
+export const PositiveEVResponseSchema = z
+  .object({
+    opportunities: z.array(
+      z
+        .object({
+          id: z.string(),
+          sport: z.string(),
+          eventId: z.string(),
+          market: z.string(),
+          playerName: z.string().optional(),
+          line: z.number(),
+          side: z.enum(["over", "under", "yes", "no"]),
+          book: bookOfferSchema,
+          evCalculations: z.object({ evDisplay: z.number().describe("Worst-case EV %") }).passthrough(),
+          allBooks: z.array(bookOfferSchema),
+        })
+        .passthrough()
+    ),
+    meta: z.object({ totalFound: z.number().int(), returned: z.number().int() }).passthrough(),
+  })
+  .passthrough();
+
+const arbLegSchema = z
+  .object({
+    bk: z.string(),
+    od: z.number().describe("American odds"),
+    u: z.string().optional().describe("Bet link"),
+    max: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+const arbRowSchema = z
+  .object({
+    eid: z.string(),
+    mkt: z.string(),
+    ln: z.number(),
+    lg: z.object({ id: z.string(), name: z.string(), sport: z.string() }).optional(),
+    roi_bps: z.number().describe("Return on investment in basis points"),
+    max_bet: z.number().nullable().optional(),
+    ev: z.object({ dt: z.string(), live: z.boolean() }).passthrough(),
+    o: arbLegSchema.describe("Over leg"),
+    u: arbLegSchema.describe("Under leg"),
+  })
+  .passthrough();
+
+export const ArbsResponseSchema = z.object({
+  format: z.number(),
+  mode: z.enum(["all", "live", "pregame"]),
+  ids: z.array(z.string()),
+  rows: z.array(arbRowSchema),
+});
+
+export const ArbRowsResponseSchema = z.object({
+  format: z.number(),
+  rows: z.array(z.object({ id: z.string(), row: arbRowSchema.nullable() })),
+  missing: z.array(z.string()),
+});
+
+export const UsageResponseSchema = z.object({
+  key: z.object({
+    id: z.string(),
+    name: z.string(),
+    prefix: z.string(),
+    scopes: z.array(z.enum(ALL_API_SCOPES as [ApiScope, ...ApiScope[]])).describe("Scopes the plan currently grants"),
+  }),
+  plan: z.string(),
+  quota: z.object({
+    limit: z.number().int(),
+    used: z.number().int(),
+    remaining: z.number().int(),
+    resets_at: z.string().describe("Next UTC midnight"),
+  }),
+  history: z.array(z.object({ day: z.string(), requests: z.number().int() })).describe("Last 30 days"),
+});
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.unknown().optional(),
+});
@@ -0,0 +1,67 @@
+/**
+ * API Key Scopes
+ *
+ * Each scope maps to the plan entitlement behind the matching app feature,
+ * so a key can never read more than its owner could in the app. Scopes are
+ * checked against the owner's current plan on every request: a downgrade
+ * disables scopes without touching the stored keys.
+ */
+
+import { PLAN_LIMITS, canAccessFeature, hasSharpAccess, type UserPlan } from "@/lib/plans";
+import type { ApiScope } from "./types";
+
+interface ScopeDefinition {
+  label: string;
+  description: string;
+  isGranted: (plan: UserPlan) => boolean;
+}
+
+export const API_SCOPES: Record<ApiScope, ScopeDefinition> = {
+  "opportunities:read": {
+    label: "Edge Finder",
+    description: "Read edge finder opportunities (/v1/opportunities)",
+    isGranted: hasSharpAccess,
+  },
+  "positive_ev:read": {
+    label: "Positive EV",
+    description: "Read +EV opportunities (/v1/positive-ev)",
+    isGranted: (plan) => hasSharpAccess(plan) && canAccessFeature(plan, "positiveEV"),
+  },
+  "arbs:read": {
+    label: "Arbitrage",
+    description: "Read pregame arbitrage rows (/v1/arbs)",
+    isGranted: hasSharpAccess,
+  },
+  "arbs:live": {
+    label: "Live arbitrage",
+    description: "Include live arbs in /v1/arbs",
+    isGranted: (plan) => PLAN_LIMITS[plan].arbitrage.hasLiveArb,
+  },
+};
+
+export const ALL_API_SCOPES = Object.keys(API_SCOPES) as ApiScope[];
+
+export function isApiScope(value: string): value is ApiScope {
+  return value in API_SCOPES;
+}
+
+/**
+ * Scopes a plan can put on a key
+ */
+export function grantableScopes(plan: UserPlan): ApiScope[] {
+  return ALL_API_SCOPES.filter((scope) => API_SCOPES[scope].isGranted(plan));
+}
+
+/**
+ * Key scopes still granted by the owner's current plan
+ */
+export function effectiveScopes(scopes: string[], plan: UserPlan): ApiScope[] {
+  return scopes.filter(isApiScope).filter((scope) => API_SCOPES[scope].isGranted(plan));
+}
+
+/**
+ * Whether a plan may hold API keys at all
+ */
+export function hasApiAccess(plan: UserPlan): boolean {
+  return PLAN_LIMITS[plan].api.apiKeys > 0 && grantableScopes(plan).length > 0;
+}
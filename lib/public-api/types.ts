@@ -0,0 +1,57 @@
+/**
+ * Public API Types
+ *
+ * Personal API keys for the read-only REST API under /api/public/v1, and the
+ * caller a key resolves to on each request.
+ */
+
+import type { UserPlan } from "@/lib/plans";
+
+export type ApiScope = "opportunities:read" | "positive_ev:read" | "arbs:read" | "arbs:live";
+
+/**
+ * Stored key (api_keys row). The secret itself is never stored.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  /** Leading characters of the key, for display */
+  prefix: string;
+  scopes: ApiScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Key as listed in account settings, with today's metered usage
+ */
+export interface ApiKeySummary extends Omit<ApiKeyRecord, "user_id"> {
+  /** Scopes the current plan still grants (a downgrade can disable some) */
+  active_scopes: ApiScope[];
+  requests_today: number;
+}
+
+/**
+ * Authenticated caller of a public API request
+ */
+export interface ApiPrincipal {
+  keyId: string;
+  userId: string;
+  plan: UserPlan;
+  /** Key scopes the plan currently grants */
+  scopes: ApiScope[];
+}
+
+/**
+ * Per-request usage returned in the X-Quota-* headers and /usage
+ */
+export interface ApiQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  /** ISO timestamp of the next UTC midnight */
+  resets_at: string;
+}
@@ -1,26 +1,89 @@
 /**
- * Simple in-memory rate limiter (no Redis needed for small scale)
- * For production scale, use Upstash Redis (free tier: 10k requests/day)
+ * Distributed rate limiter
+ *
+ * Sliding-window log kept in a Redis sorted set (one atomic Lua script per
+ * check), so limits are shared across serverless instances and survive cold
+ * starts. Quotas come from PLAN_LIMITS and the caller is identified from the
+ * Supabase session (falling back to IP when signed out).
+ *
+ * When redisBreaker is open the limiter degrades to a per-process in-memory
+ * window rather than failing requests.
+ *
+ * SSE routes wrap their handlers with withRateLimit(handler, sseRateLimit);
+ * expensive on-demand API routes (backtests, archive exports, simulations,
+ * outbound webhook tests) use apiRateLimit.
  */
 
+import { redis } from '@/lib/redis'
+import { redisBreaker } from '@/lib/circuit-breaker'
+import { PLAN_LIMITS, type UserPlan } from '@/lib/plans'
+import { getUserPlan } from '@/lib/plans-server'
+import { createClient } from '@/libs/supabase/server'
+
 interface RateLimitConfig {
+  /** Key prefix, e.g. "api" → ratelimit:api:{identifier} */
+  name: string
   interval: number // Time window in milliseconds
-  uniqueTokenPerInterval: number // Max requests per interval
+  /** Max requests per interval, fixed or per plan */
+  limit: number | ((plan: UserPlan) => number)
+}
+
+export interface RateLimitIdentity {
+  identifier: string
+  plan: UserPlan
 }
 
+export interface RateLimitResult {
+  success: boolean
+  limit: number
+  remaining: number
+  /** Epoch ms when the oldest request in the window expires */
+  reset: number
+  /** Window length in ms (for the RateLimit-Policy header) */
+  interval: number
+  source: 'redis' | 'memory'
+}
+
+// ZREMRANGEBYSCORE + ZCARD + ZADD in one round trip so concurrent requests
+// can't both slip under the limit.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local reset = now + window
+if oldest[2] then reset = tonumber(oldest[2]) + window end
+return {allowed, count, reset}
+`
+
+const MEMORY_CLEANUP_INTERVAL_MS = 60 * 1000
+
 class RateLimiter {
   private cache: Map<string, number[]> = new Map()
+  private lastCleanup = Date.now()
   private config: RateLimitConfig
 
   constructor(config: RateLimitConfig) {
     this.config = config
-    
-    // Clean up old entries every minute
-    setInterval(() => this.cleanup(), 60000)
   }
 
-  private cleanup() {
-    const now = Date.now()
+  getLimit(plan: UserPlan): number {
+    return typeof this.config.limit === 'function' ? this.config.limit(plan) : this.config.limit
+  }
+
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < MEMORY_CLEANUP_INTERVAL_MS) return
+    this.lastCleanup = now
     for (const [key, timestamps] of this.cache.entries()) {
       const validTimestamps = timestamps.filter(
         (timestamp) => now - timestamp < this.config.interval
@@ -33,76 +96,156 @@ class RateLimiter {
     }
   }
 
-  async limit(identifier: string): Promise<{ success: boolean; remaining: number }> {
-    const now = Date.now()
-    const timestamps = this.cache.get(identifier) || []
+  /**
+   * Per-process fallback used while Redis is unavailable
+   */
+  private limitInMemory(key: string, limit: number, now: number): RateLimitResult {
+    this.cleanup(now)
 
-    // Filter out old timestamps
-    const validTimestamps = timestamps.filter(
+    const validTimestamps = (this.cache.get(key) || []).filter(
       (timestamp) => now - timestamp < this.config.interval
     )
+    const success = validTimestamps.length < limit
+    if (success) validTimestamps.push(now)
+    this.cache.set(key, validTimestamps)
 
-    if (validTimestamps.length >= this.config.uniqueTokenPerInterval) {
-      return {
-        success: false,
-        remaining: 0,
-      }
+    return {
+      success,
+      limit,
+      remaining: Math.max(0, limit - validTimestamps.length),
+      reset: (validTimestamps[0] ?? now) + this.config.interval,
+      interval: this.config.interval,
+      source: 'memory',
     }
+  }
 
-    // Add current timestamp
-    validTimestamps.push(now)
-    this.cache.set(identifier, validTimestamps)
+  async limit(identity: RateLimitIdentity | string): Promise<RateLimitResult> {
+    const { identifier, plan } =
+      typeof identity === 'string' ? { identifier: identity, plan: 'anonymous' as UserPlan } : identity
+    const key = `ratelimit:${this.config.name}:${identifier}`
+    const limit = this.getLimit(plan)
+    const now = Date.now()
 
-    return {
-      success: true,
-      remaining: this.config.uniqueTokenPerInterval - validTimestamps.length,
+    if (redisBreaker.status().state === 'OPEN') {
+      return this.limitInMemory(key, limit, now)
+    }
+
+    try {
+      const member = `${now}:${Math.random().toString(36).slice(2, 10)}`
+      const raw = await redisBreaker.call(() =>
+        redis.eval<string[], [number, number, number]>(
+          SLIDING_WINDOW_SCRIPT,
+          [key],
+          [String(now), String(this.config.interval), String(limit), member]
+        )
+      )
+      const [allowed, count, reset] = (raw as unknown[]).map(Number)
+
+      return {
+        success: allowed === 1,
+        limit,
+        remaining: Math.max(0, limit - count),
+        reset: Number.isFinite(reset) ? reset : now + this.config.interval,
+        interval: this.config.interval,
+        source: 'redis',
+      }
+    } catch (error) {
+      console.warn(`[rate-limit] Redis unavailable for ${this.config.name}, using in-memory window:`, error)
+      return this.limitInMemory(key, limit, now)
     }
   }
 
   async reset(identifier: string) {
-    this.cache.delete(identifier)
+    const key = `ratelimit:${this.config.name}:${identifier}`
+    this.cache.delete(key)
+    try {
+      await redisBreaker.call(() => redis.del(key))
+    } catch {
+      // Window expires on its own
+    }
   }
 }
 
 // Create rate limiters for different endpoints
 export const apiRateLimit = new RateLimiter({
+  name: 'api',
   interval: 60 * 1000, // 1 minute
-  uniqueTokenPerInterval: 60, // 60 requests per minute
+  limit: (plan) => PLAN_LIMITS[plan].api.requestsPerMinute,
 })
 
 export const sseRateLimit = new RateLimiter({
+  name: 'sse',
+  interval: 60 * 1000, // 1 minute
+  limit: (plan) => PLAN_LIMITS[plan].api.sseConnectionsPerMinute,
+})
+
+// Public REST API: burst limit per API key (identifier "apikey:{id}"); the
+// daily quota is metered separately in lib/public-api/auth.ts
+export const publicApiRateLimit = new RateLimiter({
+  name: 'public-api',
   interval: 60 * 1000, // 1 minute
-  uniqueTokenPerInterval: 10, // 10 SSE connections per minute
+  limit: (plan) => PLAN_LIMITS[plan].api.requestsPerMinute,
 })
 
 export const authRateLimit = new RateLimiter({
+  name: 'auth',
   interval: 15 * 60 * 1000, // 15 minutes
-  uniqueTokenPerInterval: 5, // 5 auth attempts per 15 minutes
+  limit: 5, // 5 auth attempts per 15 minutes
 })
 
-// Helper to get identifier from request
-export function getIdentifier(req: Request): string {
-  // Try to get user ID from auth
-  const url = new URL(req.url)
-  const userId = url.searchParams.get('userId')
-  if (userId) return `user:${userId}`
-
-  // Fall back to IP address
+function getClientIp(req: Request): string {
   const forwarded = req.headers.get('x-forwarded-for')
-  const ip = forwarded ? forwarded.split(',')[0] : 'unknown'
-  return `ip:${ip}`
+  const ip = forwarded ? forwarded.split(',')[0].trim() : req.headers.get('x-real-ip')
+  return ip || 'unknown'
+}
+
+/**
+ * Identify the caller from the Supabase session; falls back to IP.
+ * Never trusts client-supplied ids.
+ */
+export async function getIdentifier(req: Request): Promise<RateLimitIdentity> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (user) {
+      return { identifier: `user:${user.id}`, plan: await getUserPlan(user) }
+    }
+  } catch {
+    // No request scope (cookies unavailable) — treat as anonymous
+  }
+  return { identifier: `ip:${getClientIp(req)}`, plan: 'anonymous' }
+}
+
+/**
+ * IETF RateLimit header fields (draft-ietf-httpapi-ratelimit-headers)
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.reset - Date.now()) / 1000))
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.interval / 1000)}`,
+  }
 }
 
-// Middleware wrapper
-export function withRateLimit(
-  handler: (req: Request) => Promise<Response>,
+/**
+ * Route wrapper: rejects over-limit callers with a 429 and adds RateLimit-*
+ * headers to the handler's response. Extra route arguments (e.g. dynamic
+ * params) are passed through.
+ */
+export function withRateLimit<Req extends Request, Args extends unknown[]>(
+  handler: (req: Req, ...args: Args) => Promise<Response>,
   limiter: RateLimiter = apiRateLimit
 ) {
-  return async (req: Request) => {
-    const identifier = getIdentifier(req)
-    const { success, remaining } = await limiter.limit(identifier)
+  return async (req: Req, ...args: Args): Promise<Response> => {
+    const identity = limiter === authRateLimit
+      ? { identifier: `ip:${getClientIp(req)}`, plan: 'anonymous' as UserPlan }
+      : await getIdentifier(req)
+    const result = await limiter.limit(identity)
+    const headers = getRateLimitHeaders(result)
 
-    if (!success) {
+    if (!result.success) {
       return new Response(
         JSON.stringify({
           error: 'Too many requests',
@@ -112,19 +255,22 @@ export function withRateLimit(
           status: 429,
           headers: {
             'Content-Type': 'application/json',
-            'X-RateLimit-Remaining': '0',
-            'Retry-After': '60',
+            ...headers,
+            'Retry-After': headers['RateLimit-Reset'],
           },
         }
       )
     }
 
-    const response = await handler(req)
-    
+    const response = await handler(req, ...args)
+
     // Add rate limit headers
-    response.headers.set('X-RateLimit-Remaining', remaining.toString())
-    
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value)
+    }
+
     return response
   }
 }
 
+export type { RateLimiter }
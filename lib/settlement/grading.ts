@@ -0,0 +1,321 @@
+/**
+ * Leg Grading & Payout Calculation
+ *
+ * Pure functions that turn final stats/scores into leg results and
+ * recompute a betslip's payout once every leg is graded.
+ *
+ * Grading rules:
+ * - Over/under props: over wins when actual > line, push when equal
+ * - Yes/no props (e.g. anytime HR): "yes" wins when actual >= 1
+ * - Moneyline: tie → push
+ * - Spread: team score + line vs opponent score, equal → push
+ * - Pushed or voided legs are dropped from a parlay (reduced leg count)
+ */
+
+import { americanToDecimal, decimalToAmerican } from "@/lib/ev/devig";
+import type {
+  EventResult,
+  GradableLeg,
+  LegGrade,
+  PayoutLeg,
+  PlayerStatLookup,
+  SlipSettlement,
+} from "./types";
+
+// =============================================================================
+// Market → stat mapping
+// =============================================================================
+
+/**
+ * Basketball (NBA/WNBA) markets → box score stat keys.
+ * Combo markets are summed from their components.
+ */
+const BASKETBALL_MARKET_STATS: Record<string, string[]> = {
+  player_points: ["pts"],
+  player_rebounds: ["reb"],
+  player_assists: ["ast"],
+  player_threes_made: ["fg3m"],
+  player_blocks: ["blk"],
+  player_steals: ["stl"],
+  player_turnovers: ["tov"],
+  player_pra: ["pts", "reb", "ast"],
+  player_points_rebounds_assists: ["pts", "reb", "ast"],
+  player_pr: ["pts", "reb"],
+  player_points_rebounds: ["pts", "reb"],
+  player_pa: ["pts", "ast"],
+  player_points_assists: ["pts", "ast"],
+  player_ra: ["reb", "ast"],
+  player_rebounds_assists: ["reb", "ast"],
+  player_bs: ["blk", "stl"],
+  player_blocks_steals: ["blk", "stl"],
+};
+
+/**
+ * MLB batter markets → batter game log stat keys.
+ */
+const MLB_BATTER_MARKET_STATS: Record<string, string[]> = {
+  player_hits: ["hits"],
+  player_home_runs: ["home_runs"],
+  player_total_bases: ["total_bases"],
+  player_rbis: ["rbi"],
+  player_rbi: ["rbi"],
+  player_runs: ["runs"],
+  player_runs_scored: ["runs"],
+  player_stolen_bases: ["stolen_bases"],
+  player_singles: ["singles"],
+  player_doubles: ["doubles"],
+  player_triples: ["triples"],
+  player_hits__runs__rbis: ["hits", "runs", "rbi"],
+  player_batting_strikeouts: ["strike_outs"],
+};
+
+/**
+ * MLB pitcher markets → pitcher game log stat keys.
+ * A pitcher with no appearance in the game is treated as scratched (void).
+ */
+const MLB_PITCHER_MARKET_STATS: Record<string, string[]> = {
+  player_strikeouts: ["strike_outs"],
+  pitcher_strikeouts: ["strike_outs"],
+  player_hits_allowed: ["hits_allowed"],
+  pitcher_hits_allowed: ["hits_allowed"],
+  player_earned_runs: ["earned_runs"],
+  pitcher_earned_runs: ["earned_runs"],
+  player_walks_allowed: ["base_on_balls"],
+  pitcher_walks: ["base_on_balls"],
+  pitcher_walks_allowed: ["base_on_balls"],
+  player_outs: ["outs"],
+  pitcher_outs: ["outs"],
+  pitcher_outs_recorded: ["outs"],
+};
+
+export function isMlbPitcherMarket(market: string): boolean {
+  return market in MLB_PITCHER_MARKET_STATS;
+}
+
+/**
+ * Stat keys that make up a player prop market, or null if unsupported.
+ */
+export function getMarketStatKeys(sport: string, market: string): string[] | null {
+  if (sport === "mlb") {
+    return MLB_PITCHER_MARKET_STATS[market] ?? MLB_BATTER_MARKET_STATS[market] ?? null;
+  }
+  if (sport === "nba" || sport === "wnba") {
+    return BASKETBALL_MARKET_STATS[market] ?? null;
+  }
+  return null;
+}
+
+type GameMarketKind = "moneyline" | "spread" | "total" | "home_total" | "away_total";
+
+/**
+ * Full-game markets we can grade from a final score.
+ * Period markets (1H, 1Q, F5, ...) need period scores and stay unsupported.
+ */
+const GAME_MARKET_KINDS: Record<string, GameMarketKind> = {
+  game_moneyline: "moneyline",
+  moneyline: "moneyline",
+  game_spread: "spread",
+  spread: "spread",
+  run_line: "spread",
+  game_total: "total",
+  total_points: "total",
+  total_runs: "total",
+  team_total_home_team: "home_total",
+  team_total_away_team: "away_total",
+};
+
+export function getGameMarketKind(market: string): GameMarketKind | null {
+  return GAME_MARKET_KINDS[market] ?? null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Leg we can't grade automatically; stays pending for manual settlement */
+const UNGRADEABLE: LegGrade = { result: "pending", actual_value: null, ungradeable: true };
+
+function normalizeTeam(name: string | null | undefined): string {
+  return (name || "").toLowerCase().replace(/[^a-z0-9 ]/g, "").trim();
+}
+
+/**
+ * Whether two team labels refer to the same team.
+ * Handles "Los Angeles Lakers" vs "Lakers" and "LA Lakers" style mismatches
+ * by falling back to the nickname (last word).
+ */
+export function teamsMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const na = normalizeTeam(a);
+  const nb = normalizeTeam(b);
+  if (!na || !nb) return false;
+  if (na === nb) return true;
+  const lastA = na.split(" ").pop();
+  const lastB = nb.split(" ").pop();
+  return !!lastA && lastA === lastB;
+}
+
+/**
+ * Resolve which team a game-line leg is on.
+ * Uses an explicit home/away side first, then matches the saved selection name.
+ */
+function resolveTeamSide(leg: GradableLeg): "home" | "away" | null {
+  const side = leg.side.toLowerCase();
+  if (side === "home" || side === "away") return side;
+  if (teamsMatch(leg.player_name, leg.home_team)) return "home";
+  if (teamsMatch(leg.player_name, leg.away_team)) return "away";
+  return null;
+}
+
+function gradeOverUnder(actual: number, line: number, side: string): LegGrade {
+  if (actual === line) return { result: "push", actual_value: actual };
+  const overHit = actual > line;
+  const isOver = side === "over" || side === "o";
+  return { result: overHit === isOver ? "won" : "lost", actual_value: actual };
+}
+
+function gradeYesNo(actual: number, side: string): LegGrade {
+  const hit = actual >= 1;
+  const isYes = side === "yes";
+  return { result: hit === isYes ? "won" : "lost", actual_value: actual };
+}
+
+// =============================================================================
+// Leg grading
+// =============================================================================
+
+/**
+ * Grade a player prop leg from the player's final stat line.
+ * Returns pending when the event isn't final or its stats aren't in yet.
+ */
+export function gradePlayerLeg(
+  leg: GradableLeg,
+  event: EventResult,
+  statLine: PlayerStatLookup
+): LegGrade {
+  if (event.postponed) {
+    return { result: "void", actual_value: null, void_reason: "postponed" };
+  }
+  if (!event.final || statLine === "pending") return { result: "pending", actual_value: null };
+
+  const statKeys = getMarketStatKeys(leg.sport, leg.market);
+  // Unknown market or player we couldn't map to a stats id
+  if (!statKeys || !statLine) return UNGRADEABLE;
+
+  if (!statLine.played) {
+    const reason = leg.sport === "mlb" && isMlbPitcherMarket(leg.market) ? "scratched" : "dnp";
+    return { result: "void", actual_value: null, void_reason: reason };
+  }
+
+  // Stat source doesn't carry this column (e.g. singles/doubles on older logs)
+  if (statKeys.some((key) => statLine.stats[key] === undefined)) return UNGRADEABLE;
+
+  const actual = statKeys.reduce((sum, key) => sum + statLine.stats[key], 0);
+  const side = leg.side.toLowerCase();
+
+  if (side === "yes" || side === "no") return gradeYesNo(actual, side);
+  // Over/under without a line (e.g. "to record a hit") → treat as 0.5
+  return gradeOverUnder(actual, leg.line ?? 0.5, side);
+}
+
+/**
+ * Grade a full-game line (moneyline, spread, total, team total) from the final score.
+ */
+export function gradeGameLeg(leg: GradableLeg, event: EventResult): LegGrade {
+  if (event.postponed) {
+    return { result: "void", actual_value: null, void_reason: "postponed" };
+  }
+  if (!event.final || event.home_score === null || event.away_score === null) {
+    return { result: "pending", actual_value: null };
+  }
+
+  const kind = getGameMarketKind(leg.market);
+  if (!kind) return UNGRADEABLE;
+
+  const { home_score, away_score } = event;
+  const side = leg.side.toLowerCase();
+
+  if (kind === "total") {
+    return gradeOverUnder(home_score + away_score, leg.line ?? 0, side);
+  }
+  if (kind === "home_total") return gradeOverUnder(home_score, leg.line ?? 0, side);
+  if (kind === "away_total") return gradeOverUnder(away_score, leg.line ?? 0, side);
+
+  const team = resolveTeamSide(leg);
+  if (!team) return UNGRADEABLE;
+
+  const teamScore = team === "home" ? home_score : away_score;
+  const oppScore = team === "home" ? away_score : home_score;
+  const margin = teamScore - oppScore;
+
+  if (kind === "moneyline") {
+    if (margin === 0) return { result: "push", actual_value: margin };
+    return { result: margin > 0 ? "won" : "lost", actual_value: margin };
+  }
+
+  // Spread: team covers when margin + line > 0
+  const covered = margin + (leg.line ?? 0);
+  if (covered === 0) return { result: "push", actual_value: margin };
+  return { result: covered > 0 ? "won" : "lost", actual_value: margin };
+}
+
+export function gradeLeg(
+  leg: GradableLeg,
+  event: EventResult,
+  statLine: PlayerStatLookup
+): LegGrade {
+  return leg.type === "player" ? gradePlayerLeg(leg, event, statLine) : gradeGameLeg(leg, event);
+}
+
+// =============================================================================
+// Slip settlement
+// =============================================================================
+
+/**
+ * Settle a betslip once its result is decided.
+ * Returns null while any leg is still pending and none has lost.
+ *
+ * - Any lost leg → slip lost, even with other legs pending or ungradeable
+ * - Pushed/voided legs are removed and the parlay is repriced on the rest
+ * - All legs pushed/voided → slip void (stake refunded)
+ *
+ * When no leg dropped out, the original placed odds are honored so SGP
+ * correlation pricing isn't lost. Otherwise the payout is the product of the
+ * remaining legs' individual prices, which is how books regrade reduced parlays.
+ */
+export function settleSlip(
+  legs: PayoutLeg[],
+  stake: number,
+  placedOdds: number | null
+): SlipSettlement | null {
+  if (legs.length === 0) return null;
+
+  if (legs.some((leg) => leg.result === "lost")) {
+    return { status: "lost", payout: 0, settled_odds: placedOdds, active_legs: legs.length };
+  }
+  if (legs.some((leg) => leg.result === "pending")) return null;
+
+  const activeLegs = legs.filter((leg) => leg.result === "won");
+  if (activeLegs.length === 0) {
+    return { status: "void", payout: stake, settled_odds: null, active_legs: 0 };
+  }
+
+  let decimal: number | null = null;
+  if (activeLegs.length === legs.length && placedOdds !== null) {
+    decimal = americanToDecimal(placedOdds);
+  } else if (activeLegs.every((leg) => leg.price !== null)) {
+    decimal = activeLegs.reduce((acc, leg) => acc * americanToDecimal(leg.price as number), 1);
+  }
+
+  // Missing leg prices after a reduction: fall back to a stake refund rather
+  // than guessing a payout.
+  if (decimal === null) {
+    return { status: "void", payout: stake, settled_odds: null, active_legs: activeLegs.length };
+  }
+
+  return {
+    status: "won",
+    payout: Math.round(stake * decimal * 100) / 100,
+    settled_odds: decimalToAmerican(decimal),
+    active_legs: activeLegs.length,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Bet Settlement Library
+ *
+ * Grades betslip legs against final box scores / game scores and settles
+ * placed betslips automatically.
+ *
+ * Usage:
+ * ```typescript
+ * import { settlePlacedBetslips } from "@/lib/settlement";
+ *
+ * const summary = await settlePlacedBetslips(createServerSupabaseClient());
+ * console.log(`${summary.slips_settled} slips settled`);
+ * ```
+ */
+
+// Types
+export type {
+  LegResult,
+  SettledSlipStatus,
+  VoidReason,
+  GradableLeg,
+  EventResult,
+  PlayerStatLine,
+  PlayerStatLookup,
+  LegGrade,
+  PayoutLeg,
+  SlipSettlement,
+} from "./types";
+
+// Grading
+export {
+  gradeLeg,
+  gradePlayerLeg,
+  gradeGameLeg,
+  settleSlip,
+  getMarketStatKeys,
+  getGameMarketKind,
+  isMlbPitcherMarket,
+  teamsMatch,
+} from "./grading";
+
+// Results providers
+export {
+  SettlementResultsProvider,
+  SETTLEMENT_SUPPORTED_SPORTS,
+  getLegGameDate,
+} from "./results";
+
+// Runner
+export { settlePlacedBetslips } from "./settle";
+export type { SettlementRunSummary } from "./settle";
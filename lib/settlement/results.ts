@@ -0,0 +1,302 @@
+/**
+ * Settlement Results Providers
+ *
+ * Resolves final scores and player stat lines from Supabase so legs can be
+ * graded. Lookups are memoized per settlement run since many legs share the
+ * same event or player.
+ *
+ * Sources:
+ * - NBA/WNBA scores: nba_games_hr / wnba_games_hr (matched by date + teams)
+ * - NBA/WNBA player stats: nba_player_box_scores / wnba_player_box_scores (by game_id)
+ * - MLB scores: mlb_games (matched by odds_game_id)
+ * - MLB player stats: get_mlb_batter_game_logs / get_mlb_pitcher_game_logs RPCs
+ *
+ * A player missing from a final game's stats only counts as a DNP once the
+ * game's stats have been ingested (any box score row for basketball, batted
+ * balls for MLB). Until then the lookup returns "pending" so ingestion lag
+ * can't void a leg.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { isMlbPitcherMarket, teamsMatch } from "./grading";
+import type { EventResult, GradableLeg, PlayerStatLookup } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const BASKETBALL_SPORTS = new Set(["nba", "wnba"]);
+/** Game logs requested per player; covers a full regular season */
+const MLB_GAME_LOG_LIMIT = 500;
+
+export const SETTLEMENT_SUPPORTED_SPORTS = new Set(["nba", "wnba", "mlb"]);
+
+const etDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "America/New_York",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * The ET calendar date a leg's game is played on.
+ * Prefers start_time since game_date is saved as a UTC date and can be a day
+ * ahead for late tips.
+ */
+export function getLegGameDate(leg: GradableLeg): string | null {
+  if (leg.start_time) {
+    const parsed = new Date(leg.start_time);
+    if (!Number.isNaN(parsed.getTime())) return etDateFormatter.format(parsed);
+  }
+  return leg.game_date;
+}
+
+function isFinalStatus(status: unknown): boolean {
+  if (status === 3) return true;
+  return String(status ?? "").toLowerCase().includes("final");
+}
+
+function isPostponedStatus(status: unknown): boolean {
+  const s = String(status ?? "").toLowerCase();
+  return s.includes("postponed") || s.includes("ppd") || s.includes("cancelled") || s.includes("canceled");
+}
+
+const PENDING_EVENT: EventResult = { final: false, home_score: null, away_score: null };
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class SettlementResultsProvider {
+  private eventCache = new Map<string, Promise<EventResult>>();
+  private playerIdCache = new Map<string, Promise<number | null>>();
+  private ingestedCache = new Map<string, Promise<boolean>>();
+  private statCache = new Map<string, Promise<PlayerStatLookup>>();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  getEventResult(leg: GradableLeg): Promise<EventResult> {
+    const key = `${leg.sport}:${leg.event_id}`;
+    let cached = this.eventCache.get(key);
+    if (!cached) {
+      cached = this.loadEventResult(leg).catch((error) => {
+        console.error(`[settlement] Event lookup failed for ${key}:`, error);
+        return PENDING_EVENT;
+      });
+      this.eventCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Stat line for a player leg in a final event (from getEventResult).
+   */
+  getPlayerStatLine(leg: GradableLeg, event: EventResult): Promise<PlayerStatLookup> {
+    const key = `${leg.sport}:${leg.event_id}:${leg.player_id}:${isMlbPitcherMarket(leg.market) ? "p" : "b"}`;
+    let cached = this.statCache.get(key);
+    if (!cached) {
+      cached = this.loadPlayerStatLine(leg, event.game_id ?? null).catch((error) => {
+        console.error(`[settlement] Stat lookup failed for ${key}:`, error);
+        return null;
+      });
+      this.statCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  private async loadEventResult(leg: GradableLeg): Promise<EventResult> {
+    if (leg.sport === "mlb") return this.loadMlbEvent(leg);
+    if (BASKETBALL_SPORTS.has(leg.sport)) return this.loadBasketballEvent(leg);
+    return PENDING_EVENT;
+  }
+
+  private async loadBasketballEvent(leg: GradableLeg): Promise<EventResult> {
+    const gameDate = getLegGameDate(leg);
+    if (!gameDate || !leg.home_team || !leg.away_team) return PENDING_EVENT;
+
+    const { data, error } = await this.supabase
+      .from(`${leg.sport}_games_hr`)
+      .select("game_id, home_team_name, away_team_name, home_team_score, away_team_score, game_status")
+      .eq("game_date", gameDate);
+
+    if (error) throw error;
+
+    const game = (data || []).find(
+      (row: any) => teamsMatch(row.home_team_name, leg.home_team) && teamsMatch(row.away_team_name, leg.away_team)
+    );
+    if (!game) return PENDING_EVENT;
+
+    return {
+      final: isFinalStatus(game.game_status),
+      postponed: isPostponedStatus(game.game_status),
+      home_score: game.home_team_score ?? null,
+      away_score: game.away_team_score ?? null,
+      game_id: game.game_id != null ? String(game.game_id) : null,
+    };
+  }
+
+  private async loadMlbEvent(leg: GradableLeg): Promise<EventResult> {
+    const { data, error } = await this.supabase
+      .from("mlb_games")
+      .select("game_id, home_score, away_score, status, status_detailed_state")
+      .eq("odds_game_id", leg.event_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return PENDING_EVENT;
+
+    const status = data.status_detailed_state || data.status;
+
+    return {
+      final: isFinalStatus(status) || String(status ?? "").toLowerCase() === "game over",
+      postponed: isPostponedStatus(status),
+      home_score: data.home_score ?? null,
+      away_score: data.away_score ?? null,
+      game_id: data.game_id != null ? String(data.game_id) : null,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Players
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Map an odds_player_id to the sport's stats player id.
+   */
+  private resolveStatsPlayerId(sport: string, oddsPlayerId: string): Promise<number | null> {
+    const key = `${sport}:${oddsPlayerId}`;
+    let cached = this.playerIdCache.get(key);
+    if (!cached) {
+      const idColumn = `${sport}_player_id`;
+      cached = (async () => {
+        const { data, error } = await this.supabase
+          .from(`${sport}_players_hr`)
+          .select(idColumn)
+          .eq("odds_player_id", oddsPlayerId)
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        const id = (data as Record<string, unknown> | null)?.[idColumn];
+        return typeof id === "number" ? id : id ? Number(id) : null;
+      })();
+      this.playerIdCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  private async loadPlayerStatLine(leg: GradableLeg, gameId: string | null): Promise<PlayerStatLookup> {
+    if (!leg.player_id || !gameId) return null;
+    const playerId = await this.resolveStatsPlayerId(leg.sport, leg.player_id);
+    if (!playerId) return null;
+
+    if (leg.sport === "mlb") return this.loadMlbStatLine(leg, gameId, playerId);
+    if (BASKETBALL_SPORTS.has(leg.sport)) return this.loadBasketballStatLine(leg, gameId, playerId);
+    return null;
+  }
+
+  /**
+   * Whether any stats for a game have landed yet.
+   */
+  private isGameIngested(sport: string, gameId: string): Promise<boolean> {
+    const key = `${sport}:${gameId}`;
+    let cached = this.ingestedCache.get(key);
+    if (!cached) {
+      const table = sport === "mlb" ? "mlb_batted_balls" : `${sport}_player_box_scores`;
+      cached = (async () => {
+        const { count, error } = await this.supabase
+          .from(table)
+          .select("game_id", { count: "exact", head: true })
+          .eq("game_id", gameId);
+        if (error) throw error;
+        return (count ?? 0) > 0;
+      })();
+      this.ingestedCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  /** No stats row for the player: DNP once the game is in, else wait */
+  private async missingStatLine(sport: string, gameId: string): Promise<PlayerStatLookup> {
+    return (await this.isGameIngested(sport, gameId)) ? { played: false, stats: {} } : "pending";
+  }
+
+  private async loadBasketballStatLine(leg: GradableLeg, gameId: string, playerId: number): Promise<PlayerStatLookup> {
+    const { data, error } = await this.supabase
+      .from(`${leg.sport}_player_box_scores`)
+      .select("minutes, pts, reb, ast, fg3m, blk, stl, tov")
+      .eq("game_id", gameId)
+      .eq("player_id", playerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return this.missingStatLine(leg.sport, gameId);
+
+    const minutes = Number(data.minutes ?? 0);
+    return {
+      played: Number.isFinite(minutes) && minutes > 0,
+      stats: {
+        pts: Number(data.pts ?? 0),
+        reb: Number(data.reb ?? 0),
+        ast: Number(data.ast ?? 0),
+        fg3m: Number(data.fg3m ?? 0),
+        blk: Number(data.blk ?? 0),
+        stl: Number(data.stl ?? 0),
+        tov: Number(data.tov ?? 0),
+      },
+    };
+  }
+
+  private async loadMlbStatLine(leg: GradableLeg, gameId: string, playerId: number): Promise<PlayerStatLookup> {
+    const isPitcher = isMlbPitcherMarket(leg.market);
+    const gameDate = getLegGameDate(leg);
+    const season = gameDate ? Number(gameDate.slice(0, 4)) : new Date().getFullYear();
+
+    const { data, error } = await this.supabase.rpc(
+      isPitcher ? "get_mlb_pitcher_game_logs" : "get_mlb_batter_game_logs",
+      {
+        p_player_id: playerId,
+        p_season: season,
+        p_limit: MLB_GAME_LOG_LIMIT,
+        p_include_prior: false,
+      }
+    );
+
+    if (error) throw error;
+
+    const row = (data || []).find((r: any) => String(r.game_id) === gameId);
+    // No log once the game is in = scratched pitcher / did not bat
+    if (!row) return this.missingStatLine("mlb", gameId);
+
+    if (isPitcher) {
+      const innings = Number(row.innings_numeric ?? 0);
+      return {
+        played: true,
+        stats: {
+          strike_outs: Number(row.strike_outs ?? 0),
+          hits_allowed: Number(row.hits_allowed ?? 0),
+          earned_runs: Number(row.earned_runs ?? 0),
+          base_on_balls: Number(row.base_on_balls ?? 0),
+          outs: Math.round(innings * 3),
+        },
+      };
+    }
+
+    const plateAppearances = Number(row.plate_appearances ?? 0);
+    const stats: Record<string, number> = {
+      hits: Number(row.hits ?? 0),
+      home_runs: Number(row.home_runs ?? 0),
+      runs: Number(row.runs ?? 0),
+      rbi: Number(row.rbi ?? 0),
+      total_bases: Number(row.total_bases ?? 0),
+      stolen_bases: Number(row.stolen_bases ?? 0),
+      strike_outs: Number(row.strike_outs ?? 0),
+    };
+    for (const key of ["singles", "doubles", "triples"]) {
+      if (row[key] !== undefined && row[key] !== null) stats[key] = Number(row[key]);
+    }
+
+    return { played: plateAppearances > 0, stats };
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Betslip Settlement Runner
+ *
+ * Grades every open leg on placed betslips and flips the slip to
+ * won/lost/void once all legs are decided. Called by the settle-betslips cron.
+ *
+ * Leg results are persisted on user_betslip_items as they finalize, so a
+ * parlay that spans several days settles progressively and a slip with a
+ * lost leg settles as soon as that leg is graded. Each run takes the least
+ * recently checked slips, so slips with legs that can never be auto-graded
+ * rotate to the back of the queue instead of blocking newer ones.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { gradeLeg, settleSlip } from "./grading";
+import { SettlementResultsProvider, SETTLEMENT_SUPPORTED_SPORTS } from "./results";
+import type { GradableLeg, LegGrade, LegResult, PayoutLeg } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+interface PlacedSlipItemRow {
+  id: string;
+  result: LegResult | null;
+  odds_snapshot: Record<string, { price: number }> | null;
+  favorite: (GradableLeg & {
+    id: string;
+    books_snapshot: Record<string, { price: number }> | null;
+    best_price_at_save: number | null;
+  }) | null;
+}
+
+interface PlacedSlipRow {
+  id: string;
+  stake_amount: number | null;
+  placed_odds: number | null;
+  placed_book: string | null;
+  items: PlacedSlipItemRow[] | null;
+}
+
+export interface SettlementRunSummary {
+  slips_checked: number;
+  legs_graded: number;
+  legs_ungradeable: number;
+  slips_settled: number;
+  by_status: { won: number; lost: number; void: number };
+  errors: number;
+}
+
+/**
+ * Price for a leg at the book the slip was placed with.
+ * Falls back to the best price when the favorite was saved.
+ */
+function getLegPrice(item: PlacedSlipItemRow, placedBook: string | null): number | null {
+  if (placedBook) {
+    const fromItem = item.odds_snapshot?.[placedBook]?.price;
+    if (typeof fromItem === "number") return fromItem;
+    const fromFavorite = item.favorite?.books_snapshot?.[placedBook]?.price;
+    if (typeof fromFavorite === "number") return fromFavorite;
+  }
+  return item.favorite?.best_price_at_save ?? null;
+}
+
+function isDecided(result: LegResult | null): boolean {
+  return result !== null && result !== "pending";
+}
+
+export async function settlePlacedBetslips(
+  supabase: SupabaseClient,
+  options: { limit?: number } = {}
+): Promise<SettlementRunSummary> {
+  const summary: SettlementRunSummary = {
+    slips_checked: 0,
+    legs_graded: 0,
+    legs_ungradeable: 0,
+    slips_settled: 0,
+    by_status: { won: 0, lost: 0, void: 0 },
+    errors: 0,
+  };
+
+  const { data, error } = await supabase
+    .from("user_betslips")
+    .select(`
+      id, stake_amount, placed_odds, placed_book,
+      items:user_betslip_items(
+        id, result, odds_snapshot,
+        favorite:user_favorites(
+          id, type, sport, event_id, game_date, start_time, home_team, away_team,
+          player_id, player_name, market, line, side, books_snapshot, best_price_at_save
+        )
+      )
+    `)
+    .eq("status", "placed")
+    .order("settlement_checked_at", { ascending: true, nullsFirst: true })
+    .order("placed_at", { ascending: true })
+    .limit(options.limit ?? 500);
+
+  if (error) throw error;
+
+  const slips = (data || []) as unknown as PlacedSlipRow[];
+  const provider = new SettlementResultsProvider(supabase);
+  const now = new Date().toISOString();
+
+  // Stamp the batch up front so a run that times out still moves on to
+  // other slips next time
+  if (slips.length > 0) {
+    const { error: stampError } = await supabase
+      .from("user_betslips")
+      .update({ settlement_checked_at: now })
+      .in("id", slips.map((slip) => slip.id));
+    if (stampError) {
+      console.error("[settlement] Failed to stamp checked slips:", stampError);
+      summary.errors++;
+    }
+  }
+
+  for (const slip of slips) {
+    summary.slips_checked++;
+    const items = slip.items || [];
+    if (items.length === 0) continue;
+
+    const payoutLegs: PayoutLeg[] = [];
+
+    for (const item of items) {
+      const price = getLegPrice(item, slip.placed_book);
+
+      if (isDecided(item.result)) {
+        payoutLegs.push({ result: item.result as LegResult, price });
+        continue;
+      }
+
+      const fav = item.favorite;
+      // Legs whose favorite was deleted or whose sport we can't grade stay pending
+      if (!fav || !SETTLEMENT_SUPPORTED_SPORTS.has(fav.sport)) {
+        summary.legs_ungradeable++;
+        payoutLegs.push({ result: "pending", price });
+        continue;
+      }
+
+      let grade: LegGrade;
+      try {
+        const event = await provider.getEventResult(fav);
+        const statLine = fav.type === "player" && event.final ? await provider.getPlayerStatLine(fav, event) : null;
+        grade = gradeLeg({ ...fav, favorite_id: fav.id }, event, statLine);
+      } catch (err) {
+        console.error(`[settlement] Failed to grade item ${item.id}:`, err);
+        summary.errors++;
+        payoutLegs.push({ result: "pending", price });
+        continue;
+      }
+
+      if (grade.ungradeable) summary.legs_ungradeable++;
+      payoutLegs.push({ result: grade.result, price });
+      if (grade.result === "pending") continue;
+
+      const { error: itemError } = await supabase
+        .from("user_betslip_items")
+        .update({
+          result: grade.result,
+          actual_value: grade.actual_value,
+          void_reason: grade.void_reason ?? null,
+          graded_at: now,
+        })
+        .eq("id", item.id);
+
+      if (itemError) {
+        console.error(`[settlement] Failed to save grade for item ${item.id}:`, itemError);
+        summary.errors++;
+        continue;
+      }
+      summary.legs_graded++;
+    }
+
+    const settlement = settleSlip(payoutLegs, Number(slip.stake_amount ?? 0), slip.placed_odds);
+    if (!settlement) continue;
+
+    const { error: slipError } = await supabase
+      .from("user_betslips")
+      .update({
+        status: settlement.status,
+        settled_at: now,
+        settled_payout: settlement.payout,
+        settled_odds: settlement.settled_odds,
+        auto_settled: true,
+      })
+      .eq("id", slip.id)
+      .eq("status", "placed");
+
+    if (slipError) {
+      console.error(`[settlement] Failed to settle betslip ${slip.id}:`, slipError);
+      summary.errors++;
+      continue;
+    }
+
+    summary.slips_settled++;
+    summary.by_status[settlement.status]++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,95 @@
+/**
+ * Settlement Types
+ *
+ * Shared types for grading betslip legs and settling placed betslips.
+ */
+
+/** Outcome of a single graded leg */
+export type LegResult = "pending" | "won" | "lost" | "push" | "void";
+
+/** Final status of a settled betslip (mirrors Betslip["status"]) */
+export type SettledSlipStatus = "won" | "lost" | "void";
+
+/** Reason a leg was voided rather than graded */
+export type VoidReason =
+  | "dnp" // Player did not play / recorded no minutes
+  | "scratched" // Starting pitcher scratched before first pitch
+  | "postponed"; // Game postponed, suspended or cancelled
+
+/**
+ * The subset of a favorite needed to grade a leg.
+ * Mirrors columns on user_favorites.
+ */
+export interface GradableLeg {
+  favorite_id: string;
+  type: "player" | "game";
+  sport: string;
+  event_id: string;
+  game_date: string | null;
+  start_time: string | null;
+  home_team: string | null;
+  away_team: string | null;
+  player_id: string | null;
+  player_name: string | null;
+  market: string;
+  line: number | null;
+  side: string;
+}
+
+/**
+ * Final state of an event as resolved by a results provider.
+ * `final: false` means the event has not finished and legs stay pending.
+ */
+export interface EventResult {
+  final: boolean;
+  postponed?: boolean;
+  home_score: number | null;
+  away_score: number | null;
+  /** The stats source's game id, used to look up box score rows */
+  game_id?: string | null;
+}
+
+/**
+ * A player's final stat line for one game.
+ * `played: false` means the player was on the roster but recorded no action
+ * (DNP for basketball, no plate appearance / scratched pitcher for MLB).
+ */
+export interface PlayerStatLine {
+  played: boolean;
+  stats: Record<string, number>;
+}
+
+/**
+ * Result of a stat lookup: the stat line, "pending" while the game is final
+ * but its stats haven't been ingested yet, or null when the player or game
+ * can't be mapped to the stats source.
+ */
+export type PlayerStatLookup = PlayerStatLine | "pending" | null;
+
+/** Graded outcome for one leg */
+export interface LegGrade {
+  result: LegResult;
+  /** Actual stat or score value the line was graded against */
+  actual_value: number | null;
+  void_reason?: VoidReason;
+  /** Market/selection we can't grade automatically (left for manual settlement) */
+  ungradeable?: boolean;
+}
+
+/** Per-leg input for payout calculation */
+export interface PayoutLeg {
+  result: LegResult;
+  /** American odds for this leg at the placed book (null when unknown) */
+  price: number | null;
+}
+
+/** Result of settling a full betslip */
+export interface SlipSettlement {
+  status: SettledSlipStatus;
+  /** Total returned to the bettor (stake included); 0 for a loss */
+  payout: number;
+  /** Effective American odds after dropping pushed/voided legs */
+  settled_odds: number | null;
+  /** Number of legs that counted toward the payout */
+  active_legs: number;
+}
@@ -0,0 +1,310 @@
+/**
+ * Gaussian Copula
+ *
+ * Joint hit probability for a set of correlated binary legs. Each leg is a
+ * latent standard normal that "hits" below its threshold Φ⁻¹(p), and legs
+ * are tied together by a latent correlation matrix. Two legs are priced in
+ * closed form (bivariate normal CDF); three or more are simulated with a
+ * seeded Monte Carlo so the same parlay always prices the same.
+ */
+
+import { normalCDF, normalInverseCDF } from "@/lib/ev/devig";
+
+const MAX_ABS_CORRELATION = 0.99;
+const DEFAULT_SIMULATIONS = 50_000;
+const DEFAULT_SEED = 0x5eed;
+
+// Gauss-Legendre nodes/weights (half-interval) for the Genz BVN integration
+const GL_6 = {
+  w: [0.1713244923791705, 0.3607615730481384, 0.4679139345726904],
+  x: [0.9324695142031522, 0.6612093864662647, 0.238619186083197],
+};
+const GL_12 = {
+  w: [
+    0.04717533638651177, 0.1069393259953183, 0.1600783285433464,
+    0.2031674267230659, 0.2334925365383547, 0.2491470458134029,
+  ],
+  x: [
+    0.9815606342467191, 0.904117256370475, 0.769902674194305,
+    0.5873179542866171, 0.3678314989981802, 0.1252334085114692,
+  ],
+};
+const GL_20 = {
+  w: [
+    0.01761400713915212, 0.04060142980038694, 0.06267204833410906,
+    0.08327674157670475, 0.1019301198172404, 0.1181945319615184,
+    0.1316886384491766, 0.1420961093183821, 0.1491729864726037,
+    0.1527533871307259,
+  ],
+  x: [
+    0.9931285991850949, 0.9639719272779138, 0.9122344282513259,
+    0.8391169718222188, 0.7463319064601508, 0.636053680726515,
+    0.5108670019508271, 0.3737060887154196, 0.2277858511416451,
+    0.07652652113349733,
+  ],
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * P(X > h, Y > k) for standard bivariate normals with correlation r.
+ * Port of Alan Genz's BVNU (Drezner-Wesolowsky with Gauss-Legendre).
+ */
+function bivariateNormalUpper(h: number, k: number, r: number): number {
+  if (h === Infinity || k === Infinity) return 0;
+  if (h === -Infinity) return k === -Infinity ? 1 : normalCDF(-k);
+  if (k === -Infinity) return normalCDF(-h);
+  if (r === 0) return normalCDF(-h) * normalCDF(-k);
+
+  const tp = 2 * Math.PI;
+  const absR = Math.abs(r);
+  const gl = absR < 0.3 ? GL_6 : absR < 0.75 ? GL_12 : GL_20;
+  // Mirror the half-interval nodes onto (0, 2)
+  const xs = [...gl.x.map((x) => 1 - x), ...gl.x.map((x) => 1 + x)];
+  const ws = [...gl.w, ...gl.w];
+  let hk = h * k;
+  let bvn = 0;
+
+  if (absR < 0.925) {
+    const hs = (h * h + k * k) / 2;
+    const asr = Math.asin(r) / 2;
+    for (let i = 0; i < xs.length; i++) {
+      const sn = Math.sin(asr * xs[i]);
+      bvn += ws[i] * Math.exp((sn * hk - hs) / (1 - sn * sn));
+    }
+    bvn = (bvn * asr) / tp + normalCDF(-h) * normalCDF(-k);
+    return clamp(bvn, 0, 1);
+  }
+
+  if (r < 0) {
+    k = -k;
+    hk = -hk;
+  }
+
+  if (absR < 1) {
+    const as = 1 - r * r;
+    let a = Math.sqrt(as);
+    const bs = (h - k) ** 2;
+    const c = (4 - hk) / 8;
+    const d = (12 - hk) / 80;
+    let asr = -(bs / as + hk) / 2;
+    if (asr > -100) {
+      bvn = a * Math.exp(asr) * (1 - (c * (bs - as) * (1 - d * bs)) / 3 + c * d * as * as);
+    }
+    if (hk > -100) {
+      const b = Math.sqrt(bs);
+      const sp = Math.sqrt(tp) * normalCDF(-b / a);
+      bvn -= Math.exp(-hk / 2) * sp * b * (1 - (c * bs * (1 - d * bs)) / 3);
+    }
+    a /= 2;
+    let sum = 0;
+    for (let i = 0; i < xs.length; i++) {
+      const x2 = (a * xs[i]) ** 2;
+      asr = -(bs / x2 + hk) / 2;
+      if (asr <= -100) continue;
+      const sp = 1 + c * x2 * (1 + 5 * d * x2);
+      const rs = Math.sqrt(1 - x2);
+      const ep = Math.exp((-(hk / 2) * x2) / (1 + rs) ** 2) / rs;
+      sum += ws[i] * Math.exp(asr) * (sp - ep);
+    }
+    bvn = (a * sum - bvn) / tp;
+  }
+
+  if (r > 0) {
+    bvn += normalCDF(-Math.max(h, k));
+  } else if (h >= k) {
+    bvn = -bvn;
+  } else {
+    const l = h < 0 ? normalCDF(k) - normalCDF(h) : normalCDF(-h) - normalCDF(-k);
+    bvn = l - bvn;
+  }
+  return clamp(bvn, 0, 1);
+}
+
+/**
+ * P(X ≤ h, Y ≤ k) for standard bivariate normals with correlation rho.
+ */
+export function bivariateNormalCDF(h: number, k: number, rho: number): number {
+  return bivariateNormalUpper(-h, -k, clamp(rho, -1, 1));
+}
+
+/**
+ * Joint hit probability of two legs under a Gaussian copula.
+ */
+export function pairJointProbability(pA: number, pB: number, rho: number): number {
+  if (pA <= 0 || pB <= 0) return 0;
+  if (pA >= 1) return pB;
+  if (pB >= 1) return pA;
+  return bivariateNormalCDF(normalInverseCDF(pA), normalInverseCDF(pB), rho);
+}
+
+/**
+ * Latent correlation that reproduces an observed joint hit rate.
+ *
+ * Inverts pairJointProbability by bisection (it is monotonic in rho). The
+ * joint is clamped to its Fréchet bounds first so noisy samples still map
+ * to a valid correlation.
+ */
+export function impliedLatentCorrelation(pA: number, pB: number, pAB: number): number {
+  if (!(pA > 0 && pA < 1 && pB > 0 && pB < 1)) return 0;
+  const target = clamp(pAB, Math.max(0, pA + pB - 1), Math.min(pA, pB));
+
+  let lo = -MAX_ABS_CORRELATION;
+  let hi = MAX_ABS_CORRELATION;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (pairJointProbability(pA, pB, mid) < target) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix.
+ *
+ * Pairwise estimates from different sources need not form a valid
+ * (positive definite) matrix, so off-diagonals are shrunk toward zero
+ * until the factorization succeeds.
+ */
+export function choleskyCorrelation(matrix: number[][]): { factor: number[][]; shrinkage: number } {
+  const n = matrix.length;
+  let shrinkage = 1;
+
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const factor = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    let ok = true;
+
+    for (let i = 0; i < n && ok; i++) {
+      for (let j = 0; j <= i; j++) {
+        const target = i === j ? 1 : matrix[i][j] * shrinkage;
+        let sum = target;
+        for (let k = 0; k < j; k++) sum -= factor[i][k] * factor[j][k];
+
+        if (i === j) {
+          if (sum <= 1e-10) {
+            ok = false;
+            break;
+          }
+          factor[i][j] = Math.sqrt(sum);
+        } else {
+          factor[i][j] = sum / factor[j][j];
+        }
+      }
+    }
+
+    if (ok) return { factor, shrinkage };
+    shrinkage *= 0.9;
+  }
+
+  // Fully shrunk: independent legs
+  return {
+    factor: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))),
+    shrinkage: 0,
+  };
+}
+
+/** mulberry32 — small deterministic PRNG for reproducible simulations */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormalSampler(seed: number): () => number {
+  const rng = createRng(seed);
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    // Box-Muller; guard against log(0)
+    const u = Math.max(rng(), Number.EPSILON);
+    const v = rng();
+    const mag = Math.sqrt(-2 * Math.log(u));
+    spare = mag * Math.sin(2 * Math.PI * v);
+    return mag * Math.cos(2 * Math.PI * v);
+  };
+}
+
+export interface JointProbabilityResult {
+  /** Correlated probability that every leg hits (0-1) */
+  jointProb: number;
+  /** Product of leg probabilities (no correlation) */
+  independentProb: number;
+  method: "closed_form" | "simulation";
+  simulations: number;
+  /** Factor applied to off-diagonals to make the matrix positive definite (1 = untouched) */
+  shrinkage: number;
+}
+
+/**
+ * Joint probability that every leg hits.
+ *
+ * @param probs Fair hit probability per leg
+ * @param correlations Symmetric latent correlation matrix (diagonal ignored)
+ */
+export function estimateJointProbability(
+  probs: number[],
+  correlations: number[][],
+  options: { simulations?: number; seed?: number } = {}
+): JointProbabilityResult {
+  const independentProb = probs.reduce((acc, p) => acc * p, 1);
+
+  if (probs.length <= 1) {
+    return { jointProb: independentProb, independentProb, method: "closed_form", simulations: 0, shrinkage: 1 };
+  }
+
+  if (probs.length === 2) {
+    const rho = clamp(correlations[0][1], -MAX_ABS_CORRELATION, MAX_ABS_CORRELATION);
+    return {
+      jointProb: pairJointProbability(probs[0], probs[1], rho),
+      independentProb,
+      method: "closed_form",
+      simulations: 0,
+      shrinkage: 1,
+    };
+  }
+
+  const n = probs.length;
+  const clamped = correlations.map((row, i) =>
+    row.map((value, j) => (i === j ? 1 : clamp(value, -MAX_ABS_CORRELATION, MAX_ABS_CORRELATION)))
+  );
+  const { factor, shrinkage } = choleskyCorrelation(clamped);
+  const thresholds = probs.map((p) => normalInverseCDF(clamp(p, 1e-9, 1 - 1e-9)));
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const sample = createNormalSampler(options.seed ?? DEFAULT_SEED);
+  const z = new Array<number>(n);
+
+  let hits = 0;
+  for (let s = 0; s < simulations; s++) {
+    for (let i = 0; i < n; i++) z[i] = sample();
+
+    let allHit = true;
+    for (let i = 0; i < n && allHit; i++) {
+      let latent = 0;
+      for (let k = 0; k <= i; k++) latent += factor[i][k] * z[k];
+      allHit = latent <= thresholds[i];
+    }
+    if (allHit) hits++;
+  }
+
+  return {
+    jointProb: hits / simulations,
+    independentProb,
+    method: "simulation",
+    simulations,
+    shrinkage,
+  };
+}
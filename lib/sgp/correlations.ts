@@ -0,0 +1,503 @@
+/**
+ * SGP Leg Correlations
+ *
+ * Latent (Gaussian copula) correlations between the legs of a same-game
+ * parlay, estimated from the same data behind the correlation tools:
+ *
+ * - NBA teammates: get_player_correlations_v6 game logs (/api/nba/player-correlations)
+ * - MLB teammates: get_game_correlations teammate_props rows (/api/mlb/correlations/teammate-props)
+ * - MLB lineup neighbours: get_lineup_chain_correlations (/api/mlb/correlations/lineup-chain)
+ * - Same player, different markets: stat-overlap priors
+ *
+ * Every estimate is computed for the "over" direction of both legs and then
+ * flipped per side, since an under is the complement of its over. Historical
+ * estimates are shrunk toward zero by sample size; pairs with no data
+ * (opponents, game lines) stay independent.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { getMarketStatKeys } from "@/lib/settlement/grading";
+import { normalizePlayerName } from "@/lib/odds/types";
+import { impliedLatentCorrelation } from "./copula";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+export interface CorrelationLeg {
+  sport: string | null;
+  event_id: string;
+  market: string;
+  line: number | null;
+  side: string;
+  player_id: string | null;
+  player_name: string | null;
+}
+
+export type CorrelationSource =
+  | "nba_game_logs"
+  | "mlb_teammate_props"
+  | "mlb_lineup_chain"
+  | "same_player_prior"
+  | "none";
+
+export interface PairCorrelation {
+  /** Leg indexes (i < j) */
+  i: number;
+  j: number;
+  /** Latent correlation between the legs as bet (side-adjusted) */
+  rho: number;
+  source: CorrelationSource;
+  /** Games behind a historical estimate */
+  sample: number | null;
+}
+
+// Pseudo-games of "no correlation" blended into every historical estimate
+const SHRINKAGE_GAMES = 12;
+const MIN_SAMPLE_GAMES = 8;
+const NBA_LAST_N_GAMES = 30;
+
+const SIDE_SIGN: Record<string, number> = { over: 1, yes: 1, under: -1, no: -1 };
+
+/**
+ * Same-player priors for markets that share no box score stat but move
+ * together (or against each other). Keyed by sorted stat keys.
+ */
+const SAME_PLAYER_PAIR_PRIORS: Record<string, number> = {
+  "hits|total_bases": 0.75,
+  "home_runs|total_bases": 0.7,
+  "home_runs|rbi": 0.6,
+  "home_runs|runs": 0.55,
+  "rbi|total_bases": 0.55,
+  "runs|total_bases": 0.45,
+  "hits|rbi": 0.4,
+  "hits|runs": 0.4,
+  "rbi|runs": 0.35,
+  "earned_runs|hits_allowed": 0.6,
+  "outs|strike_outs": 0.45,
+  "earned_runs|outs": -0.45,
+  "hits_allowed|outs": -0.2,
+};
+const SAME_PLAYER_DEFAULT_PRIOR: Record<string, number> = { nba: 0.15, wnba: 0.15, mlb: 0.2 };
+
+/**
+ * Odds market → market keys used by the MLB correlation RPCs
+ */
+const MLB_CORRELATION_MARKETS: Record<string, string[]> = {
+  player_hits: ["hits"],
+  player_home_runs: ["home_runs", "hr"],
+  player_total_bases: ["total_bases", "tb"],
+  player_rbis: ["rbi", "rbis"],
+  player_rbi: ["rbi", "rbis"],
+  player_runs: ["runs"],
+  player_runs_scored: ["runs"],
+  player_stolen_bases: ["stolen_bases", "sb"],
+  player_strikeouts: ["strikeouts", "pitcher_k"],
+  pitcher_strikeouts: ["strikeouts", "pitcher_k"],
+  player_hits_allowed: ["hits_allowed", "pitcher_h"],
+  pitcher_hits_allowed: ["hits_allowed", "pitcher_h"],
+  player_earned_runs: ["earned_runs", "pitcher_er"],
+  pitcher_earned_runs: ["earned_runs", "pitcher_er"],
+};
+
+/**
+ * Lineup-chain link types → the (A, B) odds markets they describe.
+ * "On base" has no market of its own; hits is the closest priced proxy.
+ */
+const LINEUP_CHAIN_MARKETS: Record<string, [string[], string[]]> = {
+  a_hit_b_run: [["player_hits"], ["player_runs", "player_runs_scored"]],
+  a_onbase_b_rbi: [["player_hits"], ["player_rbis", "player_rbi"]],
+};
+
+interface MlbTeammatePropRow {
+  correlation_type: string;
+  player_a_id: number;
+  player_a_market: string;
+  player_a_threshold: number;
+  player_b_id: number | null;
+  player_b_market: string | null;
+  player_b_threshold: number | null;
+  sample_size: number;
+  both_hit_count: number;
+}
+
+interface MlbLineupChainRow {
+  player_a_id: number;
+  player_b_id: number;
+  correlation_type: string;
+  co_occurrence_pct: number;
+  games_together: number;
+}
+
+interface NbaCorrelationGameLog {
+  anchor_hit: boolean;
+  stats: Record<string, number>;
+}
+
+interface NbaCorrelationPayload {
+  teammate_correlations?: Array<{ player_id: number; game_logs?: NbaCorrelationGameLog[] }>;
+}
+
+function sideSign(leg: CorrelationLeg): number {
+  return SIDE_SIGN[(leg.side || "").toLowerCase()] ?? 0;
+}
+
+function isPlayerLeg(leg: CorrelationLeg): boolean {
+  return Boolean(leg.player_id || leg.player_name) && sideSign(leg) !== 0 && leg.line !== null;
+}
+
+function samePlayer(a: CorrelationLeg, b: CorrelationLeg): boolean {
+  if (a.player_id && b.player_id) return a.player_id === b.player_id;
+  const nameA = normalizePlayerName(a.player_name || "");
+  return Boolean(nameA) && nameA === normalizePlayerName(b.player_name || "");
+}
+
+/** Probability of the over for a leg priced at `fairProb` on its own side */
+function overProb(leg: CorrelationLeg, fairProb: number): number {
+  return sideSign(leg) > 0 ? fairProb : 1 - fairProb;
+}
+
+/** Integer threshold ("2+ hits") an over line corresponds to */
+function overThreshold(line: number): number {
+  return Math.floor(line) + 1;
+}
+
+function shrink(rho: number, sample: number): number {
+  return (rho * sample) / (sample + SHRINKAGE_GAMES);
+}
+
+function currentNbaSeason(now: Date): string {
+  const year = now.getUTCFullYear();
+  // Season rolls over in October
+  const start = now.getUTCMonth() >= 9 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Stat-overlap prior for two markets on the same player.
+ * Markets sharing stats (points vs PRA) correlate by their cosine overlap;
+ * disjoint markets fall back to known pairings or a shared-minutes prior.
+ */
+export function samePlayerPrior(sport: string, marketA: string, marketB: string): number {
+  const keysA = getMarketStatKeys(sport, marketA);
+  const keysB = getMarketStatKeys(sport, marketB);
+  const fallback = SAME_PLAYER_DEFAULT_PRIOR[sport] ?? 0.15;
+  if (!keysA || !keysB) return fallback;
+
+  const shared = keysA.filter((key) => keysB.includes(key)).length;
+  if (shared > 0) {
+    return 0.25 + 0.65 * (shared / Math.sqrt(keysA.length * keysB.length));
+  }
+  if (keysA.length === 1 && keysB.length === 1) {
+    const pairKey = [keysA[0], keysB[0]].sort().join("|");
+    if (pairKey in SAME_PLAYER_PAIR_PRIORS) return SAME_PLAYER_PAIR_PRIORS[pairKey];
+  }
+  return fallback;
+}
+
+// =============================================================================
+// Loader
+// =============================================================================
+
+/**
+ * Memoized Supabase lookups for one pricing request
+ */
+class CorrelationDataLoader {
+  private playerIdCache = new Map<string, Promise<number | null>>();
+  private mlbGameCache = new Map<string, Promise<{ game_id: number; home_id: number; away_id: number } | null>>();
+  private mlbTeammateCache = new Map<number, Promise<MlbTeammatePropRow[]>>();
+  private mlbChainCache = new Map<string, Promise<MlbLineupChainRow[]>>();
+  private nbaCache = new Map<string, Promise<NbaCorrelationPayload | null>>();
+
+  constructor(private supabase: SupabaseClient, private now: Date) {}
+
+  /** odds_player_id → stats player id (same mapping settlement uses) */
+  resolveStatsPlayerId(sport: string, oddsPlayerId: string): Promise<number | null> {
+    const key = `${sport}:${oddsPlayerId}`;
+    let cached = this.playerIdCache.get(key);
+    if (!cached) {
+      const idColumn = `${sport}_player_id`;
+      cached = (async () => {
+        const { data, error } = await this.supabase
+          .from(`${sport}_players_hr`)
+          .select(idColumn)
+          .eq("odds_player_id", oddsPlayerId)
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        const id = (data as Record<string, unknown> | null)?.[idColumn];
+        return typeof id === "number" ? id : id ? Number(id) : null;
+      })();
+      this.playerIdCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  getMlbGame(eventId: string) {
+    let cached = this.mlbGameCache.get(eventId);
+    if (!cached) {
+      cached = (async () => {
+        const { data, error } = await this.supabase
+          .from("mlb_games")
+          .select("game_id, home_id, away_id")
+          .eq("odds_game_id", eventId)
+          .maybeSingle();
+        if (error) throw error;
+        return data ? { game_id: Number(data.game_id), home_id: Number(data.home_id), away_id: Number(data.away_id) } : null;
+      })();
+      this.mlbGameCache.set(eventId, cached);
+    }
+    return cached;
+  }
+
+  getMlbTeammateProps(gameId: number): Promise<MlbTeammatePropRow[]> {
+    let cached = this.mlbTeammateCache.get(gameId);
+    if (!cached) {
+      cached = (async () => {
+        const { data, error } = await this.supabase.rpc("get_game_correlations", {
+          p_game_id: gameId,
+          p_min_sample: MIN_SAMPLE_GAMES,
+          p_min_co_occurrence: 0,
+        });
+        if (error) throw error;
+        return ((data ?? []) as MlbTeammatePropRow[]).filter((row) => row.correlation_type === "teammate_props");
+      })();
+      this.mlbTeammateCache.set(gameId, cached);
+    }
+    return cached;
+  }
+
+  getMlbLineupChain(gameId: number, teamId: number): Promise<MlbLineupChainRow[]> {
+    const key = `${gameId}:${teamId}`;
+    let cached = this.mlbChainCache.get(key);
+    if (!cached) {
+      cached = (async () => {
+        const { data, error } = await this.supabase.rpc("get_lineup_chain_correlations", {
+          p_game_id: gameId,
+          p_team_id: teamId,
+        });
+        if (error) throw error;
+        return (data ?? []) as MlbLineupChainRow[];
+      })();
+      this.mlbChainCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  getNbaCorrelations(playerId: number, market: string, line: number): Promise<NbaCorrelationPayload | null> {
+    const key = `${playerId}:${market}:${line}`;
+    let cached = this.nbaCache.get(key);
+    if (!cached) {
+      cached = (async () => {
+        const { data, error } = await this.supabase.rpc("get_player_correlations_v6", {
+          p_player_id: playerId,
+          p_market: market,
+          p_line: line,
+          p_last_n_games: NBA_LAST_N_GAMES,
+          p_season: currentNbaSeason(this.now),
+          p_game_id: null,
+          p_game_log_limit: NBA_LAST_N_GAMES,
+        });
+        if (error) throw error;
+        return (data ?? null) as NbaCorrelationPayload | null;
+      })();
+      this.nbaCache.set(key, cached);
+    }
+    return cached;
+  }
+}
+
+// =============================================================================
+// Estimators (over/over direction)
+// =============================================================================
+
+/**
+ * NBA teammates: joint over-hit rate straight from the anchor's game logs.
+ */
+async function estimateNbaPair(
+  loader: CorrelationDataLoader,
+  a: CorrelationLeg,
+  b: CorrelationLeg
+): Promise<{ rho: number; sample: number } | null> {
+  if (!a.player_id || !b.player_id || a.line === null || b.line === null) return null;
+  const statKeysB = getMarketStatKeys("nba", b.market);
+  if (!statKeysB) return null;
+
+  const [idA, idB] = await Promise.all([
+    loader.resolveStatsPlayerId("nba", a.player_id),
+    loader.resolveStatsPlayerId("nba", b.player_id),
+  ]);
+  if (!idA || !idB) return null;
+
+  const payload = await loader.getNbaCorrelations(idA, a.market, a.line);
+  const teammate = payload?.teammate_correlations?.find((tc) => Number(tc.player_id) === idB);
+  const logs = teammate?.game_logs ?? [];
+  if (logs.length < MIN_SAMPLE_GAMES) return null;
+
+  let hitsA = 0;
+  let hitsB = 0;
+  let both = 0;
+  for (const log of logs) {
+    const statB = statKeysB.reduce((sum, key) => sum + Number(log.stats?.[key] ?? 0), 0);
+    const hitB = statB > b.line;
+    if (log.anchor_hit) hitsA++;
+    if (hitB) hitsB++;
+    if (log.anchor_hit && hitB) both++;
+  }
+
+  // Laplace smoothing keeps 0/n and n/n samples off the boundary
+  const n = logs.length;
+  const pA = (hitsA + 0.5) / (n + 1);
+  const pB = (hitsB + 0.5) / (n + 1);
+  const pAB = (both + 0.25) / (n + 1);
+  return { rho: shrink(impliedLatentCorrelation(pA, pB, pAB), n), sample: n };
+}
+
+/**
+ * MLB teammates: P(B | A) from teammate_props (falling back to lineup-chain
+ * links), anchored on the market's fair over probabilities.
+ */
+async function estimateMlbPair(
+  loader: CorrelationDataLoader,
+  a: CorrelationLeg,
+  b: CorrelationLeg,
+  pOverA: number,
+  pOverB: number
+): Promise<{ rho: number; sample: number; source: CorrelationSource } | null> {
+  if (!a.player_id || !b.player_id || a.line === null || b.line === null) return null;
+
+  const [game, idA, idB] = await Promise.all([
+    loader.getMlbGame(a.event_id),
+    loader.resolveStatsPlayerId("mlb", a.player_id),
+    loader.resolveStatsPlayerId("mlb", b.player_id),
+  ]);
+  if (!game || !idA || !idB) return null;
+
+  const fromConditional = (conditional: number, sample: number, pA: number, pB: number) => {
+    // Blend the observed conditional with "independent" (P(B|A) = P(B))
+    const smoothed = (conditional * sample + pB * SHRINKAGE_GAMES) / (sample + SHRINKAGE_GAMES);
+    return impliedLatentCorrelation(pA, pB, pA * smoothed);
+  };
+
+  const marketsA = MLB_CORRELATION_MARKETS[a.market] ?? [];
+  const marketsB = MLB_CORRELATION_MARKETS[b.market] ?? [];
+  const thresholdA = overThreshold(a.line);
+  const thresholdB = overThreshold(b.line);
+
+  const props = await loader.getMlbTeammateProps(game.game_id);
+  for (const row of props) {
+    if (!row.player_b_id || !row.player_b_market || row.player_b_threshold === null || row.sample_size <= 0) continue;
+
+    const forward =
+      row.player_a_id === idA && row.player_b_id === idB &&
+      marketsA.includes(row.player_a_market) && marketsB.includes(row.player_b_market) &&
+      row.player_a_threshold === thresholdA && row.player_b_threshold === thresholdB;
+    const reverse =
+      row.player_a_id === idB && row.player_b_id === idA &&
+      marketsB.includes(row.player_a_market) && marketsA.includes(row.player_b_market) &&
+      row.player_a_threshold === thresholdB && row.player_b_threshold === thresholdA;
+    if (!forward && !reverse) continue;
+
+    const conditional = row.both_hit_count / row.sample_size;
+    const rho = forward
+      ? fromConditional(conditional, row.sample_size, pOverA, pOverB)
+      : fromConditional(conditional, row.sample_size, pOverB, pOverA);
+    return { rho, sample: row.sample_size, source: "mlb_teammate_props" };
+  }
+
+  // Lineup-chain links only describe 1+ hit / run / RBI
+  if (thresholdA !== 1 || thresholdB !== 1) return null;
+
+  for (const teamId of [game.away_id, game.home_id]) {
+    const chain = await loader.getMlbLineupChain(game.game_id, teamId);
+    for (const link of chain) {
+      const markets = LINEUP_CHAIN_MARKETS[link.correlation_type];
+      if (!markets || link.games_together < MIN_SAMPLE_GAMES) continue;
+
+      const forward = link.player_a_id === idA && link.player_b_id === idB &&
+        markets[0].includes(a.market) && markets[1].includes(b.market);
+      const reverse = link.player_a_id === idB && link.player_b_id === idA &&
+        markets[0].includes(b.market) && markets[1].includes(a.market);
+      if (!forward && !reverse) continue;
+
+      const conditional = link.co_occurrence_pct / 100;
+      const rho = forward
+        ? fromConditional(conditional, link.games_together, pOverA, pOverB)
+        : fromConditional(conditional, link.games_together, pOverB, pOverA);
+      return { rho, sample: link.games_together, source: "mlb_lineup_chain" };
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Pairwise latent correlations for a set of SGP legs.
+ *
+ * @param fairProbs Fair hit probability of each leg on its own side
+ */
+export async function loadLegCorrelations(
+  supabase: SupabaseClient,
+  legs: CorrelationLeg[],
+  fairProbs: number[],
+  options: { now?: Date } = {}
+): Promise<PairCorrelation[]> {
+  const loader = new CorrelationDataLoader(supabase, options.now ?? new Date());
+  const tasks: Promise<PairCorrelation>[] = [];
+
+  for (let i = 0; i < legs.length; i++) {
+    for (let j = i + 1; j < legs.length; j++) {
+      const a = legs[i];
+      const b = legs[j];
+      const sport = (a.sport || "").toLowerCase();
+      const independent: PairCorrelation = { i, j, rho: 0, source: "none", sample: null };
+
+      if (a.event_id !== b.event_id || !isPlayerLeg(a) || !isPlayerLeg(b)) {
+        tasks.push(Promise.resolve(independent));
+        continue;
+      }
+
+      const sign = sideSign(a) * sideSign(b);
+
+      if (samePlayer(a, b)) {
+        tasks.push(
+          Promise.resolve({
+            i,
+            j,
+            rho: sign * samePlayerPrior(sport, a.market, b.market),
+            source: "same_player_prior",
+            sample: null,
+          })
+        );
+        continue;
+      }
+
+      tasks.push(
+        (async (): Promise<PairCorrelation> => {
+          try {
+            if (sport === "nba") {
+              const estimate = await estimateNbaPair(loader, a, b);
+              if (estimate) return { i, j, rho: sign * estimate.rho, source: "nba_game_logs", sample: estimate.sample };
+            } else if (sport === "mlb") {
+              const estimate = await estimateMlbPair(
+                loader,
+                a,
+                b,
+                overProb(a, fairProbs[i]),
+                overProb(b, fairProbs[j])
+              );
+              if (estimate) return { i, j, rho: sign * estimate.rho, source: estimate.source, sample: estimate.sample };
+            }
+          } catch (error) {
+            console.warn(`[SGP Correlations] Estimate failed for ${a.market}/${b.market}:`, error);
+          }
+          return independent;
+        })()
+      );
+    }
+  }
+
+  return Promise.all(tasks);
+}
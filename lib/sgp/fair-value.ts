@@ -0,0 +1,161 @@
+/**
+ * SGP Fair Value
+ *
+ * Independent fair price for a same-game parlay, so book SGP quotes can be
+ * judged on EV rather than just compared with each other.
+ *
+ * 1. Each leg is de-vigged against the user's sharp preset (computeClosingLine
+ *    on the live Redis selections, market average when the preset is dark).
+ * 2. Pairwise latent correlations come from the correlation tools
+ *    (see ./correlations).
+ * 3. The joint hit probability is priced with a Gaussian copula (./copula).
+ *
+ * Books whose SGP price pays more than the correlated fair odds are +EV.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { computeClosingLine, fetchMarketBookSelections } from "@/lib/clv";
+import type { ClosingLineBasis, ClosingLinePreferences } from "@/lib/clv/types";
+import { calculateEV, impliedProbToAmerican } from "@/lib/ev/devig";
+import type { DevigMethod, SharpPreset } from "@/lib/ev/types";
+import { normalizeFavoriteOddsKey, type SSEBookSelections } from "@/lib/odds/types";
+import { estimateJointProbability } from "./copula";
+import { loadLegCorrelations, type CorrelationLeg, type PairCorrelation } from "./correlations";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+export interface SgpFairLegInput extends CorrelationLeg {
+  favorite_id?: string | null;
+  odds_key?: string | null;
+}
+
+export interface SgpLegFairValue {
+  favorite_id: string | null;
+  fair_prob: number;
+  fair_odds: number;
+  basis: ClosingLineBasis;
+}
+
+export interface SgpFairValue {
+  legs: SgpLegFairValue[];
+  correlations: PairCorrelation[];
+  /** Correlated probability every leg hits (0-1) */
+  joint_prob: number;
+  /** Fair American odds from joint_prob */
+  fair_odds: number;
+  /** Product of leg probabilities, i.e. pricing the legs as independent */
+  independent_prob: number;
+  independent_fair_odds: number;
+  /** joint_prob / independent_prob — above 1 means the legs help each other */
+  correlation_lift: number;
+  method: "closed_form" | "simulation";
+  sharp_preset: SharpPreset;
+  devig_methods: DevigMethod[];
+}
+
+export interface SgpBookEdge {
+  ev_percent: number;
+  is_plus_ev: boolean;
+}
+
+export type SgpFairValueResult =
+  | { fair: SgpFairValue; missing_legs: [] }
+  | { fair: null; missing_legs: string[] };
+
+function legId(leg: SgpFairLegInput, index: number): string {
+  return leg.favorite_id || `${leg.event_id}:${leg.market}:${index}`;
+}
+
+/**
+ * Price the correlated fair odds for a set of SGP legs.
+ * Returns `fair: null` (with the offending legs) when any leg has no two-way price.
+ */
+export async function priceSgpFairValue(
+  supabase: SupabaseClient,
+  legs: SgpFairLegInput[],
+  prefs: ClosingLinePreferences
+): Promise<SgpFairValueResult> {
+  const selectionsByKey = new Map<string, Promise<Record<string, SSEBookSelections>>>();
+
+  const legValues = await Promise.all(
+    legs.map(async (leg): Promise<SgpLegFairValue | null> => {
+      const oddsKey = normalizeFavoriteOddsKey({
+        oddsKey: leg.odds_key,
+        sport: leg.sport,
+        eventId: leg.event_id,
+        market: leg.market,
+      });
+      if (!oddsKey) return null;
+
+      let selections = selectionsByKey.get(oddsKey);
+      if (!selections) {
+        selections = fetchMarketBookSelections(oddsKey);
+        selectionsByKey.set(oddsKey, selections);
+      }
+
+      const snapshot = computeClosingLine(
+        await selections,
+        { player_name: leg.player_name, line: leg.line, side: (leg.side || "").toLowerCase() },
+        prefs
+      );
+      if (!snapshot) return null;
+
+      return {
+        favorite_id: leg.favorite_id ?? null,
+        fair_prob: snapshot.fair_prob,
+        fair_odds: snapshot.fair_odds,
+        basis: snapshot.basis,
+      };
+    })
+  );
+
+  const missing = legs.filter((_, i) => !legValues[i]).map(legId);
+  if (missing.length > 0) {
+    return { fair: null, missing_legs: missing };
+  }
+
+  const priced = legValues as SgpLegFairValue[];
+  const probs = priced.map((leg) => leg.fair_prob);
+  const correlations = await loadLegCorrelations(supabase, legs, probs);
+
+  const matrix: number[][] = probs.map((_, i) => probs.map((__, j) => (i === j ? 1 : 0)));
+  for (const pair of correlations) {
+    matrix[pair.i][pair.j] = pair.rho;
+    matrix[pair.j][pair.i] = pair.rho;
+  }
+
+  const joint = estimateJointProbability(probs, matrix);
+  // A joint of exactly 0/1 can't be quoted as odds
+  const jointProb = Math.min(Math.max(joint.jointProb, 1e-6), 1 - 1e-6);
+
+  return {
+    fair: {
+      legs: priced,
+      correlations,
+      joint_prob: jointProb,
+      fair_odds: impliedProbToAmerican(jointProb),
+      independent_prob: joint.independentProb,
+      independent_fair_odds: impliedProbToAmerican(joint.independentProb),
+      correlation_lift: jointProb / joint.independentProb,
+      method: joint.method,
+      sharp_preset: prefs.sharpPreset,
+      devig_methods: prefs.devigMethods,
+    },
+    missing_legs: [],
+  };
+}
+
+/**
+ * EV of a book's SGP price against the correlated fair probability.
+ */
+export function evaluateSgpPrice(fair: SgpFairValue, price: string | undefined): SgpBookEdge | null {
+  const odds = price ? parseInt(price.replace("+", ""), 10) : NaN;
+  if (!Number.isFinite(odds) || odds === 0) return null;
+
+  const ev = calculateEV(fair.joint_prob, odds);
+  return {
+    ev_percent: Math.round(ev * 10000) / 100,
+    is_plus_ev: ev > 0,
+  };
+}
+
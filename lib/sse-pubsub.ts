@@ -221,3 +221,59 @@ export async function pumpMultiPubSub(opts: {
     cleanup();
   }
 }
+
+/**
+ * Consume one pub/sub channel server-side (crons, detectors) until the
+ * signal aborts, handing each unwrapped payload to `onPayload`.
+ */
+export async function listenPubSub(opts: {
+  url: string;
+  token: string;
+  channel: string;
+  signal: AbortSignal;
+  onPayload: (payload: string) => void;
+}) {
+  const { url, token, channel, signal, onPayload } = opts;
+
+  const response = await fetch(`${url}/subscribe/${encodeURIComponent(channel)}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "text/event-stream",
+    },
+    cache: "no-store",
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`subscribe ${channel} failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const dec = new TextDecoder();
+  let buffer = "";
+
+  while (!signal.aborted) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += dec.decode(value!, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      if (rawEvent.startsWith(":")) continue; // skip upstream pings
+
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("data: ")) data += line.slice(6);
+        else if (line.startsWith("data:")) data += line.slice(5);
+      }
+      if (!data) continue;
+
+      const payload = unwrapPubSubData(data);
+      if (payload !== null) onPayload(payload);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Stale Line Capture (server)
+ *
+ * Runs the sniper over the live odds feed for a bounded window. Markets the
+ * cache hasn't seen are restored from Redis, or seeded from every active
+ * book when there is no saved state — stale soft books by definition aren't
+ * publishing updates, so they'd never be read otherwise.
+ *
+ * Each window outlasts the one-minute cron interval. The next run listens
+ * from its start but waits for this one to save the quote cache and lag
+ * samples before it loads them and begins sniping.
+ */
+
+import { getAllActiveSportsbooks } from "@/lib/data/sportsbooks";
+import { getBookOddsKey, parseBookOddsKey } from "@/lib/odds/types";
+import { listenOddsUpdates, openFeedWindow, readBookSelections } from "@/lib/odds/updates";
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import { STEAM_SPORTS, steamMarketKey } from "@/lib/steam/detector";
+import { loadBookLags, loadQuoteCacheMarkets, publishStaleLines, saveBookLags, saveQuoteCacheMarkets } from "./feed";
+import { StaleLineSniper } from "./sniper";
+import type { StaleLine, StaleLineOptions, StaleLineSummary } from "./types";
+
+/** Overlaps the next one-minute cron run */
+const DEFAULT_WINDOW_MS = 75_000;
+/** Short batches keep the gap between a sharp move and the alert small */
+const DEFAULT_BATCH_MS = 1_000;
+/** Longest wait for the previous window to save sniper state */
+const HANDOFF_WAIT_MS = 25_000;
+
+export async function runStaleLineWindow(
+  options: { sports?: string[]; windowMs?: number; batchMs?: number; sniper?: StaleLineOptions } = {}
+): Promise<StaleLineSummary> {
+  const sports = options.sports?.length ? options.sports : STEAM_SPORTS;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  const batchMs = options.batchMs ?? DEFAULT_BATCH_MS;
+
+  const summary: StaleLineSummary = {
+    sports,
+    messages: 0,
+    keysRead: 0,
+    sharpMoves: 0,
+    lagSamples: 0,
+    lines: 0,
+    errors: 0,
+  };
+
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) {
+    console.error("[stale-lines] Pub/sub endpoint is not configured");
+    summary.errors++;
+    return summary;
+  }
+
+  const bookIds = getAllActiveSportsbooks().map((book) => book.id);
+  const dirty = new Set<string>();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), windowMs);
+
+  const listening = listenOddsUpdates({
+    sports,
+    signal: controller.signal,
+    onKeys: (_sport, keys) => {
+      summary.messages++;
+      keys.forEach((key) => dirty.add(key));
+    },
+    onError: (sport, error) => {
+      console.error(`[stale-lines] ${sport} listener error:`, error);
+      summary.errors++;
+    },
+  });
+
+  const handoff = await openFeedWindow("stale-lines", { maxWaitMs: HANDOFF_WAIT_MS, signal: controller.signal }).catch(
+    (error) => {
+      console.error("[stale-lines] Failed to hand off from the previous window:", error);
+      summary.errors++;
+      return null;
+    }
+  );
+  const sniper = new StaleLineSniper(options.sniper, await loadBookLags().catch(() => ({})));
+
+  const loadMarkets = async (keys: string[]) => {
+    const newMarkets = new Map<string, { sport: string; eventId: string; market: string }>();
+    for (const key of keys) {
+      const parsed = parseBookOddsKey(key);
+      if (!parsed) continue;
+      const marketKey = steamMarketKey(parsed.sport, parsed.eventId, parsed.market);
+      if (!sniper.cache.hasMarket(marketKey)) newMarkets.set(marketKey, parsed);
+    }
+    if (newMarkets.size === 0) return;
+
+    const saved = await loadQuoteCacheMarkets([...newMarkets.keys()]);
+    const seedKeys: string[] = [];
+    for (const [marketKey, market] of newMarkets) {
+      const entries = saved.get(marketKey) ?? null;
+      sniper.cache.loadMarket(marketKey, entries);
+      if (!entries) {
+        seedKeys.push(...bookIds.map((book) => getBookOddsKey(market.sport, market.eventId, market.market, book)));
+      }
+    }
+    if (seedKeys.length === 0) return;
+
+    const seededAt = Date.now();
+    const books = await readBookSelections(seedKeys);
+    summary.keysRead += books.length;
+    for (const [key, selections] of books) sniper.observe(key, selections, seededAt, true);
+  };
+
+  const processBatch = async () => {
+    const keys = [...dirty];
+    dirty.clear();
+    const observedAt = Date.now();
+
+    try {
+      if (keys.length > 0) await loadMarkets(keys);
+
+      const lines: StaleLine[] = [];
+      const removed: string[] = [];
+      if (keys.length > 0) {
+        const books = await readBookSelections(keys);
+        summary.keysRead += books.length;
+        for (const [key, selections] of books) {
+          const update = sniper.observe(key, selections, observedAt);
+          lines.push(...update.lines);
+          removed.push(...update.removed);
+        }
+      }
+
+      // Close lines whose window ran out without the book moving
+      const expired = sniper.sweep(sniper.cache.marketKeys(), observedAt);
+      lines.push(...expired.lines);
+      removed.push(...expired.removed);
+
+      // Keep only the latest version of each line
+      const latest = new Map(lines.map((line) => [line.id, line]));
+      await publishStaleLines([...latest.values()], removed);
+      summary.lines += latest.size;
+    } catch (error) {
+      console.error("[stale-lines] Failed to process batch:", error);
+      summary.errors++;
+    }
+  };
+
+  try {
+    while (!controller.signal.aborted) {
+      await new Promise((resolve) => setTimeout(resolve, batchMs));
+      await processBatch();
+    }
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+    await listening;
+    await processBatch();
+    try {
+      await saveQuoteCacheMarkets(sniper.cache.takeDirtyMarkets());
+      await saveBookLags(sniper.lagSampleMap);
+    } catch (error) {
+      console.error("[stale-lines] Failed to save sniper state:", error);
+      summary.errors++;
+    }
+    await handoff?.close().catch((error) => {
+      console.error("[stale-lines] Failed to close window:", error);
+      summary.errors++;
+    });
+  }
+
+  summary.sharpMoves = sniper.sharpMoves;
+  summary.lagSamples = sniper.lagSamples;
+  return summary;
+}
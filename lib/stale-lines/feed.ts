@@ -0,0 +1,142 @@
+/**
+ * Stale Line Feed (server)
+ *
+ * Open stale lines are stored one key per line with an expiry index, and
+ * changes are published on pub:stale_lines. Lines are removed as soon as the
+ * soft book moves, so the index only holds lines that can still be bet.
+ */
+
+import { redis } from "@/lib/redis";
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import { compareStaleLines } from "./sniper";
+import type { QuoteCacheEntry, StaleLine } from "./types";
+
+export const STALE_LINES_CHANNEL = "pub:stale_lines";
+
+const LINE_KEY_PREFIX = "stale:line:";
+const LINE_INDEX_KEY = "stale:lines";
+const CACHE_KEY_PREFIX = "stale:cache:";
+const LAGS_KEY = "stale:lags";
+const CACHE_TTL_SECONDS = 30 * 60;
+const LAGS_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MGET_BATCH_SIZE = 100;
+
+/** Message published on pub:stale_lines */
+export interface StaleLinesFeedMessage {
+  type: "stale_lines";
+  lines: StaleLine[];
+  removed: string[];
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (!value) return null;
+  try {
+    return (typeof value === "string" ? JSON.parse(value) : value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persisted quote cache entries per market key.
+ */
+export async function loadQuoteCacheMarkets(
+  marketKeys: string[]
+): Promise<Map<string, Record<string, QuoteCacheEntry> | null>> {
+  const result = new Map<string, Record<string, QuoteCacheEntry> | null>();
+  for (let i = 0; i < marketKeys.length; i += MGET_BATCH_SIZE) {
+    const batch = marketKeys.slice(i, i + MGET_BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch.map((key) => `${CACHE_KEY_PREFIX}${key}`));
+    batch.forEach((key, j) => result.set(key, parseJson<Record<string, QuoteCacheEntry>>(raw[j])));
+  }
+  return result;
+}
+
+export async function saveQuoteCacheMarkets(markets: Array<[string, Record<string, QuoteCacheEntry>]>): Promise<void> {
+  if (markets.length === 0) return;
+  const pipeline = redis.pipeline();
+  for (const [marketKey, entries] of markets) {
+    pipeline.set(`${CACHE_KEY_PREFIX}${marketKey}`, JSON.stringify(entries), { ex: CACHE_TTL_SECONDS });
+  }
+  await pipeline.exec();
+}
+
+/** Lag samples per book (ms) */
+export async function loadBookLags(): Promise<Record<string, number[]>> {
+  return parseJson<Record<string, number[]>>(await redis.get(LAGS_KEY)) ?? {};
+}
+
+export async function saveBookLags(lags: Record<string, number[]>): Promise<void> {
+  await redis.set(LAGS_KEY, JSON.stringify(lags), { ex: LAGS_TTL_SECONDS });
+}
+
+/**
+ * Store new lines, drop removed ones, and publish the change.
+ */
+export async function publishStaleLines(lines: StaleLine[], removed: string[]): Promise<void> {
+  // A line re-added in the same batch supersedes its removal
+  const readded = new Set(lines.map((line) => line.id));
+  const dropped = removed.filter((id) => !readded.has(id));
+  if (lines.length === 0 && dropped.length === 0) return;
+
+  const now = Date.now();
+  const pipeline = redis.pipeline();
+  for (const line of lines) {
+    const ttl = Math.max(1, Math.ceil((line.expires_at - now) / 1000));
+    pipeline.set(`${LINE_KEY_PREFIX}${line.id}`, JSON.stringify(line), { ex: ttl });
+    pipeline.zadd(LINE_INDEX_KEY, { score: line.expires_at, member: line.id });
+  }
+  if (dropped.length > 0) {
+    pipeline.del(...dropped.map((id) => `${LINE_KEY_PREFIX}${id}`));
+    pipeline.zrem(LINE_INDEX_KEY, ...dropped);
+  }
+  pipeline.zremrangebyscore(LINE_INDEX_KEY, 0, now);
+  await pipeline.exec();
+
+  // Publish through the pub/sub endpoint so it reaches the same server SSE clients subscribe to
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) return;
+  const message: StaleLinesFeedMessage = { type: "stale_lines", lines, removed: dropped };
+  const response = await fetch(endpoint.url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${endpoint.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(["PUBLISH", STALE_LINES_CHANNEL, JSON.stringify(message)]),
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    console.error(`[stale-lines] Publish failed (${response.status})`);
+  }
+}
+
+/**
+ * Open stale lines, best EV first.
+ */
+export async function listStaleLines(
+  filters: { sports?: string[]; books?: string[]; minEV?: number; limit?: number } = {}
+): Promise<StaleLine[]> {
+  const now = Date.now();
+  const ids = await redis.zrange<string[]>(LINE_INDEX_KEY, now, "+inf", { byScore: true });
+  if (!ids || ids.length === 0) return [];
+
+  const sports = filters.sports?.length ? new Set(filters.sports) : null;
+  const books = filters.books?.length ? new Set(filters.books) : null;
+  const lines: StaleLine[] = [];
+
+  for (let i = 0; i < ids.length; i += MGET_BATCH_SIZE) {
+    const batch = ids.slice(i, i + MGET_BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch.map((id) => `${LINE_KEY_PREFIX}${id}`));
+    for (const value of raw) {
+      const line = parseJson<StaleLine>(value);
+      if (!line) continue;
+      if (sports && !sports.has(line.sport)) continue;
+      if (books && !books.has(line.book)) continue;
+      if (filters.minEV != null && line.ev < filters.minEV) continue;
+      // Staleness is relative to when the list is read
+      lines.push({ ...line, staleness_ms: now - line.sharp_moved_at });
+    }
+  }
+  return lines.sort(compareStaleLines).slice(0, filters.limit ?? 200);
+}
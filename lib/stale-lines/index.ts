@@ -0,0 +1,42 @@
+/**
+ * Stale Line Sniper Library
+ *
+ * Tracks when each book last changed every price and surfaces soft-book
+ * prices that predate the latest sharp move, ranked by EV and staleness.
+ * The snipe-stale-lines cron runs the sniper and publishes on
+ * pub:stale_lines for the edge finder's stale lines mode.
+ */
+
+// Types
+export type {
+  BookQuote,
+  SharpMove,
+  QuoteCacheEntry,
+  BookLag,
+  StaleLine,
+  StaleLineOptions,
+  StaleLineSummary,
+} from "./types";
+
+// Cache
+export { BookQuoteCache } from "./quote-cache";
+export type { QuoteChange } from "./quote-cache";
+
+// Sniper
+export { StaleLineSniper, compareStaleLines, summarizeLags } from "./sniper";
+export type { StaleLineUpdate } from "./sniper";
+
+// Feed (server)
+export {
+  STALE_LINES_CHANNEL,
+  loadQuoteCacheMarkets,
+  saveQuoteCacheMarkets,
+  loadBookLags,
+  saveBookLags,
+  publishStaleLines,
+  listStaleLines,
+} from "./feed";
+export type { StaleLinesFeedMessage } from "./feed";
+
+// Capture (server)
+export { runStaleLineWindow } from "./capture";
@@ -0,0 +1,167 @@
+/**
+ * Book Quote Cache
+ *
+ * Every book's current price per selection, with the time each book last
+ * changed it. Books that stop updating keep their old changed_at, which is
+ * what lets the sniper tell a stale soft price from a fresh one.
+ *
+ * Not the shared OddsCache in lib/cache, which caches odds reads for the API
+ * routes; this one keeps per-book change times for the stale-line sniper.
+ */
+
+import { normalizePlayerName, parseAmericanOdds, parseBookOddsKey, type SSEBookSelections } from "@/lib/odds/types";
+import { steamMarketKey, steamSelectionKey } from "@/lib/steam/detector";
+import type { SteamSelection } from "@/lib/steam/types";
+import type { BookQuote, QuoteCacheEntry } from "./types";
+
+export interface QuoteChange {
+  marketKey: string;
+  selectionKey: string;
+  book: string;
+  /** Previous quote; null the first time the book is seen */
+  prev: BookQuote | null;
+  quote: BookQuote;
+}
+
+function entityKey(selection: SteamSelection): string {
+  return selection.player_id || normalizePlayerName(selection.player_name || "") || "game";
+}
+
+export class BookQuoteCache {
+  /** market key -> selection key -> entry */
+  private markets = new Map<string, Map<string, QuoteCacheEntry>>();
+  private dirtyMarkets = new Set<string>();
+
+  hasMarket(marketKey: string): boolean {
+    return this.markets.has(marketKey);
+  }
+
+  /** Restore persisted entries for a market (call before its first update) */
+  loadMarket(marketKey: string, entries: Record<string, QuoteCacheEntry> | null): void {
+    this.markets.set(marketKey, new Map(Object.entries(entries || {})));
+  }
+
+  /** Markets changed since the last call, with their entries to persist */
+  takeDirtyMarkets(): Array<[string, Record<string, QuoteCacheEntry>]> {
+    const result: Array<[string, Record<string, QuoteCacheEntry>]> = [];
+    for (const marketKey of this.dirtyMarkets) {
+      const entries = this.markets.get(marketKey);
+      if (entries) result.push([marketKey, Object.fromEntries(entries)]);
+    }
+    this.dirtyMarkets.clear();
+    return result;
+  }
+
+  marketKeys(): string[] {
+    return [...this.markets.keys()];
+  }
+
+  selectionKeys(marketKey: string): string[] {
+    return [...(this.markets.get(marketKey)?.keys() ?? [])];
+  }
+
+  get(marketKey: string, selectionKey: string): QuoteCacheEntry | undefined {
+    return this.markets.get(marketKey)?.get(selectionKey);
+  }
+
+  /**
+   * The other side of a two-way selection: flipped over/under on the same
+   * line, or the other team's moneyline / mirrored spread.
+   */
+  opposite(marketKey: string, selectionKey: string): [string, QuoteCacheEntry] | null {
+    const entries = this.markets.get(marketKey);
+    const entry = entries?.get(selectionKey);
+    if (!entries || !entry) return null;
+    const { selection } = entry;
+
+    if (selection.side === "over" || selection.side === "under") {
+      const key = steamSelectionKey({ ...selection, side: selection.side === "over" ? "under" : "over" });
+      const other = entries.get(key);
+      return other ? [key, other] : null;
+    }
+
+    const entity = entityKey(selection);
+    for (const [key, other] of entries) {
+      if (other.selection.side !== selection.side || entityKey(other.selection) === entity) continue;
+      if (selection.side === "spread" && (selection.line == null || other.selection.line !== -selection.line)) continue;
+      return [key, other];
+    }
+    return null;
+  }
+
+  /**
+   * Record one book's current selections. `changed_at` only advances when the
+   * price changes. When seeding, first-seen quotes take the selection's own
+   * updated stamp so a cold start doesn't make every price look fresh.
+   */
+  update(
+    oddsKey: string,
+    selections: SSEBookSelections,
+    at: number,
+    options: { seeding?: boolean } = {}
+  ): QuoteChange[] {
+    const key = parseBookOddsKey(oddsKey);
+    if (!key) return [];
+
+    const marketKey = steamMarketKey(key.sport, key.eventId, key.market);
+    let entries = this.markets.get(marketKey);
+    if (!entries) {
+      entries = new Map();
+      this.markets.set(marketKey, entries);
+    }
+
+    const changes: QuoteChange[] = [];
+    for (const selection of Object.values(selections || {})) {
+      if (!selection || !selection.side) continue;
+      const price = parseAmericanOdds(String(selection.price ?? ""));
+      const line = Number(selection.line);
+      const meta: SteamSelection = {
+        sport: key.sport,
+        event_id: key.eventId,
+        market: key.market,
+        player_id: selection.player_id || null,
+        player_name: selection.player || null,
+        side: selection.side,
+        line: Number.isFinite(line) ? line : null,
+      };
+      const selectionKey = steamSelectionKey(meta);
+      let entry = entries.get(selectionKey);
+
+      // Locked prices can't be bet, so they aren't quotes
+      if (selection.locked || !Number.isFinite(price)) {
+        if (entry?.quotes[key.book]) {
+          delete entry.quotes[key.book];
+          this.dirtyMarkets.add(marketKey);
+        }
+        continue;
+      }
+
+      if (!entry) {
+        entry = { selection: meta, quotes: {}, sharp_anchors: {}, sharp_move: null, followed: [], emitted: {} };
+        entries.set(selectionKey, entry);
+      }
+
+      const prev = entry.quotes[key.book] ?? null;
+      if (prev && prev.price === price) {
+        prev.seen_at = at;
+        continue;
+      }
+
+      let changedAt = at;
+      if (!prev && options.seeding) {
+        const stamped = Date.parse(selection.updated);
+        if (Number.isFinite(stamped) && stamped <= at) changedAt = stamped;
+      }
+      const quote: BookQuote = { price, changed_at: changedAt, seen_at: at };
+      entry.quotes[key.book] = quote;
+      this.dirtyMarkets.add(marketKey);
+      changes.push({ marketKey, selectionKey, book: key.book, prev: prev ? { ...prev } : null, quote });
+    }
+    return changes;
+  }
+
+  /** Mark a market's entries as needing persistence after in-place edits */
+  touch(marketKey: string): void {
+    this.dirtyMarkets.add(marketKey);
+  }
+}
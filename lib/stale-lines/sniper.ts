@@ -0,0 +1,237 @@
+/**
+ * Stale Line Sniper
+ *
+ * Watches sharp books through the BookQuoteCache. When a sharp price moves, every
+ * soft price on that selection that was last changed before the move is
+ * stale; those with positive EV against the de-vigged sharp market are
+ * surfaced until the book catches up or the window closes. Each soft book's
+ * first follow after a sharp move is recorded as a lag sample.
+ */
+
+import { SHARP_BOOKS } from "@/lib/ev/constants";
+import { americanToDecimal, calculateEV, calculateKelly, devigMultiplicative, devigPower, impliedProbToAmerican } from "@/lib/ev/devig";
+import { normalizeAmericanOddsForMove } from "@/lib/line-history/utils";
+import type { SSEBookSelections } from "@/lib/odds/types";
+import { BookQuoteCache, type QuoteChange } from "./quote-cache";
+import type { BookLag, QuoteCacheEntry, StaleLine, StaleLineOptions } from "./types";
+
+const DEFAULT_MOVE_THRESHOLD = 10;
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_LAG_SAMPLES = 50;
+
+function norm(price: number): number {
+  return normalizeAmericanOddsForMove(price) ?? 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+/** Best first: EV, then the freshest sharp move */
+export function compareStaleLines(a: StaleLine, b: StaleLine): number {
+  return b.ev - a.ev || a.staleness_ms - b.staleness_ms;
+}
+
+export function summarizeLags(lags: Record<string, number[]>): BookLag[] {
+  return Object.entries(lags)
+    .filter(([, samples]) => samples.length > 0)
+    .map(([book, samples]) => {
+      const sorted = [...samples].sort((a, b) => a - b);
+      return { book, samples: sorted.length, median_ms: percentile(sorted, 0.5), p90_ms: percentile(sorted, 0.9) };
+    })
+    .sort((a, b) => a.median_ms - b.median_ms);
+}
+
+export interface StaleLineUpdate {
+  /** New or repriced stale lines */
+  lines: StaleLine[];
+  /** Ids that are no longer stale (the book moved or the window closed) */
+  removed: string[];
+}
+
+export class StaleLineSniper {
+  readonly cache = new BookQuoteCache();
+
+  private readonly moveThreshold: number;
+  private readonly windowMs: number;
+  private readonly minEV: number;
+  private readonly maxLagSamples: number;
+  private readonly sharpBooks: Set<string>;
+
+  /** book -> recent lag samples (ms), oldest first */
+  private lags: Record<string, number[]>;
+  private sharpMoveCount = 0;
+  private lagSampleCount = 0;
+
+  constructor(options: StaleLineOptions = {}, lags: Record<string, number[]> = {}) {
+    this.moveThreshold = options.moveThreshold ?? DEFAULT_MOVE_THRESHOLD;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.minEV = options.minEV ?? 0;
+    this.maxLagSamples = options.maxLagSamples ?? DEFAULT_MAX_LAG_SAMPLES;
+    this.sharpBooks = new Set(options.sharpBooks ?? Object.keys(SHARP_BOOKS));
+    this.lags = lags;
+  }
+
+  get sharpMoves(): number {
+    return this.sharpMoveCount;
+  }
+
+  get lagSamples(): number {
+    return this.lagSampleCount;
+  }
+
+  /** Lag samples per book, for persistence */
+  get lagSampleMap(): Record<string, number[]> {
+    return this.lags;
+  }
+
+  bookLags(): BookLag[] {
+    return summarizeLags(this.lags);
+  }
+
+  /**
+   * Feed one book's current selections. `seeding` marks reads made only to
+   * fill the cache for a cold market.
+   */
+  observe(oddsKey: string, selections: SSEBookSelections, at: number, seeding = false): StaleLineUpdate {
+    const changes = this.cache.update(oddsKey, selections, at, { seeding });
+    const touched = new Map<string, Set<string>>();
+
+    for (const change of changes) {
+      const entry = this.cache.get(change.marketKey, change.selectionKey);
+      if (!entry || seeding) continue;
+      if (this.sharpBooks.has(change.book)) this.recordSharpChange(entry, change);
+      else this.recordSoftChange(entry, change);
+
+      // A sharp move reprices both sides, so re-check the other side too
+      const selectionKeys = touched.get(change.marketKey) ?? new Set<string>();
+      selectionKeys.add(change.selectionKey);
+      const opposite = this.cache.opposite(change.marketKey, change.selectionKey);
+      if (opposite) selectionKeys.add(opposite[0]);
+      touched.set(change.marketKey, selectionKeys);
+    }
+
+    const update: StaleLineUpdate = { lines: [], removed: [] };
+    for (const [marketKey, selectionKeys] of touched) {
+      for (const selectionKey of selectionKeys) this.evaluate(marketKey, selectionKey, at, update);
+    }
+    return update;
+  }
+
+  /** Re-check every selection with an open sharp move so expired lines are removed */
+  sweep(marketKeys: string[], at: number): StaleLineUpdate {
+    const update: StaleLineUpdate = { lines: [], removed: [] };
+    for (const marketKey of marketKeys) {
+      for (const selectionKey of this.cache.selectionKeys(marketKey)) {
+        const entry = this.cache.get(marketKey, selectionKey);
+        if (entry && (entry.sharp_move || Object.keys(entry.emitted).length > 0)) this.evaluate(marketKey, selectionKey, at, update);
+      }
+    }
+    return update;
+  }
+
+  private recordSharpChange(entry: QuoteCacheEntry, change: QuoteChange): void {
+    const anchor = entry.sharp_anchors[change.book] ?? change.prev?.price;
+    if (anchor == null) {
+      entry.sharp_anchors[change.book] = change.quote.price;
+      return;
+    }
+    const delta = norm(change.quote.price) - norm(anchor);
+    if (Math.abs(delta) < this.moveThreshold) return;
+
+    entry.sharp_anchors[change.book] = change.quote.price;
+    entry.sharp_move = { book: change.book, price: change.quote.price, prev_price: anchor, at: change.quote.changed_at };
+    entry.followed = [];
+    this.sharpMoveCount++;
+  }
+
+  private recordSoftChange(entry: QuoteCacheEntry, change: QuoteChange): void {
+    const move = entry.sharp_move;
+    if (!move || !change.prev || entry.followed.includes(change.book)) return;
+    const lag = change.quote.changed_at - move.at;
+    if (lag < 0 || lag > this.windowMs) return;
+
+    // Only a move in the sharp book's direction counts as following it
+    const sharpDirection = Math.sign(norm(move.price) - norm(move.prev_price));
+    const softDirection = Math.sign(norm(change.quote.price) - norm(change.prev.price));
+    if (sharpDirection === 0 || softDirection !== sharpDirection) return;
+
+    entry.followed.push(change.book);
+    const samples = this.lags[change.book] ?? [];
+    samples.push(lag);
+    if (samples.length > this.maxLagSamples) samples.splice(0, samples.length - this.maxLagSamples);
+    this.lags[change.book] = samples;
+    this.lagSampleCount++;
+  }
+
+  private evaluate(marketKey: string, selectionKey: string, at: number, update: StaleLineUpdate): void {
+    const entry = this.cache.get(marketKey, selectionKey);
+    if (!entry) return;
+
+    const lines: StaleLine[] = [];
+    const move = entry.sharp_move;
+    if (move && at - move.at > this.windowMs) {
+      entry.sharp_move = null;
+      entry.followed = [];
+    } else if (move) {
+      lines.push(...this.findStaleLines(marketKey, selectionKey, entry, at));
+    }
+
+    const emitted: Record<string, string> = {};
+    for (const line of lines) {
+      const signature = `${line.price}:${line.sharp_price}:${line.sharp_opposite_price}`;
+      if (entry.emitted[line.id] !== signature) update.lines.push(line);
+      emitted[line.id] = signature;
+    }
+    update.removed.push(...Object.keys(entry.emitted).filter((id) => !(id in emitted)));
+    if (Object.keys(entry.emitted).length > 0 || lines.length > 0) this.cache.touch(marketKey);
+    entry.emitted = emitted;
+  }
+
+  private findStaleLines(marketKey: string, selectionKey: string, entry: QuoteCacheEntry, at: number): StaleLine[] {
+    const move = entry.sharp_move!;
+    const sharpQuote = entry.quotes[move.book];
+    const opposite = this.cache.opposite(marketKey, selectionKey)?.[1];
+    const oppositeQuote = opposite?.quotes[move.book];
+    if (!sharpQuote || !oppositeQuote) return [];
+
+    let devig = devigPower(sharpQuote.price, oppositeQuote.price);
+    if (!devig.success) devig = devigMultiplicative(sharpQuote.price, oppositeQuote.price);
+    if (!devig.success || devig.fairProbOver <= 0 || devig.fairProbOver >= 1) return [];
+    const fairProb = devig.fairProbOver;
+
+    const lines: StaleLine[] = [];
+    for (const [book, quote] of Object.entries(entry.quotes)) {
+      if (this.sharpBooks.has(book) || quote.changed_at >= move.at) continue;
+      if (americanToDecimal(quote.price) <= 1) continue;
+
+      const ev = calculateEV(fairProb, quote.price) * 100;
+      if (ev <= this.minEV) continue;
+
+      const lag = this.lags[book];
+      lines.push({
+        ...entry.selection,
+        id: `${selectionKey}:${book}:${move.at}`,
+        book,
+        price: quote.price,
+        changed_at: quote.changed_at,
+        sharp_book: move.book,
+        sharp_price: sharpQuote.price,
+        sharp_prev_price: move.prev_price,
+        sharp_moved_at: move.at,
+        sharp_opposite_price: oppositeQuote.price,
+        fair_prob: fairProb,
+        fair_price: Math.round(impliedProbToAmerican(fairProb)),
+        ev: Math.round(ev * 100) / 100,
+        kelly: calculateKelly(fairProb, quote.price),
+        staleness_ms: at - move.at,
+        expected_lag_ms: lag?.length ? percentile([...lag].sort((a, b) => a - b), 0.5) : null,
+        detected_at: at,
+        expires_at: move.at + this.windowMs,
+      });
+    }
+    return lines.sort(compareStaleLines);
+  }
+}
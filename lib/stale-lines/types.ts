@@ -0,0 +1,93 @@
+/**
+ * Stale Line Sniper Types
+ */
+
+import type { SteamSelection } from "@/lib/steam/types";
+
+export interface BookQuote {
+  price: number;
+  /** When this book last changed the price (epoch ms) */
+  changed_at: number;
+  /** When the price was last read */
+  seen_at: number;
+}
+
+export interface SharpMove {
+  book: string;
+  price: number;
+  prev_price: number;
+  at: number;
+}
+
+/** Persisted per-selection cache entry so timestamps survive cron windows */
+export interface QuoteCacheEntry {
+  selection: SteamSelection;
+  quotes: Record<string, BookQuote>;
+  /** Sharp book -> price its moves are measured from */
+  sharp_anchors: Record<string, number>;
+  /** Latest sharp move on this selection */
+  sharp_move: SharpMove | null;
+  /** Books whose follow of sharp_move has been counted as a lag sample */
+  followed: string[];
+  /** Published stale line id -> price signature, so unchanged lines aren't re-sent */
+  emitted: Record<string, string>;
+}
+
+/** Per-book lag behind sharp moves */
+export interface BookLag {
+  book: string;
+  samples: number;
+  median_ms: number;
+  p90_ms: number;
+}
+
+/** A soft book whose price predates the latest sharp move */
+export interface StaleLine extends SteamSelection {
+  /** `${selection key}:${book}:${sharp_moved_at}` */
+  id: string;
+  book: string;
+  price: number;
+  /** When the soft book last changed this price */
+  changed_at: number;
+  sharp_book: string;
+  sharp_price: number;
+  sharp_prev_price: number;
+  sharp_moved_at: number;
+  /** Sharp book's price on the other side, used for the de-vig */
+  sharp_opposite_price: number;
+  fair_prob: number;
+  fair_price: number;
+  /** EV percent at the stale price */
+  ev: number;
+  kelly: number;
+  /** Time since the sharp move */
+  staleness_ms: number;
+  /** The book's median lag behind sharp moves, when known */
+  expected_lag_ms: number | null;
+  detected_at: number;
+  /** When the line drops out of the window if the book never moves */
+  expires_at: number;
+}
+
+export interface StaleLineOptions {
+  /** Minimum normalized cents for a sharp price change to count as a move (default 10) */
+  moveThreshold?: number;
+  /** How long after a sharp move a soft price counts as stale (default 5 minutes) */
+  windowMs?: number;
+  /** Minimum EV percent to surface (default 0) */
+  minEV?: number;
+  /** Lag samples kept per book (default 50) */
+  maxLagSamples?: number;
+  /** Book ids treated as sharp leaders */
+  sharpBooks?: string[];
+}
+
+export interface StaleLineSummary {
+  sports: string[];
+  messages: number;
+  keysRead: number;
+  sharpMoves: number;
+  lagSamples: number;
+  lines: number;
+  errors: number;
+}
@@ -0,0 +1,134 @@
+/**
+ * Steam Detector Capture (server)
+ *
+ * Runs the detector over the live odds feed for a bounded window: follows
+ * odds_updates:{sport}, re-reads every touched book key, and publishes
+ * signals as soon as each batch is processed. Detector state is saved per
+ * market so the next cron window picks up where this one stopped.
+ *
+ * Windows run past the next cron start, so moves between two runs are still
+ * seen. The newer run buffers updates until the older one has saved its
+ * state, so the two never process batches at the same time.
+ */
+
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import { listenOddsUpdates, openFeedWindow, readBookSelections } from "@/lib/odds/updates";
+import { parseBookOddsKey } from "@/lib/odds/types";
+import { STEAM_SPORTS, SteamDetector, steamMarketKey } from "./detector";
+import { loadSteamStates, publishSteamSignals, saveSteamStates } from "./feed";
+import type { SteamDetectorOptions, SteamDetectorSummary, SteamSignal } from "./types";
+
+/** Overlaps the next one-minute cron run */
+const DEFAULT_WINDOW_MS = 75_000;
+/** Short batches keep detection latency low */
+const DEFAULT_BATCH_MS = 2_000;
+/** Longest wait for the previous window to save detector state */
+const HANDOFF_WAIT_MS = 25_000;
+
+export async function runSteamDetectorWindow(
+  options: { sports?: string[]; windowMs?: number; batchMs?: number; detector?: SteamDetectorOptions } = {}
+): Promise<SteamDetectorSummary> {
+  const sports = options.sports?.length ? options.sports : STEAM_SPORTS;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  const batchMs = options.batchMs ?? DEFAULT_BATCH_MS;
+
+  const summary: SteamDetectorSummary = {
+    sports,
+    messages: 0,
+    keysRead: 0,
+    moves: 0,
+    signals: 0,
+    errors: 0,
+  };
+
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) {
+    console.error("[steam] Pub/sub endpoint is not configured");
+    summary.errors++;
+    return summary;
+  }
+
+  const detector = new SteamDetector(options.detector);
+  const dirty = new Set<string>();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), windowMs);
+
+  const listening = listenOddsUpdates({
+    sports,
+    signal: controller.signal,
+    onKeys: (_sport, keys) => {
+      summary.messages++;
+      keys.forEach((key) => dirty.add(key));
+    },
+    onError: (sport, error) => {
+      console.error(`[steam] ${sport} listener error:`, error);
+      summary.errors++;
+    },
+  });
+
+  const handoff = await openFeedWindow("steam", { maxWaitMs: HANDOFF_WAIT_MS, signal: controller.signal }).catch(
+    (error) => {
+      console.error("[steam] Failed to hand off from the previous window:", error);
+      summary.errors++;
+      return null;
+    }
+  );
+
+  const processBatch = async () => {
+    if (dirty.size === 0) return;
+    const keys = [...dirty];
+    dirty.clear();
+    const observedAt = Date.now();
+
+    try {
+      // Restore state for markets this window hasn't seen yet
+      const newMarkets = new Set<string>();
+      for (const key of keys) {
+        const parsed = parseBookOddsKey(key);
+        if (!parsed) continue;
+        const marketKey = steamMarketKey(parsed.sport, parsed.eventId, parsed.market);
+        if (!detector.hasMarket(marketKey)) newMarkets.add(marketKey);
+      }
+      if (newMarkets.size > 0) {
+        const states = await loadSteamStates([...newMarkets]);
+        for (const marketKey of newMarkets) detector.loadMarket(marketKey, states.get(marketKey) ?? null);
+      }
+
+      const books = await readBookSelections(keys);
+      summary.keysRead += books.length;
+      const signals: SteamSignal[] = [];
+      for (const [key, selections] of books) signals.push(...detector.observe(key, selections, observedAt));
+
+      await publishSteamSignals(signals);
+      summary.signals += signals.length;
+    } catch (error) {
+      console.error("[steam] Failed to process batch:", error);
+      summary.errors++;
+    }
+  };
+
+  try {
+    while (!controller.signal.aborted) {
+      await new Promise((resolve) => setTimeout(resolve, batchMs));
+      await processBatch();
+    }
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+    await listening;
+    await processBatch();
+    try {
+      await saveSteamStates(detector.takeDirtyMarkets());
+    } catch (error) {
+      console.error("[steam] Failed to save detector state:", error);
+      summary.errors++;
+    }
+    await handoff?.close().catch((error) => {
+      console.error("[steam] Failed to close window:", error);
+      summary.errors++;
+    });
+  }
+
+  summary.moves = detector.moves;
+  return summary;
+}
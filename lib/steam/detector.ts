@@ -0,0 +1,246 @@
+/**
+ * Steam Detector
+ *
+ * Tracks every book's price per selection and flags synchronized moves.
+ * Moves are measured in normalized cents (see normalizeAmericanOddsForMove)
+ * from a per-book anchor, so a run of small ticks adds up to one move.
+ * "down" moves are the price shortening, i.e. money coming in on that side.
+ */
+
+import { SHARP_BOOKS } from "@/lib/ev/constants";
+import type { SteamMove } from "@/lib/line-history/types";
+import { normalizeAmericanOddsForMove } from "@/lib/line-history/utils";
+import { normalizePlayerName, parseAmericanOdds, parseBookOddsKey, type SSEBookSelections } from "@/lib/odds/types";
+import type {
+  SteamDetectorOptions,
+  SteamSelection,
+  SteamSelectionState,
+  SteamSignal,
+  SteamSignalKind,
+  SteamStaleBook,
+} from "./types";
+
+/** Sports watched by default */
+export const STEAM_SPORTS = ["nba", "wnba", "nfl", "ncaaf", "ncaab", "nhl", "mlb"];
+
+const DEFAULT_MOVE_THRESHOLD = 10;
+const DEFAULT_STEAM_MIN_BOOKS = 3;
+const DEFAULT_RLM_MIN_BOOKS = 2;
+const DEFAULT_WINDOW_MS = 3 * 60 * 1000;
+
+function norm(price: number): number {
+  return normalizeAmericanOddsForMove(price) ?? 0;
+}
+
+/** `${sport}:${eventId}:${market}` */
+export function steamMarketKey(sport: string, eventId: string, market: string): string {
+  return `${sport}:${eventId}:${market}`;
+}
+
+export function steamSelectionKey(selection: SteamSelection): string {
+  const entity = selection.player_id || normalizePlayerName(selection.player_name || "") || "game";
+  return `${steamMarketKey(selection.sport, selection.event_id, selection.market)}:${entity}:${selection.side}:${selection.line ?? ""}`;
+}
+
+export class SteamDetector {
+  private readonly moveThreshold: number;
+  private readonly steamMinBooks: number;
+  private readonly rlmMinBooks: number;
+  private readonly windowMs: number;
+  private readonly sharpBooks: Set<string>;
+
+  /** market key -> selection key -> state */
+  private markets = new Map<string, Map<string, SteamSelectionState>>();
+  private dirtyMarkets = new Set<string>();
+  private moveCount = 0;
+
+  constructor(options: SteamDetectorOptions = {}) {
+    this.moveThreshold = options.moveThreshold ?? DEFAULT_MOVE_THRESHOLD;
+    this.steamMinBooks = options.steamMinBooks ?? DEFAULT_STEAM_MIN_BOOKS;
+    this.rlmMinBooks = options.rlmMinBooks ?? DEFAULT_RLM_MIN_BOOKS;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.sharpBooks = new Set(options.sharpBooks ?? Object.keys(SHARP_BOOKS));
+  }
+
+  get moves(): number {
+    return this.moveCount;
+  }
+
+  hasMarket(marketKey: string): boolean {
+    return this.markets.has(marketKey);
+  }
+
+  /** Restore persisted state for a market (call before its first observe) */
+  loadMarket(marketKey: string, states: Record<string, SteamSelectionState> | null): void {
+    this.markets.set(marketKey, new Map(Object.entries(states || {})));
+  }
+
+  /** Markets changed since the last call, with their state to persist */
+  takeDirtyMarkets(): Array<[string, Record<string, SteamSelectionState>]> {
+    const result: Array<[string, Record<string, SteamSelectionState>]> = [];
+    for (const marketKey of this.dirtyMarkets) {
+      const states = this.markets.get(marketKey);
+      if (states) result.push([marketKey, Object.fromEntries(states)]);
+    }
+    this.dirtyMarkets.clear();
+    return result;
+  }
+
+  /**
+   * Feed one book's current selections. Returns new or updated signals.
+   */
+  observe(oddsKey: string, selections: SSEBookSelections, at: number): SteamSignal[] {
+    const key = parseBookOddsKey(oddsKey);
+    if (!key) return [];
+
+    const marketKey = steamMarketKey(key.sport, key.eventId, key.market);
+    let states = this.markets.get(marketKey);
+    if (!states) {
+      states = new Map();
+      this.markets.set(marketKey, states);
+    }
+
+    const signals: SteamSignal[] = [];
+    for (const selection of Object.values(selections || {})) {
+      if (!selection || selection.locked || !selection.side) continue;
+      const price = parseAmericanOdds(String(selection.price ?? ""));
+      if (!Number.isFinite(price)) continue;
+
+      const line = Number(selection.line);
+      const meta: SteamSelection = {
+        sport: key.sport,
+        event_id: key.eventId,
+        market: key.market,
+        player_id: selection.player_id || null,
+        player_name: selection.player || null,
+        side: selection.side,
+        line: Number.isFinite(line) ? line : null,
+      };
+      const selectionKey = steamSelectionKey(meta);
+      let state = states.get(selectionKey);
+      if (!state) {
+        state = { selection: meta, prices: {}, moves: [], emitted: {} };
+        states.set(selectionKey, state);
+      }
+
+      if (this.updatePrice(state, key.book, price, at)) {
+        signals.push(...this.evaluate(selectionKey, state, at));
+      }
+      this.dirtyMarkets.add(marketKey);
+    }
+    return signals;
+  }
+
+  /** Returns true when the change registered as a move */
+  private updatePrice(state: SteamSelectionState, book: string, price: number, at: number): boolean {
+    const current = state.prices[book];
+    if (!current) {
+      state.prices[book] = { price, updated_at: at, anchor: price, anchor_at: at };
+      return false;
+    }
+    if (current.price === price) return false;
+
+    // Slow drifts aren't moves: re-anchor on the last price once the anchor ages out
+    if (at - current.anchor_at > this.windowMs) {
+      current.anchor = current.price;
+      current.anchor_at = current.updated_at;
+    }
+    current.price = price;
+    current.updated_at = at;
+
+    const delta = norm(price) - norm(current.anchor);
+    if (Math.abs(delta) < this.moveThreshold) return false;
+
+    state.moves.push({
+      timestamp: at,
+      price,
+      prevPrice: current.anchor,
+      normalizedDelta: delta,
+      direction: delta > 0 ? "up" : "down",
+      bookId: book,
+    });
+    current.anchor = price;
+    current.anchor_at = at;
+    this.moveCount++;
+    return true;
+  }
+
+  private evaluate(selectionKey: string, state: SteamSelectionState, at: number): SteamSignal[] {
+    state.moves = state.moves.filter((move) => at - move.timestamp <= this.windowMs);
+    if (state.moves.length === 0) {
+      state.emitted = {};
+      return [];
+    }
+
+    // Each book's latest move decides which way it went
+    const latestByBook = new Map<string, SteamMove>();
+    for (const move of state.moves) latestByBook.set(move.bookId, move);
+    const latest = [...latestByBook.values()].sort((a, b) => a.timestamp - b.timestamp);
+    const shortened = latest.filter((move) => move.direction === "down");
+    const drifted = latest.filter((move) => move.direction === "up");
+    const sharpLead = shortened.find((move) => this.sharpBooks.has(move.bookId));
+
+    const signals: SteamSignal[] = [];
+    if (shortened.length >= this.steamMinBooks) {
+      signals.push(this.buildSignal("steam", selectionKey, state, shortened[0], shortened, at));
+    } else if (sharpLead) {
+      const signal = this.buildSignal("stale", selectionKey, state, sharpLead, shortened, at);
+      if (signal.stale_books.length > 0) signals.push(signal);
+    }
+
+    if (sharpLead) {
+      const softDrifts = drifted.filter(
+        (move) => !this.sharpBooks.has(move.bookId) && move.timestamp >= sharpLead.timestamp - this.windowMs
+      );
+      if (softDrifts.length >= this.rlmMinBooks) {
+        signals.push(this.buildSignal("rlm", selectionKey, state, sharpLead, [sharpLead, ...softDrifts], at));
+      }
+    }
+
+    // Only emit when the signal actually changed since last time
+    return signals.filter((signal) => {
+      const signature = [
+        signal.id,
+        ...signal.moves.map((move) => `${move.bookId}:${move.price}`),
+        ...signal.stale_books.map((book) => `${book.book}:${book.price}`),
+      ].join("|");
+      if (state.emitted[signal.kind] === signature) return false;
+      state.emitted[signal.kind] = signature;
+      return true;
+    });
+  }
+
+  private buildSignal(
+    kind: SteamSignalKind,
+    selectionKey: string,
+    state: SteamSelectionState,
+    lead: SteamMove,
+    moves: SteamMove[],
+    at: number
+  ): SteamSignal {
+    const moved = new Set(moves.map((move) => move.bookId));
+    const leadNorm = norm(lead.price);
+    const staleBooks: SteamStaleBook[] = [];
+    for (const [book, quote] of Object.entries(state.prices)) {
+      if (moved.has(book) || book === lead.bookId) continue;
+      const gap = norm(quote.price) - leadNorm;
+      if (gap > 0) staleBooks.push({ book, price: quote.price, updated_at: quote.updated_at, gap });
+    }
+    staleBooks.sort((a, b) => b.gap - a.gap);
+
+    const firstMoveAt = Math.min(...moves.map((move) => move.timestamp));
+    return {
+      ...state.selection,
+      id: `${kind}:${selectionKey}:${firstMoveAt}`,
+      kind,
+      lead_book: lead.bookId,
+      lead_price: lead.price,
+      moves,
+      stale_books: staleBooks,
+      first_move_at: firstMoveAt,
+      last_move_at: Math.max(...moves.map((move) => move.timestamp)),
+      detected_at: at,
+      detection_latency_ms: at - firstMoveAt,
+    };
+  }
+}
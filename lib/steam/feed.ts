@@ -0,0 +1,120 @@
+/**
+ * Steam Feed (server)
+ *
+ * Detected signals are stored one key per signal with a recency index, and
+ * published on pub:steam for the live tab. Re-detections of the same move
+ * keep their id, so storing overwrites and clients upsert by id.
+ */
+
+import { redis } from "@/lib/redis";
+import { resolveRedisPubSubEndpoint } from "@/lib/redis-endpoints";
+import type { SteamSelectionState, SteamSignal, SteamSignalKind } from "./types";
+
+export const STEAM_CHANNEL = "pub:steam";
+
+const SIGNAL_KEY_PREFIX = "steam:signal:";
+const SIGNAL_INDEX_KEY = "steam:signals";
+const STATE_KEY_PREFIX = "steam:state:";
+const SIGNAL_TTL_SECONDS = 2 * 60 * 60;
+const STATE_TTL_SECONDS = 30 * 60;
+const MGET_BATCH_SIZE = 100;
+
+/** Message published on pub:steam */
+export interface SteamFeedMessage {
+  type: "steam";
+  signals: SteamSignal[];
+}
+
+/**
+ * Persisted detector state per market key.
+ */
+export async function loadSteamStates(
+  marketKeys: string[]
+): Promise<Map<string, Record<string, SteamSelectionState> | null>> {
+  const result = new Map<string, Record<string, SteamSelectionState> | null>();
+  for (let i = 0; i < marketKeys.length; i += MGET_BATCH_SIZE) {
+    const batch = marketKeys.slice(i, i + MGET_BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch.map((key) => `${STATE_KEY_PREFIX}${key}`));
+    batch.forEach((key, j) => {
+      const value = raw[j];
+      if (!value) return result.set(key, null);
+      try {
+        result.set(key, (typeof value === "string" ? JSON.parse(value) : value) as Record<string, SteamSelectionState>);
+      } catch {
+        result.set(key, null);
+      }
+    });
+  }
+  return result;
+}
+
+export async function saveSteamStates(markets: Array<[string, Record<string, SteamSelectionState>]>): Promise<void> {
+  if (markets.length === 0) return;
+  const pipeline = redis.pipeline();
+  for (const [marketKey, states] of markets) {
+    pipeline.set(`${STATE_KEY_PREFIX}${marketKey}`, JSON.stringify(states), { ex: STATE_TTL_SECONDS });
+  }
+  await pipeline.exec();
+}
+
+/**
+ * Store signals and publish them to live subscribers.
+ */
+export async function publishSteamSignals(signals: SteamSignal[]): Promise<void> {
+  if (signals.length === 0) return;
+
+  const pipeline = redis.pipeline();
+  for (const signal of signals) {
+    pipeline.set(`${SIGNAL_KEY_PREFIX}${signal.id}`, JSON.stringify(signal), { ex: SIGNAL_TTL_SECONDS });
+    pipeline.zadd(SIGNAL_INDEX_KEY, { score: signal.detected_at, member: signal.id });
+  }
+  pipeline.zremrangebyscore(SIGNAL_INDEX_KEY, 0, Date.now() - SIGNAL_TTL_SECONDS * 1000);
+  await pipeline.exec();
+
+  // Publish through the pub/sub endpoint so it reaches the same server SSE clients subscribe to
+  const endpoint = resolveRedisPubSubEndpoint();
+  if (!endpoint.url || !endpoint.token) return;
+  const message: SteamFeedMessage = { type: "steam", signals };
+  const response = await fetch(endpoint.url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${endpoint.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(["PUBLISH", STEAM_CHANNEL, JSON.stringify(message)]),
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    console.error(`[steam] Publish failed (${response.status})`);
+  }
+}
+
+/**
+ * Most recent signals, newest first.
+ */
+export async function listSteamSignals(
+  filters: { sports?: string[]; kinds?: SteamSignalKind[]; sinceMs?: number; limit?: number } = {}
+): Promise<SteamSignal[]> {
+  const since = filters.sinceMs ?? Date.now() - SIGNAL_TTL_SECONDS * 1000;
+  const ids = await redis.zrange<string[]>(SIGNAL_INDEX_KEY, "+inf", since, { byScore: true, rev: true });
+  if (!ids || ids.length === 0) return [];
+
+  const sports = filters.sports?.length ? new Set(filters.sports) : null;
+  const kinds = filters.kinds?.length ? new Set(filters.kinds) : null;
+  const limit = filters.limit ?? 200;
+  const signals: SteamSignal[] = [];
+
+  for (let i = 0; i < ids.length && signals.length < limit; i += MGET_BATCH_SIZE) {
+    const batch = ids.slice(i, i + MGET_BATCH_SIZE);
+    const raw = await redis.mget<unknown[]>(...batch.map((id) => `${SIGNAL_KEY_PREFIX}${id}`));
+    for (const value of raw) {
+      if (!value) continue;
+      const signal = (typeof value === "string" ? JSON.parse(value) : value) as SteamSignal;
+      if (sports && !sports.has(signal.sport)) continue;
+      if (kinds && !kinds.has(signal.kind)) continue;
+      signals.push(signal);
+      if (signals.length >= limit) break;
+    }
+  }
+  return signals;
+}
@@ -0,0 +1,29 @@
+/**
+ * Steam Library
+ *
+ * Server-side steam, stale-line and reverse line movement detection over
+ * every book's live prices. The detect-steam cron feeds odds updates into
+ * the detector and publishes signals on pub:steam for the Steam tab.
+ */
+
+// Types
+export type {
+  SteamSignalKind,
+  SteamSelection,
+  SteamStaleBook,
+  SteamSignal,
+  SteamDetectorOptions,
+  SteamBookPrice,
+  SteamSelectionState,
+  SteamDetectorSummary,
+} from "./types";
+
+// Detector
+export { STEAM_SPORTS, SteamDetector, steamMarketKey, steamSelectionKey } from "./detector";
+
+// Feed (server)
+export { STEAM_CHANNEL, loadSteamStates, saveSteamStates, publishSteamSignals, listSteamSignals } from "./feed";
+export type { SteamFeedMessage } from "./feed";
+
+// Capture (server)
+export { runSteamDetectorWindow } from "./capture";
@@ -0,0 +1,90 @@
+/**
+ * Steam Detector Types
+ */
+
+import type { SteamMove } from "@/lib/line-history/types";
+
+/**
+ * - steam: several books shortened the same selection within the window
+ * - stale: a sharp book moved first and soft books haven't followed yet
+ * - rlm: reverse line movement — the sharp book shortened while soft books
+ *   drifted the other way
+ */
+export type SteamSignalKind = "steam" | "stale" | "rlm";
+
+/** One selection across books: sport, event, market, player/team, side, line */
+export interface SteamSelection {
+  sport: string;
+  event_id: string;
+  market: string;
+  player_id: string | null;
+  player_name: string | null;
+  side: string;
+  line: number | null;
+}
+
+export interface SteamStaleBook {
+  book: string;
+  price: number;
+  /** When the book last changed this price (epoch ms) */
+  updated_at: number;
+  /** Normalized cents the book is still longer than the lead book's new price */
+  gap: number;
+}
+
+export interface SteamSignal extends SteamSelection {
+  /** `${kind}:${selection key}:${first_move_at}` — updates keep the same id */
+  id: string;
+  kind: SteamSignalKind;
+  /** Book whose move started the signal */
+  lead_book: string;
+  lead_price: number;
+  /** Shortening moves (and drifting soft moves for rlm) in the window */
+  moves: SteamMove[];
+  /** Books still quoting the old price */
+  stale_books: SteamStaleBook[];
+  first_move_at: number;
+  last_move_at: number;
+  detected_at: number;
+  /** detected_at - first_move_at */
+  detection_latency_ms: number;
+}
+
+export interface SteamDetectorOptions {
+  /** Minimum normalized cents for a price change to count as a move (default 10) */
+  moveThreshold?: number;
+  /** Books that must shorten together for steam (default 3) */
+  steamMinBooks?: number;
+  /** Soft books drifting against the sharp move for rlm (default 2) */
+  rlmMinBooks?: number;
+  /** How long moves stay in the window (default 3 minutes) */
+  windowMs?: number;
+  /** Book ids treated as sharp leaders */
+  sharpBooks?: string[];
+}
+
+export interface SteamBookPrice {
+  price: number;
+  updated_at: number;
+  /** Price moves are measured from; reset after each move or once older than the window */
+  anchor: number;
+  anchor_at: number;
+}
+
+/** Persisted per-selection state so detection survives cron windows */
+export interface SteamSelectionState {
+  selection: SteamSelection;
+  prices: Record<string, SteamBookPrice>;
+  moves: SteamMove[];
+  /** kind -> signature of the last emitted signal */
+  emitted: Record<string, string>;
+}
+
+export interface SteamDetectorSummary {
+  sports: string[];
+  messages: number;
+  keysRead: number;
+  moves: number;
+  signals: number;
+  errors: number;
+}
@@ -6,6 +6,9 @@
  * come from global settings.
  */
 
+import type { EVFairSource } from "@/lib/ev/types";
+import type { ProjectionWeights } from "@/lib/projections/types";
+
 /**
  * User-created custom model for the Positive EV tool
  */
@@ -34,6 +37,10 @@ export interface EvModel {
   min_odds: number;
   max_odds: number;
   
+  // Fair probability source (hit-rate projection vs market)
+  fair_source: EVFairSource;
+  projection_weights: ProjectionWeights | null;  // null = DEFAULT_PROJECTION_WEIGHTS
+  
   // State
   is_active: boolean;
   is_favorite: boolean;
@@ -70,6 +77,10 @@ export interface EvModelCreate {
   min_odds?: number;
   max_odds?: number;
   
+  // Fair probability source
+  fair_source?: EVFairSource;
+  projection_weights?: ProjectionWeights | null;
+  
   // Metadata
   is_favorite?: boolean;
 }
@@ -125,6 +136,15 @@ export const EV_MODEL_SPORTS = [
   { value: "ufc", label: "UFC", icon: "🥊" },
 ] as const;
 
+/**
+ * Fair probability sources for EV models
+ */
+export const EV_FAIR_SOURCES: { value: EVFairSource; label: string; description: string }[] = [
+  { value: "market", label: "Market", description: "De-vigged sharp book prices" },
+  { value: "model", label: "Projection", description: "Hit-rate model fit around the line (NBA/WNBA props)" },
+  { value: "blend", label: "Blend", description: "Weighted mix of projection and market" },
+];
+
 /**
  * Sharp book presets for quick selection
  */
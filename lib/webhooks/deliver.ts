@@ -0,0 +1,381 @@
+/**
+ * Webhook Delivery (server)
+ *
+ * Signs and POSTs payloads, logs every attempt to user_webhook_deliveries
+ * (the latest on the row, all of them in its `attempts` array) and
+ * schedules retries with exponential backoff. Each failed attempt bumps the
+ * endpoint's consecutive_failures; a success resets it, and the webhook is
+ * disabled (and its pending retries dropped) at the threshold so a dead
+ * endpoint doesn't get hammered every minute. Test sends are logged but
+ * never retried and don't count towards disabling.
+ *
+ * A delivery row is written before the first attempt and leased
+ * (next_retry_at pushed past the run) before every retry, so a run that
+ * dies mid-send leaves a row the next run picks up, and overlapping runs
+ * never send the same retry twice.
+ */
+
+import { request } from "https";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { resolvePublicAddress, type ResolvedAddress } from "./network";
+import { isPublicHttpsUrl } from "./schema";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from "./sign";
+import type {
+  WebhookAttemptResult,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookRecord,
+  WebhookRunSummary,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const MAX_ERROR_LENGTH = 300;
+const MAX_RETRIES_PER_RUN = 100;
+/** How long a claimed delivery is hidden from other runs; longer than a cron run */
+const DELIVERY_LEASE_MS = 2 * 60_000;
+
+/** Delay before each retry; the first attempt is immediate */
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 480];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1;
+
+/** Consecutive failed attempts (across all events) before the endpoint is disabled */
+export const AUTO_DISABLE_AFTER_FAILURES = 20;
+
+/**
+ * POST to the pinned address. Host header and TLS name still come from the
+ * URL, so certificates are validated against the real hostname.
+ */
+function postToAddress(
+  url: URL,
+  pinned: ResolvedAddress,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<{ status: number; text: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        signal,
+        lookup: (_hostname, options, callback) => {
+          if (options.all) callback(null, [pinned]);
+          else callback(null, pinned.address, pinned.family);
+        },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          res.resume();
+          resolve({ status, text: "" });
+          return;
+        }
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          text += chunk;
+          if (text.length >= MAX_ERROR_LENGTH) res.destroy();
+        });
+        res.on("close", () => resolve({ status, text }));
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * One signed POST. Never throws. The host is resolved and checked when the
+ * request is sent, and the connection goes to that address; redirects are
+ * treated as failures so an endpoint can't bounce the request elsewhere.
+ */
+export async function postWebhook(
+  webhook: Pick<WebhookRecord, "url" | "secret">,
+  payload: WebhookPayload
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(payload);
+  const startedAt = Date.now();
+
+  try {
+    if (!isPublicHttpsUrl(webhook.url)) throw new Error("Webhook URL must be a public https:// URL");
+    const url = new URL(webhook.url);
+    const signal = AbortSignal.timeout(WEBHOOK_TIMEOUT_MS);
+    const pinned = await resolvePublicAddress(url.hostname);
+
+    const response = await postToAddress(
+      url,
+      pinned,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Unjuiced-Webhooks/1.0",
+        [WEBHOOK_EVENT_HEADER]: payload.type,
+        [WEBHOOK_DELIVERY_HEADER]: payload.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+      },
+      body,
+      signal
+    );
+    const response_ms = Date.now() - startedAt;
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, response_code: response.status, response_ms, error: null };
+    }
+    return {
+      ok: false,
+      response_code: response.status,
+      response_ms,
+      error: `HTTP ${response.status}${response.text ? `: ${response.text}` : ""}`.slice(0, MAX_ERROR_LENGTH),
+    };
+  } catch (err) {
+    const timedOut = err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError");
+    return {
+      ok: false,
+      response_code: null,
+      response_ms: Date.now() - startedAt,
+      error: timedOut
+        ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s`
+        : (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH),
+    };
+  }
+}
+
+function nextRetryAt(attempt: number, now: number): string | null {
+  const delay = WEBHOOK_RETRY_DELAYS_MINUTES[attempt - 1];
+  return delay === undefined ? null : new Date(now + delay * 60_000).toISOString();
+}
+
+function statusAfterAttempt(result: WebhookAttemptResult, attempt: number, retry: boolean): WebhookDeliveryStatus {
+  if (result.ok) return "succeeded";
+  return retry && attempt < MAX_WEBHOOK_ATTEMPTS ? "retrying" : "failed";
+}
+
+/**
+ * Update the endpoint's health after an attempt. Mutates `webhook` so later
+ * attempts in the same run see the new counter. Returns true if this
+ * attempt disabled it.
+ */
+async function recordAttemptOutcome(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  result: WebhookAttemptResult,
+  now: number
+): Promise<boolean> {
+  const at = new Date(now).toISOString();
+
+  if (result.ok) {
+    webhook.consecutive_failures = 0;
+    await supabase
+      .from("user_webhooks")
+      .update({ consecutive_failures: 0, last_delivery_at: at, last_success_at: at })
+      .eq("id", webhook.id);
+    return false;
+  }
+
+  webhook.consecutive_failures += 1;
+  const disable = webhook.consecutive_failures >= AUTO_DISABLE_AFTER_FAILURES;
+  const update: Partial<WebhookRecord> = {
+    consecutive_failures: webhook.consecutive_failures,
+    last_delivery_at: at,
+  };
+  if (disable) {
+    webhook.enabled = false;
+    update.enabled = false;
+    update.disabled_at = at;
+    update.disabled_reason = `Disabled after ${webhook.consecutive_failures} consecutive failed deliveries (last: ${result.error ?? "unknown error"})`.slice(0, MAX_ERROR_LENGTH);
+  }
+  await supabase.from("user_webhooks").update(update).eq("id", webhook.id);
+
+  if (disable) {
+    console.warn(`[webhooks] Disabled webhook ${webhook.id} after ${webhook.consecutive_failures} failures`);
+    await supabase
+      .from("user_webhook_deliveries")
+      .update({ status: "failed", next_retry_at: null, error: "Webhook disabled", updated_at: at })
+      .eq("webhook_id", webhook.id)
+      .eq("status", "retrying");
+  }
+  return disable;
+}
+
+/** True while another attempt can finish before `deadline` */
+export function hasTimeForAttempt(deadline: number): boolean {
+  return Date.now() + WEBHOOK_TIMEOUT_MS < deadline;
+}
+
+/**
+ * Write the delivery row for a new event before anything is sent. It starts
+ * leased as a pending retry, so if the send never completes the retry pass
+ * sends it once the lease runs out.
+ */
+export async function logWebhookEvent(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  payload: WebhookPayload
+): Promise<WebhookDelivery | null> {
+  const { data, error } = await supabase
+    .from("user_webhook_deliveries")
+    .insert({
+      webhook_id: webhook.id,
+      user_id: webhook.user_id,
+      event_id: payload.id,
+      event_type: payload.type,
+      payload,
+      status: "retrying",
+      attempt: 0,
+      next_retry_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`[webhooks] Failed to log delivery for ${webhook.id}:`, error.message);
+    return null;
+  }
+  return data as WebhookDelivery;
+}
+
+/**
+ * Make the next attempt for a logged (and leased) delivery and record it.
+ * `retry: false` is used for test sends.
+ */
+export async function sendWebhookDelivery(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  delivery: WebhookDelivery,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<{ result: WebhookAttemptResult; disabled: boolean }> {
+  const attempt = delivery.attempt + 1;
+  const result = await postWebhook(webhook, delivery.payload);
+  const attemptedAt = Date.now();
+  const status = statusAfterAttempt(result, attempt, retry);
+  // The row is leased to this run, so nothing else appends concurrently
+  const attempts: WebhookDeliveryAttempt[] = [
+    ...(delivery.attempts ?? []),
+    {
+      attempt,
+      attempted_at: new Date(attemptedAt).toISOString(),
+      response_code: result.response_code,
+      response_ms: result.response_ms,
+      error: result.error,
+    },
+  ];
+
+  const { error } = await supabase
+    .from("user_webhook_deliveries")
+    .update({
+      status,
+      attempt,
+      response_code: result.response_code,
+      response_ms: result.response_ms,
+      error: result.error,
+      attempts,
+      next_retry_at: status === "retrying" ? nextRetryAt(attempt, attemptedAt) : null,
+      updated_at: new Date(attemptedAt).toISOString(),
+    })
+    .eq("id", delivery.id);
+  if (error) {
+    console.error(`[webhooks] Failed to record attempt for delivery ${delivery.id}:`, error.message);
+  }
+
+  const disabled = retry ? await recordAttemptOutcome(supabase, webhook, result, attemptedAt) : false;
+  return { result, disabled };
+}
+
+/**
+ * Log a new event and send it. `retry: false` is used for test sends.
+ */
+export async function deliverWebhookEvent(
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  payload: WebhookPayload,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<{ delivery: WebhookDelivery | null; result: WebhookAttemptResult; disabled: boolean }> {
+  const delivery = await logWebhookEvent(supabase, webhook, payload);
+  if (!delivery) {
+    // Still send test pings so the user sees whether the endpoint works
+    const result = await postWebhook(webhook, payload);
+    return { delivery: null, result, disabled: false };
+  }
+  const { result, disabled } = await sendWebhookDelivery(supabase, webhook, delivery, { retry });
+  return { delivery, result, disabled };
+}
+
+/**
+ * Claim a due retry by pushing its next_retry_at past this run. False when
+ * another run got to it first.
+ */
+async function claimDueDelivery(supabase: SupabaseClient, delivery: WebhookDelivery, now: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("user_webhook_deliveries")
+    .update({ next_retry_at: new Date(now + DELIVERY_LEASE_MS).toISOString() })
+    .eq("id", delivery.id)
+    .eq("status", "retrying")
+    .lte("next_retry_at", new Date(now).toISOString())
+    .select("id");
+  if (error) {
+    console.error(`[webhooks] Failed to claim delivery ${delivery.id}:`, error.message);
+    return false;
+  }
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Re-send deliveries whose backoff has elapsed, stopping before `deadline`.
+ * The payload (and event id) is resent unchanged so receivers can dedupe.
+ */
+export async function retryDueWebhookDeliveries(
+  supabase: SupabaseClient,
+  summary: WebhookRunSummary,
+  { deadline, now = Date.now() }: { deadline: number; now?: number }
+): Promise<void> {
+  const { data: due, error } = await supabase
+    .from("user_webhook_deliveries")
+    .select("*")
+    .eq("status", "retrying")
+    .lte("next_retry_at", new Date(now).toISOString())
+    .order("next_retry_at", { ascending: true })
+    .limit(MAX_RETRIES_PER_RUN);
+
+  if (error) {
+    console.error("[webhooks] Failed to load due retries:", error.message);
+    return;
+  }
+  const deliveries = (due ?? []) as WebhookDelivery[];
+  if (deliveries.length === 0) return;
+
+  const { data: webhookRows } = await supabase
+    .from("user_webhooks")
+    .select("*")
+    .in("id", [...new Set(deliveries.map((d) => d.webhook_id))]);
+  const webhooks = new Map(((webhookRows ?? []) as WebhookRecord[]).map((w) => [w.id, w]));
+
+  for (const delivery of deliveries) {
+    if (!hasTimeForAttempt(deadline)) break;
+
+    const webhook = webhooks.get(delivery.webhook_id);
+    if (!webhook?.enabled) {
+      await supabase
+        .from("user_webhook_deliveries")
+        .update({ status: "failed", next_retry_at: null, error: "Webhook disabled", updated_at: new Date().toISOString() })
+        .eq("id", delivery.id)
+        .eq("status", "retrying");
+      continue;
+    }
+    if (!(await claimDueDelivery(supabase, delivery, Date.now()))) continue;
+
+    summary.retries_attempted++;
+    const { result, disabled } = await sendWebhookDelivery(supabase, webhook, delivery);
+    if (result.ok) summary.succeeded++;
+    else summary.failed++;
+    if (disabled) summary.disabled++;
+  }
+}
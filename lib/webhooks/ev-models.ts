@@ -0,0 +1,257 @@
+/**
+ * Webhook EV Model Matches (server)
+ *
+ * EV models are evaluated the way the +EV page runs them: one
+ * /api/v2/positive-ev query per model (per sport when the model picks
+ * markets sport by sport) with the model's sharp books and weights, merged
+ * with best EV winning. Models with a "model" or "blend" fair source are
+ * re-priced against the hit-rate projection and matched on that EV.
+ *
+ * The +EV route has no fallback blend, so fallback settings don't apply
+ * here, same as on the page.
+ */
+
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { DEFAULT_DEVIG_METHODS } from "@/lib/ev/constants";
+import { impliedProbToAmerican, calculateKelly } from "@/lib/ev/devig";
+import { evaluateProjectionEV, marketFairProb, projectionSourceEV } from "@/lib/ev/projection";
+import type { PositiveEVOpportunity, PositiveEVResponse } from "@/lib/ev/types";
+import { hitRateSelectionKey, normalizeProjectionWeights } from "@/lib/projections/hit-rate-model";
+import { loadHitRateModelInputs, type HitRateModelLeague } from "@/lib/projections/hit-rate-inputs";
+import type { HitRateModelInputs } from "@/lib/projections/types";
+import {
+  EV_MODEL_EMPTY_SPORT_MARKET,
+  EV_MODEL_SPORTS,
+  parseEvModelSportMarketKey,
+  parseEvSports,
+  type EvModel,
+} from "@/lib/types/ev-models";
+import type { WebhookOpportunity } from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Fields of an EV model that shape its +EV query and pricing */
+export type WebhookEvModel = Pick<
+  EvModel,
+  | "id"
+  | "user_id"
+  | "name"
+  | "sport"
+  | "markets"
+  | "market_type"
+  | "sharp_books"
+  | "book_weights"
+  | "min_books_reference"
+  | "min_odds"
+  | "max_odds"
+  | "fair_source"
+  | "projection_weights"
+>;
+
+/** An opportunity with the EV its model's fair source prices it at */
+export interface EvModelMatch {
+  opportunity: PositiveEVOpportunity;
+  evPct: number;
+  fairProb: number | null;
+}
+
+export const EV_MODEL_COLUMNS =
+  "id, user_id, name, sport, markets, market_type, sharp_books, book_weights, min_books_reference, min_odds, max_odds, fair_source, projection_weights";
+
+const POSITIVE_EV_QUERY_LIMIT = 100;
+const POSITIVE_EV_TIMEOUT_MS = 30_000;
+const PROJECTION_LEAGUES: HitRateModelLeague[] = ["nba", "wnba"];
+const MAX_PROJECTION_SELECTIONS = 500;
+
+const ALL_EV_SPORTS = EV_MODEL_SPORTS.map((sport) => sport.value as string);
+
+/**
+ * /api/v2/positive-ev params for a model, mirroring the +EV page: a model
+ * that picks markets per sport runs one query per sport, and sports whose
+ * markets were all cleared are skipped. Projection models fetch every +EV
+ * row and apply `minEV` after re-pricing.
+ */
+export function buildEvModelQueries(model: WebhookEvModel, minEV: number): URLSearchParams[] {
+  const sports = parseEvSports(model.sport);
+  const allSports = sports.length > 0 ? sports : ALL_EV_SPORTS;
+  const composite = (model.markets ?? [])
+    .map(parseEvModelSportMarketKey)
+    .filter((entry): entry is { sport: string; market: string } => entry !== null);
+
+  const groups: Array<{ sports: string[]; markets: string[] | null; marketType: EvModel["market_type"] }> = [];
+  if (composite.length > 0) {
+    const perSportLimit = Math.max(1, Math.ceil(POSITIVE_EV_QUERY_LIMIT / allSports.length));
+    for (const sport of allSports) {
+      const entries = composite.filter((entry) => entry.sport === sport);
+      const markets = entries.map((entry) => entry.market).filter((market) => market !== EV_MODEL_EMPTY_SPORT_MARKET);
+      if (entries.length > 0 && markets.length === 0) continue;
+      groups.push({ sports: [sport], markets: entries.length > 0 ? markets : null, marketType: "all" });
+    }
+    return groups.map((group) => toQueryParams(model, group, minEV, perSportLimit));
+  }
+
+  groups.push({ sports: allSports, markets: model.markets, marketType: model.market_type });
+  return groups.map((group) => toQueryParams(model, group, minEV, POSITIVE_EV_QUERY_LIMIT));
+}
+
+function toQueryParams(
+  model: WebhookEvModel,
+  group: { sports: string[]; markets: string[] | null; marketType: EvModel["market_type"] },
+  minEV: number,
+  limit: number
+): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("sports", group.sports.join(","));
+  if (group.markets && group.markets.length > 0) params.set("markets", group.markets.join(","));
+  if (group.marketType && group.marketType !== "all") params.set("marketType", group.marketType);
+
+  if (model.sharp_books.length > 0) {
+    params.set("customSharpBooks", model.sharp_books.join(","));
+    if (model.book_weights && Object.keys(model.book_weights).length > 0) {
+      params.set("customBookWeights", JSON.stringify(model.book_weights));
+    }
+  }
+  params.set("devigMethods", DEFAULT_DEVIG_METHODS.join(","));
+  if (minEV > 0 && (model.fair_source ?? "market") === "market") params.set("minEV", String(minEV));
+  params.set("minOdds", String(model.min_odds ?? -500));
+  params.set("maxOdds", String(model.max_odds ?? 500));
+  params.set("mode", "pregame");
+  params.set("minBooksPerSide", String(model.min_books_reference || 2));
+  params.set("limit", String(limit));
+  return params;
+}
+
+/**
+ * Run one +EV query as the cron. The route skips its plan check for the
+ * cron secret; the runner has already checked the model owner's plan.
+ */
+export async function fetchPositiveEV(baseUrl: string, query: string): Promise<PositiveEVOpportunity[]> {
+  const headers: Record<string, string> = { accept: "application/json" };
+  if (process.env.CRON_SECRET) headers.authorization = `Bearer ${process.env.CRON_SECRET}`;
+
+  const response = await fetch(`${baseUrl}/api/v2/positive-ev?${query}`, {
+    headers,
+    signal: AbortSignal.timeout(POSITIVE_EV_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`+EV query failed: HTTP ${response.status}`);
+  }
+  const json = (await response.json()) as Partial<PositiveEVResponse>;
+  return json.opportunities ?? [];
+}
+
+const evWorst = (opp: PositiveEVOpportunity) => opp.evCalculations?.evWorst ?? -Infinity;
+
+/** Merge per-query results, keeping the best EV per selection and book */
+export function mergeEvModelResults(results: PositiveEVOpportunity[][]): PositiveEVOpportunity[] {
+  const byKey = new Map<string, PositiveEVOpportunity>();
+  for (const opp of results.flat()) {
+    const key = `${opp.eventId}:${opp.playerName || "game"}:${opp.market}:${opp.line}:${opp.side}:${opp.book?.bookId || "unknown"}`;
+    const existing = byKey.get(key);
+    if (!existing || evWorst(opp) > evWorst(existing)) byKey.set(key, opp);
+  }
+  return [...byKey.values()];
+}
+
+function isProjectable(opp: PositiveEVOpportunity): boolean {
+  return (
+    (PROJECTION_LEAGUES as string[]).includes(opp.sport) &&
+    !!opp.playerName &&
+    (opp.side === "over" || opp.side === "under")
+  );
+}
+
+/** Attach hit-rate projections to the player props the model can price */
+async function withProjections(
+  supabase: SupabaseClient,
+  model: WebhookEvModel,
+  opportunities: PositiveEVOpportunity[]
+): Promise<PositiveEVOpportunity[]> {
+  const inputs = new Map<string, HitRateModelInputs>();
+  for (const league of PROJECTION_LEAGUES) {
+    const selections = new Map<string, PositiveEVOpportunity>();
+    for (const opp of opportunities) {
+      if (opp.sport !== league || !isProjectable(opp)) continue;
+      const key = hitRateSelectionKey(opp.eventId, opp.market, opp.playerName ?? "");
+      if (selections.size < MAX_PROJECTION_SELECTIONS && !selections.has(key)) selections.set(key, opp);
+    }
+    if (selections.size === 0) continue;
+
+    const loaded = await loadHitRateModelInputs(
+      supabase,
+      league,
+      [...selections.values()].map((opp) => ({
+        event_id: opp.eventId,
+        market: opp.market,
+        player_name: opp.playerName ?? "",
+        start_time: opp.startTime ?? null,
+        game_date: opp.gameDate ?? null,
+      }))
+    );
+    for (const [key, value] of loaded) inputs.set(key, value);
+  }
+
+  const weights = normalizeProjectionWeights(model.projection_weights);
+  return opportunities.map((opp) => {
+    const profile = isProjectable(opp)
+      ? inputs.get(hitRateSelectionKey(opp.eventId, opp.market, opp.playerName ?? ""))
+      : undefined;
+    const projection = profile ? evaluateProjectionEV(opp, profile, weights) : null;
+    return projection ? { ...opp, projection } : opp;
+  });
+}
+
+/**
+ * Opportunities a model matches, priced by its fair source and sorted by
+ * that EV. Only plays above zero (and `minEV`, when set) are returned.
+ */
+export async function priceEvModelMatches(
+  supabase: SupabaseClient,
+  model: WebhookEvModel,
+  opportunities: PositiveEVOpportunity[],
+  minEV: number
+): Promise<EvModelMatch[]> {
+  const source = model.fair_source ?? "market";
+  const priced = source === "market" ? opportunities : await withProjections(supabase, model, opportunities);
+
+  return priced
+    .map((opp) => {
+      const { projection } = opp;
+      let fairProb = marketFairProb(opp);
+      if (projection && source === "model") fairProb = projection.modelProb;
+      if (projection && source === "blend") fairProb = projection.blendedProb;
+      return { opportunity: opp, evPct: projectionSourceEV(opp, source), fairProb };
+    })
+    .filter((match) => match.evPct > 0 && match.evPct >= minEV)
+    .sort((a, b) => b.evPct - a.evPct);
+}
+
+const formatAmerican = (odds: number) => `${odds > 0 ? "+" : ""}${Math.round(odds)}`;
+
+export function toWebhookEvOpportunity({ opportunity: opp, evPct, fairProb }: EvModelMatch): WebhookOpportunity {
+  const sharpOdds =
+    opp.side === "over" || opp.side === "yes" ? opp.sharpReference?.overOdds : opp.sharpReference?.underOdds;
+  const bookProb = opp.book.priceDecimal > 0 ? 1 / opp.book.priceDecimal : null;
+
+  return {
+    id: opp.id,
+    sport: opp.sport,
+    event_id: opp.eventId,
+    home_team: opp.homeTeam ?? "",
+    away_team: opp.awayTeam ?? "",
+    game_start: opp.startTime ?? "",
+    player: opp.playerName || null,
+    market: opp.market,
+    market_display: opp.marketDisplay,
+    line: opp.line,
+    side: opp.side,
+    best_book: opp.book.bookId,
+    best_price: formatAmerican(opp.book.price),
+    best_link: opp.book.link ?? null,
+    sharp_price: typeof sharpOdds === "number" ? formatAmerican(sharpOdds) : null,
+    fair_american: fairProb != null ? formatAmerican(impliedProbToAmerican(fairProb)) : null,
+    ev_pct: evPct,
+    edge_pct: fairProb != null && bookProb != null ? Math.round((fairProb - bookProb) * 10_000) / 100 : null,
+    kelly_fraction: fairProb != null ? calculateKelly(fairProb, opp.book.price) : null,
+  };
+}
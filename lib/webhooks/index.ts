@@ -0,0 +1,68 @@
+/**
+ * Webhooks Library
+ *
+ * User-configured endpoints that receive HMAC-signed JSON when a saved
+ * filter preset or EV model matches new opportunities, with retries and
+ * backoff, a delivery log and automatic disabling of failing endpoints.
+ */
+
+// Types
+export type {
+  WebhookSourceType,
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  UserWebhook,
+  WebhookRecord,
+  WebhookSource,
+  WebhookOpportunity,
+  OpportunityMatchedData,
+  WebhookTestData,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookAttemptResult,
+  WebhookRunSummary,
+} from "./types";
+
+// Validation
+export {
+  MAX_WEBHOOKS_PER_USER,
+  MAX_SOURCES_PER_WEBHOOK,
+  isPublicHttpsUrl,
+  CreateWebhookSchema,
+  UpdateWebhookSchema,
+  WebhookDeliveriesQuerySchema,
+} from "./schema";
+export type { CreateWebhookInput, UpdateWebhookInput } from "./schema";
+
+// Signing (server)
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./sign";
+
+// Network checks (server)
+export { isPrivateAddress, resolvePublicAddress } from "./network";
+export type { ResolvedAddress } from "./network";
+
+// Delivery & runner (server)
+export {
+  WEBHOOK_RETRY_DELAYS_MINUTES,
+  MAX_WEBHOOK_ATTEMPTS,
+  AUTO_DISABLE_AFTER_FAILURES,
+  postWebhook,
+  hasTimeForAttempt,
+  logWebhookEvent,
+  sendWebhookDelivery,
+  deliverWebhookEvent,
+  retryDueWebhookDeliveries,
+} from "./deliver";
+export { findUnownedWebhookSources } from "./sources";
+export { buildEvModelQueries, priceEvModelMatches, toWebhookEvOpportunity } from "./ev-models";
+export type { WebhookEvModel, EvModelMatch } from "./ev-models";
+export { MAX_OPPORTUNITIES_PER_EVENT, WEBHOOK_RUN_BUDGET_MS, buildOpportunityQuery, toWebhookOpportunity, runWebhooks } from "./runner";
@@ -0,0 +1,109 @@
+/**
+ * Webhook Network Checks (server)
+ *
+ * URL validation only sees the hostname, and a public-looking name can
+ * resolve to a private address (e.g. 127.0.0.1.nip.io). Deliveries resolve
+ * the host at send time, refuse loopback, private, link-local, CGNAT and
+ * other non-routable ranges, and connect to the address that was checked.
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+export interface ResolvedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+/** [first octets..., prefix length] */
+const PRIVATE_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "this" network
+  [[10], 8],
+  [[100, 64], 10], // CGNAT
+  [[127], 8],
+  [[169, 254], 16], // link-local, cloud metadata
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 168], 16],
+  [[198, 18], 15], // benchmarking
+  [[224], 3], // multicast, reserved, broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((acc, octet) => acc * 256 + Number(octet), 0);
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([octets, prefix]) => {
+    const base = ipv4ToNumber([...octets, 0, 0, 0, 0].slice(0, 4).join("."));
+    const size = 2 ** (32 - prefix);
+    return value >= base && value < base + size;
+  });
+}
+
+/** Expand an IPv6 address into eight 16-bit groups */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  // Trailing dotted quad (::ffff:10.0.0.1) becomes two groups
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = text.slice(0, -dotted[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const fill = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...fill, ...tailGroups];
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  const embedsIpv4 =
+    (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIpv4) {
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join("."));
+  }
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 || // site-local fec0::/10
+    (first & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/**
+ * True for any address a webhook must not be delivered to. Anything that
+ * isn't a valid IP literal counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version === 6) return isPrivateIpv6(address);
+  return true;
+}
+
+/**
+ * Resolve a webhook host and return the address to connect to. Throws if
+ * the host doesn't resolve or any of its addresses is private, so a name
+ * with mixed records can't be used to reach an internal service.
+ */
+export async function resolvePublicAddress(hostname: string): Promise<ResolvedAddress> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) throw new Error(`${host} resolves to a private address (${blocked.address})`);
+
+  const [first] = addresses;
+  return { address: first.address, family: first.family === 6 ? 6 : 4 };
+}
@@ -0,0 +1,390 @@
+/**
+ * Webhook Runner (server)
+ *
+ * Called by the deliver-webhooks cron. First re-sends deliveries whose
+ * retry backoff has elapsed, then evaluates every enabled webhook: each
+ * attached filter preset is turned into the same /api/v2/opportunities
+ * query the edge finder runs for it, each EV model into the +EV page's
+ * queries (see ./ev-models), and opportunities the webhook hasn't seen for
+ * that source are sent as one opportunity.matched event per source.
+ *
+ * "Seen" is tracked per webhook + source in a Redis set. The first run after
+ * a source is attached only records what's already on the board, so an
+ * endpoint receives opportunities that appear after it was set up rather
+ * than a backlog. Queries are shared across webhooks within a run.
+ */
+
+import { randomUUID } from "crypto";
+import type { createServerSupabaseClient } from "@/lib/supabase-server";
+import { DEFAULT_ALERT_SPORTS } from "@/lib/alerts/feeds";
+import { DOMAINS } from "@/lib/domain";
+import { hasEliteAccess, hasSharpAccess, type UserPlan } from "@/lib/plans";
+import { getUserPlanById } from "@/lib/plans-server";
+import { redis } from "@/lib/shared-redis-client";
+import { parseOpportunity, type Opportunity } from "@/lib/types/opportunities";
+import { parseSports, type FilterPreset } from "@/lib/types/filter-presets";
+import type { PositiveEVOpportunity } from "@/lib/ev/types";
+import { hasTimeForAttempt, logWebhookEvent, retryDueWebhookDeliveries, sendWebhookDelivery } from "./deliver";
+import {
+  EV_MODEL_COLUMNS,
+  buildEvModelQueries,
+  fetchPositiveEV,
+  mergeEvModelResults,
+  priceEvModelMatches,
+  toWebhookEvOpportunity,
+  type WebhookEvModel,
+} from "./ev-models";
+import type {
+  WebhookOpportunity,
+  WebhookPayload,
+  WebhookRecord,
+  WebhookRunSummary,
+  WebhookSource,
+  WebhookSourceType,
+} from "./types";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Fields of a filter preset that shape the opportunities query */
+type SourceConfig = Pick<
+  FilterPreset,
+  | "id"
+  | "user_id"
+  | "name"
+  | "sport"
+  | "markets"
+  | "market_type"
+  | "sharp_books"
+  | "book_weights"
+  | "fallback_mode"
+  | "min_books_reference"
+  | "min_odds"
+  | "max_odds"
+>;
+
+/** Max opportunities in one opportunity.matched event; the rest go next run */
+export const MAX_OPPORTUNITIES_PER_EVENT = 25;
+
+/** Work stops starting new sends after this, inside the cron's 60s limit */
+export const WEBHOOK_RUN_BUDGET_MS = 45_000;
+
+const OPPORTUNITIES_QUERY_LIMIT = 100;
+const OPPORTUNITIES_TIMEOUT_MS = 30_000;
+const SEEN_TTL_SECONDS = 48 * 60 * 60;
+const PRIMED_MEMBER = "__primed__";
+const EMPTY_SPORT_MARKET = "__none__";
+
+const SOURCE_COLUMNS =
+  "id, user_id, name, sport, markets, market_type, sharp_books, book_weights, fallback_mode, min_books_reference, min_odds, max_odds";
+
+const SOURCE_PAGES: Record<WebhookSourceType, string> = {
+  filter_preset: "/edge-finder",
+  ev_model: "/positive-ev",
+};
+
+const seenKey = (webhookId: string, type: WebhookSourceType, sourceId: string) =>
+  `webhooks:seen:${webhookId}:${type}:${sourceId}`;
+
+/**
+ * /api/v2/opportunities params for a preset, mirroring how the
+ * edge finder builds them (composite "sport:market" entries narrow both
+ * the sports and the markets).
+ */
+export function buildOpportunityQuery(source: SourceConfig, minEV: number): URLSearchParams {
+  const params = new URLSearchParams();
+
+  let sports = parseSports(source.sport).map((s) => s.toLowerCase());
+  let markets = (source.markets ?? []).map((m) => m.toLowerCase());
+
+  const composite = markets
+    .map((value) => {
+      const [sport, market] = value.split(":");
+      return sport && market ? { sport, market } : null;
+    })
+    .filter((entry): entry is { sport: string; market: string } => entry !== null);
+  if (composite.length > 0) {
+    const real = composite.filter((entry) => entry.market !== EMPTY_SPORT_MARKET);
+    const customized = new Set(composite.map((entry) => entry.sport));
+    sports = sports.filter((sport) => !customized.has(sport) || real.some((entry) => entry.sport === sport));
+    markets = [...new Set(real.map((entry) => entry.market))];
+  }
+
+  params.set("sports", (sports.length > 0 ? sports : DEFAULT_ALERT_SPORTS).join(","));
+  if (markets.length > 0) params.set("markets", markets.join(","));
+
+  const books = [...new Set((source.sharp_books ?? []).map((b) => b.toLowerCase()))];
+  if (books.length > 0) {
+    // No (or all-zero) weights = equal blend, same as the preset editor
+    const weighted = books.some((book) => (source.book_weights?.[book] ?? 0) > 0);
+    const weights = books.map((book) => (weighted ? Math.max(0, source.book_weights?.[book] ?? 0) : 1));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    params.set(
+      "blend",
+      books
+        .map((book, i) => ({ book, weight: weights[i] / total }))
+        .filter(({ weight }) => weight > 0)
+        .map(({ book, weight }) => `${book}:${weight.toFixed(4)}`)
+        .join(",")
+    );
+  }
+  if (source.fallback_mode !== "use_fallback") params.set("requireFullBlend", "true");
+
+  params.set("minBooksPerSide", String(source.min_books_reference || 2));
+  if (source.market_type && source.market_type !== "all" && composite.length === 0) {
+    params.set("marketType", source.market_type);
+  }
+  params.set("minOdds", String(source.min_odds ?? -500));
+  params.set("maxOdds", String(source.max_odds ?? 500));
+  if (minEV > 0) params.set("minEV", String(minEV));
+  params.set("sort", "ev");
+  params.set("limit", String(OPPORTUNITIES_QUERY_LIMIT));
+  return params;
+}
+
+async function fetchOpportunities(baseUrl: string, query: string): Promise<Opportunity[]> {
+  const response = await fetch(`${baseUrl}/api/v2/opportunities?${query}`, {
+    headers: { accept: "application/json" },
+    signal: AbortSignal.timeout(OPPORTUNITIES_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Opportunities query failed: HTTP ${response.status}`);
+  }
+  const json = (await response.json()) as { opportunities?: Record<string, unknown>[] };
+  return (json.opportunities ?? []).map(parseOpportunity);
+}
+
+export function toWebhookOpportunity(opp: Opportunity): WebhookOpportunity {
+  return {
+    id: opp.id,
+    sport: opp.sport,
+    event_id: opp.eventId,
+    home_team: opp.homeTeam,
+    away_team: opp.awayTeam,
+    game_start: opp.gameStart,
+    player: opp.player || null,
+    market: opp.market,
+    market_display: opp.marketDisplay,
+    line: opp.line,
+    side: opp.side,
+    best_book: opp.bestBook,
+    best_price: opp.bestPrice,
+    best_link: opp.bestLink,
+    sharp_price: opp.sharpPrice,
+    fair_american: opp.fairAmerican,
+    ev_pct: opp.evPct,
+    edge_pct: opp.edgePct,
+    kelly_fraction: opp.kellyFraction,
+  };
+}
+
+/**
+ * `candidates` this webhook hasn't sent for the source yet (at most
+ * MAX_OPPORTUNITIES_PER_EVENT). The priming run records the board as seen
+ * and returns [].
+ */
+async function findUnseenOpportunities(
+  webhookId: string,
+  source: WebhookSource,
+  candidates: WebhookOpportunity[]
+): Promise<WebhookOpportunity[]> {
+  const key = seenKey(webhookId, source.type, source.id);
+  const ids = candidates.map((opp) => opp.id);
+
+  if (!(await redis.exists(key))) {
+    await redis.sadd(key, PRIMED_MEMBER, ...ids);
+    await redis.expire(key, SEEN_TTL_SECONDS);
+    return [];
+  }
+  if (ids.length === 0) return [];
+
+  const seen = await redis.smismember(key, ids);
+  return candidates.filter((_, i) => !seen[i]).slice(0, MAX_OPPORTUNITIES_PER_EVENT);
+}
+
+/** Called once the event carrying `sent` has a delivery row */
+async function markOpportunitiesSeen(webhookId: string, source: WebhookSource, sent: WebhookOpportunity[]) {
+  const key = seenKey(webhookId, source.type, source.id);
+  const [first, ...rest] = sent.map((opp) => opp.id);
+  await redis.sadd(key, first, ...rest);
+  await redis.expire(key, SEEN_TTL_SECONDS);
+}
+
+interface LoadedSources {
+  presets: Map<string, SourceConfig>;
+  models: Map<string, WebhookEvModel>;
+}
+
+async function loadSources(supabase: SupabaseClient, webhooks: WebhookRecord[]): Promise<LoadedSources> {
+  const presetIds = [...new Set(webhooks.flatMap((w) => w.filter_preset_ids))];
+  const modelIds = [...new Set(webhooks.flatMap((w) => w.ev_model_ids))];
+
+  const [presets, models] = await Promise.all([
+    presetIds.length > 0
+      ? supabase.from("user_filter_presets").select(SOURCE_COLUMNS).in("id", presetIds)
+      : Promise.resolve({ data: [], error: null }),
+    modelIds.length > 0
+      ? supabase.from("user_ev_models").select(EV_MODEL_COLUMNS).in("id", modelIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (presets.error) console.error("[webhooks] Failed to load filter presets:", presets.error.message);
+  if (models.error) console.error("[webhooks] Failed to load EV models:", models.error.message);
+
+  return {
+    presets: new Map(((presets.data ?? []) as SourceConfig[]).map((row) => [row.id, row])),
+    models: new Map(((models.data ?? []) as WebhookEvModel[]).map((row) => [row.id, row])),
+  };
+}
+
+/**
+ * Retry due deliveries, then send new matches for every enabled webhook.
+ * `baseUrl` is this deployment's origin (used to run opportunities queries).
+ * Nothing new is started once an attempt could overrun `deadline`; what's
+ * left is picked up next run.
+ */
+export async function runWebhooks(
+  supabase: SupabaseClient,
+  baseUrl: string,
+  { deadline = Date.now() + WEBHOOK_RUN_BUDGET_MS }: { deadline?: number } = {}
+): Promise<WebhookRunSummary> {
+  const summary: WebhookRunSummary = {
+    webhooks_evaluated: 0,
+    sources_evaluated: 0,
+    events_sent: 0,
+    opportunities_sent: 0,
+    retries_attempted: 0,
+    succeeded: 0,
+    failed: 0,
+    disabled: 0,
+  };
+
+  await retryDueWebhookDeliveries(supabase, summary, { deadline });
+
+  const { data: webhookRows, error } = await supabase.from("user_webhooks").select("*").eq("enabled", true);
+  if (error) {
+    console.error("[webhooks] Failed to load webhooks:", error.message);
+    throw error;
+  }
+  const webhooks = (webhookRows ?? []) as WebhookRecord[];
+  if (webhooks.length === 0) return summary;
+
+  const sources = await loadSources(supabase, webhooks);
+  const plans = new Map<string, Promise<UserPlan>>();
+  const queries = new Map<string, Promise<Opportunity[]>>();
+  const evQueries = new Map<string, Promise<PositiveEVOpportunity[]>>();
+  const modelMatches = new Map<string, Promise<WebhookOpportunity[]>>();
+
+  const runQuery = <T>(cache: Map<string, Promise<T[]>>, query: string, run: () => Promise<T[]>, source: WebhookSource) => {
+    if (!cache.has(query)) {
+      cache.set(
+        query,
+        run().catch((err) => {
+          console.warn(`[webhooks] Opportunities query failed for ${source.type} ${source.id}:`, err);
+          return [];
+        })
+      );
+    }
+    return cache.get(query)!;
+  };
+
+  const presetCandidates = async (config: SourceConfig, source: WebhookSource, minEV: number) => {
+    const query = buildOpportunityQuery(config, minEV).toString();
+    const opportunities = await runQuery(queries, query, () => fetchOpportunities(baseUrl, query), source);
+    return opportunities.map(toWebhookOpportunity);
+  };
+
+  // Priced per model + min EV, since projection models re-price every row
+  const modelCandidates = (model: WebhookEvModel, source: WebhookSource, minEV: number) => {
+    const key = `${model.id}:${minEV}`;
+    if (!modelMatches.has(key)) {
+      modelMatches.set(
+        key,
+        (async () => {
+          const results = await Promise.all(
+            buildEvModelQueries(model, minEV).map((params) => {
+              const query = params.toString();
+              return runQuery(evQueries, query, () => fetchPositiveEV(baseUrl, query), source);
+            })
+          );
+          const matches = await priceEvModelMatches(supabase, model, mergeEvModelResults(results), minEV);
+          return matches.map(toWebhookEvOpportunity);
+        })().catch((err) => {
+          console.warn(`[webhooks] Failed to price EV model ${model.id}:`, err);
+          return [];
+        })
+      );
+    }
+    return modelMatches.get(key)!;
+  };
+
+  for (const webhook of webhooks) {
+    if (!hasTimeForAttempt(deadline)) break;
+    if (!plans.has(webhook.user_id)) plans.set(webhook.user_id, getUserPlanById(webhook.user_id));
+    const plan = await plans.get(webhook.user_id)!;
+    if (!hasSharpAccess(plan)) continue;
+    summary.webhooks_evaluated++;
+
+    const minEV = Number(webhook.min_ev) || 0;
+    // Custom EV models are Elite-only on the +EV page
+    const attached: Array<{ type: WebhookSourceType; config: SourceConfig | WebhookEvModel | undefined }> = [
+      ...webhook.filter_preset_ids.map((id) => ({ type: "filter_preset" as const, config: sources.presets.get(id) })),
+      ...(hasEliteAccess(plan)
+        ? webhook.ev_model_ids.map((id) => ({ type: "ev_model" as const, config: sources.models.get(id) }))
+        : []),
+    ];
+
+    for (const { type, config } of attached) {
+      if (config?.user_id !== webhook.user_id) continue;
+      // Stop once an earlier failure in this run disabled the endpoint
+      if (!webhook.enabled || !hasTimeForAttempt(deadline)) break;
+      summary.sources_evaluated++;
+      const source: WebhookSource = { type, id: config.id, name: config.name };
+
+      const candidates =
+        type === "ev_model"
+          ? await modelCandidates(config as WebhookEvModel, source, minEV)
+          : await presetCandidates(config as SourceConfig, source, minEV);
+
+      let unseen: WebhookOpportunity[];
+      try {
+        unseen = await findUnseenOpportunities(webhook.id, source, candidates);
+      } catch (err) {
+        console.error(`[webhooks] Failed to dedupe for webhook ${webhook.id}:`, err);
+        continue;
+      }
+      // The query may have used up the budget; these stay unseen for next run
+      if (unseen.length === 0 || !hasTimeForAttempt(deadline)) continue;
+
+      const payload: WebhookPayload<"opportunity.matched"> = {
+        id: `evt_${randomUUID()}`,
+        type: "opportunity.matched",
+        created_at: new Date().toISOString(),
+        data: {
+          source,
+          opportunities: unseen,
+          url: `${DOMAINS.app}${SOURCE_PAGES[source.type]}`,
+        },
+      };
+
+      // Log before marking seen, so a crash can't drop matches without a delivery row
+      const delivery = await logWebhookEvent(supabase, webhook, payload);
+      if (!delivery) {
+        summary.failed++;
+        continue;
+      }
+      try {
+        await markOpportunitiesSeen(webhook.id, source, unseen);
+      } catch (err) {
+        console.error(`[webhooks] Failed to mark matches seen for webhook ${webhook.id}:`, err);
+      }
+
+      const { result, disabled } = await sendWebhookDelivery(supabase, webhook, delivery);
+      summary.events_sent++;
+      summary.opportunities_sent += unseen.length;
+      if (result.ok) summary.succeeded++;
+      else summary.failed++;
+      if (disabled) summary.disabled++;
+    }
+  }
+
+  return summary;
+}
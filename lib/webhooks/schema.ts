@@ -0,0 +1,87 @@
+/**
+ * Webhook Validation
+ *
+ * zod schemas for creating and updating webhooks. Endpoints must be public
+ * HTTPS URLs so the cron can't be pointed at localhost or private networks.
+ * This only screens the URL text; deliveries also check what the host
+ * resolves to (see network.ts).
+ */
+
+import { z } from "zod";
+
+export const MAX_WEBHOOKS_PER_USER = 5;
+export const MAX_SOURCES_PER_WEBHOOK = 10;
+
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/,
+  /\.localhost$/,
+  /\.local$/,
+  /\.internal$/,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./, // CGNAT
+  /^0\./,
+  /^\[/, // IPv6 literals
+];
+
+export function isPublicHttpsUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" || url.username || url.password) return false;
+    const host = url.hostname.toLowerCase();
+    return !PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host));
+  } catch {
+    return false;
+  }
+}
+
+const urlSchema = z
+  .string()
+  .trim()
+  .max(2048)
+  .url()
+  .refine(isPublicHttpsUrl, { message: "Must be a public https:// URL" });
+
+const idList = z
+  .array(z.string().uuid())
+  .max(MAX_SOURCES_PER_WEBHOOK)
+  .transform((ids) => [...new Set(ids)]);
+
+export const CreateWebhookSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    url: urlSchema,
+    filter_preset_ids: idList.default([]),
+    ev_model_ids: idList.default([]),
+    min_ev: z.number().min(0).max(50).default(0),
+    enabled: z.boolean().default(true),
+  })
+  .refine((input) => input.filter_preset_ids.length + input.ev_model_ids.length > 0, {
+    message: "Select at least one filter preset or EV model",
+    path: ["filter_preset_ids"],
+  })
+  .refine((input) => input.filter_preset_ids.length + input.ev_model_ids.length <= MAX_SOURCES_PER_WEBHOOK, {
+    message: `At most ${MAX_SOURCES_PER_WEBHOOK} presets and models per webhook`,
+    path: ["filter_preset_ids"],
+  });
+
+/** Partial update; re-enabling clears the failure counter */
+export const UpdateWebhookSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  url: urlSchema.optional(),
+  filter_preset_ids: idList.optional(),
+  ev_model_ids: idList.optional(),
+  min_ev: z.number().min(0).max(50).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const WebhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(["succeeded", "retrying", "failed"]).optional(),
+});
+
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
@@ -0,0 +1,59 @@
+/**
+ * Webhook Signing (server)
+ *
+ * Payloads are signed Stripe-style: the X-Unjuiced-Signature header carries
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">` keyed with
+ * the webhook's secret. Receivers recompute the HMAC over the raw body and
+ * reject stale timestamps to prevent replays.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Unjuiced-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-Unjuiced-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Unjuiced-Delivery";
+
+/** Default replay window for verifyWebhookSignature */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SECRET_PREFIX = "whsec_";
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Signature header value for a raw JSON body
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Reference verifier (what receivers are expected to do)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
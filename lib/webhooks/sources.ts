@@ -0,0 +1,32 @@
+/**
+ * Webhook Source Ownership (server)
+ *
+ * Presets and models are attached to a webhook by id, so create/update
+ * routes check every id belongs to the caller before storing it.
+ */
+
+import type { createClient } from "@/libs/supabase/server";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Error message when any attached preset/model isn't the user's, else null
+ */
+export async function findUnownedWebhookSources(
+  supabase: SupabaseClient,
+  userId: string,
+  { filter_preset_ids = [], ev_model_ids = [] }: { filter_preset_ids?: string[]; ev_model_ids?: string[] }
+): Promise<string | null> {
+  const [presets, models] = await Promise.all([
+    filter_preset_ids.length > 0
+      ? supabase.from("user_filter_presets").select("id").eq("user_id", userId).in("id", filter_preset_ids)
+      : Promise.resolve({ data: [] as { id: string }[] }),
+    ev_model_ids.length > 0
+      ? supabase.from("user_ev_models").select("id").eq("user_id", userId).in("id", ev_model_ids)
+      : Promise.resolve({ data: [] as { id: string }[] }),
+  ]);
+
+  if ((presets.data?.length ?? 0) !== filter_preset_ids.length) return "Filter preset not found";
+  if ((models.data?.length ?? 0) !== ev_model_ids.length) return "EV model not found";
+  return null;
+}
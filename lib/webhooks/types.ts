@@ -0,0 +1,143 @@
+/**
+ * Webhook Types
+ *
+ * User-configured outbound webhooks that receive signed JSON payloads when a
+ * saved filter preset or EV model matches new opportunities, and the
+ * delivery log behind them.
+ */
+
+export type WebhookSourceType = "filter_preset" | "ev_model";
+
+export type WebhookEventType = "opportunity.matched" | "webhook.test";
+
+export type WebhookDeliveryStatus = "succeeded" | "retrying" | "failed";
+
+/**
+ * Webhook as returned to its owner (the signing secret is never listed)
+ */
+export interface UserWebhook {
+  id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  filter_preset_ids: string[];
+  ev_model_ids: string[];
+  /** Minimum EV % an opportunity needs to be sent (0 = preset's own filters) */
+  min_ev: number;
+  enabled: boolean;
+  consecutive_failures: number;
+  disabled_at: string | null;
+  disabled_reason: string | null;
+  last_delivery_at: string | null;
+  last_success_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Server-side row including the secret used to sign payloads */
+export interface WebhookRecord extends UserWebhook {
+  secret: string;
+}
+
+export interface WebhookSource {
+  type: WebhookSourceType;
+  id: string;
+  name: string;
+}
+
+/**
+ * One opportunity in an opportunity.matched payload
+ */
+export interface WebhookOpportunity {
+  id: string;
+  sport: string;
+  event_id: string;
+  home_team: string;
+  away_team: string;
+  game_start: string;
+  player: string | null;
+  market: string;
+  market_display: string;
+  line: number;
+  side: string;
+  best_book: string;
+  best_price: string;
+  best_link: string | null;
+  sharp_price: string | null;
+  fair_american: string | null;
+  ev_pct: number | null;
+  edge_pct: number | null;
+  kelly_fraction: number | null;
+}
+
+export interface OpportunityMatchedData {
+  source: WebhookSource;
+  opportunities: WebhookOpportunity[];
+  url: string;
+}
+
+export interface WebhookTestData {
+  webhook_id: string;
+  message: string;
+}
+
+export interface WebhookDataByType {
+  "opportunity.matched": OpportunityMatchedData;
+  "webhook.test": WebhookTestData;
+}
+
+/**
+ * JSON body POSTed to the endpoint. `id` is stable across retries.
+ */
+export interface WebhookPayload<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  created_at: string;
+  data: WebhookDataByType[T];
+}
+
+/** One HTTP attempt in a delivery's log */
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  attempted_at: string;
+  response_code: number | null;
+  response_ms: number;
+  error: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempt: number;
+  response_code: number | null;
+  response_ms: number | null;
+  error: string | null;
+  attempts: WebhookDeliveryAttempt[];
+  next_retry_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Outcome of a single HTTP attempt */
+export interface WebhookAttemptResult {
+  ok: boolean;
+  response_code: number | null;
+  response_ms: number;
+  error: string | null;
+}
+
+export interface WebhookRunSummary {
+  webhooks_evaluated: number;
+  sources_evaluated: number;
+  events_sent: number;
+  opportunities_sent: number;
+  retries_attempted: number;
+  succeeded: number;
+  failed: number;
+  disabled: number;
+}
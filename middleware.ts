@@ -1,7 +1,12 @@
-import { type NextRequest } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 import { updateSession } from "@/libs/supabase/middleware";
 
 export async function middleware(request: NextRequest) {
+  // API-key authenticated public API: never load or refresh a cookie session
+  // (also excluded by the matcher; kept explicit in case the matcher changes)
+  if (request.nextUrl.pathname.startsWith("/api/public/")) {
+    return NextResponse.next();
+  }
   return await updateSession(request);
 }
 
@@ -9,7 +14,9 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except:
-     * - api/public (public API routes)
+     * - api/public (public API routes, incl. the API-key authenticated
+     *   /api/public/v1 REST API: no cookie session to refresh, and callers
+     *   must never be redirected to login)
      * - ingest (PostHog proxy)
      * - _proxy (Dub proxy)
      * - _next/static (static files)
@@ -0,0 +1,36 @@
+-- Automatic betslip settlement
+-- Leg-level grades live on user_betslip_items; slip-level results on user_betslips.
+-- Written by the /api/cron/settle-betslips job (service role).
+
+ALTER TABLE public.user_betslip_items
+  ADD COLUMN IF NOT EXISTS result text DEFAULT 'pending'
+    CHECK (result IN ('pending', 'won', 'lost', 'push', 'void')),
+  ADD COLUMN IF NOT EXISTS actual_value numeric,
+  ADD COLUMN IF NOT EXISTS void_reason text
+    CHECK (void_reason IN ('dnp', 'scratched', 'postponed')),
+  ADD COLUMN IF NOT EXISTS graded_at timestamptz;
+
+COMMENT ON COLUMN public.user_betslip_items.actual_value IS
+'Final stat (player props) or score/margin (game lines) the leg was graded against.';
+
+ALTER TABLE public.user_betslips
+  ADD COLUMN IF NOT EXISTS settled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS settled_payout numeric,
+  ADD COLUMN IF NOT EXISTS settled_odds integer,
+  ADD COLUMN IF NOT EXISTS auto_settled boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS settlement_checked_at timestamptz;
+
+COMMENT ON COLUMN public.user_betslips.settled_payout IS
+'Total returned including stake. 0 for a loss, stake for a void. Reflects parlay repricing after pushed/voided legs.';
+
+COMMENT ON COLUMN public.user_betslips.settled_odds IS
+'Effective American odds after dropping pushed/voided legs.';
+
+COMMENT ON COLUMN public.user_betslips.settlement_checked_at IS
+'Last time the settlement cron looked at this slip. The cron takes the least recently checked slips first, so slips with legs that can never be auto-graded rotate to the back instead of starving newer ones.';
+
+-- Settlement cron scans placed slips least recently checked first
+DROP INDEX IF EXISTS public.idx_user_betslips_placed;
+CREATE INDEX IF NOT EXISTS idx_user_betslips_settlement_queue
+  ON public.user_betslips(settlement_checked_at NULLS FIRST, placed_at)
+  WHERE status = 'placed';
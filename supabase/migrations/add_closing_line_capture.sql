@@ -0,0 +1,40 @@
+-- Closing line value (CLV)
+-- Fair closing price for each favorite, captured at event start by the
+-- /api/cron/capture-closing-lines job using the owner's sharp preset and
+-- de-vig methods. Placed betslips get the product of their legs' closes.
+
+ALTER TABLE public.user_favorites
+  ADD COLUMN IF NOT EXISTS closing_fair_odds integer,
+  ADD COLUMN IF NOT EXISTS closing_fair_prob numeric(6, 5),
+  ADD COLUMN IF NOT EXISTS closing_best_price integer,
+  ADD COLUMN IF NOT EXISTS closing_best_book text,
+  ADD COLUMN IF NOT EXISTS closing_sharp_preset text,
+  ADD COLUMN IF NOT EXISTS closing_captured_at timestamptz,
+  ADD COLUMN IF NOT EXISTS clv_percent numeric;
+
+COMMENT ON COLUMN public.user_favorites.closing_fair_odds IS
+'De-vigged fair American odds for the saved side at event start.';
+
+COMMENT ON COLUMN public.user_favorites.closing_sharp_preset IS
+'Sharp preset the close was priced against, or market_average when no preset book quoted both sides.';
+
+COMMENT ON COLUMN public.user_favorites.clv_percent IS
+'(decimal best_price_at_save / decimal closing_fair_odds - 1) * 100.';
+
+ALTER TABLE public.user_betslips
+  ADD COLUMN IF NOT EXISTS clv_percent numeric;
+
+COMMENT ON COLUMN public.user_betslips.closing_odds IS
+'Fair closing odds: product of every leg''s closing_fair_odds (decimal). Set once all legs are captured.';
+
+COMMENT ON COLUMN public.user_betslips.clv_percent IS
+'(decimal placed_odds / decimal closing_odds - 1) * 100.';
+
+-- Capture cron scans favorites by start_time
+CREATE INDEX IF NOT EXISTS idx_user_favorites_start_time
+  ON public.user_favorites(start_time);
+
+-- CLV report reads a user's captured favorites
+CREATE INDEX IF NOT EXISTS idx_user_favorites_clv
+  ON public.user_favorites(user_id, closing_captured_at)
+  WHERE closing_captured_at IS NOT NULL;
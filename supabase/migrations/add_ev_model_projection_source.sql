@@ -0,0 +1,14 @@
+-- Projection fair source for EV models
+-- Fair probability can come from the de-vigged sharp market (default), the
+-- hit-rate projection model, or a weighted blend of the two.
+
+ALTER TABLE public.user_ev_models
+  ADD COLUMN IF NOT EXISTS fair_source text NOT NULL DEFAULT 'market'
+    CHECK (fair_source IN ('market', 'model', 'blend')),
+  ADD COLUMN IF NOT EXISTS projection_weights jsonb;
+
+COMMENT ON COLUMN public.user_ev_models.fair_source IS
+'Which fair probability ranks the model''s opportunities: market (de-vigged sharp books), model (hit-rate projection) or blend.';
+
+COMMENT ON COLUMN public.user_ev_models.projection_weights IS
+'Hit-rate projection weights: {l5, l10, l20, season, h2h} relative window weights, {dvp, pace, injury} adjustment strength 0-100, market share 0-100 of the blend. NULL = defaults.';
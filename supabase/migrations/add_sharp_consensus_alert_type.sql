@@ -0,0 +1,9 @@
+-- Sharp consensus alert rules: several S/A-tier Polymarket wallets piling
+-- onto the same side of a market within a window (Elite only).
+
+ALTER TABLE public.user_alert_rules
+  DROP CONSTRAINT IF EXISTS user_alert_rules_type_check;
+
+ALTER TABLE public.user_alert_rules
+  ADD CONSTRAINT user_alert_rules_type_check
+  CHECK (type IN ('ev', 'arb', 'line_move', 'sharp_consensus'));
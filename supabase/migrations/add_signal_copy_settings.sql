@@ -0,0 +1,9 @@
+-- Follow-portfolio simulator settings for Sharp Intel
+-- Stored with the other signal_* preferences so the simulated portfolio
+-- replays the same sizing, delay and slippage on every visit.
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS signal_copy_settings jsonb;
+
+COMMENT ON COLUMN public.user_preferences.signal_copy_settings IS
+'Copy-trading simulator settings: {bankroll, sizing: flat|proportional|kelly, unit, kelly_fraction, max_stake_pct, entry_delay_minutes, slippage_cents, days}. NULL = defaults.';
@@ -0,0 +1,89 @@
+-- User-defined alert rules evaluated by the evaluate-alerts cron, where they
+-- are delivered, and a history log of every alert sent.
+
+CREATE TABLE IF NOT EXISTS public.user_alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('ev', 'arb', 'line_move')),
+  -- Shape depends on type; validated by lib/alerts/schema.ts
+  conditions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  channels text[] NOT NULL DEFAULT ARRAY['email']::text[]
+    CHECK (channels <@ ARRAY['email', 'web_push', 'discord', 'slack']::text[]),
+  enabled boolean NOT NULL DEFAULT true,
+  cooldown_minutes integer NOT NULL DEFAULT 60 CHECK (cooldown_minutes BETWEEN 5 AND 1440),
+  last_triggered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON public.user_alert_rules(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON public.user_alert_rules(enabled) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS public.user_alert_destinations (
+  -- Email alerts always go to the account email (verified by Supabase auth)
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  discord_webhook_url text,
+  slack_webhook_url text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.user_push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.user_push_subscriptions(user_id);
+
+CREATE TABLE IF NOT EXISTS public.user_alert_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id uuid REFERENCES public.user_alert_rules(id) ON DELETE SET NULL,
+  rule_name text NOT NULL,
+  rule_type text NOT NULL,
+  dedupe_key text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  url text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- { "email": "sent", "discord": "failed", ... }
+  deliveries jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_user_created
+  ON public.user_alert_history(user_id, created_at DESC);
+
+ALTER TABLE public.user_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_alert_destinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_alert_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own alert rules"
+  ON public.user_alert_rules FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own alert destinations"
+  ON public.user_alert_destinations FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own push subscriptions"
+  ON public.user_push_subscriptions FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- History is written by the cron (service role); users can only read it
+CREATE POLICY "Users view own alert history"
+  ON public.user_alert_history FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,80 @@
+-- Personal API keys for the public read-only REST API (/api/public/v1) and
+-- their daily usage. Only the SHA-256 of a key is stored; the secret is shown
+-- once at creation / rotation.
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 64),
+  -- First characters of the key, for display ("uj_3kF9x2...")
+  prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  -- Validated by lib/public-api/scopes.ts; re-checked against the plan per request
+  scopes text[] NOT NULL DEFAULT ARRAY[]::text[],
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON public.api_keys(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.api_key_usage (
+  key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  requests integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_user_day ON public.api_key_usage(user_id, day DESC);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created, rotated and revoked through /api/user/api-keys (which
+-- hashes the secret server-side); users can only read their own rows
+CREATE POLICY "Users view own api keys"
+  ON public.api_keys FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users view own api key usage"
+  ON public.api_key_usage FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Meter one request against the user's daily quota (summed across all of
+-- their keys, UTC day). Serialised per user so concurrent requests can't
+-- both slip under the limit.
+CREATE OR REPLACE FUNCTION public.consume_api_key_quota(p_key_id uuid, p_user_id uuid, p_daily_limit integer)
+RETURNS TABLE (allowed boolean, used integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_day date := (now() AT TIME ZONE 'utc')::date;
+  v_used integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('api_quota:' || p_user_id::text));
+
+  SELECT COALESCE(SUM(requests), 0) INTO v_used
+  FROM public.api_key_usage
+  WHERE user_id = p_user_id AND day = v_day;
+
+  IF v_used >= p_daily_limit THEN
+    RETURN QUERY SELECT false, v_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.api_key_usage (key_id, user_id, day, requests)
+  VALUES (p_key_id, p_user_id, v_day, 1)
+  ON CONFLICT (key_id, day) DO UPDATE SET requests = public.api_key_usage.requests + 1;
+
+  UPDATE public.api_keys SET last_used_at = now() WHERE id = p_key_id;
+
+  RETURN QUERY SELECT true, v_used + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_key_quota(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,193 @@
+-- Bankroll tracker: per-user settings and an immutable, append-only ledger.
+-- Balances are derived from ledger rows; corrections are new 'adjustment' rows.
+
+-- Closing price at the placed book (captured at event start) for CLV analytics
+ALTER TABLE public.user_betslips
+  ADD COLUMN IF NOT EXISTS closing_odds integer;
+
+CREATE TABLE IF NOT EXISTS public.user_bankroll_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  unit_size numeric NOT NULL DEFAULT 100 CHECK (unit_size > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.user_bankroll_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN (
+    'opening_balance', 'deposit', 'withdrawal', 'adjustment', 'bet_placed', 'bet_settled'
+  )),
+  sportsbook text,
+  -- Signed: money into the bankroll is positive, money out negative
+  amount numeric NOT NULL,
+  betslip_id uuid REFERENCES public.user_betslips(id) ON DELETE SET NULL,
+  stake numeric,
+  payout numeric,
+  odds integer,
+  closing_odds integer,
+  result text CHECK (result IN ('won', 'lost', 'void')),
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bankroll_ledger_user_created
+  ON public.user_bankroll_ledger(user_id, created_at DESC);
+
+-- One placement and one settlement row per betslip; later corrections to
+-- either are 'adjustment' rows carrying the betslip_id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bankroll_ledger_betslip_bet_entry
+  ON public.user_bankroll_ledger(betslip_id, entry_type)
+  WHERE betslip_id IS NOT NULL AND entry_type IN ('bet_placed', 'bet_settled');
+
+-- Ledger is append-only
+CREATE OR REPLACE FUNCTION public.prevent_bankroll_ledger_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'user_bankroll_ledger is append-only; add an adjustment entry instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bankroll_ledger_immutable ON public.user_bankroll_ledger;
+CREATE TRIGGER trg_bankroll_ledger_immutable
+  BEFORE UPDATE OR DELETE ON public.user_bankroll_ledger
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() < 1)
+  EXECUTE FUNCTION public.prevent_bankroll_ledger_mutation();
+
+-- Keep a betslip's ledger rows in step with the slip. Runs for manual edits
+-- and the settle-betslips cron, and books the difference between what the
+-- ledger already holds for the slip and what it should hold now:
+-- - Stake side (rows with payout IS NULL): bet_placed on first placement,
+--   then adjustments when the stake changes or the slip leaves 'placed'
+--   for a non-bet status
+-- - Settlement side (rows with payout set): bet_settled on first settlement,
+--   then adjustments when the result or payout changes, including a
+--   reversing row when a settled slip goes back to 'placed'
+-- Adjustment rows record the stake / payout / result in effect afterwards.
+CREATE OR REPLACE FUNCTION public.record_betslip_ledger_entries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_bet boolean;
+  v_target_stake numeric;
+  v_target_payout numeric;
+  v_target_result text;
+  v_booked_stake numeric;
+  v_booked_payout numeric;
+  v_booked_result text;
+  v_has_placed boolean;
+  v_has_settled boolean;
+BEGIN
+  v_is_bet := NEW.status IN ('placed', 'won', 'lost', 'void')
+    AND NEW.stake_amount IS NOT NULL AND NEW.stake_amount > 0;
+
+  v_target_stake := CASE WHEN v_is_bet THEN NEW.stake_amount ELSE 0 END;
+  v_target_result := CASE WHEN v_is_bet AND NEW.status <> 'placed' THEN NEW.status END;
+  v_target_payout := CASE
+    WHEN v_target_result IS NULL THEN 0
+    ELSE COALESCE(
+      NEW.settled_payout,
+      CASE NEW.status
+        WHEN 'won' THEN NEW.potential_payout
+        WHEN 'void' THEN NEW.stake_amount
+        ELSE 0
+      END,
+      0
+    )
+  END;
+
+  SELECT
+    COALESCE(-SUM(amount) FILTER (WHERE payout IS NULL), 0),
+    COALESCE(SUM(amount) FILTER (WHERE payout IS NOT NULL), 0),
+    COALESCE(bool_or(entry_type = 'bet_placed'), false),
+    COALESCE(bool_or(entry_type = 'bet_settled'), false)
+  INTO v_booked_stake, v_booked_payout, v_has_placed, v_has_settled
+  FROM public.user_bankroll_ledger
+  WHERE betslip_id = NEW.id;
+
+  SELECT result INTO v_booked_result
+  FROM public.user_bankroll_ledger
+  WHERE betslip_id = NEW.id AND payout IS NOT NULL
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  -- Stake side
+  IF v_target_stake <> v_booked_stake THEN
+    IF NOT v_has_placed THEN
+      INSERT INTO public.user_bankroll_ledger
+        (user_id, entry_type, sportsbook, amount, betslip_id, stake, odds, created_at)
+      VALUES
+        (NEW.user_id, 'bet_placed', NEW.placed_book, -v_target_stake, NEW.id, v_target_stake,
+         NEW.placed_odds, clock_timestamp());
+    ELSE
+      INSERT INTO public.user_bankroll_ledger
+        (user_id, entry_type, sportsbook, amount, betslip_id, stake, odds, note, created_at)
+      VALUES
+        (NEW.user_id, 'adjustment', NEW.placed_book, v_booked_stake - v_target_stake, NEW.id,
+         v_target_stake, NEW.placed_odds,
+         CASE WHEN v_target_stake = 0 THEN 'Bet placement reversed' ELSE 'Bet stake changed' END,
+         clock_timestamp());
+    END IF;
+  END IF;
+
+  -- Settlement side
+  IF v_target_result IS DISTINCT FROM v_booked_result OR v_target_payout <> v_booked_payout THEN
+    IF NOT v_has_settled THEN
+      INSERT INTO public.user_bankroll_ledger
+        (user_id, entry_type, sportsbook, amount, betslip_id, stake, payout, odds, closing_odds, result, created_at)
+      VALUES
+        (NEW.user_id, 'bet_settled', NEW.placed_book, v_target_payout, NEW.id, v_target_stake,
+         v_target_payout, COALESCE(NEW.settled_odds, NEW.placed_odds), NEW.closing_odds,
+         v_target_result, clock_timestamp());
+    ELSE
+      INSERT INTO public.user_bankroll_ledger
+        (user_id, entry_type, sportsbook, amount, betslip_id, stake, payout, odds, closing_odds, result, note, created_at)
+      VALUES
+        (NEW.user_id, 'adjustment', NEW.placed_book, v_target_payout - v_booked_payout, NEW.id,
+         v_target_stake, v_target_payout, COALESCE(NEW.settled_odds, NEW.placed_odds), NEW.closing_odds,
+         v_target_result,
+         CASE WHEN v_target_result IS NULL THEN 'Bet settlement reversed' ELSE 'Bet re-settled' END,
+         clock_timestamp());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_betslip_ledger_entries ON public.user_betslips;
+CREATE TRIGGER trg_betslip_ledger_entries
+  AFTER INSERT OR UPDATE OF status, stake_amount, settled_payout ON public.user_betslips
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_betslip_ledger_entries();
+
+-- RLS
+ALTER TABLE public.user_bankroll_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_bankroll_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bankroll settings"
+  ON public.user_bankroll_settings FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users view own ledger"
+  ON public.user_bankroll_ledger FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Users may only append cash movements; bet rows come from the trigger
+CREATE POLICY "Users append own cash entries"
+  ON public.user_bankroll_ledger FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND entry_type IN ('opening_balance', 'deposit', 'withdrawal', 'adjustment')
+    AND betslip_id IS NULL
+  );
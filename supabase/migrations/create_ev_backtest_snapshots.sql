@@ -0,0 +1,47 @@
+-- Two-way markets sampled from the odds feed for backtesting EV models and
+-- sharp presets. The capture-backtest-snapshots cron records every book's
+-- price on both sides while a market is open, then grades it once final.
+
+CREATE TABLE IF NOT EXISTS public.ev_backtest_markets (
+  -- {sport}:{event_id}:{market}:{entity}:{line}
+  id text PRIMARY KEY,
+  sport text NOT NULL,
+  event_id text NOT NULL,
+  market text NOT NULL,
+  market_type text NOT NULL CHECK (market_type IN ('player', 'game')),
+  player_id text,
+  player_name text,
+  home_team text,
+  away_team text,
+  -- Side A is "over" for totals/props and the home team for moneylines/spreads
+  side_a text NOT NULL CHECK (side_a IN ('over', 'home')),
+  -- Line on side A (home line for spreads); null for moneylines
+  line numeric,
+  start_time timestamptz NOT NULL,
+  -- Graded from side A's perspective: won = side A hit
+  result text CHECK (result IN ('won', 'lost', 'push', 'void')),
+  actual_value numeric,
+  graded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ev_backtest_markets_sport_start
+  ON public.ev_backtest_markets(sport, start_time DESC);
+CREATE INDEX IF NOT EXISTS idx_ev_backtest_markets_ungraded
+  ON public.ev_backtest_markets(start_time)
+  WHERE result IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.ev_backtest_snapshots (
+  id bigserial PRIMARY KEY,
+  market_id text NOT NULL REFERENCES public.ev_backtest_markets(id) ON DELETE CASCADE,
+  captured_at timestamptz NOT NULL DEFAULT now(),
+  -- {"pinnacle": [-115, -105], "draftkings": [-120, 100]} as [side A, side B] American odds
+  prices jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ev_backtest_snapshots_market
+  ON public.ev_backtest_snapshots(market_id, captured_at);
+
+-- Written by the service role only; backtests read through the API
+ALTER TABLE public.ev_backtest_markets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ev_backtest_snapshots ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,72 @@
+-- Long-term odds archive. The archive-odds cron listens to the odds pub/sub
+-- channels and writes each selection's price changes as delta-encoded chunks:
+-- base_ts / base_price hold the first point, ts_deltas / price_deltas every
+-- following point relative to the one before. Partitioned by month on the
+-- chunk's start date so old months can be detached or dropped wholesale.
+
+CREATE TABLE IF NOT EXISTS public.odds_archive_chunks (
+  id bigserial,
+  -- UTC date of start_ts (partition key)
+  bucket_date date NOT NULL,
+  sport text NOT NULL,
+  event_id text NOT NULL,
+  market text NOT NULL,
+  book text NOT NULL,
+  -- Feed odd_id, or the selection key within the book blob
+  selection_key text NOT NULL,
+  player_id text,
+  player_name text,
+  side text,
+  line numeric,
+  -- Epoch ms
+  start_ts bigint NOT NULL,
+  end_ts bigint NOT NULL,
+  base_ts bigint NOT NULL,
+  base_price integer NOT NULL,
+  ts_deltas integer[] NOT NULL DEFAULT '{}',
+  price_deltas integer[] NOT NULL DEFAULT '{}',
+  points integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (bucket_date, id)
+) PARTITION BY RANGE (bucket_date);
+
+CREATE INDEX IF NOT EXISTS idx_odds_archive_chunks_event
+  ON public.odds_archive_chunks(sport, event_id, market, book, start_ts);
+CREATE INDEX IF NOT EXISTS idx_odds_archive_chunks_player
+  ON public.odds_archive_chunks(sport, player_id, start_ts)
+  WHERE player_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_odds_archive_chunks_time
+  ON public.odds_archive_chunks(sport, start_ts);
+
+-- Create the monthly partitions covering p_months months from p_from.
+-- Called by the capture cron before every window, so it must be idempotent.
+CREATE OR REPLACE FUNCTION public.ensure_odds_archive_partitions(p_from date, p_months integer DEFAULT 2)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  month_start date;
+  partition_name text;
+BEGIN
+  FOR i IN 0..GREATEST(p_months, 1) - 1 LOOP
+    month_start := (date_trunc('month', p_from) + make_interval(months => i))::date;
+    partition_name := format('odds_archive_chunks_%s', to_char(month_start, 'YYYY_MM'));
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS public.%I PARTITION OF public.odds_archive_chunks FOR VALUES FROM (%L) TO (%L)',
+      partition_name,
+      month_start,
+      (month_start + interval '1 month')::date
+    );
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', partition_name);
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ensure_odds_archive_partitions(date, integer) FROM PUBLIC, anon, authenticated;
+
+SELECT public.ensure_odds_archive_partitions(current_date, 2);
+
+-- Written by the service role only; reads go through the archive API
+ALTER TABLE public.odds_archive_chunks ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,62 @@
+-- Whale wallet clusters. The cluster-polymarket-wallets cron groups wallets
+-- that look like one bettor and rewrites these rows every run; members and
+-- evidence are denormalised as jsonb so the leaderboard reads one row.
+
+CREATE TABLE IF NOT EXISTS public.polymarket_wallet_clusters (
+  cluster_id text PRIMARY KEY,
+  -- Best-ranked member; the leaderboard shows the cluster on this row
+  primary_wallet text NOT NULL,
+  wallet_addresses text[] NOT NULL DEFAULT '{}',
+  size integer NOT NULL,
+  confidence numeric NOT NULL,
+  -- { co_timing, sequence, funding, stake }, each 0-1
+  evidence jsonb NOT NULL DEFAULT '{}'::jsonb,
+  members jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total_bets integer NOT NULL DEFAULT 0,
+  wins integer NOT NULL DEFAULT 0,
+  losses integer NOT NULL DEFAULT 0,
+  win_rate numeric,
+  roi numeric,
+  total_wagered numeric NOT NULL DEFAULT 0,
+  total_profit numeric NOT NULL DEFAULT 0,
+  avg_stake numeric NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_polymarket_wallet_clusters_wallets
+  ON public.polymarket_wallet_clusters USING gin (wallet_addresses);
+
+-- First USDC funder of each wallet on Polygon, looked up a few per run
+CREATE TABLE IF NOT EXISTS public.polymarket_wallet_funding (
+  wallet_address text PRIMARY KEY,
+  funder text,
+  funded_at timestamptz,
+  checked_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_polymarket_wallet_funding_funder
+  ON public.polymarket_wallet_funding(funder)
+  WHERE funder IS NOT NULL;
+
+ALTER TABLE public.polymarket_wallet_scores
+  ADD COLUMN IF NOT EXISTS cluster_id text,
+  ADD COLUMN IF NOT EXISTS is_cluster_primary boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.polymarket_wallet_scores.cluster_id IS
+  'Cluster this wallet belongs to (polymarket_wallet_clusters.cluster_id), set by the clustering cron';
+COMMENT ON COLUMN public.polymarket_wallet_scores.is_cluster_primary IS
+  'True for the member the grouped leaderboard shows the cluster on';
+
+CREATE INDEX IF NOT EXISTS idx_polymarket_wallet_scores_cluster
+  ON public.polymarket_wallet_scores(cluster_id)
+  WHERE cluster_id IS NOT NULL;
+
+ALTER TABLE public.polymarket_wallet_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.polymarket_wallet_funding ENABLE ROW LEVEL SECURITY;
+
+-- Clusters are read with the user's session by the Elite-gated routes;
+-- funding stays service-role only
+CREATE POLICY "Authenticated users read wallet clusters"
+  ON public.polymarket_wallet_clusters FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,121 @@
+-- Persisted Stripe webhook events (keyed by Stripe event id) so retries are
+-- idempotent and events can be replayed, plus an ordering guard on
+-- billing.subscriptions so an out-of-order customer.subscription.* event
+-- can't overwrite newer state (which current_entitlements is derived from).
+
+CREATE TABLE IF NOT EXISTS billing.stripe_events (
+  id text PRIMARY KEY, -- Stripe event id (evt_...)
+  type text NOT NULL,
+  livemode boolean NOT NULL DEFAULT false,
+  api_version text,
+  -- event.created; used to order events for the same subscription
+  stripe_created_at timestamptz NOT NULL,
+  stripe_subscription_id text,
+  stripe_customer_id text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'skipped', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  -- Why a handled event made no change (stale, unhandled type, no user, ...)
+  note text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processing_started_at timestamptz,
+  processed_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_subscription
+  ON billing.stripe_events(stripe_subscription_id, stripe_created_at DESC)
+  WHERE stripe_subscription_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status_received
+  ON billing.stripe_events(status, received_at DESC);
+
+-- Service role only
+ALTER TABLE billing.stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Creation time of the newest Stripe state written to the row (event.created
+-- for webhooks, fetch time for live reads from checkout / reconciliation)
+ALTER TABLE billing.subscriptions
+  ADD COLUMN IF NOT EXISTS last_stripe_event_at timestamptz;
+
+-- Atomically move an event to 'processing'. Fails if it's already done
+-- (unless p_force, used by replays) or another delivery is mid-flight;
+-- a 'processing' claim older than 5 minutes is treated as abandoned.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(p_event_id text, p_force boolean DEFAULT false)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_claimed boolean;
+BEGIN
+  UPDATE billing.stripe_events
+  SET status = 'processing',
+      attempts = attempts + 1,
+      processing_started_at = now(),
+      updated_at = now()
+  WHERE id = p_event_id
+    AND (status <> 'processing' OR processing_started_at < now() - interval '5 minutes')
+    AND (p_force OR status IN ('received', 'failed', 'processing'))
+  RETURNING true INTO v_claimed;
+
+  RETURN COALESCE(v_claimed, false);
+END;
+$$;
+
+-- Upsert a subscription row if p_state_at is newer than the stored state.
+-- Returns 'applied', 'stale' (stored state is newer) or 'tied' (same
+-- timestamp). event.created has one-second resolution, so a tie can't be
+-- ordered here; the caller re-fetches the subscription from Stripe and
+-- writes that, stamped with the fetch time.
+DROP FUNCTION IF EXISTS public.apply_stripe_subscription_state(jsonb, timestamptz);
+CREATE FUNCTION public.apply_stripe_subscription_state(p_subscription jsonb, p_state_at timestamptz)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_applied boolean;
+  v_stored_at timestamptz;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('stripe_sub:' || (p_subscription->>'stripe_subscription_id')));
+
+  INSERT INTO billing.subscriptions AS s (
+    user_id, stripe_customer_id, stripe_subscription_id, price_id, status,
+    current_period_start, current_period_end, cancel_at_period_end, canceled_at,
+    updated_at, last_stripe_event_at
+  )
+  SELECT
+    r.user_id, r.stripe_customer_id, r.stripe_subscription_id, r.price_id, r.status,
+    r.current_period_start, r.current_period_end, r.cancel_at_period_end, r.canceled_at,
+    now(), p_state_at
+  FROM jsonb_populate_record(NULL::billing.subscriptions, p_subscription) AS r
+  ON CONFLICT (stripe_subscription_id) DO UPDATE SET
+    user_id = EXCLUDED.user_id,
+    stripe_customer_id = EXCLUDED.stripe_customer_id,
+    price_id = EXCLUDED.price_id,
+    status = EXCLUDED.status,
+    current_period_start = EXCLUDED.current_period_start,
+    current_period_end = EXCLUDED.current_period_end,
+    cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+    canceled_at = EXCLUDED.canceled_at,
+    updated_at = EXCLUDED.updated_at,
+    last_stripe_event_at = EXCLUDED.last_stripe_event_at
+  WHERE s.last_stripe_event_at IS NULL OR s.last_stripe_event_at < EXCLUDED.last_stripe_event_at
+  RETURNING true INTO v_applied;
+
+  IF v_applied THEN
+    RETURN 'applied';
+  END IF;
+
+  SELECT last_stripe_event_at INTO v_stored_at
+  FROM billing.subscriptions
+  WHERE stripe_subscription_id = p_subscription->>'stripe_subscription_id';
+
+  RETURN CASE WHEN v_stored_at = p_state_at THEN 'tied' ELSE 'stale' END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_event(text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_stripe_subscription_state(jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
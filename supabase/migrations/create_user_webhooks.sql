@@ -0,0 +1,75 @@
+-- User-configured outbound webhooks fired by the deliver-webhooks cron when a
+-- saved filter preset or EV model matches new opportunities, and a log of
+-- every delivery attempt (including retries and test sends).
+
+CREATE TABLE IF NOT EXISTS public.user_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  url text NOT NULL CHECK (url LIKE 'https://%'),
+  -- HMAC-SHA256 signing secret; only returned to the owner on create/rotate
+  secret text NOT NULL,
+  filter_preset_ids uuid[] NOT NULL DEFAULT ARRAY[]::uuid[],
+  ev_model_ids uuid[] NOT NULL DEFAULT ARRAY[]::uuid[],
+  min_ev numeric NOT NULL DEFAULT 0 CHECK (min_ev BETWEEN 0 AND 50),
+  enabled boolean NOT NULL DEFAULT true,
+  -- Failed attempts since the last success; the endpoint is disabled at the
+  -- threshold in lib/webhooks/deliver.ts
+  consecutive_failures integer NOT NULL DEFAULT 0,
+  disabled_at timestamptz,
+  disabled_reason text,
+  last_delivery_at timestamptz,
+  last_success_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_webhooks_user ON public.user_webhooks(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_webhooks_enabled ON public.user_webhooks(enabled) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS public.user_webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid NOT NULL REFERENCES public.user_webhooks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Stable across retries so receivers can dedupe
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  -- Rows are written before the first send as 'retrying' with attempt 0 and
+  -- next_retry_at as a lease, so an interrupted send is retried
+  status text NOT NULL CHECK (status IN ('succeeded', 'retrying', 'failed')),
+  attempt integer NOT NULL DEFAULT 1,
+  -- Latest attempt; every attempt is kept in `attempts`
+  response_code integer,
+  response_ms integer,
+  error text,
+  -- [{ attempt, attempted_at, response_code, response_ms, error }], oldest first
+  attempts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  next_retry_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_webhook_deliveries
+  ADD COLUMN IF NOT EXISTS attempts jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created
+  ON public.user_webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_retry
+  ON public.user_webhook_deliveries(next_retry_at) WHERE status = 'retrying';
+
+ALTER TABLE public.user_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own webhooks"
+  ON public.user_webhooks FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Deliveries are written by the cron and test-send route (service role);
+-- users can only read them
+CREATE POLICY "Users view own webhook deliveries"
+  ON public.user_webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);